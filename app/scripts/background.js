@@ -59,6 +59,7 @@ import {
   backedUpStateKeys,
   PersistenceManager,
 } from './lib/stores/persistence-manager';
+import { StateSnapshotReason } from '../../shared/constants/state-corruption';
 import ExtensionStore from './lib/stores/extension-store';
 import { FixtureExtensionStore } from './lib/stores/fixture-extension-store';
 import migrations from './migrations';
@@ -121,7 +122,8 @@ const localStore = useFixtureStore
   : new ExtensionStore();
 const persistenceManager = new PersistenceManager({ localStore });
 
-const { update, requestSafeReload } = getRequestSafeReload(persistenceManager);
+const { update, requestSafeReload, restoreStateAndReload } =
+  getRequestSafeReload(persistenceManager);
 
 // Setup global hook for improved Sentry state snapshots during initialization
 global.stateHooks.getMostRecentPersistedState = () =>
@@ -566,6 +568,15 @@ const handleOnConnect = async (port) => {
             await initBackground(null);
           }
         },
+        restoreSnapshotCallback: async (snapshot) => {
+          setGlobalInitializers();
+
+          // replace the corrupted state with the snapshot, which is migrated
+          // by `initBackground` if it was taken by an older version.
+          persistenceManager.setMetadata(snapshot.meta);
+          await persistenceManager.set(snapshot.data);
+          await initBackground(null);
+        },
       });
     } else {
       const errorLike = isObject(error)
@@ -936,6 +947,24 @@ export async function loadStateFromPersistence(backup) {
     preMigrationVersionedData = migrator.generateInitialState(firstTimeState);
   }
 
+  // take a snapshot of the persisted state before migrating it, so it can be
+  // restored if a migration loses or corrupts data
+  if (
+    !backup &&
+    preMigrationVersionedData.data &&
+    preMigrationVersionedData.meta?.version < migrator.defaultVersion
+  ) {
+    try {
+      await persistenceManager.createStateSnapshot(
+        preMigrationVersionedData,
+        StateSnapshotReason.Migration,
+      );
+    } catch (error) {
+      log.error('MetaMask - Failed to take state snapshot', error);
+      sentry?.captureException(error);
+    }
+  }
+
   // migrate data
   const versionedData = await migrator.migrateData(preMigrationVersionedData);
   if (!versionedData) {
@@ -1146,6 +1175,9 @@ export function setupController(
     offscreenPromise,
     preinstalledSnaps,
     requestSafeReload,
+    restoreStateAndReload,
+    getStateSnapshots: () => persistenceManager.getStateSnapshots(),
+    getStateSnapshot: (id) => persistenceManager.getStateSnapshot(id),
     cronjobControllerStorageManager,
   });
 
@@ -57,6 +57,7 @@ export const SENTRY_BACKGROUND_STATE = {
     connectedStatusPopoverHasBeenShown: true,
     currentPopupId: false,
     onboardingDate: false,
+    originThrottlingConfig: false,
     currentExtensionPopupId: false,
     defaultHomeActiveTabName: true,
     enableEnforcedSimulations: true,
@@ -75,6 +76,13 @@ export const SENTRY_BACKGROUND_STATE = {
     activeQrCodeScanRequest: true,
     recoveryPhraseReminderHasBeenShown: true,
     recoveryPhraseReminderLastShown: true,
+    lastCopiedAddress: false,
+    securityAlertHistory: false,
+    connectionExpiries: false,
+    contactGuardRails: false,
+    contractAbiSummaries: false,
+    contractAbis: false,
+    delegationTargets: false,
     showBetaHeader: true,
     productTour: true,
     showPermissionsTour: true,
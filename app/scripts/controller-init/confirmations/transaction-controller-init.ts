@@ -1,5 +1,6 @@
 import { PRODUCT_TYPES } from '@metamask/subscription-controller';
 import {
+  type AfterSimulateHook,
   type PublishBatchHookRequest,
   type PublishBatchHookTransaction,
   SavedGasFees,
@@ -13,6 +14,7 @@ import {
   SmartTransactionStatuses,
 } from '@metamask/smart-transactions-controller';
 import { Hex } from '@metamask/utils';
+import { cloneDeep } from 'lodash';
 import { NetworkClientId } from '@metamask/network-controller';
 import { toHex } from '@metamask/controller-utils';
 import { trace } from '../../../../shared/lib/trace';
@@ -27,6 +29,7 @@ import {
 } from '../../lib/smart-transaction/smart-transactions';
 import { Delegation7702PublishHook } from '../../lib/transaction/hooks/delegation-7702-publish';
 import { EnforceSimulationHook } from '../../lib/transaction/hooks/enforce-simulation-hook';
+import { TraceSimulationHook } from '../../lib/transaction/hooks/trace-simulation-hook';
 import {
   handlePostTransactionBalanceUpdate,
   handleTransactionAdded,
@@ -163,9 +166,14 @@ export const TransactionControllerInit: ControllerInitFunction<
           },
         };
       },
-      afterSimulate: new EnforceSimulationHook({
-        messenger: initMessenger,
-      }).getAfterSimulateHook(),
+      afterSimulate: chainAfterSimulateHooks(
+        new TraceSimulationHook({
+          messenger: initMessenger,
+        }).getAfterSimulateHook(),
+        new EnforceSimulationHook({
+          messenger: initMessenger,
+        }).getAfterSimulateHook(),
+      ),
       beforePublish: (transactionMeta: TransactionMeta) => {
         const response = initMessenger.call(
           'InstitutionalSnapController:publishHook',
@@ -266,6 +274,39 @@ function getControllers(
   };
 }
 
+// Each hook receives the transaction as updated by the previous hooks.
+function chainAfterSimulateHooks(
+  ...hooks: AfterSimulateHook[]
+): AfterSimulateHook {
+  return async ({ transactionMeta }) => {
+    const updatedTransactionMeta = cloneDeep(transactionMeta);
+    const updates: ((transaction: TransactionMeta) => void)[] = [];
+    let skipSimulation: boolean | undefined;
+
+    for (const hook of hooks) {
+      const result = await hook({ transactionMeta: updatedTransactionMeta });
+
+      if (result?.updateTransaction) {
+        result.updateTransaction(updatedTransactionMeta);
+        updates.push(result.updateTransaction);
+      }
+
+      skipSimulation = result?.skipSimulation ?? skipSimulation;
+    }
+
+    return {
+      skipSimulation,
+      updateTransaction: updates.length
+        ? (transaction: TransactionMeta) => {
+            for (const update of updates) {
+              update(transaction);
+            }
+          }
+        : undefined,
+    };
+  };
+}
+
 function getExternalPendingTransactions(
   smartTransactionsController: SmartTransactionsController,
   address: string,
@@ -13,7 +13,23 @@ import {
   POLLING_TOKEN_ENVIRONMENT_TYPES,
 } from '../../../shared/constants/app';
 import { AccountOverviewTabKey } from '../../../shared/constants/app-state';
+import {
+  DEFAULT_ORIGIN_THROTTLING_CONFIG,
+  ThrottlingMethodClass,
+} from '../../../shared/constants/origin-throttling';
+import {
+  CLIPBOARD_HIJACK_METHOD,
+  CLIPBOARD_HIJACK_REASON,
+  MAX_SECURITY_ALERT_HISTORY_ENTRIES,
+  SecurityAlertUserAction,
+} from '../../../shared/constants/security-alert-history';
+import {
+  CONNECTION_DURATION_MS,
+  ConnectionDuration,
+} from '../../../shared/constants/connection-expiry';
+import { BlockaidResultType } from '../../../shared/constants/security-provider';
 import { MINUTE } from '../../../shared/constants/time';
+import { DelegationTargetSource } from '../../../shared/types/delegation-target';
 import { AppStateController } from './app-state-controller';
 import type {
   AppStateControllerMessenger,
@@ -616,35 +632,513 @@ describe('AppStateController', () => {
   });
 
   describe('throttledOrigins', () => {
+    const throttledOriginMock = {
+      rejections: {
+        [ThrottlingMethodClass.Signature]: {
+          rejections: 1,
+          lastRejection: 1000,
+        },
+      },
+    };
+
     describe('updateThrottledOriginState', () => {
       it('should update the throttledOriginState for a given origin', async () => {
         await withController(({ controller }) => {
-          controller.updateThrottledOriginState('example.com', {
-            rejections: 1,
-            lastRejection: Date.now(),
-          });
+          controller.updateThrottledOriginState(
+            'example.com',
+            throttledOriginMock,
+          );
           expect(
             controller.state.throttledOrigins['example.com'],
-          ).toStrictEqual({ rejections: 1, lastRejection: expect.any(Number) });
+          ).toStrictEqual(throttledOriginMock);
         });
       });
     });
 
     describe('getThrottledOriginState', () => {
       it('should return the throttledOriginState for a given origin', async () => {
+        await withController(({ controller }) => {
+          controller.updateThrottledOriginState(
+            'example.com',
+            throttledOriginMock,
+          );
+          expect(
+            controller.getThrottledOriginState('example.com'),
+          ).toStrictEqual(throttledOriginMock);
+        });
+      });
+    });
+
+    describe('blockOriginPermanently', () => {
+      it('permanently blocks an origin without throttling state', async () => {
+        await withController(({ controller }) => {
+          controller.blockOriginPermanently('example.com');
+          expect(
+            controller.state.throttledOrigins['example.com'],
+          ).toStrictEqual({ rejections: {}, isPermanentlyBlocked: true });
+        });
+      });
+
+      it('keeps the existing throttling state of an origin', async () => {
+        await withController(({ controller }) => {
+          controller.updateThrottledOriginState(
+            'example.com',
+            throttledOriginMock,
+          );
+          controller.blockOriginPermanently('example.com');
+          expect(
+            controller.state.throttledOrigins['example.com'],
+          ).toStrictEqual({
+            ...throttledOriginMock,
+            isPermanentlyBlocked: true,
+          });
+        });
+      });
+    });
+
+    describe('resetThrottledOriginRejections', () => {
+      it('lifts the block caused by the latest rejection', async () => {
         await withController(({ controller }) => {
           controller.updateThrottledOriginState('example.com', {
-            rejections: 1,
-            lastRejection: Date.now(),
+            rejections: {
+              [ThrottlingMethodClass.Signature]: {
+                rejections: 0,
+                lastRejection: 1000,
+              },
+            },
+            blockedUntil: 61000,
+            history: [
+              {
+                methodClass: ThrottlingMethodClass.Signature,
+                blockedAt: 1000,
+                blockedUntil: 61000,
+              },
+            ],
           });
+
+          controller.resetThrottledOriginRejections(
+            'example.com',
+            ThrottlingMethodClass.Signature,
+          );
+
           expect(
-            controller.getThrottledOriginState('example.com'),
-          ).toStrictEqual({ rejections: 1, lastRejection: expect.any(Number) });
+            controller.state.throttledOrigins['example.com'],
+          ).toStrictEqual({ rejections: {}, history: [] });
+        });
+      });
+    });
+
+    describe('unblockOrigin', () => {
+      it('removes the throttling state of an origin', async () => {
+        await withController(({ controller }) => {
+          controller.blockOriginPermanently('example.com');
+          controller.unblockOrigin('example.com');
+          expect(controller.state.throttledOrigins).toStrictEqual({});
+        });
+      });
+    });
+
+    describe('setOriginThrottlingConfig', () => {
+      it('updates the originThrottlingConfig state', async () => {
+        await withController(({ controller }) => {
+          const config = {
+            ...DEFAULT_ORIGIN_THROTTLING_CONFIG,
+            [ThrottlingMethodClass.Signature]: {
+              rejectionThreshold: 5,
+              rejectionWindowInMs: 1000,
+              blockDurationsInMs: [2000],
+            },
+          };
+
+          controller.setOriginThrottlingConfig(config);
+
+          expect(controller.state.originThrottlingConfig).toStrictEqual(config);
+          expect(controller.getOriginThrottlingConfig()).toStrictEqual(config);
+        });
+      });
+    });
+  });
+
+  describe('securityAlertHistory', () => {
+    const ENTRY_MOCK = {
+      securityAlertId: 'test-id',
+      origin: 'https://example.com',
+      method: 'eth_sendTransaction',
+      chainId: '0x1' as const,
+      resultType: 'Malicious',
+      reason: 'transfer_farming',
+    };
+
+    describe('addSecurityAlertHistoryEntry', () => {
+      it('adds a pending entry', async () => {
+        await withController(({ controller }) => {
+          jest.spyOn(Date, 'now').mockReturnValue(1000);
+
+          controller.addSecurityAlertHistoryEntry(ENTRY_MOCK);
+
+          expect(controller.state.securityAlertHistory).toStrictEqual([
+            {
+              ...ENTRY_MOCK,
+              time: 1000,
+              userAction: SecurityAlertUserAction.Pending,
+            },
+          ]);
+        });
+      });
+
+      it('adds an entry with the action the user already took', async () => {
+        await withController(({ controller }) => {
+          controller.addSecurityAlertHistoryEntry({
+            ...ENTRY_MOCK,
+            userAction: SecurityAlertUserAction.Rejected,
+          });
+
+          expect(controller.state.securityAlertHistory).toStrictEqual([
+            expect.objectContaining({
+              userAction: SecurityAlertUserAction.Rejected,
+            }),
+          ]);
+        });
+      });
+
+      it('updates the verdict of an existing entry', async () => {
+        await withController(({ controller }) => {
+          controller.addSecurityAlertHistoryEntry({
+            ...ENTRY_MOCK,
+            resultType: 'Warning',
+            reason: 'other',
+          });
+          controller.setSecurityAlertHistoryUserAction(
+            ENTRY_MOCK.securityAlertId,
+            SecurityAlertUserAction.Approved,
+          );
+          controller.addSecurityAlertHistoryEntry(ENTRY_MOCK);
+
+          expect(controller.state.securityAlertHistory).toStrictEqual([
+            expect.objectContaining({
+              resultType: 'Malicious',
+              reason: 'transfer_farming',
+              userAction: SecurityAlertUserAction.Approved,
+            }),
+          ]);
+        });
+      });
+
+      it('discards the oldest entries once the limit is reached', async () => {
+        await withController(({ controller }) => {
+          for (let i = 0; i <= MAX_SECURITY_ALERT_HISTORY_ENTRIES; i++) {
+            controller.addSecurityAlertHistoryEntry({
+              ...ENTRY_MOCK,
+              securityAlertId: `id-${i}`,
+            });
+          }
+
+          const { securityAlertHistory } = controller.state;
+
+          expect(securityAlertHistory).toHaveLength(
+            MAX_SECURITY_ALERT_HISTORY_ENTRIES,
+          );
+          expect(securityAlertHistory[0].securityAlertId).toBe('id-1');
+        });
+      });
+    });
+
+    describe('setSecurityAlertHistoryUserAction', () => {
+      it('ignores unknown entries', async () => {
+        await withController(({ controller }) => {
+          controller.setSecurityAlertHistoryUserAction(
+            'unknown-id',
+            SecurityAlertUserAction.Rejected,
+          );
+
+          expect(controller.state.securityAlertHistory).toStrictEqual([]);
+        });
+      });
+    });
+
+    describe('addClipboardHijackHistoryEntry', () => {
+      it('adds a pending warning entry for the pasted address', async () => {
+        await withController(({ controller }) => {
+          controller.addClipboardHijackHistoryEntry('0x1234abcd', '0x1234ffff');
+
+          expect(controller.state.securityAlertHistory).toStrictEqual([
+            expect.objectContaining({
+              origin: ORIGIN_METAMASK,
+              method: CLIPBOARD_HIJACK_METHOD,
+              resultType: BlockaidResultType.Warning,
+              reason: CLIPBOARD_HIJACK_REASON,
+              description: 'Pasted 0x1234ffff instead of copied 0x1234abcd',
+              userAction: SecurityAlertUserAction.Pending,
+            }),
+          ]);
+        });
+      });
+    });
+
+    describe('clearSecurityAlertHistory', () => {
+      it('removes all entries', async () => {
+        await withController(({ controller }) => {
+          controller.addSecurityAlertHistoryEntry(ENTRY_MOCK);
+          controller.clearSecurityAlertHistory();
+
+          expect(controller.state.securityAlertHistory).toStrictEqual([]);
         });
       });
     });
   });
 
+  describe('setLastCopiedAddress', () => {
+    it('updates the last copied address', async () => {
+      await withController(({ controller }) => {
+        controller.setLastCopiedAddress('0x1234abcd');
+        expect(controller.state.lastCopiedAddress).toBe('0x1234abcd');
+      });
+    });
+  });
+
+  describe('setConnectionExpiry', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(1000);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('stores the expiry time of a time-boxed connection', async () => {
+      await withController(({ controller }) => {
+        controller.setConnectionExpiry(
+          'https://example.com',
+          ConnectionDuration.OneHour,
+        );
+
+        expect(controller.state.connectionExpiries).toStrictEqual({
+          'https://example.com': {
+            duration: ConnectionDuration.OneHour,
+            expiresAt:
+              1000 + CONNECTION_DURATION_MS[ConnectionDuration.OneHour],
+          },
+        });
+      });
+    });
+
+    it('stores a session connection without an expiry time', async () => {
+      await withController(({ controller }) => {
+        controller.setConnectionExpiry(
+          'https://example.com',
+          ConnectionDuration.Session,
+        );
+
+        expect(controller.state.connectionExpiries).toStrictEqual({
+          'https://example.com': { duration: ConnectionDuration.Session },
+        });
+      });
+    });
+  });
+
+  describe('loadContactGuardRailsBackup', () => {
+    it('drops invalid entries', async () => {
+      await withController(({ controller }) => {
+        controller.loadContactGuardRailsBackup({
+          '0x1': {
+            '0x42eb768f2244c8811c63729a21a3569731535f06': {
+              maxAmount: '1.5',
+              allowedTokens: ['0x0000000000000000000000000000000000000000'],
+              requireHoldToConfirm: true,
+              unknown: 'value',
+            },
+            'not-an-address': { maxAmount: '1' },
+            '0x1234567890abcdef1234567890abcdef12345678': { maxAmount: 1 },
+            '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd': {
+              requireHoldToConfirm: 'true',
+            },
+            '0x0000000000000000000000000000000000000001': {
+              allowedTokens: ['0x12'],
+            },
+          },
+          mainnet: {
+            '0x42eb768f2244c8811c63729a21a3569731535f06': { maxAmount: '1' },
+          },
+        });
+
+        expect(controller.state.contactGuardRails).toStrictEqual({
+          '0x1': {
+            '0x42eb768f2244c8811c63729a21a3569731535f06': {
+              maxAmount: '1.5',
+              allowedTokens: ['0x0000000000000000000000000000000000000000'],
+              requireHoldToConfirm: true,
+            },
+          },
+        });
+      });
+    });
+  });
+
+  describe('addContractAbi', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(1000);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('stores the ABI by chain ID and lowercase address', async () => {
+      await withController(({ controller }) => {
+        controller.addContractAbi('0x1', '0xABCD', {
+          name: 'Test',
+          abi: [],
+        });
+
+        expect(controller.state.contractAbis).toStrictEqual({
+          '0x1': {
+            '0xabcd': { name: 'Test', abi: [], addedAt: 1000 },
+          },
+        });
+
+        expect(controller.state.contractAbiSummaries).toStrictEqual({
+          '0x1': {
+            '0xabcd': { name: 'Test', addedAt: 1000 },
+          },
+        });
+
+        expect(controller.getContractAbi('0x1', '0xabCD')).toStrictEqual({
+          name: 'Test',
+          abi: [],
+          addedAt: 1000,
+        });
+      });
+    });
+  });
+
+  describe('removeContractAbi', () => {
+    it('removes the ABI and any empty chain', async () => {
+      await withController(({ controller }) => {
+        controller.addContractAbi('0x1', '0xabcd', { abi: [] });
+        controller.addContractAbi('0x5', '0xabcd', { abi: [] });
+        controller.removeContractAbi('0x1', '0xABCD');
+
+        expect(controller.getContractAbi('0x1', '0xabcd')).toBeUndefined();
+        expect(Object.keys(controller.state.contractAbis)).toStrictEqual([
+          '0x5',
+        ]);
+        expect(
+          Object.keys(controller.state.contractAbiSummaries),
+        ).toStrictEqual(['0x5']);
+      });
+    });
+  });
+
+  describe('addDelegationTarget', () => {
+    beforeEach(() => {
+      jest.useFakeTimers().setSystemTime(1000);
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it('stores the target by chain ID and lowercase address', async () => {
+      await withController(({ controller }) => {
+        controller.addDelegationTarget('0x1', '0xABCD', {
+          name: 'Test',
+          codeHash: '0x1234',
+          source: DelegationTargetSource.User,
+        });
+
+        expect(controller.state.delegationTargets).toStrictEqual({
+          '0x1': {
+            '0xabcd': {
+              name: 'Test',
+              codeHash: '0x1234',
+              source: DelegationTargetSource.User,
+              addedAt: 1000,
+            },
+          },
+        });
+
+        expect(controller.getDelegationTarget('0x1', '0xabCD')).toStrictEqual({
+          name: 'Test',
+          codeHash: '0x1234',
+          source: DelegationTargetSource.User,
+          addedAt: 1000,
+        });
+      });
+    });
+  });
+
+  describe('removeDelegationTarget', () => {
+    it('removes the target and any empty chain', async () => {
+      await withController(({ controller }) => {
+        const delegationTarget = {
+          name: 'Test',
+          codeHash: '0x1234' as const,
+          source: DelegationTargetSource.User,
+        };
+
+        controller.addDelegationTarget('0x1', '0xabcd', delegationTarget);
+        controller.addDelegationTarget('0x5', '0xabcd', delegationTarget);
+        controller.removeDelegationTarget('0x1', '0xABCD');
+
+        expect(controller.getDelegationTarget('0x1', '0xabcd')).toBeUndefined();
+        expect(Object.keys(controller.state.delegationTargets)).toStrictEqual([
+          '0x5',
+        ]);
+      });
+    });
+  });
+
+  describe('setContactGuardRails', () => {
+    it('stores the guard rails by chain ID and lowercase address', async () => {
+      await withController(({ controller }) => {
+        controller.setContactGuardRails('0x1', '0xABCD', {
+          maxAmount: '1.5',
+          requireHoldToConfirm: true,
+        });
+
+        expect(controller.state.contactGuardRails).toStrictEqual({
+          '0x1': {
+            '0xabcd': { maxAmount: '1.5', requireHoldToConfirm: true },
+          },
+        });
+
+        expect(controller.getContactGuardRails('0x1', '0xabCD')).toStrictEqual({
+          maxAmount: '1.5',
+          requireHoldToConfirm: true,
+        });
+      });
+    });
+
+    it('removes the guard rails and any empty chain if undefined', async () => {
+      await withController(({ controller }) => {
+        controller.setContactGuardRails('0x1', '0xabcd', { maxAmount: '1' });
+        controller.setContactGuardRails('0x5', '0xabcd', { maxAmount: '1' });
+        controller.setContactGuardRails('0x1', '0xABCD', undefined);
+
+        expect(
+          controller.getContactGuardRails('0x1', '0xabcd'),
+        ).toBeUndefined();
+        expect(Object.keys(controller.state.contactGuardRails)).toStrictEqual([
+          '0x5',
+        ]);
+      });
+    });
+  });
+
+  describe('removeConnectionExpiry', () => {
+    it('removes the expiry of the connection', async () => {
+      await withController(({ controller }) => {
+        controller.setConnectionExpiry(
+          'https://example.com',
+          ConnectionDuration.OneDay,
+        );
+        controller.removeConnectionExpiry('https://example.com');
+
+        expect(controller.state.connectionExpiries).toStrictEqual({});
+      });
+    });
+  });
+
   describe('setEnableEnforcedSimulations', () => {
     it('updates the enableEnforcedSimulations state', async () => {
       await withController(({ controller }) => {
@@ -789,6 +1283,38 @@ describe('AppStateController', () => {
               "nftsDropdownState": {},
               "notificationGasPollTokens": [],
               "onboardingDate": null,
+              "originThrottlingConfig": {
+                "chain_switching": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+                "signature": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+                "transaction": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+              },
               "outdatedBrowserWarningLastShown": null,
               "pendingShieldCohort": null,
               "pendingShieldCohortTxType": null,
@@ -853,6 +1379,7 @@ describe('AppStateController', () => {
               "browserEnvironment": {},
               "canTrackWalletFundsObtained": true,
               "connectedStatusPopoverHasBeenShown": true,
+              "connectionExpiries": {},
               "currentExtensionPopupId": 0,
               "currentPopupId": 0,
               "defaultHomeActiveTabName": null,
@@ -881,6 +1408,38 @@ describe('AppStateController', () => {
               "nftsDropdownState": {},
               "notificationGasPollTokens": [],
               "onboardingDate": null,
+              "originThrottlingConfig": {
+                "chain_switching": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+                "signature": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+                "transaction": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+              },
               "outdatedBrowserWarningLastShown": null,
               "pendingShieldCohort": null,
               "pendingShieldCohortTxType": null,
@@ -889,6 +1448,7 @@ describe('AppStateController', () => {
               "productTour": "accountIcon",
               "recoveryPhraseReminderHasBeenShown": false,
               "recoveryPhraseReminderLastShown": 1000,
+              "securityAlertHistory": [],
               "shieldEndingToastLastClickedOrClosed": null,
               "shieldPausedToastLastClickedOrClosed": null,
               "showAccountBanner": true,
@@ -943,7 +1503,12 @@ describe('AppStateController', () => {
               "browserEnvironment": {},
               "canTrackWalletFundsObtained": true,
               "connectedStatusPopoverHasBeenShown": true,
+              "connectionExpiries": {},
+              "contactGuardRails": {},
+              "contractAbiSummaries": {},
+              "contractAbis": {},
               "defaultHomeActiveTabName": null,
+              "delegationTargets": {},
               "enableEnforcedSimulations": true,
               "enforcedSimulationsSlippage": 10,
               "hadAdvancedGasFeesSetPriorToMigration92_3": false,
@@ -963,12 +1528,45 @@ describe('AppStateController', () => {
               "newPrivacyPolicyToastShownDate": null,
               "nftsDetectionNoticeDismissed": false,
               "onboardingDate": null,
+              "originThrottlingConfig": {
+                "chain_switching": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+                "signature": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+                "transaction": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+              },
               "outdatedBrowserWarningLastShown": null,
               "pendingShieldCohortTxType": null,
               "pna25Acknowledged": false,
               "productTour": "accountIcon",
               "recoveryPhraseReminderHasBeenShown": false,
               "recoveryPhraseReminderLastShown": 1000,
+              "securityAlertHistory": [],
               "shieldEndingToastLastClickedOrClosed": null,
               "shieldPausedToastLastClickedOrClosed": null,
               "showAccountBanner": true,
@@ -982,6 +1580,7 @@ describe('AppStateController', () => {
               "snapsInstallPrivacyWarningShown": false,
               "surveyLinkLastClickedOrClosed": null,
               "termsOfUseLastAgreed": 1000,
+              "throttledOrigins": {},
               "timeoutMinutes": 0,
               "trezorModel": null,
               "updateModalLastDismissedAt": null,
@@ -1023,10 +1622,14 @@ describe('AppStateController', () => {
               "appActiveTab": undefined,
               "browserEnvironment": {},
               "connectedStatusPopoverHasBeenShown": true,
+              "connectionExpiries": {},
+              "contactGuardRails": {},
+              "contractAbiSummaries": {},
               "currentExtensionPopupId": 0,
               "currentPopupId": 0,
               "dappSwapComparisonData": {},
               "defaultHomeActiveTabName": null,
+              "delegationTargets": {},
               "enableEnforcedSimulations": true,
               "enableEnforcedSimulationsForTransactions": {},
               "enforcedSimulationsSlippage": 10,
@@ -1036,6 +1639,7 @@ describe('AppStateController', () => {
               "isRampCardClosed": false,
               "isUpdateAvailable": false,
               "isWalletResetInProgress": false,
+              "lastCopiedAddress": null,
               "lastInteractedConfirmationInfo": {
                 "chainId": "0x1",
                 "id": "123",
@@ -1053,6 +1657,38 @@ describe('AppStateController', () => {
               "nftsDropdownState": {},
               "notificationGasPollTokens": [],
               "onboardingDate": null,
+              "originThrottlingConfig": {
+                "chain_switching": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+                "signature": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+                "transaction": {
+                  "blockDurationsInMs": [
+                    60000,
+                    600000,
+                    3600000,
+                    86400000,
+                  ],
+                  "rejectionThreshold": 3,
+                  "rejectionWindowInMs": 30000,
+                },
+              },
               "outdatedBrowserWarningLastShown": null,
               "pendingShieldCohort": null,
               "pendingShieldCohortTxType": null,
@@ -1061,6 +1697,7 @@ describe('AppStateController', () => {
               "productTour": "accountIcon",
               "recoveryPhraseReminderHasBeenShown": false,
               "recoveryPhraseReminderLastShown": 1000,
+              "securityAlertHistory": [],
               "shieldEndingToastLastClickedOrClosed": null,
               "shieldPausedToastLastClickedOrClosed": null,
               "showAccountBanner": true,
@@ -16,6 +16,9 @@ import {
   Hex,
   Json,
   createDeferredPromise,
+  isObject,
+  isStrictHexString,
+  isValidHexAddress,
 } from '@metamask/utils';
 import type { QrScanRequest, SerializedUR } from '@metamask/eth-qr-keyring';
 import type { Messenger } from '@metamask/messenger';
@@ -46,7 +49,39 @@ import {
   CarouselSlide,
   NetworkConnectionBanner,
 } from '../../../shared/constants/app-state';
+import {
+  DEFAULT_ORIGIN_THROTTLING_CONFIG,
+  ThrottlingMethodClass,
+} from '../../../shared/constants/origin-throttling';
+import { liftOriginRejectionBlock } from '../../../shared/lib/origin-throttling';
+import {
+  CLIPBOARD_HIJACK_METHOD,
+  CLIPBOARD_HIJACK_REASON,
+  MAX_SECURITY_ALERT_HISTORY_ENTRIES,
+  SecurityAlertUserAction,
+} from '../../../shared/constants/security-alert-history';
+import { BlockaidResultType } from '../../../shared/constants/security-provider';
+import type { SecurityAlertHistoryEntry } from '../../../shared/types/security-alert-history';
+import {
+  CONNECTION_DURATION_MS,
+  ConnectionDuration,
+} from '../../../shared/constants/connection-expiry';
+import type { ConnectionExpiry } from '../../../shared/types/connection-expiry';
+import type {
+  ContactGuardRails,
+  ContactGuardRailsByChain,
+} from '../../../shared/types/contact-guard-rails';
 import type {
+  ContractAbi,
+  ContractAbiSummaries,
+  ContractAbis,
+} from '../../../shared/types/contract-abi';
+import type {
+  DelegationTarget,
+  DelegationTargets,
+} from '../../../shared/types/delegation-target';
+import type {
+  OriginThrottlingConfig,
   ThrottledOrigins,
   ThrottledOrigin,
 } from '../../../shared/types/origin-throttling';
@@ -94,10 +129,15 @@ export type AppStateControllerState = {
   };
   browserEnvironment: Record<string, string>;
   connectedStatusPopoverHasBeenShown: boolean;
+  connectionExpiries: Record<string, ConnectionExpiry>;
+  contactGuardRails: ContactGuardRailsByChain;
+  contractAbiSummaries: ContractAbiSummaries;
+  contractAbis: ContractAbis;
   // States used for displaying the changed network toast
   currentExtensionPopupId: number;
   currentPopupId?: number;
   defaultHomeActiveTabName: AccountOverviewTabKey | null;
+  delegationTargets: DelegationTargets;
   enableEnforcedSimulations: boolean;
   enableEnforcedSimulationsForTransactions: Record<string, boolean>;
   enforcedSimulationsSlippage: number;
@@ -112,6 +152,7 @@ export type AppStateControllerState = {
   canTrackWalletFundsObtained: boolean;
   isRampCardClosed: boolean;
   isUpdateAvailable: boolean;
+  lastCopiedAddress: string | null;
   lastInteractedConfirmationInfo?: LastInteractedConfirmationInfo;
   lastUpdatedAt: number | null;
   lastUpdatedFromVersion: string | null;
@@ -124,11 +165,13 @@ export type AppStateControllerState = {
   nftsDropdownState: Json;
   notificationGasPollTokens: string[];
   onboardingDate: number | null;
+  originThrottlingConfig: OriginThrottlingConfig;
   outdatedBrowserWarningLastShown: number | null;
   popupGasPollTokens: string[];
   productTour?: string;
   recoveryPhraseReminderHasBeenShown: boolean;
   recoveryPhraseReminderLastShown: number;
+  securityAlertHistory: SecurityAlertHistoryEntry[];
   showAccountBanner: boolean;
   showBetaHeader: boolean;
   showDownloadMobileAppSlide: boolean;
@@ -271,7 +314,12 @@ const getDefaultAppStateControllerState = (): AppStateControllerState => ({
   appActiveTab: undefined,
   browserEnvironment: {},
   connectedStatusPopoverHasBeenShown: true,
+  connectionExpiries: {},
+  contactGuardRails: {},
+  contractAbiSummaries: {},
+  contractAbis: {},
   defaultHomeActiveTabName: null,
+  delegationTargets: {},
   enableEnforcedSimulations: true,
   enableEnforcedSimulationsForTransactions: {},
   enforcedSimulationsSlippage: 10,
@@ -283,6 +331,7 @@ const getDefaultAppStateControllerState = (): AppStateControllerState => ({
   canTrackWalletFundsObtained: true,
   isRampCardClosed: false,
   isUpdateAvailable: false,
+  lastCopiedAddress: null,
   lastUpdatedAt: null,
   lastUpdatedFromVersion: null,
   lastViewedUserSurvey: null,
@@ -292,11 +341,13 @@ const getDefaultAppStateControllerState = (): AppStateControllerState => ({
   nftsDetectionNoticeDismissed: false,
   notificationGasPollTokens: [],
   onboardingDate: null,
+  originThrottlingConfig: DEFAULT_ORIGIN_THROTTLING_CONFIG,
   outdatedBrowserWarningLastShown: null,
   popupGasPollTokens: [],
   productTour: 'accountIcon',
   recoveryPhraseReminderHasBeenShown: false,
   recoveryPhraseReminderLastShown: new Date().getTime(),
+  securityAlertHistory: [],
   showAccountBanner: true,
   showBetaHeader: isBeta(),
   showDownloadMobileAppSlide: true,
@@ -370,6 +421,30 @@ const controllerMetadata: StateMetadata<AppStateControllerState> = {
     includeInDebugSnapshot: true,
     usedInUi: true,
   },
+  connectionExpiries: {
+    includeInStateLogs: true,
+    persist: true,
+    includeInDebugSnapshot: false,
+    usedInUi: true,
+  },
+  contactGuardRails: {
+    includeInStateLogs: false,
+    persist: true,
+    includeInDebugSnapshot: false,
+    usedInUi: true,
+  },
+  contractAbiSummaries: {
+    includeInStateLogs: false,
+    persist: true,
+    includeInDebugSnapshot: false,
+    usedInUi: true,
+  },
+  contractAbis: {
+    includeInStateLogs: false,
+    persist: true,
+    includeInDebugSnapshot: false,
+    usedInUi: false,
+  },
   currentExtensionPopupId: {
     includeInStateLogs: true,
     persist: false,
@@ -388,6 +463,12 @@ const controllerMetadata: StateMetadata<AppStateControllerState> = {
     includeInDebugSnapshot: true,
     usedInUi: true,
   },
+  delegationTargets: {
+    includeInStateLogs: false,
+    persist: true,
+    includeInDebugSnapshot: false,
+    usedInUi: true,
+  },
   enableEnforcedSimulations: {
     includeInStateLogs: true,
     persist: true,
@@ -444,6 +525,12 @@ const controllerMetadata: StateMetadata<AppStateControllerState> = {
     includeInDebugSnapshot: true,
     usedInUi: true,
   },
+  lastCopiedAddress: {
+    includeInStateLogs: false,
+    persist: false,
+    includeInDebugSnapshot: false,
+    usedInUi: true,
+  },
   lastInteractedConfirmationInfo: {
     includeInStateLogs: true,
     persist: true,
@@ -516,6 +603,12 @@ const controllerMetadata: StateMetadata<AppStateControllerState> = {
     includeInDebugSnapshot: true,
     usedInUi: true,
   },
+  originThrottlingConfig: {
+    includeInStateLogs: true,
+    persist: true,
+    includeInDebugSnapshot: true,
+    usedInUi: true,
+  },
   outdatedBrowserWarningLastShown: {
     includeInStateLogs: true,
     persist: true,
@@ -546,6 +639,12 @@ const controllerMetadata: StateMetadata<AppStateControllerState> = {
     includeInDebugSnapshot: true,
     usedInUi: true,
   },
+  securityAlertHistory: {
+    includeInStateLogs: true,
+    persist: true,
+    includeInDebugSnapshot: false,
+    usedInUi: true,
+  },
   showAccountBanner: {
     includeInStateLogs: true,
     persist: true,
@@ -626,7 +725,7 @@ const controllerMetadata: StateMetadata<AppStateControllerState> = {
   },
   throttledOrigins: {
     includeInStateLogs: true,
-    persist: false,
+    persist: true,
     includeInDebugSnapshot: true,
     usedInUi: true,
   },
@@ -882,6 +981,18 @@ export class AppStateController extends BaseController<
     });
   }
 
+  /**
+   * Remembers the last address copied from the wallet, so it can be compared
+   * to addresses pasted into the wallet later on.
+   *
+   * @param address - The copied address.
+   */
+  setLastCopiedAddress(address: string): void {
+    this.update((state) => {
+      state.lastCopiedAddress = address;
+    });
+  }
+
   setRampCardClosed(): void {
     this.update((state) => {
       state.isRampCardClosed = true;
@@ -1363,6 +1474,310 @@ export class AppStateController extends BaseController<
     }
   }
 
+  /**
+   * Records the verdict of a security scan in the security alert history. If
+   * the request was already recorded, its verdict is replaced while the time
+   * and user action are kept.
+   *
+   * @param entry - The scanned request and its verdict.
+   * @param entry.userAction - What the user already did with the request.
+   * Defaults to pending.
+   */
+  addSecurityAlertHistoryEntry({
+    userAction = SecurityAlertUserAction.Pending,
+    ...entry
+  }: Omit<SecurityAlertHistoryEntry, 'time' | 'userAction'> & {
+    userAction?: SecurityAlertUserAction;
+  }): void {
+    this.update((state) => {
+      const existingEntry = state.securityAlertHistory.find(
+        ({ securityAlertId }) => securityAlertId === entry.securityAlertId,
+      );
+
+      if (existingEntry) {
+        Object.assign(existingEntry, entry);
+        return;
+      }
+
+      state.securityAlertHistory.push({
+        ...entry,
+        time: Date.now(),
+        userAction,
+      });
+
+      state.securityAlertHistory = state.securityAlertHistory.slice(
+        -MAX_SECURITY_ALERT_HISTORY_ENTRIES,
+      );
+    });
+  }
+
+  /**
+   * Records what the user did with a scanned request.
+   *
+   * @param securityAlertId - The ID of the security scan.
+   * @param userAction - Whether the request was approved or rejected.
+   */
+  setSecurityAlertHistoryUserAction(
+    securityAlertId: string,
+    userAction: SecurityAlertUserAction,
+  ): void {
+    this.update((state) => {
+      const entry = state.securityAlertHistory.find(
+        (historyEntry) => historyEntry.securityAlertId === securityAlertId,
+      );
+
+      if (entry) {
+        entry.userAction = userAction;
+      }
+    });
+  }
+
+  /**
+   * Records a pasted address that does not match the last address copied from
+   * the wallet in the security alert history.
+   *
+   * @param copiedAddress - The last address copied from the wallet.
+   * @param pastedAddress - The address that was pasted instead.
+   */
+  addClipboardHijackHistoryEntry(
+    copiedAddress: string,
+    pastedAddress: string,
+  ): void {
+    this.addSecurityAlertHistoryEntry({
+      securityAlertId: uuid(),
+      origin: ORIGIN_METAMASK,
+      method: CLIPBOARD_HIJACK_METHOD,
+      resultType: BlockaidResultType.Warning,
+      reason: CLIPBOARD_HIJACK_REASON,
+      description: `Pasted ${pastedAddress} instead of copied ${copiedAddress}`,
+    });
+  }
+
+  clearSecurityAlertHistory(): void {
+    this.update((state) => {
+      state.securityAlertHistory = [];
+    });
+  }
+
+  /**
+   * Sets how long the connection of a dapp lasts before it is revoked.
+   *
+   * @param origin - The origin of the connected dapp.
+   * @param duration - The duration of the connection.
+   */
+  setConnectionExpiry(origin: string, duration: ConnectionDuration): void {
+    this.update((state) => {
+      state.connectionExpiries[origin] =
+        duration === ConnectionDuration.Session
+          ? { duration }
+          : {
+              duration,
+              expiresAt: Date.now() + CONNECTION_DURATION_MS[duration],
+            };
+    });
+  }
+
+  /**
+   * Removes the expiry of a dapp connection, so it lasts until the user
+   * disconnects.
+   *
+   * @param origin - The origin of the connected dapp.
+   */
+  removeConnectionExpiry(origin: string): void {
+    this.update((state) => {
+      delete state.connectionExpiries[origin];
+    });
+  }
+
+  /**
+   * Stores an imported ABI used to decode transactions sent to a contract.
+   *
+   * @param chainId - The chain ID of the contract.
+   * @param address - The address of the contract.
+   * @param contractAbi - The ABI of the contract.
+   */
+  addContractAbi(chainId: Hex, address: Hex, contractAbi: ContractAbi): void {
+    const normalizedAddress = address.toLowerCase() as Hex;
+    const addedAt = Date.now();
+
+    this.update((state) => {
+      state.contractAbis[chainId] ??= {};
+      state.contractAbis[chainId][normalizedAddress] = {
+        ...contractAbi,
+        addedAt,
+      };
+
+      state.contractAbiSummaries[chainId] ??= {};
+      state.contractAbiSummaries[chainId][normalizedAddress] = {
+        ...(contractAbi.name === undefined ? {} : { name: contractAbi.name }),
+        addedAt,
+      };
+    });
+  }
+
+  /**
+   * Removes an imported contract ABI.
+   *
+   * @param chainId - The chain ID of the contract.
+   * @param address - The address of the contract.
+   */
+  removeContractAbi(chainId: Hex, address: Hex): void {
+    const normalizedAddress = address.toLowerCase() as Hex;
+
+    this.update((state) => {
+      for (const abis of [state.contractAbis, state.contractAbiSummaries]) {
+        delete abis[chainId]?.[normalizedAddress];
+
+        if (!Object.keys(abis[chainId] ?? {}).length) {
+          delete abis[chainId];
+        }
+      }
+    });
+  }
+
+  /**
+   * Gets the imported ABI of a contract.
+   *
+   * @param chainId - The chain ID of the contract.
+   * @param address - The address of the contract.
+   * @returns The imported ABI, or undefined if none.
+   */
+  getContractAbi(chainId: Hex, address: Hex): ContractAbi | undefined {
+    return this.state.contractAbis[chainId]?.[address.toLowerCase() as Hex];
+  }
+
+  /**
+   * Trusts a contract as the target of EIP-7702 delegations.
+   *
+   * @param chainId - The chain ID of the contract.
+   * @param address - The address of the contract.
+   * @param delegationTarget - The name, code hash and source of the target.
+   */
+  addDelegationTarget(
+    chainId: Hex,
+    address: Hex,
+    delegationTarget: Omit<DelegationTarget, 'addedAt'>,
+  ): void {
+    this.update((state) => {
+      state.delegationTargets[chainId] ??= {};
+      state.delegationTargets[chainId][address.toLowerCase() as Hex] = {
+        ...delegationTarget,
+        addedAt: Date.now(),
+      };
+    });
+  }
+
+  /**
+   * Removes a trusted delegation target.
+   *
+   * @param chainId - The chain ID of the contract.
+   * @param address - The address of the contract.
+   */
+  removeDelegationTarget(chainId: Hex, address: Hex): void {
+    this.update((state) => {
+      delete state.delegationTargets[chainId]?.[address.toLowerCase() as Hex];
+
+      if (!Object.keys(state.delegationTargets[chainId] ?? {}).length) {
+        delete state.delegationTargets[chainId];
+      }
+    });
+  }
+
+  /**
+   * Gets a trusted delegation target.
+   *
+   * @param chainId - The chain ID of the contract.
+   * @param address - The address of the contract.
+   * @returns The trusted delegation target, or undefined if not trusted.
+   */
+  getDelegationTarget(
+    chainId: Hex,
+    address: Hex,
+  ): DelegationTarget | undefined {
+    return this.state.delegationTargets[chainId]?.[
+      address.toLowerCase() as Hex
+    ];
+  }
+
+  /**
+   * Sets the guard rails of an address book contact.
+   *
+   * @param chainId - The chain ID of the contact.
+   * @param address - The address of the contact.
+   * @param guardRails - The guard rails, or undefined to remove them.
+   */
+  setContactGuardRails(
+    chainId: Hex,
+    address: Hex,
+    guardRails: ContactGuardRails | undefined,
+  ): void {
+    this.update((state) => {
+      const normalizedAddress = address.toLowerCase() as Hex;
+
+      if (guardRails) {
+        state.contactGuardRails[chainId] ??= {};
+        state.contactGuardRails[chainId][normalizedAddress] = guardRails;
+        return;
+      }
+
+      delete state.contactGuardRails[chainId]?.[normalizedAddress];
+
+      if (!Object.keys(state.contactGuardRails[chainId] ?? {}).length) {
+        delete state.contactGuardRails[chainId];
+      }
+    });
+  }
+
+  /**
+   * Gets the guard rails of an address book contact.
+   *
+   * @param chainId - The chain ID of the contact.
+   * @param address - The address of the contact.
+   * @returns The guard rails, or undefined if none are set.
+   */
+  getContactGuardRails(
+    chainId: Hex,
+    address: Hex,
+  ): ContactGuardRails | undefined {
+    return this.state.contactGuardRails[chainId]?.[
+      address.toLowerCase() as Hex
+    ];
+  }
+
+  /**
+   * Replaces the guard rails of all contacts, such as when restoring a
+   * backup. Invalid entries are dropped.
+   *
+   * @param contactGuardRails - The guard rails by chain ID and address.
+   */
+  loadContactGuardRailsBackup(contactGuardRails: unknown): void {
+    const validGuardRails: ContactGuardRailsByChain = {};
+
+    for (const [chainId, contacts] of Object.entries(
+      isObject(contactGuardRails) ? contactGuardRails : {},
+    )) {
+      if (!isStrictHexString(chainId) || !isObject(contacts)) {
+        continue;
+      }
+
+      for (const [address, guardRails] of Object.entries(contacts)) {
+        const validContactGuardRails = parseContactGuardRails(guardRails);
+
+        if (!isAddress(address) || !validContactGuardRails) {
+          continue;
+        }
+
+        validGuardRails[chainId] ??= {};
+        validGuardRails[chainId][address.toLowerCase() as Hex] =
+          validContactGuardRails;
+      }
+    }
+
+    this.update((state) => {
+      state.contactGuardRails = validGuardRails;
+    });
+  }
+
   getAddressSecurityAlertResponse: GetAddressSecurityAlertResponse = (
     cacheKey: string,
   ): ScanAddressResponse | undefined => {
@@ -1492,6 +1907,69 @@ export class AppStateController extends BaseController<
     });
   }
 
+  /**
+   * Clears the rejections of a method class for an origin and lifts the block
+   * caused by them, using the latest throttling state of the origin.
+   *
+   * @param origin - The origin to reset.
+   * @param methodClass - The method class of the cancelled request.
+   */
+  resetThrottledOriginRejections(
+    origin: string,
+    methodClass: ThrottlingMethodClass,
+  ): void {
+    this.update((state) => {
+      state.throttledOrigins[origin] = liftOriginRejectionBlock(
+        state.throttledOrigins[origin],
+        methodClass,
+      );
+    });
+  }
+
+  /**
+   * Rejects all confirmation requests from an origin until it is unblocked.
+   *
+   * @param origin - The origin to block.
+   */
+  blockOriginPermanently(origin: string): void {
+    this.update((state) => {
+      state.throttledOrigins[origin] = {
+        rejections: {},
+        ...state.throttledOrigins[origin],
+        isPermanentlyBlocked: true,
+      };
+    });
+  }
+
+  /**
+   * Clears the throttling state of an origin, including its block history.
+   *
+   * @param origin - The origin to unblock.
+   */
+  unblockOrigin(origin: string): void {
+    this.update((state) => {
+      delete state.throttledOrigins[origin];
+    });
+  }
+
+  getOriginThrottlingConfig(): OriginThrottlingConfig {
+    return this.state.originThrottlingConfig;
+  }
+
+  /**
+   * Sets the rejection thresholds and block durations used to throttle
+   * origins, per method class.
+   *
+   * @param originThrottlingConfig - The throttling configuration.
+   */
+  setOriginThrottlingConfig(
+    originThrottlingConfig: OriginThrottlingConfig,
+  ): void {
+    this.update((state) => {
+      state.originThrottlingConfig = originThrottlingConfig;
+    });
+  }
+
   /**
    * Completes a QR code scan by resolving the promise with the scanned data.
    *
@@ -1687,3 +2165,54 @@ export class AppStateController extends BaseController<
     return this.state.dappSwapComparisonData?.[uniqueId] ?? undefined;
   }
 }
+
+function isAddress(value: unknown): value is Hex {
+  return isStrictHexString(value) && isValidHexAddress(value);
+}
+
+/**
+ * Validates the guard rails of a contact restored from a backup.
+ *
+ * @param value - The guard rails from the backup.
+ * @returns The guard rails with only the known properties, or undefined if
+ * any property is invalid.
+ */
+function parseContactGuardRails(value: unknown): ContactGuardRails | undefined {
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  const { maxAmount, allowedTokens, requireHoldToConfirm } = value;
+
+  const isMaxAmountValid =
+    maxAmount === undefined ||
+    (typeof maxAmount === 'string' && /^\d+(?:\.\d+)?$/u.test(maxAmount));
+
+  const isAllowedTokensValid =
+    allowedTokens === undefined ||
+    (Array.isArray(allowedTokens) && allowedTokens.every(isAddress));
+
+  const isRequireHoldToConfirmValid =
+    requireHoldToConfirm === undefined ||
+    typeof requireHoldToConfirm === 'boolean';
+
+  if (
+    !isMaxAmountValid ||
+    !isAllowedTokensValid ||
+    !isRequireHoldToConfirmValid
+  ) {
+    return undefined;
+  }
+
+  return {
+    ...(maxAmount === undefined ? {} : { maxAmount }),
+    ...(allowedTokens === undefined
+      ? {}
+      : {
+          allowedTokens: allowedTokens.map(
+            (token) => token.toLowerCase() as Hex,
+          ),
+        }),
+    ...(requireHoldToConfirm === undefined ? {} : { requireHoldToConfirm }),
+  };
+}
@@ -15,6 +15,10 @@ import {
 import { isSnapId } from '@metamask/snaps-utils';
 import { parseCaipAccountId, parseCaipChainId } from '@metamask/utils';
 import { getNetworkConfigurationsByCaipChainId } from '../../../../shared/modules/selectors/networks';
+import {
+  CaveatTypes,
+  EndowmentTypes,
+} from '../../../../shared/constants/permissions';
 
 export function getPermissionBackgroundApiMethods({
   permissionController,
@@ -218,6 +222,46 @@ export function getPermissionBackgroundApiMethods({
     setPermittedChains(origin, updatedChainIds);
   };
 
+  // Passing no methods lifts every restriction of the origin
+  const setPermittedRpcMethods = (origin, methods) => {
+    const caip25Caveat = getCaip25Caveat(origin);
+    if (!caip25Caveat) {
+      throw new Error(
+        `Cannot restrict RPC methods for origin "${origin}": no permission currently exists for this origin.`,
+      );
+    }
+
+    if (!methods) {
+      if (
+        permissionController.hasPermission(
+          origin,
+          EndowmentTypes.rpcMethodAllowlist,
+        )
+      ) {
+        permissionController.revokePermission(
+          origin,
+          EndowmentTypes.rpcMethodAllowlist,
+        );
+      }
+      return;
+    }
+
+    permissionController.grantPermissions({
+      subject: { origin },
+      approvedPermissions: {
+        [EndowmentTypes.rpcMethodAllowlist]: {
+          caveats: [
+            {
+              type: CaveatTypes.restrictRpcMethods,
+              value: methods,
+            },
+          ],
+        },
+      },
+      preserveExistingPermissions: true,
+    });
+  };
+
   const requestAccountsAndChainPermissions = async (origin, id) => {
     /**
      * Note that we are purposely requesting an approval from the ApprovalController
@@ -326,6 +370,8 @@ export function getPermissionBackgroundApiMethods({
 
     setPermittedChains,
 
+    setPermittedRpcMethods,
+
     requestAccountsAndChainPermissionsWithId: (origin) => {
       const id = nanoid();
       requestAccountsAndChainPermissions(origin, id);
@@ -7,6 +7,10 @@ import {
   Caip25EndowmentPermissionName,
 } from '@metamask/chain-agnostic-permission';
 import { flushPromises } from '../../../../test/lib/timer-helpers';
+import {
+  CaveatTypes,
+  EndowmentTypes,
+} from '../../../../shared/constants/permissions';
 import * as NetworkSelectors from '../../../../shared/modules/selectors/networks';
 import { getPermissionBackgroundApiMethods } from './background-api';
 
@@ -1617,4 +1621,67 @@ describe('permission background API methods', () => {
       );
     });
   });
+
+  describe('setPermittedRpcMethods', () => {
+    it('throws an error if there is no existing CAIP-25 caveat', () => {
+      const permissionController = {
+        getCaveat: jest.fn().mockImplementation(() => {
+          throw new PermissionDoesNotExistError();
+        }),
+      };
+
+      expect(() =>
+        setupPermissionBackgroundApiMethods({
+          permissionController,
+        }).setPermittedRpcMethods('foo.com', ['personal_sign']),
+      ).toThrow(
+        new Error(
+          `Cannot restrict RPC methods for origin "foo.com": no permission currently exists for this origin.`,
+        ),
+      );
+    });
+
+    it('grants the RPC method allowlist permission with the allowed methods', () => {
+      const permissionController = {
+        getCaveat: jest.fn().mockReturnValue({ value: {} }),
+        grantPermissions: jest.fn(),
+      };
+
+      setupPermissionBackgroundApiMethods({
+        permissionController,
+      }).setPermittedRpcMethods('foo.com', ['personal_sign']);
+
+      expect(permissionController.grantPermissions).toHaveBeenCalledWith({
+        subject: { origin: 'foo.com' },
+        approvedPermissions: {
+          [EndowmentTypes.rpcMethodAllowlist]: {
+            caveats: [
+              {
+                type: CaveatTypes.restrictRpcMethods,
+                value: ['personal_sign'],
+              },
+            ],
+          },
+        },
+        preserveExistingPermissions: true,
+      });
+    });
+
+    it('revokes the RPC method allowlist permission if no methods are passed', () => {
+      const permissionController = {
+        getCaveat: jest.fn().mockReturnValue({ value: {} }),
+        hasPermission: jest.fn().mockReturnValue(true),
+        revokePermission: jest.fn(),
+      };
+
+      setupPermissionBackgroundApiMethods({
+        permissionController,
+      }).setPermittedRpcMethods('foo.com', null);
+
+      expect(permissionController.revokePermission).toHaveBeenCalledWith(
+        'foo.com',
+        EndowmentTypes.rpcMethodAllowlist,
+      );
+    });
+  });
 });
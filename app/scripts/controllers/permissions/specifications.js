@@ -2,6 +2,7 @@ import {
   caveatSpecifications as snapsCaveatsSpecifications,
   endowmentCaveatSpecifications as snapsEndowmentCaveatSpecifications,
 } from '@metamask/snaps-rpc-methods';
+import { PermissionType, SubjectType } from '@metamask/permission-controller';
 import {
   createCaip25Caveat,
   Caip25CaveatType,
@@ -9,7 +10,9 @@ import {
   caip25CaveatBuilder,
 } from '@metamask/chain-agnostic-permission';
 import {
+  CaveatTypes,
   EndowmentTypes,
+  RESTRICTABLE_RPC_METHODS,
   RestrictedMethods,
 } from '../../../../shared/constants/permissions';
 
@@ -34,6 +37,10 @@ export const PermissionNames = Object.freeze({
  */
 export const CaveatFactories = Object.freeze({
   [Caip25CaveatType]: createCaip25Caveat,
+
+  [CaveatTypes.restrictRpcMethods]: (methods) => {
+    return { type: CaveatTypes.restrictRpcMethods, value: methods };
+  },
 });
 
 /**
@@ -64,6 +71,10 @@ export const getCaveatSpecifications = ({
       isNonEvmScopeSupported,
       getNonEvmAccountAddresses,
     }),
+    [CaveatTypes.restrictRpcMethods]: {
+      type: CaveatTypes.restrictRpcMethods,
+      validator: (caveat) => validateRpcMethodAllowlist(caveat.value),
+    },
     ...snapsCaveatsSpecifications,
     ...snapsEndowmentCaveatSpecifications,
   };
@@ -79,9 +90,53 @@ export const getPermissionSpecifications = () => {
   return {
     [caip25EndowmentBuilder.targetName]:
       caip25EndowmentBuilder.specificationBuilder({}),
+
+    [PermissionNames.rpcMethodAllowlist]: {
+      permissionType: PermissionType.Endowment,
+      targetName: PermissionNames.rpcMethodAllowlist,
+      allowedCaveats: [CaveatTypes.restrictRpcMethods],
+      subjectTypes: [SubjectType.Website],
+      endowmentGetter: (_getterOptions) => null,
+      validator: (permission, _origin, _target) => {
+        const { caveats } = permission;
+
+        if (
+          caveats?.length !== 1 ||
+          caveats[0].type !== CaveatTypes.restrictRpcMethods
+        ) {
+          throw new Error(
+            `${PermissionNames.rpcMethodAllowlist} error: Invalid caveats. There must be a single caveat of type "${CaveatTypes.restrictRpcMethods}".`,
+          );
+        }
+      },
+    },
   };
 };
 
+/**
+ * Validates the value of a `restrictRpcMethods` caveat, which lists the
+ * restrictable RPC methods that the subject is still allowed to call.
+ *
+ * @param {unknown} methods - The caveat value to validate.
+ */
+function validateRpcMethodAllowlist(methods) {
+  if (!Array.isArray(methods)) {
+    throw new Error(
+      `${CaveatTypes.restrictRpcMethods} error: Expected an array of method names.`,
+    );
+  }
+
+  const unknownMethods = methods.filter(
+    (method) => !RESTRICTABLE_RPC_METHODS.includes(method),
+  );
+
+  if (unknownMethods.length > 0) {
+    throw new Error(
+      `${CaveatTypes.restrictRpcMethods} error: Cannot restrict methods "${unknownMethods.join(', ')}".`,
+    );
+  }
+}
+
 /**
  * Unrestricted methods for Ethereum, see {@link unrestrictedMethods} for more details.
  */
@@ -152,6 +207,7 @@ export const unrestrictedMethods = Object.freeze([
   'eth_uninstallFilter',
   'eth_unsubscribe',
   'metamask_getProviderState',
+  'metamask_getSpendingAllowances',
   'metamask_logWeb3ShimUsage',
   'metamask_sendDomainMetadata',
   'metamask_watchAsset',
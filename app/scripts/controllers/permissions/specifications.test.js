@@ -3,6 +3,10 @@ import {
   Caip25CaveatType,
   Caip25EndowmentPermissionName,
 } from '@metamask/chain-agnostic-permission';
+import {
+  CaveatTypes,
+  EndowmentTypes,
+} from '../../../../shared/constants/permissions';
 import {
   getCaveatSpecifications,
   getPermissionSpecifications,
@@ -16,10 +20,13 @@ describe('PermissionController specifications', () => {
   describe('caveat specifications', () => {
     it('getCaveatSpecifications returns the expected specifications object', () => {
       const caveatSpecifications = getCaveatSpecifications({});
-      expect(Object.keys(caveatSpecifications)).toHaveLength(13);
+      expect(Object.keys(caveatSpecifications)).toHaveLength(14);
       expect(caveatSpecifications[Caip25CaveatType].type).toStrictEqual(
         Caip25CaveatType,
       );
+      expect(
+        caveatSpecifications[CaveatTypes.restrictRpcMethods].type,
+      ).toStrictEqual(CaveatTypes.restrictRpcMethods);
 
       expect(caveatSpecifications.permittedDerivationPaths.type).toStrictEqual(
         SnapCaveatType.PermittedDerivationPaths,
@@ -58,15 +65,78 @@ describe('PermissionController specifications', () => {
         SnapCaveatType.ProtocolSnapScopes,
       );
     });
+
+    describe('restrictRpcMethods', () => {
+      it('accepts restrictable methods', () => {
+        const { validator } = getCaveatSpecifications({})[
+          CaveatTypes.restrictRpcMethods
+        ];
+
+        expect(() =>
+          validator({
+            type: CaveatTypes.restrictRpcMethods,
+            value: ['personal_sign', 'eth_sendTransaction'],
+          }),
+        ).not.toThrow();
+      });
+
+      it('throws if the value is not an array', () => {
+        const { validator } = getCaveatSpecifications({})[
+          CaveatTypes.restrictRpcMethods
+        ];
+
+        expect(() =>
+          validator({ type: CaveatTypes.restrictRpcMethods, value: {} }),
+        ).toThrow(
+          'restrictRpcMethods error: Expected an array of method names.',
+        );
+      });
+
+      it('throws if a method cannot be restricted', () => {
+        const { validator } = getCaveatSpecifications({})[
+          CaveatTypes.restrictRpcMethods
+        ];
+
+        expect(() =>
+          validator({
+            type: CaveatTypes.restrictRpcMethods,
+            value: ['personal_sign', 'eth_call'],
+          }),
+        ).toThrow(
+          'restrictRpcMethods error: Cannot restrict methods "eth_call".',
+        );
+      });
+    });
   });
 
   describe('permission specifications', () => {
     it('getPermissionSpecifications returns the expected specifications object', () => {
       const permissionSpecifications = getPermissionSpecifications({});
-      expect(Object.keys(permissionSpecifications)).toHaveLength(1);
+      expect(Object.keys(permissionSpecifications)).toHaveLength(2);
       expect(
         permissionSpecifications[Caip25EndowmentPermissionName].targetName,
       ).toStrictEqual('endowment:caip25');
+      expect(
+        permissionSpecifications[EndowmentTypes.rpcMethodAllowlist].targetName,
+      ).toStrictEqual('endowment:rpc-method-allowlist');
+    });
+
+    describe('endowment:rpc-method-allowlist', () => {
+      it('throws if the permission does not have a single restrictRpcMethods caveat', () => {
+        const { validator } =
+          getPermissionSpecifications()[EndowmentTypes.rpcMethodAllowlist];
+
+        expect(() =>
+          validator({
+            caveats: [
+              { type: CaveatTypes.restrictRpcMethods, value: [] },
+              { type: CaveatTypes.restrictRpcMethods, value: [] },
+            ],
+          }),
+        ).toThrow(
+          'endowment:rpc-method-allowlist error: Invalid caveats. There must be a single caveat of type "restrictRpcMethods".',
+        );
+      });
     });
   });
 
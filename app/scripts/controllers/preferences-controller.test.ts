@@ -17,6 +17,10 @@ import type { Hex } from '@metamask/utils';
 import { CHAIN_IDS } from '../../../shared/constants/network';
 import { mockNetworkState } from '../../../test/stub/networks';
 import { ThemeType } from '../../../shared/constants/preferences';
+import {
+  DEFAULT_SECURITY_POLICIES,
+  NativeValueThresholdPolicy,
+} from '../../../shared/constants/security-policy';
 import type {
   PreferencesControllerMessenger,
   PreferencesControllerState,
@@ -485,6 +489,40 @@ describe('preferences controller', () => {
     });
   });
 
+  describe('setSecurityPolicies', () => {
+    const { controller } = setupController({});
+    it('should default to the disabled default policies', () => {
+      expect(controller.state.securityPolicies).toStrictEqual(
+        DEFAULT_SECURITY_POLICIES,
+      );
+    });
+
+    it('should set the securityPolicies property in state', () => {
+      const securityPolicies = [
+        {
+          ...DEFAULT_SECURITY_POLICIES[0],
+          enabled: true,
+        },
+      ];
+      controller.setSecurityPolicies(securityPolicies);
+      expect(controller.state.securityPolicies).toStrictEqual(securityPolicies);
+    });
+
+    it('should throw and keep the securityPolicies if a policy is invalid', () => {
+      const securityPolicies = controller.state.securityPolicies;
+
+      expect(() =>
+        controller.setSecurityPolicies([
+          {
+            ...(DEFAULT_SECURITY_POLICIES[2] as NativeValueThresholdPolicy),
+            maxValue: '10 ETH' as Hex,
+          },
+        ]),
+      ).toThrow('Invalid security policies.');
+      expect(controller.state.securityPolicies).toStrictEqual(securityPolicies);
+    });
+  });
+
   describe('setAdvancedGasFee', () => {
     const { controller } = setupController({});
     it('should default to an empty object', () => {
@@ -709,8 +747,10 @@ describe('preferences controller', () => {
         smartTransactionsOptInStatus: true,
         useNativeCurrencyAsPrimaryCurrency: true,
         useSidePanelAsDefault: false,
+        hidePoisonTransfers: true,
         hideZeroBalanceTokens: false,
         petnamesEnabled: true,
+        securityStrictMode: false,
         skipDeepLinkInterstitial: false,
         dismissSmartAccountSuggestionEnabled: false,
         featureNotificationsEnabled: false,
@@ -740,10 +780,12 @@ describe('preferences controller', () => {
         smartTransactionsOptInStatus: true,
         useNativeCurrencyAsPrimaryCurrency: true,
         useSidePanelAsDefault: false,
+        hidePoisonTransfers: true,
         hideZeroBalanceTokens: false,
         petnamesEnabled: true,
         skipDeepLinkInterstitial: false,
         privacyMode: false,
+        securityStrictMode: false,
         dismissSmartAccountSuggestionEnabled: false,
         featureNotificationsEnabled: false,
         showConfirmationAdvancedDetails: true,
@@ -891,9 +933,11 @@ describe('preferences controller', () => {
             "avatarType": "maskicon",
             "dismissSmartAccountSuggestionEnabled": false,
             "featureNotificationsEnabled": false,
+            "hidePoisonTransfers": true,
             "hideZeroBalanceTokens": false,
             "petnamesEnabled": true,
             "privacyMode": false,
+            "securityStrictMode": false,
             "showConfirmationAdvancedDetails": false,
             "showExtensionInFullSizeView": false,
             "showFiatInTestnets": false,
@@ -963,9 +1007,11 @@ describe('preferences controller', () => {
             "avatarType": "maskicon",
             "dismissSmartAccountSuggestionEnabled": false,
             "featureNotificationsEnabled": false,
+            "hidePoisonTransfers": true,
             "hideZeroBalanceTokens": false,
             "petnamesEnabled": true,
             "privacyMode": false,
+            "securityStrictMode": false,
             "showConfirmationAdvancedDetails": false,
             "showExtensionInFullSizeView": false,
             "showFiatInTestnets": false,
@@ -989,6 +1035,28 @@ describe('preferences controller', () => {
             "hyperliquid": {},
           },
           "securityAlertsEnabled": true,
+          "securityPolicies": [
+            {
+              "action": "block",
+              "enabled": false,
+              "id": "unlimited_approval",
+              "type": "unlimited_approval",
+            },
+            {
+              "action": "block",
+              "allowedOperators": [],
+              "enabled": false,
+              "id": "approval_for_all_operator",
+              "type": "approval_for_all_operator",
+            },
+            {
+              "action": "require_acknowledgement",
+              "enabled": false,
+              "id": "native_value_threshold",
+              "maxValue": "0x8ac7230489e80000",
+              "type": "native_value_threshold",
+            },
+          ],
           "selectedAddress": "",
           "snapRegistryList": {},
           "snapsAddSnapAccountModalDismissed": false,
@@ -1047,9 +1115,11 @@ describe('preferences controller', () => {
             "avatarType": "maskicon",
             "dismissSmartAccountSuggestionEnabled": false,
             "featureNotificationsEnabled": false,
+            "hidePoisonTransfers": true,
             "hideZeroBalanceTokens": false,
             "petnamesEnabled": true,
             "privacyMode": false,
+            "securityStrictMode": false,
             "showConfirmationAdvancedDetails": false,
             "showExtensionInFullSizeView": false,
             "showFiatInTestnets": false,
@@ -1073,6 +1143,28 @@ describe('preferences controller', () => {
             "hyperliquid": {},
           },
           "securityAlertsEnabled": true,
+          "securityPolicies": [
+            {
+              "action": "block",
+              "enabled": false,
+              "id": "unlimited_approval",
+              "type": "unlimited_approval",
+            },
+            {
+              "action": "block",
+              "allowedOperators": [],
+              "enabled": false,
+              "id": "approval_for_all_operator",
+              "type": "approval_for_all_operator",
+            },
+            {
+              "action": "require_acknowledgement",
+              "enabled": false,
+              "id": "native_value_threshold",
+              "maxValue": "0x8ac7230489e80000",
+              "type": "native_value_threshold",
+            },
+          ],
           "selectedAddress": "",
           "snapRegistryList": {},
           "snapsAddSnapAccountModalDismissed": false,
@@ -1131,9 +1223,11 @@ describe('preferences controller', () => {
             "avatarType": "maskicon",
             "dismissSmartAccountSuggestionEnabled": false,
             "featureNotificationsEnabled": false,
+            "hidePoisonTransfers": true,
             "hideZeroBalanceTokens": false,
             "petnamesEnabled": true,
             "privacyMode": false,
+            "securityStrictMode": false,
             "showConfirmationAdvancedDetails": false,
             "showExtensionInFullSizeView": false,
             "showFiatInTestnets": false,
@@ -1157,6 +1251,28 @@ describe('preferences controller', () => {
             "hyperliquid": {},
           },
           "securityAlertsEnabled": true,
+          "securityPolicies": [
+            {
+              "action": "block",
+              "enabled": false,
+              "id": "unlimited_approval",
+              "type": "unlimited_approval",
+            },
+            {
+              "action": "block",
+              "allowedOperators": [],
+              "enabled": false,
+              "id": "approval_for_all_operator",
+              "type": "approval_for_all_operator",
+            },
+            {
+              "action": "require_acknowledgement",
+              "enabled": false,
+              "id": "native_value_threshold",
+              "maxValue": "0x8ac7230489e80000",
+              "type": "native_value_threshold",
+            },
+          ],
           "selectedAddress": "",
           "snapRegistryList": {},
           "snapsAddSnapAccountModalDismissed": false,
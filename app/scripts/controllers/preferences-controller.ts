@@ -19,6 +19,11 @@ import { type PreferencesState } from '@metamask/preferences-controller';
 import { IPFS_DEFAULT_GATEWAY_URL } from '../../../shared/constants/network';
 import { LedgerTransportTypes } from '../../../shared/constants/hardware-wallets';
 import { ThemeType } from '../../../shared/constants/preferences';
+import {
+  DEFAULT_SECURITY_POLICIES,
+  SecurityPolicy,
+} from '../../../shared/constants/security-policy';
+import { validateSecurityPolicies } from '../../../shared/lib/security-policy';
 
 /**
  * Referral status for an account (currently used for Hyperliquid referrals)
@@ -94,9 +99,11 @@ export type Preferences = {
   avatarType?: 'maskicon' | 'jazzicon' | 'blockies';
   dismissSmartAccountSuggestionEnabled: boolean;
   featureNotificationsEnabled: boolean;
+  hidePoisonTransfers: boolean;
   hideZeroBalanceTokens: boolean;
   petnamesEnabled: boolean;
   privacyMode: boolean;
+  securityStrictMode: boolean;
   showConfirmationAdvancedDetails: boolean;
   showExtensionInFullSizeView: boolean;
   showFiatInTestnets: boolean;
@@ -145,6 +152,7 @@ export type PreferencesControllerState = Omit<
   openSeaEnabled: boolean;
   overrideContentSecurityPolicyHeader: boolean;
   preferences: Preferences;
+  securityPolicies: SecurityPolicy[];
   // TODO: Replace `Json` with correct type
   snapRegistryList: Record<string, Json>;
   snapsAddSnapAccountModalDismissed?: boolean;
@@ -202,9 +210,11 @@ export const getDefaultPreferencesControllerState =
       avatarType: 'maskicon',
       dismissSmartAccountSuggestionEnabled: false,
       featureNotificationsEnabled: false,
+      hidePoisonTransfers: true,
       hideZeroBalanceTokens: false,
       petnamesEnabled: true,
       privacyMode: false,
+      securityStrictMode: false,
       showConfirmationAdvancedDetails: false,
       showExtensionInFullSizeView: false,
       showFiatInTestnets: false,
@@ -225,6 +235,7 @@ export const getDefaultPreferencesControllerState =
       useSidePanelAsDefault: false,
     },
     securityAlertsEnabled: true,
+    securityPolicies: DEFAULT_SECURITY_POLICIES,
     selectedAddress: '',
     snapRegistryList: {},
     ///: BEGIN:ONLY_INCLUDE_IF(keyring-snaps)
@@ -372,6 +383,12 @@ const controllerMetadata: StateMetadata<PreferencesControllerState> = {
     includeInDebugSnapshot: false,
     usedInUi: true,
   },
+  securityPolicies: {
+    includeInStateLogs: true,
+    persist: true,
+    includeInDebugSnapshot: false,
+    usedInUi: true,
+  },
   selectedAddress: {
     includeInStateLogs: true,
     persist: true,
@@ -677,6 +694,21 @@ export class PreferencesController extends BaseController<
     });
   }
 
+  /**
+   * Setter for the `securityPolicies` property
+   *
+   * @param securityPolicies - The user-defined policies evaluated locally
+   * against every confirmation request.
+   * @throws If any of the policies is invalid.
+   */
+  setSecurityPolicies(securityPolicies: SecurityPolicy[]): void {
+    const validatedPolicies = validateSecurityPolicies(securityPolicies);
+
+    this.update((state) => {
+      state.securityPolicies = validatedPolicies;
+    });
+  }
+
   ///: BEGIN:ONLY_INCLUDE_IF(keyring-snaps)
   /**
    * Setter for the `addSnapAccountEnabled` property.
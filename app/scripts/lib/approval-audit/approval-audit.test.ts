@@ -0,0 +1,498 @@
+import { Interface } from '@ethersproject/abi';
+import { BigNumber } from '@ethersproject/bignumber';
+import { Contract } from '@ethersproject/contracts';
+import type { Provider } from '@metamask/network-controller';
+import {
+  SignatureRequest,
+  SignatureRequestStatus,
+} from '@metamask/signature-controller';
+import {
+  TransactionMeta,
+  TransactionStatus,
+} from '@metamask/transaction-controller';
+import type { Hex } from '@metamask/utils';
+import { CHAIN_IDS } from '../../../../shared/constants/network';
+import { PERMIT2_ADDRESS } from '../../../../shared/constants/transaction';
+import { ResultType } from '../../../../shared/lib/trust-signals';
+import { OutstandingApprovalType } from '../../../../shared/types/approval-audit';
+import {
+  buildApproveTransactionData,
+  buildPermit2ApproveTransactionData,
+} from '../../../../test/data/confirmations/token-approve';
+import { buildSetApproveForAllTransactionData } from '../../../../test/data/confirmations/set-approval-for-all';
+import {
+  buildRevokeTransactions,
+  getOutstandingApprovals,
+} from './approval-audit';
+
+jest.mock('@ethersproject/contracts', () => ({
+  Contract: jest.fn(),
+}));
+
+jest.mock('@ethersproject/providers', () => ({
+  Web3Provider: jest.fn(),
+}));
+
+const ACCOUNT_MOCK = '0x2e0d7e8c45221fca00d74a3609a0f7097035d09b';
+const TOKEN_ADDRESS_MOCK = '0x1234567890123456789012345678901234567890';
+const NFT_ADDRESS_MOCK = '0x0987654321098765432109876543210987654321';
+const SPENDER_MOCK = '0x9876543210987654321098765432109876543210';
+const OPERATOR_MOCK = '0x1111111111111111111111111111111111111111';
+const ZERO_ADDRESS_MOCK = '0x0000000000000000000000000000000000000000';
+const ERC721_APPROVE_DATA_MOCK = buildApproveTransactionData(SPENDER_MOCK, 7);
+
+function buildTransaction(
+  to: string,
+  data: Hex,
+  overrides: Partial<TransactionMeta> = {},
+): TransactionMeta {
+  return {
+    id: `${to}-${data}`,
+    chainId: CHAIN_IDS.MAINNET,
+    networkClientId: 'mainnet',
+    status: TransactionStatus.confirmed,
+    time: 1,
+    txParams: { from: ACCOUNT_MOCK, to, data },
+    ...overrides,
+  } as TransactionMeta;
+}
+
+function buildPermitSingleSignature(
+  overrides: Partial<SignatureRequest> = {},
+): SignatureRequest {
+  return {
+    id: 'permit-single',
+    chainId: CHAIN_IDS.MAINNET,
+    status: SignatureRequestStatus.Signed,
+    messageParams: {
+      from: ACCOUNT_MOCK,
+      data: JSON.stringify({
+        domain: {
+          name: 'Permit2',
+          chainId: '1',
+          verifyingContract: PERMIT2_ADDRESS,
+        },
+        primaryType: 'PermitSingle',
+        message: {
+          details: {
+            token: TOKEN_ADDRESS_MOCK,
+            amount: '1000',
+            expiration: String(Math.floor(Date.now() / 1000) + 3600),
+            nonce: '5',
+          },
+          spender: SPENDER_MOCK,
+          sigDeadline: String(Math.floor(Date.now() / 1000) + 600),
+        },
+      }),
+    },
+    ...overrides,
+  } as SignatureRequest;
+}
+
+describe('Approval Audit', () => {
+  const contractMock = jest.mocked(Contract);
+  const allowanceMock = jest.fn();
+  const isApprovedForAllMock = jest.fn();
+  const supportsInterfaceMock = jest.fn();
+  const getApprovedMock = jest.fn();
+  const permit2AllowanceMock = jest.fn();
+  const getAddressSecurityAlertResponseMock = jest.fn();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    contractMock.mockImplementation(
+      (address: string) =>
+        ({
+          allowance:
+            address === PERMIT2_ADDRESS ? permit2AllowanceMock : allowanceMock,
+          isApprovedForAll: isApprovedForAllMock,
+          supportsInterface: supportsInterfaceMock,
+          getApproved: getApprovedMock,
+        }) as unknown as Contract,
+    );
+
+    allowanceMock.mockResolvedValue(BigNumber.from(100));
+    isApprovedForAllMock.mockResolvedValue(true);
+    supportsInterfaceMock.mockRejectedValue(new Error('Execution reverted'));
+    getApprovedMock.mockResolvedValue(SPENDER_MOCK);
+    permit2AllowanceMock.mockResolvedValue({
+      amount: BigNumber.from(50),
+      expiration: Math.floor(Date.now() / 1000) + 3600,
+      nonce: 5,
+    });
+  });
+
+  describe('getOutstandingApprovals', () => {
+    function getApprovals(
+      transactions: TransactionMeta[],
+      signatureRequests: SignatureRequest[] = [],
+    ) {
+      return getOutstandingApprovals({
+        address: ACCOUNT_MOCK,
+        chainId: CHAIN_IDS.MAINNET,
+        transactions,
+        signatureRequests,
+        provider: {} as Provider,
+        getAddressSecurityAlertResponse: getAddressSecurityAlertResponseMock,
+      });
+    }
+
+    it('returns live ERC-20 allowances', async () => {
+      const approvals = await getApprovals([
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 100),
+        ),
+      ]);
+
+      expect(allowanceMock).toHaveBeenCalledWith(ACCOUNT_MOCK, SPENDER_MOCK);
+      expect(approvals).toStrictEqual([
+        {
+          type: OutstandingApprovalType.Allowance,
+          tokenAddress: TOKEN_ADDRESS_MOCK,
+          spender: SPENDER_MOCK,
+          amount: '100',
+          spenderResultType: undefined,
+          spenderLabel: undefined,
+        },
+      ]);
+    });
+
+    it('returns live ERC-721 token approvals', async () => {
+      supportsInterfaceMock.mockResolvedValue(true);
+
+      const approvals = await getApprovals([
+        buildTransaction(NFT_ADDRESS_MOCK, ERC721_APPROVE_DATA_MOCK),
+      ]);
+
+      expect(getApprovedMock).toHaveBeenCalledWith('7');
+      expect(allowanceMock).not.toHaveBeenCalled();
+      expect(approvals).toStrictEqual([
+        {
+          type: OutstandingApprovalType.TokenApproval,
+          tokenAddress: NFT_ADDRESS_MOCK,
+          spender: SPENDER_MOCK,
+          tokenId: '7',
+          spenderResultType: undefined,
+          spenderLabel: undefined,
+        },
+      ]);
+    });
+
+    it('ignores ERC-721 tokens approved to another address', async () => {
+      supportsInterfaceMock.mockResolvedValue(true);
+      getApprovedMock.mockResolvedValue(OPERATOR_MOCK);
+
+      const approvals = await getApprovals([
+        buildTransaction(NFT_ADDRESS_MOCK, ERC721_APPROVE_DATA_MOCK),
+      ]);
+
+      expect(approvals).toStrictEqual([]);
+    });
+
+    it('returns live approvals for all', async () => {
+      const approvals = await getApprovals([
+        buildTransaction(
+          NFT_ADDRESS_MOCK,
+          buildSetApproveForAllTransactionData(OPERATOR_MOCK, true),
+        ),
+      ]);
+
+      expect(isApprovedForAllMock).toHaveBeenCalledWith(
+        ACCOUNT_MOCK,
+        OPERATOR_MOCK,
+      );
+      expect(approvals).toStrictEqual([
+        expect.objectContaining({
+          type: OutstandingApprovalType.ApprovalForAll,
+          tokenAddress: NFT_ADDRESS_MOCK,
+          spender: OPERATOR_MOCK,
+        }),
+      ]);
+    });
+
+    it('returns live Permit2 allowances', async () => {
+      const approvals = await getApprovals([
+        buildTransaction(
+          PERMIT2_ADDRESS,
+          buildPermit2ApproveTransactionData(
+            TOKEN_ADDRESS_MOCK,
+            SPENDER_MOCK,
+            50,
+            Math.floor(Date.now() / 1000) + 3600,
+          ),
+        ),
+      ]);
+
+      expect(permit2AllowanceMock).toHaveBeenCalledWith(
+        ACCOUNT_MOCK,
+        TOKEN_ADDRESS_MOCK,
+        SPENDER_MOCK,
+      );
+      expect(approvals).toStrictEqual([
+        expect.objectContaining({
+          type: OutstandingApprovalType.Permit2,
+          tokenAddress: TOKEN_ADDRESS_MOCK,
+          spender: SPENDER_MOCK,
+          amount: '50',
+        }),
+      ]);
+    });
+
+    it('returns signed Permit2 permits that were not used yet', async () => {
+      const signature = buildPermitSingleSignature();
+      const { message } = JSON.parse(signature.messageParams.data as string);
+
+      const approvals = await getApprovals([], [signature]);
+
+      expect(approvals).toStrictEqual([
+        expect.objectContaining({
+          type: OutstandingApprovalType.Permit2,
+          tokenAddress: TOKEN_ADDRESS_MOCK,
+          spender: SPENDER_MOCK,
+          amount: '1000',
+          expiration: Number(message.details.expiration),
+          permitNonce: 5,
+        }),
+      ]);
+    });
+
+    it('returns the Permit2 allowance of permits that were used', async () => {
+      permit2AllowanceMock.mockResolvedValue({
+        amount: BigNumber.from(50),
+        expiration: Math.floor(Date.now() / 1000) + 3600,
+        nonce: 6,
+      });
+
+      const approvals = await getApprovals([], [buildPermitSingleSignature()]);
+
+      expect(approvals).toStrictEqual([
+        expect.objectContaining({
+          type: OutstandingApprovalType.Permit2,
+          amount: '50',
+        }),
+      ]);
+      expect(approvals[0].permitNonce).toBeUndefined();
+    });
+
+    it('ignores signatures that were not signed, are on another chain or are not Permit2', async () => {
+      const approvals = await getApprovals(
+        [],
+        [
+          buildPermitSingleSignature({
+            status: SignatureRequestStatus.Rejected,
+          }),
+          buildPermitSingleSignature({ chainId: CHAIN_IDS.SEPOLIA }),
+          buildPermitSingleSignature({
+            messageParams: {
+              from: ACCOUNT_MOCK,
+              data: (
+                buildPermitSingleSignature().messageParams.data as string
+              ).replace(PERMIT2_ADDRESS, TOKEN_ADDRESS_MOCK),
+            },
+          }),
+        ],
+      );
+
+      expect(permit2AllowanceMock).not.toHaveBeenCalled();
+      expect(approvals).toStrictEqual([]);
+    });
+
+    it('ignores approvals that are no longer live', async () => {
+      allowanceMock.mockResolvedValue(BigNumber.from(0));
+      isApprovedForAllMock.mockResolvedValue(false);
+      permit2AllowanceMock.mockResolvedValue({
+        amount: BigNumber.from(50),
+        expiration: Math.floor(Date.now() / 1000) - 1,
+      });
+
+      const approvals = await getApprovals([
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 100),
+        ),
+        buildTransaction(
+          NFT_ADDRESS_MOCK,
+          buildSetApproveForAllTransactionData(OPERATOR_MOCK, true),
+        ),
+        buildTransaction(
+          PERMIT2_ADDRESS,
+          buildPermit2ApproveTransactionData(
+            TOKEN_ADDRESS_MOCK,
+            SPENDER_MOCK,
+            50,
+            1,
+          ),
+        ),
+      ]);
+
+      expect(approvals).toStrictEqual([]);
+    });
+
+    it('ignores approvals if the on chain check fails', async () => {
+      allowanceMock.mockRejectedValue(new Error('Execution reverted'));
+
+      const approvals = await getApprovals([
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 100),
+        ),
+      ]);
+
+      expect(approvals).toStrictEqual([]);
+    });
+
+    it('returns each approval once', async () => {
+      const approvals = await getApprovals([
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 100),
+          { id: '1' },
+        ),
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 200),
+          { id: '2' },
+        ),
+      ]);
+
+      expect(approvals).toHaveLength(1);
+    });
+
+    it('ignores transactions that are not confirmed, from another account or on another chain', async () => {
+      await getApprovals([
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 100),
+          { status: TransactionStatus.failed } as Partial<TransactionMeta>,
+        ),
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 100),
+          { chainId: CHAIN_IDS.SEPOLIA },
+        ),
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 100),
+          { txParams: { from: OPERATOR_MOCK } },
+        ),
+      ]);
+
+      expect(contractMock).not.toHaveBeenCalled();
+    });
+
+    it('includes approvals from batch transactions', async () => {
+      const approvals = await getApprovals([
+        buildTransaction(ACCOUNT_MOCK, '0x', {
+          nestedTransactions: [
+            {
+              to: TOKEN_ADDRESS_MOCK,
+              data: buildApproveTransactionData(SPENDER_MOCK, 100),
+            },
+          ],
+        }),
+      ]);
+
+      expect(approvals).toStrictEqual([
+        expect.objectContaining({
+          type: OutstandingApprovalType.Allowance,
+          spender: SPENDER_MOCK,
+        }),
+      ]);
+    });
+
+    it('rates spenders using the cached trust signals', async () => {
+      getAddressSecurityAlertResponseMock.mockReturnValue({
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        result_type: ResultType.Malicious,
+        label: 'Drainer',
+      });
+
+      const approvals = await getApprovals([
+        buildTransaction(
+          TOKEN_ADDRESS_MOCK,
+          buildApproveTransactionData(SPENDER_MOCK, 100),
+        ),
+      ]);
+
+      expect(getAddressSecurityAlertResponseMock).toHaveBeenCalledWith(
+        `ethereum:${SPENDER_MOCK}`,
+      );
+      expect(approvals[0]).toStrictEqual(
+        expect.objectContaining({
+          spenderResultType: ResultType.Malicious,
+          spenderLabel: 'Drainer',
+        }),
+      );
+    });
+  });
+
+  describe('buildRevokeTransactions', () => {
+    it('builds a call that resets each approval', () => {
+      expect(
+        buildRevokeTransactions([
+          {
+            type: OutstandingApprovalType.Allowance,
+            tokenAddress: TOKEN_ADDRESS_MOCK,
+            spender: SPENDER_MOCK,
+          },
+          {
+            type: OutstandingApprovalType.ApprovalForAll,
+            tokenAddress: NFT_ADDRESS_MOCK,
+            spender: OPERATOR_MOCK,
+          },
+          {
+            type: OutstandingApprovalType.Permit2,
+            tokenAddress: TOKEN_ADDRESS_MOCK,
+            spender: SPENDER_MOCK,
+          },
+          {
+            type: OutstandingApprovalType.TokenApproval,
+            tokenAddress: NFT_ADDRESS_MOCK,
+            spender: SPENDER_MOCK,
+            tokenId: '7',
+          },
+          {
+            type: OutstandingApprovalType.Permit2,
+            tokenAddress: TOKEN_ADDRESS_MOCK,
+            spender: SPENDER_MOCK,
+            permitNonce: 5,
+          },
+        ]),
+      ).toStrictEqual([
+        {
+          to: TOKEN_ADDRESS_MOCK,
+          data: buildApproveTransactionData(SPENDER_MOCK, 0),
+        },
+        {
+          to: NFT_ADDRESS_MOCK,
+          data: buildSetApproveForAllTransactionData(OPERATOR_MOCK, false),
+        },
+        {
+          to: PERMIT2_ADDRESS,
+          data: buildPermit2ApproveTransactionData(
+            TOKEN_ADDRESS_MOCK,
+            SPENDER_MOCK,
+            0,
+            0,
+          ),
+        },
+        {
+          to: NFT_ADDRESS_MOCK,
+          data: buildApproveTransactionData(ZERO_ADDRESS_MOCK, 7),
+        },
+        {
+          to: PERMIT2_ADDRESS,
+          data: new Interface([
+            'function invalidateNonces(address token, address spender, uint48 newNonce)',
+          ]).encodeFunctionData('invalidateNonces', [
+            TOKEN_ADDRESS_MOCK,
+            SPENDER_MOCK,
+            6,
+          ]),
+        },
+      ]);
+    });
+  });
+});
@@ -0,0 +1,481 @@
+import { Interface } from '@ethersproject/abi';
+import { Contract } from '@ethersproject/contracts';
+import { Web3Provider } from '@ethersproject/providers';
+import { abiERC20, abiERC721 } from '@metamask/metamask-eth-abis';
+import type { Provider } from '@metamask/network-controller';
+import {
+  SignatureRequest,
+  SignatureRequestStatus,
+} from '@metamask/signature-controller';
+import {
+  BatchTransactionParams,
+  TransactionMeta,
+  TransactionStatus,
+} from '@metamask/transaction-controller';
+import type { Hex } from '@metamask/utils';
+import log from 'loglevel';
+import { PrimaryTypePermit } from '../../../../shared/constants/signatures';
+import { PERMIT2_ADDRESS } from '../../../../shared/constants/transaction';
+import {
+  GetAddressSecurityAlertResponse,
+  createCacheKey,
+  mapChainIdToSupportedEVMChain,
+} from '../../../../shared/lib/trust-signals';
+import {
+  parseApprovalTransactionData,
+  parseTypedDataMessage,
+} from '../../../../shared/modules/transaction.utils';
+import {
+  OutstandingApproval,
+  OutstandingApprovalType,
+} from '../../../../shared/types/approval-audit';
+
+const ABI_PERMIT_2 = [
+  'function allowance(address owner, address token, address spender) view returns (uint160 amount, uint48 expiration, uint48 nonce)',
+  'function approve(address token, address spender, uint160 amount, uint48 expiration)',
+  'function invalidateNonces(address token, address spender, uint48 newNonce)',
+];
+
+const ABI_ERC721_APPROVAL = [
+  'function supportsInterface(bytes4 interfaceId) view returns (bool)',
+  'function getApproved(uint256 tokenId) view returns (address)',
+];
+
+const ERC721_INTERFACE_ID = '0x80ac58cd';
+
+const ZERO_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+const erc20Interface = new Interface(abiERC20);
+const erc721Interface = new Interface(abiERC721);
+const permit2Interface = new Interface(ABI_PERMIT_2);
+
+type ApprovalCandidate = Pick<
+  OutstandingApproval,
+  | 'amount'
+  | 'expiration'
+  | 'permitNonce'
+  | 'spender'
+  | 'tokenAddress'
+  | 'tokenId'
+  | 'type'
+> & {
+  /** Unix timestamp in seconds after which a signed permit cannot be used. */
+  sigDeadline?: number;
+};
+
+type Permit2Details = {
+  token?: string;
+  amount?: string;
+  expiration?: string;
+  nonce?: string;
+};
+
+export type GetOutstandingApprovalsRequest = {
+  address: Hex;
+  chainId: Hex;
+  transactions: TransactionMeta[];
+  signatureRequests: SignatureRequest[];
+  provider: Provider;
+  getAddressSecurityAlertResponse: GetAddressSecurityAlertResponse;
+};
+
+function getApprovalCandidate(
+  to?: string,
+  data?: string,
+): ApprovalCandidate | undefined {
+  if (!to || !data) {
+    return undefined;
+  }
+
+  const approval = parseApprovalTransactionData(data as Hex);
+
+  if (!approval?.spender) {
+    return undefined;
+  }
+
+  if (approval.tokenAddress) {
+    return {
+      type: OutstandingApprovalType.Permit2,
+      tokenAddress: approval.tokenAddress,
+      spender: approval.spender,
+    };
+  }
+
+  if (approval.name === 'setApprovalForAll') {
+    return {
+      type: OutstandingApprovalType.ApprovalForAll,
+      tokenAddress: to as Hex,
+      spender: approval.spender,
+    };
+  }
+
+  // `approve` has the same signature for ERC-20 and ERC-721, so the token
+  // standard is only known once the token is queried.
+  return {
+    type: OutstandingApprovalType.Allowance,
+    tokenAddress: to as Hex,
+    spender: approval.spender,
+    tokenId: approval.amountOrTokenId?.toFixed(),
+  };
+}
+
+/**
+ * Gets the Permit2 allowances granted off-chain by a signed `PermitSingle` or
+ * `PermitBatch` message, which the spender can use at any time.
+ *
+ * @param signatureRequest - The signed signature request.
+ * @returns The approval candidates of the message.
+ */
+function getPermit2SignatureCandidates(
+  signatureRequest: SignatureRequest,
+): ApprovalCandidate[] {
+  try {
+    const { domain, message, primaryType } = parseTypedDataMessage(
+      signatureRequest.messageParams.data as string,
+    );
+
+    if (
+      domain?.verifyingContract?.toLowerCase() !==
+        PERMIT2_ADDRESS.toLowerCase() ||
+      !message?.spender
+    ) {
+      return [];
+    }
+
+    let details: Permit2Details[] = [];
+
+    if (primaryType === PrimaryTypePermit.PermitSingle) {
+      details = [message.details];
+    } else if (primaryType === PrimaryTypePermit.PermitBatch) {
+      details = message.details;
+    }
+
+    return (details ?? [])
+      .filter((detail) => detail?.token && detail.nonce !== undefined)
+      .map((detail) => ({
+        type: OutstandingApprovalType.Permit2,
+        tokenAddress: detail.token as Hex,
+        spender: message.spender as Hex,
+        amount: detail.amount,
+        expiration: Number(detail.expiration),
+        permitNonce: Number(detail.nonce),
+        sigDeadline: Number(message.sigDeadline),
+      }));
+  } catch {
+    // Malformed typed data cannot grant an allowance.
+    return [];
+  }
+}
+
+function addCandidate<Candidate extends ApprovalCandidate>(
+  candidates: Map<string, Candidate>,
+  candidate: Candidate,
+) {
+  const key = [
+    candidate.type,
+    candidate.tokenAddress,
+    candidate.spender,
+    candidate.tokenId,
+    candidate.permitNonce,
+  ]
+    .join(':')
+    .toLowerCase();
+
+  candidates.set(key, candidate);
+}
+
+function getApprovalCandidates(
+  address: Hex,
+  chainId: Hex,
+  transactions: TransactionMeta[],
+  signatureRequests: SignatureRequest[],
+): ApprovalCandidate[] {
+  const candidates = new Map<string, ApprovalCandidate>();
+
+  const accountTransactions = transactions.filter(
+    ({ chainId: transactionChainId, status, txParams }) =>
+      transactionChainId === chainId &&
+      status === TransactionStatus.confirmed &&
+      txParams.from?.toLowerCase() === address.toLowerCase(),
+  );
+
+  for (const { nestedTransactions, txParams } of accountTransactions) {
+    const calls = nestedTransactions?.length
+      ? nestedTransactions
+      : [{ to: txParams.to, data: txParams.data }];
+
+    for (const { to, data } of calls) {
+      const candidate = getApprovalCandidate(to, data);
+
+      if (candidate) {
+        addCandidate(candidates, candidate);
+      }
+    }
+  }
+
+  const signedPermits = signatureRequests.filter(
+    ({ chainId: signatureChainId, messageParams, status }) =>
+      signatureChainId === chainId &&
+      status === SignatureRequestStatus.Signed &&
+      messageParams.from?.toLowerCase() === address.toLowerCase(),
+  );
+
+  for (const signatureRequest of signedPermits) {
+    for (const candidate of getPermit2SignatureCandidates(signatureRequest)) {
+      addCandidate(candidates, candidate);
+    }
+  }
+
+  return [...candidates.values()];
+}
+
+function isInFuture(timestamp?: number): boolean {
+  return timestamp !== undefined && timestamp * 1000 > Date.now();
+}
+
+async function isERC721(
+  tokenAddress: Hex,
+  ethersProvider: Web3Provider,
+): Promise<boolean> {
+  const contract = new Contract(
+    tokenAddress,
+    ABI_ERC721_APPROVAL,
+    ethersProvider,
+  );
+
+  try {
+    return await contract.supportsInterface(ERC721_INTERFACE_ID);
+  } catch {
+    // ERC-20 tokens do not implement ERC-165.
+    return false;
+  }
+}
+
+async function getLiveTokenApproval(
+  candidate: ApprovalCandidate,
+  ethersProvider: Web3Provider,
+): Promise<OutstandingApproval | undefined> {
+  const { spender, tokenAddress, tokenId } = candidate;
+
+  if (tokenId === undefined) {
+    return undefined;
+  }
+
+  const contract = new Contract(
+    tokenAddress,
+    ABI_ERC721_APPROVAL,
+    ethersProvider,
+  );
+  const approved: string = await contract.getApproved(tokenId);
+
+  return approved.toLowerCase() === spender.toLowerCase()
+    ? {
+        type: OutstandingApprovalType.TokenApproval,
+        tokenAddress,
+        spender,
+        tokenId,
+      }
+    : undefined;
+}
+
+async function getLiveApproval(
+  owner: Hex,
+  candidate: ApprovalCandidate,
+  ethersProvider: Web3Provider,
+): Promise<OutstandingApproval | undefined> {
+  const { spender, tokenAddress, type } = candidate;
+
+  switch (type) {
+    case OutstandingApprovalType.Allowance: {
+      if (await isERC721(tokenAddress, ethersProvider)) {
+        return await getLiveTokenApproval(candidate, ethersProvider);
+      }
+
+      const contract = new Contract(tokenAddress, abiERC20, ethersProvider);
+      const amount = await contract.allowance(owner, spender);
+
+      return amount.isZero()
+        ? undefined
+        : { type, tokenAddress, spender, amount: amount.toString() };
+    }
+    case OutstandingApprovalType.ApprovalForAll: {
+      const contract = new Contract(tokenAddress, abiERC721, ethersProvider);
+      const isApproved = await contract.isApprovedForAll(owner, spender);
+
+      return isApproved ? { type, tokenAddress, spender } : undefined;
+    }
+    case OutstandingApprovalType.Permit2: {
+      const contract = new Contract(
+        PERMIT2_ADDRESS,
+        ABI_PERMIT_2,
+        ethersProvider,
+      );
+      const { amount, expiration, nonce } = await contract.allowance(
+        owner,
+        tokenAddress,
+        spender,
+      );
+
+      // A signed permit can still be submitted by the spender as long as its
+      // nonce is unused and neither the signature nor the allowance expired.
+      // Once submitted, the allowance it granted is checked like any other.
+      if (
+        candidate.permitNonce !== undefined &&
+        nonce <= candidate.permitNonce &&
+        isInFuture(candidate.sigDeadline) &&
+        isInFuture(candidate.expiration)
+      ) {
+        return {
+          type,
+          tokenAddress,
+          spender,
+          amount: candidate.amount,
+          expiration: candidate.expiration,
+          permitNonce: candidate.permitNonce,
+        };
+      }
+
+      if (amount.isZero() || !isInFuture(expiration)) {
+        return undefined;
+      }
+
+      return {
+        type,
+        tokenAddress,
+        spender,
+        amount: amount.toString(),
+        expiration,
+      };
+    }
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Reconstructs the approvals an account has granted on a chain from its
+ * confirmed transactions and signed Permit2 permits, then checks each one on chain so only approvals
+ * that are still live are returned. Spenders are rated using the cached
+ * trust-signal responses, without making any new requests.
+ *
+ * @param request - The request.
+ * @param request.address - The account that granted the approvals.
+ * @param request.chainId - The chain to audit.
+ * @param request.transactions - The local transaction history.
+ * @param request.signatureRequests - The local signature history, used to
+ * find Permit2 allowances granted off-chain.
+ * @param request.provider - The provider for the chain.
+ * @param request.getAddressSecurityAlertResponse - Reads the trust-signal cache.
+ * @returns The outstanding approvals.
+ */
+export async function getOutstandingApprovals({
+  address,
+  chainId,
+  transactions,
+  signatureRequests,
+  provider,
+  getAddressSecurityAlertResponse,
+}: GetOutstandingApprovalsRequest): Promise<OutstandingApproval[]> {
+  const ethersProvider = new Web3Provider(provider);
+  const chain = mapChainIdToSupportedEVMChain(chainId);
+
+  const approvals = await Promise.all(
+    getApprovalCandidates(
+      address,
+      chainId,
+      transactions,
+      signatureRequests,
+    ).map(async (candidate) => {
+      try {
+        return await getLiveApproval(address, candidate, ethersProvider);
+      } catch (error) {
+        log.warn('Failed to check approval', candidate, error);
+        return undefined;
+      }
+    }),
+  );
+
+  // ERC-20 approvals with different amounts are the same live allowance.
+  const liveApprovals = new Map<string, OutstandingApproval>();
+
+  for (const approval of approvals) {
+    if (approval) {
+      addCandidate(liveApprovals, approval);
+    }
+  }
+
+  return [...liveApprovals.values()].map((approval) => {
+    const response = chain
+      ? getAddressSecurityAlertResponse(createCacheKey(chain, approval.spender))
+      : undefined;
+
+    return {
+      ...approval,
+      spenderResultType: response?.result_type,
+      spenderLabel: response?.label || undefined,
+    };
+  });
+}
+
+/**
+ * Builds the calls that revoke the given approvals.
+ *
+ * @param approvals - The approvals to revoke.
+ * @returns One call per approval.
+ */
+export function buildRevokeTransactions(
+  approvals: ApprovalCandidate[],
+): BatchTransactionParams[] {
+  return approvals.map(
+    ({ permitNonce, spender, tokenAddress, tokenId, type }) => {
+      switch (type) {
+        case OutstandingApprovalType.TokenApproval:
+          return {
+            to: tokenAddress,
+            data: erc721Interface.encodeFunctionData('approve', [
+              ZERO_ADDRESS,
+              tokenId,
+            ]) as Hex,
+          };
+        case OutstandingApprovalType.ApprovalForAll:
+          return {
+            to: tokenAddress,
+            data: erc721Interface.encodeFunctionData('setApprovalForAll', [
+              spender,
+              false,
+            ]) as Hex,
+          };
+        case OutstandingApprovalType.Permit2:
+          // Approving a zero allowance does not invalidate a signed permit.
+          if (permitNonce !== undefined) {
+            return {
+              to: PERMIT2_ADDRESS,
+              data: permit2Interface.encodeFunctionData('invalidateNonces', [
+                tokenAddress,
+                spender,
+                permitNonce + 1,
+              ]) as Hex,
+            };
+          }
+
+          return {
+            to: PERMIT2_ADDRESS,
+            data: permit2Interface.encodeFunctionData('approve', [
+              tokenAddress,
+              spender,
+              0,
+              0,
+            ]) as Hex,
+          };
+        default:
+          return {
+            to: tokenAddress,
+            data: erc20Interface.encodeFunctionData('approve', [
+              spender,
+              0,
+            ]) as Hex,
+          };
+      }
+    },
+  );
+}
@@ -1,26 +1,76 @@
 import { prependZero } from '../../../shared/modules/string-utils';
+import migrations from '../migrations';
+import { encryptorFactory } from './encryptor-factory';
+import {
+  createEncryptedBackup,
+  replaceBackupState,
+  restoreEncryptedBackup,
+} from './encrypted-backup';
+import { verifyStateSnapshotPassword } from './stores/state-snapshots';
+
+/**
+ * Returns the name of a backup file, including the current date.
+ *
+ * @param {string} prefix - The prefix of the file name.
+ * @returns {string} The file name.
+ */
+function getBackupFileName(prefix) {
+  const date = new Date();
+
+  const prefixZero = (num) => prependZero(num, 2);
+
+  /*
+   * prefix.YYYY_MM_DD_HH_mm_SS e.g MetaMaskUserData.2022_01_13_13_45_56
+   * */
+  return `${prefix}.${date.getFullYear()}_${prefixZero(
+    date.getMonth() + 1,
+  )}_${prefixZero(date.getDay())}_${prefixZero(date.getHours())}_${prefixZero(
+    date.getMinutes(),
+  )}_${prefixZero(date.getDay())}.json`;
+}
 
 export default class Backup {
   constructor(opts = {}) {
     const {
       preferencesController,
       addressBookController,
+      appStateController,
       accountsController,
+      keyringController,
       networkController,
       trackMetaMetricsEvent,
+      getPersistedState,
+      currentMigrationVersion,
+      restoreStateAndReload,
+      getStateSnapshots,
+      getStateSnapshot,
+      encryptor = encryptorFactory(600_000),
     } = opts;
 
     this.preferencesController = preferencesController;
     this.accountsController = accountsController;
     this.addressBookController = addressBookController;
+    this.appStateController = appStateController;
+    this.keyringController = keyringController;
     this.networkController = networkController;
     this._trackMetaMetricsEvent = trackMetaMetricsEvent;
+    this._getPersistedState = getPersistedState;
+    this._currentMigrationVersion = currentMigrationVersion;
+    this._restoreStateAndReload = restoreStateAndReload;
+    this._getStateSnapshots = getStateSnapshots;
+    this._getStateSnapshot = getStateSnapshot;
+    this._encryptor = encryptor;
   }
 
   async restoreUserData(jsonString) {
     const existingPreferences = this.preferencesController.state;
-    const { preferences, addressBook, network, internalAccounts } =
-      JSON.parse(jsonString);
+    const {
+      preferences,
+      addressBook,
+      contactGuardRails,
+      network,
+      internalAccounts,
+    } = JSON.parse(jsonString);
     if (preferences) {
       preferences.identities = existingPreferences.identities;
       preferences.lostIdentities = existingPreferences.lostIdentities;
@@ -33,6 +83,10 @@ export default class Backup {
       this.addressBookController.update(addressBook, true);
     }
 
+    if (contactGuardRails) {
+      this.appStateController.loadContactGuardRailsBackup(contactGuardRails);
+    }
+
     if (network) {
       this.networkController.loadBackup(network);
     }
@@ -56,6 +110,7 @@ export default class Backup {
         internalAccounts: this.accountsController.state.internalAccounts,
       },
       addressBook: { ...this.addressBookController.state },
+      contactGuardRails: this.appStateController.state.contactGuardRails,
       network: {
         networkConfigurationsByChainId:
           this.networkController.state.networkConfigurationsByChainId,
@@ -71,19 +126,98 @@ export default class Backup {
 
     const result = JSON.stringify(userData);
 
-    const date = new Date();
+    return { fileName: getBackupFileName('MetaMaskUserData'), data: result };
+  }
+
+  /**
+   * Restores the wallet from an encrypted backup file, then reloads the
+   * extension so the controllers are initialized from the restored state.
+   *
+   * Backups created by older versions are migrated to the current version
+   * before being restored.
+   *
+   * @param {string} jsonString - The contents of the backup file.
+   * @param {string} password - The password the backup was encrypted with.
+   * @param {string} currentPassword - The password of the current wallet.
+   */
+  async restoreEncryptedUserData(jsonString, password, currentPassword) {
+    await this.keyringController.verifyPassword(currentPassword);
+
+    const restoredState = await restoreEncryptedBackup({
+      backup: JSON.parse(jsonString),
+      password,
+      encryptor: this._encryptor,
+      migrations,
+    });
+
+    this._trackMetaMetricsEvent({
+      event: 'Encrypted User Data Imported',
+      category: 'Backup',
+    });
+
+    await this._restoreStateAndReload(
+      replaceBackupState(this._getPersistedState(), restoredState),
+    );
+  }
+
+  /**
+   * Creates a backup of the whole wallet, including the vault, encrypted with
+   * the password of the wallet.
+   *
+   * @param {string} password - The password of the wallet.
+   * @returns {Promise<{fileName: string, data: string}>} The backup file.
+   */
+  async backupEncryptedUserData(password) {
+    await this.keyringController.verifyPassword(password);
+
+    const backup = await createEncryptedBackup({
+      state: this._getPersistedState(),
+      version: this._currentMigrationVersion,
+      password,
+      encryptor: this._encryptor,
+    });
+
+    return {
+      fileName: getBackupFileName('MetaMaskEncryptedBackup'),
+      data: JSON.stringify(backup),
+    };
+  }
 
-    const prefixZero = (num) => prependZero(num, 2);
+  /**
+   * Lists the rolling snapshots of the persisted state, newest first.
+   *
+   * @returns {Promise<import('../../../shared/constants/state-corruption').StateSnapshotMetadata[]>}
+   * The metadata of the snapshots.
+   */
+  async getStateSnapshots() {
+    return await this._getStateSnapshots();
+  }
+
+  /**
+   * Restores the persisted state from a snapshot, then reloads the extension
+   * so the controllers are initialized from the restored state. The snapshot
+   * state is migrated on reload if it was taken by an older version.
+   *
+   * @param {string} id - The ID of the snapshot.
+   * @param {string} password - The password of the vault in the snapshot.
+   */
+  async restoreStateSnapshot(id, password) {
+    const snapshot = await this._getStateSnapshot(id);
+
+    if (!snapshot) {
+      throw new Error(`State snapshot ${id} not found.`);
+    }
+
+    if (!(await verifyStateSnapshotPassword(snapshot, password))) {
+      throw new Error('Incorrect password');
+    }
 
-    /*
-     * userData.YYYY_MM_DD_HH_mm_SS e.g userData.2022_01_13_13_45_56
-     * */
-    const userDataFileName = `MetaMaskUserData.${date.getFullYear()}_${prefixZero(
-      date.getMonth() + 1,
-    )}_${prefixZero(date.getDay())}_${prefixZero(date.getHours())}_${prefixZero(
-      date.getMinutes(),
-    )}_${prefixZero(date.getDay())}.json`;
+    this._trackMetaMetricsEvent({
+      event: 'State Snapshot Restored',
+      category: 'Backup',
+      properties: { reason: snapshot.reason },
+    });
 
-    return { fileName: userDataFileName, data: result };
+    await this._restoreStateAndReload(snapshot.data, snapshot.meta);
   }
 }
@@ -9,8 +9,14 @@ import {
   POLYGON_DISPLAY_NAME,
 } from '../../../shared/constants/network';
 import { mockNetworkState } from '../../../test/stub/networks';
+import migrations from '../migrations';
 import Backup from './backup';
 
+jest.mock('./stores/state-snapshots', () => ({
+  verifyStateSnapshotPassword: async (_snapshot, password) =>
+    password === 'password',
+}));
+
 function getMockPreferencesController() {
   const state = {
     selectedAddress: '0x01',
@@ -63,6 +69,18 @@ function getMockAddressBookController() {
   return mcState;
 }
 
+function getMockAppStateController() {
+  const state = {
+    contactGuardRails: {},
+  };
+
+  const loadContactGuardRailsBackup = (contactGuardRails) => {
+    Object.assign(state, { contactGuardRails });
+  };
+
+  return { state, loadContactGuardRailsBackup };
+}
+
 function getMockNetworkController() {
   const state = {
     networkConfigurationsByChainId: {},
@@ -108,6 +126,14 @@ const jsonData = JSON.stringify({
       },
     },
   },
+  contactGuardRails: {
+    '0x61': {
+      '0x42eb768f2244c8811c63729a21a3569731535f06': {
+        maxAmount: '1.5',
+        requireHoldToConfirm: true,
+      },
+    },
+  },
   network: {
     ...mockNetworkState(
       {
@@ -201,14 +227,60 @@ const jsonData = JSON.stringify({
   },
 });
 
+const PASSWORD_MOCK = 'password';
+
+const CURRENT_MIGRATION_VERSION = migrations[migrations.length - 1].version;
+
+const PERSISTED_STATE_MOCK = {
+  KeyringController: { vault: 'vault' },
+  NameController: { names: {} },
+  PreferencesController: { currentLocale: 'en' },
+};
+
+const STATE_SNAPSHOT_MOCK = {
+  id: 'snapshot-id',
+  createdAt: 1,
+  version: 10,
+  reason: 'daily',
+  data: { KeyringController: { vault: 'snapshotVault' } },
+  meta: { version: 10 },
+};
+
+function getMockKeyringController() {
+  return {
+    verifyPassword: jest.fn(async (password) => {
+      if (password !== PASSWORD_MOCK) {
+        throw new Error('Incorrect password');
+      }
+    }),
+  };
+}
+
+function getMockEncryptor() {
+  return {
+    encrypt: jest.fn(async (_password, data) => JSON.stringify(data)),
+    decrypt: jest.fn(async (_password, text) => JSON.parse(text)),
+  };
+}
+
 describe('Backup', function () {
   const getBackup = () => {
     return new Backup({
       preferencesController: getMockPreferencesController(),
       addressBookController: getMockAddressBookController(),
+      appStateController: getMockAppStateController(),
       networkController: getMockNetworkController(),
       accountsController: getMockAccountsController(),
+      keyringController: getMockKeyringController(),
       trackMetaMetricsEvent: jest.fn(),
+      getPersistedState: () => PERSISTED_STATE_MOCK,
+      currentMigrationVersion: CURRENT_MIGRATION_VERSION,
+      restoreStateAndReload: jest.fn(),
+      getStateSnapshots: jest.fn(async () => [STATE_SNAPSHOT_MOCK]),
+      getStateSnapshot: jest.fn(async (id) =>
+        id === STATE_SNAPSHOT_MOCK.id ? STATE_SNAPSHOT_MOCK : undefined,
+      ),
+      encryptor: getMockEncryptor(),
     });
   };
 
@@ -287,6 +359,16 @@ describe('Backup', function () {
         ].isEns,
       ).toBeFalsy();
 
+      // check contact guard rails backup
+      expect(backup.appStateController.state.contactGuardRails).toStrictEqual({
+        '0x61': {
+          '0x42eb768f2244c8811c63729a21a3569731535f06': {
+            maxAmount: '1.5',
+            requireHoldToConfirm: true,
+          },
+        },
+      });
+
       // make sure the internal accounts are restored
       expect(
         backup.accountsController.state.internalAccounts.accounts[
@@ -316,5 +398,114 @@ describe('Backup', function () {
         backup.accountsController.state.internalAccounts.selectedAccount,
       ).toBe('fcbcdca4-cc47-4bc8-b455-b14421e9277e');
     });
+
+    it('should include contact guard rails in backup', async function () {
+      const backup = getBackup();
+      await backup.restoreUserData(jsonData);
+
+      const { data } = await backup.backupUserData();
+
+      expect(JSON.parse(data).contactGuardRails).toStrictEqual(
+        JSON.parse(jsonData).contactGuardRails,
+      );
+    });
+  });
+
+  describe('encrypted backup', function () {
+    it('should create encrypted backup of wallet state', async function () {
+      const backup = getBackup();
+
+      const { fileName, data } =
+        await backup.backupEncryptedUserData(PASSWORD_MOCK);
+
+      expect(fileName).toMatch(/^MetaMaskEncryptedBackup\..*\.json$/u);
+      expect(JSON.parse(data)).toStrictEqual({
+        type: 'MetaMaskEncryptedBackup',
+        version: CURRENT_MIGRATION_VERSION,
+        data: JSON.stringify({
+          KeyringController: PERSISTED_STATE_MOCK.KeyringController,
+          NameController: PERSISTED_STATE_MOCK.NameController,
+        }),
+      });
+    });
+
+    it('should not create encrypted backup if password is incorrect', async function () {
+      const backup = getBackup();
+
+      await expect(backup.backupEncryptedUserData('wrong')).rejects.toThrow(
+        'Incorrect password',
+      );
+    });
+
+    it('should restore encrypted backup and reload', async function () {
+      const backup = getBackup();
+      const restoredState = {
+        KeyringController: { vault: 'restoredVault' },
+        TransactionController: { transactions: [] },
+      };
+
+      await backup.restoreEncryptedUserData(
+        JSON.stringify({
+          type: 'MetaMaskEncryptedBackup',
+          version: CURRENT_MIGRATION_VERSION,
+          data: JSON.stringify(restoredState),
+        }),
+        PASSWORD_MOCK,
+        PASSWORD_MOCK,
+      );
+
+      expect(backup._restoreStateAndReload).toHaveBeenCalledWith({
+        PreferencesController: PERSISTED_STATE_MOCK.PreferencesController,
+        ...restoredState,
+      });
+    });
+
+    it('should not restore encrypted backup if current password is incorrect', async function () {
+      const backup = getBackup();
+
+      await expect(
+        backup.restoreEncryptedUserData(
+          JSON.stringify({
+            type: 'MetaMaskEncryptedBackup',
+            version: CURRENT_MIGRATION_VERSION,
+            data: JSON.stringify({}),
+          }),
+          PASSWORD_MOCK,
+          'wrong',
+        ),
+      ).rejects.toThrow('Incorrect password');
+
+      expect(backup._restoreStateAndReload).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('state snapshots', function () {
+    it('should restore state snapshot and reload', async function () {
+      const backup = getBackup();
+
+      await backup.restoreStateSnapshot(STATE_SNAPSHOT_MOCK.id, PASSWORD_MOCK);
+
+      expect(backup._restoreStateAndReload).toHaveBeenCalledWith(
+        STATE_SNAPSHOT_MOCK.data,
+        STATE_SNAPSHOT_MOCK.meta,
+      );
+    });
+
+    it('should not restore state snapshot if password is incorrect', async function () {
+      const backup = getBackup();
+
+      await expect(
+        backup.restoreStateSnapshot(STATE_SNAPSHOT_MOCK.id, 'wrong'),
+      ).rejects.toThrow('Incorrect password');
+      expect(backup._restoreStateAndReload).not.toHaveBeenCalled();
+    });
+
+    it('should throw if state snapshot does not exist', async function () {
+      const backup = getBackup();
+
+      await expect(
+        backup.restoreStateSnapshot('missing', PASSWORD_MOCK),
+      ).rejects.toThrow('State snapshot missing not found.');
+    });
   });
 });
@@ -1,6 +1,10 @@
 import { errorCodes, providerErrors } from '@metamask/rpc-errors';
 import { JsonRpcResponse } from '@metamask/utils';
 import type { Json } from '@metamask/utils';
+import {
+  DEFAULT_ORIGIN_THROTTLING_CONFIG,
+  ThrottlingMethodClass,
+} from '../../../shared/constants/origin-throttling';
 import createOriginThrottlingMiddleware, {
   SPAM_FILTER_ACTIVATED_ERROR,
   ExtendedJSONRPCRequest,
@@ -14,6 +18,7 @@ describe('createOriginThrottlingMiddleware', () => {
   beforeEach(() => {
     jest.resetAllMocks();
     middleware = createOriginThrottlingMiddleware({
+      getOriginThrottlingConfig: () => DEFAULT_ORIGIN_THROTTLING_CONFIG,
       getThrottledOriginState: mockGetThrottledOriginState,
       updateThrottledOriginState: mockUpdateThrottledOriginState,
     });
@@ -42,8 +47,33 @@ describe('createOriginThrottlingMiddleware', () => {
     const end = jest.fn();
 
     mockGetThrottledOriginState.mockReturnValueOnce({
-      rejections: 3,
-      lastRejection: Date.now(),
+      rejections: {},
+      blockedUntil: Date.now() + 60000,
+    });
+
+    await middleware(
+      req,
+      { error: null } as unknown as JsonRpcResponse<Json>,
+      next,
+      end,
+    );
+
+    expect(end).toHaveBeenCalledWith(SPAM_FILTER_ACTIVATED_ERROR);
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('ends with SPAM_FILTER_ACTIVATED_ERROR if the origin is permanently blocked', async () => {
+    const req = {
+      method: 'personal_sign',
+      origin: 'testOrigin',
+    } as unknown as ExtendedJSONRPCRequest;
+    const next = jest.fn();
+    const end = jest.fn();
+
+    mockGetThrottledOriginState.mockReturnValueOnce({
+      rejections: {},
+      blockedUntil: 0,
+      isPermanentlyBlocked: true,
     });
 
     await middleware(
@@ -74,15 +104,27 @@ describe('createOriginThrottlingMiddleware', () => {
     } as unknown as JsonRpcResponse<Json>;
 
     mockGetThrottledOriginState.mockReturnValue({
-      rejections: 1,
-      lastRejection: Date.now(),
+      rejections: {
+        [ThrottlingMethodClass.Signature]: {
+          rejections: 1,
+          lastRejection: Date.now(),
+        },
+        [ThrottlingMethodClass.Transaction]: {
+          rejections: 1,
+          lastRejection: Date.now(),
+        },
+      },
     });
 
     await middleware(req, responseWithoutError, next, end);
 
     expect(mockUpdateThrottledOriginState).toHaveBeenCalledWith('testOrigin', {
-      rejections: 0,
-      lastRejection: 0,
+      rejections: {
+        [ThrottlingMethodClass.Signature]: {
+          rejections: 1,
+          lastRejection: expect.any(Number),
+        },
+      },
     });
     expect(nextCallback).toHaveBeenCalled();
   });
@@ -105,16 +147,17 @@ describe('createOriginThrottlingMiddleware', () => {
       jsonrpc: '2.0',
     } as unknown as JsonRpcResponse<Json>;
 
-    mockGetThrottledOriginState.mockReturnValueOnce({
-      rejections: 0,
-      lastRejection: 0,
-    });
+    mockGetThrottledOriginState.mockReturnValueOnce({ rejections: {} });
 
     await middleware(req, responseWithUserRejectedError, next, end);
 
     expect(mockUpdateThrottledOriginState).toHaveBeenCalledWith('testOrigin', {
-      rejections: 1,
-      lastRejection: expect.any(Number),
+      rejections: {
+        [ThrottlingMethodClass.Transaction]: {
+          rejections: 1,
+          lastRejection: expect.any(Number),
+        },
+      },
     });
     expect(nextCallback).toHaveBeenCalled();
   });
@@ -139,10 +182,7 @@ describe('createOriginThrottlingMiddleware', () => {
       jsonrpc: '2.0',
     } as unknown as JsonRpcResponse<Json>;
 
-    mockGetThrottledOriginState.mockReturnValueOnce({
-      rejections: 0,
-      lastRejection: 0,
-    });
+    mockGetThrottledOriginState.mockReturnValueOnce({ rejections: {} });
 
     await middleware(req, responseWithUserRejectedError, next, end);
 
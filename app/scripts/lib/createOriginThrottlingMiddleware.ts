@@ -9,25 +9,20 @@ import type {
   JsonRpcEngineEndCallback,
   JsonRpcEngineNextCallback,
 } from '@metamask/json-rpc-engine';
-import { MESSAGE_TYPE } from '../../../shared/constants/app';
-import type { ThrottledOrigin } from '../../../shared/types/origin-throttling';
-
-export const NUMBER_OF_REJECTIONS_THRESHOLD = 3;
-export const REJECTION_THRESHOLD_IN_MS = 30000;
-export const BLOCKING_THRESHOLD_IN_MS = 60000;
+import { THROTTLING_METHOD_CLASS_BY_METHOD } from '../../../shared/constants/origin-throttling';
+import {
+  isOriginBlocked,
+  recordOriginRejection,
+  resetOriginRejections,
+} from '../../../shared/lib/origin-throttling';
+import type {
+  OriginThrottlingConfig,
+  ThrottledOrigin,
+} from '../../../shared/types/origin-throttling';
 
-export const BLOCKABLE_METHODS: Set<string> = new Set([
-  MESSAGE_TYPE.ADD_ETHEREUM_CHAIN,
-  MESSAGE_TYPE.ETH_SEND_TRANSACTION,
-  MESSAGE_TYPE.ETH_SIGN_TYPED_DATA,
-  MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V1,
-  MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V3,
-  MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V4,
-  MESSAGE_TYPE.PERSONAL_SIGN,
-  MESSAGE_TYPE.SWITCH_ETHEREUM_CHAIN,
-  MESSAGE_TYPE.WALLET_SEND_CALLS,
-  MESSAGE_TYPE.WATCH_ASSET,
-]);
+export const BLOCKABLE_METHODS: Set<string> = new Set(
+  Object.keys(THROTTLING_METHOD_CLASS_BY_METHOD),
+);
 
 const TEST_ORIGINS = [
   'http://127.0.0.1:8080',
@@ -45,6 +40,7 @@ export const SPAM_FILTER_ACTIVATED_ERROR = providerErrors.unauthorized(
 );
 
 type CreateOriginThrottlingMiddlewareOptions = {
+  getOriginThrottlingConfig: () => OriginThrottlingConfig;
   getThrottledOriginState: (origin: string) => ThrottledOrigin | undefined;
   updateThrottledOriginState: (
     origin: string,
@@ -56,6 +52,7 @@ const isUserRejectedError = (error: JsonRpcError) =>
   error.code === errorCodes.provider.userRejectedRequest;
 
 export default function createOriginThrottlingMiddleware({
+  getOriginThrottlingConfig,
   getThrottledOriginState,
   updateThrottledOriginState,
 }: CreateOriginThrottlingMiddlewareOptions) {
@@ -74,14 +71,15 @@ export default function createOriginThrottlingMiddleware({
       return;
     }
 
-    const currentOriginState = getThrottledOriginState(origin);
-    const isDappBlocked = isOriginBlockedForConfirmations(currentOriginState);
+    const isDappBlocked = isOriginBlocked(getThrottledOriginState(origin));
 
     if (isDappBlocked) {
       end(SPAM_FILTER_ACTIVATED_ERROR);
       return;
     }
 
+    const methodClass = THROTTLING_METHOD_CLASS_BY_METHOD[method];
+
     next((callback: () => void) => {
       if ('error' in res && res.error && isUserRejectedError(res.error)) {
         const extraData = res.error?.data as { cause?: string };
@@ -92,34 +90,25 @@ export default function createOriginThrottlingMiddleware({
         }
 
         // User rejected the request
-        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31880
-        // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
-        const throttledOriginState = getThrottledOriginState(origin) || {
-          rejections: 0,
-          lastRejection: 0,
-        };
-
-        const currentTime = Date.now();
-        const isUnderThreshold =
-          currentTime - throttledOriginState.lastRejection <
-          REJECTION_THRESHOLD_IN_MS;
-        const newRejections = isUnderThreshold
-          ? throttledOriginState.rejections + 1
-          : 1;
-
-        updateThrottledOriginState(origin, {
-          rejections: newRejections,
-          lastRejection: currentTime,
-        });
+        updateThrottledOriginState(
+          origin,
+          recordOriginRejection(
+            getThrottledOriginState(origin),
+            methodClass,
+            getOriginThrottlingConfig()[methodClass],
+          ),
+        );
       } else {
         // User accepted the request
         const throttledOriginState = getThrottledOriginState(origin);
-        const hasOriginThrottled = Boolean(throttledOriginState);
+        const hasOriginThrottled = Boolean(
+          throttledOriginState?.rejections[methodClass],
+        );
         if (hasOriginThrottled) {
-          updateThrottledOriginState(origin, {
-            rejections: 0,
-            lastRejection: 0,
-          });
+          updateThrottledOriginState(
+            origin,
+            resetOriginRejections(throttledOriginState, methodClass),
+          );
         }
       }
 
@@ -127,17 +116,3 @@ export default function createOriginThrottlingMiddleware({
     });
   };
 }
-
-function isOriginBlockedForConfirmations(
-  throttledOriginState: ThrottledOrigin | undefined,
-) {
-  if (!throttledOriginState) {
-    return false;
-  }
-  const currentTime = Date.now();
-  const { rejections, lastRejection } = throttledOriginState;
-  const isWithinOneMinute =
-    currentTime - lastRejection <= BLOCKING_THRESHOLD_IN_MS;
-
-  return rejections >= NUMBER_OF_REJECTIONS_THRESHOLD && isWithinOneMinute;
-}
@@ -0,0 +1,131 @@
+import type { Json, JsonRpcResponse } from '@metamask/utils';
+import {
+  SecurityPolicy,
+  SecurityPolicyAction,
+  SecurityPolicyType,
+} from '../../../shared/constants/security-policy';
+import { createSecurityPolicyBlockedError } from '../../../shared/lib/security-policy';
+import createSecurityPolicyMiddleware, {
+  SecurityPolicyMiddlewareRequest,
+} from './createSecurityPolicyMiddleware';
+
+const FROM_MOCK = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+const TO_MOCK = '0x5b9b2e4e8c0a5c7b8b4e0f8e5c1b4e8c0a5c7b8b';
+
+const NATIVE_VALUE_POLICY_MOCK: SecurityPolicy = {
+  id: SecurityPolicyType.NativeValueThreshold,
+  type: SecurityPolicyType.NativeValueThreshold,
+  action: SecurityPolicyAction.Block,
+  enabled: true,
+  maxValue: '0x1',
+};
+
+function createRequest(
+  request: Partial<SecurityPolicyMiddlewareRequest>,
+): SecurityPolicyMiddlewareRequest {
+  return {
+    id: 1,
+    jsonrpc: '2.0',
+    method: 'eth_sendTransaction',
+    params: [{ from: FROM_MOCK, to: TO_MOCK, value: '0x2' }],
+    ...request,
+  };
+}
+
+function runMiddleware(
+  policies: SecurityPolicy[],
+  req: SecurityPolicyMiddlewareRequest,
+) {
+  const next = jest.fn();
+  const end = jest.fn();
+
+  createSecurityPolicyMiddleware({ getSecurityPolicies: () => policies })(
+    req,
+    {} as JsonRpcResponse<Json>,
+    next,
+    end,
+  );
+
+  return { next, end };
+}
+
+describe('createSecurityPolicyMiddleware', () => {
+  it('calls next if the method is not a confirmation', () => {
+    const req = createRequest({ method: 'eth_chainId', params: [] });
+
+    const { next, end } = runMiddleware([NATIVE_VALUE_POLICY_MOCK], req);
+
+    expect(next).toHaveBeenCalled();
+    expect(end).not.toHaveBeenCalled();
+  });
+
+  it('rejects requests violating a blocking policy', () => {
+    const req = createRequest({});
+
+    const { next, end } = runMiddleware([NATIVE_VALUE_POLICY_MOCK], req);
+
+    expect(end).toHaveBeenCalledWith(
+      createSecurityPolicyBlockedError([
+        {
+          action: SecurityPolicyAction.Block,
+          policyId: SecurityPolicyType.NativeValueThreshold,
+          type: SecurityPolicyType.NativeValueThreshold,
+        },
+      ]),
+    );
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('rejects batches with a call violating a blocking policy', () => {
+    const req = createRequest({
+      method: 'wallet_sendCalls',
+      params: [
+        {
+          from: FROM_MOCK,
+          calls: [{ to: TO_MOCK }, { to: TO_MOCK, value: '0x2' }],
+        },
+      ],
+    });
+
+    const { next, end } = runMiddleware([NATIVE_VALUE_POLICY_MOCK], req);
+
+    expect(end).toHaveBeenCalled();
+    expect(next).not.toHaveBeenCalled();
+  });
+
+  it('adds non-blocking violations to the request', () => {
+    const req = createRequest({});
+
+    const { next, end } = runMiddleware(
+      [
+        {
+          ...NATIVE_VALUE_POLICY_MOCK,
+          action: SecurityPolicyAction.RequireAcknowledgement,
+        },
+      ],
+      req,
+    );
+
+    expect(req.securityPolicyViolations).toStrictEqual([
+      {
+        action: SecurityPolicyAction.RequireAcknowledgement,
+        policyId: SecurityPolicyType.NativeValueThreshold,
+        type: SecurityPolicyType.NativeValueThreshold,
+      },
+    ]);
+    expect(next).toHaveBeenCalled();
+    expect(end).not.toHaveBeenCalled();
+  });
+
+  it('ignores disabled policies', () => {
+    const req = createRequest({});
+
+    const { next } = runMiddleware(
+      [{ ...NATIVE_VALUE_POLICY_MOCK, enabled: false }],
+      req,
+    );
+
+    expect(req.securityPolicyViolations).toBeUndefined();
+    expect(next).toHaveBeenCalled();
+  });
+});
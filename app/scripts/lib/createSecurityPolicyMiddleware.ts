@@ -0,0 +1,110 @@
+import type {
+  Json,
+  JsonRpcError,
+  JsonRpcResponse,
+  JsonRpcRequest,
+} from '@metamask/utils';
+import type {
+  JsonRpcEngineEndCallback,
+  JsonRpcEngineNextCallback,
+} from '@metamask/json-rpc-engine';
+import { MESSAGE_TYPE } from '../../../shared/constants/app';
+import type {
+  SecurityPolicy,
+  SecurityPolicyViolation,
+} from '../../../shared/constants/security-policy';
+import { SIGNING_METHODS } from '../../../shared/constants/transaction';
+import {
+  createSecurityPolicyBlockedError,
+  evaluateSecurityPolicies,
+  hasBlockingViolation,
+} from '../../../shared/lib/security-policy';
+
+const POLICY_METHODS: Set<string> = new Set([
+  MESSAGE_TYPE.ETH_SEND_TRANSACTION,
+  MESSAGE_TYPE.WALLET_SEND_CALLS,
+  ...SIGNING_METHODS,
+]);
+
+export type SecurityPolicyMiddlewareRequest = JsonRpcRequest & {
+  securityPolicyViolations?: SecurityPolicyViolation[];
+};
+
+type CreateSecurityPolicyMiddlewareOptions = {
+  getSecurityPolicies: () => SecurityPolicy[];
+};
+
+type SendCallsParams = {
+  from?: string;
+  calls?: { to?: string; data?: string; value?: string }[];
+}[];
+
+/**
+ * Evaluates each call of a `wallet_sendCalls` request as a transaction.
+ *
+ * @param request - The `wallet_sendCalls` request.
+ * @param policies - The user-defined security policies.
+ * @returns The violations of all calls.
+ */
+function evaluateSendCalls(
+  request: JsonRpcRequest,
+  policies: SecurityPolicy[],
+): SecurityPolicyViolation[] {
+  const [{ from, calls = [] } = {}] = (request.params ?? []) as SendCallsParams;
+
+  return calls.flatMap((call) =>
+    evaluateSecurityPolicies(
+      {
+        method: MESSAGE_TYPE.ETH_SEND_TRANSACTION,
+        params: [{ ...call, from }],
+      },
+      policies,
+    ),
+  );
+}
+
+/**
+ * Evaluates the user-defined security policies before every confirmation
+ * request, independently of the security alerts provider.
+ *
+ * Requests violating a blocking policy are rejected before a confirmation is
+ * created. Other violations are attached to the request so they are included
+ * in its security alert response.
+ *
+ * @param options - The middleware options.
+ * @param options.getSecurityPolicies - Getter for the user-defined security policies.
+ * @returns The security policy middleware.
+ */
+export default function createSecurityPolicyMiddleware({
+  getSecurityPolicies,
+}: CreateSecurityPolicyMiddlewareOptions) {
+  return function securityPolicyMiddleware(
+    req: SecurityPolicyMiddlewareRequest,
+    _res: JsonRpcResponse<Json | JsonRpcError>,
+    next: JsonRpcEngineNextCallback,
+    end: JsonRpcEngineEndCallback,
+  ) {
+    if (!POLICY_METHODS.has(req.method)) {
+      next();
+      return;
+    }
+
+    const policies = getSecurityPolicies();
+
+    const policyViolations =
+      req.method === MESSAGE_TYPE.WALLET_SEND_CALLS
+        ? evaluateSendCalls(req, policies)
+        : evaluateSecurityPolicies(req, policies);
+
+    if (hasBlockingViolation(policyViolations)) {
+      end(createSecurityPolicyBlockedError(policyViolations));
+      return;
+    }
+
+    if (policyViolations.length) {
+      req.securityPolicyViolations = policyViolations;
+    }
+
+    next();
+  };
+}
@@ -67,6 +67,19 @@ export class DeepLinkRouter extends EventEmitter<{
     return url.pathname + url.search;
   }
 
+  /**
+   * Returns the URL to the interstitial page for a deep link.
+   *
+   * @param url - The deep link URL.
+   * @returns The URL to the interstitial page with the `u` query parameter.
+   */
+  private getInterstitialURL(url: URL) {
+    const params = new URLSearchParams({
+      u: this.formatUrlForInterstitialPage(url),
+    });
+    return this.getExtensionURL(TRIMMED_DEEP_LINK_ROUTE, params.toString());
+  }
+
   /**
    * Returns the URL to the 404 error page for deep links.
    *
@@ -167,7 +180,11 @@ export class DeepLinkRouter extends EventEmitter<{
       if (parsed) {
         this.emit('navigate', { url, parsed });
 
-        if ('redirectTo' in parsed.destination) {
+        if (parsed.route.requiresSignature && parsed.signature !== VALID) {
+          // the route only accepts signed links, the interstitial page
+          // explains why the link was rejected
+          link = this.getInterstitialURL(url);
+        } else if ('redirectTo' in parsed.destination) {
           link = parsed.destination.redirectTo.toString();
         } else if (this.canSkipInterstitial(parsed.signature)) {
           // signed links than can and should skip the interstitial page
@@ -177,13 +194,7 @@ export class DeepLinkRouter extends EventEmitter<{
           );
         } else {
           // unsigned links or signed links that don't skip the interstitial
-          const search = new URLSearchParams({
-            u: this.formatUrlForInterstitialPage(url),
-          });
-          link = this.getExtensionURL(
-            TRIMMED_DEEP_LINK_ROUTE,
-            search.toString(),
-          );
+          link = this.getInterstitialURL(url);
         }
       } else {
         // unable to parse, show error page
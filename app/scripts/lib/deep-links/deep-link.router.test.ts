@@ -6,6 +6,7 @@ import {
   SIG_PARAM,
 } from '../../../../shared/lib/deep-links/constants';
 import { ParsedDeepLink, parse } from '../../../../shared/lib/deep-links/parse';
+import type { Route } from '../../../../shared/lib/deep-links/routes';
 import ExtensionPlatform from '../../platforms/extension';
 import { DeepLinkRouter } from './deep-link-router';
 
@@ -45,6 +46,8 @@ jest.mock('../../../../shared/modules/mv3.utils', () => ({
   },
 }));
 
+const ROUTE_MOCK = { requiresSignature: false } as Route;
+
 const getState = jest.fn(() => ({
   preferences: { skipDeepLinkInterstitial: false },
 })) as unknown as jest.MockedFunction<MetaMaskController['getState']>;
@@ -106,6 +109,7 @@ describe('DeepLinkRouter', () => {
         const tabId = 1;
         const url = `https://example.com/external-route`;
         parseMock.mockResolvedValue({
+          route: ROUTE_MOCK,
           destination: {},
         } as ParsedDeepLink);
         const response = await onBeforeRequest?.({
@@ -125,6 +129,7 @@ describe('DeepLinkRouter', () => {
         const tabId = 1;
         const url = `https://example.com/external-route?query=param`;
         parseMock.mockResolvedValue({
+          route: ROUTE_MOCK,
           signature: signed ? 'valid' : 'invalid',
           destination: {},
         } as ParsedDeepLink);
@@ -146,6 +151,7 @@ describe('DeepLinkRouter', () => {
           preferences: { skipDeepLinkInterstitial: true },
         } as unknown as ReturnType<MetaMaskController['getState']>);
         parseMock.mockResolvedValue({
+          route: ROUTE_MOCK,
           destination: {
             path: 'internal-route',
             query: new URLSearchParams([['one', 'two']]),
@@ -169,6 +175,7 @@ describe('DeepLinkRouter', () => {
           preferences: { skipDeepLinkInterstitial: true },
         } as unknown as ReturnType<MetaMaskController['getState']>);
         parseMock.mockResolvedValue({
+          route: ROUTE_MOCK,
           signature: 'invalid',
           destination: {},
         } as ParsedDeepLink);
@@ -183,6 +190,54 @@ describe('DeepLinkRouter', () => {
       });
     });
 
+    describe('requiresSignature: true', () => {
+      const signedRouteMock = { requiresSignature: true } as Route;
+
+      it.each(['missing', 'invalid'] as const)(
+        'should redirect links with a %s signature to the interstitial page',
+        async (signature) => {
+          const tabId = 1;
+          const url = `https://example.com/redirect-route?query=param`;
+          getState.mockReturnValue({
+            preferences: { skipDeepLinkInterstitial: true },
+          } as unknown as ReturnType<MetaMaskController['getState']>);
+          parseMock.mockResolvedValue({
+            route: signedRouteMock,
+            signature,
+            destination: {
+              redirectTo: new URL('https://example.com/internal-route'),
+            },
+          } as ParsedDeepLink);
+          await onBeforeRequest?.({
+            tabId,
+            url,
+          } as browser.WebRequest.OnBeforeRequestDetailsType);
+          expect(browser.tabs.update).toHaveBeenCalledWith(tabId, {
+            url: 'chrome-extension://extension-id/home.html#link?u=%2Fredirect-route%3Fquery%3Dparam',
+          });
+        },
+      );
+
+      it('should follow links with a valid signature', async () => {
+        const tabId = 1;
+        const url = `https://example.com/redirect-route?${SIG_PARAM}=12345`;
+        parseMock.mockResolvedValue({
+          route: signedRouteMock,
+          signature: 'valid',
+          destination: {
+            redirectTo: new URL('https://example.com/internal-route'),
+          },
+        } as ParsedDeepLink);
+        await onBeforeRequest?.({
+          tabId,
+          url,
+        } as browser.WebRequest.OnBeforeRequestDetailsType);
+        expect(browser.tabs.update).toHaveBeenCalledWith(tabId, {
+          url: 'https://example.com/internal-route',
+        });
+      });
+    });
+
     it('should handle TAB_ID_NONE and not attempt to parse or navigate', async () => {
       const url = `about:blank`;
       const tabId = browser.tabs.TAB_ID_NONE;
@@ -229,6 +284,7 @@ describe('DeepLinkRouter', () => {
       const tabId = 1;
       const url = `https://example.com/test-route`;
       parseMock.mockResolvedValue({
+        route: ROUTE_MOCK,
         destination: {},
         signature: 'invalid',
       } as ParsedDeepLink);
@@ -251,6 +307,7 @@ describe('DeepLinkRouter', () => {
       const tabId = 1;
       const url = `https://example.com/redirect-route`;
       parseMock.mockResolvedValue({
+        route: ROUTE_MOCK,
         destination: {
           redirectTo: new URL('https://example.com/internal-route'),
         },
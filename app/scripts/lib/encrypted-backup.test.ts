@@ -0,0 +1,174 @@
+import {
+  ENCRYPTED_BACKUP_TYPE,
+  Migration,
+  createEncryptedBackup,
+  replaceBackupState,
+  restoreEncryptedBackup,
+} from './encrypted-backup';
+
+const PASSWORD_MOCK = 'password';
+
+const STATE_MOCK = {
+  KeyringController: { vault: 'vault' },
+  AddressBookController: { addressBook: {} },
+  NameController: { names: { ethereumAddress: {} } },
+  TransactionController: { transactions: [] },
+  PreferencesController: { currentLocale: 'en' },
+};
+
+const encryptor = {
+  encrypt: jest.fn(async (password: string, data: unknown) =>
+    JSON.stringify({ password, data }),
+  ),
+  decrypt: jest.fn(async (password: string, text: string) => {
+    const encrypted = JSON.parse(text);
+    if (encrypted.password !== password) {
+      throw new Error('Incorrect password');
+    }
+    return encrypted.data;
+  }),
+};
+
+const MIGRATIONS_MOCK: Migration[] = [
+  {
+    version: 2,
+    migrate: async ({ data }) => ({
+      data: { ...data, NameController: { names: {}, migrated: true } },
+      meta: { version: 2 },
+    }),
+  },
+];
+
+describe('Encrypted Backup', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createEncryptedBackup', () => {
+    it('encrypts backed up controller state', async () => {
+      const backup = await createEncryptedBackup({
+        state: STATE_MOCK,
+        version: 1,
+        password: PASSWORD_MOCK,
+        encryptor,
+      });
+
+      expect(backup.type).toBe(ENCRYPTED_BACKUP_TYPE);
+      expect(backup.version).toBe(1);
+      expect(encryptor.encrypt).toHaveBeenCalledWith(PASSWORD_MOCK, {
+        KeyringController: STATE_MOCK.KeyringController,
+        AddressBookController: STATE_MOCK.AddressBookController,
+        NameController: STATE_MOCK.NameController,
+        TransactionController: STATE_MOCK.TransactionController,
+      });
+    });
+  });
+
+  describe('replaceBackupState', () => {
+    it('replaces state of backed up controllers', () => {
+      const restoredState = {
+        KeyringController: { vault: 'restoredVault' },
+        PreferencesController: { currentLocale: 'fr' },
+      };
+
+      expect(replaceBackupState(STATE_MOCK, restoredState)).toStrictEqual({
+        KeyringController: restoredState.KeyringController,
+        PreferencesController: STATE_MOCK.PreferencesController,
+      });
+    });
+  });
+
+  describe('restoreEncryptedBackup', () => {
+    async function createBackup(version: number) {
+      return await createEncryptedBackup({
+        state: STATE_MOCK,
+        version,
+        password: PASSWORD_MOCK,
+        encryptor,
+      });
+    }
+
+    it('returns backed up state', async () => {
+      const state = await restoreEncryptedBackup({
+        backup: await createBackup(2),
+        password: PASSWORD_MOCK,
+        encryptor,
+        migrations: MIGRATIONS_MOCK,
+      });
+
+      expect(state).toStrictEqual({
+        KeyringController: STATE_MOCK.KeyringController,
+        AddressBookController: STATE_MOCK.AddressBookController,
+        NameController: STATE_MOCK.NameController,
+        TransactionController: STATE_MOCK.TransactionController,
+      });
+    });
+
+    it('migrates state of older backups', async () => {
+      const state = await restoreEncryptedBackup({
+        backup: await createBackup(1),
+        password: PASSWORD_MOCK,
+        encryptor,
+        migrations: MIGRATIONS_MOCK,
+      });
+
+      expect(state.NameController).toStrictEqual({
+        names: {},
+        migrated: true,
+      });
+    });
+
+    it('throws if backup is newer than current version', async () => {
+      await expect(
+        restoreEncryptedBackup({
+          backup: await createBackup(3),
+          password: PASSWORD_MOCK,
+          encryptor,
+          migrations: MIGRATIONS_MOCK,
+        }),
+      ).rejects.toThrow(
+        'Encrypted backup version 3 is newer than the current version 2.',
+      );
+    });
+
+    it('throws if file is not an encrypted backup', async () => {
+      await expect(
+        restoreEncryptedBackup({
+          backup: { preferences: {} },
+          password: PASSWORD_MOCK,
+          encryptor,
+          migrations: MIGRATIONS_MOCK,
+        }),
+      ).rejects.toThrow('Invalid encrypted backup file.');
+    });
+
+    it('throws if password is incorrect', async () => {
+      await expect(
+        restoreEncryptedBackup({
+          backup: await createBackup(2),
+          password: 'wrong',
+          encryptor,
+          migrations: MIGRATIONS_MOCK,
+        }),
+      ).rejects.toThrow('Incorrect password');
+    });
+
+    it('throws if migration fails', async () => {
+      await expect(
+        restoreEncryptedBackup({
+          backup: await createBackup(1),
+          password: PASSWORD_MOCK,
+          encryptor,
+          migrations: [
+            {
+              version: 2,
+              migrate: async () => {
+                throw new Error('Test error');
+              },
+            },
+          ],
+        }),
+      ).rejects.toThrow('MetaMask Migration Error #2: Test error');
+    });
+  });
+});
@@ -0,0 +1,181 @@
+import { hasProperty, isObject } from '@metamask/utils';
+import Migrator from './migrator';
+import type {
+  MetaMaskStateType,
+  MetaMaskStorageStructure,
+} from './stores/base-store';
+
+export const ENCRYPTED_BACKUP_TYPE = 'MetaMaskEncryptedBackup';
+
+/**
+ * The persisted state of these controllers is included in an encrypted
+ * backup. Together they hold the vault, contacts, petnames, custom tokens,
+ * NFTs, snaps, permissions and transaction history of the wallet.
+ */
+export const encryptedBackupStateKeys = [
+  'KeyringController',
+  'AddressBookController',
+  'NameController',
+  'TokensController',
+  'NftController',
+  'SnapController',
+  'PermissionController',
+  'SubjectMetadataController',
+  'TransactionController',
+] as const;
+
+/**
+ * A password encrypted backup of the wallet, as saved to the backup file.
+ */
+export type EncryptedBackup = {
+  type: typeof ENCRYPTED_BACKUP_TYPE;
+
+  /**
+   * The migration version of the backed up state, so backups created by
+   * older versions can be migrated when restored.
+   */
+  version: number;
+
+  /** The backed up state, encrypted with the password. */
+  data: string;
+};
+
+export type BackupEncryptor = {
+  encrypt: (password: string, data: unknown) => Promise<string>;
+  decrypt: (password: string, text: string) => Promise<unknown>;
+};
+
+export type Migration = {
+  version: number;
+  migrate: (
+    versionedData: Required<MetaMaskStorageStructure>,
+  ) => Promise<Required<MetaMaskStorageStructure>>;
+};
+
+/**
+ * Picks the state included in an encrypted backup.
+ *
+ * @param state - The persisted MetaMask state.
+ * @returns The state of the backed up controllers.
+ */
+function pickBackupState(state: MetaMaskStateType): MetaMaskStateType {
+  return encryptedBackupStateKeys.reduce<MetaMaskStateType>(
+    (backupState, key) => {
+      if (hasProperty(state, key)) {
+        backupState[key] = state[key];
+      }
+      return backupState;
+    },
+    {},
+  );
+}
+
+/**
+ * Replaces the state of the backed up controllers with the restored state.
+ * Backed up controllers missing from the restored state are reset rather than
+ * keeping the state of the current wallet.
+ *
+ * @param state - The persisted MetaMask state.
+ * @param restoredState - The state restored from an encrypted backup.
+ * @returns The persisted state with the restored controller states.
+ */
+export function replaceBackupState(
+  state: MetaMaskStateType,
+  restoredState: MetaMaskStateType,
+): MetaMaskStateType {
+  const newState = { ...state };
+
+  for (const key of encryptedBackupStateKeys) {
+    delete newState[key];
+  }
+
+  return { ...newState, ...pickBackupState(restoredState) };
+}
+
+/**
+ * Creates a password encrypted backup of the wallet.
+ *
+ * @param request - The request object.
+ * @param request.state - The persisted MetaMask state.
+ * @param request.version - The migration version of the state.
+ * @param request.password - The password to encrypt the backup with.
+ * @param request.encryptor - The encryptor used to encrypt the backup.
+ * @returns The encrypted backup.
+ */
+export async function createEncryptedBackup({
+  state,
+  version,
+  password,
+  encryptor,
+}: {
+  state: MetaMaskStateType;
+  version: number;
+  password: string;
+  encryptor: BackupEncryptor;
+}): Promise<EncryptedBackup> {
+  const data = await encryptor.encrypt(password, pickBackupState(state));
+  return { type: ENCRYPTED_BACKUP_TYPE, version, data };
+}
+
+/**
+ * Decrypts an encrypted backup of the wallet and migrates its state to the
+ * current migration version.
+ *
+ * @param request - The request object.
+ * @param request.backup - The parsed contents of the backup file.
+ * @param request.password - The password the backup was encrypted with.
+ * @param request.encryptor - The encryptor used to decrypt the backup.
+ * @param request.migrations - The migrations to run on the backed up state.
+ * @returns The state of the backed up controllers, at the current version.
+ */
+export async function restoreEncryptedBackup({
+  backup,
+  password,
+  encryptor,
+  migrations,
+}: {
+  backup: unknown;
+  password: string;
+  encryptor: BackupEncryptor;
+  migrations: Migration[];
+}): Promise<MetaMaskStateType> {
+  if (
+    !isObject(backup) ||
+    backup.type !== ENCRYPTED_BACKUP_TYPE ||
+    typeof backup.version !== 'number' ||
+    typeof backup.data !== 'string'
+  ) {
+    throw new Error('Invalid encrypted backup file.');
+  }
+
+  const migrator = new Migrator({ migrations });
+
+  if (backup.version > migrator.defaultVersion) {
+    throw new Error(
+      `Encrypted backup version ${backup.version} is newer than the current version ${migrator.defaultVersion}.`,
+    );
+  }
+
+  const state = await encryptor.decrypt(password, backup.data);
+
+  if (!isObject(state)) {
+    throw new Error('Invalid encrypted backup data.');
+  }
+
+  let migrationError: Error | undefined;
+
+  migrator.on('error', (error: Error) => {
+    migrationError = error;
+  });
+
+  const { data } = await migrator.migrateData({
+    data: state,
+    meta: { version: backup.version },
+  });
+
+  if (migrationError) {
+    throw migrationError;
+  }
+
+  return pickBackupState(data as MetaMaskStateType);
+}
@@ -0,0 +1,371 @@
+import { Interface } from '@ethersproject/abi';
+import type { Provider } from '@metamask/network-controller';
+import { Hex } from '@metamask/utils';
+import {
+  Delegation,
+  encodeDelegation,
+  toDelegationStruct,
+} from '../../../../shared/lib/delegation/delegation';
+import { getDeleGatorEnvironment } from '../../../../shared/lib/delegation/environment';
+import {
+  LOG_BLOCK_RANGE,
+  MAX_LOG_PAGES,
+  MAX_REDEMPTIONS,
+  getGatorPermissionUsage,
+} from './gator-permission-usage';
+
+jest.mock('../../../../shared/lib/delegation/environment');
+
+const CHAIN_ID_MOCK = '0x1';
+const ACCOUNT_MOCK = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+const DELEGATE_MOCK = '0x2234567890abcdef1234567890abcdef12345678';
+const DELEGATION_MANAGER_MOCK = '0xdb9b1e94b5b69df7e401ddbede43491141047db3';
+const TOKEN_ADDRESS_MOCK = '0x1234567890abcdef1234567890abcdef12345678';
+const PERIOD_ENFORCER_MOCK = '0x474e3ae7e169e940607cc624da8a15eb120139ab';
+const STREAMING_ENFORCER_MOCK = '0x56c97afe4ff5f6f0c3c6a0fcb1c9d0a1a0b9cbb4';
+const TRANSACTION_HASH_MOCK =
+  '0x1111111111111111111111111111111111111111111111111111111111111111';
+const LATEST_BLOCK_MOCK = 20000;
+const BLOCK_TIME_MOCK = 12;
+
+const TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const DELEGATION_MANAGER_INTERFACE = new Interface([
+  'event RedeemedDelegation(address indexed rootDelegator, address indexed redeemer, (address delegate, address delegator, bytes32 authority, (address enforcer, bytes terms, bytes args)[] caveats, uint256 salt, bytes signature) delegation)',
+]);
+
+const DELEGATION_MOCK: Delegation = {
+  delegate: DELEGATE_MOCK,
+  delegator: ACCOUNT_MOCK,
+  authority:
+    '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+  caveats: [{ enforcer: PERIOD_ENFORCER_MOCK, terms: '0x1234', args: '0x' }],
+  salt: '0x1',
+  signature: '0xabcd',
+};
+
+const OTHER_DELEGATION_MOCK: Delegation = {
+  ...DELEGATION_MOCK,
+  salt: '0x2',
+};
+
+function toTopic(address: string): Hex {
+  return `0x${address.slice(2).padStart(64, '0')}`;
+}
+
+function toWord(value: number): Hex {
+  return `0x${value.toString(16).padStart(64, '0')}`;
+}
+
+function toBlockHex(blockNumber: number): Hex {
+  return `0x${blockNumber.toString(16)}`;
+}
+
+function buildRedemptionLog(delegation: Delegation, blockNumber: Hex) {
+  const struct = toDelegationStruct(delegation);
+
+  const { data, topics } = DELEGATION_MANAGER_INTERFACE.encodeEventLog(
+    DELEGATION_MANAGER_INTERFACE.getEvent('RedeemedDelegation'),
+    [
+      ACCOUNT_MOCK,
+      DELEGATE_MOCK,
+      [
+        struct.delegate,
+        struct.delegator,
+        struct.authority,
+        struct.caveats.map(({ enforcer, terms, args }) => [
+          enforcer,
+          terms,
+          args,
+        ]),
+        struct.salt,
+        struct.signature,
+      ],
+    ],
+  );
+
+  return {
+    address: DELEGATION_MANAGER_MOCK,
+    blockNumber,
+    data,
+    topics,
+    transactionHash: TRANSACTION_HASH_MOCK,
+  };
+}
+
+describe('Gator Permission Usage', () => {
+  const requestMock = jest.fn();
+  const provider = { request: requestMock } as unknown as Provider;
+
+  function mockResponses({
+    logs = [buildRedemptionLog(DELEGATION_MOCK, '0x10')],
+    availableAmount = toWord(40),
+    latestBlock = LATEST_BLOCK_MOCK,
+    receiptRedemptionLogs = [buildRedemptionLog(DELEGATION_MOCK, '0x10')],
+  }: {
+    logs?: ReturnType<typeof buildRedemptionLog>[];
+    availableAmount?: Hex;
+    latestBlock?: number;
+    receiptRedemptionLogs?: ReturnType<typeof buildRedemptionLog>[];
+  } = {}) {
+    requestMock.mockImplementation(
+      ({ method, params = [] }: { method: string; params?: unknown[] }) => {
+        switch (method) {
+          case 'eth_blockNumber':
+            return Promise.resolve(toBlockHex(latestBlock));
+          case 'eth_getLogs': {
+            const { fromBlock, toBlock } = params[0] as {
+              fromBlock: Hex;
+              toBlock: Hex;
+            };
+
+            return Promise.resolve(
+              logs.filter(
+                ({ blockNumber }) =>
+                  parseInt(blockNumber, 16) >= parseInt(fromBlock, 16) &&
+                  parseInt(blockNumber, 16) <= parseInt(toBlock, 16),
+              ),
+            );
+          }
+          case 'eth_getBlockByNumber':
+            return Promise.resolve({
+              timestamp: toBlockHex(
+                parseInt(params[0] as Hex, 16) * BLOCK_TIME_MOCK,
+              ),
+            });
+          case 'eth_getTransactionReceipt':
+            return Promise.resolve({
+              logs: [
+                ...receiptRedemptionLogs,
+                {
+                  address: TOKEN_ADDRESS_MOCK,
+                  data: toWord(7),
+                  topics: [
+                    TRANSFER_TOPIC,
+                    toTopic(ACCOUNT_MOCK),
+                    toTopic(DELEGATE_MOCK),
+                  ],
+                },
+                {
+                  address: TOKEN_ADDRESS_MOCK,
+                  data: toWord(3),
+                  topics: [
+                    TRANSFER_TOPIC,
+                    toTopic(DELEGATE_MOCK),
+                    toTopic(ACCOUNT_MOCK),
+                  ],
+                },
+              ],
+            });
+          case 'eth_call':
+            return Promise.resolve(
+              availableAmount + toWord(0).slice(2).repeat(2),
+            );
+          default:
+            return Promise.resolve(undefined);
+        }
+      },
+    );
+  }
+
+  function getUsage(
+    permissionType = 'erc20-token-periodic',
+    startTime?: number,
+  ) {
+    return getGatorPermissionUsage(
+      {
+        chainId: CHAIN_ID_MOCK,
+        delegationManager: DELEGATION_MANAGER_MOCK,
+        permissionContext: encodeDelegation([DELEGATION_MOCK]),
+        permissionType,
+        startTime,
+        tokenAddress: permissionType.startsWith('erc20')
+          ? TOKEN_ADDRESS_MOCK
+          : undefined,
+      },
+      provider,
+    );
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    jest.mocked(getDeleGatorEnvironment).mockReturnValue({
+      caveatEnforcers: {
+        ERC20PeriodTransferEnforcer: PERIOD_ENFORCER_MOCK,
+        ERC20StreamingEnforcer: STREAMING_ENFORCER_MOCK,
+      },
+    } as unknown as ReturnType<typeof getDeleGatorEnvironment>);
+
+    mockResponses();
+  });
+
+  describe('getGatorPermissionUsage', () => {
+    it('queries redemptions of delegator from delegation manager', async () => {
+      await getUsage();
+
+      expect(requestMock).toHaveBeenCalledWith({
+        method: 'eth_getLogs',
+        params: [
+          {
+            address: DELEGATION_MANAGER_MOCK,
+            fromBlock: toBlockHex(LATEST_BLOCK_MOCK - LOG_BLOCK_RANGE + 1),
+            toBlock: toBlockHex(LATEST_BLOCK_MOCK),
+            topics: [expect.any(String), toTopic(ACCOUNT_MOCK)],
+          },
+        ],
+      });
+    });
+
+    it('queries redemptions in bounded ranges down to first block', async () => {
+      await getUsage();
+
+      const getLogsCalls = requestMock.mock.calls.filter(
+        ([{ method }]) => method === 'eth_getLogs',
+      );
+
+      expect(getLogsCalls).toHaveLength(3);
+      expect(getLogsCalls[2][0].params[0]).toStrictEqual(
+        expect.objectContaining({ fromBlock: '0x0', toBlock: '0x0' }),
+      );
+    });
+
+    it('queries redemptions from block permission started at', async () => {
+      const startBlock = 15000;
+
+      await getUsage('erc20-token-periodic', startBlock * BLOCK_TIME_MOCK);
+
+      const getLogsCalls = requestMock.mock.calls.filter(
+        ([{ method }]) => method === 'eth_getLogs',
+      );
+
+      expect(getLogsCalls).toHaveLength(1);
+      expect(getLogsCalls[0][0].params[0]).toStrictEqual(
+        expect.objectContaining({
+          fromBlock: toBlockHex(startBlock),
+          toBlock: toBlockHex(LATEST_BLOCK_MOCK),
+        }),
+      );
+    });
+
+    it('limits number of redemption queries', async () => {
+      mockResponses({ latestBlock: LOG_BLOCK_RANGE * (MAX_LOG_PAGES + 10) });
+
+      await getUsage();
+
+      expect(
+        requestMock.mock.calls.filter(
+          ([{ method }]) => method === 'eth_getLogs',
+        ).length,
+      ).toBe(MAX_LOG_PAGES);
+    });
+
+    it('returns redemptions of permission with amount and timestamp', async () => {
+      mockResponses({
+        logs: [
+          buildRedemptionLog(DELEGATION_MOCK, '0x10'),
+          buildRedemptionLog(OTHER_DELEGATION_MOCK, '0x11'),
+        ],
+      });
+
+      const { redemptions } = await getUsage();
+
+      expect(redemptions).toStrictEqual([
+        {
+          amount: '0x7',
+          blockNumber: '0x10',
+          redeemer: DELEGATE_MOCK,
+          timestamp: 16 * BLOCK_TIME_MOCK,
+          transactionHash: TRANSACTION_HASH_MOCK,
+        },
+      ]);
+    });
+
+    it('returns newest redemptions first up to limit', async () => {
+      mockResponses({
+        logs: Array.from({ length: MAX_REDEMPTIONS + 1 }, (_, index) =>
+          buildRedemptionLog(DELEGATION_MOCK, `0x${(index + 1).toString(16)}`),
+        ),
+      });
+
+      const { redemptions } = await getUsage();
+
+      expect(redemptions).toHaveLength(MAX_REDEMPTIONS);
+      expect(redemptions?.[0].blockNumber).toBe(
+        `0x${(MAX_REDEMPTIONS + 1).toString(16)}`,
+      );
+    });
+
+    it('returns remaining amount from period enforcer', async () => {
+      const { remainingAmount } = await getUsage();
+
+      expect(remainingAmount).toBe('0x28');
+      expect(requestMock).toHaveBeenCalledWith({
+        method: 'eth_call',
+        params: [
+          { to: PERIOD_ENFORCER_MOCK, data: expect.any(String) },
+          'latest',
+        ],
+      });
+    });
+
+    it('returns no remaining amount if stream never redeemed', async () => {
+      mockResponses({ logs: [] });
+
+      const { remainingAmount } = await getUsage('erc20-token-stream');
+
+      expect(remainingAmount).toBeUndefined();
+      expect(requestMock).not.toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'eth_call' }),
+      );
+    });
+
+    it('does not return amount if transaction redeems multiple delegations', async () => {
+      mockResponses({
+        receiptRedemptionLogs: [
+          buildRedemptionLog(DELEGATION_MOCK, '0x10'),
+          buildRedemptionLog(OTHER_DELEGATION_MOCK, '0x10'),
+        ],
+      });
+
+      const { redemptions } = await getUsage();
+
+      expect(redemptions?.[0].amount).toBeUndefined();
+    });
+
+    it('returns remaining amount if redemptions cannot be read', async () => {
+      requestMock.mockImplementation(({ method }: { method: string }) =>
+        method === 'eth_call'
+          ? Promise.resolve(toWord(40) + toWord(0).slice(2).repeat(2))
+          : Promise.reject(new Error('Test error')),
+      );
+
+      const { redemptions, remainingAmount } = await getUsage();
+
+      expect(redemptions).toBeUndefined();
+      expect(remainingAmount).toBe('0x28');
+    });
+
+    it('returns no remaining amount if enforcer call fails', async () => {
+      requestMock.mockImplementation(({ method }: { method: string }) =>
+        method === 'eth_call'
+          ? Promise.reject(new Error('Test error'))
+          : Promise.resolve([]),
+      );
+
+      const { remainingAmount } = await getUsage();
+
+      expect(remainingAmount).toBeUndefined();
+    });
+
+    it('does not return amount for native token redemptions', async () => {
+      const { redemptions } = await getUsage('native-token-periodic');
+
+      expect(redemptions?.[0].amount).toBeUndefined();
+      expect(requestMock).not.toHaveBeenCalledWith(
+        expect.objectContaining({ method: 'eth_getTransactionReceipt' }),
+      );
+    });
+  });
+});
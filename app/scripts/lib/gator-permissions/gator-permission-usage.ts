@@ -0,0 +1,467 @@
+import { Interface, Result } from '@ethersproject/abi';
+import { decodeDelegations } from '@metamask/delegation-core';
+import { abiERC20 } from '@metamask/metamask-eth-abis';
+import type { Provider } from '@metamask/network-controller';
+import { toHex } from '@metamask/controller-utils';
+import {
+  Hex,
+  JsonRpcParams,
+  add0x,
+  createProjectLogger,
+} from '@metamask/utils';
+import {
+  Delegation,
+  getDelegationHashOffchain,
+} from '../../../../shared/lib/delegation/delegation';
+import { getDeleGatorEnvironment } from '../../../../shared/lib/delegation/environment';
+import {
+  GatorPermissionRedemption,
+  GatorPermissionUsage,
+  GatorPermissionUsageRequest,
+} from '../../../../shared/types/gator-permission-usage';
+
+const log = createProjectLogger('gator-permission-usage');
+
+export const MAX_REDEMPTIONS = 20;
+
+/** Number of blocks requested in each `eth_getLogs` request. */
+export const LOG_BLOCK_RANGE = 10000;
+
+/** Maximum number of `eth_getLogs` requests made for a permission. */
+export const MAX_LOG_PAGES = 100;
+
+const DELEGATION_MANAGER_INTERFACE = new Interface([
+  'event RedeemedDelegation(address indexed rootDelegator, address indexed redeemer, (address delegate, address delegator, bytes32 authority, (address enforcer, bytes terms, bytes args)[] caveats, uint256 salt, bytes signature) delegation)',
+]);
+
+const PERIOD_ENFORCER_INTERFACE = new Interface([
+  'function getAvailableAmount(bytes32 delegationHash, address delegationManager, bytes terms) view returns (uint256 availableAmount, bool isNewPeriod, uint256 currentPeriod)',
+]);
+
+const STREAMING_ENFORCER_INTERFACE = new Interface([
+  'function getAvailableAmount(address delegationManager, bytes32 delegationHash) view returns (uint256 availableAmount)',
+]);
+
+const ERC20_INTERFACE = new Interface(abiERC20);
+
+const ENFORCER_BY_PERMISSION_TYPE: Record<string, string> = {
+  'erc20-token-periodic': 'ERC20PeriodTransferEnforcer',
+  'erc20-token-stream': 'ERC20StreamingEnforcer',
+  'native-token-periodic': 'NativeTokenPeriodTransferEnforcer',
+  'native-token-stream': 'NativeTokenStreamingEnforcer',
+};
+
+type Log = {
+  address: Hex;
+  blockNumber: Hex;
+  data: Hex;
+  topics: Hex[];
+  transactionHash: Hex;
+};
+
+type RedemptionLog = Log & {
+  args: Result;
+};
+
+/**
+ * Derives the usage of a gator permission from the chain.
+ * Redemptions are read from the `RedeemedDelegation` events of the delegation
+ * manager since the permission started, and the remaining budget from the
+ * caveat enforcer of the permission.
+ *
+ * @param request - The request object.
+ * @param request.chainId - The chain ID of the permission.
+ * @param request.delegationManager - The delegation manager of the permission.
+ * @param request.permissionContext - The encoded delegation of the permission.
+ * @param request.permissionType - The type of the permission.
+ * @param request.startTime - The start of the permission, in seconds.
+ * @param request.tokenAddress - The token of the permission, if not native.
+ * @param provider - The provider of the network the permission was granted on.
+ * @returns The usage of the permission.
+ */
+export async function getGatorPermissionUsage(
+  {
+    chainId,
+    delegationManager,
+    permissionContext,
+    permissionType,
+    startTime,
+    tokenAddress,
+  }: GatorPermissionUsageRequest,
+  provider: Provider,
+): Promise<GatorPermissionUsage> {
+  const [delegationStruct] = decodeDelegations(permissionContext);
+
+  if (!delegationStruct) {
+    throw new Error('No delegation found');
+  }
+
+  const delegation: Delegation = {
+    ...delegationStruct,
+    salt: `0x${delegationStruct.salt.toString(16)}`,
+  };
+
+  const delegationHash = getDelegationHashOffchain(delegation);
+
+  let redemptions: GatorPermissionRedemption[] | undefined;
+
+  try {
+    redemptions = await getRedemptions({
+      delegationHash,
+      delegationManager,
+      delegator: delegation.delegator,
+      provider,
+      startTime,
+      tokenAddress,
+    });
+  } catch (error) {
+    log('Failed to get redemptions', error);
+  }
+
+  const remainingAmount = await getRemainingAmount({
+    chainId,
+    delegation,
+    delegationHash,
+    delegationManager,
+    permissionType,
+    provider,
+    redemptions,
+  });
+
+  return { remainingAmount, redemptions };
+}
+
+async function getRedemptions({
+  delegationHash,
+  delegationManager,
+  delegator,
+  provider,
+  startTime,
+  tokenAddress,
+}: {
+  delegationHash: Hex;
+  delegationManager: Hex;
+  delegator: Hex;
+  provider: Provider;
+  startTime?: number;
+  tokenAddress?: Hex;
+}): Promise<GatorPermissionRedemption[]> {
+  const redemptionLogs = await getRedemptionLogs({
+    delegationHash,
+    delegationManager,
+    delegator,
+    provider,
+    startTime,
+  });
+
+  return await Promise.all(
+    redemptionLogs.map(async ({ args, blockNumber, transactionHash }) => {
+      const [timestamp, amount] = await Promise.all([
+        getBlockTimestamp(blockNumber, provider),
+        tokenAddress
+          ? getTransferredAmount({
+              delegationManager,
+              from: delegator,
+              provider,
+              tokenAddress,
+              transactionHash,
+            })
+          : undefined,
+      ]);
+
+      return {
+        amount,
+        blockNumber,
+        redeemer: (args.redeemer as string).toLowerCase() as Hex,
+        timestamp,
+        transactionHash,
+      };
+    }),
+  );
+}
+
+/**
+ * Gets the newest `RedeemedDelegation` events of a delegation, requesting the
+ * logs in bounded block ranges from the latest block back to the block the
+ * permission started at.
+ *
+ * @param request - The request object.
+ * @param request.delegationHash - The hash of the delegation.
+ * @param request.delegationManager - The delegation manager of the delegation.
+ * @param request.delegator - The delegator of the delegation.
+ * @param request.provider - The provider of the network.
+ * @param request.startTime - The start of the permission, in seconds.
+ * @returns The redemption logs, newest first.
+ */
+async function getRedemptionLogs({
+  delegationHash,
+  delegationManager,
+  delegator,
+  provider,
+  startTime,
+}: {
+  delegationHash: Hex;
+  delegationManager: Hex;
+  delegator: Hex;
+  provider: Provider;
+  startTime?: number;
+}): Promise<RedemptionLog[]> {
+  const event = DELEGATION_MANAGER_INTERFACE.getEvent('RedeemedDelegation');
+
+  const latestBlock = parseInt(
+    await provider.request<JsonRpcParams, Hex>({ method: 'eth_blockNumber' }),
+    16,
+  );
+
+  const startBlock = startTime
+    ? await getBlockNumberAtTimestamp(startTime, latestBlock, provider)
+    : 0;
+
+  const redemptionLogs: RedemptionLog[] = [];
+
+  for (
+    let toBlock = latestBlock, page = 0;
+    toBlock >= startBlock &&
+    page < MAX_LOG_PAGES &&
+    redemptionLogs.length < MAX_REDEMPTIONS;
+    toBlock -= LOG_BLOCK_RANGE, page += 1
+  ) {
+    const fromBlock = Math.max(startBlock, toBlock - LOG_BLOCK_RANGE + 1);
+
+    const logs = await provider.request<JsonRpcParams, Log[]>({
+      method: 'eth_getLogs',
+      params: [
+        {
+          address: delegationManager,
+          fromBlock: toHex(fromBlock),
+          toBlock: toHex(toBlock),
+          topics: [
+            DELEGATION_MANAGER_INTERFACE.getEventTopic(event),
+            toTopic(delegator),
+          ],
+        },
+      ],
+    });
+
+    const pageLogs = (logs ?? [])
+      .map(parseRedemptionLog)
+      .filter(
+        ({ args }) =>
+          getRedeemedDelegationHash(args).toLowerCase() ===
+          delegationHash.toLowerCase(),
+      )
+      .reverse();
+
+    redemptionLogs.push(...pageLogs);
+  }
+
+  return redemptionLogs.slice(0, MAX_REDEMPTIONS);
+}
+
+function parseRedemptionLog(redemptionLog: Log): RedemptionLog {
+  return {
+    ...redemptionLog,
+    args: DELEGATION_MANAGER_INTERFACE.parseLog(redemptionLog).args,
+  };
+}
+
+function getRedeemedDelegationHash(args: Result): Hex {
+  const [delegate, delegator, authority, caveats, salt, signature] =
+    args.delegation;
+
+  return getDelegationHashOffchain({
+    delegate,
+    delegator,
+    authority,
+    caveats: caveats.map(([enforcer, terms, caveatArgs]: [Hex, Hex, Hex]) => ({
+      enforcer,
+      terms,
+      args: caveatArgs,
+    })),
+    salt: salt.toHexString(),
+    signature,
+  });
+}
+
+/**
+ * Finds the first block with a timestamp at or after the given time, using a
+ * binary search over the blocks of the chain.
+ *
+ * @param timestamp - The time in seconds.
+ * @param latestBlock - The number of the latest block.
+ * @param provider - The provider of the network.
+ * @returns The number of the block.
+ */
+async function getBlockNumberAtTimestamp(
+  timestamp: number,
+  latestBlock: number,
+  provider: Provider,
+): Promise<number> {
+  let low = 0;
+  let high = latestBlock;
+
+  while (low < high) {
+    const middle = Math.floor((low + high) / 2);
+    const middleTimestamp = await getBlockTimestamp(toHex(middle), provider);
+
+    if (middleTimestamp === undefined || middleTimestamp < timestamp) {
+      low = middle + 1;
+    } else {
+      high = middle;
+    }
+  }
+
+  return low;
+}
+
+async function getRemainingAmount({
+  chainId,
+  delegation,
+  delegationHash,
+  delegationManager,
+  permissionType,
+  provider,
+  redemptions,
+}: {
+  chainId: Hex;
+  delegation: Delegation;
+  delegationHash: Hex;
+  delegationManager: Hex;
+  permissionType: string;
+  provider: Provider;
+  redemptions?: GatorPermissionRedemption[];
+}): Promise<Hex | undefined> {
+  const enforcerName = ENFORCER_BY_PERMISSION_TYPE[permissionType];
+  const isStream = permissionType.endsWith('-stream');
+
+  // Streaming enforcers only track allowances once a stream is first redeemed.
+  if (!enforcerName || (isStream && redemptions?.length === 0)) {
+    return undefined;
+  }
+
+  try {
+    const enforcerAddress = getDeleGatorEnvironment(parseInt(chainId, 16))
+      .caveatEnforcers[enforcerName];
+
+    const caveat = delegation.caveats.find(
+      ({ enforcer }) =>
+        enforcer.toLowerCase() === enforcerAddress?.toLowerCase(),
+    );
+
+    if (!caveat) {
+      return undefined;
+    }
+
+    const enforcerInterface = isStream
+      ? STREAMING_ENFORCER_INTERFACE
+      : PERIOD_ENFORCER_INTERFACE;
+
+    const data = enforcerInterface.encodeFunctionData(
+      'getAvailableAmount',
+      isStream
+        ? [delegationManager, delegationHash]
+        : [delegationHash, delegationManager, caveat.terms],
+    );
+
+    const result = await provider.request<JsonRpcParams, Hex>({
+      method: 'eth_call',
+      params: [{ to: caveat.enforcer, data }, 'latest'],
+    });
+
+    const [availableAmount] = enforcerInterface.decodeFunctionResult(
+      'getAvailableAmount',
+      result,
+    );
+
+    return availableAmount.toHexString();
+  } catch (error) {
+    log('Failed to get remaining amount', error);
+    return undefined;
+  }
+}
+
+async function getBlockTimestamp(
+  blockNumber: Hex,
+  provider: Provider,
+): Promise<number | undefined> {
+  const block = await provider.request<
+    JsonRpcParams,
+    { timestamp: Hex } | null
+  >({
+    method: 'eth_getBlockByNumber',
+    params: [blockNumber, false],
+  });
+
+  return block ? parseInt(block.timestamp, 16) : undefined;
+}
+
+/**
+ * Gets the amount of a token transferred from the delegator by a redemption.
+ * The amount is only attributed if the transaction redeems a single delegation
+ * of the delegator, as transfers cannot be matched to one of several
+ * redemptions.
+ *
+ * @param request - The request object.
+ * @param request.delegationManager - The delegation manager of the delegation.
+ * @param request.from - The delegator of the delegation.
+ * @param request.provider - The provider of the network.
+ * @param request.tokenAddress - The token of the permission.
+ * @param request.transactionHash - The hash of the redemption transaction.
+ * @returns The transferred amount, or undefined if unknown.
+ */
+async function getTransferredAmount({
+  delegationManager,
+  from,
+  provider,
+  tokenAddress,
+  transactionHash,
+}: {
+  delegationManager: Hex;
+  from: Hex;
+  provider: Provider;
+  tokenAddress: Hex;
+  transactionHash: Hex;
+}): Promise<Hex | undefined> {
+  const receipt = await provider.request<JsonRpcParams, { logs: Log[] } | null>(
+    {
+      method: 'eth_getTransactionReceipt',
+      params: [transactionHash],
+    },
+  );
+
+  const logs = receipt?.logs ?? [];
+
+  const redemptionTopic =
+    DELEGATION_MANAGER_INTERFACE.getEventTopic('RedeemedDelegation');
+
+  const redemptionCount = logs.filter(
+    ({ address, topics }) =>
+      address.toLowerCase() === delegationManager.toLowerCase() &&
+      topics[0] === redemptionTopic &&
+      topics[1]?.toLowerCase() === toTopic(from),
+  ).length;
+
+  if (redemptionCount !== 1) {
+    return undefined;
+  }
+
+  const transferTopic = ERC20_INTERFACE.getEventTopic('Transfer');
+
+  const amount = logs
+    .filter(
+      ({ address, topics }) =>
+        address.toLowerCase() === tokenAddress.toLowerCase() &&
+        topics[0] === transferTopic &&
+        topics[1]?.toLowerCase() === toTopic(from),
+    )
+    .reduce(
+      (total, { data }) => total + (data === '0x' ? 0n : BigInt(data)),
+      0n,
+    );
+
+  return amount === 0n ? undefined : add0x(amount.toString(16));
+}
+
+function toTopic(address: Hex): Hex {
+  return `0x${address.slice(2).toLowerCase().padStart(64, '0')}`;
+}
@@ -2,6 +2,10 @@ import { type Hex, JsonRpcResponseStruct } from '@metamask/utils';
 import { detectSIWE, SIWEMessage } from '@metamask/controller-utils';
 
 import { CHAIN_IDS } from '../../../../shared/constants/network';
+import {
+  SecurityPolicyAction,
+  SecurityPolicyType,
+} from '../../../../shared/constants/security-policy';
 import {
   BlockaidReason,
   BlockaidResultType,
@@ -15,7 +19,12 @@ import {
 } from './ppom-util';
 import { SecurityAlertResponse } from './types';
 
-jest.mock('./ppom-util');
+jest.mock('./ppom-util', () => ({
+  ...jest.requireActual('./ppom-util'),
+  generateSecurityAlertId: jest.fn(),
+  handlePPOMError: jest.fn(),
+  validateRequestWithPPOM: jest.fn(),
+}));
 jest.mock('@metamask/controller-utils', () => ({
   ...jest.requireActual('@metamask/controller-utils'),
   detectSIWE: jest.fn(),
@@ -32,6 +41,12 @@ const SECURITY_ALERT_RESPONSE_MOCK: SecurityAlertResponse = {
   reason: BlockaidReason.permitFarming,
 };
 
+const POLICY_VIOLATION_MOCK = {
+  action: SecurityPolicyAction.RequireAcknowledgement,
+  policyId: SecurityPolicyType.NativeValueThreshold,
+  type: SecurityPolicyType.NativeValueThreshold,
+};
+
 const REQUEST_MOCK = {
   params: [],
   id: '',
@@ -195,6 +210,35 @@ describe('PPOMMiddleware', () => {
     expect(validateRequestWithPPOM).not.toHaveBeenCalled();
   });
 
+  it('adds security policy violations if the user has not enabled the preference', async () => {
+    const { middlewareFunction } = createMiddleware({
+      securityAlertsEnabled: false,
+    });
+
+    const req: PPOMMiddlewareRequest<(string | { to: string })[]> = {
+      ...REQUEST_MOCK,
+      method: 'eth_sendTransaction',
+      securityAlertResponse: undefined,
+      securityPolicyViolations: [POLICY_VIOLATION_MOCK],
+    };
+
+    await middlewareFunction(
+      req,
+      { ...JsonRpcResponseStruct.TYPE },
+      () => undefined,
+    );
+
+    expect(req.securityAlertResponse).toStrictEqual({
+      // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+      // eslint-disable-next-line @typescript-eslint/naming-convention
+      result_type: BlockaidResultType.NotApplicable,
+      reason: BlockaidReason.notApplicable,
+      securityAlertId: SECURITY_ALERT_ID_MOCK,
+      policyViolations: [POLICY_VIOLATION_MOCK],
+    });
+    expect(validateRequestWithPPOM).not.toHaveBeenCalled();
+  });
+
   it('does not do validation when request is not for confirmation method', async () => {
     const { middlewareFunction } = createMiddleware();
 
@@ -19,9 +19,13 @@ import { PreferencesController } from '../../controllers/preferences-controller'
 import { AppStateController } from '../../controllers/app-state-controller';
 import { trace, TraceContext, TraceName } from '../../../../shared/lib/trace';
 import { LOADING_SECURITY_ALERT_RESPONSE } from '../../../../shared/constants/security-provider';
+import { SecurityProviderRegistry } from '../security-provider/security-provider-registry';
+import { SecurityPolicyMiddlewareRequest } from '../createSecurityPolicyMiddleware';
 import {
+  addPolicyViolations,
   generateSecurityAlertId,
   handlePPOMError,
+  SECURITY_POLICY_ONLY_RESPONSE,
   validateRequestWithPPOM,
 } from './ppom-util';
 import {
@@ -38,11 +42,12 @@ const CONFIRMATION_METHODS = Object.freeze([
 
 export type PPOMMiddlewareRequest<
   Params extends JsonRpcParams = JsonRpcParams,
-> = Required<JsonRpcRequest<Params>> & {
-  securityAlertResponse?: SecurityAlertResponse | undefined;
-  traceContext?: TraceContext;
-  networkClientId: NetworkClientId;
-};
+> = Required<JsonRpcRequest<Params>> &
+  Pick<SecurityPolicyMiddlewareRequest, 'securityPolicyViolations'> & {
+    securityAlertResponse?: SecurityAlertResponse | undefined;
+    traceContext?: TraceContext;
+    networkClientId: NetworkClientId;
+  };
 
 /**
  * Middleware function that handles JSON RPC requests.
@@ -60,6 +65,7 @@ export type PPOMMiddlewareRequest<
  * @param accountsController - Instance of AccountsController.
  * @param updateSecurityAlertResponse
  * @param getSecurityAlertsConfig - Optional method to get transaction security alerts parameters.
+ * @param securityProviderRegistry - Optional registry of additional security providers.
  * @returns PPOMMiddleware function.
  */
 export function createPPOMMiddleware<
@@ -73,12 +79,41 @@ export function createPPOMMiddleware<
   accountsController: AccountsController,
   updateSecurityAlertResponse: UpdateSecurityAlertResponse,
   getSecurityAlertsConfig?: GetSecurityAlertsConfig,
+  securityProviderRegistry?: SecurityProviderRegistry,
 ) {
   return async (
     req: PPOMMiddlewareRequest<Params>,
     _res: JsonRpcResponse<Result>,
     next: () => void,
   ) => {
+    const { securityPolicyViolations } = req;
+
+    /**
+     * Adds a security alert response holding only the security policy
+     * violations, for requests not validated by the security alerts provider.
+     */
+    const addSecurityPolicyResponse = () => {
+      if (!securityPolicyViolations?.length) {
+        return;
+      }
+
+      const securityAlertResponse = addPolicyViolations(
+        {
+          ...SECURITY_POLICY_ONLY_RESPONSE,
+          securityAlertId: generateSecurityAlertId(),
+        },
+        securityPolicyViolations,
+      );
+
+      if (SIGNING_METHODS.includes(req.method)) {
+        appStateController.addSignatureSecurityAlertResponse(
+          securityAlertResponse,
+        );
+      }
+
+      req.securityAlertResponse = securityAlertResponse;
+    };
+
     try {
       const { securityAlertsEnabled } = preferencesController.state;
 
@@ -95,6 +130,7 @@ export function createPPOMMiddleware<
         !securityAlertsEnabled ||
         !CONFIRMATION_METHODS.includes(req.method)
       ) {
+        addSecurityPolicyResponse();
         return;
       }
 
@@ -102,6 +138,7 @@ export function createPPOMMiddleware<
       if (typeof data === 'string') {
         const { isSIWEMessage } = detectSIWE({ data });
         if (isSIWEMessage) {
+          addSecurityPolicyResponse();
           return;
         }
       } else if (req.method === MESSAGE_TYPE.ETH_SEND_TRANSACTION) {
@@ -111,6 +148,7 @@ export function createPPOMMiddleware<
           ({ address }) => address?.toLowerCase() === toAddress?.toLowerCase(),
         );
         if (isToInternalAccount) {
+          addSecurityPolicyResponse();
           return;
         }
       }
@@ -127,13 +165,15 @@ export function createPPOMMiddleware<
             chainId: chainId as Hex,
             updateSecurityAlertResponse,
             getSecurityAlertsConfig,
+            policyViolations: securityPolicyViolations,
+            securityProviderRegistry,
           }),
       );
 
-      const securityAlertResponseLoading: SecurityAlertResponse = {
-        ...LOADING_SECURITY_ALERT_RESPONSE,
-        securityAlertId,
-      };
+      const securityAlertResponseLoading = addPolicyViolations(
+        { ...LOADING_SECURITY_ALERT_RESPONSE, securityAlertId },
+        securityPolicyViolations,
+      );
 
       if (SIGNING_METHODS.includes(req.method)) {
         appStateController.addSignatureSecurityAlertResponse(
@@ -143,9 +183,9 @@ export function createPPOMMiddleware<
 
       req.securityAlertResponse = securityAlertResponseLoading;
     } catch (error) {
-      req.securityAlertResponse = handlePPOMError(
-        error,
-        'Error createPPOMMiddleware: ',
+      req.securityAlertResponse = addPolicyViolations(
+        handlePPOMError(error, 'Error createPPOMMiddleware: '),
+        securityPolicyViolations,
       );
     } finally {
       next();
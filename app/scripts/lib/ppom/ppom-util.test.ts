@@ -5,6 +5,7 @@ import {
   TransactionEnvelopeType,
   TransactionMeta,
   TransactionParams,
+  TransactionStatus,
   normalizeTransactionParams,
 } from '@metamask/transaction-controller';
 import {
@@ -23,15 +24,25 @@ import {
   Messenger,
 } from '@metamask/messenger';
 import {
+  BLOCKAID_ATTRIBUTION,
   BlockaidReason,
   BlockaidResultType,
   LOADING_SECURITY_ALERT_RESPONSE,
   SecurityAlertSource,
 } from '../../../../shared/constants/security-provider';
+import { SecurityAlertUserAction } from '../../../../shared/constants/security-alert-history';
+import {
+  SecurityPolicyAction,
+  SecurityPolicyType,
+} from '../../../../shared/constants/security-policy';
 import { AppStateController } from '../../controllers/app-state-controller';
 import { MESSAGE_TYPE } from '../../../../shared/constants/app';
 import { isSnapPreinstalled } from '../../../../shared/lib/snaps/snaps';
 import { RootMessenger } from '../messenger';
+import {
+  SecurityProviderRegistry,
+  SecurityProviderRegistryActions,
+} from '../security-provider/security-provider-registry';
 import {
   generateSecurityAlertId,
   updateSecurityAlertResponse,
@@ -121,6 +132,7 @@ function createErrorMock() {
 
 function createAppStateControllerMock() {
   return {
+    addSecurityAlertHistoryEntry: jest.fn(),
     addSignatureSecurityAlertResponse: jest.fn(),
   } as unknown as jest.Mocked<AppStateController>;
 }
@@ -144,6 +156,21 @@ function createTransactionControllerMock(
   } as unknown as jest.Mocked<TransactionController>;
 }
 
+function createSecurityProviderRegistry(
+  rootMessenger = new Messenger<
+    MockAnyNamespace,
+    SecurityProviderRegistryActions,
+    never
+  >({ namespace: MOCK_ANY_NAMESPACE }),
+) {
+  return new SecurityProviderRegistry({
+    messenger: new Messenger({
+      namespace: 'SecurityProviderRegistry',
+      parent: rootMessenger,
+    }),
+  });
+}
+
 function createMessengerMock() {
   return new Messenger<
     MockAnyNamespace,
@@ -274,6 +301,184 @@ describe('PPOM Utils', () => {
       );
     });
 
+    it('adds security policy violations to the response', async () => {
+      ppom.validateJsonRpc.mockResolvedValue(SECURITY_ALERT_RESPONSE_MOCK);
+
+      updateSecurityAlertResponseMock.mockResolvedValue({
+        txParams: TRANSACTION_PARAMS_MOCK_1,
+      });
+
+      await validateRequestWithPPOM({
+        ...validateRequestWithPPOMOptionsBase,
+        ppomController,
+        request: {
+          ...REQUEST_MOCK,
+          method: MESSAGE_TYPE.ETH_SEND_TRANSACTION,
+          params: [TRANSACTION_PARAMS_MOCK_1],
+        },
+        policyViolations: [
+          {
+            action: SecurityPolicyAction.RequireAcknowledgement,
+            policyId: SecurityPolicyType.NativeValueThreshold,
+            type: SecurityPolicyType.NativeValueThreshold,
+          },
+        ],
+      });
+
+      expect(updateSecurityAlertResponseMock).toHaveBeenLastCalledWith(
+        MESSAGE_TYPE.ETH_SEND_TRANSACTION,
+        SECURITY_ALERT_ID_MOCK,
+        {
+          ...SECURITY_ALERT_RESPONSE_MOCK,
+          policyViolations: [
+            {
+              action: SecurityPolicyAction.RequireAcknowledgement,
+              policyId: SecurityPolicyType.NativeValueThreshold,
+              type: SecurityPolicyType.NativeValueThreshold,
+            },
+          ],
+        },
+      );
+    });
+
+    it('merges the responses of additional security providers', async () => {
+      const maliciousResponse = {
+        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        result_type: BlockaidResultType.Malicious,
+        reason: BlockaidReason.permitFarming,
+      };
+
+      const securityProviderRegistry = createSecurityProviderRegistry();
+
+      securityProviderRegistry.register({
+        id: 'in-house',
+        name: 'In-house Scanner',
+        validateSignature: jest.fn().mockResolvedValue(maliciousResponse),
+      });
+
+      ppom.validateJsonRpc.mockResolvedValue({
+        ...SECURITY_ALERT_RESPONSE_MOCK,
+        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        result_type: BlockaidResultType.Benign,
+      });
+
+      await validateRequestWithPPOM({
+        ...validateRequestWithPPOMOptionsBase,
+        ppomController,
+        securityProviderRegistry,
+      });
+
+      expect(updateSecurityAlertResponseMock).toHaveBeenLastCalledWith(
+        REQUEST_MOCK.method,
+        SECURITY_ALERT_ID_MOCK,
+        {
+          ...maliciousResponse,
+          providers: [
+            { id: 'in-house', name: 'In-house Scanner', url: undefined },
+            BLOCKAID_ATTRIBUTION,
+          ],
+        },
+      );
+    });
+
+    it('keeps the Blockaid response if the security providers fail', async () => {
+      const securityProviderRegistry = createSecurityProviderRegistry();
+
+      jest
+        .spyOn(securityProviderRegistry, 'validateRequest')
+        .mockRejectedValue(new Error('Test error'));
+
+      ppom.validateJsonRpc.mockResolvedValue(SECURITY_ALERT_RESPONSE_MOCK);
+
+      await validateRequestWithPPOM({
+        ...validateRequestWithPPOMOptionsBase,
+        ppomController,
+        securityProviderRegistry,
+      });
+
+      expect(updateSecurityAlertResponseMock).toHaveBeenLastCalledWith(
+        REQUEST_MOCK.method,
+        SECURITY_ALERT_ID_MOCK,
+        {
+          ...SECURITY_ALERT_RESPONSE_MOCK,
+          securityAlertId: SECURITY_ALERT_ID_MOCK,
+        },
+      );
+    });
+
+    it('adds the verdict of a provider registered through the messenger to the confirmation', async () => {
+      const rootMessenger = new Messenger<
+        MockAnyNamespace,
+        SecurityProviderRegistryActions,
+        never
+      >({ namespace: MOCK_ANY_NAMESPACE });
+      const securityProviderRegistry =
+        createSecurityProviderRegistry(rootMessenger);
+      const appStateController = createAppStateControllerMock();
+      const signatureController = createSignatureControllerMock({
+        '123': {
+          chainId: CHAIN_ID_MOCK,
+          messageParams: { origin: 'https://example.com' },
+          securityAlertResponse: { securityAlertId: SECURITY_ALERT_ID_MOCK },
+        } as unknown as SignatureRequest,
+      });
+
+      rootMessenger.call('SecurityProviderRegistry:register', {
+        id: 'npm:security-snap',
+        name: 'Security Snap',
+        validateSignature: jest.fn().mockResolvedValue({
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          result_type: BlockaidResultType.Malicious,
+          reason: BlockaidReason.permitFarming,
+        }),
+      });
+
+      ppom.validateJsonRpc.mockResolvedValue({
+        ...SECURITY_ALERT_RESPONSE_MOCK,
+        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        result_type: BlockaidResultType.Benign,
+      });
+
+      await validateRequestWithPPOM({
+        ...validateRequestWithPPOMOptionsBase,
+        ppomController,
+        securityProviderRegistry,
+        updateSecurityAlertResponse: (method, securityAlertId, response) =>
+          updateSecurityAlertResponse({
+            appStateController,
+            messenger: MESSENGER_MOCK,
+            method,
+            securityAlertId,
+            securityAlertResponse: response,
+            signatureController,
+            transactionController: {} as unknown as TransactionController,
+          }),
+      });
+
+      expect(
+        appStateController.addSignatureSecurityAlertResponse,
+      ).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          result_type: BlockaidResultType.Malicious,
+          securityAlertId: SECURITY_ALERT_ID_MOCK,
+          providers: [
+            {
+              id: 'npm:security-snap',
+              name: 'Security Snap',
+              url: undefined,
+            },
+            BLOCKAID_ATTRIBUTION,
+          ],
+        }),
+      );
+    });
+
     describe('if method is eth_sendTransaction', () => {
       it('normalizes transaction params', async () => {
         normalizeTransactionParamsMock.mockReturnValue(
@@ -937,9 +1142,7 @@ describe('PPOM Utils', () => {
       } as unknown as TransactionController['state']);
 
       await updateSecurityAlertResponse({
-        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31973
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        appStateController: {} as any,
+        appStateController: createAppStateControllerMock(),
         method: 'eth_sendTransaction',
         messenger: MESSENGER_MOCK,
         securityAlertId: SECURITY_ALERT_ID_MOCK,
@@ -967,9 +1170,7 @@ describe('PPOM Utils', () => {
       const messenger = createMessengerMock();
 
       const updatePromise = updateSecurityAlertResponse({
-        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31973
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        appStateController: {} as any,
+        appStateController: createAppStateControllerMock(),
         method: 'eth_sendTransaction',
         messenger,
         securityAlertId: SECURITY_ALERT_ID_MOCK,
@@ -996,6 +1197,110 @@ describe('PPOM Utils', () => {
         transactionController.updateSecurityAlertResponse,
       ).toHaveBeenCalledWith(TRANSACTION_ID_MOCK, SECURITY_ALERT_RESPONSE_MOCK);
     });
+
+    it('adds transaction response to security alert history', async () => {
+      const appStateController = createAppStateControllerMock();
+      const transactionController = createTransactionControllerMock({
+        transactions: [
+          {
+            id: TRANSACTION_ID_MOCK,
+            chainId: '0x1',
+            origin: 'https://example.com',
+            status: TransactionStatus.unapproved,
+            securityAlertResponse: {
+              securityAlertId: SECURITY_ALERT_ID_MOCK,
+            },
+          },
+        ],
+      } as unknown as TransactionController['state']);
+
+      await updateSecurityAlertResponse({
+        appStateController,
+        method: 'eth_sendTransaction',
+        messenger: MESSENGER_MOCK,
+        securityAlertId: SECURITY_ALERT_ID_MOCK,
+        securityAlertResponse: SECURITY_ALERT_RESPONSE_MOCK,
+        signatureController: createSignatureControllerMock({}),
+        transactionController,
+      });
+
+      expect(
+        appStateController.addSecurityAlertHistoryEntry,
+      ).toHaveBeenCalledWith({
+        chainId: '0x1',
+        description: undefined,
+        method: 'eth_sendTransaction',
+        origin: 'https://example.com',
+        reason: SECURITY_ALERT_RESPONSE_MOCK.reason,
+        resultType: SECURITY_ALERT_RESPONSE_MOCK.result_type,
+        securityAlertId: SECURITY_ALERT_ID_MOCK,
+        userAction: SecurityAlertUserAction.Pending,
+      });
+    });
+
+    it('records the action of users who acted before the final verdict', async () => {
+      const appStateController = createAppStateControllerMock();
+      const transactionController = createTransactionControllerMock({
+        transactions: [
+          {
+            id: TRANSACTION_ID_MOCK,
+            chainId: '0x1',
+            status: TransactionStatus.rejected,
+            securityAlertResponse: {
+              securityAlertId: SECURITY_ALERT_ID_MOCK,
+            },
+          },
+        ],
+      } as unknown as TransactionController['state']);
+
+      await updateSecurityAlertResponse({
+        appStateController,
+        method: 'eth_sendTransaction',
+        messenger: MESSENGER_MOCK,
+        securityAlertId: SECURITY_ALERT_ID_MOCK,
+        securityAlertResponse: SECURITY_ALERT_RESPONSE_MOCK,
+        signatureController: createSignatureControllerMock({}),
+        transactionController,
+      });
+
+      expect(
+        appStateController.addSecurityAlertHistoryEntry,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          userAction: SecurityAlertUserAction.Rejected,
+        }),
+      );
+    });
+
+    it('does not add loading responses to security alert history', async () => {
+      const appStateController = createAppStateControllerMock();
+      const transactionController = createTransactionControllerMock({
+        transactions: [
+          {
+            id: TRANSACTION_ID_MOCK,
+            chainId: '0x1',
+            status: TransactionStatus.unapproved,
+            securityAlertResponse: {
+              securityAlertId: SECURITY_ALERT_ID_MOCK,
+            },
+          },
+        ],
+      } as unknown as TransactionController['state']);
+
+      await updateSecurityAlertResponse({
+        appStateController,
+        method: 'eth_sendTransaction',
+        messenger: MESSENGER_MOCK,
+        securityAlertId: SECURITY_ALERT_ID_MOCK,
+        securityAlertResponse: LOADING_SECURITY_ALERT_RESPONSE,
+        signatureController: createSignatureControllerMock({}),
+        transactionController,
+      });
+
+      expect(
+        appStateController.addSecurityAlertHistoryEntry,
+      ).not.toHaveBeenCalled();
+    });
   });
 
   describe('validateWithAPI', () => {
@@ -4,6 +4,7 @@ import {
   TransactionControllerUnapprovedTransactionAddedEvent,
   TransactionMeta,
   TransactionParams,
+  TransactionStatus,
   normalizeTransactionParams,
 } from '@metamask/transaction-controller';
 import { Hex, JsonRpcRequest, createProjectLogger } from '@metamask/utils';
@@ -13,12 +14,14 @@ import {
   SignatureController,
   SignatureControllerState,
   SignatureRequest,
+  SignatureRequestStatus,
   SignatureStateChange,
 } from '@metamask/signature-controller';
 import { cloneDeep } from 'lodash';
 import { isSnapId } from '@metamask/snaps-utils';
 import { SnapId } from '@metamask/snaps-sdk';
 import {
+  BLOCKAID_ATTRIBUTION,
   BlockaidReason,
   BlockaidResultType,
   LOADING_SECURITY_ALERT_RESPONSE,
@@ -30,7 +33,13 @@ import { AppStateController } from '../../controllers/app-state-controller';
 import { sanitizeMessageRecursively } from '../../../../shared/modules/typed-signature';
 import { parseTypedDataMessage } from '../../../../shared/modules/transaction.utils';
 import { MESSAGE_TYPE } from '../../../../shared/constants/app';
+import { SecurityAlertUserAction } from '../../../../shared/constants/security-alert-history';
+import { SecurityPolicyViolation } from '../../../../shared/constants/security-policy';
 import { RootMessenger } from '../messenger';
+import {
+  mergeSecurityAlertResponses,
+  SecurityProviderRegistry,
+} from '../security-provider/security-provider-registry';
 import {
   SecurityAlertResponse,
   GetSecurityAlertsConfig,
@@ -53,6 +62,17 @@ const SECURITY_ALERT_RESPONSE_ERROR = {
   reason: BlockaidReason.errored,
 };
 
+/**
+ * The response of requests not validated by the security alerts provider,
+ * which only holds the violations of the user-defined security policies.
+ */
+export const SECURITY_POLICY_ONLY_RESPONSE: SecurityAlertResponse = {
+  // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  result_type: BlockaidResultType.NotApplicable,
+  reason: BlockaidReason.notApplicable,
+};
+
 type PPOMRequest = JsonRpcRequest & {
   delegationMock?: Hex;
   origin?: string;
@@ -65,6 +85,8 @@ export async function validateRequestWithPPOM({
   chainId,
   updateSecurityAlertResponse: updateSecurityResponse,
   getSecurityAlertsConfig,
+  policyViolations,
+  securityProviderRegistry,
 }: {
   ppomController: PPOMController;
   request: PPOMRequest;
@@ -72,39 +94,72 @@ export async function validateRequestWithPPOM({
   chainId: Hex;
   updateSecurityAlertResponse: UpdateSecurityAlertResponse;
   getSecurityAlertsConfig?: GetSecurityAlertsConfig;
+  policyViolations?: SecurityPolicyViolation[];
+  securityProviderRegistry?: SecurityProviderRegistry;
 }) {
   try {
     const controllerObject = await updateSecurityResponse(
       request.method,
       securityAlertId,
-      LOADING_SECURITY_ALERT_RESPONSE,
+      addPolicyViolations(LOADING_SECURITY_ALERT_RESPONSE, policyViolations),
     );
 
     const normalizedRequest = normalizePPOMRequest(request, controllerObject);
 
     log('Normalized request', normalizedRequest);
 
-    const ppomResponse = isSecurityAlertsAPIEnabled()
-      ? await validateWithAPI(
-          ppomController,
-          chainId,
-          normalizedRequest,
-          getSecurityAlertsConfig,
-        )
-      : await validateWithController(
-          ppomController,
-          normalizedRequest,
-          chainId,
-        );
-
-    await updateSecurityResponse(request.method, securityAlertId, ppomResponse);
+    // Providers are settled separately, so a failing provider cannot discard
+    // the Blockaid response.
+    const [ppomResult, providerResult] = await Promise.allSettled([
+      isSecurityAlertsAPIEnabled()
+        ? validateWithAPI(
+            ppomController,
+            chainId,
+            normalizedRequest,
+            getSecurityAlertsConfig,
+          )
+        : validateWithController(ppomController, normalizedRequest, chainId),
+      securityProviderRegistry?.validateRequest(chainId, normalizedRequest) ??
+        [],
+    ]);
+
+    if (ppomResult.status === 'rejected') {
+      throw ppomResult.reason;
+    }
+
+    const ppomResponse = ppomResult.value;
+
+    if (providerResult.status === 'rejected') {
+      log('Error validating with security providers', providerResult.reason);
+    }
+
+    const providerResponses =
+      providerResult.status === 'fulfilled' ? providerResult.value : [];
+
+    log('Security provider responses', providerResponses);
+
+    const securityAlertResponse = providerResponses.length
+      ? (mergeSecurityAlertResponses([
+          { ...ppomResponse, providers: [BLOCKAID_ATTRIBUTION] },
+          ...providerResponses,
+        ]) as SecurityAlertResponse)
+      : ppomResponse;
+
+    await updateSecurityResponse(
+      request.method,
+      securityAlertId,
+      addPolicyViolations(securityAlertResponse, policyViolations),
+    );
   } catch (error: unknown) {
     log('Error', error);
 
     await updateSecurityResponse(
       request.method,
       securityAlertId,
-      handlePPOMError(error, 'Error validating JSON RPC using PPOM: '),
+      addPolicyViolations(
+        handlePPOMError(error, 'Error validating JSON RPC using PPOM: '),
+        policyViolations,
+      ),
     );
   }
 }
@@ -144,6 +199,16 @@ export async function updateSecurityAlertResponse({
       securityAlertId,
     });
 
+    addSecurityAlertHistoryEntry({
+      appStateController,
+      chainId: signatureRequest.chainId,
+      method,
+      origin: signatureRequest.messageParams?.origin,
+      securityAlertId,
+      securityAlertResponse,
+      userAction: getSignatureUserAction(signatureRequest),
+    });
+
     return signatureRequest;
   }
 
@@ -158,9 +223,87 @@ export async function updateSecurityAlertResponse({
     securityAlertId,
   } as SecurityAlertResponse);
 
+  addSecurityAlertHistoryEntry({
+    appStateController,
+    chainId: transactionMeta.chainId,
+    method,
+    origin: transactionMeta.origin,
+    securityAlertId,
+    securityAlertResponse,
+    userAction: getTransactionUserAction(transactionMeta),
+  });
+
   return transactionMeta;
 }
 
+// The user may have acted on the request before the final verdict arrived.
+function getTransactionUserAction({
+  status,
+}: TransactionMeta): SecurityAlertUserAction {
+  switch (status) {
+    case TransactionStatus.unapproved:
+      return SecurityAlertUserAction.Pending;
+    case TransactionStatus.rejected:
+      return SecurityAlertUserAction.Rejected;
+    default:
+      return SecurityAlertUserAction.Approved;
+  }
+}
+
+function getSignatureUserAction({
+  status,
+}: SignatureRequest): SecurityAlertUserAction {
+  switch (status) {
+    case SignatureRequestStatus.Unapproved:
+      return SecurityAlertUserAction.Pending;
+    case SignatureRequestStatus.Rejected:
+      return SecurityAlertUserAction.Rejected;
+    default:
+      return SecurityAlertUserAction.Approved;
+  }
+}
+
+function addSecurityAlertHistoryEntry({
+  appStateController,
+  chainId,
+  method,
+  origin,
+  securityAlertId,
+  securityAlertResponse,
+  userAction,
+}: {
+  appStateController: AppStateController;
+  chainId?: Hex;
+  method: string;
+  origin?: string;
+  securityAlertId: string;
+  securityAlertResponse: SecurityAlertResponse;
+  userAction: SecurityAlertUserAction;
+}) {
+  const {
+    description,
+    reason,
+    result_type: resultType,
+  } = securityAlertResponse;
+
+  // Only final verdicts are recorded, not the placeholder shown while the
+  // request is validated.
+  if (resultType === BlockaidResultType.Loading) {
+    return;
+  }
+
+  appStateController.addSecurityAlertHistoryEntry({
+    chainId,
+    description,
+    method,
+    origin,
+    reason,
+    resultType,
+    securityAlertId,
+    userAction,
+  });
+}
+
 export function handlePPOMError(
   error: unknown,
   logMessage: string,
@@ -181,6 +324,28 @@ export function handlePPOMError(
   };
 }
 
+/**
+ * Adds the user-defined security policy violations of a request to its
+ * security alert response.
+ *
+ * @param securityAlertResponse - The security alert response.
+ * @param policyViolations - The security policy violations of the request.
+ * @returns The security alert response including the violations.
+ */
+export function addPolicyViolations(
+  securityAlertResponse: SecurityAlertResponse,
+  policyViolations?: SecurityPolicyViolation[],
+): SecurityAlertResponse {
+  if (!policyViolations?.length) {
+    return securityAlertResponse;
+  }
+
+  return {
+    ...securityAlertResponse,
+    policyViolations,
+  };
+}
+
 function normalizePPOMRequest(
   request: PPOMRequest,
   controllerObject: TransactionMeta | SignatureRequest,
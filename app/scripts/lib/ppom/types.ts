@@ -1,11 +1,21 @@
 import { SignatureRequest } from '@metamask/signature-controller';
 import { TransactionMeta } from '@metamask/transaction-controller';
-import { SecurityAlertSource } from '../../../../shared/constants/security-provider';
+import {
+  SecurityAlertSource,
+  SecurityProviderAttribution,
+} from '../../../../shared/constants/security-provider';
+import {
+  SecurityPolicy,
+  SecurityPolicyViolation,
+} from '../../../../shared/constants/security-policy';
 
 export type SecurityAlertResponse = {
   block?: number;
   description?: string;
   features?: string[];
+  policyViolations?: SecurityPolicyViolation[];
+  /** The providers whose results were merged, the selected result first. */
+  providers?: SecurityProviderAttribution[];
   providerRequestsCount?: Record<string, number>;
   reason: string;
   // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
@@ -32,3 +42,9 @@ export type GetSecurityAlertsConfig = (url: string) => Promise<{
   newUrl?: string;
   authorization?: string;
 }>;
+
+/**
+ * Getter for the user-defined security policies evaluated locally alongside
+ * the security provider.
+ */
+export type GetSecurityPolicies = () => SecurityPolicy[];
@@ -0,0 +1,94 @@
+import { jsonrpc2 } from '@metamask/utils';
+import { errorCodes } from '@metamask/rpc-errors';
+import { createRpcMethodAllowlistMiddleware } from '.';
+
+describe('createRpcMethodAllowlistMiddleware', () => {
+  const getMockRequest = (method: string) => ({
+    jsonrpc: jsonrpc2,
+    id: 1,
+    method,
+  });
+  const getMockResponse = () => ({ jsonrpc: jsonrpc2, id: 'foo' });
+
+  it('forwards requests for methods that cannot be restricted', () => {
+    const getAllowedRpcMethods = jest.fn().mockReturnValue([]);
+    const middleware = createRpcMethodAllowlistMiddleware({
+      getAllowedRpcMethods,
+    });
+    const nextMock = jest.fn();
+    const endMock = jest.fn();
+
+    middleware(
+      getMockRequest('eth_call'),
+      getMockResponse(),
+      nextMock,
+      endMock,
+    );
+
+    expect(nextMock).toHaveBeenCalledTimes(1);
+    expect(endMock).not.toHaveBeenCalled();
+    expect(getAllowedRpcMethods).not.toHaveBeenCalled();
+  });
+
+  it('forwards requests if the origin is not restricted', () => {
+    const middleware = createRpcMethodAllowlistMiddleware({
+      getAllowedRpcMethods: () => undefined,
+    });
+    const nextMock = jest.fn();
+    const endMock = jest.fn();
+
+    middleware(
+      getMockRequest('eth_signTypedData_v4'),
+      getMockResponse(),
+      nextMock,
+      endMock,
+    );
+
+    expect(nextMock).toHaveBeenCalledTimes(1);
+    expect(endMock).not.toHaveBeenCalled();
+  });
+
+  it('forwards requests for allowed methods', () => {
+    const middleware = createRpcMethodAllowlistMiddleware({
+      getAllowedRpcMethods: () => ['personal_sign'],
+    });
+    const nextMock = jest.fn();
+    const endMock = jest.fn();
+
+    middleware(
+      getMockRequest('personal_sign'),
+      getMockResponse(),
+      nextMock,
+      endMock,
+    );
+
+    expect(nextMock).toHaveBeenCalledTimes(1);
+    expect(endMock).not.toHaveBeenCalled();
+  });
+
+  it('ends requests for methods that are not allowed with an unauthorized error', () => {
+    const middleware = createRpcMethodAllowlistMiddleware({
+      getAllowedRpcMethods: () => ['personal_sign'],
+    });
+    const nextMock = jest.fn();
+    const endMock = jest.fn();
+
+    const response = getMockResponse();
+    middleware(
+      getMockRequest('wallet_addEthereumChain'),
+      response,
+      nextMock,
+      endMock,
+    );
+
+    expect('result' in response).toBe(false);
+    expect(nextMock).not.toHaveBeenCalled();
+    expect(endMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        code: errorCodes.provider.unauthorized,
+        message:
+          'The method "wallet_addEthereumChain" has been blocked for this site. It can be allowed from the site\'s permissions.',
+      }),
+    );
+  });
+});
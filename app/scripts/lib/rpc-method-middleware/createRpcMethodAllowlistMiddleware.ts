@@ -0,0 +1,40 @@
+import type { JsonRpcMiddleware } from '@metamask/json-rpc-engine';
+import type { Json, JsonRpcParams } from '@metamask/utils';
+import { providerErrors } from '@metamask/rpc-errors';
+import { RESTRICTABLE_RPC_METHODS } from '../../../../shared/constants/permissions';
+
+/**
+ * Creates a middleware that rejects restrictable RPC methods which the user has
+ * not allowed the origin to call, as recorded in the `restrictRpcMethods`
+ * caveat of the origin's `endowment:rpc-method-allowlist` permission.
+ *
+ * @param options - The options object.
+ * @param options.getAllowedRpcMethods - Returns the restrictable methods the
+ * origin may call, or undefined if the origin is not restricted.
+ * @returns The RPC method allowlist middleware.
+ */
+export function createRpcMethodAllowlistMiddleware({
+  getAllowedRpcMethods,
+}: {
+  getAllowedRpcMethods: () => string[] | undefined;
+}): JsonRpcMiddleware<JsonRpcParams, Json> {
+  return function rpcMethodAllowlistMiddleware(req, _res, next, end) {
+    if (!RESTRICTABLE_RPC_METHODS.includes(req.method)) {
+      next();
+      return;
+    }
+
+    const allowedMethods = getAllowedRpcMethods();
+
+    if (allowedMethods && !allowedMethods.includes(req.method)) {
+      end(
+        providerErrors.unauthorized({
+          message: `The method "${req.method}" has been blocked for this site. It can be allowed from the site's permissions.`,
+        }),
+      );
+      return;
+    }
+
+    next();
+  };
+}
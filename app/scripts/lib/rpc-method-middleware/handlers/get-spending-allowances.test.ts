@@ -0,0 +1,74 @@
+import {
+  JsonRpcParams,
+  JsonRpcRequest,
+  PendingJsonRpcResponse,
+} from '@metamask/utils';
+import {
+  SpendingAllowanceGrant,
+  SpendingAllowancePeriod,
+} from '../../../../../shared/lib/spending-allowance';
+import getSpendingAllowances from './get-spending-allowances';
+
+const baseRequest = {
+  jsonrpc: '2.0' as const,
+  id: 0,
+  method: 'metamask_getSpendingAllowances',
+  origin: 'http://test.com',
+};
+
+const GRANT_MOCK: SpendingAllowanceGrant = {
+  allowance: {
+    origin: 'http://test.com',
+    token: '0x1234567890123456789012345678901234567890',
+    symbol: 'USDC',
+    decimals: 6,
+    periodAmount: '0x2faf080',
+    period: SpendingAllowancePeriod.Week,
+    startDate: 1700000000,
+  },
+  chainId: '0x1',
+  delegation: {
+    delegate: '0x2f6fc5e27628158758ae4688bba809c62713d152',
+    delegator: '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc',
+    authority:
+      '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+    caveats: [],
+    salt: '0x1',
+    signature: '0xabcd',
+  },
+};
+
+const createMockedHandler = () => {
+  const next = jest.fn();
+  const end = jest.fn();
+  const getSpendingAllowancesHook = jest.fn().mockReturnValue([GRANT_MOCK]);
+  const response: PendingJsonRpcResponse<SpendingAllowanceGrant[]> = {
+    jsonrpc: '2.0' as const,
+    id: 0,
+  };
+  const handler = (request: JsonRpcRequest<JsonRpcParams>) =>
+    getSpendingAllowances.implementation(request, response, next, end, {
+      getSpendingAllowances: getSpendingAllowancesHook,
+    });
+
+  return {
+    response,
+    next,
+    end,
+    getSpendingAllowancesHook,
+    handler,
+  };
+};
+
+describe('getSpendingAllowancesHandler', () => {
+  it('returns the spending allowances granted to the origin', async () => {
+    const { handler, response, end, getSpendingAllowancesHook } =
+      createMockedHandler();
+
+    await handler(baseRequest);
+
+    expect(getSpendingAllowancesHook).toHaveBeenCalled();
+    expect(response.result).toStrictEqual([GRANT_MOCK]);
+    expect(end).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import type {
+  JsonRpcEngineEndCallback,
+  JsonRpcEngineNextCallback,
+} from '@metamask/json-rpc-engine';
+import type {
+  JsonRpcRequest,
+  JsonRpcParams,
+  PendingJsonRpcResponse,
+} from '@metamask/utils';
+import { MESSAGE_TYPE } from '../../../../../shared/constants/app';
+import type { SpendingAllowanceGrant } from '../../../../../shared/lib/spending-allowance';
+import { HandlerWrapper } from './types';
+
+type GetSpendingAllowancesHandlerOptions = {
+  getSpendingAllowances: () => SpendingAllowanceGrant[];
+};
+
+type GetSpendingAllowancesConstraint<
+  Params extends JsonRpcParams = JsonRpcParams,
+> = {
+  implementation: (
+    _req: JsonRpcRequest<Params>,
+    res: PendingJsonRpcResponse<SpendingAllowanceGrant[]>,
+    _next: JsonRpcEngineNextCallback,
+    end: JsonRpcEngineEndCallback,
+    { getSpendingAllowances }: GetSpendingAllowancesHandlerOptions,
+  ) => Promise<void>;
+} & HandlerWrapper;
+
+/**
+ * This RPC method returns the signed spending allowance delegations that the
+ * connected accounts have granted to the site, so that it can redeem them.
+ */
+const getSpendingAllowances = {
+  methodNames: [MESSAGE_TYPE.GET_SPENDING_ALLOWANCES],
+  implementation: getSpendingAllowancesHandler,
+  hookNames: {
+    getSpendingAllowances: true,
+  },
+} satisfies GetSpendingAllowancesConstraint;
+export default getSpendingAllowances;
+
+/**
+ * @param _req - The JSON-RPC request object.
+ * @param res - The JSON-RPC response object.
+ * @param _next - The json-rpc-engine 'next' callback.
+ * @param end - The json-rpc-engine 'end' callback.
+ * @param options - The RPC method hooks.
+ * @param options.getSpendingAllowances - A hook that returns the spending
+ * allowances granted to the origin by its permitted accounts.
+ */
+async function getSpendingAllowancesHandler<
+  Params extends JsonRpcParams = JsonRpcParams,
+>(
+  _req: JsonRpcRequest<Params>,
+  res: PendingJsonRpcResponse<SpendingAllowanceGrant[]>,
+  _next: JsonRpcEngineNextCallback,
+  end: JsonRpcEngineEndCallback,
+  { getSpendingAllowances }: GetSpendingAllowancesHandlerOptions,
+): Promise<void> {
+  res.result = getSpendingAllowances();
+  return end();
+}
@@ -1,6 +1,7 @@
 import addEthereumChain from './add-ethereum-chain';
 import ethAccounts from './eth-accounts';
 import getProviderState from './get-provider-state';
+import getSpendingAllowances from './get-spending-allowances';
 import logWeb3ShimUsage from './log-web3-shim-usage';
 import requestAccounts from './request-accounts';
 import sendMetadata from './send-metadata';
@@ -19,6 +20,7 @@ export const eip1193OnlyHandlers = [
   switchEthereumChain,
   ethAccounts,
   requestAccounts,
+  getSpendingAllowances,
 ];
 
 export const ethAccountsHandler = ethAccounts;
@@ -138,6 +138,29 @@ describe('getPermissionsHandler', () => {
     ]);
   });
 
+  it('does not return the RPC method allowlist permission', async () => {
+    const { handler, getPermissionsForOrigin, response } =
+      createMockedHandler();
+
+    getPermissionsForOrigin.mockReturnValue(
+      Object.freeze({
+        [PermissionNames.rpcMethodAllowlist]: {
+          id: '1',
+          parentCapability: PermissionNames.rpcMethodAllowlist,
+          caveats: [
+            {
+              type: CaveatTypes.restrictRpcMethods,
+              value: ['personal_sign'],
+            },
+          ],
+        },
+      }),
+    );
+
+    await handler(baseRequest);
+    expect(response.result).toStrictEqual([]);
+  });
+
   describe('CAIP-25 endowment permissions has been granted', () => {
     it('returns the permissions with the CAIP-25 permission removed', async () => {
       const { handler, getAccounts, getPermissionsForOrigin, response } =
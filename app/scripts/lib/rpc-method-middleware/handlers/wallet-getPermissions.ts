@@ -66,6 +66,8 @@ async function getPermissionsImplementation(
     ({ type }) => type === Caip25CaveatType,
   )?.value as Caip25CaveatValue | undefined;
   delete permissions[Caip25EndowmentPermissionName];
+  // Method restrictions are managed by the user, not the site
+  delete permissions[PermissionNames.rpcMethodAllowlist];
 
   if (caip25CaveatValue) {
     // We cannot derive ethAccounts directly from the CAIP-25 permission
@@ -162,6 +162,31 @@ describe('requestPermissionsHandler', () => {
     });
   });
 
+  describe('only "endowment:rpc-method-allowlist" permission requested', () => {
+    it('should call "requestPermissionsForOrigin" hook with empty object', async () => {
+      const { handler, requestPermissionsForOrigin } = createMockedHandler();
+
+      await handler(
+        getBaseRequest({
+          params: [
+            {
+              [PermissionNames.rpcMethodAllowlist]: {
+                caveats: [
+                  {
+                    type: CaveatTypes.restrictRpcMethods,
+                    value: ['personal_sign'],
+                  },
+                ],
+              },
+            },
+          ],
+        }),
+      );
+
+      expect(requestPermissionsForOrigin).toHaveBeenCalledWith({});
+    });
+  });
+
   describe('only CAIP-25 equivalent permissions ("eth_accounts" and/or "endowment:permittedChains") requested', () => {
     it('requests the CAIP-25 permission using eth_accounts when only eth_accounts is specified in params', async () => {
       const mockedRequestedPermissions = {
@@ -80,6 +80,8 @@ async function requestPermissionsImplementation(
 
   let [requestedPermissions] = params;
   delete requestedPermissions[Caip25EndowmentPermissionName];
+  // Method restrictions are managed by the user, not the site
+  delete requestedPermissions[PermissionNames.rpcMethodAllowlist];
 
   const caip25EquivalentPermissions: Partial<
     Pick<RequestedPermissions, 'eth_accounts' | 'endowment:permitted-chains'>
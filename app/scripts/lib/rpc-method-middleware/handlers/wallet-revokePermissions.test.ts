@@ -87,6 +87,22 @@ describe('revokePermissionsHandler', () => {
     );
   });
 
+  it('does not revoke the RPC method allowlist permission', () => {
+    const { handler, end, revokePermissionsForOrigin } = createMockedHandler();
+
+    const request = {
+      ...baseRequest,
+      params: [
+        {
+          [PermissionNames.rpcMethodAllowlist]: {},
+        },
+      ],
+    };
+    handler(request);
+    expect(revokePermissionsForOrigin).not.toHaveBeenCalled();
+    expect(end).toHaveBeenCalledWith(invalidParams({ data: { request } }));
+  });
+
   // @ts-expect-error This is missing from the Mocha type definitions
   describe.each([
     [RestrictedMethods.eth_accounts],
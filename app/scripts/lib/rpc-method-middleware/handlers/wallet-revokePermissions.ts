@@ -57,9 +57,12 @@ function revokePermissionsImplementation(
   }
 
   // For now, this API revokes the entire permission key
-  // even if caveats are specified.
+  // even if caveats are specified. Method restrictions are managed by the
+  // user, so sites cannot lift them.
   const permissionKeys = Object.keys(param).filter(
-    (name) => name !== Caip25EndowmentPermissionName,
+    (name) =>
+      name !== Caip25EndowmentPermissionName &&
+      name !== PermissionNames.rpcMethodAllowlist,
   );
 
   if (!isNonEmptyArray(permissionKeys)) {
@@ -1,2 +1,3 @@
 export * from './createMethodMiddleware';
 export * from './createUnsupportedMethodMiddleware';
+export * from './createRpcMethodAllowlistMiddleware';
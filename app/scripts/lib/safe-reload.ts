@@ -2,7 +2,7 @@ import browser from 'webextension-polyfill';
 import log from 'loglevel';
 import { OperationSafener } from './operation-safener';
 import { PersistenceManager } from './stores/persistence-manager';
-import { MetaMaskStateType } from './stores/base-store';
+import { MetaData, MetaMaskStateType } from './stores/base-store';
 
 const { sentry } = global;
 
@@ -47,5 +47,26 @@ export function getRequestSafeReload(persistenceManager: PersistenceManager) {
       await operationSafener.evacuate();
       browser.runtime.reload();
     },
+    /**
+     * Replaces the persisted state and reloads the browser, so the
+     * controllers are initialized from the given state. Like
+     * `requestSafeReload`, it prevents any new updates from overwriting the
+     * given state before the reload.
+     *
+     * @param state - The state to persist.
+     * @param meta - The metadata of the state, if it isn't at the current
+     * migration version. The state is then migrated on reload.
+     */
+    restoreStateAndReload: async (
+      state: MetaMaskStateType,
+      meta?: MetaData,
+    ) => {
+      await operationSafener.evacuate();
+      if (meta) {
+        persistenceManager.setMetadata(meta);
+      }
+      await persistenceManager.set(state);
+      browser.runtime.reload();
+    },
   };
 }
@@ -0,0 +1,386 @@
+import {
+  MOCK_ANY_NAMESPACE,
+  Messenger,
+  MockAnyNamespace,
+} from '@metamask/messenger';
+import { RecommendedAction } from '@metamask/phishing-controller';
+import {
+  BlockaidReason,
+  BlockaidResultType,
+} from '../../../../shared/constants/security-provider';
+import {
+  ResultType,
+  SupportedEVMChain,
+} from '../../../../shared/lib/trust-signals';
+import {
+  mergeScanAddressResponses,
+  mergeScanUrlResults,
+  mergeSecurityAlertResponses,
+  SecurityProviderRegistry,
+  SecurityProviderRegistryActions,
+} from './security-provider-registry';
+import { SecurityProviderInterface } from './types';
+
+const CHAIN_ID_MOCK = '0x1';
+const ADDRESS_MOCK = '0x1234567890123456789012345678901234567890';
+const URL_MOCK = 'https://example.com';
+
+const TRANSACTION_REQUEST_MOCK = {
+  id: 1,
+  jsonrpc: '2.0' as const,
+  method: 'eth_sendTransaction',
+  params: [{ to: ADDRESS_MOCK }],
+};
+
+const SIGNATURE_REQUEST_MOCK = {
+  ...TRANSACTION_REQUEST_MOCK,
+  method: 'eth_signTypedData_v4',
+};
+
+const PROVIDER_A = { id: 'provider-a', name: 'Provider A' };
+const PROVIDER_B = {
+  id: 'provider-b',
+  name: 'Provider B',
+  url: 'https://b.example.com',
+};
+
+function buildProvider(
+  overrides: Partial<SecurityProviderInterface> = {},
+): SecurityProviderInterface {
+  return {
+    ...PROVIDER_A,
+    ...overrides,
+  };
+}
+
+function createRootMessenger() {
+  return new Messenger<
+    MockAnyNamespace,
+    SecurityProviderRegistryActions,
+    never
+  >({ namespace: MOCK_ANY_NAMESPACE });
+}
+
+function createRegistry(rootMessenger = createRootMessenger()) {
+  return new SecurityProviderRegistry({
+    messenger: new Messenger({
+      namespace: 'SecurityProviderRegistry',
+      parent: rootMessenger,
+    }),
+  });
+}
+
+function buildResponse(resultType: string, providers = [PROVIDER_A]) {
+  return {
+    // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+    // eslint-disable-next-line @typescript-eslint/naming-convention
+    result_type: resultType,
+    reason: BlockaidReason.other,
+    providers,
+  };
+}
+
+describe('SecurityProviderRegistry', () => {
+  describe('register', () => {
+    it('adds providers in order of precedence', () => {
+      const registry = createRegistry();
+      const providerA = buildProvider();
+      const providerB = buildProvider(PROVIDER_B);
+
+      registry.register(providerA);
+      registry.register(providerB);
+
+      expect(registry.getProviders()).toStrictEqual([providerA, providerB]);
+    });
+
+    it('registers providers through the messenger', () => {
+      const rootMessenger = createRootMessenger();
+      const registry = createRegistry(rootMessenger);
+      const provider = buildProvider();
+
+      rootMessenger.call('SecurityProviderRegistry:register', provider);
+
+      expect(registry.getProviders()).toStrictEqual([provider]);
+
+      rootMessenger.call('SecurityProviderRegistry:unregister', provider.id);
+
+      expect(registry.getProviders()).toStrictEqual([]);
+    });
+
+    it('throws if a provider with the same ID is registered', () => {
+      const registry = createRegistry();
+
+      registry.register(buildProvider());
+
+      expect(() => registry.register(buildProvider())).toThrow(
+        'Security provider already registered: provider-a',
+      );
+    });
+  });
+
+  describe('unregister', () => {
+    it('removes the provider', () => {
+      const registry = createRegistry();
+
+      registry.register(buildProvider());
+      registry.unregister(PROVIDER_A.id);
+
+      expect(registry.getProviders()).toStrictEqual([]);
+    });
+  });
+
+  describe('validateRequest', () => {
+    it('validates transactions with providers supporting them', async () => {
+      const registry = createRegistry();
+      const validateTransaction = jest
+        .fn()
+        .mockResolvedValue(buildResponse(BlockaidResultType.Benign, []));
+      const validateSignature = jest.fn();
+
+      registry.register(buildProvider({ validateTransaction }));
+      registry.register(buildProvider({ ...PROVIDER_B, validateSignature }));
+
+      const responses = await registry.validateRequest(
+        CHAIN_ID_MOCK,
+        TRANSACTION_REQUEST_MOCK,
+      );
+
+      expect(validateTransaction).toHaveBeenCalledWith(
+        CHAIN_ID_MOCK,
+        TRANSACTION_REQUEST_MOCK,
+      );
+      expect(validateSignature).not.toHaveBeenCalled();
+      expect(responses).toStrictEqual([
+        buildResponse(BlockaidResultType.Benign, [
+          { ...PROVIDER_A, url: undefined },
+        ]),
+      ]);
+    });
+
+    it('validates signatures with providers supporting them', async () => {
+      const registry = createRegistry();
+      const validateSignature = jest
+        .fn()
+        .mockResolvedValue(buildResponse(BlockaidResultType.Malicious, []));
+
+      registry.register(buildProvider({ ...PROVIDER_B, validateSignature }));
+
+      const responses = await registry.validateRequest(
+        CHAIN_ID_MOCK,
+        SIGNATURE_REQUEST_MOCK,
+      );
+
+      expect(responses).toStrictEqual([
+        buildResponse(BlockaidResultType.Malicious, [PROVIDER_B]),
+      ]);
+    });
+
+    it('returns an error response if a provider throws', async () => {
+      const registry = createRegistry();
+
+      registry.register(
+        buildProvider({
+          validateTransaction: jest
+            .fn()
+            .mockRejectedValue(new Error('Test error')),
+        }),
+      );
+
+      const responses = await registry.validateRequest(
+        CHAIN_ID_MOCK,
+        TRANSACTION_REQUEST_MOCK,
+      );
+
+      expect(responses).toStrictEqual([
+        {
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          result_type: BlockaidResultType.Errored,
+          reason: BlockaidReason.errored,
+          description: 'Error: Test error',
+          providers: [{ ...PROVIDER_A, url: undefined }],
+        },
+      ]);
+    });
+
+    it('returns an error response if a provider does not respond in time', async () => {
+      jest.useFakeTimers();
+
+      const registry = createRegistry();
+
+      registry.register(
+        buildProvider({
+          validateTransaction: jest.fn(() => new Promise(() => undefined)),
+        }),
+      );
+
+      const responsesPromise = registry.validateRequest(
+        CHAIN_ID_MOCK,
+        TRANSACTION_REQUEST_MOCK,
+      );
+
+      await jest.advanceTimersByTimeAsync(5000);
+
+      expect(await responsesPromise).toStrictEqual([
+        {
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          result_type: BlockaidResultType.Errored,
+          reason: BlockaidReason.errored,
+          description: 'Error: Security provider timed out: provider-a',
+          providers: [{ ...PROVIDER_A, url: undefined }],
+        },
+      ]);
+
+      jest.useRealTimers();
+    });
+  });
+
+  describe('scanAddress', () => {
+    it('returns the attributed responses of providers supporting it', async () => {
+      const registry = createRegistry();
+      const scanAddress = jest.fn().mockResolvedValue({
+        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        result_type: ResultType.Warning,
+        label: 'Suspicious',
+      });
+
+      registry.register(buildProvider({ ...PROVIDER_B, scanAddress }));
+      registry.register(buildProvider());
+
+      const responses = await registry.scanAddress(
+        SupportedEVMChain.Ethereum,
+        ADDRESS_MOCK,
+      );
+
+      expect(scanAddress).toHaveBeenCalledWith(
+        SupportedEVMChain.Ethereum,
+        ADDRESS_MOCK,
+      );
+      expect(responses).toStrictEqual([
+        {
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          result_type: ResultType.Warning,
+          label: 'Suspicious',
+          providers: [PROVIDER_B],
+        },
+      ]);
+    });
+
+    it('skips providers that throw', async () => {
+      const registry = createRegistry();
+
+      registry.register(
+        buildProvider({
+          scanAddress: jest.fn().mockRejectedValue(new Error('Test error')),
+        }),
+      );
+
+      expect(
+        await registry.scanAddress(SupportedEVMChain.Ethereum, ADDRESS_MOCK),
+      ).toStrictEqual([]);
+    });
+  });
+
+  describe('scanUrl', () => {
+    it('returns the attributed results of providers supporting it', async () => {
+      const registry = createRegistry();
+      const scanUrl = jest.fn().mockResolvedValue({
+        domainName: 'example.com',
+        recommendedAction: RecommendedAction.Block,
+      });
+
+      registry.register(buildProvider({ ...PROVIDER_B, scanUrl }));
+
+      expect(await registry.scanUrl(URL_MOCK)).toStrictEqual([
+        {
+          domainName: 'example.com',
+          recommendedAction: RecommendedAction.Block,
+          providers: [PROVIDER_B],
+        },
+      ]);
+    });
+  });
+});
+
+describe('mergeSecurityAlertResponses', () => {
+  it('selects the most severe response and attributes all providers', () => {
+    expect(
+      mergeSecurityAlertResponses([
+        buildResponse(BlockaidResultType.Benign, [PROVIDER_A]),
+        buildResponse(BlockaidResultType.Malicious, [PROVIDER_B]),
+      ]),
+    ).toStrictEqual(
+      buildResponse(BlockaidResultType.Malicious, [PROVIDER_B, PROVIDER_A]),
+    );
+  });
+
+  it('selects the first response if results are equally severe', () => {
+    expect(
+      mergeSecurityAlertResponses([
+        { ...buildResponse(BlockaidResultType.Warning), description: 'A' },
+        {
+          ...buildResponse(BlockaidResultType.Warning, [PROVIDER_B]),
+          description: 'B',
+        },
+      ]),
+    ).toStrictEqual({
+      ...buildResponse(BlockaidResultType.Warning, [PROVIDER_A, PROVIDER_B]),
+      description: 'A',
+    });
+  });
+
+  it('prefers a definitive result over an error', () => {
+    expect(
+      mergeSecurityAlertResponses([
+        buildResponse(BlockaidResultType.Errored, [PROVIDER_A]),
+        buildResponse(BlockaidResultType.Benign, [PROVIDER_B]),
+      ])?.result_type,
+    ).toBe(BlockaidResultType.Benign);
+  });
+
+  it('returns undefined if there are no responses', () => {
+    expect(mergeSecurityAlertResponses([])).toBeUndefined();
+  });
+});
+
+describe('mergeScanAddressResponses', () => {
+  it('selects the most severe response', () => {
+    expect(
+      mergeScanAddressResponses([
+        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        { result_type: ResultType.Trusted, label: '', providers: [PROVIDER_A] },
+        // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        {
+          result_type: ResultType.Malicious,
+          label: '',
+          providers: [PROVIDER_B],
+        },
+      ])?.result_type,
+    ).toBe(ResultType.Malicious);
+  });
+});
+
+describe('mergeScanUrlResults', () => {
+  it('ignores results that failed to fetch', () => {
+    expect(
+      mergeScanUrlResults([
+        {
+          domainName: 'example.com',
+          recommendedAction: RecommendedAction.None,
+          fetchError: 'Failed',
+          providers: [PROVIDER_A],
+        },
+        {
+          domainName: 'example.com',
+          recommendedAction: RecommendedAction.Warn,
+          providers: [PROVIDER_B],
+        },
+      ])?.recommendedAction,
+    ).toBe(RecommendedAction.Warn);
+  });
+});
@@ -0,0 +1,403 @@
+import type { Messenger } from '@metamask/messenger';
+import {
+  PhishingDetectionScanResult,
+  RecommendedAction,
+} from '@metamask/phishing-controller';
+import { Hex, createProjectLogger } from '@metamask/utils';
+import {
+  BlockaidReason,
+  BlockaidResultType,
+  SECURITY_PROVIDER_RESULT_PRECEDENCE,
+  SecurityProviderAttribution,
+} from '../../../../shared/constants/security-provider';
+import { SECOND } from '../../../../shared/constants/time';
+import { SIGNING_METHODS } from '../../../../shared/constants/transaction';
+import {
+  ResultType,
+  ScanAddressResponse,
+  SupportedEVMChain,
+} from '../../../../shared/lib/trust-signals';
+import { SecurityAlertResponse } from '../ppom/types';
+import { SecurityProviderInterface, SecurityProviderRequest } from './types';
+
+const log = createProjectLogger('security-provider-registry');
+
+const SERVICE_NAME = 'SecurityProviderRegistry';
+
+/**
+ * How long a provider may take to respond, so a provider that hangs cannot
+ * delay the result of Blockaid and the other providers.
+ */
+const PROVIDER_TIMEOUT = 5 * SECOND;
+
+export type SecurityProviderRegistryRegisterAction = {
+  type: `${typeof SERVICE_NAME}:register`;
+  handler: SecurityProviderRegistry['register'];
+};
+
+export type SecurityProviderRegistryUnregisterAction = {
+  type: `${typeof SERVICE_NAME}:unregister`;
+  handler: SecurityProviderRegistry['unregister'];
+};
+
+export type SecurityProviderRegistryActions =
+  | SecurityProviderRegistryRegisterAction
+  | SecurityProviderRegistryUnregisterAction;
+
+export type SecurityProviderRegistryMessenger = Messenger<
+  typeof SERVICE_NAME,
+  SecurityProviderRegistryActions,
+  never
+>;
+
+const SCAN_ADDRESS_RESULT_PRECEDENCE: string[] = [
+  ResultType.Malicious,
+  ResultType.Warning,
+  ResultType.Benign,
+  ResultType.Trusted,
+  ResultType.ErrorResult,
+  ResultType.Loading,
+];
+
+const SCAN_URL_RESULT_PRECEDENCE: string[] = [
+  RecommendedAction.Block,
+  RecommendedAction.Warn,
+  RecommendedAction.None,
+  RecommendedAction.Verified,
+];
+
+type AttributedResult = {
+  providers?: SecurityProviderAttribution[];
+};
+
+function getAttribution({
+  id,
+  name,
+  url,
+}: SecurityProviderInterface): SecurityProviderAttribution {
+  return { id, name, url };
+}
+
+function getErrorMessage(error: unknown) {
+  return error instanceof Error
+    ? `${error.name}: ${error.message}`
+    : JSON.stringify(error);
+}
+
+/**
+ * Rejects if the given promise does not settle within the provider timeout.
+ *
+ * @param provider - The provider the promise was returned by.
+ * @param promise - The pending provider call.
+ * @returns The result of the provider call.
+ */
+async function withProviderTimeout<Result>(
+  provider: SecurityProviderInterface,
+  promise: Promise<Result>,
+): Promise<Result> {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timeoutId = setTimeout(
+      () => reject(new Error(`Security provider timed out: ${provider.id}`)),
+      PROVIDER_TIMEOUT,
+    );
+  });
+
+  try {
+    return await Promise.race([promise, timeout]);
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/**
+ * Gets the values of the fulfilled results, in order.
+ *
+ * @param results - The settled results.
+ * @returns The fulfilled values.
+ */
+function getFulfilledValues<Value>(
+  results: PromiseSettledResult<Value>[],
+): Value[] {
+  return results.flatMap((result) =>
+    result.status === 'fulfilled' ? [result.value] : [],
+  );
+}
+
+/**
+ * Selects the most severe result, as defined by the given precedence, and
+ * attributes it to every provider whose result was considered. Results with
+ * equal severity are resolved in favour of the first one.
+ *
+ * @param results - The attributed results, ordered by provider precedence.
+ * @param getResultType - Returns the result type used for precedence.
+ * @param precedence - The result types ordered from most to least severe.
+ * @returns The selected result, or undefined if there are no results.
+ */
+function mergeResults<Result extends AttributedResult>(
+  results: Result[],
+  getResultType: (result: Result) => string | undefined,
+  precedence: string[],
+): Result | undefined {
+  const getRank = (result: Result) => {
+    const index = precedence.indexOf(getResultType(result) ?? '');
+    return index === -1 ? precedence.length : index;
+  };
+
+  const [selected] = [...results].sort((a, b) => getRank(a) - getRank(b));
+
+  if (!selected) {
+    return undefined;
+  }
+
+  return {
+    ...selected,
+    providers: [selected, ...results.filter((result) => result !== selected)]
+      .flatMap(({ providers }) => providers ?? [])
+      .filter(
+        (provider, index, providers) =>
+          providers.findIndex(({ id }) => id === provider.id) === index,
+      ),
+  };
+}
+
+/**
+ * Merges the validation results of several security providers.
+ *
+ * @param responses - The responses, ordered by provider precedence.
+ * @returns The most severe response, attributed to all providers.
+ */
+export function mergeSecurityAlertResponses(
+  responses: SecurityAlertResponse[],
+): SecurityAlertResponse | undefined {
+  return mergeResults(
+    responses,
+    (response) => response.result_type,
+    SECURITY_PROVIDER_RESULT_PRECEDENCE,
+  );
+}
+
+/**
+ * Merges the address scan results of several security providers.
+ *
+ * @param responses - The responses, ordered by provider precedence.
+ * @returns The most severe response, attributed to all providers.
+ */
+export function mergeScanAddressResponses(
+  responses: ScanAddressResponse[],
+): ScanAddressResponse | undefined {
+  return mergeResults(
+    responses,
+    (response) => response.result_type,
+    SCAN_ADDRESS_RESULT_PRECEDENCE,
+  );
+}
+
+/**
+ * Merges the URL scan results of several security providers. Results that
+ * failed to fetch are only used if no provider returned a recommendation.
+ *
+ * @param results - The results, ordered by provider precedence.
+ * @returns The most severe result, attributed to all providers.
+ */
+export function mergeScanUrlResults(
+  results: (PhishingDetectionScanResult & AttributedResult)[],
+): (PhishingDetectionScanResult & AttributedResult) | undefined {
+  return mergeResults(
+    results,
+    (result) => (result.fetchError ? undefined : result.recommendedAction),
+    SCAN_URL_RESULT_PRECEDENCE,
+  );
+}
+
+/**
+ * Registry of additional security providers consulted alongside Blockaid.
+ * Providers are consulted in registration order, which also defines their
+ * precedence when results of equal severity are merged.
+ *
+ * Providers are registered through the `SecurityProviderRegistry:register`
+ * messenger action, so other controllers, such as the one running a security
+ * Snap, can add themselves without depending on the registry.
+ */
+export class SecurityProviderRegistry {
+  #providers: SecurityProviderInterface[] = [];
+
+  /**
+   * Constructs a SecurityProviderRegistry.
+   *
+   * @param options - The options.
+   * @param options.messenger - The messenger used to expose the registry.
+   */
+  constructor({ messenger }: { messenger: SecurityProviderRegistryMessenger }) {
+    messenger.registerActionHandler(
+      `${SERVICE_NAME}:register`,
+      this.register.bind(this),
+    );
+
+    messenger.registerActionHandler(
+      `${SERVICE_NAME}:unregister`,
+      this.unregister.bind(this),
+    );
+  }
+
+  /**
+   * Registers a security provider.
+   *
+   * @param provider - The provider to register.
+   */
+  register(provider: SecurityProviderInterface): void {
+    if (this.#providers.some(({ id }) => id === provider.id)) {
+      throw new Error(`Security provider already registered: ${provider.id}`);
+    }
+
+    this.#providers.push(provider);
+  }
+
+  /**
+   * Removes a registered security provider.
+   *
+   * @param id - The ID of the provider to remove.
+   */
+  unregister(id: string): void {
+    this.#providers = this.#providers.filter((provider) => provider.id !== id);
+  }
+
+  /**
+   * Gets the registered security providers in order of precedence.
+   *
+   * @returns The registered providers.
+   */
+  getProviders(): SecurityProviderInterface[] {
+    return [...this.#providers];
+  }
+
+  /**
+   * Validates a transaction or signature request with every provider
+   * supporting it. Providers failing to validate the request, or not
+   * responding within the timeout, return an error result, so they remain
+   * attributed.
+   *
+   * @param chainId - The chain ID of the request.
+   * @param request - The normalized request.
+   * @returns The attributed responses, ordered by provider precedence.
+   */
+  async validateRequest(
+    chainId: Hex,
+    request: SecurityProviderRequest,
+  ): Promise<SecurityAlertResponse[]> {
+    const isSignatureRequest = SIGNING_METHODS.includes(request.method);
+
+    const providers = this.#providers.filter((provider) =>
+      isSignatureRequest
+        ? provider.validateSignature
+        : provider.validateTransaction,
+    );
+
+    const results = await Promise.allSettled(
+      providers.map(async (provider) => {
+        const attribution = [getAttribution(provider)];
+
+        try {
+          const response = await withProviderTimeout(
+            provider,
+            Promise.resolve(
+              isSignatureRequest
+                ? provider.validateSignature?.(chainId, request)
+                : provider.validateTransaction?.(chainId, request),
+            ),
+          );
+
+          return {
+            ...(response as SecurityAlertResponse),
+            providers: attribution,
+          };
+        } catch (error) {
+          log('Error validating request', provider.id, error);
+
+          return {
+            // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+            // eslint-disable-next-line @typescript-eslint/naming-convention
+            result_type: BlockaidResultType.Errored,
+            reason: BlockaidReason.errored,
+            description: getErrorMessage(error),
+            providers: attribution,
+          };
+        }
+      }),
+    );
+
+    return getFulfilledValues(results);
+  }
+
+  /**
+   * Scans an address with every provider supporting it. Providers failing to
+   * scan the address, or not responding within the timeout, are skipped.
+   *
+   * @param chain - The chain the address exists on.
+   * @param address - The address to scan.
+   * @returns The attributed responses, ordered by provider precedence.
+   */
+  async scanAddress(
+    chain: SupportedEVMChain,
+    address: string,
+  ): Promise<ScanAddressResponse[]> {
+    const responses = await Promise.all(
+      this.#providers.map(async (provider) => {
+        if (!provider.scanAddress) {
+          return undefined;
+        }
+
+        try {
+          const response = await withProviderTimeout(
+            provider,
+            provider.scanAddress(chain, address),
+          );
+          return { ...response, providers: [getAttribution(provider)] };
+        } catch (error) {
+          log('Error scanning address', provider.id, error);
+          return undefined;
+        }
+      }),
+    );
+
+    return responses.filter(
+      (response): response is ScanAddressResponse => response !== undefined,
+    );
+  }
+
+  /**
+   * Scans a URL with every provider supporting it. Providers failing to scan
+   * the URL, or not responding within the timeout, are skipped.
+   *
+   * @param url - The URL to scan.
+   * @returns The attributed results, ordered by provider precedence.
+   */
+  async scanUrl(
+    url: string,
+  ): Promise<(PhishingDetectionScanResult & AttributedResult)[]> {
+    const results = await Promise.all(
+      this.#providers.map(async (provider) => {
+        if (!provider.scanUrl) {
+          return undefined;
+        }
+
+        try {
+          const result = await withProviderTimeout(
+            provider,
+            provider.scanUrl(url),
+          );
+          return { ...result, providers: [getAttribution(provider)] };
+        } catch (error) {
+          log('Error scanning URL', provider.id, error);
+          return undefined;
+        }
+      }),
+    );
+
+    return results.filter(
+      (result): result is PhishingDetectionScanResult & AttributedResult =>
+        result !== undefined,
+    );
+  }
+}
@@ -0,0 +1,74 @@
+import type { PhishingDetectionScanResult } from '@metamask/phishing-controller';
+import type { Hex, JsonRpcRequest } from '@metamask/utils';
+import type {
+  ScanAddressResponse,
+  SupportedEVMChain,
+} from '../../../../shared/lib/trust-signals';
+import type { SecurityAlertResponse } from '../ppom/types';
+
+/**
+ * A normalized JSON-RPC request sent to security providers for validation.
+ */
+export type SecurityProviderRequest = JsonRpcRequest & {
+  delegationMock?: Hex;
+  origin?: string;
+};
+
+/**
+ * A security provider validating requests and scanning addresses or URLs,
+ * such as an in-house service or a Snap. Providers implement only the
+ * capabilities they support.
+ *
+ * Results should use the Blockaid result types and reasons so they can be
+ * merged with the results of other providers and displayed in the alert UI.
+ */
+export type SecurityProviderInterface = {
+  /** Unique identifier of the provider, such as a Snap ID. */
+  id: string;
+
+  /** Display name of the provider, shown in the alert UI. */
+  name: string;
+
+  /** URL to the provider website, shown in the alert UI. */
+  url?: string;
+
+  /**
+   * Validates a transaction request.
+   *
+   * @param chainId - The chain ID of the transaction.
+   * @param request - The normalized transaction request.
+   */
+  validateTransaction?: (
+    chainId: Hex,
+    request: SecurityProviderRequest,
+  ) => Promise<SecurityAlertResponse>;
+
+  /**
+   * Validates a signature request.
+   *
+   * @param chainId - The chain ID of the signature request.
+   * @param request - The normalized signature request.
+   */
+  validateSignature?: (
+    chainId: Hex,
+    request: SecurityProviderRequest,
+  ) => Promise<SecurityAlertResponse>;
+
+  /**
+   * Scans an address for trust signals.
+   *
+   * @param chain - The chain the address exists on.
+   * @param address - The address to scan.
+   */
+  scanAddress?: (
+    chain: SupportedEVMChain,
+    address: string,
+  ) => Promise<ScanAddressResponse>;
+
+  /**
+   * Scans a URL for phishing.
+   *
+   * @param url - The URL to scan.
+   */
+  scanUrl?: (url: string) => Promise<PhishingDetectionScanResult>;
+};
@@ -6,7 +6,10 @@ import {
 } from '../stores/persistence-manager';
 import {
   METHOD_DISPLAY_STATE_CORRUPTION_ERROR,
+  METHOD_DISPLAY_STATE_SNAPSHOT_ERROR,
   METHOD_REPAIR_DATABASE,
+  METHOD_RESTORE_STATE_SNAPSHOT,
+  StateSnapshotReason,
 } from '../../../../shared/constants/state-corruption';
 import { RELOAD_WINDOW } from '../../../../shared/constants/start-up-errors';
 import {
@@ -16,6 +19,11 @@ import {
 } from './state-corruption-recovery.test.ts-utils.test';
 import { CorruptionHandler } from './state-corruption-recovery';
 
+jest.mock('../stores/state-snapshots', () => ({
+  verifyStateSnapshotPassword: async (_snapshot: unknown, password: string) =>
+    password === 'password',
+}));
+
 /**
  * Creates a connected mock Port objects with a background<->ui connection.
  *
@@ -36,11 +44,13 @@ function createConnectedPorts(uiCount: number) {
 const mockPersistence = (backup: unknown): PersistenceManager =>
   ({
     getBackup: jest.fn().mockResolvedValue(Promise.resolve(backup)),
+    getStateSnapshots: jest.fn().mockResolvedValue([]),
   }) as unknown as PersistenceManager;
 
 const mockBrokenPersistence = (error: Error): PersistenceManager =>
   ({
     getBackup: jest.fn().mockRejectedValue(error),
+    getStateSnapshots: jest.fn().mockRejectedValue(error),
   }) as unknown as PersistenceManager;
 
 describe('CorruptionHandler.handleStateCorruptionError', () => {
@@ -143,6 +153,7 @@ describe('CorruptionHandler.handleStateCorruptionError', () => {
               error,
               database,
               repairCallback,
+              restoreSnapshotCallback: jest.fn(),
             }),
           ),
         );
@@ -192,3 +203,104 @@ describe('CorruptionHandler.handleStateCorruptionError', () => {
     },
   );
 });
+
+describe('CorruptionHandler.handleStateCorruptionError with state snapshots', () => {
+  const SNAPSHOT_METADATA_MOCK = {
+    id: 'snapshot-id',
+    createdAt: 1,
+    version: 10,
+    reason: StateSnapshotReason.Daily,
+  };
+
+  const SNAPSHOT_MOCK = {
+    ...SNAPSHOT_METADATA_MOCK,
+    data: { KeyringController: { vault: 'vault' } },
+    meta: { version: 10 },
+  };
+
+  const database = {
+    getBackup: jest.fn().mockResolvedValue(null),
+    getStateSnapshots: jest.fn().mockResolvedValue([SNAPSHOT_METADATA_MOCK]),
+    getStateSnapshot: jest.fn().mockResolvedValue(SNAPSHOT_MOCK),
+  } as unknown as PersistenceManager;
+
+  /**
+   * Handles a state corruption error for a single UI, which asks to restore
+   * the snapshot with the given password.
+   *
+   * @param password - The password sent by the UI.
+   */
+  async function restoreSnapshot(password: string) {
+    const [{ background, ui }] = createConnectedPorts(1);
+    const messages: string[] = [];
+    const restoreSnapshotCallback = jest.fn();
+
+    ui.onMessage.addListener((message, port) => {
+      messages.push(message.data.method);
+      if (message.data.method === METHOD_DISPLAY_STATE_CORRUPTION_ERROR) {
+        port.postMessage({
+          data: {
+            method: METHOD_RESTORE_STATE_SNAPSHOT,
+            params: { id: SNAPSHOT_MOCK.id, password },
+          },
+        });
+      } else {
+        port.disconnect();
+      }
+    });
+
+    await new CorruptionHandler().handleStateCorruptionError({
+      port: background,
+      error: new PersistenceError('Corrupted', null),
+      database,
+      repairCallback: jest.fn(),
+      restoreSnapshotCallback,
+    });
+
+    return { messages, restoreSnapshotCallback };
+  }
+
+  it('sends the state snapshots to the UI', async () => {
+    const [{ background, ui }] = createConnectedPorts(1);
+    const corruptionFn = jest.fn();
+
+    ui.onMessage.addListener((message, port) => {
+      corruptionFn(message.data.params);
+      port.disconnect();
+    });
+
+    await new CorruptionHandler().handleStateCorruptionError({
+      port: background,
+      error: new PersistenceError('Corrupted', null),
+      database,
+      repairCallback: jest.fn(),
+      restoreSnapshotCallback: jest.fn(),
+    });
+
+    expect(corruptionFn).toHaveBeenCalledWith(
+      expect.objectContaining({ snapshots: [SNAPSHOT_METADATA_MOCK] }),
+    );
+  });
+
+  it('restores the state snapshot if the password is correct', async () => {
+    const { messages, restoreSnapshotCallback } =
+      await restoreSnapshot('password');
+
+    expect(restoreSnapshotCallback).toHaveBeenCalledWith(SNAPSHOT_MOCK);
+    expect(messages).toStrictEqual([
+      METHOD_DISPLAY_STATE_CORRUPTION_ERROR,
+      RELOAD_WINDOW,
+    ]);
+  });
+
+  it('tells the UI if the password is incorrect', async () => {
+    const { messages, restoreSnapshotCallback } =
+      await restoreSnapshot('wrong');
+
+    expect(restoreSnapshotCallback).not.toHaveBeenCalled();
+    expect(messages).toStrictEqual([
+      METHOD_DISPLAY_STATE_CORRUPTION_ERROR,
+      METHOD_DISPLAY_STATE_SNAPSHOT_ERROR,
+    ]);
+  });
+});
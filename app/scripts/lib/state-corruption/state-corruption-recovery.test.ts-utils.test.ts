@@ -149,6 +149,7 @@ export type Scenario = {
   result: {
     hasBackup: boolean;
     currentLocale: string | null;
+    snapshots: [];
   };
 
   /**
@@ -271,6 +272,7 @@ export function generateScenarios(): Scenario[] {
           const baseResult = {
             hasBackup,
             currentLocale,
+            snapshots: [] as [],
           };
 
           const baseName = `vault:${getShortLabel(
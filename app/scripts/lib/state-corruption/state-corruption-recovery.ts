@@ -1,9 +1,16 @@
 import { hasProperty, isObject } from '@metamask/utils';
 import {
   METHOD_DISPLAY_STATE_CORRUPTION_ERROR,
+  METHOD_DISPLAY_STATE_SNAPSHOT_ERROR,
   METHOD_REPAIR_DATABASE,
+  METHOD_RESTORE_STATE_SNAPSHOT,
+  type StateSnapshotMetadata,
 } from '../../../../shared/constants/state-corruption';
 import { type Backup, PersistenceManager } from '../stores/persistence-manager';
+import {
+  type StateSnapshot,
+  verifyStateSnapshotPassword,
+} from '../stores/state-snapshots';
 import { ErrorLike } from '../../../../shared/constants/errors';
 import { tryPostMessage } from '../start-up-errors/start-up-errors';
 import { RELOAD_WINDOW } from '../../../../shared/constants/start-up-errors';
@@ -15,6 +22,7 @@ export type HandleStateCorruptionErrorConfig = {
   error: ErrorLike;
   database: PersistenceManager;
   repairCallback: (backup: Backup | null) => void | Promise<void>;
+  restoreSnapshotCallback: (snapshot: StateSnapshot) => void | Promise<void>;
 };
 
 const REPAIR_LOCK_NAME = 'repairDatabase';
@@ -80,6 +88,58 @@ async function maybeGetBackup(
   return backup;
 }
 
+/**
+ * Attempts to list the state snapshots in the database, which the user can
+ * choose to restore instead of the backup.
+ *
+ * @param database - The database to get the snapshots from.
+ */
+async function maybeGetStateSnapshots(
+  database: PersistenceManager,
+): Promise<StateSnapshotMetadata[]> {
+  try {
+    return await database.getStateSnapshots();
+  } catch {
+    // ignore errors here since we're already in an error state; the user can
+    // still restore the backup.
+    return [];
+  }
+}
+
+/**
+ * Attempts to get a state snapshot, if the given password is the password of
+ * the vault in the snapshot.
+ *
+ * @param database - The database to get the snapshot from.
+ * @param params - The params of the restore message sent by the UI.
+ * @returns The snapshot, or null if it can't be read or the password is
+ * incorrect.
+ */
+async function maybeGetVerifiedStateSnapshot(
+  database: PersistenceManager,
+  params: unknown,
+): Promise<StateSnapshot | null> {
+  if (
+    !isObject(params) ||
+    typeof params.id !== 'string' ||
+    typeof params.password !== 'string'
+  ) {
+    return null;
+  }
+  try {
+    const snapshot = await database.getStateSnapshot(params.id);
+    if (
+      snapshot &&
+      (await verifyStateSnapshotPassword(snapshot, params.password))
+    ) {
+      return snapshot;
+    }
+  } catch {
+    // the snapshot can't be read, which is handled like a missing snapshot
+  }
+  return null;
+}
+
 /**
  * Attempts to get the current locale from the backup.
  *
@@ -143,12 +203,15 @@ export class CorruptionHandler {
    * @param config.error - The error that caused the state corruption.
    * @param config.database - The database to get the backup from.
    * @param config.repairCallback - The function to call to repair the database.
+   * @param config.restoreSnapshotCallback - The function to call to restore
+   * the database from a state snapshot chosen by the user.
    */
   async handleStateCorruptionError({
     port,
     error,
     database,
     repairCallback,
+    restoreSnapshotCallback,
   }: HandleStateCorruptionErrorConfig): Promise<void> {
     const { connectedPorts } = this;
     const backup = await maybeGetBackup(error, database);
@@ -156,6 +219,7 @@ export class CorruptionHandler {
     // it is not worth claiming we have a backup if the vault doesn't actually
     // exist
     const hasBackup = Boolean(hasVault(backup));
+    const snapshots = await maybeGetStateSnapshots(database);
 
     // send the `error` to the UI for this port
     const sent = tryPostMessage(port, METHOD_DISPLAY_STATE_CORRUPTION_ERROR, {
@@ -166,6 +230,7 @@ export class CorruptionHandler {
       },
       currentLocale,
       hasBackup,
+      snapshots,
     });
     if (!sent) {
       return Promise.resolve();
@@ -190,40 +255,64 @@ export class CorruptionHandler {
        * reload the UI. It will also unregister the listener from all UI windows
        * to prevent multiple restore requests.
        *
+       * If the UI asks to restore a state snapshot instead, the password sent
+       * with the request must decrypt the vault in the snapshot. If it doesn't
+       * the UI is told so, and can try again.
+       *
        * @param message - The message sent from the UI to the background.
        */
       async function restoreVaultListener(message: Message) {
         if (message?.data?.method === METHOD_REPAIR_DATABASE) {
-          // only allow the restore process once, unregister
-          // `restoreVaultListener` listeners from all UI windows
-          connectedPorts.forEach((connectedPort) =>
-            connectedPort.onMessage.removeListener(restoreVaultListener),
+          await repair(() => repairCallback(backup));
+        } else if (message?.data?.method === METHOD_RESTORE_STATE_SNAPSHOT) {
+          const snapshot = await maybeGetVerifiedStateSnapshot(
+            database,
+            message.data.params,
           );
-
-          try {
-            await requestRepair(async function repairDatabase() {
-              // this callback might be ignored if another repair request
-              // is already in progress.
-
-              try {
-                await repairCallback(backup);
-              } finally {
-                // always reload the UI because if `initBackground` worked, the UI
-                // will redirect to the login screen, and if it didn't work, it'll
-                // show them a new error message (which could be the same as the
-                // vault error that sent them here in the first place, but hopefully
-                // not!)
-                connectedPorts.forEach((connectedPort) => {
-                  // as each page reloads, it will remove itself from the
-                  // `connectedPorts` on disconnection.
-                  tryPostMessage(connectedPort, RELOAD_WINDOW);
-                });
-              }
-            });
-            resolve();
-          } catch (e) {
-            reject(e);
+          if (!snapshot) {
+            tryPostMessage(port, METHOD_DISPLAY_STATE_SNAPSHOT_ERROR);
+            return;
           }
+          await repair(() => restoreSnapshotCallback(snapshot));
+        }
+      }
+
+      /**
+       * Repairs the database with the given callback, then reloads all UI
+       * windows.
+       *
+       * @param repairWith - The function that repairs the database.
+       */
+      async function repair(repairWith: () => void | Promise<void>) {
+        // only allow the restore process once, unregister
+        // `restoreVaultListener` listeners from all UI windows
+        connectedPorts.forEach((connectedPort) =>
+          connectedPort.onMessage.removeListener(restoreVaultListener),
+        );
+
+        try {
+          await requestRepair(async function repairDatabase() {
+            // this callback might be ignored if another repair request
+            // is already in progress.
+
+            try {
+              await repairWith();
+            } finally {
+              // always reload the UI because if `initBackground` worked, the UI
+              // will redirect to the login screen, and if it didn't work, it'll
+              // show them a new error message (which could be the same as the
+              // vault error that sent them here in the first place, but hopefully
+              // not!)
+              connectedPorts.forEach((connectedPort) => {
+                // as each page reloads, it will remove itself from the
+                // `connectedPorts` on disconnection.
+                tryPostMessage(connectedPort, RELOAD_WINDOW);
+              });
+            }
+          });
+          resolve();
+        } catch (e) {
+          reject(e);
         }
       }
     });
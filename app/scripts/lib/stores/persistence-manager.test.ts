@@ -8,6 +8,8 @@ import { MISSING_VAULT_ERROR } from '../../../../shared/constants/errors';
 import { PersistenceManager } from './persistence-manager';
 import ExtensionStore from './extension-store';
 import { MetaMaskStateType } from './base-store';
+import { StateSnapshotReason } from '../../../../shared/constants/state-corruption';
+import { StateSnapshotStore } from './state-snapshots';
 
 const MOCK_DATA = { config: { foo: 'bar' } };
 
@@ -107,6 +109,86 @@ describe('PersistenceManager', () => {
     });
   });
 
+  describe('state snapshots', () => {
+    const VAULT_STATE_MOCK = { KeyringController: { vault: 'vault' } };
+
+    it('takes a daily snapshot when one is due', async () => {
+      jest
+        .spyOn(StateSnapshotStore.prototype, 'isDailySnapshotDue')
+        .mockResolvedValue(true);
+      const addSpy = jest
+        .spyOn(StateSnapshotStore.prototype, 'add')
+        .mockResolvedValue({
+          id: '1',
+          createdAt: 1,
+          version: 10,
+          reason: StateSnapshotReason.Daily,
+        });
+      manager.setMetadata({ version: 10 });
+
+      await manager.set(VAULT_STATE_MOCK);
+
+      expect(addSpy).toHaveBeenCalledWith(
+        { data: VAULT_STATE_MOCK, meta: { version: 10 } },
+        StateSnapshotReason.Daily,
+      );
+    });
+
+    it('does not take a daily snapshot when one is not due', async () => {
+      jest
+        .spyOn(StateSnapshotStore.prototype, 'isDailySnapshotDue')
+        .mockResolvedValue(false);
+      const addSpy = jest.spyOn(StateSnapshotStore.prototype, 'add');
+      manager.setMetadata({ version: 10 });
+
+      await manager.set(VAULT_STATE_MOCK);
+
+      expect(addSpy).not.toHaveBeenCalled();
+    });
+
+    it('does not take a daily snapshot without a vault', async () => {
+      const addSpy = jest.spyOn(StateSnapshotStore.prototype, 'add');
+      manager.setMetadata({ version: 10 });
+
+      await manager.set({ appState: { test: true } });
+
+      expect(addSpy).not.toHaveBeenCalled();
+    });
+
+    it('writes the state if taking a daily snapshot fails', async () => {
+      const error = new Error('snapshot error');
+      jest
+        .spyOn(StateSnapshotStore.prototype, 'isDailySnapshotDue')
+        .mockRejectedValue(error);
+      manager.setMetadata({ version: 10 });
+
+      await manager.set(VAULT_STATE_MOCK);
+
+      expect(mockStoreSet).toHaveBeenCalledTimes(1);
+      expect(mockedCaptureException).toHaveBeenCalledWith(error);
+      expect(log.error).toHaveBeenCalledWith(
+        'error taking daily state snapshot:',
+        error,
+      );
+    });
+
+    it('returns the stored snapshots', async () => {
+      const snapshots = [
+        {
+          id: '1',
+          createdAt: 1,
+          version: 10,
+          reason: StateSnapshotReason.Migration,
+        },
+      ];
+      jest
+        .spyOn(StateSnapshotStore.prototype, 'list')
+        .mockResolvedValue(snapshots);
+
+      expect(await manager.getStateSnapshots()).toStrictEqual(snapshots);
+    });
+  });
+
   describe('get', () => {
     it('returns undefined and clears mostRecentRetrievedState if store returns empty', async () => {
       mockStoreGet.mockReturnValueOnce({});
@@ -263,19 +345,25 @@ describe('PersistenceManager', () => {
      * Breaks the indexedDB open request with a specific error.
      *
      * @param error - The error to throw when opening the database.
+     * @param databaseName - The name of the database to break.
      */
-    function breakIndexedDbWithError(error: Error) {
+    function breakIndexedDbWithError(
+      error: Error,
+      databaseName = 'metamask-backup',
+    ) {
       // make indexedDb throw the FF DOMException `InvalidStateError`:
       // "A mutation operation was attempted on a database that did not allow mutations."
       indexedDB.open = (name: string, version?: number) => {
-        const request = {} as unknown as IDBOpenDBRequest;
-        if (name === 'metamask-backup' && version === 1) {
-          // @ts-expect-error - we're intentionally mocking the error here
-          request.error = error;
-          setTimeout(() => {
-            request.onerror?.({ target: request } as unknown as Event);
-          }, 0);
+        if (name !== databaseName || version !== 1) {
+          return originalOpen(name, version);
         }
+
+        const request = {} as unknown as IDBOpenDBRequest;
+        // @ts-expect-error - we're intentionally mocking the error here
+        request.error = error;
+        setTimeout(() => {
+          request.onerror?.({ target: request } as unknown as Event);
+        }, 0);
         return request;
       };
     }
@@ -328,5 +416,21 @@ describe('PersistenceManager', () => {
       expect(consoleWarnSpy).not.toHaveBeenCalled();
       expect(consoleErrorSpy).not.toHaveBeenCalled();
     });
+
+    it('Runs without state snapshots if their database cannot be opened', async () => {
+      const randomError = new Error('Random Error');
+      breakIndexedDbWithError(randomError, 'metamask-state-snapshots');
+
+      brokenManager = new PersistenceManager({
+        localStore: new ExtensionStore(),
+      });
+      await brokenManager.open();
+
+      expect(await brokenManager.getStateSnapshots()).toStrictEqual([]);
+      expect(log.error).toHaveBeenCalledWith(
+        'error opening state snapshot database:',
+        randomError,
+      );
+    });
   });
 });
@@ -3,7 +3,12 @@ import { isEmpty } from 'lodash';
 import { RuntimeObject, hasProperty, isObject } from '@metamask/utils';
 import { captureException } from '../../../../shared/lib/sentry';
 import { MISSING_VAULT_ERROR } from '../../../../shared/constants/errors';
+import {
+  StateSnapshotReason,
+  type StateSnapshotMetadata,
+} from '../../../../shared/constants/state-corruption';
 import { IndexedDBStore } from './indexeddb-store';
+import { StateSnapshotStore, type StateSnapshot } from './state-snapshots';
 import type {
   MetaMaskStateType,
   MetaMaskStorageStructure,
@@ -100,7 +105,11 @@ const STATE_LOCK = 'state-lock';
  * state tree. The version is used to ensure consistency and proper
  * handling of migrations.
  *
- * 3. **Error Management:**
+ * 3. **Snapshots:**
+ * - Keeps a rolling list of compressed snapshots of the state, taken daily
+ * and before migrations, so the state can be restored to a point in time
+ *
+ * 4. **Error Management:**
  * - Tracks whether data persistence is failing and logs appropriate errors
  * - Captures exceptions during write operations and reports them using
  * Sentry
@@ -142,6 +151,8 @@ export class PersistenceManager {
 
   #backupDb: IndexedDBStore | null = null;
 
+  #snapshots: StateSnapshotStore | null = null;
+
   #backup?: string;
 
   #open: boolean = false;
@@ -178,6 +189,17 @@ export class PersistenceManager {
           throw error;
         }
       }
+
+      // State snapshots are a recovery aid, so MetaMask runs without them if
+      // their database can't be opened.
+      try {
+        const snapshotDb = new IndexedDBStore();
+        await snapshotDb.open('metamask-state-snapshots', 1);
+        this.#snapshots = new StateSnapshotStore(snapshotDb);
+      } catch (error) {
+        log.error('error opening state snapshot database:', error);
+      }
+
       this.#open = true;
     }
   }
@@ -246,6 +268,8 @@ export class PersistenceManager {
             }
           }
 
+          await this.#maybeCreateDailySnapshot(state, meta);
+
           if (this.#dataPersistenceFailing) {
             this.#dataPersistenceFailing = false;
           }
@@ -332,6 +356,7 @@ export class PersistenceManager {
         await Promise.all([
           this.#localStore.reset(),
           await this.#backupDb?.reset(),
+          await this.#snapshots?.reset(),
         ]);
         this.#backup = undefined;
         this.#isExtensionInitialized = false;
@@ -360,6 +385,67 @@ export class PersistenceManager {
     };
   }
 
+  /**
+   * Takes a daily snapshot of the state if one is due. Failing to take a
+   * snapshot is reported, but doesn't fail the write of the state itself.
+   *
+   * @param state - The state that was written.
+   * @param meta - The metadata of the state.
+   */
+  async #maybeCreateDailySnapshot(state: MetaMaskStateType, meta: MetaData) {
+    // snapshots of a wallet without a vault can't be restored, as the
+    // password is confirmed against the vault in the snapshot
+    if (!this.#snapshots || !hasVault(state)) {
+      return;
+    }
+
+    try {
+      if (await this.#snapshots.isDailySnapshotDue()) {
+        await this.#snapshots.add(
+          { data: state, meta },
+          StateSnapshotReason.Daily,
+        );
+      }
+    } catch (error) {
+      captureException(error);
+      log.error('error taking daily state snapshot:', error);
+    }
+  }
+
+  /**
+   * Takes a snapshot of the given state, e.g. before migrations are run on it.
+   *
+   * @param versionedData - The state to take a snapshot of.
+   * @param versionedData.data - The persisted state.
+   * @param versionedData.meta - The metadata of the persisted state.
+   * @param reason - Why the snapshot is taken.
+   */
+  async createStateSnapshot(
+    versionedData: { data: MetaMaskStateType; meta: MetaData },
+    reason: StateSnapshotReason,
+  ): Promise<StateSnapshotMetadata | undefined> {
+    await this.open();
+    return await this.#snapshots?.add(versionedData, reason);
+  }
+
+  /**
+   * Lists the metadata of the stored state snapshots, newest first.
+   */
+  async getStateSnapshots(): Promise<StateSnapshotMetadata[]> {
+    await this.open();
+    return (await this.#snapshots?.list()) ?? [];
+  }
+
+  /**
+   * Retrieves a stored state snapshot.
+   *
+   * @param id - The ID of the snapshot.
+   */
+  async getStateSnapshot(id: string): Promise<StateSnapshot | undefined> {
+    await this.open();
+    return await this.#snapshots?.get(id);
+  }
+
   /**
    * Logs the encrypted vault state to the console. This is useful for
    * debugging purposes.
@@ -0,0 +1,190 @@
+/**
+ * @jest-environment node
+ */
+import 'fake-indexeddb/auto';
+import { decrypt } from '@metamask/browser-passworder';
+import { StateSnapshotReason } from '../../../../shared/constants/state-corruption';
+import { IndexedDBStore } from './indexeddb-store';
+import {
+  DAILY_STATE_SNAPSHOT_INTERVAL,
+  MAX_STATE_SNAPSHOTS,
+  StateSnapshotStore,
+  verifyStateSnapshotPassword,
+} from './state-snapshots';
+
+jest.mock('@metamask/browser-passworder', () => ({
+  decrypt: jest.fn(),
+}));
+
+const DB_NAME = 'test-state-snapshots';
+
+const VERSIONED_DATA_MOCK = {
+  data: {
+    KeyringController: { vault: 'vault' },
+    PreferencesController: { currentLocale: 'en' },
+  },
+  meta: { version: 10 },
+};
+
+describe('StateSnapshotStore', () => {
+  let db: IndexedDBStore;
+  let store: StateSnapshotStore;
+
+  beforeEach(async () => {
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(DB_NAME);
+      request.onsuccess = () => resolve();
+      request.onerror = () => reject(request.error);
+    });
+
+    db = new IndexedDBStore();
+    await db.open(DB_NAME, 1);
+    store = new StateSnapshotStore(db);
+  });
+
+  afterEach(() => {
+    db.close();
+    jest.useRealTimers();
+  });
+
+  it('returns no snapshots if none were taken', async () => {
+    expect(await store.list()).toStrictEqual([]);
+  });
+
+  it('restores the state of a snapshot', async () => {
+    const { id } = await store.add(
+      VERSIONED_DATA_MOCK,
+      StateSnapshotReason.Migration,
+    );
+
+    expect(await store.get(id)).toStrictEqual({
+      id,
+      createdAt: expect.any(Number),
+      version: 10,
+      reason: StateSnapshotReason.Migration,
+      ...VERSIONED_DATA_MOCK,
+    });
+  });
+
+  it('lists snapshots newest first', async () => {
+    const first = await store.add(
+      VERSIONED_DATA_MOCK,
+      StateSnapshotReason.Daily,
+    );
+    const second = await store.add(
+      VERSIONED_DATA_MOCK,
+      StateSnapshotReason.Migration,
+    );
+
+    expect((await store.list()).map(({ id }) => id)).toStrictEqual([
+      second.id,
+      first.id,
+    ]);
+  });
+
+  it('removes the oldest snapshots beyond the maximum', async () => {
+    const oldest = await store.add(
+      VERSIONED_DATA_MOCK,
+      StateSnapshotReason.Daily,
+    );
+
+    for (let i = 0; i < MAX_STATE_SNAPSHOTS; i++) {
+      await store.add(VERSIONED_DATA_MOCK, StateSnapshotReason.Daily);
+    }
+
+    const snapshots = await store.list();
+    expect(snapshots).toHaveLength(MAX_STATE_SNAPSHOTS);
+    expect(snapshots.map(({ id }) => id)).not.toContain(oldest.id);
+    expect(await store.get(oldest.id)).toBeUndefined();
+    expect(await db.get([`snapshot-${oldest.id}`])).toStrictEqual([undefined]);
+  });
+
+  it('persists snapshots across store instances', async () => {
+    const { id } = await store.add(
+      VERSIONED_DATA_MOCK,
+      StateSnapshotReason.Daily,
+    );
+
+    const newStore = new StateSnapshotStore(db);
+
+    expect(
+      (await newStore.list()).map((snapshot) => snapshot.id),
+    ).toStrictEqual([id]);
+  });
+
+  it('removes all snapshots on reset', async () => {
+    await store.add(VERSIONED_DATA_MOCK, StateSnapshotReason.Daily);
+
+    await store.reset();
+
+    expect(await store.list()).toStrictEqual([]);
+    expect(await new StateSnapshotStore(db).list()).toStrictEqual([]);
+  });
+
+  describe('isDailySnapshotDue', () => {
+    it('returns true if no daily snapshot was taken', async () => {
+      await store.add(VERSIONED_DATA_MOCK, StateSnapshotReason.Migration);
+
+      expect(await store.isDailySnapshotDue()).toBe(true);
+    });
+
+    it('returns false if a daily snapshot was taken within the interval', async () => {
+      await store.add(VERSIONED_DATA_MOCK, StateSnapshotReason.Daily);
+
+      expect(await store.isDailySnapshotDue()).toBe(false);
+    });
+
+    it('returns true if the last daily snapshot is older than the interval', async () => {
+      await store.add(VERSIONED_DATA_MOCK, StateSnapshotReason.Daily);
+
+      jest
+        .spyOn(Date, 'now')
+        .mockReturnValue(Date.now() + DAILY_STATE_SNAPSHOT_INTERVAL);
+
+      expect(await store.isDailySnapshotDue()).toBe(true);
+    });
+  });
+});
+
+describe('verifyStateSnapshotPassword', () => {
+  const decryptMock = jest.mocked(decrypt);
+
+  const SNAPSHOT_MOCK = {
+    id: '1',
+    createdAt: 1,
+    version: 10,
+    reason: StateSnapshotReason.Daily,
+    ...VERSIONED_DATA_MOCK,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns true if the password decrypts the vault', async () => {
+    decryptMock.mockResolvedValue({});
+
+    expect(await verifyStateSnapshotPassword(SNAPSHOT_MOCK, 'password')).toBe(
+      true,
+    );
+    expect(decryptMock).toHaveBeenCalledWith('password', 'vault');
+  });
+
+  it('returns false if the password does not decrypt the vault', async () => {
+    decryptMock.mockRejectedValue(new Error('Incorrect password'));
+
+    expect(await verifyStateSnapshotPassword(SNAPSHOT_MOCK, 'wrong')).toBe(
+      false,
+    );
+  });
+
+  it('returns false if the snapshot has no vault', async () => {
+    expect(
+      await verifyStateSnapshotPassword(
+        { ...SNAPSHOT_MOCK, data: { KeyringController: {} } },
+        'password',
+      ),
+    ).toBe(false);
+    expect(decryptMock).not.toHaveBeenCalled();
+  });
+});
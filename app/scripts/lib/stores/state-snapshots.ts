@@ -0,0 +1,208 @@
+import { v4 as uuid } from 'uuid';
+import { decrypt } from '@metamask/browser-passworder';
+import { hasProperty, isObject } from '@metamask/utils';
+import { DAY } from '../../../../shared/constants/time';
+import {
+  StateSnapshotReason,
+  type StateSnapshotMetadata,
+} from '../../../../shared/constants/state-corruption';
+import { IndexedDBStore } from './indexeddb-store';
+import type { MetaMaskStateType, MetaData } from './base-store';
+
+/**
+ * The maximum number of snapshots kept. When a new snapshot is added, the
+ * oldest snapshots beyond this number are removed.
+ */
+export const MAX_STATE_SNAPSHOTS = 5;
+
+/**
+ * The minimum time between two daily snapshots.
+ */
+export const DAILY_STATE_SNAPSHOT_INTERVAL = DAY;
+
+const INDEX_KEY = 'index';
+
+export type StateSnapshot = StateSnapshotMetadata & {
+  data: MetaMaskStateType;
+  meta: MetaData;
+};
+
+/**
+ * Gets the key a compressed snapshot is stored under.
+ *
+ * @param id - The ID of the snapshot.
+ */
+function getSnapshotKey(id: string) {
+  return `snapshot-${id}`;
+}
+
+/**
+ * Compresses a string with gzip.
+ *
+ * @param value - The string to compress.
+ * @returns The compressed bytes.
+ */
+async function compress(value: string): Promise<ArrayBuffer> {
+  const stream = new Blob([value])
+    .stream()
+    .pipeThrough(new CompressionStream('gzip'));
+  return await new Response(stream).arrayBuffer();
+}
+
+/**
+ * Decompresses gzip compressed bytes to a string.
+ *
+ * @param value - The compressed bytes.
+ * @returns The decompressed string.
+ */
+async function decompress(value: ArrayBuffer): Promise<string> {
+  const stream = new Blob([value])
+    .stream()
+    .pipeThrough(new DecompressionStream('gzip'));
+  return await new Response(stream).text();
+}
+
+/**
+ * Checks the password of a snapshot by decrypting the vault it contains. The
+ * vault is encrypted with the wallet password at the time of the snapshot.
+ *
+ * @param snapshot - The snapshot to check the password of.
+ * @param password - The password to check.
+ * @returns True if the password decrypts the vault, otherwise false.
+ */
+export async function verifyStateSnapshotPassword(
+  snapshot: StateSnapshot,
+  password: string,
+): Promise<boolean> {
+  const keyringController = snapshot.data?.KeyringController;
+  if (
+    !isObject(keyringController) ||
+    !hasProperty(keyringController, 'vault') ||
+    typeof keyringController.vault !== 'string'
+  ) {
+    return false;
+  }
+
+  try {
+    await decrypt(password, keyringController.vault);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Keeps a rolling list of gzip compressed snapshots of the persisted state in
+ * IndexedDB, so the state can be restored to a point in time. Only the newest
+ * `MAX_STATE_SNAPSHOTS` snapshots are kept.
+ */
+export class StateSnapshotStore {
+  #db: IndexedDBStore;
+
+  /**
+   * The metadata of the stored snapshots, newest first. This is cached after
+   * it is first read, as it is checked on every state write.
+   */
+  #index?: StateSnapshotMetadata[];
+
+  constructor(db: IndexedDBStore) {
+    this.#db = db;
+  }
+
+  /**
+   * Lists the metadata of the stored snapshots, newest first.
+   */
+  async list(): Promise<StateSnapshotMetadata[]> {
+    if (!this.#index) {
+      const [index] = await this.#db.get([INDEX_KEY]);
+      this.#index = Array.isArray(index)
+        ? (index as StateSnapshotMetadata[])
+        : [];
+    }
+    return [...this.#index];
+  }
+
+  /**
+   * Takes a snapshot of the given state, removing the oldest snapshots beyond
+   * `MAX_STATE_SNAPSHOTS`.
+   *
+   * @param versionedData - The state to take a snapshot of.
+   * @param versionedData.data - The persisted state.
+   * @param versionedData.meta - The metadata of the persisted state.
+   * @param reason - Why the snapshot is taken.
+   * @returns The metadata of the new snapshot.
+   */
+  async add(
+    { data, meta }: { data: MetaMaskStateType; meta: MetaData },
+    reason: StateSnapshotReason,
+  ): Promise<StateSnapshotMetadata> {
+    const snapshot: StateSnapshotMetadata = {
+      id: uuid(),
+      createdAt: Date.now(),
+      version: meta.version,
+      reason,
+    };
+
+    const index = [snapshot, ...(await this.list())];
+    const removed = index.splice(MAX_STATE_SNAPSHOTS);
+
+    await this.#db.set({
+      [getSnapshotKey(snapshot.id)]: await compress(
+        JSON.stringify({ data, meta }),
+      ),
+      [INDEX_KEY]: index,
+    });
+    this.#index = index;
+
+    if (removed.length) {
+      await this.#db.remove(removed.map(({ id }) => getSnapshotKey(id)));
+    }
+
+    return snapshot;
+  }
+
+  /**
+   * Gets a stored snapshot.
+   *
+   * @param id - The ID of the snapshot.
+   * @returns The snapshot, or undefined if it does not exist.
+   */
+  async get(id: string): Promise<StateSnapshot | undefined> {
+    const metadata = (await this.list()).find((snapshot) => snapshot.id === id);
+    if (!metadata) {
+      return undefined;
+    }
+
+    const [compressed] = await this.#db.get([getSnapshotKey(id)]);
+    if (!compressed) {
+      return undefined;
+    }
+
+    const { data, meta } = JSON.parse(
+      await decompress(compressed as ArrayBuffer),
+    );
+    return { ...metadata, data, meta };
+  }
+
+  /**
+   * Checks if a daily snapshot should be taken, which is the case if no daily
+   * snapshot was taken in the last `DAILY_STATE_SNAPSHOT_INTERVAL`.
+   */
+  async isDailySnapshotDue(): Promise<boolean> {
+    const lastDailySnapshot = (await this.list()).find(
+      ({ reason }) => reason === StateSnapshotReason.Daily,
+    );
+    return (
+      !lastDailySnapshot ||
+      Date.now() - lastDailySnapshot.createdAt >= DAILY_STATE_SNAPSHOT_INTERVAL
+    );
+  }
+
+  /**
+   * Removes all snapshots.
+   */
+  async reset(): Promise<void> {
+    await this.#db.reset();
+    this.#index = [];
+  }
+}
@@ -248,7 +248,7 @@ function generateCaveats(
   return caveatBuilder.build();
 }
 
-function getSlippage(
+export function getSlippage(
   messenger: TransactionControllerInitMessenger,
   transactionId: string,
 ): number {
@@ -1,4 +1,9 @@
-import { FunctionFragment, Interface, ParamType } from '@ethersproject/abi';
+import {
+  FunctionFragment,
+  Interface,
+  JsonFragment,
+  ParamType,
+} from '@ethersproject/abi';
 import { Hex, createProjectLogger } from '@metamask/utils';
 import {
   DecodedTransactionDataMethod,
@@ -38,6 +43,14 @@ export type SourcifyMetadata = {
   };
 };
 
+/**
+ * The ABI and NatSpec documentation of a contract used to decode transaction
+ * data, whether from Sourcify or imported by the user.
+ */
+export type ContractMetadata = Omit<SourcifyMetadata['output'], 'abi'> & {
+  abi: JsonFragment[];
+};
+
 export async function decodeTransactionDataWithSourcify(
   transactionData: Hex,
   contractAddress: Hex,
@@ -51,7 +64,22 @@ export async function decodeTransactionDataWithSourcify(
     metadata,
   });
 
-  const { abi } = metadata.output;
+  return decodeTransactionDataWithMetadata(transactionData, metadata.output);
+}
+
+/**
+ * Decodes transaction data using an ABI and optional NatSpec documentation,
+ * such as the output of the Solidity compiler.
+ *
+ * @param transactionData - The transaction data to decode.
+ * @param metadata - The ABI and documentation of the contract.
+ * @returns The decoded method, or undefined if not found in the ABI.
+ */
+export function decodeTransactionDataWithMetadata(
+  transactionData: Hex,
+  metadata: ContractMetadata,
+): DecodedTransactionDataMethod | undefined {
+  const { abi } = metadata;
   const contractInterface = new Interface(abi);
   const functionSignature = transactionData.slice(0, 10);
 
@@ -70,8 +98,8 @@ export async function decodeTransactionDataWithSourcify(
 
   const { name, inputs } = functionData;
   const signature = buildSignature(name, inputs);
-  const userDoc = metadata.output.userdoc?.methods[signature];
-  const devDoc = metadata.output.devdoc?.methods[signature];
+  const userDoc = metadata.userdoc?.methods[signature];
+  const devDoc = metadata.devdoc?.methods[signature];
   const description = userDoc?.notice ?? devDoc?.details;
 
   log('Extracted NatSpec', { signature, userDoc, devDoc });
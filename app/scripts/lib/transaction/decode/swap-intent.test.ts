@@ -0,0 +1,359 @@
+import { Interface } from '@ethersproject/abi';
+import { CHAIN_IDS } from '../../../../../shared/constants/network';
+import { NATIVE_TOKEN_ADDRESS } from '../../../../../shared/constants/transaction';
+import { SwapIntentProtocol } from '../../../../../shared/types/transaction-decode';
+import { TRANSACTION_DATA_UNISWAP } from '../../../../../test/data/confirmations/transaction-decode';
+import {
+  UNISWAP_UNIVERSAL_ROUTER_ADDRESSES,
+  UNISWAP_UNIVERSAL_ROUTER_V4_ADDRESSES,
+  decodeUniswapRouterTransactionData,
+} from './uniswap';
+import { UNISWAP_V4_ACTIONS } from './uniswap-commands';
+import {
+  decodeAggregatorSwapIntent,
+  getUniswapSwapIntent,
+} from './swap-intent';
+
+const WETH_ADDRESS = '0xc02aaa39b223fe8d0a0e5c4f27ead9083c756cc2';
+const USDC_ADDRESS = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const RECIPIENT_MOCK = '0x2e0d7e8c45221fca00d74a3609a0f7097035d09b';
+const ETH_ADDRESS = '0xEeeeeEeeeEeEeeEeEeEeeEEEeeeeEeeeeeeeEEeE';
+
+const ONE_INCH_ROUTER_V6 = '0x111111125421cA6dc452d289314280a0f8842A65';
+const ZERO_EX_EXCHANGE_PROXY = '0xDef1C0ded9bec7F1a1670819833240f027b25EfF';
+const ZERO_EX_ALLOWANCE_HOLDER = '0x0000000000001fF3684f28c67538d4D072C22734';
+const COW_SWAP_ETH_FLOW = '0xbA3cB449bD2B4ADddBc894D8697F5170800EAdeC';
+
+const UNIVERSAL_ROUTER_INTERFACE = new Interface([
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline)',
+]);
+
+function decodeUniswapIntent(transactionData: string, isV4Router = false) {
+  const addresses = isV4Router
+    ? UNISWAP_UNIVERSAL_ROUTER_V4_ADDRESSES
+    : UNISWAP_UNIVERSAL_ROUTER_ADDRESSES;
+
+  const commands = decodeUniswapRouterTransactionData({
+    transactionData,
+    contractAddress: addresses[CHAIN_IDS.MAINNET][0],
+    chainId: CHAIN_IDS.MAINNET,
+  });
+
+  return getUniswapSwapIntent(commands ?? []);
+}
+
+function encodeV4Swap(actions: [number, unknown[]][]) {
+  const abiCoder = Interface.getAbiCoder();
+
+  const actionBytes = `0x${actions
+    .map(([action]) => action.toString(16).padStart(2, '0'))
+    .join('')}`;
+
+  const params = actions.map(([action, values]) =>
+    abiCoder.encode(
+      UNISWAP_V4_ACTIONS[String(action) as keyof typeof UNISWAP_V4_ACTIONS]
+        .types,
+      values,
+    ),
+  );
+
+  return UNIVERSAL_ROUTER_INTERFACE.encodeFunctionData('execute', [
+    '0x10',
+    [abiCoder.encode(['bytes', 'bytes[]'], [actionBytes, params])],
+    1,
+  ]);
+}
+
+describe('Swap Intent', () => {
+  describe('getUniswapSwapIntent', () => {
+    it('returns undefined if no swap commands', () => {
+      expect(getUniswapSwapIntent([])).toBeUndefined();
+    });
+
+    it('combines wrap, swap and sweep commands', () => {
+      expect(decodeUniswapIntent(TRANSACTION_DATA_UNISWAP)).toStrictEqual({
+        protocol: SwapIntentProtocol.Uniswap,
+        tokenIn: NATIVE_TOKEN_ADDRESS,
+        tokenOut: USDC_ADDRESS,
+        amountIn: '100000000000000',
+        amountOutMin: '312344',
+        recipient: undefined,
+      });
+    });
+
+    it('returns recipient of V2 swap', () => {
+      const abiCoder = Interface.getAbiCoder();
+
+      const transactionData = UNIVERSAL_ROUTER_INTERFACE.encodeFunctionData(
+        'execute',
+        [
+          '0x08',
+          [
+            abiCoder.encode(
+              ['address', 'uint256', 'uint256', 'address[]', 'bool'],
+              [RECIPIENT_MOCK, 1000, 900, [USDC_ADDRESS, WETH_ADDRESS], true],
+            ),
+          ],
+          1,
+        ],
+      );
+
+      expect(decodeUniswapIntent(transactionData)).toStrictEqual({
+        protocol: SwapIntentProtocol.Uniswap,
+        tokenIn: USDC_ADDRESS,
+        tokenOut: WETH_ADDRESS,
+        amountIn: '1000',
+        amountOutMin: '900',
+        recipient: RECIPIENT_MOCK,
+      });
+    });
+
+    it('returns native output and recipient if unwrapped', () => {
+      const abiCoder = Interface.getAbiCoder();
+
+      const transactionData = UNIVERSAL_ROUTER_INTERFACE.encodeFunctionData(
+        'execute',
+        [
+          '0x080c',
+          [
+            abiCoder.encode(
+              ['address', 'uint256', 'uint256', 'address[]', 'bool'],
+              [
+                '0x0000000000000000000000000000000000000002',
+                1000,
+                900,
+                [USDC_ADDRESS, WETH_ADDRESS],
+                true,
+              ],
+            ),
+            abiCoder.encode(['address', 'uint256'], [RECIPIENT_MOCK, 950]),
+          ],
+          1,
+        ],
+      );
+
+      expect(decodeUniswapIntent(transactionData)).toStrictEqual({
+        protocol: SwapIntentProtocol.Uniswap,
+        tokenIn: USDC_ADDRESS,
+        tokenOut: NATIVE_TOKEN_ADDRESS,
+        amountIn: '1000',
+        amountOutMin: '950',
+        recipient: RECIPIENT_MOCK,
+      });
+    });
+
+    it('returns V4 single swap with take recipient', () => {
+      const transactionData = encodeV4Swap([
+        [
+          6,
+          [
+            {
+              poolKey: {
+                currency0: NATIVE_TOKEN_ADDRESS,
+                currency1: USDC_ADDRESS,
+                fee: 500,
+                tickSpacing: 10,
+                hooks: NATIVE_TOKEN_ADDRESS,
+              },
+              zeroForOne: true,
+              amountIn: 1000,
+              amountOutMinimum: 900,
+              hookData: '0x',
+            },
+          ],
+        ],
+        [14, [USDC_ADDRESS, RECIPIENT_MOCK, 0]],
+      ]);
+
+      expect(decodeUniswapIntent(transactionData, true)).toStrictEqual({
+        protocol: SwapIntentProtocol.Uniswap,
+        tokenIn: NATIVE_TOKEN_ADDRESS,
+        tokenOut: USDC_ADDRESS,
+        amountIn: '1000',
+        amountOutMin: '900',
+        recipient: RECIPIENT_MOCK,
+      });
+    });
+
+    it('returns V4 exact output swap taken by sender', () => {
+      const transactionData = encodeV4Swap([
+        [
+          9,
+          [
+            {
+              currencyOut: WETH_ADDRESS,
+              path: [
+                {
+                  intermediateCurrency: USDC_ADDRESS,
+                  fee: 500,
+                  tickSpacing: 10,
+                  hooks: NATIVE_TOKEN_ADDRESS,
+                  hookData: '0x',
+                },
+              ],
+              amountOut: 900,
+              amountInMaximum: 1000,
+            },
+          ],
+        ],
+        [15, [WETH_ADDRESS, 900]],
+      ]);
+
+      expect(decodeUniswapIntent(transactionData, true)).toStrictEqual({
+        protocol: SwapIntentProtocol.Uniswap,
+        tokenIn: USDC_ADDRESS,
+        tokenOut: WETH_ADDRESS,
+        amountIn: '1000',
+        amountOutMin: '900',
+        recipient: undefined,
+      });
+    });
+  });
+
+  describe('decodeAggregatorSwapIntent', () => {
+    it('returns undefined if contract not supported', () => {
+      expect(
+        decodeAggregatorSwapIntent({
+          transactionData: TRANSACTION_DATA_UNISWAP,
+          contractAddress: '0x123',
+        }),
+      ).toBeUndefined();
+    });
+
+    it('returns undefined if data not supported', () => {
+      expect(
+        decodeAggregatorSwapIntent({
+          transactionData: '0x12345678',
+          contractAddress: ONE_INCH_ROUTER_V6,
+        }),
+      ).toBeUndefined();
+    });
+
+    it('returns 1inch swap', () => {
+      const transactionData = new Interface([
+        'function swap(address executor, tuple(address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc, bytes data)',
+      ]).encodeFunctionData('swap', [
+        RECIPIENT_MOCK,
+        {
+          srcToken: ETH_ADDRESS,
+          dstToken: USDC_ADDRESS,
+          srcReceiver: RECIPIENT_MOCK,
+          dstReceiver: RECIPIENT_MOCK,
+          amount: 1000,
+          minReturnAmount: 900,
+          flags: 0,
+        },
+        '0x',
+      ]);
+
+      expect(
+        decodeAggregatorSwapIntent({
+          transactionData,
+          contractAddress: ONE_INCH_ROUTER_V6,
+        }),
+      ).toStrictEqual({
+        protocol: SwapIntentProtocol.OneInch,
+        tokenIn: NATIVE_TOKEN_ADDRESS,
+        tokenOut: USDC_ADDRESS,
+        amountIn: '1000',
+        amountOutMin: '900',
+        recipient: RECIPIENT_MOCK,
+      });
+    });
+
+    it('returns 0x exchange proxy swap', () => {
+      const transactionData = new Interface([
+        'function transformERC20(address inputToken, address outputToken, uint256 inputTokenAmount, uint256 minOutputTokenAmount, tuple(uint32 deploymentNonce, bytes data)[] transformations)',
+      ]).encodeFunctionData('transformERC20', [
+        USDC_ADDRESS,
+        ETH_ADDRESS,
+        1000,
+        900,
+        [],
+      ]);
+
+      expect(
+        decodeAggregatorSwapIntent({
+          transactionData,
+          contractAddress: ZERO_EX_EXCHANGE_PROXY,
+        }),
+      ).toStrictEqual({
+        protocol: SwapIntentProtocol.ZeroEx,
+        tokenIn: USDC_ADDRESS,
+        tokenOut: NATIVE_TOKEN_ADDRESS,
+        amountIn: '1000',
+        amountOutMin: '900',
+      });
+    });
+
+    it('returns 0x allowance holder swap', () => {
+      const settlerData = new Interface([
+        'function execute(tuple(address recipient, address buyToken, uint256 minAmountOut) slippage, bytes[] actions, bytes32 zidAndAffiliate)',
+      ]).encodeFunctionData('execute', [
+        {
+          recipient: RECIPIENT_MOCK,
+          buyToken: WETH_ADDRESS,
+          minAmountOut: 900,
+        },
+        [],
+        `0x${'0'.repeat(64)}`,
+      ]);
+
+      const transactionData = new Interface([
+        'function exec(address operator, address token, uint256 amount, address target, bytes data)',
+      ]).encodeFunctionData('exec', [
+        RECIPIENT_MOCK,
+        USDC_ADDRESS,
+        1000,
+        RECIPIENT_MOCK,
+        settlerData,
+      ]);
+
+      expect(
+        decodeAggregatorSwapIntent({
+          transactionData,
+          contractAddress: ZERO_EX_ALLOWANCE_HOLDER,
+        }),
+      ).toStrictEqual({
+        protocol: SwapIntentProtocol.ZeroEx,
+        tokenIn: USDC_ADDRESS,
+        tokenOut: WETH_ADDRESS,
+        amountIn: '1000',
+        amountOutMin: '900',
+        recipient: RECIPIENT_MOCK,
+      });
+    });
+
+    it('returns CoW Swap ETH flow order', () => {
+      const transactionData = new Interface([
+        'function createOrder(tuple(address buyToken, address receiver, uint256 sellAmount, uint256 buyAmount, bytes32 appData, uint256 feeAmount, uint32 validTo, bool partiallyFillable, int64 quoteId) order)',
+      ]).encodeFunctionData('createOrder', [
+        {
+          buyToken: USDC_ADDRESS,
+          receiver: NATIVE_TOKEN_ADDRESS,
+          sellAmount: 990,
+          buyAmount: 900,
+          appData: `0x${'0'.repeat(64)}`,
+          feeAmount: 10,
+          validTo: 1,
+          partiallyFillable: false,
+          quoteId: 1,
+        },
+      ]);
+
+      expect(
+        decodeAggregatorSwapIntent({
+          transactionData,
+          contractAddress: COW_SWAP_ETH_FLOW,
+        }),
+      ).toStrictEqual({
+        protocol: SwapIntentProtocol.CowSwap,
+        tokenIn: NATIVE_TOKEN_ADDRESS,
+        tokenOut: USDC_ADDRESS,
+        amountIn: '1000',
+        amountOutMin: '900',
+        recipient: undefined,
+      });
+    });
+  });
+});
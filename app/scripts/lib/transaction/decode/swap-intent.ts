@@ -0,0 +1,554 @@
+import { Interface, Result, TransactionDescription } from '@ethersproject/abi';
+import type { BigNumber as EthersBigNumber } from '@ethersproject/bignumber';
+import { Hex } from '@metamask/utils';
+import { BigNumber } from 'bignumber.js';
+import { NATIVE_TOKEN_ADDRESS } from '../../../../../shared/constants/transaction';
+import {
+  DecodedTransactionDataSwapIntent,
+  SwapIntentProtocol,
+} from '../../../../../shared/types/transaction-decode';
+import { UniswapPathPool, UniswapRouterCommand } from './uniswap';
+import { UNISWAP_V4_ACTIONS } from './uniswap-commands';
+
+type Swap = Omit<DecodedTransactionDataSwapIntent, 'protocol' | 'recipient'> & {
+  recipient?: string;
+};
+
+// Decoded values of the Universal Router command parameters, by name.
+type CommandParams = Record<string, Result[string]>;
+
+// Special recipients supported by the Universal Router.
+const RECIPIENT_MSG_SENDER = '0x0000000000000000000000000000000000000001';
+const RECIPIENT_ADDRESS_THIS = '0x0000000000000000000000000000000000000002';
+
+// Used by aggregators to represent the native token.
+const ETH_ADDRESS = '0xeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeeee';
+
+// Used as the input amount to swap the full balance of the router.
+const CONTRACT_BALANCE = new BigNumber(2).pow(255).toString(10);
+
+const ONE_INCH_ROUTER_ADDRESSES = [
+  '0x1111111254EEB25477B68fb85Ed929f73A960582',
+  '0x111111125421cA6dc452d289314280a0f8842A65',
+];
+
+const ZERO_EX_EXCHANGE_PROXY_ADDRESSES = [
+  '0xDef1C0ded9bec7F1a1670819833240f027b25EfF',
+  '0xDEF1ABE32c034e558Cdd535791643C58a13aCC10',
+];
+
+const ZERO_EX_ALLOWANCE_HOLDER_ADDRESSES = [
+  '0x0000000000001fF3684f28c67538d4D072C22734',
+  '0x0000000000005E88410CcDFaDe4a5EfaE4b49562',
+];
+
+const COW_SWAP_ETH_FLOW_ADDRESSES = [
+  '0xbA3cB449bD2B4ADddBc894D8697F5170800EAdeC',
+  '0x04501b9b1D52e67f6862d157E00D13419D2D6E95',
+];
+
+const SWAP_DESCRIPTION =
+  'tuple(address srcToken, address dstToken, address srcReceiver, address dstReceiver, uint256 amount, uint256 minReturnAmount, uint256 flags) desc';
+
+const ONE_INCH_ABI = [
+  `function swap(address executor, ${SWAP_DESCRIPTION}, bytes permit, bytes data)`,
+  `function swap(address executor, ${SWAP_DESCRIPTION}, bytes data)`,
+];
+
+const ZERO_EX_EXCHANGE_PROXY_ABI = [
+  'function transformERC20(address inputToken, address outputToken, uint256 inputTokenAmount, uint256 minOutputTokenAmount, tuple(uint32 deploymentNonce, bytes data)[] transformations)',
+  'function sellToUniswap(address[] tokens, uint256 sellAmount, uint256 minBuyAmount, bool isSushi)',
+];
+
+const ZERO_EX_ALLOWANCE_HOLDER_ABI = [
+  'function exec(address operator, address token, uint256 amount, address target, bytes data)',
+];
+
+const ZERO_EX_SETTLER_ABI = [
+  'function execute(tuple(address recipient, address buyToken, uint256 minAmountOut) slippage, bytes[] actions, bytes32 zidAndAffiliate)',
+];
+
+const COW_SWAP_ETH_FLOW_ABI = [
+  'function createOrder(tuple(address buyToken, address receiver, uint256 sellAmount, uint256 buyAmount, bytes32 appData, uint256 feeAmount, uint32 validTo, bool partiallyFillable, int64 quoteId) order)',
+];
+
+/**
+ * Derives the outcome of a swap from the calldata of a known aggregator or
+ * settlement contract.
+ *
+ * @param request - The request object.
+ * @param request.transactionData - The calldata of the transaction.
+ * @param request.contractAddress - The address of the contract called.
+ * @returns The swap intent, or undefined if the contract is not supported.
+ */
+export function decodeAggregatorSwapIntent({
+  transactionData,
+  contractAddress,
+}: {
+  transactionData: string;
+  contractAddress: string;
+}): DecodedTransactionDataSwapIntent | undefined {
+  if (includesAddress(ONE_INCH_ROUTER_ADDRESSES, contractAddress)) {
+    return decodeOneInchSwapIntent(transactionData);
+  }
+
+  if (includesAddress(ZERO_EX_EXCHANGE_PROXY_ADDRESSES, contractAddress)) {
+    return decodeZeroExExchangeProxySwapIntent(transactionData);
+  }
+
+  if (includesAddress(ZERO_EX_ALLOWANCE_HOLDER_ADDRESSES, contractAddress)) {
+    return decodeZeroExAllowanceHolderSwapIntent(transactionData);
+  }
+
+  if (includesAddress(COW_SWAP_ETH_FLOW_ADDRESSES, contractAddress)) {
+    return decodeCowSwapEthFlowSwapIntent(transactionData);
+  }
+
+  return undefined;
+}
+
+/**
+ * Derives the outcome of a swap from the decoded Universal Router commands,
+ * combining any wraps, swaps and sweeps into a single input and output.
+ *
+ * Permit2 permits included in the commands are out of scope, as they only
+ * authorise the router to transfer tokens rather than changing the outcome of
+ * the swap. They are still displayed with the other decoded commands.
+ *
+ * @param commands - The decoded Universal Router commands.
+ * @returns The swap intent, or undefined if there are no swap commands.
+ */
+export function getUniswapSwapIntent(
+  commands: UniswapRouterCommand[],
+): DecodedTransactionDataSwapIntent | undefined {
+  const swaps: Swap[] = [];
+  let wrapAmount: string | undefined;
+  let unwrap: { recipient: string; amountMin: string } | undefined;
+  let sweep:
+    | { token: string; recipient: string; amountMin: string }
+    | undefined;
+
+  for (const command of commands) {
+    const params = getCommandParams(command);
+
+    switch (command.name) {
+      case 'WRAP_ETH':
+        wrapAmount = toDecimal(params.amountMin);
+        break;
+
+      case 'UNWRAP_WETH':
+        unwrap = {
+          recipient: params.recipient,
+          amountMin: toDecimal(params.amountMin),
+        };
+        break;
+
+      case 'SWEEP':
+        sweep = {
+          token: params.token,
+          recipient: params.recipient,
+          amountMin: toDecimal(params.amountMin),
+        };
+        break;
+
+      case 'V2_SWAP_EXACT_IN':
+      case 'V2_SWAP_EXACT_OUT':
+      case 'V3_SWAP_EXACT_IN':
+      case 'V3_SWAP_EXACT_OUT':
+        swaps.push(getRouterSwap(command.name, params));
+        break;
+
+      case 'V4_SWAP':
+        swaps.push(...getV4Swaps(params.actions, params.params));
+        break;
+
+      default:
+        break;
+    }
+  }
+
+  const swap = combineSwaps(swaps);
+
+  if (!swap) {
+    return undefined;
+  }
+
+  let { tokenIn, tokenOut, amountIn, amountOutMin, recipient } = swap;
+
+  if (wrapAmount !== undefined) {
+    tokenIn = NATIVE_TOKEN_ADDRESS;
+
+    if (!amountIn || amountIn === CONTRACT_BALANCE) {
+      amountIn = wrapAmount;
+    }
+  }
+
+  if (amountIn === CONTRACT_BALANCE) {
+    amountIn = undefined;
+  }
+
+  // The output is held by the router until it is unwrapped or swept.
+  if (isAddressEqual(recipient, RECIPIENT_ADDRESS_THIS)) {
+    const output =
+      unwrap ?? (isAddressEqual(sweep?.token, tokenOut) ? sweep : undefined);
+
+    if (unwrap) {
+      tokenOut = NATIVE_TOKEN_ADDRESS;
+    }
+
+    recipient = output?.recipient;
+
+    if (
+      output &&
+      new BigNumber(output.amountMin).greaterThan(amountOutMin ?? 0)
+    ) {
+      amountOutMin = output.amountMin;
+    }
+  }
+
+  return {
+    protocol: SwapIntentProtocol.Uniswap,
+    tokenIn,
+    tokenOut,
+    amountIn,
+    amountOutMin,
+    recipient: normalizeRecipient(recipient),
+  };
+}
+
+function getRouterSwap(name: string, params: CommandParams): Swap {
+  const isExactOut = name.endsWith('EXACT_OUT');
+  let tokens: string[];
+
+  if (name.startsWith('V3')) {
+    const pools = params.path as UniswapPathPool[];
+
+    tokens = [
+      pools[0]?.firstAddress,
+      ...pools.map((pool) => pool.secondAddress),
+    ];
+
+    // V3 paths for exact output swaps start with the output token.
+    if (isExactOut) {
+      tokens.reverse();
+    }
+  } else {
+    tokens = params.path as string[];
+  }
+
+  return {
+    tokenIn: normalizeToken(tokens[0]),
+    tokenOut: normalizeToken(tokens[tokens.length - 1]),
+    amountIn: toDecimal(isExactOut ? params.amountInMax : params.amountIn),
+    amountOutMin: toDecimal(
+      isExactOut ? params.amountOut : params.amountOutMin,
+    ),
+    recipient: params.recipient,
+  };
+}
+
+function getV4Swaps(actions: string, actionParams: string[]): Swap[] {
+  const abiCoder = Interface.getAbiCoder();
+  const swaps: Swap[] = [];
+  const takes: { currency: string; recipient: string }[] = [];
+  const actionBytes = actions.slice(2).match(/.{1,2}/gu) ?? [];
+
+  actionBytes.forEach((actionByte, index) => {
+    const action =
+      UNISWAP_V4_ACTIONS[
+        String(parseInt(actionByte, 16)) as keyof typeof UNISWAP_V4_ACTIONS
+      ];
+
+    if (!action) {
+      return;
+    }
+
+    const values = abiCoder.decode(action.types, actionParams[index]);
+
+    switch (action.name) {
+      case 'SWAP_EXACT_IN_SINGLE':
+      case 'SWAP_EXACT_OUT_SINGLE': {
+        const [{ poolKey, zeroForOne, ...params }] = values;
+        const { currency0, currency1 } = poolKey;
+        const isExactOut = action.name === 'SWAP_EXACT_OUT_SINGLE';
+
+        swaps.push({
+          tokenIn: normalizeToken(zeroForOne ? currency0 : currency1),
+          tokenOut: normalizeToken(zeroForOne ? currency1 : currency0),
+          amountIn: toDecimal(
+            isExactOut ? params.amountInMaximum : params.amountIn,
+          ),
+          amountOutMin: toDecimal(
+            isExactOut ? params.amountOut : params.amountOutMinimum,
+          ),
+        });
+        break;
+      }
+
+      case 'SWAP_EXACT_IN': {
+        const [params] = values;
+        const lastKey = params.path[params.path.length - 1];
+
+        swaps.push({
+          tokenIn: normalizeToken(params.currencyIn),
+          tokenOut: normalizeToken(lastKey?.intermediateCurrency),
+          amountIn: toDecimal(params.amountIn),
+          amountOutMin: toDecimal(params.amountOutMinimum),
+        });
+        break;
+      }
+
+      case 'SWAP_EXACT_OUT': {
+        const [params] = values;
+
+        // Exact output paths are traversed from the output to the input.
+        swaps.push({
+          tokenIn: normalizeToken(params.path[0]?.intermediateCurrency),
+          tokenOut: normalizeToken(params.currencyOut),
+          amountIn: toDecimal(params.amountInMaximum),
+          amountOutMin: toDecimal(params.amountOut),
+        });
+        break;
+      }
+
+      case 'TAKE':
+        takes.push({ currency: values.currency, recipient: values.recipient });
+        break;
+
+      case 'TAKE_ALL':
+        takes.push({
+          currency: values.currency,
+          recipient: RECIPIENT_MSG_SENDER,
+        });
+        break;
+
+      default:
+        break;
+    }
+  });
+
+  return swaps.map((swap) => ({
+    ...swap,
+    recipient: takes.find((take) =>
+      isAddressEqual(normalizeToken(take.currency), swap.tokenOut),
+    )?.recipient,
+  }));
+}
+
+/**
+ * Combine swaps split across multiple pools with the same input and output,
+ * or chained swaps where the output of one is the input of the next.
+ *
+ * @param swaps - The swaps in the order they are executed.
+ * @returns The combined swap.
+ */
+function combineSwaps(swaps: Swap[]): Swap | undefined {
+  if (!swaps.length) {
+    return undefined;
+  }
+
+  const [firstSwap] = swaps;
+  const lastSwap = swaps[swaps.length - 1];
+
+  const isSplit = swaps.every(
+    (swap) =>
+      isAddressEqual(swap.tokenIn, firstSwap.tokenIn) &&
+      isAddressEqual(swap.tokenOut, firstSwap.tokenOut),
+  );
+
+  if (!isSplit) {
+    return {
+      ...lastSwap,
+      tokenIn: firstSwap.tokenIn,
+      amountIn: firstSwap.amountIn,
+    };
+  }
+
+  return {
+    ...lastSwap,
+    amountIn: sumAmounts(swaps.map((swap) => swap.amountIn)),
+    amountOutMin: sumAmounts(swaps.map((swap) => swap.amountOutMin)),
+  };
+}
+
+function decodeOneInchSwapIntent(
+  transactionData: string,
+): DecodedTransactionDataSwapIntent | undefined {
+  const transaction = parseTransaction(ONE_INCH_ABI, transactionData);
+
+  if (transaction?.name !== 'swap') {
+    return undefined;
+  }
+
+  const { desc } = transaction.args;
+
+  return {
+    protocol: SwapIntentProtocol.OneInch,
+    tokenIn: normalizeToken(desc.srcToken),
+    tokenOut: normalizeToken(desc.dstToken),
+    amountIn: toDecimal(desc.amount),
+    amountOutMin: toDecimal(desc.minReturnAmount),
+    recipient: normalizeRecipient(desc.dstReceiver),
+  };
+}
+
+function decodeZeroExExchangeProxySwapIntent(
+  transactionData: string,
+): DecodedTransactionDataSwapIntent | undefined {
+  const transaction = parseTransaction(
+    ZERO_EX_EXCHANGE_PROXY_ABI,
+    transactionData,
+  );
+
+  if (transaction?.name === 'transformERC20') {
+    const { args } = transaction;
+
+    return {
+      protocol: SwapIntentProtocol.ZeroEx,
+      tokenIn: normalizeToken(args.inputToken),
+      tokenOut: normalizeToken(args.outputToken),
+      amountIn: toDecimal(args.inputTokenAmount),
+      amountOutMin: toDecimal(args.minOutputTokenAmount),
+    };
+  }
+
+  if (transaction?.name === 'sellToUniswap') {
+    const { args } = transaction;
+
+    return {
+      protocol: SwapIntentProtocol.ZeroEx,
+      tokenIn: normalizeToken(args.tokens[0]),
+      tokenOut: normalizeToken(args.tokens[args.tokens.length - 1]),
+      amountIn: toDecimal(args.sellAmount),
+      amountOutMin: toDecimal(args.minBuyAmount),
+    };
+  }
+
+  return undefined;
+}
+
+function decodeZeroExAllowanceHolderSwapIntent(
+  transactionData: string,
+): DecodedTransactionDataSwapIntent | undefined {
+  const transaction = parseTransaction(
+    ZERO_EX_ALLOWANCE_HOLDER_ABI,
+    transactionData,
+  );
+
+  if (transaction?.name !== 'exec') {
+    return undefined;
+  }
+
+  const settlerTransaction = parseTransaction(
+    ZERO_EX_SETTLER_ABI,
+    transaction.args.data,
+  );
+
+  if (settlerTransaction?.name !== 'execute') {
+    return undefined;
+  }
+
+  const { slippage } = settlerTransaction.args;
+
+  return {
+    protocol: SwapIntentProtocol.ZeroEx,
+    tokenIn: normalizeToken(transaction.args.token),
+    tokenOut: normalizeToken(slippage.buyToken),
+    amountIn: toDecimal(transaction.args.amount),
+    amountOutMin: toDecimal(slippage.minAmountOut),
+    recipient: normalizeRecipient(slippage.recipient),
+  };
+}
+
+function decodeCowSwapEthFlowSwapIntent(
+  transactionData: string,
+): DecodedTransactionDataSwapIntent | undefined {
+  const transaction = parseTransaction(COW_SWAP_ETH_FLOW_ABI, transactionData);
+
+  if (transaction?.name !== 'createOrder') {
+    return undefined;
+  }
+
+  const { order } = transaction.args;
+
+  return {
+    protocol: SwapIntentProtocol.CowSwap,
+    tokenIn: NATIVE_TOKEN_ADDRESS,
+    tokenOut: normalizeToken(order.buyToken),
+    amountIn: new BigNumber(order.sellAmount.toString())
+      .plus(order.feeAmount.toString())
+      .toString(10),
+    amountOutMin: toDecimal(order.buyAmount),
+    recipient: normalizeRecipient(order.receiver),
+  };
+}
+
+function parseTransaction(
+  abi: string[],
+  transactionData: string,
+): TransactionDescription | undefined {
+  try {
+    return new Interface(abi).parseTransaction({ data: transactionData });
+  } catch {
+    return undefined;
+  }
+}
+
+function getCommandParams(command: UniswapRouterCommand): CommandParams {
+  return Object.fromEntries(
+    command.params.map((param) => [param.name, param.value]),
+  );
+}
+
+function normalizeToken(token: string | undefined): Hex {
+  const address = (token ?? NATIVE_TOKEN_ADDRESS).toLowerCase();
+  return (address === ETH_ADDRESS ? NATIVE_TOKEN_ADDRESS : address) as Hex;
+}
+
+// Recipients that resolve to the sender of the transaction are omitted.
+function normalizeRecipient(recipient: string | undefined): Hex | undefined {
+  if (
+    !recipient ||
+    isAddressEqual(recipient, NATIVE_TOKEN_ADDRESS) ||
+    isAddressEqual(recipient, RECIPIENT_MSG_SENDER)
+  ) {
+    return undefined;
+  }
+
+  return recipient.toLowerCase() as Hex;
+}
+
+function toDecimal(
+  value: EthersBigNumber | string | undefined,
+): string | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+
+  const decimal = new BigNumber(value.toString()).toString(10);
+
+  return decimal === '0' ? undefined : decimal;
+}
+
+function sumAmounts(amounts: (string | undefined)[]): string | undefined {
+  if (amounts.some((amount) => amount === undefined)) {
+    return undefined;
+  }
+
+  return amounts
+    .reduce((total, amount) => total.plus(amount as string), new BigNumber(0))
+    .toString(10);
+}
+
+function includesAddress(addresses: string[], address: string): boolean {
+  return addresses.some((item) => isAddressEqual(item, address));
+}
+
+function isAddressEqual(
+  first: string | undefined,
+  second: string | undefined,
+): boolean {
+  return Boolean(
+    first && second && first.toLowerCase() === second.toLowerCase(),
+  );
+}
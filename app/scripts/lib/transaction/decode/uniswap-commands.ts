@@ -608,3 +608,77 @@ export const UNISWAP_ROUTER_COMMANDS = {
     ],
   },
 };
+
+/**
+ * Commands of the Universal Router supporting Uniswap V4, which replaces the
+ * NFT marketplace commands with V4 and position manager commands.
+ */
+export const UNISWAP_V4_ROUTER_COMMANDS = {
+  '0': UNISWAP_ROUTER_COMMANDS['0'],
+  '1': UNISWAP_ROUTER_COMMANDS['1'],
+  '2': UNISWAP_ROUTER_COMMANDS['2'],
+  '3': UNISWAP_ROUTER_COMMANDS['3'],
+  '4': UNISWAP_ROUTER_COMMANDS['4'],
+  '5': UNISWAP_ROUTER_COMMANDS['5'],
+  '6': UNISWAP_ROUTER_COMMANDS['6'],
+  '8': UNISWAP_ROUTER_COMMANDS['8'],
+  '9': UNISWAP_ROUTER_COMMANDS['9'],
+  '10': UNISWAP_ROUTER_COMMANDS['10'],
+  '11': UNISWAP_ROUTER_COMMANDS['11'],
+  '12': UNISWAP_ROUTER_COMMANDS['12'],
+  '13': UNISWAP_ROUTER_COMMANDS['13'],
+  '16': {
+    name: 'V4_SWAP',
+    params: [
+      {
+        type: 'bytes',
+        description: 'The V4 router actions to execute, one byte each',
+        name: 'actions',
+      },
+      {
+        type: 'bytes[]',
+        description: 'The encoded parameters of each action',
+        name: 'params',
+      },
+    ],
+  },
+};
+
+/**
+ * Encoded parameters of the V4 router actions that determine the outcome of a
+ * swap, keyed by action byte.
+ */
+export const UNISWAP_V4_ACTIONS = {
+  '6': {
+    name: 'SWAP_EXACT_IN_SINGLE',
+    types: [
+      'tuple(tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 amountIn, uint128 amountOutMinimum, bytes hookData)',
+    ],
+  },
+  '7': {
+    name: 'SWAP_EXACT_IN',
+    types: [
+      'tuple(address currencyIn, tuple(address intermediateCurrency, uint24 fee, int24 tickSpacing, address hooks, bytes hookData)[] path, uint128 amountIn, uint128 amountOutMinimum)',
+    ],
+  },
+  '8': {
+    name: 'SWAP_EXACT_OUT_SINGLE',
+    types: [
+      'tuple(tuple(address currency0, address currency1, uint24 fee, int24 tickSpacing, address hooks) poolKey, bool zeroForOne, uint128 amountOut, uint128 amountInMaximum, bytes hookData)',
+    ],
+  },
+  '9': {
+    name: 'SWAP_EXACT_OUT',
+    types: [
+      'tuple(address currencyOut, tuple(address intermediateCurrency, uint24 fee, int24 tickSpacing, address hooks, bytes hookData)[] path, uint128 amountOut, uint128 amountInMaximum)',
+    ],
+  },
+  '14': {
+    name: 'TAKE',
+    types: ['address currency', 'address recipient', 'uint256 amount'],
+  },
+  '15': {
+    name: 'TAKE_ALL',
+    types: ['address currency', 'uint256 minAmount'],
+  },
+};
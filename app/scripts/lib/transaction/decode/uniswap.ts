@@ -3,7 +3,10 @@ import { Hex } from '@metamask/utils';
 
 import { decodeCommandV3Path } from '../../../../../shared/modules/decoding';
 import { CHAIN_IDS } from '../../../../../shared/constants/network';
-import { UNISWAP_ROUTER_COMMANDS } from './uniswap-commands';
+import {
+  UNISWAP_ROUTER_COMMANDS,
+  UNISWAP_V4_ROUTER_COMMANDS,
+} from './uniswap-commands';
 
 export type UniswapRouterCommand = {
   name: string;
@@ -60,6 +63,21 @@ export const UNISWAP_UNIVERSAL_ROUTER_ADDRESSES = {
   [CHAIN_IDS.SEPOLIA]: ['0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD'],
 } as Record<string, string[]>;
 
+export const UNISWAP_UNIVERSAL_ROUTER_V4_ADDRESSES = {
+  [CHAIN_IDS.ARBITRUM]: ['0xA51afAFe0263b40EdaEf0Df8781eA9aa03E381a3'],
+  [CHAIN_IDS.AVALANCHE]: ['0x94b75331AE8d42C1b61065089B7d48FE14aA73b7'],
+  [CHAIN_IDS.BASE]: ['0x6fF5693b99212Da76ad316178A184AB56D299b43'],
+  [CHAIN_IDS.BSC]: ['0x1906c1d672b88cD1B9aC7593301cA990F94Eae07'],
+  [CHAIN_IDS.MAINNET]: ['0x66a9893cC07D91D95644AEDD05D03f95e1dBA8Af'],
+  [CHAIN_IDS.OPTIMISM]: ['0x851116D9223fabED8E56C0E6b8Ad0c31d98B3507'],
+  [CHAIN_IDS.POLYGON]: ['0x1095692A6237d83C6a72F3F5eFEdb9A670C49223'],
+  [CHAIN_IDS.SEPOLIA]: ['0x3A9D48AB9751398BbFa63ad67599Bb04e4BdF98b'],
+} as Record<string, string[]>;
+
+// The V4 router supports more commands, so uses an additional bit.
+const COMMAND_MASK = 0b11111;
+const COMMAND_MASK_V4 = 0b111111;
+
 const ABI = [
   {
     constant: true,
@@ -106,12 +124,19 @@ export function decodeUniswapRouterTransactionData({
   contractAddress: string;
   chainId: string;
 }): UniswapRouterCommand[] | undefined {
-  const supportedAddresses = UNISWAP_UNIVERSAL_ROUTER_ADDRESSES[chainId];
+  const isV4Router = isRouterAddress(
+    UNISWAP_UNIVERSAL_ROUTER_V4_ADDRESSES,
+    contractAddress,
+    chainId,
+  );
 
   if (
-    !supportedAddresses
-      ?.map((address) => address.toLowerCase())
-      .includes(contractAddress.toLowerCase())
+    !isV4Router &&
+    !isRouterAddress(
+      UNISWAP_UNIVERSAL_ROUTER_ADDRESSES,
+      contractAddress,
+      chainId,
+    )
   ) {
     return undefined;
   }
@@ -133,22 +158,41 @@ export function decodeUniswapRouterTransactionData({
   const commandBytes = commands.slice(2).match(/.{1,2}/gu) as string[];
 
   return commandBytes
-    .map((commandByte, i) => decodeUniswapCommand(commandByte, inputs[i]))
+    .map((commandByte, i) =>
+      decodeUniswapCommand(commandByte, inputs[i], isV4Router),
+    )
     .filter((command) => command !== undefined) as UniswapRouterCommand[];
 }
 
+function isRouterAddress(
+  addresses: Record<string, string[]>,
+  contractAddress: string,
+  chainId: string,
+): boolean {
+  return Boolean(
+    addresses[chainId]
+      ?.map((address) => address.toLowerCase())
+      .includes(contractAddress.toLowerCase()),
+  );
+}
+
 function decodeUniswapCommand(
   commandByte: string,
   input: string,
+  isV4Router: boolean,
 ): UniswapRouterCommand | undefined {
   const commandValue = parseInt(commandByte, 16);
+  const commands = isV4Router
+    ? UNISWAP_V4_ROUTER_COMMANDS
+    : UNISWAP_ROUTER_COMMANDS;
+
   // eslint-disable-next-line no-bitwise
-  const commandIndex = commandValue & 0b11111;
+  const commandIndex =
+    commandValue & (isV4Router ? COMMAND_MASK_V4 : COMMAND_MASK);
 
-  const data =
-    UNISWAP_ROUTER_COMMANDS[
-      String(commandIndex) as keyof typeof UNISWAP_ROUTER_COMMANDS
-    ];
+  const data: Omit<UniswapRouterCommand, 'params'> & {
+    params: Omit<UniswapRouterCommand['params'][number], 'value'>[];
+  } = commands[String(commandIndex) as keyof typeof commands];
 
   if (!data) {
     return undefined;
@@ -162,7 +206,10 @@ function decodeUniswapCommand(
   const params = data.params.map((param, index) => {
     const { name: paramName, type, description } = param;
     const rawData = values[index];
-    const value = paramName === 'path' ? decodeCommandV3Path(rawData) : rawData;
+    const value =
+      paramName === 'path' && type === 'bytes'
+        ? decodeCommandV3Path(rawData)
+        : rawData;
 
     return { name: paramName, type, value, description };
   });
@@ -7,21 +7,44 @@ import {
   TRANSACTION_DECODE_SOURCIFY,
   TRANSACTION_DECODE_UNISWAP,
 } from '../../../../../test/data/confirmations/transaction-decode';
+import {
+  DecodedTransactionDataSource,
+  DecodedTransactionDataSwapIntent,
+  SwapIntentProtocol,
+} from '../../../../../shared/types/transaction-decode';
 import { decodeUniswapRouterTransactionData } from './uniswap';
 import { decodeTransactionData } from './util';
-import { decodeTransactionDataWithSourcify } from './sourcify';
+import {
+  decodeTransactionDataWithMetadata,
+  decodeTransactionDataWithSourcify,
+} from './sourcify';
 import { decodeTransactionDataWithFourByte } from './four-byte';
 import { getContractProxyAddress } from './proxy';
+import {
+  decodeAggregatorSwapIntent,
+  getUniswapSwapIntent,
+} from './swap-intent';
 
 jest.mock('./uniswap');
+jest.mock('./swap-intent');
 jest.mock('./sourcify');
 jest.mock('./four-byte');
 jest.mock('./proxy');
 
 const CONTRACT_ADDRESS_MOCK = '0x456';
+const PROXY_ADDRESS_MOCK = '0x789';
+const CONTRACT_ABI_MOCK = { abi: [] };
 const CHAIN_ID_MOCK = '0x123';
 const PROVIDER_MOCK = {} as Provider;
 
+const SWAP_INTENT_MOCK: DecodedTransactionDataSwapIntent = {
+  protocol: SwapIntentProtocol.Uniswap,
+  tokenIn: '0x0000000000000000000000000000000000000000',
+  tokenOut: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+  amountIn: '100000000000000',
+  amountOutMin: '312344',
+};
+
 describe('Transaction Decode Utils', () => {
   const decodeUniswapRouterTransactionDataMock = jest.mocked(
     decodeUniswapRouterTransactionData,
@@ -31,11 +54,19 @@ describe('Transaction Decode Utils', () => {
     decodeTransactionDataWithSourcify,
   );
 
+  const decodeTransactionDataWithMetadataMock = jest.mocked(
+    decodeTransactionDataWithMetadata,
+  );
+
   const decodeTransactionDataWithFourByteMock = jest.mocked(
     decodeTransactionDataWithFourByte,
   );
 
   const getContractProxyAddressMock = jest.mocked(getContractProxyAddress);
+  const getUniswapSwapIntentMock = jest.mocked(getUniswapSwapIntent);
+  const decodeAggregatorSwapIntentMock = jest.mocked(
+    decodeAggregatorSwapIntent,
+  );
 
   beforeEach(() => {
     jest.resetAllMocks();
@@ -92,6 +123,151 @@ describe('Transaction Decode Utils', () => {
       expect(result).toStrictEqual(TRANSACTION_DECODE_FOUR_BYTE);
     });
 
+    it('returns uniswap data with swap intent', async () => {
+      decodeUniswapRouterTransactionDataMock.mockReturnValue(
+        TRANSACTION_DECODE_UNISWAP.data,
+      );
+
+      getUniswapSwapIntentMock.mockReturnValue(SWAP_INTENT_MOCK);
+
+      const result = await decodeTransactionData({
+        transactionData: TRANSACTION_DATA_UNISWAP,
+        contractAddress: CONTRACT_ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        provider: PROVIDER_MOCK,
+      });
+
+      expect(result).toStrictEqual({
+        ...TRANSACTION_DECODE_UNISWAP,
+        swapIntent: SWAP_INTENT_MOCK,
+      });
+    });
+
+    it('returns sourcify data with aggregator swap intent', async () => {
+      decodeTransactionDataWithSourcifyMock.mockResolvedValue(
+        TRANSACTION_DECODE_SOURCIFY.data[0],
+      );
+
+      decodeAggregatorSwapIntentMock.mockReturnValue(SWAP_INTENT_MOCK);
+
+      const result = await decodeTransactionData({
+        transactionData: TRANSACTION_DATA_SOURCIFY,
+        contractAddress: CONTRACT_ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        provider: PROVIDER_MOCK,
+      });
+
+      expect(result).toStrictEqual({
+        ...TRANSACTION_DECODE_SOURCIFY,
+        swapIntent: SWAP_INTENT_MOCK,
+      });
+    });
+
+    it('returns data decoded with local ABI', async () => {
+      const getContractAbiMock = jest.fn().mockReturnValue(CONTRACT_ABI_MOCK);
+
+      decodeTransactionDataWithMetadataMock.mockReturnValue(
+        TRANSACTION_DECODE_SOURCIFY.data[0],
+      );
+
+      const result = await decodeTransactionData({
+        transactionData: TRANSACTION_DATA_SOURCIFY,
+        contractAddress: CONTRACT_ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        provider: PROVIDER_MOCK,
+        getContractAbi: getContractAbiMock,
+      });
+
+      expect(result).toStrictEqual({
+        ...TRANSACTION_DECODE_SOURCIFY,
+        source: DecodedTransactionDataSource.Local,
+      });
+
+      expect(getContractAbiMock).toHaveBeenCalledWith(
+        CHAIN_ID_MOCK,
+        CONTRACT_ADDRESS_MOCK,
+      );
+
+      expect(decodeTransactionDataWithMetadataMock).toHaveBeenCalledWith(
+        TRANSACTION_DATA_SOURCIFY,
+        CONTRACT_ABI_MOCK,
+      );
+
+      expect(getContractProxyAddressMock).not.toHaveBeenCalled();
+    });
+
+    it('returns data decoded with local ABI of proxy implementation', async () => {
+      const getContractAbiMock = jest.fn((_chainId: string, address: string) =>
+        address === PROXY_ADDRESS_MOCK ? CONTRACT_ABI_MOCK : undefined,
+      );
+
+      getContractProxyAddressMock.mockResolvedValue(PROXY_ADDRESS_MOCK);
+
+      decodeTransactionDataWithMetadataMock.mockReturnValue(
+        TRANSACTION_DECODE_SOURCIFY.data[0],
+      );
+
+      const result = await decodeTransactionData({
+        transactionData: TRANSACTION_DATA_SOURCIFY,
+        contractAddress: CONTRACT_ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        provider: PROVIDER_MOCK,
+        getContractAbi: getContractAbiMock,
+      });
+
+      expect(result).toStrictEqual({
+        ...TRANSACTION_DECODE_SOURCIFY,
+        source: DecodedTransactionDataSource.Local,
+      });
+
+      expect(decodeTransactionDataWithSourcifyMock).not.toHaveBeenCalled();
+    });
+
+    it('returns sourcify data if local ABI cannot decode', async () => {
+      decodeTransactionDataWithSourcifyMock.mockResolvedValue(
+        TRANSACTION_DECODE_SOURCIFY.data[0],
+      );
+
+      decodeTransactionDataWithMetadataMock.mockImplementation(() => {
+        throw new Error('Test error');
+      });
+
+      const result = await decodeTransactionData({
+        transactionData: TRANSACTION_DATA_SOURCIFY,
+        contractAddress: CONTRACT_ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        provider: PROVIDER_MOCK,
+        getContractAbi: () => CONTRACT_ABI_MOCK,
+      });
+
+      expect(result).toStrictEqual(TRANSACTION_DECODE_SOURCIFY);
+    });
+
+    it('returns aggregator swap intent if Sourcify and 4Byte fail', async () => {
+      decodeTransactionDataWithSourcifyMock.mockRejectedValue(
+        new Error('Sourcify error'),
+      );
+
+      decodeTransactionDataWithFourByteMock.mockRejectedValue(
+        new Error('4Byte error'),
+      );
+
+      decodeAggregatorSwapIntentMock.mockReturnValue(SWAP_INTENT_MOCK);
+
+      const result = await decodeTransactionData({
+        transactionData: TRANSACTION_DATA_SOURCIFY,
+        contractAddress: CONTRACT_ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        provider: PROVIDER_MOCK,
+      });
+
+      expect(result).toStrictEqual({
+        data: [],
+        source: DecodedTransactionDataSource.Local,
+        swapIntent: SWAP_INTENT_MOCK,
+      });
+    });
+
     it('returns undefined if no data', async () => {
       const result = await decodeTransactionData({
         transactionData: TRANSACTION_DATA_FOUR_BYTE,
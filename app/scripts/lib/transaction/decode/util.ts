@@ -5,24 +5,41 @@ import {
   DecodedTransactionDataParam,
   DecodedTransactionDataResponse,
   DecodedTransactionDataSource,
+  DecodedTransactionDataSwapIntent,
 } from '../../../../../shared/types/transaction-decode';
+import type { ContractAbi } from '../../../../../shared/types/contract-abi';
 import { decodeUniswapRouterTransactionData } from './uniswap';
-import { decodeTransactionDataWithSourcify } from './sourcify';
+import {
+  ContractMetadata,
+  decodeTransactionDataWithMetadata,
+  decodeTransactionDataWithSourcify,
+} from './sourcify';
 import { getContractProxyAddress } from './proxy';
 import { decodeTransactionDataWithFourByte } from './four-byte';
+import {
+  decodeAggregatorSwapIntent,
+  getUniswapSwapIntent,
+} from './swap-intent';
 
 const log = createProjectLogger('transaction-decode');
 
+export type GetContractAbi = (
+  chainId: Hex,
+  contractAddress: Hex,
+) => ContractAbi | undefined;
+
 export async function decodeTransactionData({
   transactionData,
   contractAddress,
   chainId,
   provider,
+  getContractAbi,
 }: {
   transactionData: Hex;
   contractAddress: Hex;
   chainId: Hex;
   provider: Provider;
+  getContractAbi?: GetContractAbi;
 }): Promise<DecodedTransactionDataResponse | undefined> {
   log('Decoding transaction data', {
     transactionData,
@@ -30,6 +47,32 @@ export async function decodeTransactionData({
     chainId,
   });
 
+  const swapIntent = decodeAggregatorSwapIntent({
+    transactionData,
+    contractAddress,
+  });
+
+  if (swapIntent) {
+    log('Decoded swap intent', swapIntent);
+  }
+
+  const localData = decodeTransactionDataWithLocalAbi(
+    transactionData,
+    contractAddress,
+    chainId,
+    getContractAbi,
+  );
+
+  if (localData) {
+    log('Decoded data with local ABI', localData);
+
+    return {
+      data: normalizeDecodedMethods([localData]),
+      source: DecodedTransactionDataSource.Local,
+      ...withSwapIntent(swapIntent),
+    };
+  }
+
   const uniswapData = decodeUniswapRouterTransactionData({
     transactionData,
     contractAddress,
@@ -42,6 +85,7 @@ export async function decodeTransactionData({
     return {
       data: normalizeDecodedMethods(uniswapData),
       source: DecodedTransactionDataSource.Uniswap,
+      ...withSwapIntent(getUniswapSwapIntent(uniswapData)),
     };
   }
 
@@ -49,6 +93,23 @@ export async function decodeTransactionData({
 
   if (proxyAddress) {
     log('Retrieved proxy implementation address', proxyAddress);
+
+    const proxyLocalData = decodeTransactionDataWithLocalAbi(
+      transactionData,
+      proxyAddress,
+      chainId,
+      getContractAbi,
+    );
+
+    if (proxyLocalData) {
+      log('Decoded data with local implementation ABI', proxyLocalData);
+
+      return {
+        data: normalizeDecodedMethods([proxyLocalData]),
+        source: DecodedTransactionDataSource.Local,
+        ...withSwapIntent(swapIntent),
+      };
+    }
   }
 
   const address = proxyAddress ?? contractAddress;
@@ -72,6 +133,7 @@ export async function decodeTransactionData({
     return {
       data: normalizeDecodedMethods([sourcifyResult.value]),
       source: DecodedTransactionDataSource.Sourcify,
+      ...withSwapIntent(swapIntent),
     };
   }
 
@@ -83,14 +145,67 @@ export async function decodeTransactionData({
     return {
       data: normalizeDecodedMethods([fourByteResult.value]),
       source: DecodedTransactionDataSource.FourByte,
+      ...withSwapIntent(swapIntent),
     };
   }
 
   log('Failed to decode data with 4Byte', fourByteResult);
 
+  if (swapIntent) {
+    return {
+      data: [],
+      source: DecodedTransactionDataSource.Local,
+      swapIntent,
+    };
+  }
+
   return undefined;
 }
 
+function decodeTransactionDataWithLocalAbi(
+  transactionData: Hex,
+  contractAddress: Hex,
+  chainId: Hex,
+  getContractAbi?: GetContractAbi,
+): DecodedTransactionDataMethod | undefined {
+  const contractAbi = getContractAbi?.(chainId, contractAddress);
+
+  if (!contractAbi) {
+    return undefined;
+  }
+
+  try {
+    return decodeTransactionDataWithMetadata(
+      transactionData,
+      toContractMetadata(contractAbi),
+    );
+  } catch (error) {
+    log('Failed to decode data with local ABI', error);
+    return undefined;
+  }
+}
+
+/**
+ * Adapts an imported ABI, stored as JSON in state, to the metadata used to
+ * decode transaction data.
+ *
+ * @param contractAbi - The imported ABI.
+ * @returns The ABI and documentation of the contract.
+ */
+function toContractMetadata({
+  abi,
+  devdoc,
+  userdoc,
+}: ContractAbi): ContractMetadata {
+  return { abi, devdoc, userdoc };
+}
+
+function withSwapIntent(
+  swapIntent: DecodedTransactionDataSwapIntent | undefined,
+): Pick<DecodedTransactionDataResponse, 'swapIntent'> {
+  return swapIntent ? { swapIntent } : {};
+}
+
 function normalizeDecodedMethods(
   methods: DecodedTransactionDataMethod[],
 ): DecodedTransactionDataMethod[] {
@@ -0,0 +1,220 @@
+import type { Provider } from '@metamask/network-controller';
+import type { Hex } from '@metamask/utils';
+import { bufferToHex, keccak, toBuffer } from 'ethereumjs-util';
+import {
+  METAMASK_DELEGATION_TARGET_NAME,
+  METAMASK_DELEGATOR_CODE_HASHES,
+} from '../../../../shared/constants/delegation-targets';
+import { EIP_7702_REVOKE_ADDRESS } from '../../../../shared/lib/eip7702-utils';
+import {
+  DelegationTargetSource,
+  DelegationTargetStatus,
+} from '../../../../shared/types/delegation-target';
+import {
+  approveDelegationTarget,
+  getCodeHash,
+  reviewDelegationTarget,
+  validateDelegationTargets,
+} from './delegation-targets';
+
+jest.mock('../../../../shared/constants/delegation-targets', () => ({
+  ...jest.requireActual('../../../../shared/constants/delegation-targets'),
+  METAMASK_DELEGATOR_CODE_HASHES: [],
+}));
+
+const ADDRESS_MOCK = '0x1234567890abcdef1234567890abcdef12345678';
+const CHAIN_ID_MOCK = '0x1';
+const CODE_MOCK = '0x60806040';
+const CODE_HASH_MOCK = bufferToHex(keccak(toBuffer(CODE_MOCK))) as Hex;
+
+describe('Delegation Targets', () => {
+  const requestMock = jest.fn();
+  const getDelegationTargetMock = jest.fn();
+  const addDelegationTargetMock = jest.fn();
+  const provider = { request: requestMock } as unknown as Provider;
+
+  function review() {
+    return reviewDelegationTarget({
+      address: ADDRESS_MOCK,
+      chainId: CHAIN_ID_MOCK,
+      provider,
+      getDelegationTarget: getDelegationTargetMock,
+    });
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    requestMock.mockResolvedValue(CODE_MOCK);
+    METAMASK_DELEGATOR_CODE_HASHES.length = 0;
+  });
+
+  describe('getCodeHash', () => {
+    it('returns hash of code', async () => {
+      expect(await getCodeHash(ADDRESS_MOCK, provider)).toBe(CODE_HASH_MOCK);
+
+      expect(requestMock).toHaveBeenCalledWith({
+        method: 'eth_getCode',
+        params: [ADDRESS_MOCK, 'latest'],
+      });
+    });
+
+    it('returns undefined if no code', async () => {
+      requestMock.mockResolvedValue('0x');
+      expect(await getCodeHash(ADDRESS_MOCK, provider)).toBeUndefined();
+    });
+  });
+
+  describe('reviewDelegationTarget', () => {
+    it('returns trusted if code matches pinned hash', async () => {
+      getDelegationTargetMock.mockReturnValue({
+        name: 'Test',
+        codeHash: CODE_HASH_MOCK,
+        source: DelegationTargetSource.User,
+        addedAt: 1,
+      });
+
+      expect(await review()).toStrictEqual({
+        address: ADDRESS_MOCK,
+        codeHash: CODE_HASH_MOCK,
+        name: 'Test',
+        source: DelegationTargetSource.User,
+        status: DelegationTargetStatus.Trusted,
+      });
+    });
+
+    it('returns code changed if code does not match pinned hash', async () => {
+      getDelegationTargetMock.mockReturnValue({
+        name: 'Test',
+        codeHash: '0x1234',
+        source: DelegationTargetSource.User,
+        addedAt: 1,
+      });
+
+      const result = await review();
+
+      expect(result.status).toBe(DelegationTargetStatus.CodeChanged);
+      expect(result.codeHash).toBe(CODE_HASH_MOCK);
+    });
+
+    it('returns trusted if code matches known MetaMask delegator', async () => {
+      METAMASK_DELEGATOR_CODE_HASHES.push(CODE_HASH_MOCK);
+
+      expect(await review()).toStrictEqual({
+        address: ADDRESS_MOCK,
+        codeHash: CODE_HASH_MOCK,
+        name: METAMASK_DELEGATION_TARGET_NAME,
+        source: DelegationTargetSource.MetaMask,
+        status: DelegationTargetStatus.Trusted,
+      });
+    });
+
+    it('returns trusted if address is MetaMask delegator of chain', async () => {
+      const getMetaMaskDelegatorAddressMock = jest
+        .fn()
+        .mockResolvedValue(ADDRESS_MOCK.toUpperCase().replace('0X', '0x'));
+
+      expect(
+        await reviewDelegationTarget({
+          address: ADDRESS_MOCK,
+          chainId: CHAIN_ID_MOCK,
+          provider,
+          getDelegationTarget: getDelegationTargetMock,
+          getMetaMaskDelegatorAddress: getMetaMaskDelegatorAddressMock,
+        }),
+      ).toStrictEqual({
+        address: ADDRESS_MOCK,
+        codeHash: CODE_HASH_MOCK,
+        name: METAMASK_DELEGATION_TARGET_NAME,
+        source: DelegationTargetSource.MetaMask,
+        status: DelegationTargetStatus.Trusted,
+      });
+
+      expect(getMetaMaskDelegatorAddressMock).toHaveBeenCalledWith(
+        CHAIN_ID_MOCK,
+      );
+    });
+
+    it('returns unknown if not in registry', async () => {
+      expect(await review()).toStrictEqual({
+        address: ADDRESS_MOCK,
+        codeHash: CODE_HASH_MOCK,
+        status: DelegationTargetStatus.Unknown,
+      });
+    });
+
+    it('returns unknown if target has no code', async () => {
+      requestMock.mockResolvedValue('0x');
+
+      const result = await review();
+
+      expect(result.status).toBe(DelegationTargetStatus.Unknown);
+    });
+  });
+
+  describe('approveDelegationTarget', () => {
+    function approve() {
+      return approveDelegationTarget({
+        address: ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        name: 'Test',
+        provider,
+        addDelegationTarget: addDelegationTargetMock,
+      });
+    }
+
+    it('pins hash of current code', async () => {
+      await approve();
+
+      expect(addDelegationTargetMock).toHaveBeenCalledWith(
+        CHAIN_ID_MOCK,
+        ADDRESS_MOCK,
+        {
+          name: 'Test',
+          codeHash: CODE_HASH_MOCK,
+          source: DelegationTargetSource.User,
+        },
+      );
+    });
+
+    it('throws if target has no code', async () => {
+      requestMock.mockResolvedValue('0x');
+
+      await expect(approve()).rejects.toThrow('Delegation target has no code');
+      expect(addDelegationTargetMock).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateDelegationTargets', () => {
+    const reviewDelegationTargetMock = jest.fn();
+
+    it('does not review revoke address', async () => {
+      await validateDelegationTargets({
+        authorizationList: [{ address: EIP_7702_REVOKE_ADDRESS }],
+        chainId: CHAIN_ID_MOCK,
+        reviewDelegationTarget: reviewDelegationTargetMock,
+      });
+
+      expect(reviewDelegationTargetMock).not.toHaveBeenCalled();
+    });
+
+    it('throws if any target is not trusted', async () => {
+      reviewDelegationTargetMock.mockResolvedValue({
+        address: ADDRESS_MOCK,
+        status: DelegationTargetStatus.Unknown,
+      });
+
+      await expect(
+        validateDelegationTargets({
+          authorizationList: [{ address: ADDRESS_MOCK }],
+          chainId: CHAIN_ID_MOCK,
+          reviewDelegationTarget: reviewDelegationTargetMock,
+        }),
+      ).rejects.toThrow(`Delegation target "${ADDRESS_MOCK}" is not trusted.`);
+
+      expect(reviewDelegationTargetMock).toHaveBeenCalledWith({
+        address: ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+      });
+    });
+  });
+});
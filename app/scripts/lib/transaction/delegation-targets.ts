@@ -0,0 +1,205 @@
+import type { Provider } from '@metamask/network-controller';
+import { providerErrors } from '@metamask/rpc-errors';
+import type { Hex, JsonRpcParams } from '@metamask/utils';
+import { bufferToHex, keccak, toBuffer } from 'ethereumjs-util';
+import {
+  METAMASK_DELEGATION_TARGET_NAME,
+  METAMASK_DELEGATOR_CODE_HASHES,
+} from '../../../../shared/constants/delegation-targets';
+import { EIP_7702_REVOKE_ADDRESS } from '../../../../shared/lib/eip7702-utils';
+import {
+  DelegationTarget,
+  DelegationTargetReview,
+  DelegationTargetSource,
+  DelegationTargetStatus,
+} from '../../../../shared/types/delegation-target';
+
+export type ReviewDelegationTargetRequest = {
+  address: Hex;
+  chainId: Hex;
+};
+
+export type ReviewDelegationTarget = (
+  request: ReviewDelegationTargetRequest,
+) => Promise<DelegationTargetReview>;
+
+/**
+ * Gets the hash of the code deployed at an address.
+ *
+ * @param address - The address of the contract.
+ * @param provider - The provider of the network the contract is deployed on.
+ * @returns The keccak256 hash of the code, or undefined if there is no code.
+ */
+export async function getCodeHash(
+  address: Hex,
+  provider: Provider,
+): Promise<Hex | undefined> {
+  const code = await provider.request<JsonRpcParams, Hex>({
+    method: 'eth_getCode',
+    params: [address, 'latest'],
+  });
+
+  if (!code || code === '0x') {
+    return undefined;
+  }
+
+  return bufferToHex(keccak(toBuffer(code))) as Hex;
+}
+
+/**
+ * Determines whether an EIP-7702 delegation target can be trusted, without
+ * changing the registry of trusted delegation targets.
+ *
+ * Targets approved by the user are trusted while their code matches the hash
+ * pinned on approval. Delegator contracts of MetaMask are trusted if they are
+ * the upgrade contract of the chain, or if their code matches a known hash.
+ *
+ * @param request - The request object.
+ * @param request.address - The address of the delegation target.
+ * @param request.chainId - The chain ID of the delegation.
+ * @param request.provider - The provider of the network.
+ * @param request.getDelegationTarget - Gets a trusted delegation target.
+ * @param request.getMetaMaskDelegatorAddress - Gets the address of the
+ * delegator contract deployed by MetaMask on a chain.
+ * @returns The review of the delegation target.
+ */
+export async function reviewDelegationTarget({
+  address,
+  chainId,
+  provider,
+  getDelegationTarget,
+  getMetaMaskDelegatorAddress,
+}: {
+  address: Hex;
+  chainId: Hex;
+  provider: Provider;
+  getDelegationTarget: (
+    chainId: Hex,
+    address: Hex,
+  ) => DelegationTarget | undefined;
+  getMetaMaskDelegatorAddress?: (chainId: Hex) => Promise<Hex | undefined>;
+}): Promise<DelegationTargetReview> {
+  const codeHash = await getCodeHash(address, provider);
+  const delegationTarget = getDelegationTarget(chainId, address);
+
+  if (delegationTarget) {
+    const { name, source } = delegationTarget;
+
+    const status =
+      delegationTarget.codeHash === codeHash
+        ? DelegationTargetStatus.Trusted
+        : DelegationTargetStatus.CodeChanged;
+
+    return { address, codeHash, name, source, status };
+  }
+
+  if (
+    codeHash &&
+    (METAMASK_DELEGATOR_CODE_HASHES.includes(codeHash) ||
+      (await isMetaMaskDelegator(
+        address,
+        chainId,
+        getMetaMaskDelegatorAddress,
+      )))
+  ) {
+    return {
+      address,
+      codeHash,
+      name: METAMASK_DELEGATION_TARGET_NAME,
+      source: DelegationTargetSource.MetaMask,
+      status: DelegationTargetStatus.Trusted,
+    };
+  }
+
+  return { address, codeHash, status: DelegationTargetStatus.Unknown };
+}
+
+async function isMetaMaskDelegator(
+  address: Hex,
+  chainId: Hex,
+  getMetaMaskDelegatorAddress?: (chainId: Hex) => Promise<Hex | undefined>,
+): Promise<boolean> {
+  const delegatorAddress = await getMetaMaskDelegatorAddress?.(chainId);
+
+  return delegatorAddress?.toLowerCase() === address.toLowerCase();
+}
+
+/**
+ * Trusts a contract approved by the user as the target of EIP-7702
+ * delegations, pinning the hash of its current code.
+ *
+ * @param request - The request object.
+ * @param request.address - The address of the contract.
+ * @param request.chainId - The chain ID of the contract.
+ * @param request.name - The name to display for the contract.
+ * @param request.provider - The provider of the network.
+ * @param request.addDelegationTarget - Trusts a delegation target.
+ */
+export async function approveDelegationTarget({
+  address,
+  chainId,
+  name,
+  provider,
+  addDelegationTarget,
+}: {
+  address: Hex;
+  chainId: Hex;
+  name: string;
+  provider: Provider;
+  addDelegationTarget: (
+    chainId: Hex,
+    address: Hex,
+    delegationTarget: Omit<DelegationTarget, 'addedAt'>,
+  ) => void;
+}): Promise<void> {
+  const codeHash = await getCodeHash(address, provider);
+
+  if (!codeHash) {
+    throw new Error('Delegation target has no code');
+  }
+
+  addDelegationTarget(chainId, address, {
+    name,
+    codeHash,
+    source: DelegationTargetSource.User,
+  });
+}
+
+/**
+ * Rejects a transaction that delegates to a target that is not trusted, or
+ * whose code has changed since it was trusted.
+ *
+ * @param request - The request object.
+ * @param request.authorizationList - The authorization list of the transaction.
+ * @param request.chainId - The chain ID of the transaction.
+ * @param request.reviewDelegationTarget - Reviews a delegation target.
+ */
+export async function validateDelegationTargets({
+  authorizationList,
+  chainId,
+  reviewDelegationTarget: review,
+}: {
+  authorizationList?: { address: Hex }[];
+  chainId: Hex;
+  reviewDelegationTarget: ReviewDelegationTarget;
+}): Promise<void> {
+  const addresses = (authorizationList ?? [])
+    .map(({ address }) => address)
+    .filter((address) => address && address !== EIP_7702_REVOKE_ADDRESS);
+
+  for (const address of addresses) {
+    const { status } = await review({ address, chainId });
+
+    if (status === DelegationTargetStatus.CodeChanged) {
+      throw providerErrors.unauthorized({
+        message: `The code of delegation target "${address}" has changed since it was trusted.`,
+      });
+    }
+
+    if (status === DelegationTargetStatus.Unknown) {
+      throw providerErrors.unauthorized({
+        message: `Delegation target "${address}" is not trusted. It can be allowed from the security settings.`,
+      });
+    }
+  }
+}
@@ -1,5 +1,8 @@
+import { rpcErrors } from '@metamask/rpc-errors';
 import {
+  SimulationErrorCode,
   TransactionContainerType,
+  TransactionControllerUpdateTransactionAction,
   TransactionMeta,
   TransactionStatus,
 } from '@metamask/transaction-controller';
@@ -13,9 +16,23 @@ import {
 import { TransactionControllerInitMessenger } from '../../../controller-init/messengers/transaction-controller-messenger';
 import { applyTransactionContainers } from '../containers/util';
 import { AppStateControllerGetStateAction } from '../../../controllers/app-state-controller';
-import { EnforceSimulationHook } from './enforce-simulation-hook';
+import { isSimulationOutcomeChanged } from '../resimulation';
+import {
+  SimulationBackendType,
+  getSimulationBackend,
+} from '../simulation-backend';
+import {
+  ENFORCED_SIMULATION_CHANGED_ERROR,
+  ENFORCED_SIMULATION_UNVERIFIED_ERROR,
+  EnforceSimulationHook,
+} from './enforce-simulation-hook';
 
 jest.mock('../containers/util');
+jest.mock('../resimulation');
+jest.mock('../simulation-backend', () => ({
+  ...jest.requireActual('../simulation-backend'),
+  getSimulationBackend: jest.fn(),
+}));
 
 const BALANCE_CHANGE_MOCK = {
   difference: '0x1' as Hex,
@@ -54,6 +71,12 @@ describe('EnforceSimulationHook', () => {
   );
 
   const getAppControllerStateMock = jest.fn();
+  const updateTransactionMock = jest.fn();
+  const getSimulationBackendMock = jest.mocked(getSimulationBackend);
+  const resimulateBalanceChangesMock = jest.fn();
+  const isSimulationOutcomeChangedMock = jest.mocked(
+    isSimulationOutcomeChanged,
+  );
 
   beforeEach(() => {
     jest.resetAllMocks();
@@ -66,7 +89,8 @@ describe('EnforceSimulationHook', () => {
 
     const baseMessenger = new Messenger<
       MockAnyNamespace,
-      AppStateControllerGetStateAction,
+      | AppStateControllerGetStateAction
+      | TransactionControllerUpdateTransactionAction,
       never
     >({
       namespace: MOCK_ANY_NAMESPACE,
@@ -77,9 +101,15 @@ describe('EnforceSimulationHook', () => {
       getAppControllerStateMock,
     );
 
+    baseMessenger.registerActionHandler(
+      'TransactionController:updateTransaction',
+      updateTransactionMock,
+    );
+
     messenger = new Messenger<
       'TransactionControllerInitMessenger',
-      AppStateControllerGetStateAction,
+      | AppStateControllerGetStateAction
+      | TransactionControllerUpdateTransactionAction,
       never,
       typeof baseMessenger
     >({
@@ -88,12 +118,27 @@ describe('EnforceSimulationHook', () => {
     });
     baseMessenger.delegate({
       messenger,
-      actions: ['AppStateController:getState'],
+      actions: [
+        'AppStateController:getState',
+        'TransactionController:updateTransaction',
+      ],
     });
 
     getAppControllerStateMock.mockReturnValue({
       enableEnforcedSimulations: true,
       enableEnforcedSimulationsForTransactions: {},
+      enforcedSimulationsSlippage: 10,
+      enforcedSimulationsSlippageForTransactions: {},
+    });
+
+    resimulateBalanceChangesMock.mockResolvedValue({
+      nativeBalanceChange: BALANCE_CHANGE_MOCK,
+      tokenBalanceChanges: [],
+    });
+
+    getSimulationBackendMock.mockResolvedValue({
+      type: SimulationBackendType.Hosted,
+      simulateBalanceChanges: resimulateBalanceChangesMock,
     });
   });
 
@@ -147,6 +192,198 @@ describe('EnforceSimulationHook', () => {
     );
   });
 
+  describe('if not upgraded account', () => {
+    const EOA_TRANSACTION_META_MOCK = {
+      ...TRANSACTION_META_MOCK,
+      delegationAddress: undefined,
+    };
+
+    it('resimulates before sign', async () => {
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      const { updateTransaction } =
+        (await hook({
+          transactionMeta: EOA_TRANSACTION_META_MOCK,
+        })) ?? {};
+
+      expect(updateTransaction).toBeUndefined();
+      expect(getSimulationBackendMock).toHaveBeenCalledWith({
+        messenger,
+        transactionMeta: EOA_TRANSACTION_META_MOCK,
+      });
+      expect(resimulateBalanceChangesMock).toHaveBeenCalledWith(
+        EOA_TRANSACTION_META_MOCK,
+      );
+      expect(isSimulationOutcomeChangedMock).toHaveBeenCalledWith(
+        EOA_TRANSACTION_META_MOCK.simulationData,
+        {
+          nativeBalanceChange: BALANCE_CHANGE_MOCK,
+          tokenBalanceChanges: [],
+        },
+        10,
+      );
+      expect(applyTransactionContainersMock).not.toHaveBeenCalled();
+    });
+
+    it('uses slippage override for transaction', async () => {
+      getAppControllerStateMock.mockReturnValue({
+        enableEnforcedSimulations: true,
+        enableEnforcedSimulationsForTransactions: {},
+        enforcedSimulationsSlippage: 10,
+        enforcedSimulationsSlippageForTransactions: {
+          [TRANSACTION_META_MOCK.id]: 25,
+        },
+      });
+
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      await hook({ transactionMeta: EOA_TRANSACTION_META_MOCK });
+
+      expect(isSimulationOutcomeChangedMock).toHaveBeenCalledWith(
+        expect.anything(),
+        expect.anything(),
+        25,
+      );
+    });
+
+    it('throws if simulation outcome changed', async () => {
+      isSimulationOutcomeChangedMock.mockReturnValue(true);
+
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      await expect(
+        hook({ transactionMeta: EOA_TRANSACTION_META_MOCK }),
+      ).rejects.toThrow(ENFORCED_SIMULATION_CHANGED_ERROR);
+    });
+
+    it('flags the latest simulation data if simulation outcome changed', async () => {
+      isSimulationOutcomeChangedMock.mockReturnValue(true);
+
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      await expect(
+        hook({ transactionMeta: EOA_TRANSACTION_META_MOCK }),
+      ).rejects.toThrow(ENFORCED_SIMULATION_CHANGED_ERROR);
+
+      expect(updateTransactionMock).toHaveBeenCalledWith(
+        {
+          ...EOA_TRANSACTION_META_MOCK,
+          simulationData: {
+            nativeBalanceChange: BALANCE_CHANGE_MOCK,
+            tokenBalanceChanges: [],
+            isUpdatedAfterSecurityCheck: true,
+          },
+        },
+        expect.any(String),
+      );
+    });
+
+    it('throws if resimulation fails', async () => {
+      resimulateBalanceChangesMock.mockRejectedValue(
+        new Error('Simulation failed - execution reverted'),
+      );
+
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      await expect(
+        hook({ transactionMeta: EOA_TRANSACTION_META_MOCK }),
+      ).rejects.toThrow(ENFORCED_SIMULATION_UNVERIFIED_ERROR);
+
+      expect(isSimulationOutcomeChangedMock).not.toHaveBeenCalled();
+      expect(updateTransactionMock).not.toHaveBeenCalled();
+    });
+
+    it('throws if resimulation returns an error', async () => {
+      resimulateBalanceChangesMock.mockResolvedValue({
+        error: {
+          code: SimulationErrorCode.Reverted,
+          message: 'Transaction was reverted',
+        },
+        tokenBalanceChanges: [],
+      });
+
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      await expect(
+        hook({ transactionMeta: EOA_TRANSACTION_META_MOCK }),
+      ).rejects.toThrow(ENFORCED_SIMULATION_UNVERIFIED_ERROR);
+
+      expect(updateTransactionMock).not.toHaveBeenCalled();
+    });
+
+    it('does not throw if simulation is not supported on the chain', async () => {
+      isSimulationOutcomeChangedMock.mockReturnValue(true);
+      resimulateBalanceChangesMock.mockResolvedValue({
+        error: {
+          code: SimulationErrorCode.ChainNotSupported,
+          message: 'Chain is not supported',
+        },
+        tokenBalanceChanges: [],
+      });
+
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      await expect(
+        hook({ transactionMeta: EOA_TRANSACTION_META_MOCK }),
+      ).resolves.toStrictEqual({ skipSimulation: false });
+
+      expect(updateTransactionMock).not.toHaveBeenCalled();
+    });
+
+    it('does not throw if the network does not support tracing', async () => {
+      resimulateBalanceChangesMock.mockRejectedValue(
+        rpcErrors.methodNotFound(),
+      );
+
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      await expect(
+        hook({ transactionMeta: EOA_TRANSACTION_META_MOCK }),
+      ).resolves.toStrictEqual({ skipSimulation: false });
+    });
+
+    it('does not resimulate after simulate', async () => {
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getAfterSimulateHook();
+
+      await hook({ transactionMeta: EOA_TRANSACTION_META_MOCK });
+
+      expect(resimulateBalanceChangesMock).not.toHaveBeenCalled();
+    });
+
+    it('does not resimulate if no simulation changes', async () => {
+      const hook = new EnforceSimulationHook({
+        messenger,
+      }).getBeforeSignHook();
+
+      await hook({
+        transactionMeta: {
+          ...EOA_TRANSACTION_META_MOCK,
+          simulationData: { tokenBalanceChanges: [] },
+        },
+      });
+
+      expect(resimulateBalanceChangesMock).not.toHaveBeenCalled();
+    });
+  });
+
   describe('does nothing if', () => {
     it('transaction is not a delegation', async () => {
       const hook = new EnforceSimulationHook({
@@ -1,16 +1,39 @@
+import { errorCodes } from '@metamask/rpc-errors';
 import {
   AfterSimulateHook,
   BeforeSignHook,
+  SimulationData,
+  SimulationErrorCode,
   TransactionContainerType,
   TransactionMeta,
 } from '@metamask/transaction-controller';
-import { createProjectLogger } from '@metamask/utils';
+import { createProjectLogger, isObject } from '@metamask/utils';
 import { ORIGIN_METAMASK } from '@metamask/controller-utils';
 import { TransactionControllerInitMessenger } from '../../../controller-init/messengers/transaction-controller-messenger';
 import { applyTransactionContainers } from '../containers/util';
+import { getSlippage } from '../containers/enforced-simulations';
+import { isSimulationOutcomeChanged } from '../resimulation';
+import { getSimulationBackend } from '../simulation-backend';
 
 const log = createProjectLogger('enforce-simulation-hook');
 
+export const ENFORCED_SIMULATION_CHANGED_ERROR =
+  'Transaction not signed as the estimated changes are no longer the same as those reviewed';
+
+export const ENFORCED_SIMULATION_UNVERIFIED_ERROR =
+  'Transaction not signed as the estimated changes could not be verified';
+
+/**
+ * Determines if a simulation failed because the chain or its RPC does not
+ * support simulation, rather than because of the transaction.
+ *
+ * @param error - The error thrown by the simulation.
+ * @returns True if simulation is not supported.
+ */
+function isSimulationNotSupportedError(error: unknown): boolean {
+  return isObject(error) && error.code === errorCodes.rpc.methodNotFound;
+}
+
 export class EnforceSimulationHook {
   #messenger: TransactionControllerInitMessenger;
 
@@ -76,13 +99,6 @@ export class EnforceSimulationHook {
       };
     }
 
-    if (!delegationAddress) {
-      log('Skipping as not upgraded account');
-      return {
-        skipSimulation: false,
-      };
-    }
-
     if (
       !simulationData?.nativeBalanceChange &&
       !simulationData?.tokenBalanceChanges?.length
@@ -93,6 +109,18 @@ export class EnforceSimulationHook {
       };
     }
 
+    if (!delegationAddress) {
+      if (isFinal) {
+        await this.#verifySimulation(transactionMeta);
+      } else {
+        log('Skipping as not upgraded account');
+      }
+
+      return {
+        skipSimulation: false,
+      };
+    }
+
     if (isFinal && !txParamsOriginal) {
       log('Cannot find original transaction parameters');
       throw new Error('Original transaction parameters not found');
@@ -115,4 +143,74 @@ export class EnforceSimulationHook {
       updateTransaction,
     };
   }
+
+  // Accounts without a delegation cannot enforce the balance changes onchain,
+  // so instead simulate again and refuse to sign if the outcome has changed or
+  // cannot be verified, unless the chain does not support simulation.
+  async #verifySimulation(transactionMeta: TransactionMeta) {
+    const { id: transactionId, simulationData } = transactionMeta;
+
+    let latestSimulationData: SimulationData;
+
+    try {
+      const backend = await getSimulationBackend({
+        messenger: this.#messenger,
+        transactionMeta,
+      });
+
+      log('Resimulating as not upgraded account', backend.type);
+
+      latestSimulationData =
+        await backend.simulateBalanceChanges(transactionMeta);
+    } catch (error) {
+      if (isSimulationNotSupportedError(error)) {
+        log('Skipping as simulation not supported', error);
+        return;
+      }
+
+      log('Unable to verify simulation', error);
+      throw new Error(ENFORCED_SIMULATION_UNVERIFIED_ERROR);
+    }
+
+    if (latestSimulationData.error) {
+      if (
+        latestSimulationData.error.code ===
+        SimulationErrorCode.ChainNotSupported
+      ) {
+        log('Skipping as simulation not supported', latestSimulationData.error);
+        return;
+      }
+
+      log('Unable to verify simulation', latestSimulationData.error);
+      throw new Error(ENFORCED_SIMULATION_UNVERIFIED_ERROR);
+    }
+
+    const slippage = getSlippage(this.#messenger, transactionId);
+
+    if (
+      simulationData &&
+      isSimulationOutcomeChanged(simulationData, latestSimulationData, slippage)
+    ) {
+      log('Simulation outcome changed', {
+        latestSimulationData,
+        simulationData,
+        slippage,
+      });
+
+      // Display the latest outcome with the resimulation alert.
+      this.#messenger.call(
+        'TransactionController:updateTransaction',
+        {
+          ...transactionMeta,
+          simulationData: {
+            ...latestSimulationData,
+            isUpdatedAfterSecurityCheck: true,
+          },
+        },
+        'EnforceSimulationHook: Simulation outcome changed before signing',
+      );
+
+      throw new Error(ENFORCED_SIMULATION_CHANGED_ERROR);
+    }
+  }
 }
@@ -0,0 +1,130 @@
+import type { Provider } from '@metamask/network-controller';
+import {
+  SimulationData,
+  SimulationErrorCode,
+  TransactionMeta,
+  TransactionStatus,
+} from '@metamask/transaction-controller';
+import { Hex } from '@metamask/utils';
+import { TransactionControllerInitMessenger } from '../../../controller-init/messengers/transaction-controller-messenger';
+import { createTraceSimulationBackend } from '../simulation-backend';
+import { TraceSimulationHook } from './trace-simulation-hook';
+
+jest.mock('../simulation-backend');
+
+const PROVIDER_MOCK = {} as Provider;
+
+const TRANSACTION_META_MOCK = {
+  chainId: '0x7a69',
+  id: '123-456',
+  networkClientId: 'local',
+  origin: 'test.com',
+  simulationData: {
+    error: {
+      code: SimulationErrorCode.ChainNotSupported,
+    },
+    tokenBalanceChanges: [],
+  },
+  status: TransactionStatus.unapproved,
+  time: 123,
+  txParams: {
+    from: '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc',
+  },
+} as TransactionMeta;
+
+const SIMULATION_DATA_MOCK: SimulationData = {
+  nativeBalanceChange: {
+    difference: '0x1' as Hex,
+    isDecrease: true,
+    newBalance: '0x0' as Hex,
+    previousBalance: '0x1' as Hex,
+  },
+  tokenBalanceChanges: [],
+};
+
+describe('TraceSimulationHook', () => {
+  const createTraceSimulationBackendMock = jest.mocked(
+    createTraceSimulationBackend,
+  );
+
+  const callMock = jest.fn();
+  const simulateBalanceChangesMock = jest.fn();
+
+  const messenger = {
+    call: callMock,
+  } as unknown as TransactionControllerInitMessenger;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    callMock.mockReturnValue({ provider: PROVIDER_MOCK });
+    simulateBalanceChangesMock.mockResolvedValue(SIMULATION_DATA_MOCK);
+
+    createTraceSimulationBackendMock.mockReturnValue({
+      type: 'trace',
+      simulateBalanceChanges: simulateBalanceChangesMock,
+    } as never);
+  });
+
+  it('updates simulation data if chain not supported by hosted simulation', async () => {
+    const hook = new TraceSimulationHook({ messenger }).getAfterSimulateHook();
+
+    const { updateTransaction } =
+      (await hook({ transactionMeta: TRANSACTION_META_MOCK })) ?? {};
+
+    const transaction = { ...TRANSACTION_META_MOCK };
+    updateTransaction?.(transaction);
+
+    expect(transaction.simulationData).toStrictEqual(SIMULATION_DATA_MOCK);
+    expect(createTraceSimulationBackendMock).toHaveBeenCalledWith(
+      PROVIDER_MOCK,
+    );
+    expect(simulateBalanceChangesMock).toHaveBeenCalledWith(
+      TRANSACTION_META_MOCK,
+    );
+  });
+
+  it('does nothing if chain supported by hosted simulation', async () => {
+    const hook = new TraceSimulationHook({ messenger }).getAfterSimulateHook();
+
+    const { updateTransaction } =
+      (await hook({
+        transactionMeta: {
+          ...TRANSACTION_META_MOCK,
+          simulationData: { tokenBalanceChanges: [] },
+        },
+      })) ?? {};
+
+    expect(updateTransaction).toBeUndefined();
+    expect(simulateBalanceChangesMock).not.toHaveBeenCalled();
+  });
+
+  it('does nothing if simulation disabled', async () => {
+    const hook = new TraceSimulationHook({ messenger }).getAfterSimulateHook();
+
+    const { updateTransaction } =
+      (await hook({
+        transactionMeta: {
+          ...TRANSACTION_META_MOCK,
+          simulationData: {
+            error: { code: SimulationErrorCode.Disabled },
+            tokenBalanceChanges: [],
+          },
+        },
+      })) ?? {};
+
+    expect(updateTransaction).toBeUndefined();
+    expect(simulateBalanceChangesMock).not.toHaveBeenCalled();
+  });
+
+  it('does nothing if trace simulation fails', async () => {
+    simulateBalanceChangesMock.mockRejectedValue(new Error('Method not found'));
+
+    const hook = new TraceSimulationHook({ messenger }).getAfterSimulateHook();
+
+    const { updateTransaction } =
+      (await hook({ transactionMeta: TRANSACTION_META_MOCK })) ?? {};
+
+    expect(updateTransaction).toBeUndefined();
+  });
+});
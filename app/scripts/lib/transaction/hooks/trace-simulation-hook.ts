@@ -0,0 +1,65 @@
+import {
+  AfterSimulateHook,
+  SimulationErrorCode,
+  TransactionMeta,
+} from '@metamask/transaction-controller';
+import { createProjectLogger } from '@metamask/utils';
+import { TransactionControllerInitMessenger } from '../../../controller-init/messengers/transaction-controller-messenger';
+import { createTraceSimulationBackend } from '../simulation-backend';
+
+const log = createProjectLogger('trace-simulation-hook');
+
+/**
+ * Populates the simulation data by tracing the transaction with the network RPC
+ * when the hosted simulation API does not support the chain.
+ */
+export class TraceSimulationHook {
+  #messenger: TransactionControllerInitMessenger;
+
+  constructor({
+    messenger,
+  }: {
+    messenger: TransactionControllerInitMessenger;
+  }) {
+    this.#messenger = messenger;
+  }
+
+  getAfterSimulateHook(): AfterSimulateHook {
+    return this.#hook.bind(this);
+  }
+
+  async #hook(request: { transactionMeta: TransactionMeta }) {
+    const { transactionMeta } = request;
+    const { networkClientId, simulationData } = transactionMeta;
+
+    if (simulationData?.error?.code !== SimulationErrorCode.ChainNotSupported) {
+      log('Skipping as chain supported by hosted simulation');
+      return {};
+    }
+
+    const { provider } = this.#messenger.call(
+      'NetworkController:getNetworkClientById',
+      networkClientId,
+    );
+
+    let newSimulationData: TransactionMeta['simulationData'];
+
+    try {
+      newSimulationData =
+        await createTraceSimulationBackend(provider).simulateBalanceChanges(
+          transactionMeta,
+        );
+    } catch (error) {
+      log('Skipping as trace simulation failed', error);
+      return {};
+    }
+
+    log('Simulated with trace', newSimulationData);
+
+    return {
+      updateTransaction: (transaction: TransactionMeta) => {
+        transaction.simulationData = newSimulationData;
+      },
+    };
+  }
+}
@@ -0,0 +1,321 @@
+import {
+  SimulationData,
+  SimulationTokenStandard,
+  TransactionMeta,
+  TransactionStatus,
+} from '@metamask/transaction-controller';
+import { Hex } from '@metamask/utils';
+import { jsonRpcRequest } from '../../../../shared/modules/rpc.utils';
+import { SentinelNetwork, getSentinelNetworkFlags } from './sentinel-api';
+import {
+  SIMULATE_RPC_METHOD,
+  isSimulationOutcomeChanged,
+  resimulateBalanceChanges,
+} from './resimulation';
+
+jest.mock('../../../../shared/modules/rpc.utils');
+
+jest.mock('./sentinel-api', () => ({
+  ...jest.requireActual('./sentinel-api'),
+  getSentinelNetworkFlags: jest.fn(),
+}));
+
+const FROM_MOCK = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+const TOKEN_ADDRESS_MOCK = '0x1234567890abcdef1234567890abcdef12345678';
+const NEW_TOKEN_ADDRESS_MOCK = '0x3234567890abcdef1234567890abcdef12345678';
+const RECIPIENT_MOCK = '0x4234567890abcdef1234567890abcdef12345678';
+
+const TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+function addressToTopic(address: string) {
+  return `0x${address.slice(2).padStart(64, '0')}`;
+}
+
+const TRANSACTION_META_MOCK = {
+  chainId: '0x1',
+  id: '123-456',
+  networkClientId: 'mainnet',
+  status: TransactionStatus.unapproved,
+  time: 123,
+  txParams: {
+    data: '0x1234',
+    from: FROM_MOCK,
+    to: '0x2234567890abcdef1234567890abcdef12345678',
+    value: '0x0',
+  },
+  simulationData: {
+    tokenBalanceChanges: [
+      {
+        address: TOKEN_ADDRESS_MOCK,
+        difference: '0x5',
+        isDecrease: true,
+        newBalance: '0x5',
+        previousBalance: '0xa',
+        standard: SimulationTokenStandard.erc20,
+      },
+    ],
+  },
+} as TransactionMeta;
+
+function buildSimulationData(
+  nativeDifference: number,
+  tokenDifference?: number,
+): SimulationData {
+  const toChange = (difference: number) => ({
+    difference: `0x${Math.abs(difference).toString(16)}` as Hex,
+    isDecrease: difference < 0,
+    newBalance: '0x0' as Hex,
+    previousBalance: '0x0' as Hex,
+  });
+
+  return {
+    nativeBalanceChange: toChange(nativeDifference),
+    tokenBalanceChanges:
+      tokenDifference === undefined
+        ? []
+        : [
+            {
+              ...toChange(tokenDifference),
+              address: TOKEN_ADDRESS_MOCK,
+              standard: SimulationTokenStandard.erc20,
+            },
+          ],
+  };
+}
+
+describe('Resimulation Utils', () => {
+  const jsonRpcRequestMock = jest.mocked(jsonRpcRequest);
+  const getSentinelNetworkFlagsMock = jest.mocked(getSentinelNetworkFlags);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    getSentinelNetworkFlagsMock.mockResolvedValue({
+      network: 'ethereum-mainnet',
+    } as SentinelNetwork);
+  });
+
+  describe('resimulateBalanceChanges', () => {
+    it('returns balance changes of the sender', async () => {
+      jsonRpcRequestMock.mockResolvedValue({
+        transactions: [
+          { return: '0xa' },
+          {
+            return: '0x',
+            stateDiff: {
+              pre: { [FROM_MOCK]: { balance: '0x10' } },
+              post: { [FROM_MOCK]: { balance: '0x8' } },
+            },
+          },
+          { return: '0x3' },
+        ],
+      });
+
+      const simulationData = await resimulateBalanceChanges(
+        TRANSACTION_META_MOCK,
+      );
+
+      expect(simulationData).toStrictEqual({
+        nativeBalanceChange: {
+          difference: '0x8',
+          isDecrease: true,
+          newBalance: '0x8',
+          previousBalance: '0x10',
+        },
+        tokenBalanceChanges: [
+          {
+            ...TRANSACTION_META_MOCK.simulationData?.tokenBalanceChanges[0],
+            difference: '0x7',
+            isDecrease: true,
+            newBalance: '0x3',
+            previousBalance: '0xa',
+          },
+        ],
+      });
+
+      expect(jsonRpcRequestMock).toHaveBeenCalledWith(
+        'https://tx-sentinel-ethereum-mainnet.api.cx.metamask.io/',
+        SIMULATE_RPC_METHOD,
+        [
+          {
+            transactions: [
+              expect.objectContaining({ to: TOKEN_ADDRESS_MOCK }),
+              {
+                data: '0x1234',
+                from: FROM_MOCK,
+                to: '0x2234567890abcdef1234567890abcdef12345678',
+                value: '0x0',
+              },
+              expect.objectContaining({ to: TOKEN_ADDRESS_MOCK }),
+            ],
+            withCallTrace: true,
+            withLogs: true,
+          },
+        ],
+      );
+    });
+
+    it('includes the balance changes of tokens transferred but not shown', async () => {
+      jsonRpcRequestMock
+        .mockResolvedValueOnce({
+          transactions: [
+            { return: '0xa' },
+            {
+              return: '0x',
+              callTrace: {
+                from: FROM_MOCK,
+                type: 'CALL',
+                logs: [
+                  {
+                    address: NEW_TOKEN_ADDRESS_MOCK,
+                    data: `0x${'8'.padStart(64, '0')}`,
+                    topics: [
+                      TRANSFER_TOPIC,
+                      addressToTopic(FROM_MOCK),
+                      addressToTopic(RECIPIENT_MOCK),
+                    ],
+                  },
+                ],
+              },
+            },
+            { return: '0xa' },
+          ],
+        })
+        .mockResolvedValueOnce({
+          transactions: [
+            { return: '0xa' },
+            { return: '0x20' },
+            { return: '0x' },
+            { return: '0xa' },
+            { return: '0x18' },
+          ],
+        });
+
+      const simulationData = await resimulateBalanceChanges(
+        TRANSACTION_META_MOCK,
+      );
+
+      expect(jsonRpcRequestMock).toHaveBeenCalledTimes(2);
+      expect(jsonRpcRequestMock).toHaveBeenLastCalledWith(
+        expect.any(String),
+        SIMULATE_RPC_METHOD,
+        [
+          expect.objectContaining({
+            transactions: [
+              expect.objectContaining({ to: TOKEN_ADDRESS_MOCK }),
+              expect.objectContaining({ to: NEW_TOKEN_ADDRESS_MOCK }),
+              expect.objectContaining({ data: '0x1234' }),
+              expect.objectContaining({ to: TOKEN_ADDRESS_MOCK }),
+              expect.objectContaining({ to: NEW_TOKEN_ADDRESS_MOCK }),
+            ],
+          }),
+        ],
+      );
+      expect(simulationData.tokenBalanceChanges).toStrictEqual([
+        {
+          address: NEW_TOKEN_ADDRESS_MOCK,
+          difference: '0x8',
+          isDecrease: true,
+          newBalance: '0x18',
+          previousBalance: '0x20',
+          standard: SimulationTokenStandard.erc20,
+        },
+      ]);
+    });
+
+    it('throws if chain is not supported', async () => {
+      getSentinelNetworkFlagsMock.mockResolvedValue(undefined);
+
+      await expect(
+        resimulateBalanceChanges(TRANSACTION_META_MOCK),
+      ).rejects.toThrow('Chain not supported by simulation - 0x1');
+    });
+
+    it('throws if transaction simulation fails', async () => {
+      jsonRpcRequestMock.mockResolvedValue({
+        transactions: [
+          { return: '0xa' },
+          { return: '0x', error: 'execution reverted' },
+          { return: '0xa' },
+        ],
+      });
+
+      await expect(
+        resimulateBalanceChanges(TRANSACTION_META_MOCK),
+      ).rejects.toThrow('Simulation failed - execution reverted');
+    });
+  });
+
+  describe('isSimulationOutcomeChanged', () => {
+    it('returns false if balance changes are the same', () => {
+      expect(
+        isSimulationOutcomeChanged(
+          buildSimulationData(-100, 50),
+          buildSimulationData(-100, 50),
+          10,
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false if balance changes are within slippage', () => {
+      expect(
+        isSimulationOutcomeChanged(
+          buildSimulationData(-100, 50),
+          buildSimulationData(-110, 45),
+          10,
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false if balance changes are more favourable', () => {
+      expect(
+        isSimulationOutcomeChanged(
+          buildSimulationData(-100, 50),
+          buildSimulationData(-50, 80),
+          10,
+        ),
+      ).toBe(false);
+    });
+
+    it('returns true if decrease exceeds slippage', () => {
+      expect(
+        isSimulationOutcomeChanged(
+          buildSimulationData(-100),
+          buildSimulationData(-111),
+          10,
+        ),
+      ).toBe(true);
+    });
+
+    it('returns true if increase falls below slippage', () => {
+      expect(
+        isSimulationOutcomeChanged(
+          buildSimulationData(-100, 50),
+          buildSimulationData(-100, 44),
+          10,
+        ),
+      ).toBe(true);
+    });
+
+    it('returns true if the latest simulation has a balance change not shown', () => {
+      expect(
+        isSimulationOutcomeChanged(
+          buildSimulationData(-100),
+          buildSimulationData(-100, 50),
+          10,
+        ),
+      ).toBe(true);
+    });
+
+    it('returns true if expected increase is missing', () => {
+      expect(
+        isSimulationOutcomeChanged(
+          buildSimulationData(-100, 50),
+          buildSimulationData(-100),
+          10,
+        ),
+      ).toBe(true);
+    });
+  });
+});
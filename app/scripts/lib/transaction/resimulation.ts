@@ -0,0 +1,337 @@
+import { Interface } from '@ethersproject/abi';
+import { abiERC1155, abiERC20, abiERC721 } from '@metamask/metamask-eth-abis';
+import {
+  SimulationBalanceChange,
+  SimulationData,
+  SimulationTokenBalanceChange,
+  SimulationTokenStandard,
+  TransactionMeta,
+} from '@metamask/transaction-controller';
+import { Hex, add0x, createProjectLogger } from '@metamask/utils';
+import { BigNumber } from 'bignumber.js';
+import { jsonRpcRequest } from '../../../../shared/modules/rpc.utils';
+import { buildUrl, getSentinelNetworkFlags } from './sentinel-api';
+import {
+  TraceCallFrame,
+  getAssetKey,
+  getSuccessfulFrames,
+  getTokenDifferences,
+} from './token-transfers';
+
+const log = createProjectLogger('resimulation');
+
+export const SIMULATE_RPC_METHOD = 'infura_simulateTransactions';
+
+export type SimulationRequestTransaction = {
+  data?: Hex;
+  from: Hex;
+  to?: Hex;
+  value?: Hex;
+};
+
+export type SimulationTokenAsset = Pick<
+  SimulationTokenBalanceChange,
+  'address' | 'id' | 'standard'
+>;
+
+type SimulationResponse = {
+  transactions: {
+    callTrace?: TraceCallFrame;
+    error?: string;
+    return: Hex;
+    stateDiff?: {
+      pre?: Record<Hex, { balance?: Hex }>;
+      post?: Record<Hex, { balance?: Hex }>;
+    };
+  }[];
+};
+
+/**
+ * Simulates a transaction again to determine the balance changes of the sender
+ * for the same assets as the simulation data shown to the user, and for any
+ * other token the sender transfers in the latest simulation.
+ *
+ * @param transactionMeta - The transaction to simulate.
+ * @returns The latest simulation data.
+ */
+export async function resimulateBalanceChanges(
+  transactionMeta: TransactionMeta,
+): Promise<SimulationData> {
+  const { chainId, simulationData, txParams } = transactionMeta;
+  const from = txParams.from.toLowerCase() as Hex;
+  const shownAssets: SimulationTokenAsset[] =
+    simulationData?.tokenBalanceChanges ?? [];
+
+  const network = await getSentinelNetworkFlags(chainId);
+
+  if (!network) {
+    throw new Error(`Chain not supported by simulation - ${chainId}`);
+  }
+
+  const transaction = {
+    data: txParams.data as Hex | undefined,
+    from,
+    to: txParams.to as Hex | undefined,
+    value: txParams.value as Hex | undefined,
+  };
+
+  let assets = shownAssets;
+  let responses = await simulateWithTokenBalances(
+    network.network,
+    transaction,
+    assets,
+  );
+
+  const newAssets = getNewTransferredAssets(
+    from,
+    responses[assets.length],
+    assets,
+  );
+
+  // The balances of tokens not shown to the user are only known after the
+  // first simulation, so simulate again to include them.
+  if (newAssets.length) {
+    log('Resimulating with new assets', newAssets);
+
+    assets = [...shownAssets, ...newAssets];
+    responses = await simulateWithTokenBalances(
+      network.network,
+      transaction,
+      assets,
+    );
+  }
+
+  const transactionResponse = responses[assets.length];
+
+  const nativeBalanceChange = getBalanceChange(
+    transactionResponse?.stateDiff?.pre?.[from]?.balance,
+    transactionResponse?.stateDiff?.post?.[from]?.balance,
+  );
+
+  return {
+    nativeBalanceChange,
+    tokenBalanceChanges: assets
+      .map((asset, index) => {
+        const previousBalance = parseTokenBalance(
+          from,
+          asset,
+          responses[index]?.return,
+        );
+
+        const newBalance = parseTokenBalance(
+          from,
+          asset,
+          responses[assets.length + 1 + index]?.return,
+        );
+
+        const balanceChange = getBalanceChange(previousBalance, newBalance);
+
+        return balanceChange && { ...asset, ...balanceChange };
+      })
+      .filter((change): change is SimulationTokenBalanceChange =>
+        Boolean(change),
+      ),
+  };
+}
+
+/**
+ * Simulates a transaction between requests for the token balances of the
+ * sender before and after it.
+ *
+ * @param network - The name of the network in the simulation API.
+ * @param transaction - The transaction to simulate.
+ * @param assets - The tokens to request the balances of.
+ * @returns The responses of the balance requests and the transaction.
+ */
+async function simulateWithTokenBalances(
+  network: string,
+  transaction: SimulationRequestTransaction,
+  assets: SimulationTokenAsset[],
+): Promise<SimulationResponse['transactions']> {
+  const balanceRequests = assets.map((asset) =>
+    buildTokenBalanceRequest(transaction.from, asset),
+  );
+
+  const transactions = [...balanceRequests, transaction, ...balanceRequests];
+
+  log('Request', transactions);
+
+  const response = (await jsonRpcRequest(
+    buildUrl(network),
+    SIMULATE_RPC_METHOD,
+    [{ transactions, withCallTrace: true, withLogs: true }],
+  )) as SimulationResponse;
+
+  log('Response', response);
+
+  const transactionResponse = response.transactions[balanceRequests.length];
+
+  if (transactionResponse?.error) {
+    throw new Error(`Simulation failed - ${transactionResponse.error}`);
+  }
+
+  return response.transactions;
+}
+
+/**
+ * Gets the tokens transferred to or from the sender in the call trace of a
+ * simulated transaction, which are not among the given assets.
+ *
+ * @param from - The sender of the transaction.
+ * @param transactionResponse - The simulation response of the transaction.
+ * @param assets - The assets whose balances are already requested.
+ * @returns The other transferred assets.
+ */
+function getNewTransferredAssets(
+  from: Hex,
+  transactionResponse: SimulationResponse['transactions'][number] | undefined,
+  assets: SimulationTokenAsset[],
+): SimulationTokenAsset[] {
+  if (!transactionResponse?.callTrace) {
+    return [];
+  }
+
+  const assetKeys = new Set(assets.map(getAssetKey));
+
+  const differences = getTokenDifferences(
+    from,
+    getSuccessfulFrames(transactionResponse.callTrace),
+  );
+
+  return [...differences.entries()]
+    .filter(
+      ([key, { difference }]) => !assetKeys.has(key) && !difference.isZero(),
+    )
+    .map(([, { asset }]) => asset);
+}
+
+/**
+ * Determines if the latest simulation leaves the user worse off than the
+ * simulation they reviewed, beyond the given slippage.
+ *
+ * @param shown - The simulation data shown to the user.
+ * @param latest - The simulation data from the latest simulation.
+ * @param slippage - The tolerated percentage difference of each balance change.
+ * @returns True if the outcome of the transaction has changed.
+ */
+export function isSimulationOutcomeChanged(
+  shown: SimulationData,
+  latest: SimulationData,
+  slippage: number,
+): boolean {
+  const shownChanges = getSignedBalanceChanges(shown);
+  const latestChanges = getSignedBalanceChanges(latest);
+
+  // Any balance change the user did not review is a change of outcome.
+  if ([...latestChanges.keys()].some((asset) => !shownChanges.has(asset))) {
+    return true;
+  }
+
+  const assets = new Set([...shownChanges.keys(), ...latestChanges.keys()]);
+
+  return [...assets].some((asset) => {
+    const shownChange = shownChanges.get(asset) ?? new BigNumber(0);
+    const latestChange = latestChanges.get(asset) ?? new BigNumber(0);
+    const tolerance = shownChange.abs().mul(slippage).div(100);
+
+    return latestChange.lessThan(shownChange.minus(tolerance));
+  });
+}
+
+function getSignedBalanceChanges({
+  nativeBalanceChange,
+  tokenBalanceChanges = [],
+}: SimulationData): Map<string, BigNumber> {
+  const changes = new Map<string, BigNumber>();
+
+  if (nativeBalanceChange) {
+    changes.set('native', getSignedDifference(nativeBalanceChange));
+  }
+
+  for (const tokenBalanceChange of tokenBalanceChanges) {
+    changes.set(
+      getAssetKey(tokenBalanceChange),
+      getSignedDifference(tokenBalanceChange),
+    );
+  }
+
+  return changes;
+}
+
+function getSignedDifference({
+  difference,
+  isDecrease,
+}: SimulationBalanceChange): BigNumber {
+  const value = new BigNumber(difference);
+  return isDecrease ? value.neg() : value;
+}
+
+export function getBalanceChange(
+  previousBalance: Hex | undefined,
+  newBalance: Hex | undefined,
+): SimulationBalanceChange | undefined {
+  if (!previousBalance || !newBalance) {
+    return undefined;
+  }
+
+  const previous = new BigNumber(previousBalance);
+  const next = new BigNumber(newBalance);
+
+  if (previous.equals(next)) {
+    return undefined;
+  }
+
+  return {
+    difference: add0x(next.minus(previous).abs().toString(16)),
+    isDecrease: next.lessThan(previous),
+    newBalance,
+    previousBalance,
+  };
+}
+
+export function buildTokenBalanceRequest(
+  from: Hex,
+  { address, id, standard }: SimulationTokenAsset,
+): SimulationRequestTransaction {
+  let data: string;
+
+  switch (standard) {
+    case SimulationTokenStandard.erc721:
+      data = new Interface(abiERC721).encodeFunctionData('ownerOf', [id]);
+      break;
+
+    case SimulationTokenStandard.erc1155:
+      data = new Interface(abiERC1155).encodeFunctionData('balanceOf', [
+        from,
+        id,
+      ]);
+      break;
+
+    default:
+      data = new Interface(abiERC20).encodeFunctionData('balanceOf', [from]);
+      break;
+  }
+
+  return { data: data as Hex, from, to: address };
+}
+
+export function parseTokenBalance(
+  from: Hex,
+  { standard }: SimulationTokenAsset,
+  returnValue: Hex | undefined,
+): Hex | undefined {
+  if (!returnValue || returnValue === '0x') {
+    return undefined;
+  }
+
+  if (standard !== SimulationTokenStandard.erc721) {
+    return add0x(new BigNumber(returnValue).toString(16));
+  }
+
+  const [owner] = new Interface(abiERC721).decodeFunctionResult(
+    'ownerOf',
+    returnValue,
+  );
+
+  return owner.toLowerCase() === from.toLowerCase() ? '0x1' : '0x0';
+}
@@ -0,0 +1,112 @@
+import type { Provider } from '@metamask/network-controller';
+import {
+  TransactionMeta,
+  TransactionStatus,
+} from '@metamask/transaction-controller';
+import { TransactionControllerInitMessenger } from '../../controller-init/messengers/transaction-controller-messenger';
+import { SentinelNetwork, getSentinelNetworkFlags } from './sentinel-api';
+import { resimulateBalanceChanges } from './resimulation';
+import { simulateBalanceChangesWithTrace } from './trace-simulation';
+import {
+  HOSTED_SIMULATION_BACKEND,
+  SimulationBackendType,
+  getSimulationBackend,
+} from './simulation-backend';
+
+jest.mock('./resimulation');
+jest.mock('./sentinel-api');
+jest.mock('./trace-simulation');
+
+const PROVIDER_MOCK = {} as Provider;
+
+const TRANSACTION_META_MOCK = {
+  chainId: '0x7a69',
+  id: '123-456',
+  networkClientId: 'local',
+  status: TransactionStatus.unapproved,
+  time: 123,
+  txParams: {
+    from: '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc',
+  },
+} as TransactionMeta;
+
+const SIMULATION_DATA_MOCK = { tokenBalanceChanges: [] };
+
+describe('Simulation Backend', () => {
+  const getSentinelNetworkFlagsMock = jest.mocked(getSentinelNetworkFlags);
+  const resimulateBalanceChangesMock = jest.mocked(resimulateBalanceChanges);
+  const callMock = jest.fn();
+
+  const simulateBalanceChangesWithTraceMock = jest.mocked(
+    simulateBalanceChangesWithTrace,
+  );
+
+  const messenger = {
+    call: callMock,
+  } as unknown as TransactionControllerInitMessenger;
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    callMock.mockReturnValue({ provider: PROVIDER_MOCK });
+    resimulateBalanceChangesMock.mockResolvedValue(SIMULATION_DATA_MOCK);
+    simulateBalanceChangesWithTraceMock.mockResolvedValue(SIMULATION_DATA_MOCK);
+  });
+
+  describe('getSimulationBackend', () => {
+    it('returns hosted backend if chain supported', async () => {
+      getSentinelNetworkFlagsMock.mockResolvedValue({} as SentinelNetwork);
+
+      const backend = await getSimulationBackend({
+        messenger,
+        transactionMeta: TRANSACTION_META_MOCK,
+      });
+
+      expect(backend).toBe(HOSTED_SIMULATION_BACKEND);
+      expect(callMock).not.toHaveBeenCalled();
+    });
+
+    it('returns trace backend if chain not supported', async () => {
+      const backend = await getSimulationBackend({
+        messenger,
+        transactionMeta: TRANSACTION_META_MOCK,
+      });
+
+      expect(backend.type).toBe(SimulationBackendType.Trace);
+      expect(callMock).toHaveBeenCalledWith(
+        'NetworkController:getNetworkClientById',
+        TRANSACTION_META_MOCK.networkClientId,
+      );
+    });
+  });
+
+  describe('simulateBalanceChanges', () => {
+    it('uses resimulation if hosted backend', async () => {
+      const result = await HOSTED_SIMULATION_BACKEND.simulateBalanceChanges(
+        TRANSACTION_META_MOCK,
+      );
+
+      expect(result).toBe(SIMULATION_DATA_MOCK);
+      expect(resimulateBalanceChangesMock).toHaveBeenCalledWith(
+        TRANSACTION_META_MOCK,
+      );
+    });
+
+    it('uses network provider if trace backend', async () => {
+      const backend = await getSimulationBackend({
+        messenger,
+        transactionMeta: TRANSACTION_META_MOCK,
+      });
+
+      const result = await backend.simulateBalanceChanges(
+        TRANSACTION_META_MOCK,
+      );
+
+      expect(result).toBe(SIMULATION_DATA_MOCK);
+      expect(simulateBalanceChangesWithTraceMock).toHaveBeenCalledWith(
+        TRANSACTION_META_MOCK,
+        PROVIDER_MOCK,
+      );
+    });
+  });
+});
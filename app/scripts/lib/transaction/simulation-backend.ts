@@ -0,0 +1,86 @@
+import type { Provider } from '@metamask/network-controller';
+import {
+  SimulationData,
+  TransactionMeta,
+} from '@metamask/transaction-controller';
+import { createProjectLogger } from '@metamask/utils';
+import { TransactionControllerInitMessenger } from '../../controller-init/messengers/transaction-controller-messenger';
+import { resimulateBalanceChanges } from './resimulation';
+import { getSentinelNetworkFlags } from './sentinel-api';
+import { simulateBalanceChangesWithTrace } from './trace-simulation';
+
+const log = createProjectLogger('simulation-backend');
+
+export enum SimulationBackendType {
+  Hosted = 'hosted',
+  Trace = 'trace',
+}
+
+export type SimulationBackend = {
+  type: SimulationBackendType;
+
+  /**
+   * Simulate the transaction to determine the balance changes of the sender.
+   *
+   * @param transactionMeta - The transaction to simulate.
+   * @returns The simulation data.
+   */
+  simulateBalanceChanges: (
+    transactionMeta: TransactionMeta,
+  ) => Promise<SimulationData>;
+};
+
+export const HOSTED_SIMULATION_BACKEND: SimulationBackend = {
+  type: SimulationBackendType.Hosted,
+  simulateBalanceChanges: resimulateBalanceChanges,
+};
+
+/**
+ * Create a simulation backend that traces the transaction using the RPC
+ * of the network, for chains not supported by the hosted simulation API.
+ *
+ * @param provider - The provider of the network to simulate on.
+ * @returns The simulation backend.
+ */
+export function createTraceSimulationBackend(
+  provider: Provider,
+): SimulationBackend {
+  return {
+    type: SimulationBackendType.Trace,
+    simulateBalanceChanges: (transactionMeta) =>
+      simulateBalanceChangesWithTrace(transactionMeta, provider),
+  };
+}
+
+/**
+ * Determine which simulation backend to use for a transaction.
+ * Prefers the hosted simulation API and falls back to tracing
+ * with the network RPC if the chain is not supported.
+ *
+ * @param request - The request object.
+ * @param request.messenger - The messenger to retrieve the network client.
+ * @param request.transactionMeta - The transaction to simulate.
+ * @returns The simulation backend.
+ */
+export async function getSimulationBackend({
+  messenger,
+  transactionMeta,
+}: {
+  messenger: TransactionControllerInitMessenger;
+  transactionMeta: TransactionMeta;
+}): Promise<SimulationBackend> {
+  const { chainId, networkClientId } = transactionMeta;
+
+  if (await getSentinelNetworkFlags(chainId)) {
+    return HOSTED_SIMULATION_BACKEND;
+  }
+
+  log('Using trace simulation as chain not supported', chainId);
+
+  const { provider } = messenger.call(
+    'NetworkController:getNetworkClientById',
+    networkClientId,
+  );
+
+  return createTraceSimulationBackend(provider);
+}
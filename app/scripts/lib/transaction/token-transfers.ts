@@ -0,0 +1,194 @@
+import { Interface } from '@ethersproject/abi';
+import type { BigNumber as EthersBigNumber } from '@ethersproject/bignumber';
+import { abiERC1155 } from '@metamask/metamask-eth-abis';
+import { SimulationTokenStandard } from '@metamask/transaction-controller';
+import { Hex, add0x, createProjectLogger } from '@metamask/utils';
+import { BigNumber } from 'bignumber.js';
+import type { SimulationTokenAsset } from './resimulation';
+
+const log = createProjectLogger('token-transfers');
+
+const TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const TRANSFER_SINGLE_TOPIC =
+  '0xc3d58168c5ae7397731d063d5bbf3d657854427343f4c083240f7aacaa2d0f62';
+
+const TRANSFER_BATCH_TOPIC =
+  '0x4a39dc06d4c0dbc64b70af90fd698a233a518aa5d07e595d983b8c0526c8f7fb';
+
+export type TraceLog = {
+  address: Hex;
+  data: Hex;
+  topics: Hex[];
+};
+
+export type TraceCallFrame = {
+  calls?: TraceCallFrame[];
+  error?: string;
+  from: Hex;
+  logs?: TraceLog[];
+  revertReason?: string;
+  to?: Hex;
+  type: string;
+  value?: Hex;
+};
+
+type TokenTransfer = {
+  amount: BigNumber;
+  asset: SimulationTokenAsset;
+  from: Hex;
+  to: Hex;
+};
+
+/**
+ * Gets a key identifying a token asset, and the token ID for NFTs.
+ *
+ * @param asset - The token asset.
+ * @returns The asset key.
+ */
+export function getAssetKey({ address, id }: SimulationTokenAsset): string {
+  return `${address.toLowerCase()}:${id ? normalizeId(id) : ''}`;
+}
+
+/**
+ * Gets the frames of a call trace that did not revert, including the nested
+ * frames of successful calls.
+ *
+ * @param frame - The root frame of the call trace.
+ * @returns The successful frames.
+ */
+export function getSuccessfulFrames(frame: TraceCallFrame): TraceCallFrame[] {
+  if (frame.error) {
+    return [];
+  }
+
+  return [
+    frame,
+    ...(frame.calls ?? []).flatMap((call) => getSuccessfulFrames(call)),
+  ];
+}
+
+/**
+ * Sums the token transfers to and from an account, as emitted in the logs of
+ * the given frames.
+ *
+ * @param from - The account to sum the transfers of.
+ * @param frames - The frames of the call trace.
+ * @returns The difference of each asset, by asset key.
+ */
+export function getTokenDifferences(
+  from: Hex,
+  frames: TraceCallFrame[],
+): Map<string, { asset: SimulationTokenAsset; difference: BigNumber }> {
+  const differences = new Map<
+    string,
+    { asset: SimulationTokenAsset; difference: BigNumber }
+  >();
+
+  const transfers = frames
+    .flatMap((frame) => frame.logs ?? [])
+    .flatMap((traceLog) => parseTransfers(traceLog));
+
+  for (const transfer of transfers) {
+    const isOutgoing = isSameAddress(transfer.from, from);
+    const isIncoming = isSameAddress(transfer.to, from);
+
+    if (isOutgoing === isIncoming) {
+      continue;
+    }
+
+    const { asset } = transfer;
+    const key = getAssetKey(asset);
+    const current = differences.get(key)?.difference ?? new BigNumber(0);
+
+    differences.set(key, {
+      asset,
+      difference: isIncoming
+        ? current.plus(transfer.amount)
+        : current.minus(transfer.amount),
+    });
+  }
+
+  return differences;
+}
+
+function parseTransfers({ address, data, topics }: TraceLog): TokenTransfer[] {
+  const [topic] = topics;
+  const tokenAddress = address.toLowerCase() as Hex;
+
+  try {
+    if (topic === TRANSFER_TOPIC && topics.length === 3) {
+      return [
+        {
+          amount: new BigNumber(data),
+          asset: {
+            address: tokenAddress,
+            standard: SimulationTokenStandard.erc20,
+          },
+          from: topicToAddress(topics[1]),
+          to: topicToAddress(topics[2]),
+        },
+      ];
+    }
+
+    if (topic === TRANSFER_TOPIC && topics.length === 4) {
+      return [
+        {
+          amount: new BigNumber(1),
+          asset: {
+            address: tokenAddress,
+            id: normalizeId(topics[3]),
+            standard: SimulationTokenStandard.erc721,
+          },
+          from: topicToAddress(topics[1]),
+          to: topicToAddress(topics[2]),
+        },
+      ];
+    }
+
+    if (topic === TRANSFER_SINGLE_TOPIC || topic === TRANSFER_BATCH_TOPIC) {
+      return parseERC1155Transfers(tokenAddress, data, topics);
+    }
+  } catch (error) {
+    log('Failed to parse transfer log', { address, error });
+  }
+
+  return [];
+}
+
+function parseERC1155Transfers(
+  address: Hex,
+  data: Hex,
+  topics: Hex[],
+): TokenTransfer[] {
+  const { args, name } = new Interface(abiERC1155).parseLog({ data, topics });
+  const isSingle = name === 'TransferSingle';
+
+  // Positional as `values` conflicts with the array method of the result.
+  const ids: EthersBigNumber[] = isSingle ? [args[3]] : args[3];
+  const values: EthersBigNumber[] = isSingle ? [args[4]] : args[4];
+
+  return ids.map((id, index) => ({
+    amount: new BigNumber(values[index].toHexString()),
+    asset: {
+      address,
+      id: normalizeId(id.toHexString()),
+      standard: SimulationTokenStandard.erc1155,
+    },
+    from: args.from.toLowerCase() as Hex,
+    to: args.to.toLowerCase() as Hex,
+  }));
+}
+
+function topicToAddress(topic: Hex): Hex {
+  return add0x(topic.slice(-40).toLowerCase());
+}
+
+function normalizeId(id: Hex): Hex {
+  return add0x(new BigNumber(id).toString(16));
+}
+
+export function isSameAddress(first: Hex, second: Hex): boolean {
+  return first.toLowerCase() === second.toLowerCase();
+}
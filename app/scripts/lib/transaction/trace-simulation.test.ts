@@ -0,0 +1,309 @@
+import { Interface } from '@ethersproject/abi';
+import { abiERC1155 } from '@metamask/metamask-eth-abis';
+import type { Provider } from '@metamask/network-controller';
+import {
+  SimulationTokenStandard,
+  TransactionMeta,
+  TransactionStatus,
+} from '@metamask/transaction-controller';
+import { Hex } from '@metamask/utils';
+import {
+  TRACE_RPC_METHOD,
+  simulateBalanceChangesWithTrace,
+} from './trace-simulation';
+
+const FROM_MOCK = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+const TO_MOCK = '0x2234567890abcdef1234567890abcdef12345678';
+const OTHER_MOCK = '0x3234567890abcdef1234567890abcdef12345678';
+const TOKEN_ADDRESS_MOCK = '0x1234567890abcdef1234567890abcdef12345678';
+
+const TRANSFER_TOPIC =
+  '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+const TRANSACTION_META_MOCK = {
+  chainId: '0x7a69',
+  id: '123-456',
+  networkClientId: 'local',
+  status: TransactionStatus.unapproved,
+  time: 123,
+  txParams: {
+    data: '0x1234',
+    from: FROM_MOCK,
+    to: TO_MOCK,
+    value: '0x10',
+  },
+} as TransactionMeta;
+
+function toTopic(address: string): Hex {
+  return `0x${address.slice(2).padStart(64, '0')}`;
+}
+
+function toWord(value: number): Hex {
+  return `0x${value.toString(16).padStart(64, '0')}`;
+}
+
+function buildERC20TransferLog(from: string, to: string, amount: number) {
+  return {
+    address: TOKEN_ADDRESS_MOCK,
+    data: toWord(amount),
+    topics: [TRANSFER_TOPIC, toTopic(from), toTopic(to)],
+  };
+}
+
+describe('Trace Simulation', () => {
+  const requestMock = jest.fn();
+  const provider = { request: requestMock } as unknown as Provider;
+
+  function mockResponses({
+    balance = '0x100',
+    tokenBalance = toWord(10),
+    trace,
+  }: {
+    balance?: Hex;
+    tokenBalance?: Hex;
+    trace: Record<string, unknown>;
+  }) {
+    requestMock.mockImplementation(({ method }: { method: string }) => {
+      switch (method) {
+        case TRACE_RPC_METHOD:
+          return Promise.resolve(trace);
+        case 'eth_getBalance':
+          return Promise.resolve(balance);
+        default:
+          return Promise.resolve(tokenBalance);
+      }
+    });
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  describe('simulateBalanceChangesWithTrace', () => {
+    it('traces transaction using call tracer', async () => {
+      mockResponses({ trace: { type: 'CALL', from: FROM_MOCK, to: TO_MOCK } });
+
+      await simulateBalanceChangesWithTrace(TRANSACTION_META_MOCK, provider);
+
+      expect(requestMock).toHaveBeenCalledWith({
+        method: TRACE_RPC_METHOD,
+        params: [
+          {
+            data: '0x1234',
+            from: FROM_MOCK,
+            gas: undefined,
+            to: TO_MOCK,
+            value: '0x10',
+          },
+          'latest',
+          { tracer: 'callTracer', tracerConfig: { withLog: true } },
+        ],
+      });
+    });
+
+    it('returns native balance change from value transfers', async () => {
+      mockResponses({
+        trace: {
+          type: 'CALL',
+          from: FROM_MOCK,
+          to: TO_MOCK,
+          value: '0x10',
+          calls: [
+            { type: 'CALL', from: TO_MOCK, to: FROM_MOCK, value: '0x4' },
+            {
+              type: 'DELEGATECALL',
+              from: TO_MOCK,
+              to: OTHER_MOCK,
+              value: '0x10',
+            },
+          ],
+        },
+      });
+
+      const result = await simulateBalanceChangesWithTrace(
+        TRANSACTION_META_MOCK,
+        provider,
+      );
+
+      expect(result).toStrictEqual({
+        nativeBalanceChange: {
+          difference: '0xc',
+          isDecrease: true,
+          newBalance: '0xf4',
+          previousBalance: '0x100',
+        },
+        tokenBalanceChanges: [],
+      });
+    });
+
+    it('returns token balance changes from transfer logs', async () => {
+      mockResponses({
+        trace: {
+          type: 'CALL',
+          from: FROM_MOCK,
+          to: TO_MOCK,
+          calls: [
+            {
+              type: 'CALL',
+              from: TO_MOCK,
+              to: TOKEN_ADDRESS_MOCK,
+              logs: [
+                buildERC20TransferLog(FROM_MOCK, TO_MOCK, 7),
+                buildERC20TransferLog(TO_MOCK, FROM_MOCK, 2),
+                buildERC20TransferLog(TO_MOCK, OTHER_MOCK, 5),
+              ],
+            },
+          ],
+        },
+      });
+
+      const result = await simulateBalanceChangesWithTrace(
+        TRANSACTION_META_MOCK,
+        provider,
+      );
+
+      expect(result.nativeBalanceChange).toBeUndefined();
+      expect(result.tokenBalanceChanges).toStrictEqual([
+        {
+          address: TOKEN_ADDRESS_MOCK,
+          difference: '0x5',
+          isDecrease: true,
+          newBalance: '0x5',
+          previousBalance: '0xa',
+          standard: SimulationTokenStandard.erc20,
+        },
+      ]);
+    });
+
+    it('returns ERC-721 balance changes', async () => {
+      mockResponses({
+        tokenBalance: toTopic(OTHER_MOCK),
+        trace: {
+          type: 'CALL',
+          from: FROM_MOCK,
+          to: TOKEN_ADDRESS_MOCK,
+          logs: [
+            {
+              address: TOKEN_ADDRESS_MOCK,
+              data: '0x',
+              topics: [
+                TRANSFER_TOPIC,
+                toTopic(OTHER_MOCK),
+                toTopic(FROM_MOCK),
+                toWord(3),
+              ],
+            },
+          ],
+        },
+      });
+
+      const result = await simulateBalanceChangesWithTrace(
+        TRANSACTION_META_MOCK,
+        provider,
+      );
+
+      expect(result.tokenBalanceChanges).toStrictEqual([
+        {
+          address: TOKEN_ADDRESS_MOCK,
+          difference: '0x1',
+          id: '0x3',
+          isDecrease: false,
+          newBalance: '0x1',
+          previousBalance: '0x0',
+          standard: SimulationTokenStandard.erc721,
+        },
+      ]);
+    });
+
+    it('returns ERC-1155 balance changes', async () => {
+      const erc1155 = new Interface(abiERC1155);
+
+      const { data, topics } = erc1155.encodeEventLog(
+        erc1155.getEvent('TransferBatch'),
+        [TO_MOCK, FROM_MOCK, OTHER_MOCK, [1, 2], [4, 6]],
+      );
+
+      mockResponses({
+        tokenBalance: toWord(6),
+        trace: {
+          type: 'CALL',
+          from: FROM_MOCK,
+          to: TOKEN_ADDRESS_MOCK,
+          logs: [{ address: TOKEN_ADDRESS_MOCK, data, topics }],
+        },
+      });
+
+      const result = await simulateBalanceChangesWithTrace(
+        TRANSACTION_META_MOCK,
+        provider,
+      );
+
+      expect(result.tokenBalanceChanges).toStrictEqual([
+        {
+          address: TOKEN_ADDRESS_MOCK,
+          difference: '0x4',
+          id: '0x1',
+          isDecrease: true,
+          newBalance: '0x2',
+          previousBalance: '0x6',
+          standard: SimulationTokenStandard.erc1155,
+        },
+        {
+          address: TOKEN_ADDRESS_MOCK,
+          difference: '0x6',
+          id: '0x2',
+          isDecrease: true,
+          newBalance: '0x0',
+          previousBalance: '0x6',
+          standard: SimulationTokenStandard.erc1155,
+        },
+      ]);
+    });
+
+    it('ignores transfers in reverted calls', async () => {
+      mockResponses({
+        trace: {
+          type: 'CALL',
+          from: FROM_MOCK,
+          to: TO_MOCK,
+          calls: [
+            {
+              type: 'CALL',
+              error: 'execution reverted',
+              from: TO_MOCK,
+              to: TOKEN_ADDRESS_MOCK,
+              value: '0x1',
+              logs: [buildERC20TransferLog(FROM_MOCK, TO_MOCK, 7)],
+            },
+          ],
+        },
+      });
+
+      const result = await simulateBalanceChangesWithTrace(
+        TRANSACTION_META_MOCK,
+        provider,
+      );
+
+      expect(result).toStrictEqual({
+        nativeBalanceChange: undefined,
+        tokenBalanceChanges: [],
+      });
+    });
+
+    it('throws if transaction reverts', async () => {
+      mockResponses({
+        trace: {
+          type: 'CALL',
+          error: 'execution reverted',
+          revertReason: 'Insufficient balance',
+          from: FROM_MOCK,
+          to: TO_MOCK,
+        },
+      });
+
+      await expect(
+        simulateBalanceChangesWithTrace(TRANSACTION_META_MOCK, provider),
+      ).rejects.toThrow('Simulation failed - Insufficient balance');
+    });
+  });
+});
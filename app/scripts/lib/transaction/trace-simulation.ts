@@ -0,0 +1,166 @@
+import type { Provider } from '@metamask/network-controller';
+import {
+  SimulationData,
+  SimulationTokenBalanceChange,
+  TransactionMeta,
+} from '@metamask/transaction-controller';
+import {
+  Hex,
+  JsonRpcParams,
+  add0x,
+  createProjectLogger,
+} from '@metamask/utils';
+import { BigNumber } from 'bignumber.js';
+import {
+  SimulationTokenAsset,
+  buildTokenBalanceRequest,
+  getBalanceChange,
+  parseTokenBalance,
+} from './resimulation';
+import {
+  TraceCallFrame,
+  getSuccessfulFrames,
+  getTokenDifferences,
+  isSameAddress,
+} from './token-transfers';
+
+const log = createProjectLogger('trace-simulation');
+
+export const TRACE_RPC_METHOD = 'debug_traceCall';
+
+// Delegate and static calls cannot move value out of the calling account.
+const VALUE_CALL_TYPES = ['CALL', 'CREATE', 'CREATE2', 'SELFDESTRUCT'];
+
+/**
+ * Simulates a transaction using `debug_traceCall` on the given provider to
+ * determine the balance changes of the sender.
+ * Supports any node exposing the call tracer, such as Geth, Reth or Anvil.
+ *
+ * @param transactionMeta - The transaction to simulate.
+ * @param provider - The provider of the network to simulate on.
+ * @returns The simulation data derived from the trace.
+ */
+export async function simulateBalanceChangesWithTrace(
+  transactionMeta: TransactionMeta,
+  provider: Provider,
+): Promise<SimulationData> {
+  const { txParams } = transactionMeta;
+  const from = txParams.from.toLowerCase() as Hex;
+
+  const request = {
+    data: txParams.data as Hex | undefined,
+    from,
+    gas: txParams.gas as Hex | undefined,
+    to: txParams.to as Hex | undefined,
+    value: txParams.value as Hex | undefined,
+  };
+
+  log('Request', request);
+
+  const trace = await provider.request<JsonRpcParams, TraceCallFrame>({
+    method: TRACE_RPC_METHOD,
+    params: [
+      request,
+      'latest',
+      { tracer: 'callTracer', tracerConfig: { withLog: true } },
+    ],
+  });
+
+  log('Response', trace);
+
+  if (trace.error) {
+    throw new Error(`Simulation failed - ${trace.revertReason ?? trace.error}`);
+  }
+
+  const frames = getSuccessfulFrames(trace);
+  const nativeDifference = getNativeDifference(from, frames);
+  const tokenDifferences = getTokenDifferences(from, frames);
+
+  const nativeBalanceChange = nativeDifference.isZero()
+    ? undefined
+    : await getNativeBalanceChange(provider, from, nativeDifference);
+
+  const tokenBalanceChanges = await Promise.all(
+    [...tokenDifferences.values()].map(({ asset, difference }) =>
+      getTokenBalanceChange(provider, from, asset, difference),
+    ),
+  );
+
+  return {
+    nativeBalanceChange,
+    tokenBalanceChanges: tokenBalanceChanges.filter(
+      (change): change is SimulationTokenBalanceChange => Boolean(change),
+    ),
+  };
+}
+
+function getNativeDifference(from: Hex, frames: TraceCallFrame[]): BigNumber {
+  return frames
+    .filter(
+      ({ type, value }) =>
+        VALUE_CALL_TYPES.includes(type.toUpperCase()) && value,
+    )
+    .reduce((total, frame) => {
+      const value = new BigNumber(frame.value as Hex);
+      let result = total;
+
+      if (isSameAddress(frame.from, from)) {
+        result = result.minus(value);
+      }
+
+      if (frame.to && isSameAddress(frame.to, from)) {
+        result = result.plus(value);
+      }
+
+      return result;
+    }, new BigNumber(0));
+}
+
+async function getNativeBalanceChange(
+  provider: Provider,
+  from: Hex,
+  difference: BigNumber,
+) {
+  const previousBalance = await provider.request<JsonRpcParams, Hex>({
+    method: 'eth_getBalance',
+    params: [from, 'latest'],
+  });
+
+  return getBalanceChange(
+    previousBalance,
+    applyDifference(previousBalance, difference),
+  );
+}
+
+async function getTokenBalanceChange(
+  provider: Provider,
+  from: Hex,
+  asset: SimulationTokenAsset,
+  difference: BigNumber,
+): Promise<SimulationTokenBalanceChange | undefined> {
+  const returnValue = await provider.request<JsonRpcParams, Hex>({
+    method: 'eth_call',
+    params: [buildTokenBalanceRequest(from, asset), 'latest'],
+  });
+
+  const previousBalance = parseTokenBalance(from, asset, returnValue);
+
+  const balanceChange =
+    previousBalance &&
+    getBalanceChange(
+      previousBalance,
+      applyDifference(previousBalance, difference),
+    );
+
+  return balanceChange && { ...asset, ...balanceChange };
+}
+
+function applyDifference(balance: Hex, difference: BigNumber): Hex | undefined {
+  const newBalance = new BigNumber(balance).plus(difference);
+
+  if (newBalance.isNegative()) {
+    return undefined;
+  }
+
+  return add0x(newBalance.toString(16));
+}
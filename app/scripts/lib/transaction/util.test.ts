@@ -19,6 +19,7 @@ import { flushPromises } from '../../../../test/lib/timer-helpers';
 import { createMockInternalAccount } from '../../../../test/jest/mocks';
 import { ORIGIN_METAMASK } from '../../../../shared/constants/app';
 import { CHAIN_IDS } from '../../../../shared/constants/network';
+import { DelegationTargetStatus } from '../../../../shared/types/delegation-target';
 import { scanAddressAndAddToCache } from '../trust-signals/security-alerts-api';
 import {
   SupportedEVMChain,
@@ -554,6 +555,7 @@ describe('Transaction Utils', () => {
           expect.any(Function),
           expect.any(Function),
           SupportedEVMChain.Ethereum,
+          undefined,
         );
       });
 
@@ -603,6 +605,72 @@ describe('Transaction Utils', () => {
         expect(transactionMeta).toStrictEqual(TRANSACTION_META_MOCK);
       });
     });
+
+    describe('validates delegation targets', () => {
+      const DELEGATION_TARGET_MOCK =
+        '0x1234567890abcdef1234567890abcdef12345678';
+
+      beforeEach(() => {
+        request.chainId = '0x1';
+        request.transactionParams = {
+          ...TRANSACTION_PARAMS_MOCK,
+          authorizationList: [{ address: DELEGATION_TARGET_MOCK }],
+        };
+      });
+
+      it('adds transaction if target is trusted', async () => {
+        const reviewDelegationTargetMock = jest.fn().mockResolvedValue({
+          address: DELEGATION_TARGET_MOCK,
+          status: DelegationTargetStatus.Trusted,
+        });
+
+        await addTransaction({
+          ...request,
+          reviewDelegationTarget: reviewDelegationTargetMock,
+        });
+
+        expect(reviewDelegationTargetMock).toHaveBeenCalledWith({
+          address: DELEGATION_TARGET_MOCK,
+          chainId: '0x1',
+        });
+        expect(transactionController.addTransaction).toHaveBeenCalledTimes(1);
+      });
+
+      it('throws if target is unknown', async () => {
+        const reviewDelegationTargetMock = jest.fn().mockResolvedValue({
+          address: DELEGATION_TARGET_MOCK,
+          status: DelegationTargetStatus.Unknown,
+        });
+
+        await expect(
+          addTransaction({
+            ...request,
+            reviewDelegationTarget: reviewDelegationTargetMock,
+          }),
+        ).rejects.toThrow(
+          `Delegation target "${DELEGATION_TARGET_MOCK}" is not trusted.`,
+        );
+
+        expect(transactionController.addTransaction).not.toHaveBeenCalled();
+      });
+
+      it('adds wallet upgrade transaction if target is unknown', async () => {
+        const reviewDelegationTargetMock = jest.fn().mockResolvedValue({
+          address: DELEGATION_TARGET_MOCK,
+          status: DelegationTargetStatus.Unknown,
+        });
+
+        request.transactionOptions.origin = ORIGIN_METAMASK;
+
+        await addTransaction({
+          ...request,
+          reviewDelegationTarget: reviewDelegationTargetMock,
+        });
+
+        expect(reviewDelegationTargetMock).not.toHaveBeenCalled();
+        expect(transactionController.addTransaction).toHaveBeenCalledTimes(1);
+      });
+    });
   });
 
   describe('addDappTransaction', () => {
@@ -641,6 +709,71 @@ describe('Transaction Utils', () => {
       });
     });
 
+    describe('validates delegation targets', () => {
+      const DELEGATION_TARGET_MOCK =
+        '0x1234567890abcdef1234567890abcdef12345678';
+
+      beforeEach(() => {
+        dappRequest.chainId = '0x1';
+        dappRequest.transactionParams = {
+          ...TRANSACTION_PARAMS_MOCK,
+          authorizationList: [{ address: DELEGATION_TARGET_MOCK }],
+        };
+      });
+
+      it('adds transaction if target is trusted', async () => {
+        const reviewDelegationTargetMock = jest.fn().mockResolvedValue({
+          address: DELEGATION_TARGET_MOCK,
+          status: DelegationTargetStatus.Trusted,
+        });
+
+        await addDappTransaction({
+          ...dappRequest,
+          reviewDelegationTarget: reviewDelegationTargetMock,
+        });
+
+        expect(reviewDelegationTargetMock).toHaveBeenCalledWith({
+          address: DELEGATION_TARGET_MOCK,
+          chainId: '0x1',
+        });
+        expect(transactionController.addTransaction).toHaveBeenCalledTimes(1);
+      });
+
+      it('throws if target is unknown', async () => {
+        const reviewDelegationTargetMock = jest.fn().mockResolvedValue({
+          address: DELEGATION_TARGET_MOCK,
+          status: DelegationTargetStatus.Unknown,
+        });
+
+        await expect(
+          addDappTransaction({
+            ...dappRequest,
+            reviewDelegationTarget: reviewDelegationTargetMock,
+          }),
+        ).rejects.toThrow(
+          `Delegation target "${DELEGATION_TARGET_MOCK}" is not trusted.`,
+        );
+
+        expect(transactionController.addTransaction).not.toHaveBeenCalled();
+      });
+
+      it('throws if target code has changed', async () => {
+        const reviewDelegationTargetMock = jest.fn().mockResolvedValue({
+          address: DELEGATION_TARGET_MOCK,
+          status: DelegationTargetStatus.CodeChanged,
+        });
+
+        await expect(
+          addDappTransaction({
+            ...dappRequest,
+            reviewDelegationTarget: reviewDelegationTargetMock,
+          }),
+        ).rejects.toThrow(
+          `The code of delegation target "${DELEGATION_TARGET_MOCK}" has changed since it was trusted.`,
+        );
+      });
+    });
+
     describe('if selected account is smart contract', () => {
       beforeEach(() => {
         request.selectedAccount.type = 'eip155:erc4337';
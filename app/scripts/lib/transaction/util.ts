@@ -15,21 +15,33 @@ import { addHexPrefix } from 'ethereumjs-util';
 import { PPOMController } from '@metamask/ppom-validator';
 
 import {
+  addPolicyViolations,
   generateSecurityAlertId,
   handlePPOMError,
+  SECURITY_POLICY_ONLY_RESPONSE,
   validateRequestWithPPOM,
 } from '../ppom/ppom-util';
 import {
-  SecurityAlertResponse,
   UpdateSecurityAlertResponse,
   GetSecurityAlertsConfig,
+  GetSecurityPolicies,
 } from '../ppom/types';
+import { SecurityProviderRegistry } from '../security-provider/security-provider-registry';
 import {
   LOADING_SECURITY_ALERT_RESPONSE,
   SECURITY_PROVIDER_EXCLUDED_TRANSACTION_TYPES,
 } from '../../../../shared/constants/security-provider';
 import { endTrace, TraceName } from '../../../../shared/lib/trace';
-import { ORIGIN_METAMASK } from '../../../../shared/constants/app';
+import {
+  MESSAGE_TYPE,
+  ORIGIN_METAMASK,
+} from '../../../../shared/constants/app';
+import { SecurityPolicyViolation } from '../../../../shared/constants/security-policy';
+import {
+  createSecurityPolicyBlockedError,
+  evaluateSecurityPolicies,
+  hasBlockingViolation,
+} from '../../../../shared/lib/security-policy';
 import { scanAddressAndAddToCache } from '../trust-signals/security-alerts-api';
 import {
   mapChainIdToSupportedEVMChain,
@@ -37,6 +49,10 @@ import {
   GetAddressSecurityAlertResponse,
   ScanAddressResponse,
 } from '../../../../shared/lib/trust-signals';
+import {
+  ReviewDelegationTarget,
+  validateDelegationTargets,
+} from './delegation-targets';
 
 export type AddTransactionOptions = NonNullable<
   Parameters<TransactionController['addTransaction']>[1]
@@ -55,6 +71,8 @@ type BaseAddTransactionRequest = {
   internalAccounts: InternalAccount[];
   getSecurityAlertResponse: GetAddressSecurityAlertResponse;
   addSecurityAlertResponse: AddAddressSecurityAlertResponse;
+  securityProviderRegistry?: SecurityProviderRegistry;
+  reviewDelegationTarget?: ReviewDelegationTarget;
 };
 
 type FinalAddTransactionRequest = BaseAddTransactionRequest & {
@@ -64,6 +82,7 @@ type FinalAddTransactionRequest = BaseAddTransactionRequest & {
 export type AddTransactionRequest = FinalAddTransactionRequest & {
   waitForSubmit: boolean;
   getSecurityAlertsConfig?: GetSecurityAlertsConfig;
+  getSecurityPolicies?: GetSecurityPolicies;
 };
 
 export type AddDappTransactionRequest = BaseAddTransactionRequest & {
@@ -79,6 +98,8 @@ export async function addDappTransaction(
   const { id: actionId, method, origin } = dappRequest;
   const { securityAlertResponse, traceContext } = dappRequest;
 
+  await validateTransactionDelegationTargets(request);
+
   const transactionOptions: Partial<AddTransactionOptions> = {
     actionId,
     method,
@@ -108,7 +129,27 @@ export async function addDappTransaction(
 export async function addTransaction(
   request: AddTransactionRequest,
 ): Promise<TransactionMeta> {
-  await validateSecurity(request);
+  const policyViolations = evaluateSecurityPolicies(
+    {
+      method: MESSAGE_TYPE.ETH_SEND_TRANSACTION,
+      params: [request.transactionParams],
+    },
+    request.getSecurityPolicies?.(),
+  );
+
+  if (hasBlockingViolation(policyViolations)) {
+    throw createSecurityPolicyBlockedError(policyViolations);
+  }
+
+  const { origin } = request.transactionOptions;
+
+  // Delegations requested by the wallet itself, such as account upgrades, are
+  // not limited to trusted targets.
+  if (origin && origin !== ORIGIN_METAMASK) {
+    await validateTransactionDelegationTargets(request);
+  }
+
+  await validateSecurity(request, policyViolations);
 
   const { transactionMeta, waitForHash } =
     await addTransactionOrUserOperation(request);
@@ -131,6 +172,22 @@ export async function addTransaction(
   return finalTransactionMeta as TransactionMeta;
 }
 
+async function validateTransactionDelegationTargets(
+  request: BaseAddTransactionRequest,
+) {
+  const { chainId, reviewDelegationTarget, transactionParams } = request;
+
+  if (!reviewDelegationTarget) {
+    return;
+  }
+
+  await validateDelegationTargets({
+    authorizationList: transactionParams.authorizationList,
+    chainId,
+    reviewDelegationTarget,
+  });
+}
+
 async function addTransactionOrUserOperation(
   request: FinalAddTransactionRequest,
 ) {
@@ -246,6 +303,7 @@ function scanAddressForTrustSignals(request: AddTransactionRequest) {
     transactionOptions,
     transactionParams,
     chainId,
+    securityProviderRegistry,
   } = request;
   const { origin } = transactionOptions;
   if (origin !== ORIGIN_METAMASK || !securityAlertsEnabled) {
@@ -277,6 +335,7 @@ function scanAddressForTrustSignals(request: AddTransactionRequest) {
     getAddressSecurityAlertResponseWithChain,
     addAddressSecurityAlertResponseWithChain,
     supportedEVMChain,
+    securityProviderRegistry,
   ).catch((error) => {
     console.error(
       '[scanAddressForTrustSignals] error scanning address for trust signals:',
@@ -285,7 +344,10 @@ function scanAddressForTrustSignals(request: AddTransactionRequest) {
   });
 }
 
-async function validateSecurity(request: AddTransactionRequest) {
+async function validateSecurity(
+  request: AddTransactionRequest,
+  policyViolations: SecurityPolicyViolation[],
+) {
   const {
     chainId,
     ppomController,
@@ -295,6 +357,7 @@ async function validateSecurity(request: AddTransactionRequest) {
     updateSecurityAlertResponse,
     internalAccounts,
     getSecurityAlertsConfig,
+    securityProviderRegistry,
   } = request;
 
   scanAddressForTrustSignals(request);
@@ -305,16 +368,22 @@ async function validateSecurity(request: AddTransactionRequest) {
       type as TransactionType,
     );
 
-  if (!securityAlertsEnabled || typeIsExcludedFromPPOM) {
-    return;
-  }
+  const isToInternalAccount = internalAccounts.some(
+    ({ address }) =>
+      address.toLowerCase() === transactionParams.to?.toLowerCase(),
+  );
+
+  if (!securityAlertsEnabled || typeIsExcludedFromPPOM || isToInternalAccount) {
+    if (policyViolations.length) {
+      request.transactionOptions.securityAlertResponse = addPolicyViolations(
+        {
+          ...SECURITY_POLICY_ONLY_RESPONSE,
+          securityAlertId: generateSecurityAlertId(),
+        },
+        policyViolations,
+      );
+    }
 
-  if (
-    internalAccounts.some(
-      ({ address }) =>
-        address.toLowerCase() === transactionParams.to?.toLowerCase(),
-    )
-  ) {
     return;
   }
 
@@ -347,12 +416,14 @@ async function validateSecurity(request: AddTransactionRequest) {
       chainId,
       updateSecurityAlertResponse,
       getSecurityAlertsConfig,
+      policyViolations,
+      securityProviderRegistry,
     });
 
-    const securityAlertResponseLoading: SecurityAlertResponse = {
-      ...LOADING_SECURITY_ALERT_RESPONSE,
-      securityAlertId,
-    };
+    const securityAlertResponseLoading = addPolicyViolations(
+      { ...LOADING_SECURITY_ALERT_RESPONSE, securityAlertId },
+      policyViolations,
+    );
 
     request.transactionOptions.securityAlertResponse =
       securityAlertResponseLoading;
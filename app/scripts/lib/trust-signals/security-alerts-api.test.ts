@@ -1,10 +1,12 @@
 import nock from 'nock';
+import { BLOCKAID_ATTRIBUTION } from '../../../../shared/constants/security-provider';
 import { SECOND } from '../../../../shared/constants/time';
 import {
   SupportedEVMChain,
   ResultType,
   createCacheKey,
 } from '../../../../shared/lib/trust-signals';
+import { SecurityProviderRegistry } from '../security-provider/security-provider-registry';
 import { scanAddress, scanAddressAndAddToCache } from './security-alerts-api';
 
 const TEST_ADDRESS = '0x1234567890123456789012345678901234567890';
@@ -206,6 +208,48 @@ describe('Security Alerts API', () => {
       expect(scope.isDone()).toBe(true);
     });
 
+    it('merges the results of additional security providers', async () => {
+      getAddressSecurityAlertResponseMock.mockReturnValue(undefined);
+
+      nock(BASE_URL).post('/address/evm/scan').reply(200, RESPONSE_MOCK);
+
+      const securityProviderRegistry = new SecurityProviderRegistry();
+      securityProviderRegistry.register({
+        id: 'in-house',
+        name: 'In-house Scanner',
+        scanAddress: jest.fn().mockResolvedValue({
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          result_type: ResultType.Malicious,
+          label: 'Known scammer',
+        }),
+      });
+
+      const result = await scanAddressAndAddToCache(
+        TEST_ADDRESS,
+        getAddressSecurityAlertResponseMock,
+        addAddressSecurityAlertResponseMock,
+        SupportedEVMChain.Ethereum,
+        securityProviderRegistry,
+      );
+
+      const expectedResult = {
+        // eslint-disable-next-line @typescript-eslint/naming-convention
+        result_type: ResultType.Malicious,
+        label: 'Known scammer',
+        providers: [
+          { id: 'in-house', name: 'In-house Scanner', url: undefined },
+          BLOCKAID_ATTRIBUTION,
+        ],
+      };
+
+      expect(result).toEqual(expectedResult);
+      expect(addAddressSecurityAlertResponseMock).toHaveBeenLastCalledWith(
+        TEST_CACHE_KEY,
+        expectedResult,
+      );
+    });
+
     it('throw error when scan fails', async () => {
       getAddressSecurityAlertResponseMock.mockReturnValue(undefined);
 
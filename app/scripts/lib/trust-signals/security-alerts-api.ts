@@ -1,3 +1,4 @@
+import { BLOCKAID_ATTRIBUTION } from '../../../../shared/constants/security-provider';
 import { SECOND } from '../../../../shared/constants/time';
 import getFetchWithTimeout from '../../../../shared/modules/fetch-with-timeout';
 import {
@@ -9,6 +10,10 @@ import {
   ScanAddressResponse,
   SupportedEVMChain,
 } from '../../../../shared/lib/trust-signals';
+import {
+  mergeScanAddressResponses,
+  SecurityProviderRegistry,
+} from '../security-provider/security-provider-registry';
 
 const TIMEOUT = 5 * SECOND;
 const ENDPOINT_ADDRESS_SCAN = 'address/evm/scan';
@@ -46,6 +51,7 @@ export async function scanAddress(
  * @param getAddressSecurityAlertResponse - Function to retrieve cached security alert response for an address
  * @param addAddressSecurityAlertResponse - Function to add a new security alert response to the cache
  * @param chain - The chain that the address exists on
+ * @param securityProviderRegistry - Optional registry of additional security providers whose results are merged
  * @returns Promise that resolves to the security scan response containing result type and label
  */
 export async function scanAddressAndAddToCache(
@@ -53,6 +59,7 @@ export async function scanAddressAndAddToCache(
   getAddressSecurityAlertResponse: GetAddressSecurityAlertResponse,
   addAddressSecurityAlertResponse: AddAddressSecurityAlertResponse,
   chain: SupportedEVMChain,
+  securityProviderRegistry?: SecurityProviderRegistry,
 ): Promise<ScanAddressResponse> {
   const cacheKey = createCacheKey(chain, address);
   const cachedResponse = getAddressSecurityAlertResponse(cacheKey);
@@ -69,7 +76,18 @@ export async function scanAddressAndAddToCache(
   addAddressSecurityAlertResponse(cacheKey, loadingResponse);
 
   try {
-    const result = await scanAddress(chain, address);
+    const [apiResult, providerResults] = await Promise.all([
+      scanAddress(chain, address),
+      securityProviderRegistry?.scanAddress(chain, address) ?? [],
+    ]);
+
+    const result = providerResults.length
+      ? (mergeScanAddressResponses([
+          { ...apiResult, providers: [BLOCKAID_ATTRIBUTION] },
+          ...providerResults,
+        ]) as ScanAddressResponse)
+      : apiResult;
+
     addAddressSecurityAlertResponse(cacheKey, result);
     return result;
   } catch (error) {
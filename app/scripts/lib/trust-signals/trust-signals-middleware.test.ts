@@ -6,7 +6,11 @@ import {
   parseApprovalTransactionData,
   parseTypedDataMessage,
 } from '../../../../shared/modules/transaction.utils';
-import { ResultType } from '../../../../shared/lib/trust-signals';
+import {
+  ResultType,
+  SupportedEVMChain,
+} from '../../../../shared/lib/trust-signals';
+import { SecurityProviderRegistry } from '../security-provider/security-provider-registry';
 import { createTrustSignalsMiddleware } from './trust-signals-middleware';
 import { scanAddressAndAddToCache } from './security-alerts-api';
 import { getChainId } from './trust-signals-util';
@@ -20,6 +24,8 @@ const TEST_ADDRESSES = {
   TO: '0x1234567890123456789012345678901234567890',
   FROM: '0xabcdef0123456789012345678901234567890123',
   SPENDER: '0x9876543210987654321098765432109876543210',
+  DELEGATION: '0x63c0c19a282a1b52b07dd5a65b58948a07dae32b',
+  SECOND_TO: '0x5555555555555555555555555555555555555555',
 };
 
 const MOCK_SCAN_RESPONSES = {
@@ -111,6 +117,8 @@ const createMiddleware = (
     },
   };
 
+  const securityProviderRegistry = new SecurityProviderRegistry();
+
   return {
     middleware: createTrustSignalsMiddleware(
       networkController,
@@ -118,11 +126,13 @@ const createMiddleware = (
       phishingController as any, // eslint-disable-line @typescript-eslint/no-explicit-any
       preferencesController as any, // eslint-disable-line @typescript-eslint/no-explicit-any
       getPermittedAccounts,
+      securityProviderRegistry,
     ),
     appStateController,
     networkController,
     phishingController,
     preferencesController,
+    securityProviderRegistry,
   };
 };
 
@@ -197,6 +207,7 @@ describe('createTrustSignalsMiddleware', () => {
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
       );
       expect(phishingController.scanUrl).toHaveBeenCalledWith(req.origin);
       expect(next).toHaveBeenCalled();
@@ -228,6 +239,7 @@ describe('createTrustSignalsMiddleware', () => {
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
       );
       expect(phishingController.scanUrl).toHaveBeenCalled();
       expect(next).toHaveBeenCalled();
@@ -258,6 +270,7 @@ describe('createTrustSignalsMiddleware', () => {
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
       );
       expect(phishingController.scanUrl).toHaveBeenCalled();
       expect(next).toHaveBeenCalled();
@@ -296,6 +309,7 @@ describe('createTrustSignalsMiddleware', () => {
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
       );
       expect(phishingController.scanUrl).toHaveBeenCalled();
       expect(next).toHaveBeenCalled();
@@ -330,6 +344,7 @@ describe('createTrustSignalsMiddleware', () => {
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
       );
       expect(phishingController.scanUrl).toHaveBeenCalled();
     });
@@ -453,12 +468,14 @@ describe('createTrustSignalsMiddleware', () => {
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
         );
         expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
           TEST_ADDRESSES.SPENDER,
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
         );
         expect(phishingController.scanUrl).toHaveBeenCalled();
         expect(next).toHaveBeenCalled();
@@ -517,6 +534,7 @@ describe('createTrustSignalsMiddleware', () => {
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
         );
         expect(next).toHaveBeenCalled();
       });
@@ -553,6 +571,59 @@ describe('createTrustSignalsMiddleware', () => {
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
+        );
+        expect(next).toHaveBeenCalled();
+      });
+    });
+
+    describe('EIP-7702 transactions', () => {
+      it('scans the delegation address of each authorization', async () => {
+        scanAddressMockAndAddToCache.mockResolvedValue(
+          MOCK_SCAN_RESPONSES.BENIGN,
+        );
+        const { middleware, appStateController, networkController } =
+          createMiddleware();
+        const req = createMockRequest('eth_sendTransaction', [
+          createTransactionParams({
+            to: TEST_ADDRESSES.FROM,
+            authorizationList: [{ address: TEST_ADDRESSES.DELEGATION }],
+          }),
+        ]);
+        const res = createMockResponse();
+        const next = jest.fn();
+
+        await middleware(req, res, next);
+
+        expect(scanAddressMockAndAddToCache).toHaveBeenCalledTimes(2);
+        expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
+          TEST_ADDRESSES.DELEGATION,
+          appStateController.getAddressSecurityAlertResponse,
+          appStateController.addAddressSecurityAlertResponse,
+          getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
+        );
+        expect(next).toHaveBeenCalled();
+      });
+
+      it('handles delegation address scanning errors gracefully', async () => {
+        scanAddressMockAndAddToCache
+          .mockResolvedValueOnce(MOCK_SCAN_RESPONSES.BENIGN)
+          .mockRejectedValueOnce(new Error('Delegation scan failed'));
+        const { middleware } = createMiddleware();
+        const req = createMockRequest('eth_sendTransaction', [
+          createTransactionParams({
+            authorizationList: [{ address: TEST_ADDRESSES.DELEGATION }],
+          }),
+        ]);
+        const res = createMockResponse();
+        const next = jest.fn();
+
+        await middleware(req, res, next);
+
+        expect(consoleErrorSpy).toHaveBeenCalledWith(
+          '[createTrustSignalsMiddleware] error scanning delegation address for transaction:',
+          expect.any(Error),
         );
         expect(next).toHaveBeenCalled();
       });
@@ -612,6 +683,7 @@ describe('createTrustSignalsMiddleware', () => {
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
       );
       expect(phishingController.scanUrl).toHaveBeenCalled();
       expect(next).toHaveBeenCalled();
@@ -654,6 +726,7 @@ describe('createTrustSignalsMiddleware', () => {
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
       );
       expect(phishingController.scanUrl).toHaveBeenCalled();
       expect(next).toHaveBeenCalled();
@@ -709,6 +782,7 @@ describe('createTrustSignalsMiddleware', () => {
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
         );
         expect(phishingController.scanUrl).toHaveBeenCalled();
         expect(next).toHaveBeenCalled();
@@ -802,12 +876,14 @@ describe('createTrustSignalsMiddleware', () => {
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
         );
         expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
           TEST_ADDRESSES.SPENDER,
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
         );
         expect(phishingController.scanUrl).toHaveBeenCalled();
         expect(next).toHaveBeenCalled();
@@ -881,6 +957,7 @@ describe('createTrustSignalsMiddleware', () => {
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
         );
         expect(next).toHaveBeenCalled();
       });
@@ -912,6 +989,7 @@ describe('createTrustSignalsMiddleware', () => {
           appStateController.getAddressSecurityAlertResponse,
           appStateController.addAddressSecurityAlertResponse,
           getChainId(networkController),
+          expect.any(SecurityProviderRegistry),
         );
         expect(next).toHaveBeenCalled();
       });
@@ -947,18 +1025,208 @@ describe('createTrustSignalsMiddleware', () => {
             appStateController.getAddressSecurityAlertResponse,
             appStateController.addAddressSecurityAlertResponse,
             getChainId(networkController),
+            expect.any(SecurityProviderRegistry),
           );
           expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
             TEST_ADDRESSES.SPENDER,
             appStateController.getAddressSecurityAlertResponse,
             appStateController.addAddressSecurityAlertResponse,
             getChainId(networkController),
+            expect.any(SecurityProviderRegistry),
           );
         }
       });
     });
   });
 
+  describe('wallet_sendCalls', () => {
+    const createSendCallsParams = (
+      calls: Record<string, string>[],
+      chainId: Hex = CHAIN_IDS.MAINNET,
+    ) => ({
+      version: '2.0.0',
+      from: TEST_ADDRESSES.FROM,
+      chainId,
+      atomicRequired: true,
+      calls,
+    });
+
+    it('scans the address of every call', async () => {
+      scanAddressMockAndAddToCache.mockResolvedValue(
+        MOCK_SCAN_RESPONSES.BENIGN,
+      );
+      const {
+        middleware,
+        appStateController,
+        networkController,
+        phishingController,
+      } = createMiddleware();
+      const req = createMockRequest(MESSAGE_TYPE.WALLET_SEND_CALLS, [
+        createSendCallsParams([
+          { to: TEST_ADDRESSES.TO, data: '0x' },
+          { to: TEST_ADDRESSES.SECOND_TO, data: '0x' },
+        ]),
+      ]);
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      await middleware(req, res, next);
+
+      expect(scanAddressMockAndAddToCache).toHaveBeenCalledTimes(2);
+      expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
+        TEST_ADDRESSES.TO,
+        appStateController.getAddressSecurityAlertResponse,
+        appStateController.addAddressSecurityAlertResponse,
+        getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
+      );
+      expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
+        TEST_ADDRESSES.SECOND_TO,
+        appStateController.getAddressSecurityAlertResponse,
+        appStateController.addAddressSecurityAlertResponse,
+        getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
+      );
+      expect(phishingController.scanUrl).toHaveBeenCalledWith(req.origin);
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('scans the spender of approval calls', async () => {
+      scanAddressMockAndAddToCache.mockResolvedValue(
+        MOCK_SCAN_RESPONSES.BENIGN,
+      );
+      parseApprovalTransactionDataMock.mockImplementation((data) =>
+        data === '0x095ea7b3'
+          ? {
+              name: 'approve',
+              spender: TEST_ADDRESSES.SPENDER as `0x${string}`,
+              amountOrTokenId: undefined,
+              isApproveAll: false,
+              isRevokeAll: false,
+              tokenAddress: undefined,
+            }
+          : undefined,
+      );
+      const { middleware, appStateController, networkController } =
+        createMiddleware();
+      const req = createMockRequest(MESSAGE_TYPE.WALLET_SEND_CALLS, [
+        createSendCallsParams([
+          { to: TEST_ADDRESSES.TO, data: '0x095ea7b3' },
+          { to: TEST_ADDRESSES.SECOND_TO, data: '0x' },
+        ]),
+      ]);
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      await middleware(req, res, next);
+
+      expect(scanAddressMockAndAddToCache).toHaveBeenCalledTimes(3);
+      expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
+        TEST_ADDRESSES.SPENDER,
+        appStateController.getAddressSecurityAlertResponse,
+        appStateController.addAddressSecurityAlertResponse,
+        getChainId(networkController),
+        expect.any(SecurityProviderRegistry),
+      );
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('scans each address once', async () => {
+      scanAddressMockAndAddToCache.mockResolvedValue(
+        MOCK_SCAN_RESPONSES.BENIGN,
+      );
+      const { middleware } = createMiddleware();
+      const req = createMockRequest(MESSAGE_TYPE.WALLET_SEND_CALLS, [
+        createSendCallsParams([
+          { to: TEST_ADDRESSES.DELEGATION },
+          { to: `0x${TEST_ADDRESSES.DELEGATION.slice(2).toUpperCase()}` },
+        ]),
+      ]);
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      await middleware(req, res, next);
+
+      expect(scanAddressMockAndAddToCache).toHaveBeenCalledTimes(1);
+      expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
+        TEST_ADDRESSES.DELEGATION,
+        expect.any(Function),
+        expect.any(Function),
+        SupportedEVMChain.Ethereum,
+        expect.any(SecurityProviderRegistry),
+      );
+    });
+
+    it('uses the chain ID of the request', async () => {
+      scanAddressMockAndAddToCache.mockResolvedValue(
+        MOCK_SCAN_RESPONSES.BENIGN,
+      );
+      const { middleware } = createMiddleware();
+      const req = createMockRequest(MESSAGE_TYPE.WALLET_SEND_CALLS, [
+        createSendCallsParams([{ to: TEST_ADDRESSES.TO }], CHAIN_IDS.POLYGON),
+      ]);
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      await middleware(req, res, next);
+
+      expect(scanAddressMockAndAddToCache).toHaveBeenCalledWith(
+        TEST_ADDRESSES.TO,
+        expect.any(Function),
+        expect.any(Function),
+        SupportedEVMChain.Polygon,
+        expect.any(SecurityProviderRegistry),
+      );
+    });
+
+    it('does not scan when the chain is not supported', async () => {
+      const { middleware } = createMiddleware();
+      const req = createMockRequest(MESSAGE_TYPE.WALLET_SEND_CALLS, [
+        createSendCallsParams([{ to: TEST_ADDRESSES.TO }], '0x999999'),
+      ]);
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      await middleware(req, res, next);
+
+      expect(scanAddressMockAndAddToCache).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('handles scan errors gracefully without blocking the request', async () => {
+      const error = new Error('Network error');
+      scanAddressMockAndAddToCache.mockRejectedValue(error);
+      const { middleware } = createMiddleware();
+      const req = createMockRequest(MESSAGE_TYPE.WALLET_SEND_CALLS, [
+        createSendCallsParams([{ to: TEST_ADDRESSES.TO }]),
+      ]);
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      await middleware(req, res, next);
+
+      expect(consoleErrorSpy).toHaveBeenCalledWith(
+        '[createTrustSignalsMiddleware] error scanning address for batch:',
+        error,
+      );
+      expect(next).toHaveBeenCalled();
+    });
+
+    it('does not scan when calls are missing', async () => {
+      const { middleware } = createMiddleware();
+      const req = createMockRequest(MESSAGE_TYPE.WALLET_SEND_CALLS, [
+        { from: TEST_ADDRESSES.FROM },
+      ]);
+      const res = createMockResponse();
+      const next = jest.fn();
+
+      await middleware(req, res, next);
+
+      expect(scanAddressMockAndAddToCache).not.toHaveBeenCalled();
+      expect(next).toHaveBeenCalled();
+    });
+  });
+
   describe('eth_request_accounts', () => {
     it('scans URL when origin is present', async () => {
       const { middleware, phishingController } = createMiddleware();
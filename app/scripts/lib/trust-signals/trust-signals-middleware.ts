@@ -12,13 +12,19 @@ import {
 } from '../../../../shared/modules/transaction.utils';
 import { PRIMARY_TYPES_PERMIT } from '../../../../shared/constants/signatures';
 import { isSecurityAlertsAPIEnabled } from '../ppom/security-alerts-api';
-import { mapChainIdToSupportedEVMChain } from '../../../../shared/lib/trust-signals';
+import {
+  SupportedEVMChain,
+  mapChainIdToSupportedEVMChain,
+} from '../../../../shared/lib/trust-signals';
+import { SecurityProviderRegistry } from '../security-provider/security-provider-registry';
 import { scanAddressAndAddToCache } from './security-alerts-api';
 import {
   hasValidTypedDataParams,
   isEthSignTypedData,
   isEthSendTransaction,
   hasValidTransactionParams,
+  isWalletSendCalls,
+  hasValidSendCallsParams,
   isSecurityAlertsEnabledByUser,
   isConnected,
   connectScreenHasBeenPrompted,
@@ -35,6 +41,7 @@ export function createTrustSignalsMiddleware(
   phishingController: PhishingController,
   preferencesController: PreferencesController,
   getPermittedAccounts: (origin: string) => string[],
+  securityProviderRegistry?: SecurityProviderRegistry,
 ) {
   return async (
     req: TrustSignalsMiddlewareRequest,
@@ -50,10 +57,28 @@ export function createTrustSignalsMiddleware(
       }
 
       if (isEthSendTransaction(req)) {
-        handleEthSendTransaction(req, appStateController, networkController);
+        handleEthSendTransaction(
+          req,
+          appStateController,
+          networkController,
+          securityProviderRegistry,
+        );
+        scanUrl(req, phishingController);
+      } else if (isWalletSendCalls(req)) {
+        handleWalletSendCalls(
+          req,
+          appStateController,
+          networkController,
+          securityProviderRegistry,
+        );
         scanUrl(req, phishingController);
       } else if (isEthSignTypedData(req)) {
-        handleEthSignTypedData(req, appStateController, networkController);
+        handleEthSignTypedData(
+          req,
+          appStateController,
+          networkController,
+          securityProviderRegistry,
+        );
         scanUrl(req, phishingController);
       } else if (isConnected(req, getPermittedAccounts)) {
         scanUrl(req, phishingController);
@@ -83,6 +108,7 @@ function handleEthSendTransaction(
   req: TrustSignalsMiddlewareRequest,
   appStateController: AppStateController,
   networkController: NetworkController,
+  securityProviderRegistry?: SecurityProviderRegistry,
 ) {
   if (!hasValidTransactionParams(req)) {
     return;
@@ -112,6 +138,7 @@ function handleEthSendTransaction(
     appStateController.getAddressSecurityAlertResponse,
     appStateController.addAddressSecurityAlertResponse,
     supportedEVMChain,
+    securityProviderRegistry,
   ).catch((error) => {
     console.error(
       '[createTrustSignalsMiddleware] error scanning address for transaction:',
@@ -129,6 +156,7 @@ function handleEthSendTransaction(
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         supportedEVMChain,
+        securityProviderRegistry,
       ).catch((error) => {
         console.error(
           '[createTrustSignalsMiddleware] error scanning spender address for approval:',
@@ -137,12 +165,111 @@ function handleEthSendTransaction(
       });
     }
   }
+
+  // If this is an EIP-7702 transaction, also scan the delegation targets
+  const { authorizationList } = req.params[0];
+  if (Array.isArray(authorizationList)) {
+    for (const authorization of authorizationList) {
+      const delegationAddress = authorization?.address;
+      if (typeof delegationAddress === 'string') {
+        scanAddressAndAddToCache(
+          delegationAddress,
+          appStateController.getAddressSecurityAlertResponse,
+          appStateController.addAddressSecurityAlertResponse,
+          supportedEVMChain,
+          securityProviderRegistry,
+        ).catch((error) => {
+          console.error(
+            '[createTrustSignalsMiddleware] error scanning delegation address for transaction:',
+            error,
+          );
+        });
+      }
+    }
+  }
+}
+
+function handleWalletSendCalls(
+  req: TrustSignalsMiddlewareRequest,
+  appStateController: AppStateController,
+  networkController: NetworkController,
+  securityProviderRegistry?: SecurityProviderRegistry,
+) {
+  if (!hasValidSendCallsParams(req)) {
+    return;
+  }
+
+  const { calls, chainId: requestChainId } = req.params[0];
+
+  const { chainId: networkChainId } =
+    networkController.getNetworkConfigurationByNetworkClientId(
+      req.networkClientId,
+    ) ?? {};
+
+  const rawChainId = requestChainId ?? networkChainId;
+
+  if (!rawChainId) {
+    console.error('ChainID not found for networkClientId');
+    return;
+  }
+
+  const supportedEVMChain = mapChainIdToSupportedEVMChain(rawChainId);
+  if (!supportedEVMChain) {
+    console.error('Unsupported chainId:', rawChainId);
+    return;
+  }
+
+  const addresses = new Set<string>();
+
+  for (const { to, data } of calls) {
+    if (typeof to === 'string') {
+      addresses.add(to.toLowerCase());
+    }
+
+    // Scan the spender of every approval in the batch
+    if (data && typeof data === 'string') {
+      const approvalData = parseApprovalTransactionData(data as `0x${string}`);
+      if (approvalData?.spender) {
+        addresses.add(approvalData.spender.toLowerCase());
+      }
+    }
+  }
+
+  for (const address of addresses) {
+    scanBatchAddress(
+      address,
+      appStateController,
+      supportedEVMChain,
+      securityProviderRegistry,
+    );
+  }
+}
+
+function scanBatchAddress(
+  address: string,
+  appStateController: AppStateController,
+  supportedEVMChain: SupportedEVMChain,
+  securityProviderRegistry?: SecurityProviderRegistry,
+) {
+  scanAddressAndAddToCache(
+    address,
+    appStateController.getAddressSecurityAlertResponse,
+    appStateController.addAddressSecurityAlertResponse,
+    supportedEVMChain,
+    securityProviderRegistry,
+  ).catch((error) => {
+    console.error(
+      '[createTrustSignalsMiddleware] error scanning address for batch:',
+      error,
+    );
+  });
 }
 
 function handleEthSignTypedData(
   req: TrustSignalsMiddlewareRequest,
   appStateController: AppStateController,
   networkController: NetworkController,
+  securityProviderRegistry?: SecurityProviderRegistry,
 ) {
   if (!hasValidTypedDataParams(req)) {
     return;
@@ -180,6 +307,7 @@ function handleEthSignTypedData(
     appStateController.getAddressSecurityAlertResponse,
     appStateController.addAddressSecurityAlertResponse,
     supportedEVMChain,
+    securityProviderRegistry,
   ).catch((error) => {
     console.error(
       '[createTrustSignalsMiddleware] error scanning address for signature:',
@@ -202,6 +330,7 @@ function handleEthSignTypedData(
         appStateController.getAddressSecurityAlertResponse,
         appStateController.addAddressSecurityAlertResponse,
         supportedEVMChain,
+        securityProviderRegistry,
       ).catch((error) => {
         console.error(
           '[createTrustSignalsMiddleware] error scanning spender address for permit:',
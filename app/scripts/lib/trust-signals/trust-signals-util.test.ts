@@ -11,6 +11,8 @@ import {
   hasValidTransactionParams,
   isEthSignTypedData,
   hasValidTypedDataParams,
+  isWalletSendCalls,
+  hasValidSendCallsParams,
   getChainId,
   isConnected,
   connectScreenHasBeenPrompted,
@@ -125,6 +127,66 @@ describe('trust-signals-util', () => {
     });
   });
 
+  describe('isWalletSendCalls', () => {
+    it('should return true for wallet_sendCalls method', () => {
+      const req: JsonRpcRequest = {
+        method: MESSAGE_TYPE.WALLET_SEND_CALLS,
+        params: [],
+        id: 1,
+        jsonrpc: '2.0',
+      };
+      expect(isWalletSendCalls(req)).toBe(true);
+    });
+
+    it('should return false for other methods', () => {
+      const req: JsonRpcRequest = {
+        method: MESSAGE_TYPE.ETH_SEND_TRANSACTION,
+        params: [],
+        id: 1,
+        jsonrpc: '2.0',
+      };
+      expect(isWalletSendCalls(req)).toBe(false);
+    });
+  });
+
+  describe('hasValidSendCallsParams', () => {
+    it('should return true for valid params with "calls" field', () => {
+      const req: JsonRpcRequest = {
+        method: MESSAGE_TYPE.WALLET_SEND_CALLS,
+        params: [
+          {
+            from: '0xabcdef0123456789012345678901234567890123',
+            chainId: '0x1',
+            calls: [{ to: '0x1234567890123456789012345678901234567890' }],
+          },
+        ],
+        id: 1,
+        jsonrpc: '2.0',
+      };
+      expect(hasValidSendCallsParams(req)).toBe(true);
+    });
+
+    it('should return false when params array is empty', () => {
+      const req: JsonRpcRequest = {
+        method: MESSAGE_TYPE.WALLET_SEND_CALLS,
+        params: [],
+        id: 1,
+        jsonrpc: '2.0',
+      };
+      expect(hasValidSendCallsParams(req)).toBe(false);
+    });
+
+    it('should return false when "calls" field is not an array', () => {
+      const req: JsonRpcRequest = {
+        method: MESSAGE_TYPE.WALLET_SEND_CALLS,
+        params: [{ chainId: '0x1', calls: 'invalid' }],
+        id: 1,
+        jsonrpc: '2.0',
+      };
+      expect(hasValidSendCallsParams(req)).toBe(false);
+    });
+  });
+
   describe('isEthSignTypedData', () => {
     it('should return true for ETH_SIGN_TYPED_DATA', () => {
       const req: JsonRpcRequest = {
@@ -47,6 +47,44 @@ export function hasValidTransactionParams(
   );
 }
 
+export function isWalletSendCalls(req: JsonRpcRequest): boolean {
+  return req.method === MESSAGE_TYPE.WALLET_SEND_CALLS;
+}
+
+export function hasValidSendCallsParams(
+  req: JsonRpcRequest,
+): req is JsonRpcRequest & {
+  params: [
+    {
+      chainId?: string;
+      calls: {
+        to?: string;
+        data?: string;
+        [key: string]: unknown;
+      }[];
+      [key: string]: unknown;
+    },
+    ...unknown[],
+  ];
+} {
+  if (!('params' in req) || !req.params) {
+    return false;
+  }
+
+  if (!Array.isArray(req.params) || req.params.length === 0) {
+    return false;
+  }
+
+  const firstParam = req.params[0];
+
+  return (
+    typeof firstParam === 'object' &&
+    firstParam !== null &&
+    'calls' in firstParam &&
+    Array.isArray(firstParam.calls)
+  );
+}
+
 export function isEthSignTypedData(req: JsonRpcRequest): boolean {
   return (
     req.method === MESSAGE_TYPE.ETH_SIGN_TYPED_DATA ||
@@ -14,7 +14,12 @@ import { debounce, uniq } from 'lodash';
 import { KeyringTypes } from '@metamask/keyring-controller';
 import createFilterMiddleware from '@metamask/eth-json-rpc-filters';
 import createSubscriptionManager from '@metamask/eth-json-rpc-filters/subscriptionManager';
-import { errorCodes, JsonRpcError, rpcErrors } from '@metamask/rpc-errors';
+import {
+  errorCodes,
+  JsonRpcError,
+  rpcErrors,
+  serializeError,
+} from '@metamask/rpc-errors';
 import { Mutex } from 'await-semaphore';
 import log from 'loglevel';
 import { OneKeyKeyring, TrezorKeyring } from '@metamask/eth-trezor-keyring';
@@ -155,7 +160,15 @@ import {
   KEYRING_DEVICE_PROPERTY_MAP,
 } from '../../shared/constants/hardware-wallets';
 import { KeyringType } from '../../shared/constants/keyring';
-import { RestrictedMethods } from '../../shared/constants/permissions';
+import {
+  CaveatTypes,
+  EndowmentTypes,
+  RestrictedMethods,
+} from '../../shared/constants/permissions';
+import { SecurityAlertUserAction } from '../../shared/constants/security-alert-history';
+import { ConnectionDuration } from '../../shared/constants/connection-expiry';
+import { CONNECTION_EXPIRY_ALARM } from '../../shared/constants/alarms';
+import { getSpendingAllowanceGrants } from '../../shared/lib/spending-allowance';
 import { MILLISECOND, MINUTE, SECOND } from '../../shared/constants/time';
 import {
   HYPERLIQUID_APPROVAL_TYPE,
@@ -218,6 +231,7 @@ import {
   isGatorPermissionsFeatureEnabled,
 } from '../../shared/modules/environment';
 import { isSnapPreinstalled } from '../../shared/lib/snaps/snaps';
+import { evaluateSecurityPolicies } from '../../shared/lib/security-policy';
 import { toChecksumHexAddress } from '../../shared/modules/hexstring-utils';
 import {
   getShieldGatewayConfig,
@@ -239,6 +253,7 @@ import { WalletFundsObtainedMonitor } from './lib/WalletFundsObtainedMonitor';
 import { createPPOMMiddleware } from './lib/ppom/ppom-middleware';
 import { createDappSwapMiddleware } from './lib/dapp-swap/dapp-swap-middleware';
 import { createTrustSignalsMiddleware } from './lib/trust-signals/trust-signals-middleware';
+import { SecurityProviderRegistry } from './lib/security-provider/security-provider-registry';
 import {
   onMessageReceived,
   checkForMultipleVersionsRunning,
@@ -251,6 +266,7 @@ import {
   createEip1193MethodMiddleware,
   createUnsupportedMethodMiddleware,
   createMultichainMethodMiddleware,
+  createRpcMethodAllowlistMiddleware,
   makeMethodMiddlewareMaker,
 } from './lib/rpc-method-middleware';
 import createOriginMiddleware from './lib/createOriginMiddleware';
@@ -292,6 +308,11 @@ import createRPCMethodTrackingMiddleware from './lib/createRPCMethodTrackingMidd
 import { getAccountsBySnapId } from './lib/snap-keyring';
 ///: END:ONLY_INCLUDE_IF
 import { addDappTransaction, addTransaction } from './lib/transaction/util';
+import {
+  approveDelegationTarget,
+  reviewDelegationTarget,
+} from './lib/transaction/delegation-targets';
+import { getGatorPermissionUsage } from './lib/gator-permissions/gator-permission-usage';
 import { addTypedMessage, addPersonalMessage } from './lib/signature/util';
 import {
   METAMASK_CAIP_MULTICHAIN_PROVIDER,
@@ -307,8 +328,10 @@ import {
 import createEvmMethodsToNonEvmAccountReqFilterMiddleware from './lib/createEvmMethodsToNonEvmAccountReqFilterMiddleware';
 
 import { decodeTransactionData } from './lib/transaction/decode/util';
+import { parseContractAbi } from '../../shared/lib/contract-abi';
 import createTracingMiddleware from './lib/createTracingMiddleware';
 import createOriginThrottlingMiddleware from './lib/createOriginThrottlingMiddleware';
+import createSecurityPolicyMiddleware from './lib/createSecurityPolicyMiddleware';
 import { PatchStore } from './lib/PatchStore';
 import { sanitizeUIState } from './lib/state-utils';
 import {
@@ -433,6 +456,10 @@ import {
   ClaimsServiceInit,
 } from './controller-init/claims';
 import { getQuotesForConfirmation } from './lib/dapp-swap/dapp-swap-util';
+import {
+  buildRevokeTransactions,
+  getOutstandingApprovals,
+} from './lib/approval-audit/approval-audit';
 
 export const METAMASK_CONTROLLER_EVENTS = {
   // Fired after state changes that impact the extension badge (unapproved msg count)
@@ -777,15 +804,36 @@ export default class MetamaskController extends EventEmitter {
     this.rewardsController = controllersByName.RewardsController;
     this.claimsController = controllersByName.ClaimsController;
     this.claimsService = controllersByName.ClaimsService;
+
+    // Additional security providers consulted alongside Blockaid, such as
+    // in-house services or Snaps.
+    this.securityProviderRegistry = new SecurityProviderRegistry({
+      messenger: new Messenger({
+        namespace: 'SecurityProviderRegistry',
+        parent: this.controllerMessenger,
+      }),
+    });
+
     this.backup = new Backup({
       preferencesController: this.preferencesController,
       addressBookController: this.addressBookController,
+      appStateController: this.appStateController,
       accountsController: this.accountsController,
+      keyringController: this.keyringController,
       networkController: this.networkController,
       trackMetaMetricsEvent: this.controllerMessenger.call.bind(
         this.controllerMessenger,
         'MetaMetricsController:trackEvent',
       ),
+      getPersistedState: () => this.store.getState(),
+      currentMigrationVersion: this.currentMigrationVersion,
+      restoreStateAndReload:
+        opts.restoreStateAndReload ??
+        (async () => {
+          throw new Error('Restoring the persisted state is not supported.');
+        }),
+      getStateSnapshots: opts.getStateSnapshots ?? (async () => []),
+      getStateSnapshot: opts.getStateSnapshot ?? (async () => undefined),
     });
 
     this.provider =
@@ -1043,6 +1091,11 @@ export default class MetamaskController extends EventEmitter {
                     this.updateSecurityAlertResponse.bind(this),
                   getSecurityAlertsConfig:
                     this.getSecurityAlertsConfig.bind(this),
+                  policyViolations: evaluateSecurityPolicies(
+                    request,
+                    this.preferencesController.state.securityPolicies,
+                  ),
+                  securityProviderRegistry: this.securityProviderRegistry,
                 });
               },
               isAuxiliaryFundsSupported: (chainId) =>
@@ -1308,6 +1361,18 @@ export default class MetamaskController extends EventEmitter {
       this.resetStates(resetMethods);
     }
 
+    if (isManifestV3) {
+      this.extension.alarms.onAlarm.addListener(({ name }) => {
+        if (name === CONNECTION_EXPIRY_ALARM) {
+          this._revokeExpiredConnections();
+        }
+      });
+    }
+
+    this._revokeExpiredConnections({
+      isNewSession: !isManifestV3 || isFirstMetaMaskControllerSetup === true,
+    });
+
     // Automatic login via config password
     const password = process.env.PASSWORD;
     if (
@@ -1746,6 +1811,33 @@ export default class MetamaskController extends EventEmitter {
       getAuthorizedScopesByOrigin,
     );
 
+    // Restrictions on the RPC methods a site may call only apply to its current
+    // connection, so they are removed along with the CAIP-25 authorization.
+    this.controllerMessenger.subscribe(
+      `${this.permissionController.name}:stateChange`,
+      (currentValue, previousValue) => {
+        const removedAuthorizations = getRemovedAuthorizations(
+          currentValue,
+          previousValue,
+        );
+
+        for (const origin of removedAuthorizations.keys()) {
+          if (
+            this.permissionController.hasPermission(
+              origin,
+              EndowmentTypes.rpcMethodAllowlist,
+            )
+          ) {
+            this.permissionController.revokePermission(
+              origin,
+              EndowmentTypes.rpcMethodAllowlist,
+            );
+          }
+        }
+      },
+      getAuthorizedScopesByOrigin,
+    );
+
     // wallet_notify for solana accountChanged when permission changes
     this.controllerMessenger.subscribe(
       `${this.permissionController.name}:stateChange`,
@@ -2493,6 +2585,9 @@ export default class MetamaskController extends EventEmitter {
         preferencesController.setSecurityAlertsEnabled.bind(
           preferencesController,
         ),
+      setSecurityPolicies: preferencesController.setSecurityPolicies.bind(
+        preferencesController,
+      ),
       ///: BEGIN:ONLY_INCLUDE_IF(keyring-snaps)
       setAddSnapAccountEnabled:
         preferencesController.setAddSnapAccountEnabled.bind(
@@ -2869,9 +2964,9 @@ export default class MetamaskController extends EventEmitter {
 
       // AddressController
       setAddressBook: addressBookController.set.bind(addressBookController),
-      removeFromAddressBook: addressBookController.delete.bind(
-        addressBookController,
-      ),
+      removeFromAddressBook: this.removeFromAddressBook.bind(this),
+      setContactGuardRails:
+        appStateController.setContactGuardRails.bind(appStateController),
 
       // AppStateController
       setLastActiveTime:
@@ -3054,6 +3149,7 @@ export default class MetamaskController extends EventEmitter {
         gatorPermissionsController,
       ),
       checkDelegationDisabled: this.checkDelegationDisabled.bind(this),
+      getGatorPermissionUsage: this.getGatorPermissionUsage.bind(this),
 
       // KeyringController
       setLocked: this.setLocked.bind(this),
@@ -3099,6 +3195,8 @@ export default class MetamaskController extends EventEmitter {
         ),
       setTransactionActive:
         txController.setTransactionActive.bind(txController),
+      getOutstandingApprovals: this.getOutstandingApprovals.bind(this),
+      revokeApprovals: this.revokeApprovals.bind(this),
       // decryptMessageController
       decryptMessage: this.decryptMessageController.decryptMessage.bind(
         this.decryptMessageController,
@@ -3470,10 +3568,31 @@ export default class MetamaskController extends EventEmitter {
 
       updateThrottledOriginState:
         appStateController.updateThrottledOriginState.bind(appStateController),
+      resetThrottledOriginRejections:
+        appStateController.resetThrottledOriginRejections.bind(
+          appStateController,
+        ),
+      blockOriginPermanently:
+        appStateController.blockOriginPermanently.bind(appStateController),
+      unblockOrigin: appStateController.unblockOrigin.bind(appStateController),
+      setOriginThrottlingConfig:
+        appStateController.setOriginThrottlingConfig.bind(appStateController),
+      clearSecurityAlertHistory:
+        appStateController.clearSecurityAlertHistory.bind(appStateController),
+      setLastCopiedAddress:
+        appStateController.setLastCopiedAddress.bind(appStateController),
+      addClipboardHijackHistoryEntry:
+        appStateController.addClipboardHijackHistoryEntry.bind(
+          appStateController,
+        ),
 
       // Backup
       backupUserData: backup.backupUserData.bind(backup),
       restoreUserData: backup.restoreUserData.bind(backup),
+      backupEncryptedUserData: backup.backupEncryptedUserData.bind(backup),
+      restoreEncryptedUserData: backup.restoreEncryptedUserData.bind(backup),
+      getStateSnapshots: backup.getStateSnapshots.bind(backup),
+      restoreStateSnapshot: backup.restoreStateSnapshot.bind(backup),
 
       // TokenDetectionController
       detectTokens: tokenDetectionController.detectTokens.bind(
@@ -3623,7 +3742,22 @@ export default class MetamaskController extends EventEmitter {
         decodeTransactionData({
           ...request,
           provider: this.provider,
+          getContractAbi:
+            appStateController.getContractAbi.bind(appStateController),
         }),
+      addContractAbi: (chainId, address, abiJson) =>
+        appStateController.addContractAbi(
+          chainId,
+          address,
+          parseContractAbi(abiJson),
+        ),
+      removeContractAbi:
+        appStateController.removeContractAbi.bind(appStateController),
+      // Delegation Targets
+      reviewDelegationTarget: this.reviewDelegationTarget.bind(this),
+      approveDelegationTarget: this.approveDelegationTarget.bind(this),
+      removeDelegationTarget:
+        appStateController.removeDelegationTarget.bind(appStateController),
       // metrics data deleteion
       createMetaMetricsDataDeletionTask:
         this.metaMetricsDataDeletionController.createMetaMetricsDataDeletionTask.bind(
@@ -5835,6 +5969,31 @@ export default class MetamaskController extends EventEmitter {
     return this.sortEvmAccountsByLastSelected(ethAccounts);
   }
 
+  /**
+   * Gets the restrictable RPC methods that the user has allowed the specified
+   * origin to call.
+   *
+   * @param {string} origin - The origin whose allowed methods to retrieve.
+   * @returns {string[] | undefined} The origin's allowed methods, or undefined
+   * if the origin may call every method.
+   */
+  getAllowedRpcMethods(origin) {
+    try {
+      return this.permissionController.getCaveat(
+        origin,
+        EndowmentTypes.rpcMethodAllowlist,
+        CaveatTypes.restrictRpcMethods,
+      )?.value;
+    } catch (err) {
+      if (err instanceof PermissionDoesNotExistError) {
+        // suppress expected error in case that the origin
+        // is not restricted
+        return undefined;
+      }
+      throw err;
+    }
+  }
+
   /**
    * Handles Hyperliquid referral approval flow.
    * Shows approval confirmation screen if needed and manages referral URL redirection.
@@ -6314,6 +6473,10 @@ export default class MetamaskController extends EventEmitter {
           this.appStateController,
         ),
       getSecurityAlertsConfig: this.getSecurityAlertsConfig.bind(this),
+      getSecurityPolicies: () =>
+        this.preferencesController.state.securityPolicies,
+      securityProviderRegistry: this.securityProviderRegistry,
+      reviewDelegationTarget: this.reviewDelegationTarget.bind(this),
       ...otherParams,
     };
   }
@@ -7083,6 +7246,10 @@ export default class MetamaskController extends EventEmitter {
 
     engine.push(
       createOriginThrottlingMiddleware({
+        getOriginThrottlingConfig:
+          this.appStateController.getOriginThrottlingConfig.bind(
+            this.appStateController,
+          ),
         getThrottledOriginState:
           this.appStateController.getThrottledOriginState.bind(
             this.appStateController,
@@ -7094,6 +7261,13 @@ export default class MetamaskController extends EventEmitter {
       }),
     );
 
+    engine.push(
+      createSecurityPolicyMiddleware({
+        getSecurityPolicies: () =>
+          this.preferencesController.state.securityPolicies,
+      }),
+    );
+
     engine.push(
       createPPOMMiddleware(
         this.ppomController,
@@ -7103,6 +7277,7 @@ export default class MetamaskController extends EventEmitter {
         this.accountsController,
         this.updateSecurityAlertResponse.bind(this),
         this.getSecurityAlertsConfig.bind(this),
+        this.securityProviderRegistry,
       ),
     );
 
@@ -7133,6 +7308,7 @@ export default class MetamaskController extends EventEmitter {
         this.phishingController,
         this.preferencesController,
         this.getPermittedAccounts.bind(this),
+        this.securityProviderRegistry,
       ),
     );
 
@@ -7199,6 +7375,12 @@ export default class MetamaskController extends EventEmitter {
         }),
       );
 
+      engine.push(
+        createRpcMethodAllowlistMiddleware({
+          getAllowedRpcMethods: this.getAllowedRpcMethods.bind(this, origin),
+        }),
+      );
+
       // Add Hyperliquid permission monitoring middleware
       engine.push(
         createHyperliquidReferralMiddleware(
@@ -7249,6 +7431,11 @@ export default class MetamaskController extends EventEmitter {
 
         // Permission-related
         getAccounts: this.getPermittedAccounts.bind(this, origin),
+        getSpendingAllowances: () =>
+          getSpendingAllowanceGrants(
+            Object.values(this.delegationController.state.delegations),
+            { origin, accounts: this.getPermittedAccounts(origin) },
+          ),
         getCaip25PermissionFromLegacyPermissionsForOrigin: (
           requestedPermissions,
         ) => getCaip25PermissionFromLegacyPermissions(requestedPermissions),
@@ -7657,6 +7844,12 @@ export default class MetamaskController extends EventEmitter {
       ),
     );
 
+    engine.push(
+      createRpcMethodAllowlistMiddleware({
+        getAllowedRpcMethods: this.getAllowedRpcMethods.bind(this, origin),
+      }),
+    );
+
     if (subjectType === SubjectType.Website) {
       engine.push(
         createOnboardingMiddleware({
@@ -8508,26 +8701,178 @@ export default class MetamaskController extends EventEmitter {
   };
 
   acceptPermissionsRequest = (request) => {
+    const { connectionDuration, ...permissionsRequest } = request;
+
     try {
-      this.permissionController.acceptPermissionsRequest(request);
+      this.permissionController.acceptPermissionsRequest(permissionsRequest);
     } catch (exp) {
       if (!(exp instanceof PermissionsRequestNotFoundError)) {
         throw exp;
       }
+      return;
     }
+
+    const origin = permissionsRequest.metadata?.origin;
+
+    if (
+      !origin ||
+      !permissionsRequest.permissions?.[Caip25EndowmentPermissionName]
+    ) {
+      return;
+    }
+
+    if (connectionDuration) {
+      this.appStateController.setConnectionExpiry(origin, connectionDuration);
+    } else {
+      this.appStateController.removeConnectionExpiry(origin);
+    }
+
+    this._scheduleConnectionExpiry();
   };
 
+  /**
+   * Revokes the CAIP-25 permission of dapps whose connection has expired, and
+   * forgets the expiry of connections the user has already disconnected.
+   *
+   * @param {object} [options] - Options bag.
+   * @param {boolean} [options.isNewSession] - Whether the browser session has
+   * just started, in which case connections limited to the previous session
+   * are also revoked.
+   */
+  _revokeExpiredConnections({ isNewSession = false } = {}) {
+    const { connectionExpiries } = this.appStateController.state;
+    const now = Date.now();
+
+    for (const [origin, { duration, expiresAt }] of Object.entries(
+      connectionExpiries,
+    )) {
+      const isConnected = this.permissionController.hasPermission(
+        origin,
+        Caip25EndowmentPermissionName,
+      );
+
+      const isExpired =
+        (expiresAt !== undefined && expiresAt <= now) ||
+        (isNewSession && duration === ConnectionDuration.Session);
+
+      if (isConnected && !isExpired) {
+        continue;
+      }
+
+      if (isConnected) {
+        try {
+          this._revokeExpiredConnection(origin);
+        } catch (error) {
+          log.error('Failed to revoke expired connection', origin, error);
+          continue;
+        }
+      }
+
+      this.appStateController.removeConnectionExpiry(origin);
+    }
+
+    this._scheduleConnectionExpiry();
+  }
+
+  /**
+   * Schedules the revocation of the next dapp connection to expire.
+   */
+  _scheduleConnectionExpiry() {
+    if (isManifestV3) {
+      this.extension.alarms.clear(CONNECTION_EXPIRY_ALARM);
+    } else {
+      clearTimeout(this._connectionExpiryTimeout);
+    }
+
+    const expiryTimes = Object.values(
+      this.appStateController.state.connectionExpiries,
+    )
+      .map(({ expiresAt }) => expiresAt)
+      .filter((expiresAt) => expiresAt !== undefined);
+
+    if (!expiryTimes.length) {
+      return;
+    }
+
+    const nextExpiry = Math.min(...expiryTimes);
+
+    if (isManifestV3) {
+      this.extension.alarms.create(CONNECTION_EXPIRY_ALARM, {
+        when: nextExpiry,
+      });
+    } else {
+      this._connectionExpiryTimeout = setTimeout(
+        () => this._revokeExpiredConnections(),
+        Math.max(nextExpiry - Date.now(), 0),
+      );
+    }
+  }
+
+  /**
+   * Revokes an expired connection as an internal `wallet_revokePermissions`
+   * request passed through the permission log middleware, so the permission
+   * log controller records it in the permission activity log.
+   *
+   * @param {string} origin - The origin of the dapp.
+   */
+  _revokeExpiredConnection(origin) {
+    const id = nanoid();
+    const response = { id, jsonrpc: '2.0' };
+    let revokeError;
+
+    this.permissionLogController.createMiddleware()(
+      {
+        id,
+        jsonrpc: '2.0',
+        method: MethodNames.RevokePermissions,
+        params: [{ [Caip25EndowmentPermissionName]: {} }],
+        origin,
+      },
+      response,
+      (returnHandler) => {
+        try {
+          this.permissionController.revokePermission(
+            origin,
+            Caip25EndowmentPermissionName,
+          );
+          response.result = null;
+        } catch (error) {
+          revokeError = error;
+          response.error = serializeError(error);
+        }
+
+        returnHandler?.(() => undefined);
+      },
+      () => undefined,
+    );
+
+    if (revokeError) {
+      throw revokeError;
+    }
+  }
+
   resolvePendingApproval = async (id, value, options) => {
+    const securityAlertId = this._getSecurityAlertId(id);
+
     try {
       await this.approvalController.accept(id, value, options);
     } catch (exp) {
       if (!(exp instanceof ApprovalRequestNotFoundError)) {
         throw exp;
       }
+      return;
     }
+
+    this._setSecurityAlertHistoryUserAction(
+      securityAlertId,
+      SecurityAlertUserAction.Approved,
+    );
   };
 
   rejectPendingApproval = (id, error) => {
+    // Rejected requests may be removed from state, so the ID is read first.
+    const securityAlertId = this._getSecurityAlertId(id);
+
     try {
       this.approvalController.reject(
         id,
@@ -8537,9 +8882,46 @@ export default class MetamaskController extends EventEmitter {
       if (!(exp instanceof ApprovalRequestNotFoundError)) {
         throw exp;
       }
+      return;
     }
+
+    this._setSecurityAlertHistoryUserAction(
+      securityAlertId,
+      SecurityAlertUserAction.Rejected,
+    );
   };
 
+  /**
+   * Gets the ID of the security scan of a transaction or signature request.
+   *
+   * @param {string} id - The ID of the approval request.
+   * @returns {string | undefined} The security alert ID, if it was scanned.
+   */
+  _getSecurityAlertId(id) {
+    const request =
+      this.txController.state.transactions.find(
+        (transactionMeta) => transactionMeta.id === id,
+      ) ?? this.signatureController.state.signatureRequests[id];
+
+    return request?.securityAlertResponse?.securityAlertId;
+  }
+
+  /**
+   * Records what the user did with a scanned transaction or signature request
+   * in the security alert history.
+   *
+   * @param {string | undefined} securityAlertId - The ID of the security scan.
+   * @param {SecurityAlertUserAction} userAction - The action taken by the user.
+   */
+  _setSecurityAlertHistoryUserAction(securityAlertId, userAction) {
+    if (securityAlertId) {
+      this.appStateController.setSecurityAlertHistoryUserAction(
+        securityAlertId,
+        userAction,
+      );
+    }
+  }
+
   rejectAllPendingApprovals() {
     const deleteInterface = (id) =>
       this.controllerMessenger.call(
@@ -9115,6 +9497,27 @@ export default class MetamaskController extends EventEmitter {
     return isDisabled;
   }
 
+  /**
+   * Gets the redemptions and remaining budget of a gator permission.
+   *
+   * @param {object} request - The request object
+   * @param {string} request.chainId - The chain ID of the permission
+   * @param {string} request.delegationManager - The delegation manager of the permission
+   * @param {string} request.permissionContext - The encoded delegation of the permission
+   * @param {string} request.permissionType - The type of the permission
+   * @param {string} [request.tokenAddress] - The token of the permission, if not native
+   * @returns {Promise<object>} The usage of the permission.
+   */
+  async getGatorPermissionUsage(request) {
+    const networkClientId = this.networkController.findNetworkClientIdByChainId(
+      request.chainId,
+    );
+    const { provider } =
+      this.networkController.getNetworkClientById(networkClientId);
+
+    return await getGatorPermissionUsage(request, provider);
+  }
+
   #initControllers({ existingControllers, initFunctions, initState }) {
     const initRequest = {
       currentMigrationVersion: this.opts.currentMigrationVersion,
@@ -9224,4 +9627,153 @@ export default class MetamaskController extends EventEmitter {
       upgradeContractAddress,
     };
   }
+
+  /**
+   * Removes a contact from the address book along with its guard rails.
+   *
+   * @param {string} chainId - The chain ID of the contact
+   * @param {string} address - The address of the contact
+   * @returns {boolean} Whether the contact was removed
+   */
+  removeFromAddressBook(chainId, address) {
+    this.appStateController.setContactGuardRails(chainId, address, undefined);
+    return this.addressBookController.delete(chainId, address);
+  }
+
+  /**
+   * Reviews the target of an EIP-7702 delegation against the registry of
+   * trusted delegation targets, without changing the registry.
+   *
+   * @param {object} request - The request object
+   * @param {string} request.address - The address of the delegation target
+   * @param {string} request.chainId - The chain ID of the delegation
+   * @returns {Promise<object>} The review of the delegation target
+   */
+  async reviewDelegationTarget({ address, chainId }) {
+    const networkClientId =
+      this.networkController.findNetworkClientIdByChainId(chainId);
+    const { provider } =
+      this.networkController.getNetworkClientById(networkClientId);
+
+    return await reviewDelegationTarget({
+      address,
+      chainId,
+      provider,
+      getDelegationTarget: this.appStateController.getDelegationTarget.bind(
+        this.appStateController,
+      ),
+      getMetaMaskDelegatorAddress: async (delegationChainId) => {
+        const { upgradeContractAddress } = await this.isEip7702Supported({
+          address: this.accountsController.getSelectedAccount().address,
+          chainId: delegationChainId,
+        });
+
+        return upgradeContractAddress ?? undefined;
+      },
+    });
+  }
+
+  /**
+   * Trusts a contract approved by the user as the target of EIP-7702
+   * delegations, pinning the hash of its current code.
+   *
+   * @param {object} request - The request object
+   * @param {string} request.address - The address of the contract
+   * @param {string} request.chainId - The chain ID of the contract
+   * @param {string} request.name - The name to display for the contract
+   */
+  async approveDelegationTarget({ address, chainId, name }) {
+    const networkClientId =
+      this.networkController.findNetworkClientIdByChainId(chainId);
+    const { provider } =
+      this.networkController.getNetworkClientById(networkClientId);
+
+    await approveDelegationTarget({
+      address,
+      chainId,
+      name,
+      provider,
+      addDelegationTarget: this.appStateController.addDelegationTarget.bind(
+        this.appStateController,
+      ),
+    });
+  }
+
+  /**
+   * Gets the approvals granted by an account on a chain that are still live.
+   *
+   * @param {object} request - The request object
+   * @param {string} request.address - The account address
+   * @param {string} request.chainId - The chain ID to audit
+   * @returns {Promise<object[]>}
+   */
+  async getOutstandingApprovals({ address, chainId }) {
+    const networkClientId =
+      this.networkController.findNetworkClientIdByChainId(chainId);
+    const { provider } =
+      this.networkController.getNetworkClientById(networkClientId);
+
+    return await getOutstandingApprovals({
+      address,
+      chainId,
+      transactions: this.txController.state.transactions,
+      signatureRequests: Object.values(
+        this.signatureController.state.signatureRequests,
+      ),
+      provider,
+      getAddressSecurityAlertResponse:
+        this.appStateController.getAddressSecurityAlertResponse.bind(
+          this.appStateController,
+        ),
+    });
+  }
+
+  /**
+   * Revokes approvals granted by an account. Upgraded accounts revoke all of
+   * them in a single batch, otherwise a transaction is added per approval.
+   *
+   * @param {object} request - The request object
+   * @param {string} request.address - The account address
+   * @param {string} request.chainId - The chain ID of the approvals
+   * @param {object[]} request.approvals - The approvals to revoke
+   */
+  async revokeApprovals({ address, chainId, approvals }) {
+    const networkClientId =
+      this.networkController.findNetworkClientIdByChainId(chainId);
+    const transactions = buildRevokeTransactions(approvals);
+
+    const atomicBatchSupport = await this.txController.isAtomicBatchSupported({
+      address,
+      chainIds: [chainId],
+    });
+
+    const atomicBatchChainSupport = findAtomicBatchSupportForChain(
+      atomicBatchSupport,
+      chainId,
+    );
+
+    if (
+      atomicBatchChainSupport?.isSupported &&
+      atomicBatchChainSupport.delegationAddress
+    ) {
+      await this.txController.addTransactionBatch({
+        from: address,
+        networkClientId,
+        origin: ORIGIN_METAMASK,
+        requireApproval: true,
+        transactions: transactions.map((params) => ({ params })),
+      });
+      return;
+    }
+
+    for (const { to, data } of transactions) {
+      await addTransaction(
+        this.getAddTransactionRequest({
+          transactionParams: { from: address, to, data },
+          transactionOptions: { networkClientId, origin: ORIGIN_METAMASK },
+          waitForSubmit: false,
+        }),
+      );
+    }
+  }
 }
@@ -41,7 +41,10 @@ import {
   KnownSessionProperties,
   getEthAccounts,
 } from '@metamask/chain-agnostic-permission';
-import { PermissionDoesNotExistError } from '@metamask/permission-controller';
+import {
+  MethodNames,
+  PermissionDoesNotExistError,
+} from '@metamask/permission-controller';
 import { KeyringInternalSnapClient } from '@metamask/keyring-internal-snap-client';
 
 import log from 'loglevel';
@@ -65,6 +68,8 @@ import * as NetworkConstantsModule from '../../shared/constants/network';
 import { withResolvers } from '../../shared/lib/promise-with-resolvers';
 import { flushPromises } from '../../test/lib/timer-helpers';
 import { FirstTimeFlowType } from '../../shared/constants/onboarding';
+import { ConnectionDuration } from '../../shared/constants/connection-expiry';
+import { CONNECTION_EXPIRY_ALARM } from '../../shared/constants/alarms';
 import { MultichainNetworks } from '../../shared/constants/multichain/networks';
 import { HYPERLIQUID_APPROVAL_TYPE } from '../../shared/constants/app';
 import { HYPERLIQUID_ORIGIN } from '../../shared/constants/referrals';
@@ -641,6 +646,9 @@ describe('MetaMaskController', () => {
           getSecurityAlertResponse: expect.any(Function),
           addSecurityAlertResponse: expect.any(Function),
           getSecurityAlertsConfig: expect.any(Function),
+          getSecurityPolicies: expect.any(Function),
+          securityProviderRegistry: expect.any(Object),
+          reviewDelegationTarget: expect.any(Function),
         });
       });
       it('passes through any additional params to the object', () => {
@@ -1264,6 +1272,184 @@ describe('MetaMaskController', () => {
       });
     });
 
+    describe('acceptPermissionsRequest', () => {
+      const permissionsRequest = {
+        metadata: { id: 'request-id', origin: 'test.com' },
+        permissions: { [Caip25EndowmentPermissionName]: {} },
+      };
+
+      beforeEach(() => {
+        jest
+          .spyOn(
+            metamaskController.permissionController,
+            'acceptPermissionsRequest',
+          )
+          .mockResolvedValue();
+      });
+
+      afterEach(() => {
+        clearTimeout(metamaskController._connectionExpiryTimeout);
+      });
+
+      it('accepts the request without the connection duration', () => {
+        metamaskController.acceptPermissionsRequest({
+          ...permissionsRequest,
+          connectionDuration: ConnectionDuration.OneHour,
+        });
+
+        expect(
+          metamaskController.permissionController.acceptPermissionsRequest,
+        ).toHaveBeenCalledWith(permissionsRequest);
+      });
+
+      it('stores the expiry of a time-boxed connection', () => {
+        metamaskController.acceptPermissionsRequest({
+          ...permissionsRequest,
+          connectionDuration: ConnectionDuration.OneDay,
+        });
+
+        expect(
+          metamaskController.appStateController.state.connectionExpiries[
+            'test.com'
+          ],
+        ).toStrictEqual({
+          duration: ConnectionDuration.OneDay,
+          expiresAt: expect.any(Number),
+        });
+      });
+
+      it('removes a previous expiry if no connection duration is selected', () => {
+        metamaskController.appStateController.setConnectionExpiry(
+          'test.com',
+          ConnectionDuration.Session,
+        );
+
+        metamaskController.acceptPermissionsRequest(permissionsRequest);
+
+        expect(
+          metamaskController.appStateController.state.connectionExpiries,
+        ).toStrictEqual({});
+      });
+    });
+
+    describe('_revokeExpiredConnections', () => {
+      beforeEach(() => {
+        jest
+          .spyOn(metamaskController.permissionController, 'hasPermission')
+          .mockReturnValue(true);
+        jest
+          .spyOn(metamaskController.permissionController, 'revokePermission')
+          .mockReturnValue();
+      });
+
+      afterEach(() => {
+        jest.spyOn(Date, 'now').mockRestore();
+        clearTimeout(metamaskController._connectionExpiryTimeout);
+      });
+
+      it('revokes connections that have expired', () => {
+        metamaskController.appStateController.setConnectionExpiry(
+          'test.com',
+          ConnectionDuration.OneHour,
+        );
+        jest
+          .spyOn(Date, 'now')
+          .mockReturnValue(
+            metamaskController.appStateController.state.connectionExpiries[
+              'test.com'
+            ].expiresAt,
+          );
+
+        metamaskController._revokeExpiredConnections();
+
+        expect(
+          metamaskController.permissionController.revokePermission,
+        ).toHaveBeenCalledWith('test.com', Caip25EndowmentPermissionName);
+        expect(
+          metamaskController.appStateController.state.connectionExpiries,
+        ).toStrictEqual({});
+      });
+
+      it('records the revocation in the permission activity log', () => {
+        metamaskController.appStateController.setConnectionExpiry(
+          'test.com',
+          ConnectionDuration.Session,
+        );
+
+        metamaskController._revokeExpiredConnections({ isNewSession: true });
+
+        expect(
+          metamaskController.permissionLogController.state.permissionActivityLog.at(
+            -1,
+          ),
+        ).toStrictEqual(
+          expect.objectContaining({
+            method: MethodNames.RevokePermissions,
+            origin: 'test.com',
+            success: true,
+          }),
+        );
+      });
+
+      it('revokes session connections when a new session starts', () => {
+        metamaskController.appStateController.setConnectionExpiry(
+          'test.com',
+          ConnectionDuration.Session,
+        );
+
+        metamaskController._revokeExpiredConnections({ isNewSession: true });
+
+        expect(
+          metamaskController.permissionController.revokePermission,
+        ).toHaveBeenCalledWith('test.com', Caip25EndowmentPermissionName);
+      });
+
+      it('does not revoke connections that have not expired', () => {
+        metamaskController.appStateController.setConnectionExpiry(
+          'test.com',
+          ConnectionDuration.Session,
+        );
+
+        metamaskController._revokeExpiredConnections();
+
+        expect(
+          metamaskController.permissionController.revokePermission,
+        ).not.toHaveBeenCalled();
+        expect(
+          metamaskController.appStateController.state.connectionExpiries,
+        ).toStrictEqual({
+          'test.com': { duration: ConnectionDuration.Session },
+        });
+      });
+    });
+
+    describe('_scheduleConnectionExpiry', () => {
+      afterEach(() => {
+        mockIsManifestV3.mockReturnValue(false);
+      });
+
+      it('schedules an alarm for the next connection to expire in MV3', () => {
+        mockIsManifestV3.mockReturnValue(true);
+        metamaskController.appStateController.setConnectionExpiry(
+          'test.com',
+          ConnectionDuration.OneHour,
+        );
+
+        metamaskController._scheduleConnectionExpiry();
+
+        expect(browserPolyfillMock.alarms.clear).toHaveBeenCalledWith(
+          CONNECTION_EXPIRY_ALARM,
+        );
+        expect(browserPolyfillMock.alarms.create).toHaveBeenCalledWith(
+          CONNECTION_EXPIRY_ALARM,
+          {
+            when: metamaskController.appStateController.state
+              .connectionExpiries['test.com'].expiresAt,
+          },
+        );
+      });
+    });
+
     describe('requestApprovalPermittedChainsPermission', () => {
       it('requests approval', async () => {
         jest
@@ -0,0 +1,135 @@
+const http = require('http');
+const {
+  getMockSecurityAlertsApiResponse,
+} = require('./security-alerts-api-mock');
+
+/**
+ * This is the default error handler to be used by this mock Security Alerts
+ * API server. It will print the error to the console and exit the process.
+ *
+ * @param {Error} error - The server error
+ */
+function defaultOnError(error) {
+  console.log(error);
+  process.exit(1);
+}
+
+/**
+ * @typedef {import('./security-alerts-api-mock').MockSecurityAlertsApiFixture} MockSecurityAlertsApiFixture
+ */
+
+/**
+ * Creates a HTTP server that acts as a fake version of the Security Alerts API.
+ * Responses are resolved from a fixture of canned Blockaid responses, which is
+ * read for every request so it can be edited while the server is running.
+ *
+ * @param {() => MockSecurityAlertsApiFixture} getFixture - Returns the current fixture.
+ * @param {(request: { method: string, path: string, body?: object }, statusCode: number, responseBody: object) => void} [onRequest] - A callback for each request the server responds to.
+ * @param {(error: Error) => void} [onError] - A callback for server error events
+ */
+function createSecurityAlertsApiServer(
+  getFixture,
+  onRequest = () => undefined,
+  onError = defaultOnError,
+) {
+  const server = http.createServer(async (request, response) => {
+    const chunks = [];
+
+    request.on('data', (chunk) => {
+      chunks.push(chunk);
+    });
+
+    await new Promise((resolve) => {
+      request.on('end', () => {
+        resolve();
+      });
+    });
+
+    response.setHeader('Access-Control-Allow-Origin', '*');
+
+    // respond to preflight request
+    if (request.method === 'OPTIONS') {
+      response.setHeader('Access-Control-Allow-Methods', '*');
+      response.setHeader('Access-Control-Allow-Headers', '*');
+      response.statusCode = 200;
+      response.end();
+      return;
+    }
+
+    const path = new URL(request.url, 'http://localhost').pathname;
+    let body;
+
+    try {
+      body = chunks.length
+        ? JSON.parse(Buffer.concat(chunks).toString())
+        : undefined;
+    } catch {
+      response.statusCode = 400;
+      response.end(JSON.stringify({ message: 'Invalid JSON body' }));
+      return;
+    }
+
+    let fixture;
+
+    // The fixture can be edited while the server is running, so a broken
+    // fixture is reported for the request instead of crashing the server.
+    try {
+      fixture = getFixture();
+    } catch (error) {
+      const responseBody = { message: `Invalid fixture: ${error.message}` };
+
+      onRequest({ method: request.method, path, body }, 500, responseBody);
+
+      response.statusCode = 500;
+      response.setHeader('Content-Type', 'application/json');
+      response.end(JSON.stringify(responseBody));
+      return;
+    }
+
+    const {
+      statusCode,
+      body: responseBody,
+      latency,
+    } = getMockSecurityAlertsApiResponse(fixture, { path, body });
+
+    if (latency) {
+      await new Promise((resolve) => setTimeout(resolve, latency));
+    }
+
+    onRequest({ method: request.method, path, body }, statusCode, responseBody);
+
+    response.statusCode = statusCode;
+    response.setHeader('Content-Type', 'application/json');
+    response.end(JSON.stringify(responseBody));
+  });
+
+  server.on('error', onError);
+
+  return {
+    start: async (port) => {
+      await new Promise((resolve, reject) => {
+        server.listen(port, (error) => {
+          if (error) {
+            return reject(error);
+          }
+          return resolve();
+        });
+      });
+    },
+    stop: async () => {
+      await new Promise((resolve, reject) => {
+        server.close((error) => {
+          if (error) {
+            return reject(error);
+          }
+          return resolve();
+        });
+        // We need to close all connections to stop the server quickly
+        // Otherwise it takes a few seconds for it to close
+        server.closeAllConnections();
+      });
+    },
+  };
+}
+
+module.exports = { createSecurityAlertsApiServer };
@@ -0,0 +1,153 @@
+const ADDRESS_REGEX = /0x[0-9a-f]{40}/giu;
+
+const VALIDATE_PATH_REGEX = /^\/validate\/0x[0-9a-f]+$/iu;
+
+const ADDRESS_SCAN_PATH = '/address/evm/scan';
+
+const BENIGN_VALIDATION_RESPONSE = {
+  block: 0,
+  result_type: 'Benign',
+  reason: '',
+  description: '',
+  features: [],
+};
+
+const BENIGN_ADDRESS_SCAN_RESPONSE = {
+  result_type: 'Benign',
+  label: '',
+};
+
+/**
+ * A canned response of the mock Security Alerts API.
+ *
+ * @typedef {object} MockSecurityAlertsApiRule
+ * @property {object} [response] - The response body. Validation responses
+ * default to the Blockaid response format, so only `result_type` and `reason`
+ * are usually needed.
+ * @property {number} [statusCode] - The HTTP status code, used to inject
+ * errors. Defaults to 200.
+ * @property {number} [latency] - The delay in milliseconds before responding.
+ */
+
+/**
+ * The fixture configuring the mock Security Alerts API.
+ *
+ * @typedef {object} MockSecurityAlertsApiFixture
+ * @property {number} [latency] - The default delay in milliseconds before
+ * responding to any request.
+ * @property {Record<string, MockSecurityAlertsApiRule>} [origins] - Rules for
+ * validation requests sent by the given origins. These take precedence over
+ * address rules.
+ * @property {Record<string, MockSecurityAlertsApiRule>} [addresses] - Rules
+ * for validation requests involving the given addresses, such as the recipient
+ * of a transaction or the spender of a permit.
+ * @property {Record<string, MockSecurityAlertsApiRule>} [addressScans] - Rules
+ * for address scans of the given addresses.
+ * @property {MockSecurityAlertsApiRule} [default] - The rule used for
+ * validation requests not matching any origin or address.
+ */
+
+/**
+ * Looks up a rule ignoring the case of the key, as addresses may be sent in
+ * checksum or lowercase format.
+ *
+ * @param {Record<string, MockSecurityAlertsApiRule> | undefined} rules - The rules to search.
+ * @param {string | undefined} key - The origin or address to find.
+ * @returns {MockSecurityAlertsApiRule | undefined} The matching rule.
+ */
+function findRule(rules, key) {
+  if (!rules || !key) {
+    return undefined;
+  }
+
+  const ruleKey = Object.keys(rules).find(
+    (candidate) => candidate.toLowerCase() === key.toLowerCase(),
+  );
+
+  return ruleKey ? rules[ruleKey] : undefined;
+}
+
+/**
+ * Finds the rule for a validation request, matching the origin first and then
+ * any address found in the request parameters, including typed data.
+ *
+ * @param {MockSecurityAlertsApiFixture} fixture - The mock API fixture.
+ * @param {{ origin?: string, params?: unknown[] }} body - The request body.
+ * @returns {MockSecurityAlertsApiRule | undefined} The matching rule.
+ */
+function findValidationRule(fixture, body) {
+  const originRule = findRule(fixture.origins, body?.origin);
+
+  if (originRule) {
+    return originRule;
+  }
+
+  const addresses = JSON.stringify(body?.params ?? []).match(ADDRESS_REGEX);
+
+  for (const address of addresses ?? []) {
+    const addressRule = findRule(fixture.addresses, address);
+
+    if (addressRule) {
+      return addressRule;
+    }
+  }
+
+  return fixture.default;
+}
+
+/**
+ * Builds the response of the mock API from a rule.
+ *
+ * @param {MockSecurityAlertsApiFixture} fixture - The mock API fixture.
+ * @param {MockSecurityAlertsApiRule | undefined} rule - The matching rule.
+ * @param {object} defaultResponse - The response used if the rule has none.
+ * @returns {{ statusCode: number, body: object, latency: number }} The response.
+ */
+function buildResponse(fixture, rule, defaultResponse) {
+  const statusCode = rule?.statusCode ?? 200;
+  const isError = statusCode >= 400;
+
+  const body = isError
+    ? (rule?.response ?? { message: 'Internal server error' })
+    : { ...defaultResponse, ...rule?.response };
+
+  return {
+    statusCode,
+    body,
+    latency: rule?.latency ?? fixture.latency ?? 0,
+  };
+}
+
+/**
+ * Resolves the response of the mock Security Alerts API to a request.
+ * Validation requests and address scans not matching any rule are benign.
+ *
+ * @param {MockSecurityAlertsApiFixture} fixture - The mock API fixture.
+ * @param {{ path: string, body?: object }} request - The request path and parsed JSON body.
+ * @returns {{ statusCode: number, body: object, latency: number }} The response.
+ */
+function getMockSecurityAlertsApiResponse(fixture, { path, body }) {
+  if (VALIDATE_PATH_REGEX.test(path)) {
+    return buildResponse(
+      fixture,
+      findValidationRule(fixture, body),
+      BENIGN_VALIDATION_RESPONSE,
+    );
+  }
+
+  if (path === ADDRESS_SCAN_PATH) {
+    return buildResponse(
+      fixture,
+      findRule(fixture.addressScans, body?.address),
+      BENIGN_ADDRESS_SCAN_RESPONSE,
+    );
+  }
+
+  return {
+    statusCode: 404,
+    body: { message: `Unsupported endpoint: ${path}` },
+    latency: 0,
+  };
+}
+
+module.exports = { getMockSecurityAlertsApiResponse };
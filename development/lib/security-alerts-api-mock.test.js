@@ -0,0 +1,145 @@
+const {
+  getMockSecurityAlertsApiResponse,
+} = require('./security-alerts-api-mock');
+
+const MALICIOUS_ADDRESS = '0x5FbDB2315678afecb367f032d93F642f64180aa3';
+const BENIGN_ADDRESS = '0x50587e46c5b96a3f6f9792922ec647f13e6efae4';
+const ORIGIN = 'https://malicious.example.com';
+
+const MALICIOUS_RESPONSE = {
+  result_type: 'Malicious',
+  reason: 'transfer_farming',
+};
+
+const FIXTURE = {
+  origins: {
+    [ORIGIN]: {
+      response: { result_type: 'Malicious', reason: 'malicious_domain' },
+    },
+  },
+  addresses: {
+    [MALICIOUS_ADDRESS.toLowerCase()]: { response: MALICIOUS_RESPONSE },
+  },
+  addressScans: {
+    [MALICIOUS_ADDRESS.toLowerCase()]: {
+      response: { result_type: 'Malicious', label: 'Known scammer' },
+    },
+  },
+};
+
+function buildValidateRequest(params, origin) {
+  return {
+    path: '/validate/0x1',
+    body: { method: 'eth_sendTransaction', params, origin },
+  };
+}
+
+describe('getMockSecurityAlertsApiResponse', () => {
+  it('returns a benign response if no rule matches', () => {
+    expect(
+      getMockSecurityAlertsApiResponse(
+        FIXTURE,
+        buildValidateRequest([{ to: BENIGN_ADDRESS }]),
+      ),
+    ).toStrictEqual({
+      statusCode: 200,
+      body: {
+        block: 0,
+        result_type: 'Benign',
+        reason: '',
+        description: '',
+        features: [],
+      },
+      latency: 0,
+    });
+  });
+
+  it('matches any address in the request ignoring case', () => {
+    expect(
+      getMockSecurityAlertsApiResponse(
+        FIXTURE,
+        buildValidateRequest([
+          BENIGN_ADDRESS,
+          JSON.stringify({ message: { spender: MALICIOUS_ADDRESS } }),
+        ]),
+      ).body,
+    ).toStrictEqual(expect.objectContaining(MALICIOUS_RESPONSE));
+  });
+
+  it('matches the origin before any address', () => {
+    expect(
+      getMockSecurityAlertsApiResponse(
+        FIXTURE,
+        buildValidateRequest([{ to: MALICIOUS_ADDRESS }], ORIGIN),
+      ).body.reason,
+    ).toBe('malicious_domain');
+  });
+
+  it('uses the default rule if no origin or address matches', () => {
+    expect(
+      getMockSecurityAlertsApiResponse(
+        { ...FIXTURE, default: { response: { result_type: 'Warning' } } },
+        buildValidateRequest([{ to: BENIGN_ADDRESS }]),
+      ).body.result_type,
+    ).toBe('Warning');
+  });
+
+  it('returns the latency of the rule or fixture', () => {
+    const fixture = {
+      latency: 100,
+      addresses: { [BENIGN_ADDRESS]: { latency: 500 } },
+    };
+
+    expect(
+      getMockSecurityAlertsApiResponse(
+        fixture,
+        buildValidateRequest([{ to: BENIGN_ADDRESS }]),
+      ).latency,
+    ).toBe(500);
+
+    expect(
+      getMockSecurityAlertsApiResponse(
+        fixture,
+        buildValidateRequest([{ to: MALICIOUS_ADDRESS }]),
+      ).latency,
+    ).toBe(100);
+  });
+
+  it('returns an error if the rule has an error status code', () => {
+    expect(
+      getMockSecurityAlertsApiResponse(
+        { default: { statusCode: 500 } },
+        buildValidateRequest([]),
+      ),
+    ).toStrictEqual({
+      statusCode: 500,
+      body: { message: 'Internal server error' },
+      latency: 0,
+    });
+  });
+
+  it('returns the address scan result', () => {
+    expect(
+      getMockSecurityAlertsApiResponse(FIXTURE, {
+        path: '/address/evm/scan',
+        body: { chain: 'ethereum', address: MALICIOUS_ADDRESS },
+      }).body,
+    ).toStrictEqual({ result_type: 'Malicious', label: 'Known scammer' });
+  });
+
+  it('returns a benign address scan result if no rule matches', () => {
+    expect(
+      getMockSecurityAlertsApiResponse(FIXTURE, {
+        path: '/address/evm/scan',
+        body: { chain: 'ethereum', address: BENIGN_ADDRESS },
+      }).body,
+    ).toStrictEqual({ result_type: 'Benign', label: '' });
+  });
+
+  it('returns not found for unsupported endpoints', () => {
+    expect(
+      getMockSecurityAlertsApiResponse(FIXTURE, { path: '/token/scan' })
+        .statusCode,
+    ).toBe(404);
+  });
+});
@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+const fs = require('fs');
+const path = require('path');
+const {
+  createSecurityAlertsApiServer,
+} = require('./lib/create-security-alerts-api-server');
+const { parsePort } = require('./lib/parse-port');
+
+const DEFAULT_PORT = 9091;
+const DEFAULT_FIXTURE = path.resolve(
+  __dirname,
+  'mock-security-alerts-api-fixture.json',
+);
+const prefix = '[mock-security-alerts-api]';
+
+function onRequest({ method, path: requestPath, body }, statusCode, response) {
+  console.log(
+    `${prefix}: ${method} ${requestPath} ${statusCode}\n${JSON.stringify(
+      { request: body, response },
+      null,
+      2,
+    )}`,
+  );
+}
+
+function onError(error) {
+  console.error(error);
+  process.exit(1);
+}
+
+/**
+ * This is a mock Security Alerts API meant to be run from the command line. It
+ * will start a server with the port specified, and respond to validation
+ * requests and address scans with the canned Blockaid responses configured in
+ * a fixture file. Requests not matching the fixture are considered benign.
+ *
+ * The fixture can match validation requests by origin or by any address in the
+ * request, and inject latency or HTTP errors. See the default fixture for an
+ * example, and `development/lib/security-alerts-api-mock.js` for the format.
+ * The fixture is read for every request, so it can be edited without
+ * restarting the server.
+ *
+ * This can be used with the MetaMask extension by setting the
+ * `SECURITY_ALERTS_API_URL` environment variable or config entry when building
+ * MetaMask.
+ *
+ * For example, to build MetaMask for use with this mock server, you could set
+ * the following value in `.metamaskrc` before building:
+ *
+ * SECURITY_ALERTS_API_URL='http://localhost:9091'
+ */
+const main = async () => {
+  const args = process.argv.slice(2);
+
+  let port = process.env.port || DEFAULT_PORT;
+  let fixturePath = DEFAULT_FIXTURE;
+
+  while (args.length) {
+    if (/^(--port|-p)$/u.test(args[0])) {
+      if (args[1] === undefined) {
+        throw new Error('Missing port argument');
+      }
+      port = parsePort(args[1]);
+      args.splice(0, 2);
+    } else if (/^(--fixture|-f)$/u.test(args[0])) {
+      if (args[1] === undefined) {
+        throw new Error('Missing fixture argument');
+      }
+      fixturePath = path.resolve(args[1]);
+      args.splice(0, 2);
+    } else {
+      throw new Error(`Unrecognized argument: ${args[0]}`);
+    }
+  }
+
+  const getFixture = () => JSON.parse(fs.readFileSync(fixturePath, 'utf8'));
+
+  // Fail early if the fixture is missing or invalid
+  getFixture();
+
+  const server = createSecurityAlertsApiServer(getFixture, onRequest, onError);
+
+  await server.start(port);
+  console.log(
+    `${prefix}: Listening on port ${port} using fixture ${fixturePath}`,
+  );
+};
+
+main().catch(onError);
@@ -0,0 +1,101 @@
+import { argv, env, exit } from 'node:process';
+import yargs from 'yargs/yargs';
+import {
+  bytesToB64,
+  generateECDSAKeyPair,
+  signDeepLink,
+} from '../test/e2e/tests/deep-link/helpers';
+
+/**
+ * The environment variable the private key is read from when `--private-key`
+ * is not passed.
+ */
+const PRIVATE_KEY_ENV = 'DEEP_LINK_PRIVATE_KEY';
+
+/**
+ * Generates a P-256 key pair and prints both halves. The public key goes into
+ * the `DEEP_LINK_PUBLIC_KEY` build variable (or the
+ * `testing.deepLinkPublicKey` manifest flag of a test build), and the private
+ * key is used by the `sign` command.
+ */
+async function generate() {
+  const keyPair = await generateECDSAKeyPair();
+  const publicKey = bytesToB64(
+    await crypto.subtle.exportKey('raw', keyPair.publicKey),
+  );
+  const privateKey = bytesToB64(
+    await crypto.subtle.exportKey('pkcs8', keyPair.privateKey),
+  );
+
+  console.log(`DEEP_LINK_PUBLIC_KEY=${publicKey}`);
+  console.log(`${PRIVATE_KEY_ENV}=${privateKey}`);
+}
+
+/**
+ * Signs a deep link and prints the signed URL.
+ *
+ * @param url - The deep link to sign, e.g. `https://link.metamask.io/home`.
+ * @param privateKey - The base64 encoded PKCS #8 private key.
+ * @param withSigParams - Whether to only sign the params listed in
+ * `sig_params`, so params can be appended to the link after signing.
+ */
+async function sign(url: string, privateKey: string, withSigParams: boolean) {
+  const key = await crypto.subtle.importKey(
+    'pkcs8',
+    Buffer.from(privateKey, 'base64'),
+    { name: 'ECDSA', namedCurve: 'P-256' },
+    false, // extractable
+    ['sign'],
+  );
+
+  console.log(await signDeepLink(key, url, withSigParams));
+}
+
+async function main() {
+  await yargs(argv.slice(2))
+    .scriptName('sign-deep-link')
+    .strict()
+    .demandCommand(1)
+    .command(
+      'generate',
+      'Generate a key pair for signing deep links',
+      {},
+      async () => await generate(),
+    )
+    .command(
+      'sign <url>',
+      'Sign a deep link',
+      (args) =>
+        args
+          .positional('url', {
+            type: 'string',
+            description: 'The deep link to sign',
+            demandOption: true,
+          })
+          .option('private-key', {
+            alias: 'k',
+            type: 'string',
+            description: `The base64 encoded private key, defaults to the ${PRIVATE_KEY_ENV} environment variable`,
+            default: env[PRIVATE_KEY_ENV],
+          })
+          .option('sig-params', {
+            type: 'boolean',
+            description: 'Include the `sig_params` query parameter',
+            default: true,
+          }),
+      async ({ url, privateKey, sigParams }) => {
+        if (!privateKey) {
+          throw new Error(
+            `No private key, pass --private-key or set ${PRIVATE_KEY_ENV}.`,
+          );
+        }
+        await sign(url, privateKey, sigParams);
+      },
+    )
+    .parseAsync();
+}
+
+main().catch((error) => {
+  console.error(`Error signing deep link: ${(error as Error).message}`);
+  exit(1);
+});
@@ -1,3 +1,4 @@
 export const AUTO_LOCK_TIMEOUT_ALARM = 'AUTO_LOCK_TIMEOUT_ALARM';
 export const METAMETRICS_FINALIZE_EVENT_FRAGMENT_ALARM =
   'METAMETRICS_FINALIZE_EVENT_FRAGMENT_ALARM';
+export const CONNECTION_EXPIRY_ALARM = 'CONNECTION_EXPIRY_ALARM';
@@ -0,0 +1,22 @@
+import { DAY, HOUR } from './time';
+
+/**
+ * How long a dapp connection lasts before it is revoked automatically.
+ */
+export enum ConnectionDuration {
+  OneHour = 'oneHour',
+  OneDay = 'oneDay',
+  Session = 'session',
+}
+
+/**
+ * Lifetime of the connection durations that expire after a fixed time, rather
+ * than when the browser session ends.
+ */
+export const CONNECTION_DURATION_MS: Record<
+  Exclude<ConnectionDuration, ConnectionDuration.Session>,
+  number
+> = {
+  [ConnectionDuration.OneHour]: HOUR,
+  [ConnectionDuration.OneDay]: DAY,
+};
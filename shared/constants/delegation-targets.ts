@@ -0,0 +1,13 @@
+import type { Hex } from '@metamask/utils';
+
+export const METAMASK_DELEGATION_TARGET_NAME = 'MetaMask Smart Account';
+
+/**
+ * Hashes of the code of the EIP-7702 delegator contracts deployed by MetaMask.
+ * Delegation targets with this code are trusted without the user approving
+ * them.
+ */
+export const METAMASK_DELEGATOR_CODE_HASHES: Hex[] = [
+  // EIP7702StatelessDeleGator deployed to the local development network
+  '0x1ae0f4ba4750b7e8518b7298465c83bca897949d31335f28385ad22fdffccb7b',
+];
@@ -0,0 +1,56 @@
+import type { OriginThrottlingConfig } from '../types/origin-throttling';
+import { MESSAGE_TYPE } from './app';
+import { DAY, HOUR, MINUTE, SECOND } from './time';
+
+/**
+ * Groups of RPC methods that share rejection counters and thresholds.
+ */
+export enum ThrottlingMethodClass {
+  ChainSwitching = 'chain_switching',
+  Signature = 'signature',
+  Transaction = 'transaction',
+}
+
+export const THROTTLING_METHOD_CLASS_BY_METHOD: Record<
+  string,
+  ThrottlingMethodClass
+> = {
+  [MESSAGE_TYPE.ADD_ETHEREUM_CHAIN]: ThrottlingMethodClass.ChainSwitching,
+  [MESSAGE_TYPE.SWITCH_ETHEREUM_CHAIN]: ThrottlingMethodClass.ChainSwitching,
+  [MESSAGE_TYPE.ETH_SIGN_TYPED_DATA]: ThrottlingMethodClass.Signature,
+  [MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V1]: ThrottlingMethodClass.Signature,
+  [MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V3]: ThrottlingMethodClass.Signature,
+  [MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V4]: ThrottlingMethodClass.Signature,
+  [MESSAGE_TYPE.PERSONAL_SIGN]: ThrottlingMethodClass.Signature,
+  [MESSAGE_TYPE.ETH_SEND_TRANSACTION]: ThrottlingMethodClass.Transaction,
+  [MESSAGE_TYPE.WALLET_SEND_CALLS]: ThrottlingMethodClass.Transaction,
+  // Token suggestions are throttled alongside transactions.
+  [MESSAGE_TYPE.WATCH_ASSET]: ThrottlingMethodClass.Transaction,
+};
+
+/**
+ * Block durations applied to an origin, escalating each time it is blocked
+ * again. The last duration is reused once the list is exhausted.
+ */
+const DEFAULT_BLOCK_DURATIONS_IN_MS = [MINUTE, MINUTE * 10, HOUR, DAY];
+
+export const DEFAULT_ORIGIN_THROTTLING_CONFIG: OriginThrottlingConfig = {
+  [ThrottlingMethodClass.ChainSwitching]: {
+    rejectionThreshold: 3,
+    rejectionWindowInMs: SECOND * 30,
+    blockDurationsInMs: DEFAULT_BLOCK_DURATIONS_IN_MS,
+  },
+  [ThrottlingMethodClass.Signature]: {
+    rejectionThreshold: 3,
+    rejectionWindowInMs: SECOND * 30,
+    blockDurationsInMs: DEFAULT_BLOCK_DURATIONS_IN_MS,
+  },
+  [ThrottlingMethodClass.Transaction]: {
+    rejectionThreshold: 3,
+    rejectionWindowInMs: SECOND * 30,
+    blockDurationsInMs: DEFAULT_BLOCK_DURATIONS_IN_MS,
+  },
+};
+
+/** Number of past blocks kept per origin for the settings page. */
+export const MAX_THROTTLED_ORIGIN_HISTORY_LENGTH = 10;
@@ -1,12 +1,37 @@
 export const CaveatTypes = Object.freeze({
   restrictReturnedAccounts: 'restrictReturnedAccounts' as const,
   restrictNetworkSwitching: 'restrictNetworkSwitching' as const,
+  restrictRpcMethods: 'restrictRpcMethods' as const,
 });
 
 export const EndowmentTypes = Object.freeze({
   permittedChains: 'endowment:permitted-chains',
+  rpcMethodAllowlist: 'endowment:rpc-method-allowlist',
 });
 
+/**
+ * RPC methods that the user can forbid a connected site from calling, using the
+ * `restrictRpcMethods` caveat of the `endowment:rpc-method-allowlist`
+ * permission. Any other method remains available to every connected site.
+ */
+export const RESTRICTABLE_RPC_METHODS = Object.freeze([
+  'eth_sendTransaction',
+  'eth_signTypedData',
+  'eth_signTypedData_v1',
+  'eth_signTypedData_v3',
+  'eth_signTypedData_v4',
+  'personal_sign',
+  'eth_decrypt',
+  'eth_getEncryptionPublicKey',
+  'wallet_sendCalls',
+  'wallet_requestExecutionPermissions',
+  'wallet_upgradeAccount',
+  'wallet_addEthereumChain',
+  'wallet_switchEthereumChain',
+  'wallet_watchAsset',
+  'metamask_watchAsset',
+]);
+
 export const RestrictedEthMethods = Object.freeze({
   // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
   // eslint-disable-next-line @typescript-eslint/naming-convention
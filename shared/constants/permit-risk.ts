@@ -0,0 +1,24 @@
+import { PrimaryTypePermit } from './signatures';
+
+/**
+ * Permit primary types inspected by the permit risk analyzer.
+ */
+export const PERMIT_RISK_PRIMARY_TYPES: PrimaryTypePermit[] = [
+  PrimaryTypePermit.Permit,
+  PrimaryTypePermit.PermitSingle,
+  PrimaryTypePermit.PermitBatch,
+  PrimaryTypePermit.PermitWitnessTransferFrom,
+];
+
+/**
+ * Permits valid for longer than this, in milliseconds, are flagged. Legitimate
+ * dapps usually request permits that expire within minutes or days.
+ */
+export const PERMIT_DEADLINE_RISK_THRESHOLD_MS = 30 * 24 * 60 * 60 * 1000;
+
+export enum PermitRiskType {
+  ChainMismatch = 'chainMismatch',
+  LongDeadline = 'longDeadline',
+  NonceConflict = 'nonceConflict',
+  UnlimitedAmount = 'unlimitedAmount',
+}
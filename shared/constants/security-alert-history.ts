@@ -0,0 +1,21 @@
+/**
+ * Maximum number of security alert verdicts kept in the history. The oldest
+ * entries are discarded first.
+ */
+export const MAX_SECURITY_ALERT_HISTORY_ENTRIES = 500;
+
+/**
+ * What the user did with a request after it was scanned.
+ */
+export enum SecurityAlertUserAction {
+  Approved = 'approved',
+  Pending = 'pending',
+  Rejected = 'rejected',
+}
+
+/**
+ * Method and reason recorded in the security alert history when an address
+ * pasted into the wallet does not match the last address copied from it.
+ */
+export const CLIPBOARD_HIJACK_METHOD = 'clipboard_paste';
+export const CLIPBOARD_HIJACK_REASON = 'clipboard_hijack';
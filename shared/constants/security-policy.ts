@@ -0,0 +1,93 @@
+import type { Hex } from '@metamask/utils';
+
+/**
+ * The rules supported by the local security policy engine.
+ */
+export enum SecurityPolicyType {
+  /** ERC-20 approvals or permits with an effectively unlimited amount. */
+  UnlimitedApproval = 'unlimited_approval',
+  /** `setApprovalForAll` to an operator that is not on the allowlist. */
+  ApprovalForAllOperator = 'approval_for_all_operator',
+  /** Native value transfers above the configured threshold. */
+  NativeValueThreshold = 'native_value_threshold',
+}
+
+/**
+ * What the confirmation should do when a policy matches a request.
+ */
+export enum SecurityPolicyAction {
+  /** The request cannot be confirmed. */
+  Block = 'block',
+  /** The user must acknowledge the violation before confirming. */
+  RequireAcknowledgement = 'require_acknowledgement',
+}
+
+type BaseSecurityPolicy = {
+  action: SecurityPolicyAction;
+  enabled: boolean;
+  id: string;
+};
+
+export type UnlimitedApprovalPolicy = BaseSecurityPolicy & {
+  type: SecurityPolicyType.UnlimitedApproval;
+};
+
+export type ApprovalForAllOperatorPolicy = BaseSecurityPolicy & {
+  type: SecurityPolicyType.ApprovalForAllOperator;
+  /** Lowercase operator addresses that may be granted approval for all. */
+  allowedOperators: Hex[];
+};
+
+export type NativeValueThresholdPolicy = BaseSecurityPolicy & {
+  type: SecurityPolicyType.NativeValueThreshold;
+  /** Threshold in wei, as a hexadecimal string. */
+  maxValue: Hex;
+};
+
+export type SecurityPolicy =
+  | UnlimitedApprovalPolicy
+  | ApprovalForAllOperatorPolicy
+  | NativeValueThresholdPolicy;
+
+/**
+ * A policy that matched a request, written to the `SecurityAlertResponse`.
+ */
+export type SecurityPolicyViolation = {
+  action: SecurityPolicyAction;
+  policyId: string;
+  type: SecurityPolicyType;
+};
+
+/**
+ * Raw token amounts at or above this value are considered unlimited, which is
+ * 10^15 tokens for a token with 18 decimals.
+ */
+export const UNLIMITED_APPROVAL_RAW_THRESHOLD = '1e33';
+
+/** 10 ETH in wei. */
+const DEFAULT_NATIVE_VALUE_THRESHOLD: Hex = '0x8ac7230489e80000';
+
+export const DEFAULT_SECURITY_POLICIES: SecurityPolicy[] = [
+  {
+    id: SecurityPolicyType.UnlimitedApproval,
+    type: SecurityPolicyType.UnlimitedApproval,
+    action: SecurityPolicyAction.Block,
+    enabled: false,
+  },
+  {
+    id: SecurityPolicyType.ApprovalForAllOperator,
+    type: SecurityPolicyType.ApprovalForAllOperator,
+    action: SecurityPolicyAction.Block,
+    enabled: false,
+    allowedOperators: [],
+  },
+  {
+    id: SecurityPolicyType.NativeValueThreshold,
+    type: SecurityPolicyType.NativeValueThreshold,
+    action: SecurityPolicyAction.RequireAcknowledgement,
+    enabled: false,
+    maxValue: DEFAULT_NATIVE_VALUE_THRESHOLD,
+  },
+];
+
+export const SECURITY_POLICIES_EXPORT_VERSION = 1;
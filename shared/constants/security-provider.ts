@@ -24,6 +24,25 @@ export const SECURITY_PROVIDER_CONFIG: Readonly<SecurityProviderConfig> = {
   },
 };
 
+/**
+ * Identifies the security provider that produced a result, so each provider
+ * can be attributed in the alert UI.
+ */
+export type SecurityProviderAttribution = {
+  /** Unique identifier of the security provider, such as a Snap ID */
+  id: string;
+  /** Display name of the security provider */
+  name: string;
+  /** URL to security provider website */
+  url?: string;
+};
+
+export const BLOCKAID_ATTRIBUTION: SecurityProviderAttribution = {
+  id: SecurityProvider.Blockaid,
+  name: 'Blockaid',
+  url: SECURITY_PROVIDER_CONFIG[SecurityProvider.Blockaid].url,
+};
+
 /** The reason, also referred to as the attack type, provided in the PPOM Response  */
 export enum BlockaidReason {
   /** Approval for a malicious spender  */
@@ -98,6 +117,20 @@ export enum BlockaidResultType {
   Loading = 'loading',
 }
 
+/**
+ * Result types ordered from most to least severe. When several security
+ * providers validate the same request, the most severe result is used and ties
+ * are resolved in favour of the provider registered first.
+ */
+export const SECURITY_PROVIDER_RESULT_PRECEDENCE: string[] = [
+  BlockaidResultType.Malicious,
+  BlockaidResultType.Warning,
+  BlockaidResultType.Benign,
+  BlockaidResultType.Errored,
+  BlockaidResultType.NotApplicable,
+  BlockaidResultType.Loading,
+];
+
 export const FALSE_POSITIVE_REPORT_BASE_URL =
   'https://blockaid-false-positive-portal.metamask.io';
 
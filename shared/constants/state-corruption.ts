@@ -2,3 +2,29 @@ export const METHOD_REPAIR_DATABASE = 'repairDatabase';
 
 export const METHOD_DISPLAY_STATE_CORRUPTION_ERROR =
   'displayStateCorruptionError';
+
+export const METHOD_RESTORE_STATE_SNAPSHOT = 'restoreStateSnapshot';
+
+export const METHOD_DISPLAY_STATE_SNAPSHOT_ERROR = 'displayStateSnapshotError';
+
+export enum StateSnapshotReason {
+  /** Taken before migrations are run on the persisted state. */
+  Migration = 'migration',
+  /** Taken at most once a day while the state is persisted. */
+  Daily = 'daily',
+}
+
+/**
+ * Describes a snapshot of the persisted state, without the state itself.
+ */
+export type StateSnapshotMetadata = {
+  id: string;
+
+  /** The time the snapshot was taken, in milliseconds since the epoch. */
+  createdAt: number;
+
+  /** The migration version of the state in the snapshot. */
+  version: number;
+
+  reason: StateSnapshotReason;
+};
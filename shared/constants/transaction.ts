@@ -276,4 +276,10 @@ export const APPROVAL_METHOD_NAMES = [
   'setApprovalForAll',
 ];
 
+/**
+ * Permit2 is deployed to the same address on every chain.
+ */
+export const PERMIT2_ADDRESS: Hex =
+  '0x000000000022D473030F116dDEE9F6B43aC78BA3';
+
 export const NATIVE_TOKEN_ADDRESS = '0x0'.padEnd(42, '0') as Hex;
@@ -0,0 +1,145 @@
+import {
+  TransactionMeta,
+  TransactionType,
+} from '@metamask/transaction-controller';
+import { findSimilarAddress, isPoisonTransfer } from './address-poisoning';
+
+const KNOWN_ADDRESS_MOCK = '0x1234567890abcdef1234567890abcdef12345678';
+const SIMILAR_ADDRESS_MOCK = '0x1234000000000000000000000000000000005678';
+const OTHER_ADDRESS_MOCK = '0x9999567890abcdef1234567890abcdef12349999';
+
+function buildIncomingTransaction(
+  overrides: Partial<TransactionMeta> = {},
+): TransactionMeta {
+  return {
+    type: TransactionType.incoming,
+    txParams: {
+      from: OTHER_ADDRESS_MOCK,
+      to: KNOWN_ADDRESS_MOCK,
+      value: '0x1',
+    },
+    ...overrides,
+  } as TransactionMeta;
+}
+
+describe('Address Poisoning Utils', () => {
+  describe('findSimilarAddress', () => {
+    it('returns the known address sharing the leading and trailing characters', () => {
+      expect(
+        findSimilarAddress(SIMILAR_ADDRESS_MOCK, [
+          OTHER_ADDRESS_MOCK,
+          KNOWN_ADDRESS_MOCK,
+        ]),
+      ).toBe(KNOWN_ADDRESS_MOCK);
+    });
+
+    it('ignores case', () => {
+      expect(
+        findSimilarAddress(SIMILAR_ADDRESS_MOCK.toUpperCase(), [
+          KNOWN_ADDRESS_MOCK,
+        ]),
+      ).toBe(KNOWN_ADDRESS_MOCK);
+    });
+
+    it('returns undefined if the address is known', () => {
+      expect(
+        findSimilarAddress(KNOWN_ADDRESS_MOCK.toUpperCase(), [
+          SIMILAR_ADDRESS_MOCK,
+          KNOWN_ADDRESS_MOCK,
+        ]),
+      ).toBeUndefined();
+    });
+
+    it('returns undefined if only the leading characters match', () => {
+      expect(
+        findSimilarAddress('0x1234000000000000000000000000000000000000', [
+          KNOWN_ADDRESS_MOCK,
+        ]),
+      ).toBeUndefined();
+    });
+
+    it('returns undefined if only the trailing characters match', () => {
+      expect(
+        findSimilarAddress('0x0000000000000000000000000000000000005678', [
+          KNOWN_ADDRESS_MOCK,
+        ]),
+      ).toBeUndefined();
+    });
+
+    it('returns undefined if there is no address', () => {
+      expect(
+        findSimilarAddress(undefined, [KNOWN_ADDRESS_MOCK]),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('isPoisonTransfer', () => {
+    it('returns true for incoming transactions with no value', () => {
+      expect(
+        isPoisonTransfer(
+          buildIncomingTransaction({
+            txParams: {
+              from: OTHER_ADDRESS_MOCK,
+              to: KNOWN_ADDRESS_MOCK,
+              value: '0x0',
+            },
+          }),
+          [],
+        ),
+      ).toBe(true);
+    });
+
+    it('returns true for incoming token transfers with no amount', () => {
+      expect(
+        isPoisonTransfer(
+          buildIncomingTransaction({
+            transferInformation: {
+              amount: '0',
+              contractAddress: OTHER_ADDRESS_MOCK,
+              decimals: 18,
+              symbol: 'TST',
+            },
+          }),
+          [],
+        ),
+      ).toBe(true);
+    });
+
+    it('returns true for incoming transactions from a look-alike address', () => {
+      expect(
+        isPoisonTransfer(
+          buildIncomingTransaction({
+            txParams: {
+              from: SIMILAR_ADDRESS_MOCK,
+              to: OTHER_ADDRESS_MOCK,
+              value: '0x1',
+            },
+          }),
+          [KNOWN_ADDRESS_MOCK],
+        ),
+      ).toBe(true);
+    });
+
+    it('returns false for incoming transactions with value from other addresses', () => {
+      expect(
+        isPoisonTransfer(buildIncomingTransaction(), [KNOWN_ADDRESS_MOCK]),
+      ).toBe(false);
+    });
+
+    it('returns false for outgoing transactions', () => {
+      expect(
+        isPoisonTransfer(
+          buildIncomingTransaction({
+            type: TransactionType.simpleSend,
+            txParams: {
+              from: KNOWN_ADDRESS_MOCK,
+              to: SIMILAR_ADDRESS_MOCK,
+              value: '0x0',
+            },
+          }),
+          [KNOWN_ADDRESS_MOCK],
+        ),
+      ).toBe(false);
+    });
+  });
+});
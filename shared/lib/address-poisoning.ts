@@ -0,0 +1,90 @@
+import {
+  TransactionMeta,
+  TransactionType,
+} from '@metamask/transaction-controller';
+import { Numeric } from '../modules/Numeric';
+import { stripHexPrefix } from '../modules/hexstring-utils';
+
+/**
+ * Number of leading and trailing characters, excluding the `0x` prefix, that
+ * two addresses must share to be considered look-alikes. Poisoning attacks
+ * generate addresses matching the characters users check at a glance.
+ */
+export const ADDRESS_POISONING_MATCH_LENGTH = 4;
+
+function getVisibleCharacters(address: string) {
+  const characters = stripHexPrefix(address).toLowerCase();
+
+  return [
+    characters.slice(0, ADDRESS_POISONING_MATCH_LENGTH),
+    characters.slice(-ADDRESS_POISONING_MATCH_LENGTH),
+  ];
+}
+
+/**
+ * Finds a known address that looks like the given address, as it shares the
+ * leading and trailing characters, without being the same address.
+ *
+ * @param address - The address to check, such as a transaction recipient.
+ * @param knownAddresses - The addresses the user has previously interacted with.
+ * @returns The look-alike known address, if any.
+ */
+export function findSimilarAddress(
+  address: string | undefined,
+  knownAddresses: string[],
+): string | undefined {
+  if (!address) {
+    return undefined;
+  }
+
+  const normalizedAddress = address.toLowerCase();
+
+  if (
+    knownAddresses.some(
+      (knownAddress) => knownAddress.toLowerCase() === normalizedAddress,
+    )
+  ) {
+    return undefined;
+  }
+
+  const [prefix, suffix] = getVisibleCharacters(address);
+
+  return knownAddresses.find((knownAddress) => {
+    const [knownPrefix, knownSuffix] = getVisibleCharacters(knownAddress);
+    return knownPrefix === prefix && knownSuffix === suffix;
+  });
+}
+
+function isZeroValueTransfer({
+  transferInformation,
+  txParams,
+}: TransactionMeta): boolean {
+  if (transferInformation) {
+    return new Numeric(transferInformation.amount || '0', 10).isZero();
+  }
+
+  return new Numeric(txParams.value || '0x0', 16).isZero();
+}
+
+/**
+ * Determines if an incoming transaction is likely an address poisoning
+ * attempt, either because nothing was transferred or because the sender looks
+ * like an address the user knows.
+ *
+ * @param transaction - The transaction to check.
+ * @param knownAddresses - The addresses the user has previously interacted with.
+ * @returns True if the transaction is a suspected poison transfer.
+ */
+export function isPoisonTransfer(
+  transaction: TransactionMeta,
+  knownAddresses: string[],
+): boolean {
+  if (transaction.type !== TransactionType.incoming) {
+    return false;
+  }
+
+  return (
+    isZeroValueTransfer(transaction) ||
+    Boolean(findSimilarAddress(transaction.txParams.from, knownAddresses))
+  );
+}
@@ -0,0 +1,147 @@
+import {
+  isClipboardHijackSuspected,
+  isCopiedAddress,
+} from './clipboard-hijack';
+
+const COPIED_ADDRESS_MOCK = '0x1234567890abcdef1234567890abcdef12345678';
+const SOLANA_ADDRESS_MOCK = '7EcDhSYGxXyscszYEp35KHN8vvw3svAuLKTzXwCFLtV';
+const BTC_ADDRESS_MOCK = 'bc1qar0srrr7xfkvy5l643lydnw9re59gtzzwf5mdq';
+
+/**
+ * Replaces the characters of an address between the given number of leading
+ * and trailing characters.
+ *
+ * @param address - The address.
+ * @param leading - The number of leading characters to keep.
+ * @param trailing - The number of trailing characters to keep.
+ * @param character - The character to replace the others with.
+ */
+function replaceMiddle(
+  address: string,
+  leading: number,
+  trailing: number,
+  character: string,
+) {
+  return `${address.slice(0, leading)}${character.repeat(
+    address.length - leading - trailing,
+  )}${address.slice(address.length - trailing)}`;
+}
+
+describe('Clipboard Hijack Utils', () => {
+  describe('isCopiedAddress', () => {
+    it('returns true for addresses', () => {
+      expect(isCopiedAddress(COPIED_ADDRESS_MOCK)).toBe(true);
+      expect(isCopiedAddress(SOLANA_ADDRESS_MOCK)).toBe(true);
+    });
+
+    it('returns false for other text', () => {
+      expect(isCopiedAddress('0x1234')).toBe(false);
+      expect(isCopiedAddress('Secret Recovery Phrase')).toBe(false);
+    });
+  });
+
+  describe('isClipboardHijackSuspected', () => {
+    it('returns false if the pasted address was copied', () => {
+      expect(
+        isClipboardHijackSuspected(
+          COPIED_ADDRESS_MOCK,
+          COPIED_ADDRESS_MOCK.toUpperCase().replace('0X', '0x'),
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false if no address was copied', () => {
+      expect(isClipboardHijackSuspected(null, COPIED_ADDRESS_MOCK)).toBe(false);
+    });
+
+    it('returns true if the pasted address shares the leading and trailing characters', () => {
+      expect(
+        isClipboardHijackSuspected(
+          COPIED_ADDRESS_MOCK,
+          '0x1234000000000000000000000000000000005678',
+        ),
+      ).toBe(true);
+    });
+
+    it('returns false if the pasted address only shares the leading characters', () => {
+      expect(
+        isClipboardHijackSuspected(
+          COPIED_ADDRESS_MOCK,
+          '0x1234000000000000000000000000000000000000',
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false if the pasted address only shares the trailing characters', () => {
+      expect(
+        isClipboardHijackSuspected(
+          COPIED_ADDRESS_MOCK,
+          '0x0000000000000000000000000000000000005678',
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false if the pasted address is unrelated', () => {
+      expect(
+        isClipboardHijackSuspected(
+          COPIED_ADDRESS_MOCK,
+          '0x9999567890abcdef1234567890abcdef12349999',
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false if the pasted address has a different length', () => {
+      expect(isClipboardHijackSuspected(COPIED_ADDRESS_MOCK, '0x1234')).toBe(
+        false,
+      );
+    });
+
+    it('ignores the prefix of bech32 Bitcoin addresses', () => {
+      expect(
+        isClipboardHijackSuspected(
+          BTC_ADDRESS_MOCK,
+          'bc1qw508d6qejxtdg4y5r3zarvary0c5xw7kv8f3t4',
+        ),
+      ).toBe(false);
+    });
+
+    it('returns true if a Bitcoin address shares the visible characters', () => {
+      expect(
+        isClipboardHijackSuspected(
+          BTC_ADDRESS_MOCK,
+          replaceMiddle(BTC_ADDRESS_MOCK, 8, 4, 'x'),
+        ),
+      ).toBe(true);
+    });
+
+    it('returns true if a Solana address shares the visible characters', () => {
+      expect(
+        isClipboardHijackSuspected(
+          SOLANA_ADDRESS_MOCK,
+          replaceMiddle(SOLANA_ADDRESS_MOCK, 4, 4, '1'),
+        ),
+      ).toBe(true);
+    });
+
+    it('returns false if a Solana address only shares the leading characters', () => {
+      expect(
+        isClipboardHijackSuspected(
+          SOLANA_ADDRESS_MOCK,
+          replaceMiddle(SOLANA_ADDRESS_MOCK, 4, 0, '1'),
+        ),
+      ).toBe(false);
+    });
+
+    it('compares non-hex addresses case sensitively', () => {
+      expect(
+        isClipboardHijackSuspected(
+          SOLANA_ADDRESS_MOCK,
+          `${SOLANA_ADDRESS_MOCK.slice(0, 4)}${SOLANA_ADDRESS_MOCK.slice(
+            4,
+            -4,
+          ).toLowerCase()}${SOLANA_ADDRESS_MOCK.slice(-4)}`,
+        ),
+      ).toBe(true);
+    });
+  });
+});
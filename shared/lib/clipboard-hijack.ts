@@ -0,0 +1,109 @@
+import { isValidHexAddress } from '../modules/hexstring-utils';
+import { ADDRESS_POISONING_MATCH_LENGTH } from './address-poisoning';
+import {
+  isBtcMainnetAddress,
+  isSolanaAddress,
+  isTronAddress,
+} from './multichain/accounts';
+
+function isHexAddress(address: string) {
+  return isValidHexAddress(address, { allowNonPrefixed: false });
+}
+
+/**
+ * Determines if the given text is an address worth tracking when copied, on any
+ * of the supported networks.
+ *
+ * @param text - The copied text.
+ * @returns True if the text is an address.
+ */
+export function isCopiedAddress(text: string): boolean {
+  return (
+    isHexAddress(text) ||
+    isSolanaAddress(text) ||
+    isBtcMainnetAddress(text) ||
+    isTronAddress(text)
+  );
+}
+
+const BECH32_PREFIX_REGEX = /^bc1[a-z]/iu;
+
+type AddressFormat = {
+  /** The leading characters fixed by the address format. */
+  prefix: string;
+  /** Whether the format ignores the case of the characters. */
+  isCaseInsensitive: boolean;
+};
+
+/**
+ * Gets the characters fixed by the format of an address, which are the same
+ * for every address of that format, e.g. `0x` or `bc1q`.
+ *
+ * @param address - The address.
+ * @returns The format of the address.
+ */
+function getAddressFormat(address: string): AddressFormat {
+  if (isHexAddress(address)) {
+    return { prefix: '0x', isCaseInsensitive: true };
+  }
+
+  if (isBtcMainnetAddress(address)) {
+    const bech32Prefix = BECH32_PREFIX_REGEX.exec(address)?.[0];
+
+    // Legacy addresses start with a version character, `1` or `3`.
+    return bech32Prefix
+      ? { prefix: bech32Prefix, isCaseInsensitive: true }
+      : { prefix: address.slice(0, 1), isCaseInsensitive: false };
+  }
+
+  if (isTronAddress(address)) {
+    return { prefix: 'T', isCaseInsensitive: false };
+  }
+
+  return { prefix: '', isCaseInsensitive: false };
+}
+
+/**
+ * Determines if an address pasted into the wallet was likely swapped by
+ * clipboard malware, which replaces copied addresses with attacker addresses of
+ * the same format that share the leading and trailing characters shown by
+ * wallets. Characters fixed by the address format are not compared.
+ *
+ * @param copiedAddress - The last address copied from the wallet.
+ * @param pastedAddress - The address that was pasted.
+ * @returns True if the pasted address is a suspected replacement.
+ */
+export function isClipboardHijackSuspected(
+  copiedAddress: string | null | undefined,
+  pastedAddress: string | undefined,
+): boolean {
+  if (!copiedAddress || !pastedAddress) {
+    return false;
+  }
+
+  const { prefix, isCaseInsensitive } = getAddressFormat(copiedAddress.trim());
+
+  const normalize = (address: string) =>
+    isCaseInsensitive ? address.trim().toLowerCase() : address.trim();
+
+  const copied = normalize(copiedAddress);
+  const pasted = normalize(pastedAddress);
+
+  if (
+    copied === pasted ||
+    copied.length !== pasted.length ||
+    !pasted.startsWith(normalize(prefix))
+  ) {
+    return false;
+  }
+
+  const copiedCharacters = copied.slice(prefix.length);
+  const pastedCharacters = pasted.slice(prefix.length);
+
+  return (
+    copiedCharacters.slice(0, ADDRESS_POISONING_MATCH_LENGTH) ===
+      pastedCharacters.slice(0, ADDRESS_POISONING_MATCH_LENGTH) &&
+    copiedCharacters.slice(-ADDRESS_POISONING_MATCH_LENGTH) ===
+      pastedCharacters.slice(-ADDRESS_POISONING_MATCH_LENGTH)
+  );
+}
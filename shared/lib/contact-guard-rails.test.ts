@@ -0,0 +1,86 @@
+import { NATIVE_TOKEN_ADDRESS } from '../constants/transaction';
+import { ContactGuardRailViolation } from '../types/contact-guard-rails';
+import {
+  getContactGuardRailViolations,
+  isEmptyContactGuardRails,
+} from './contact-guard-rails';
+
+const TOKEN_ADDRESS_MOCK = '0x1234567890abcdef1234567890abcdef12345678';
+
+describe('Contact Guard Rails', () => {
+  describe('getContactGuardRailViolations', () => {
+    it('returns no violations if no guard rails', () => {
+      expect(
+        getContactGuardRailViolations(undefined, { amount: '1000' }),
+      ).toStrictEqual([]);
+    });
+
+    it('returns max amount exceeded if amount above maximum', () => {
+      expect(
+        getContactGuardRailViolations(
+          { maxAmount: '1.5' },
+          { amount: '1500000000000000001', decimals: 18 },
+        ),
+      ).toStrictEqual([ContactGuardRailViolation.MaxAmountExceeded]);
+    });
+
+    it('returns no violations if amount equal to maximum', () => {
+      expect(
+        getContactGuardRailViolations(
+          { maxAmount: '1.5' },
+          { amount: '1500000', decimals: 6 },
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('returns token not allowed if token not in allowed tokens', () => {
+      expect(
+        getContactGuardRailViolations(
+          { allowedTokens: [NATIVE_TOKEN_ADDRESS] },
+          { amount: '1', tokenAddress: TOKEN_ADDRESS_MOCK },
+        ),
+      ).toStrictEqual([ContactGuardRailViolation.TokenNotAllowed]);
+    });
+
+    it('compares token addresses case insensitively', () => {
+      expect(
+        getContactGuardRailViolations(
+          { allowedTokens: [TOKEN_ADDRESS_MOCK] },
+          {
+            amount: '1',
+            tokenAddress: '0x1234567890ABCDEF1234567890ABCDEF12345678',
+          },
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('returns token not allowed if native token not in allowed tokens', () => {
+      expect(
+        getContactGuardRailViolations(
+          { allowedTokens: [TOKEN_ADDRESS_MOCK], maxAmount: '1' },
+          { amount: '2000000000000000000', decimals: 18 },
+        ),
+      ).toStrictEqual([
+        ContactGuardRailViolation.TokenNotAllowed,
+        ContactGuardRailViolation.MaxAmountExceeded,
+      ]);
+    });
+  });
+
+  describe('isEmptyContactGuardRails', () => {
+    it('returns true if no rules set', () => {
+      expect(isEmptyContactGuardRails(undefined)).toBe(true);
+      expect(isEmptyContactGuardRails({ requireHoldToConfirm: false })).toBe(
+        true,
+      );
+    });
+
+    it('returns false if any rule set', () => {
+      expect(isEmptyContactGuardRails({ maxAmount: '1' })).toBe(false);
+      expect(isEmptyContactGuardRails({ allowedTokens: [] })).toBe(false);
+      expect(isEmptyContactGuardRails({ requireHoldToConfirm: true })).toBe(
+        false,
+      );
+    });
+  });
+});
@@ -0,0 +1,73 @@
+import type { Hex } from '@metamask/utils';
+import { BigNumber } from 'bignumber.js';
+import { NATIVE_TOKEN_ADDRESS } from '../constants/transaction';
+import {
+  ContactGuardRailViolation,
+  ContactGuardRails,
+} from '../types/contact-guard-rails';
+
+export type ContactGuardRailsSend = {
+  /** The raw decimal amount being sent, in the smallest unit of the asset. */
+  amount?: string;
+
+  /** The decimals of the asset being sent. */
+  decimals?: number;
+
+  /** The address of the token being sent, or undefined if native. */
+  tokenAddress?: Hex;
+};
+
+/**
+ * Determines if any guard rails of a contact are not satisfied by a send.
+ *
+ * @param guardRails - The guard rails of the recipient contact.
+ * @param send - The send to the contact.
+ * @returns The violated guard rails.
+ */
+export function getContactGuardRailViolations(
+  guardRails: ContactGuardRails | undefined,
+  { amount, decimals = 0, tokenAddress }: ContactGuardRailsSend,
+): ContactGuardRailViolation[] {
+  if (!guardRails) {
+    return [];
+  }
+
+  const violations: ContactGuardRailViolation[] = [];
+  const { allowedTokens, maxAmount } = guardRails;
+  const normalizedTokenAddress = (
+    tokenAddress ?? NATIVE_TOKEN_ADDRESS
+  ).toLowerCase() as Hex;
+
+  if (allowedTokens && !allowedTokens.includes(normalizedTokenAddress)) {
+    violations.push(ContactGuardRailViolation.TokenNotAllowed);
+  }
+
+  if (maxAmount !== undefined && amount !== undefined) {
+    const maxRawAmount = new BigNumber(maxAmount).times(
+      new BigNumber(10).pow(decimals),
+    );
+
+    if (new BigNumber(amount).gt(maxRawAmount)) {
+      violations.push(ContactGuardRailViolation.MaxAmountExceeded);
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Determines if guard rails have no rules set.
+ *
+ * @param guardRails - The guard rails of a contact.
+ * @returns True if no rules are set.
+ */
+export function isEmptyContactGuardRails(
+  guardRails: ContactGuardRails | undefined,
+): boolean {
+  return (
+    !guardRails ||
+    (guardRails.maxAmount === undefined &&
+      guardRails.allowedTokens === undefined &&
+      !guardRails.requireHoldToConfirm)
+  );
+}
@@ -0,0 +1,106 @@
+import { parseContractAbi } from './contract-abi';
+
+const ABI_MOCK = [
+  {
+    type: 'function',
+    name: 'transfer',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+    outputs: [{ name: '', type: 'bool' }],
+  },
+];
+
+const USERDOC_MOCK = {
+  methods: {
+    'transfer(address,uint256)': { notice: 'Transfers tokens' },
+  },
+};
+
+const METADATA_MOCK = {
+  settings: { compilationTarget: { 'contracts/Token.sol': 'Token' } },
+  output: { abi: ABI_MOCK, userdoc: USERDOC_MOCK },
+};
+
+describe('Contract ABI Utils', () => {
+  describe('parseContractAbi', () => {
+    it('parses ABI array', () => {
+      expect(parseContractAbi(JSON.stringify(ABI_MOCK))).toStrictEqual({
+        abi: ABI_MOCK,
+      });
+    });
+
+    it('parses build artifact', () => {
+      expect(
+        parseContractAbi(
+          JSON.stringify({ contractName: 'Token', abi: ABI_MOCK }),
+        ),
+      ).toStrictEqual({ name: 'Token', abi: ABI_MOCK });
+    });
+
+    it('parses compiler metadata', () => {
+      expect(parseContractAbi(JSON.stringify(METADATA_MOCK))).toStrictEqual({
+        name: 'Token',
+        abi: ABI_MOCK,
+        userdoc: USERDOC_MOCK,
+      });
+    });
+
+    it('parses verified contract bundle', () => {
+      const bundle = {
+        files: [
+          { name: 'Token.sol', content: 'contract Token {}' },
+          { name: 'metadata.json', content: JSON.stringify(METADATA_MOCK) },
+        ],
+      };
+
+      expect(parseContractAbi(JSON.stringify(bundle))).toStrictEqual({
+        name: 'Token',
+        abi: ABI_MOCK,
+        userdoc: USERDOC_MOCK,
+      });
+    });
+
+    it('throws if contract bundle metadata is invalid JSON', () => {
+      const bundle = {
+        files: [{ name: 'metadata.json', content: 'invalid' }],
+      };
+
+      expect(() => parseContractAbi(JSON.stringify(bundle))).toThrow(
+        'Invalid contract metadata',
+      );
+    });
+
+    it('throws if invalid JSON', () => {
+      expect(() => parseContractAbi('invalid')).toThrow('Invalid JSON');
+    });
+
+    it('throws if ABI not found', () => {
+      expect(() => parseContractAbi('{"test": 1}')).toThrow('ABI not found');
+    });
+
+    it('throws if ABI is invalid', () => {
+      expect(() => parseContractAbi('[{"type": "function"}]')).toThrow(
+        'Invalid ABI',
+      );
+    });
+
+    it('throws if ABI contains invalid fragments', () => {
+      expect(() =>
+        parseContractAbi(
+          JSON.stringify([{ type: 'function', name: 'test', inputs: {} }]),
+        ),
+      ).toThrow('Invalid ABI');
+    });
+
+    it('throws if ABI has no functions', () => {
+      expect(() =>
+        parseContractAbi(
+          JSON.stringify([{ type: 'event', name: 'Test', inputs: [] }]),
+        ),
+      ).toThrow('ABI has no functions');
+    });
+  });
+});
@@ -0,0 +1,161 @@
+import { Interface } from '@ethersproject/abi';
+import { Json, isObject } from '@metamask/utils';
+import type {
+  ContractAbi,
+  ContractAbiDoc,
+  ContractAbiFragment,
+  ContractAbiFragmentType,
+} from '../types/contract-abi';
+
+export enum ContractAbiErrorMessage {
+  InvalidJson = 'Invalid JSON',
+  InvalidMetadata = 'Invalid contract metadata',
+  AbiNotFound = 'ABI not found',
+  InvalidAbi = 'Invalid ABI',
+  NoFunctions = 'ABI has no functions',
+}
+
+/**
+ * Parses an ABI imported by the user, which can be any of:
+ *
+ * - A JSON ABI array.
+ * - A build artifact with an `abi` property, such as from Hardhat or Foundry.
+ * - Solidity compiler metadata with an `output.abi` property.
+ * - A verified contract bundle from Sourcify containing a `metadata.json` file.
+ *
+ * @param json - The imported JSON string.
+ * @returns The ABI with any NatSpec documentation.
+ * @throws If the JSON is invalid or does not contain any functions, with one
+ * of the `ContractAbiErrorMessage` messages.
+ */
+export function parseContractAbi(json: string): ContractAbi {
+  let value: unknown;
+
+  try {
+    value = JSON.parse(json);
+  } catch {
+    throw new Error(ContractAbiErrorMessage.InvalidJson);
+  }
+
+  const contractAbi = extractContractAbi(value);
+
+  if (!contractAbi) {
+    throw new Error(ContractAbiErrorMessage.AbiNotFound);
+  }
+
+  let contractInterface: Interface;
+
+  try {
+    contractInterface = new Interface(contractAbi.abi);
+  } catch {
+    throw new Error(ContractAbiErrorMessage.InvalidAbi);
+  }
+
+  if (!Object.keys(contractInterface.functions).length) {
+    throw new Error(ContractAbiErrorMessage.NoFunctions);
+  }
+
+  return contractAbi;
+}
+
+function extractContractAbi(value: unknown): ContractAbi | undefined {
+  if (Array.isArray(value)) {
+    return { abi: validateAbi(value) };
+  }
+
+  if (!isObject(value)) {
+    return undefined;
+  }
+
+  if (Array.isArray(value.files)) {
+    const metadata = (
+      value.files as { name?: string; content?: string }[]
+    ).find((file) => file.name?.endsWith('metadata.json'));
+
+    if (!metadata?.content) {
+      return undefined;
+    }
+
+    let metadataValue: unknown;
+
+    try {
+      metadataValue = JSON.parse(metadata.content);
+    } catch {
+      throw new Error(ContractAbiErrorMessage.InvalidMetadata);
+    }
+
+    return extractContractAbi(metadataValue);
+  }
+
+  if (isObject(value.output) && Array.isArray(value.output.abi)) {
+    const { abi, devdoc, userdoc } = value.output;
+    const compilationTarget = (value.settings as Record<string, Json>)
+      ?.compilationTarget as Record<string, string> | undefined;
+
+    return omitUndefined({
+      name: compilationTarget ? Object.values(compilationTarget)[0] : undefined,
+      abi: validateAbi(abi),
+      devdoc: devdoc as ContractAbiDoc | undefined,
+      userdoc: userdoc as ContractAbiDoc | undefined,
+    });
+  }
+
+  if (Array.isArray(value.abi)) {
+    return omitUndefined({
+      name: value.contractName as string | undefined,
+      abi: validateAbi(value.abi),
+      devdoc: value.devdoc as ContractAbiDoc | undefined,
+      userdoc: value.userdoc as ContractAbiDoc | undefined,
+    });
+  }
+
+  return undefined;
+}
+
+function validateAbi(abi: unknown[]): ContractAbiFragment[] {
+  if (!abi.every(isAbiFragment)) {
+    throw new Error(ContractAbiErrorMessage.InvalidAbi);
+  }
+
+  return abi;
+}
+
+function isAbiFragment(value: unknown): value is ContractAbiFragment {
+  return (
+    isObject(value) &&
+    isOptionalString(value.name) &&
+    isOptionalString(value.type) &&
+    isOptionalString(value.stateMutability) &&
+    isOptionalAbiFragmentTypes(value.inputs) &&
+    isOptionalAbiFragmentTypes(value.outputs)
+  );
+}
+
+function isAbiFragmentType(value: unknown): value is ContractAbiFragmentType {
+  return (
+    isObject(value) &&
+    isOptionalString(value.name) &&
+    isOptionalString(value.type) &&
+    isOptionalString(value.internalType) &&
+    isOptionalAbiFragmentTypes(value.components)
+  );
+}
+
+function isOptionalAbiFragmentTypes(
+  value: unknown,
+): value is ContractAbiFragmentType[] | undefined {
+  return (
+    value === undefined ||
+    (Array.isArray(value) && value.every(isAbiFragmentType))
+  );
+}
+
+function isOptionalString(value: unknown): value is string | undefined {
+  return value === undefined || typeof value === 'string';
+}
+
+function omitUndefined(contractAbi: ContractAbi): ContractAbi {
+  return Object.fromEntries(
+    Object.entries(contractAbi).filter(([, value]) => value !== undefined),
+  ) as ContractAbi;
+}
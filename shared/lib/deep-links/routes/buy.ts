@@ -4,6 +4,7 @@ import { Route } from './route';
 export default new Route({
   pathname: '/buy',
   getTitle: (_: URLSearchParams) => 'deepLink_theBuyPage',
+  requiresSignature: false,
   handler: function handler(params: URLSearchParams) {
     const buyUrl = new URL('/buy', BaseUrl.Portfolio);
     params.forEach((value, key) => buyUrl.searchParams.append(key, value));
@@ -3,6 +3,7 @@ import { DEFAULT_ROUTE, Route } from './route';
 export default new Route({
   pathname: '/home',
   getTitle: (_: URLSearchParams) => 'deepLink_theHomePage',
+  requiresSignature: false,
   handler: function handler(_: URLSearchParams) {
     return { path: DEFAULT_ROUTE, query: new URLSearchParams() };
   },
@@ -9,6 +9,7 @@ const NONEVM_BALANCE_CHECK_ROUTE = 'nonevm-balance-check';
 export default new Route({
   pathname: '/create-account',
   getTitle: (_: URLSearchParams) => 'deepLink_theSwapsRampsPage',
+  requiresSignature: false,
   handler: function handler(params: URLSearchParams) {
     const chainId = params.get(NonEvmQueryParams.ChainId);
 
@@ -4,6 +4,7 @@ import { Route } from './route';
 export default new Route({
   pathname: '/predict',
   getTitle: (_: URLSearchParams) => 'deepLink_thePredictPage',
+  requiresSignature: false,
   handler: function handler(params: URLSearchParams) {
     const predictUrl = new URL('/prediction-markets', BaseUrl.MetaMask);
     params.forEach((value, key) => predictUrl.searchParams.append(key, value));
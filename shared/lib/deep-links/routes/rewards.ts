@@ -3,6 +3,7 @@ import { Route } from './route';
 export default new Route({
   pathname: '/rewards',
   getTitle: (_: URLSearchParams) => 'deepLink_theRewardsPage',
+  requiresSignature: false,
   handler: function handler(params: URLSearchParams) {
     const query = new URLSearchParams(params);
     return {
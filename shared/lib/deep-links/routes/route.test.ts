@@ -15,6 +15,7 @@ describe('Route', () => {
     pathname: '/My/Path',
     getTitle: mockGetTitle,
     handler: mockHandler,
+    requiresSignature: true,
   };
 
   let route: Route;
@@ -33,6 +34,10 @@ describe('Route', () => {
     expect(route.handler).toBe(mockHandler);
   });
 
+  it('should assign requiresSignature from options', () => {
+    expect(route.requiresSignature).toBe(true);
+  });
+
   it('should call getTitle with URLSearchParams', () => {
     const params = new URLSearchParams({ foo: 'bar' });
     route.getTitle(params);
@@ -43,6 +43,12 @@ export type RouteOptions = {
    * @throws if the handler fails to process the params
    */
   handler: (params: URLSearchParams) => Destination;
+  /**
+   * Whether links to the route must carry a valid signature.
+   * Links to such routes that are unsigned, or whose signature does not
+   * verify, are rejected by the interstitial page instead of being followed.
+   */
+  requiresSignature: boolean;
 };
 
 export const SWAP_ROUTE = `${CROSS_CHAIN_SWAP_ROUTE}${PREPARE_SWAP_ROUTE}`;
@@ -68,9 +74,15 @@ export class Route {
    */
   public readonly handler: RouteOptions['handler'];
 
+  /**
+   * @see {@link RouteOptions.requiresSignature}
+   */
+  public readonly requiresSignature: RouteOptions['requiresSignature'];
+
   constructor(options: RouteOptions) {
     this.pathname = options.pathname.toLowerCase();
     this.getTitle = options.getTitle;
     this.handler = options.handler;
+    this.requiresSignature = options.requiresSignature;
   }
 }
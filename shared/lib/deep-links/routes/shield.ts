@@ -7,6 +7,7 @@ export const SHIELD_QUERY_PARAMS = {
 export default new Route({
   pathname: '/shield',
   getTitle: (_: URLSearchParams) => 'deepLink_theTransactionShieldPage',
+  requiresSignature: false,
   handler: function handler(params: URLSearchParams) {
     const shouldShowShieldEntryModal =
       params.get(SHIELD_QUERY_PARAMS.showShieldEntryModal) === 'true';
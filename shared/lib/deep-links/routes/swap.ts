@@ -23,6 +23,7 @@ export enum BridgeQueryParams {
 export default new Route({
   pathname: '/swap',
   getTitle: (_: URLSearchParams) => 'deepLink_theSwapsPage',
+  requiresSignature: false,
   handler: function handler(params: URLSearchParams) {
     const query = new URLSearchParams();
 
@@ -3,6 +3,7 @@ import { DEVELOPER_OPTIONS_ROUTE, Route } from './route';
 export default new Route({
   pathname: '/test',
   getTitle: (_: URLSearchParams) => 'deepLink_thePerpsPage',
+  requiresSignature: false,
   handler: function handler(params: URLSearchParams) {
     return {
       // we use the developer options route for testing purposes
@@ -20,6 +20,7 @@ import {
 } from './erc721BalanceChangeBuilder';
 import { exactExecution, exactExecutionBuilder } from './exactExecutionBuilder';
 import { limitedCalls, limitedCallsBuilder } from './limitedCallsBuilder';
+import { multiTokenPeriod, multiTokenPeriodBuilder } from './multiTokenPeriod';
 import {
   nativeBalanceChange,
   nativeBalanceChangeBuilder,
@@ -46,6 +47,7 @@ export const createCaveatBuilder = (
     .extend(erc721BalanceChange, erc721BalanceChangeBuilder)
     .extend(exactExecution, exactExecutionBuilder)
     .extend(limitedCalls, limitedCallsBuilder)
+    .extend(multiTokenPeriod, multiTokenPeriodBuilder)
     .extend(nativeBalanceChange, nativeBalanceChangeBuilder)
     .extend(
       specificActionERC20TransferBatch,
@@ -0,0 +1,93 @@
+import type { DeleGatorEnvironment } from '..';
+import type { Hex } from '../utils';
+import { multiTokenPeriodBuilder } from './multiTokenPeriod';
+
+const TOKEN_MOCK = '0x1234567890123456789012345678901234567890' as Hex;
+const ENFORCER_MOCK = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd' as Hex;
+const PERIOD_AMOUNT_MOCK = BigInt(1000);
+const PERIOD_DURATION_MOCK = 604800;
+const START_DATE_MOCK = 1700000000;
+
+const ENVIRONMENT_MOCK = {
+  caveatEnforcers: {
+    MultiTokenPeriodEnforcer: ENFORCER_MOCK,
+  },
+} as unknown as DeleGatorEnvironment;
+
+describe('multiTokenPeriodBuilder', () => {
+  it('creates caveat', () => {
+    const caveat = multiTokenPeriodBuilder(ENVIRONMENT_MOCK, [
+      {
+        token: TOKEN_MOCK,
+        periodAmount: PERIOD_AMOUNT_MOCK,
+        periodDuration: PERIOD_DURATION_MOCK,
+        startDate: START_DATE_MOCK,
+      },
+    ]);
+
+    expect(caveat.enforcer).toBe(ENFORCER_MOCK);
+    expect(caveat.args).toBe('0x');
+    expect(caveat.terms).toMatchInlineSnapshot(
+      `"0x123456789012345678901234567890123456789000000000000000000000000000000000000000000000000000000000000003e80000000000000000000000000000000000000000000000000000000000093a80000000000000000000000000000000000000000000000000000000006553f100"`,
+    );
+  });
+
+  it('concatenates terms of multiple tokens', () => {
+    const config = {
+      token: TOKEN_MOCK,
+      periodAmount: PERIOD_AMOUNT_MOCK,
+      periodDuration: PERIOD_DURATION_MOCK,
+      startDate: START_DATE_MOCK,
+    };
+
+    const caveat = multiTokenPeriodBuilder(ENVIRONMENT_MOCK, [config, config]);
+
+    // 116 bytes per token
+    expect(caveat.terms).toHaveLength(2 + 116 * 2 * 2);
+  });
+
+  it('throws if configs are empty', () => {
+    expect(() => multiTokenPeriodBuilder(ENVIRONMENT_MOCK, [])).toThrow(
+      'MultiTokenPeriodBuilder: configs array cannot be empty',
+    );
+  });
+
+  it('throws if token is not an address', () => {
+    expect(() =>
+      multiTokenPeriodBuilder(ENVIRONMENT_MOCK, [
+        {
+          token: '0x123' as Hex,
+          periodAmount: PERIOD_AMOUNT_MOCK,
+          periodDuration: PERIOD_DURATION_MOCK,
+          startDate: START_DATE_MOCK,
+        },
+      ]),
+    ).toThrow('Invalid token address: 0x123');
+  });
+
+  it('throws if period amount is not positive', () => {
+    expect(() =>
+      multiTokenPeriodBuilder(ENVIRONMENT_MOCK, [
+        {
+          token: TOKEN_MOCK,
+          periodAmount: BigInt(0),
+          periodDuration: PERIOD_DURATION_MOCK,
+          startDate: START_DATE_MOCK,
+        },
+      ]),
+    ).toThrow('Invalid period amount: must be greater than 0');
+  });
+
+  it('throws if period duration is not positive', () => {
+    expect(() =>
+      multiTokenPeriodBuilder(ENVIRONMENT_MOCK, [
+        {
+          token: TOKEN_MOCK,
+          periodAmount: PERIOD_AMOUNT_MOCK,
+          periodDuration: 0,
+          startDate: START_DATE_MOCK,
+        },
+      ]),
+    ).toThrow('Invalid period duration: must be greater than 0');
+  });
+});
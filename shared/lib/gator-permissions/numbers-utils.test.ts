@@ -1,4 +1,7 @@
-import { getDecimalizedHexValue } from './numbers-utils';
+import {
+  getDecimalizedHexValue,
+  getStreamAvailableAmount,
+} from './numbers-utils';
 
 describe('numbers-utils', () => {
   describe('getDecimalizedHexValue', () => {
@@ -77,4 +80,32 @@ describe('numbers-utils', () => {
       expect(getDecimalizedHexValue('0xFf', 0)).toBe('255');
     });
   });
+
+  describe('getStreamAvailableAmount', () => {
+    const stream = {
+      initialAmount: '0x64' as const,
+      maxAmount: '0x3e8' as const,
+      amountPerSecond: '0xa' as const,
+      startTime: 1000,
+    };
+
+    it('should return zero before the stream starts', () => {
+      expect(getStreamAvailableAmount(stream, 999)).toBe('0x0');
+    });
+
+    it('should return initial amount plus unlocked amount', () => {
+      // 100 + 10 * 20
+      expect(getStreamAvailableAmount(stream, 1020)).toBe('0x12c');
+    });
+
+    it('should cap available amount at max amount', () => {
+      expect(getStreamAvailableAmount(stream, 5000)).toBe('0x3e8');
+    });
+
+    it('should not cap available amount without max amount', () => {
+      expect(
+        getStreamAvailableAmount({ ...stream, maxAmount: undefined }, 5000),
+      ).toBe('0x9c40');
+    });
+  });
 });
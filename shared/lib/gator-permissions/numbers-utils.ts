@@ -25,3 +25,43 @@ export const DEFAULT_TOKEN_AMOUNT_FORMAT_OPTIONS: Intl.NumberFormatOptions = {
 export function getDecimalizedHexValue(value: Hex, decimals: number): string {
   return new Numeric(value, 16).toBase(10).shiftedBy(decimals).toString();
 }
+
+/**
+ * Gets the amount of a token stream available to transfer, assuming none of
+ * the stream has been transferred yet.
+ *
+ * @param stream - The stream permission data.
+ * @param stream.initialAmount - The amount available as soon as the stream starts.
+ * @param stream.maxAmount - The maximum amount the stream can unlock.
+ * @param stream.amountPerSecond - The amount unlocked every second.
+ * @param stream.startTime - The start of the stream in seconds.
+ * @param now - The current time in seconds.
+ * @returns The available amount as a hex value.
+ */
+export function getStreamAvailableAmount(
+  {
+    initialAmount,
+    maxAmount,
+    amountPerSecond,
+    startTime,
+  }: {
+    initialAmount?: Hex;
+    maxAmount?: Hex;
+    amountPerSecond: Hex;
+    startTime: number;
+  },
+  now: number,
+): Hex {
+  if (now < startTime) {
+    return '0x0';
+  }
+
+  const unlocked =
+    BigInt(initialAmount ?? '0x0') +
+    BigInt(amountPerSecond) * BigInt(Math.floor(now - startTime));
+
+  const available =
+    maxAmount && unlocked > BigInt(maxAmount) ? BigInt(maxAmount) : unlocked;
+
+  return `0x${available.toString(16)}`;
+}
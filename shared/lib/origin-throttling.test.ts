@@ -0,0 +1,268 @@
+import {
+  DEFAULT_ORIGIN_THROTTLING_CONFIG,
+  ThrottlingMethodClass,
+} from '../constants/origin-throttling';
+import { MINUTE, SECOND } from '../constants/time';
+import { ThrottledOrigin } from '../types/origin-throttling';
+import {
+  isOriginBlocked,
+  liftOriginRejectionBlock,
+  recordOriginRejection,
+  resetOriginRejections,
+  willNextRejectionBlockOrigin,
+} from './origin-throttling';
+
+const CURRENT_TIME_MOCK = 1_000_000;
+const CONFIG_MOCK =
+  DEFAULT_ORIGIN_THROTTLING_CONFIG[ThrottlingMethodClass.Signature];
+
+const THROTTLED_ORIGIN_MOCK: ThrottledOrigin = {
+  rejections: {
+    [ThrottlingMethodClass.Signature]: {
+      rejections: 2,
+      lastRejection: CURRENT_TIME_MOCK - SECOND,
+    },
+    [ThrottlingMethodClass.ChainSwitching]: {
+      rejections: 1,
+      lastRejection: CURRENT_TIME_MOCK - SECOND,
+    },
+  },
+};
+
+describe('Origin Throttling Utils', () => {
+  describe('isOriginBlocked', () => {
+    it('returns false if origin has no state', () => {
+      expect(isOriginBlocked(undefined, CURRENT_TIME_MOCK)).toBe(false);
+    });
+
+    it('returns true if origin is permanently blocked', () => {
+      expect(
+        isOriginBlocked(
+          { rejections: {}, isPermanentlyBlocked: true },
+          CURRENT_TIME_MOCK,
+        ),
+      ).toBe(true);
+    });
+
+    it('returns true if origin block has not expired', () => {
+      expect(
+        isOriginBlocked(
+          { rejections: {}, blockedUntil: CURRENT_TIME_MOCK + 1 },
+          CURRENT_TIME_MOCK,
+        ),
+      ).toBe(true);
+    });
+
+    it('returns false if origin block has expired', () => {
+      expect(
+        isOriginBlocked(
+          { rejections: {}, blockedUntil: CURRENT_TIME_MOCK },
+          CURRENT_TIME_MOCK,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('willNextRejectionBlockOrigin', () => {
+    it('returns true if next rejection reaches threshold', () => {
+      expect(
+        willNextRejectionBlockOrigin(
+          THROTTLED_ORIGIN_MOCK,
+          ThrottlingMethodClass.Signature,
+          CONFIG_MOCK,
+          CURRENT_TIME_MOCK,
+        ),
+      ).toBe(true);
+    });
+
+    it('returns false if rejections are counted for another method class', () => {
+      expect(
+        willNextRejectionBlockOrigin(
+          THROTTLED_ORIGIN_MOCK,
+          ThrottlingMethodClass.Transaction,
+          CONFIG_MOCK,
+          CURRENT_TIME_MOCK,
+        ),
+      ).toBe(false);
+    });
+
+    it('returns false if last rejection is outside rejection window', () => {
+      expect(
+        willNextRejectionBlockOrigin(
+          THROTTLED_ORIGIN_MOCK,
+          ThrottlingMethodClass.Signature,
+          CONFIG_MOCK,
+          CURRENT_TIME_MOCK + MINUTE,
+        ),
+      ).toBe(false);
+    });
+  });
+
+  describe('recordOriginRejection', () => {
+    it('increments rejections within rejection window', () => {
+      expect(
+        recordOriginRejection(
+          THROTTLED_ORIGIN_MOCK,
+          ThrottlingMethodClass.ChainSwitching,
+          CONFIG_MOCK,
+          CURRENT_TIME_MOCK,
+        ).rejections[ThrottlingMethodClass.ChainSwitching],
+      ).toStrictEqual({ rejections: 2, lastRejection: CURRENT_TIME_MOCK });
+    });
+
+    it('restarts rejections outside rejection window', () => {
+      expect(
+        recordOriginRejection(
+          THROTTLED_ORIGIN_MOCK,
+          ThrottlingMethodClass.ChainSwitching,
+          CONFIG_MOCK,
+          CURRENT_TIME_MOCK + MINUTE,
+        ).rejections[ThrottlingMethodClass.ChainSwitching],
+      ).toStrictEqual({
+        rejections: 1,
+        lastRejection: CURRENT_TIME_MOCK + MINUTE,
+      });
+    });
+
+    it('blocks origin when threshold is reached', () => {
+      const result = recordOriginRejection(
+        THROTTLED_ORIGIN_MOCK,
+        ThrottlingMethodClass.Signature,
+        CONFIG_MOCK,
+        CURRENT_TIME_MOCK,
+      );
+
+      expect(result.blockedUntil).toBe(
+        CURRENT_TIME_MOCK + CONFIG_MOCK.blockDurationsInMs[0],
+      );
+      expect(result.history).toStrictEqual([
+        {
+          methodClass: ThrottlingMethodClass.Signature,
+          blockedAt: CURRENT_TIME_MOCK,
+          blockedUntil: CURRENT_TIME_MOCK + CONFIG_MOCK.blockDurationsInMs[0],
+        },
+      ]);
+      expect(
+        result.rejections[ThrottlingMethodClass.Signature]?.rejections,
+      ).toBe(0);
+    });
+
+    it('escalates block duration for repeat offenders', () => {
+      const previousBlock = {
+        methodClass: ThrottlingMethodClass.Signature,
+        blockedAt: 0,
+        blockedUntil: 1,
+      };
+
+      const result = recordOriginRejection(
+        { ...THROTTLED_ORIGIN_MOCK, history: [previousBlock] },
+        ThrottlingMethodClass.Signature,
+        CONFIG_MOCK,
+        CURRENT_TIME_MOCK,
+      );
+
+      expect(result.blockedUntil).toBe(
+        CURRENT_TIME_MOCK + CONFIG_MOCK.blockDurationsInMs[1],
+      );
+      expect(result.history).toHaveLength(2);
+    });
+
+    it('reuses longest block duration once durations are exhausted', () => {
+      const history = CONFIG_MOCK.blockDurationsInMs.map(() => ({
+        methodClass: ThrottlingMethodClass.Signature,
+        blockedAt: 0,
+        blockedUntil: 1,
+      }));
+
+      const result = recordOriginRejection(
+        { ...THROTTLED_ORIGIN_MOCK, history },
+        ThrottlingMethodClass.Signature,
+        CONFIG_MOCK,
+        CURRENT_TIME_MOCK,
+      );
+
+      expect(result.blockedUntil).toBe(
+        CURRENT_TIME_MOCK +
+          CONFIG_MOCK.blockDurationsInMs[
+            CONFIG_MOCK.blockDurationsInMs.length - 1
+          ],
+      );
+    });
+
+    it('uses configured rejection threshold', () => {
+      const result = recordOriginRejection(
+        undefined,
+        ThrottlingMethodClass.Signature,
+        { ...CONFIG_MOCK, rejectionThreshold: 1 },
+        CURRENT_TIME_MOCK,
+      );
+
+      expect(isOriginBlocked(result, CURRENT_TIME_MOCK)).toBe(true);
+    });
+  });
+
+  describe('resetOriginRejections', () => {
+    it('removes rejections of method class', () => {
+      expect(
+        resetOriginRejections(
+          THROTTLED_ORIGIN_MOCK,
+          ThrottlingMethodClass.Signature,
+        ),
+      ).toStrictEqual({
+        rejections: {
+          [ThrottlingMethodClass.ChainSwitching]:
+            THROTTLED_ORIGIN_MOCK.rejections[
+              ThrottlingMethodClass.ChainSwitching
+            ],
+        },
+      });
+    });
+  });
+
+  describe('liftOriginRejectionBlock', () => {
+    it('lifts block caused by method class', () => {
+      const blockedOrigin = recordOriginRejection(
+        THROTTLED_ORIGIN_MOCK,
+        ThrottlingMethodClass.Signature,
+        { ...CONFIG_MOCK, rejectionThreshold: 3 },
+        CURRENT_TIME_MOCK,
+      );
+
+      expect(
+        liftOriginRejectionBlock(
+          blockedOrigin,
+          ThrottlingMethodClass.Signature,
+        ),
+      ).toStrictEqual({
+        rejections: {
+          [ThrottlingMethodClass.ChainSwitching]:
+            THROTTLED_ORIGIN_MOCK.rejections[
+              ThrottlingMethodClass.ChainSwitching
+            ],
+        },
+        history: [],
+      });
+    });
+
+    it('keeps block caused by another method class', () => {
+      const blockedOrigin: ThrottledOrigin = {
+        rejections: {},
+        blockedUntil: CURRENT_TIME_MOCK + MINUTE,
+        history: [
+          {
+            methodClass: ThrottlingMethodClass.Transaction,
+            blockedAt: CURRENT_TIME_MOCK,
+            blockedUntil: CURRENT_TIME_MOCK + MINUTE,
+          },
+        ],
+      };
+
+      expect(
+        liftOriginRejectionBlock(
+          blockedOrigin,
+          ThrottlingMethodClass.Signature,
+        ),
+      ).toStrictEqual(blockedOrigin);
+    });
+  });
+});
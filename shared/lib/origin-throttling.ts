@@ -0,0 +1,162 @@
+import {
+  MAX_THROTTLED_ORIGIN_HISTORY_LENGTH,
+  ThrottlingMethodClass,
+} from '../constants/origin-throttling';
+import type {
+  OriginThrottlingMethodClassConfig,
+  ThrottledOrigin,
+} from '../types/origin-throttling';
+
+const EMPTY_THROTTLED_ORIGIN: ThrottledOrigin = { rejections: {} };
+
+/**
+ * Whether requests from an origin are currently rejected by the spam filter.
+ *
+ * @param throttledOrigin - The throttling state of the origin.
+ * @param currentTime - The current time in milliseconds.
+ * @returns True if the origin is permanently or temporarily blocked.
+ */
+export function isOriginBlocked(
+  throttledOrigin: ThrottledOrigin | undefined,
+  currentTime = Date.now(),
+): boolean {
+  if (!throttledOrigin) {
+    return false;
+  }
+
+  return (
+    Boolean(throttledOrigin.isPermanentlyBlocked) ||
+    (throttledOrigin.blockedUntil ?? 0) > currentTime
+  );
+}
+
+function getRejectionsInWindow(
+  throttledOrigin: ThrottledOrigin | undefined,
+  methodClass: ThrottlingMethodClass,
+  { rejectionWindowInMs }: OriginThrottlingMethodClassConfig,
+  currentTime: number,
+): number {
+  const { rejections = 0, lastRejection = 0 } =
+    throttledOrigin?.rejections?.[methodClass] ?? {};
+
+  return currentTime - lastRejection < rejectionWindowInMs ? rejections : 0;
+}
+
+/**
+ * Whether the next rejection of a request from an origin will block it.
+ *
+ * @param throttledOrigin - The throttling state of the origin.
+ * @param methodClass - The method class of the request.
+ * @param config - The throttling configuration of the method class.
+ * @param currentTime - The current time in milliseconds.
+ * @returns True if one more rejection reaches the rejection threshold.
+ */
+export function willNextRejectionBlockOrigin(
+  throttledOrigin: ThrottledOrigin | undefined,
+  methodClass: ThrottlingMethodClass,
+  config: OriginThrottlingMethodClassConfig,
+  currentTime = Date.now(),
+): boolean {
+  return (
+    getRejectionsInWindow(throttledOrigin, methodClass, config, currentTime) +
+      1 >=
+    config.rejectionThreshold
+  );
+}
+
+/**
+ * Records a user rejection for an origin, blocking it once the rejection
+ * threshold of the method class is reached. Each block lasts longer than the
+ * previous one.
+ *
+ * @param throttledOrigin - The throttling state of the origin.
+ * @param methodClass - The method class of the rejected request.
+ * @param config - The throttling configuration of the method class.
+ * @param currentTime - The current time in milliseconds.
+ * @returns The updated throttling state of the origin.
+ */
+export function recordOriginRejection(
+  throttledOrigin: ThrottledOrigin | undefined,
+  methodClass: ThrottlingMethodClass,
+  config: OriginThrottlingMethodClassConfig,
+  currentTime = Date.now(),
+): ThrottledOrigin {
+  const originState = throttledOrigin ?? EMPTY_THROTTLED_ORIGIN;
+  const rejections =
+    getRejectionsInWindow(originState, methodClass, config, currentTime) + 1;
+
+  if (rejections < config.rejectionThreshold) {
+    return {
+      ...originState,
+      rejections: {
+        ...originState.rejections,
+        [methodClass]: { rejections, lastRejection: currentTime },
+      },
+    };
+  }
+
+  const history = originState.history ?? [];
+  const { blockDurationsInMs } = config;
+  const blockDuration =
+    blockDurationsInMs[Math.min(history.length, blockDurationsInMs.length - 1)];
+  const blockedUntil = currentTime + blockDuration;
+
+  return {
+    ...originState,
+    rejections: {
+      ...originState.rejections,
+      [methodClass]: { rejections: 0, lastRejection: currentTime },
+    },
+    blockedUntil,
+    history: [
+      { methodClass, blockedAt: currentTime, blockedUntil },
+      ...history,
+    ].slice(0, MAX_THROTTLED_ORIGIN_HISTORY_LENGTH),
+  };
+}
+
+/**
+ * Clears the rejection counter of a method class for an origin.
+ *
+ * @param throttledOrigin - The throttling state of the origin.
+ * @param methodClass - The method class to reset.
+ * @returns The updated throttling state of the origin.
+ */
+export function resetOriginRejections(
+  throttledOrigin: ThrottledOrigin | undefined,
+  methodClass: ThrottlingMethodClass,
+): ThrottledOrigin {
+  const originState = throttledOrigin ?? EMPTY_THROTTLED_ORIGIN;
+  const { [methodClass]: _reset, ...rejections } = originState.rejections;
+
+  return { ...originState, rejections };
+}
+
+/**
+ * Clears the rejection counter of a method class for an origin and lifts the
+ * block caused by its last rejection, if any. Used when the user cancels a
+ * request without blocking the site from the spam warning.
+ *
+ * @param throttledOrigin - The throttling state of the origin.
+ * @param methodClass - The method class of the cancelled request.
+ * @returns The updated throttling state of the origin.
+ */
+export function liftOriginRejectionBlock(
+  throttledOrigin: ThrottledOrigin | undefined,
+  methodClass: ThrottlingMethodClass,
+): ThrottledOrigin {
+  const originState = resetOriginRejections(throttledOrigin, methodClass);
+  const [lastBlock, ...history] = originState.history ?? [];
+
+  if (
+    !lastBlock ||
+    lastBlock.methodClass !== methodClass ||
+    lastBlock.blockedUntil !== originState.blockedUntil
+  ) {
+    return originState;
+  }
+
+  const { blockedUntil: _lifted, ...unblockedState } = originState;
+
+  return { ...unblockedState, history };
+}
@@ -0,0 +1,238 @@
+import { PermitRiskType } from '../constants/permit-risk';
+import { analyzePermitRisks, PermitSignatureRequest } from './permit-risk';
+
+const FROM_MOCK = '0x935e73edb9ff52e23bac7f7e043a1ecd06d05477';
+const SPENDER_MOCK = '0x3fc91a3afd70395cd496c647d5a6cc9d4b2b7fad';
+const TOKEN_MOCK = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+const PERMIT2_MOCK = '0x000000000022d473030f116ddee9f6b43ac78ba3';
+const UNLIMITED_AMOUNT_MOCK =
+  '1461501637330902918203684832716283019655932542975';
+const NOW_MOCK = 1720000000000;
+const DEADLINE_MOCK = String(NOW_MOCK / 1000 + 60 * 60);
+const LONG_DEADLINE_MOCK = String(NOW_MOCK / 1000 + 365 * 24 * 60 * 60);
+
+function buildRequest(
+  primaryType: string,
+  message: Record<string, unknown>,
+  {
+    id = '1',
+    chainId = 1,
+    from = FROM_MOCK,
+  }: { id?: string; chainId?: number; from?: string } = {},
+): PermitSignatureRequest {
+  return {
+    id,
+    from,
+    data: JSON.stringify({
+      types: {},
+      domain: { chainId, verifyingContract: PERMIT2_MOCK },
+      primaryType,
+      message,
+    }),
+  };
+}
+
+function buildPermitSingle(
+  details: Record<string, unknown> = {},
+  options?: Parameters<typeof buildRequest>[2],
+) {
+  return buildRequest(
+    'PermitSingle',
+    {
+      details: {
+        token: TOKEN_MOCK,
+        amount: '1000',
+        expiration: DEADLINE_MOCK,
+        nonce: '5',
+        ...details,
+      },
+      spender: SPENDER_MOCK,
+      sigDeadline: DEADLINE_MOCK,
+    },
+    options,
+  );
+}
+
+describe('Permit Risk Utils', () => {
+  describe('analyzePermitRisks', () => {
+    it('returns no risks for a permit with safe parameters', () => {
+      expect(
+        analyzePermitRisks(buildPermitSingle(), {
+          chainId: '0x1',
+          now: NOW_MOCK,
+        }),
+      ).toStrictEqual([]);
+    });
+
+    it('returns no risks if the request is not a permit', () => {
+      expect(
+        analyzePermitRisks(
+          buildRequest('Mail', { value: UNLIMITED_AMOUNT_MOCK }),
+          { chainId: '0x5', now: NOW_MOCK },
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('returns no risks if the data is malformed', () => {
+      expect(
+        analyzePermitRisks(
+          { id: '1', from: FROM_MOCK, data: '{invalid' },
+          { chainId: '0x1', now: NOW_MOCK },
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('flags unlimited Permit values', () => {
+      expect(
+        analyzePermitRisks(
+          buildRequest('Permit', {
+            value: UNLIMITED_AMOUNT_MOCK,
+            deadline: DEADLINE_MOCK,
+            nonce: '0',
+          }),
+          { chainId: '0x1', now: NOW_MOCK },
+        ),
+      ).toStrictEqual([{ type: PermitRiskType.UnlimitedAmount }]);
+    });
+
+    it('flags unlimited amounts in any PermitBatch details', () => {
+      expect(
+        analyzePermitRisks(
+          buildRequest('PermitBatch', {
+            details: [
+              { token: TOKEN_MOCK, amount: '1000', nonce: '1' },
+              { token: TOKEN_MOCK, amount: UNLIMITED_AMOUNT_MOCK, nonce: '2' },
+            ],
+            spender: SPENDER_MOCK,
+            sigDeadline: DEADLINE_MOCK,
+          }),
+          { chainId: '0x1', now: NOW_MOCK },
+        ),
+      ).toStrictEqual([{ type: PermitRiskType.UnlimitedAmount }]);
+    });
+
+    it('flags unlimited PermitWitnessTransferFrom amounts', () => {
+      expect(
+        analyzePermitRisks(
+          buildRequest('PermitWitnessTransferFrom', {
+            permitted: { token: TOKEN_MOCK, amount: UNLIMITED_AMOUNT_MOCK },
+            spender: SPENDER_MOCK,
+            nonce: '7',
+            deadline: DEADLINE_MOCK,
+          }),
+          { chainId: '0x1', now: NOW_MOCK },
+        ),
+      ).toStrictEqual([{ type: PermitRiskType.UnlimitedAmount }]);
+    });
+
+    it('flags signature deadlines far in the future', () => {
+      expect(
+        analyzePermitRisks(
+          buildRequest('Permit', {
+            value: '1000',
+            deadline: LONG_DEADLINE_MOCK,
+            nonce: '0',
+          }),
+          { chainId: '0x1', now: NOW_MOCK },
+        ),
+      ).toStrictEqual([
+        {
+          type: PermitRiskType.LongDeadline,
+          deadline: Number(LONG_DEADLINE_MOCK),
+        },
+      ]);
+    });
+
+    it('flags allowance expirations far in the future', () => {
+      expect(
+        analyzePermitRisks(
+          buildPermitSingle({ expiration: LONG_DEADLINE_MOCK }),
+          {
+            chainId: '0x1',
+            now: NOW_MOCK,
+          },
+        ),
+      ).toStrictEqual([
+        {
+          type: PermitRiskType.LongDeadline,
+          deadline: Number(LONG_DEADLINE_MOCK),
+        },
+      ]);
+    });
+
+    it('flags pending permits from the same account using the same nonce', () => {
+      expect(
+        analyzePermitRisks(buildPermitSingle(), {
+          chainId: '0x1',
+          now: NOW_MOCK,
+          pendingRequests: [
+            buildPermitSingle({}, { id: '2' }),
+            buildPermitSingle({ nonce: '6' }, { id: '3' }),
+            buildPermitSingle(
+              {},
+              { id: '4', from: '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc' },
+            ),
+          ],
+        }),
+      ).toStrictEqual([
+        { type: PermitRiskType.NonceConflict, conflictingRequestIds: ['2'] },
+      ]);
+    });
+
+    it('ignores the request itself when checking for nonce conflicts', () => {
+      const request = buildPermitSingle();
+
+      expect(
+        analyzePermitRisks(request, {
+          chainId: '0x1',
+          now: NOW_MOCK,
+          pendingRequests: [request],
+        }),
+      ).toStrictEqual([]);
+    });
+
+    it('ignores permits without a nonce when checking for nonce conflicts', () => {
+      expect(
+        analyzePermitRisks(buildPermitSingle({ nonce: undefined }), {
+          chainId: '0x1',
+          now: NOW_MOCK,
+          pendingRequests: [
+            buildPermitSingle({ nonce: undefined }, { id: '2' }),
+          ],
+        }),
+      ).toStrictEqual([]);
+    });
+
+    it('flags domain chain IDs differing from the active network', () => {
+      expect(
+        analyzePermitRisks(buildPermitSingle(), {
+          chainId: '0x5',
+          now: NOW_MOCK,
+        }),
+      ).toStrictEqual([
+        { type: PermitRiskType.ChainMismatch, domainChainId: 1 },
+      ]);
+    });
+
+    it('returns all risks found', () => {
+      expect(
+        analyzePermitRisks(
+          buildPermitSingle({
+            amount: UNLIMITED_AMOUNT_MOCK,
+            expiration: LONG_DEADLINE_MOCK,
+          }),
+          {
+            chainId: '0x5',
+            now: NOW_MOCK,
+            pendingRequests: [buildPermitSingle({}, { id: '2' })],
+          },
+        ).map(({ type }) => type),
+      ).toStrictEqual([
+        PermitRiskType.UnlimitedAmount,
+        PermitRiskType.LongDeadline,
+        PermitRiskType.NonceConflict,
+        PermitRiskType.ChainMismatch,
+      ]);
+    });
+  });
+});
@@ -0,0 +1,228 @@
+import type { Hex } from '@metamask/utils';
+import {
+  PERMIT_DEADLINE_RISK_THRESHOLD_MS,
+  PERMIT_RISK_PRIMARY_TYPES,
+  PermitRiskType,
+} from '../constants/permit-risk';
+import { PrimaryTypePermit } from '../constants/signatures';
+import { parseTypedDataMessage } from '../modules/transaction.utils';
+import { isUnlimitedAmount } from './security-policy';
+
+export type PermitSignatureRequest = {
+  id: string;
+  from: string;
+  data: string | object;
+};
+
+export type PermitRisk =
+  | { type: PermitRiskType.UnlimitedAmount }
+  | { type: PermitRiskType.LongDeadline; deadline: number }
+  | { type: PermitRiskType.NonceConflict; conflictingRequestIds: string[] }
+  | { type: PermitRiskType.ChainMismatch; domainChainId: number };
+
+type PermitDetails = {
+  amounts: string[];
+  deadlines: number[];
+  domainChainId?: number;
+  nonceKeys: string[];
+};
+
+type Permit2Details = {
+  amount?: unknown;
+  expiration?: unknown;
+  nonce?: unknown;
+  token?: unknown;
+};
+
+function toArray<Value>(value: Value | Value[] | undefined): Value[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+
+  return Array.isArray(value) ? value : [value];
+}
+
+function toStringValue(value: unknown): string | undefined {
+  if (value === undefined || value === null || value === '') {
+    return undefined;
+  }
+
+  return String(value);
+}
+
+function toNumberValue(value: unknown): number | undefined {
+  const stringValue = toStringValue(value);
+
+  if (stringValue === undefined) {
+    return undefined;
+  }
+
+  const number = Number(stringValue);
+
+  return Number.isNaN(number) ? undefined : number;
+}
+
+function toLowerCaseValue(value: unknown): string {
+  return toStringValue(value)?.toLowerCase() ?? '';
+}
+
+function getNonceKeys(scope: string[], nonce: unknown): string[] {
+  const nonceValue = toStringValue(nonce);
+
+  return nonceValue === undefined ? [] : [[...scope, nonceValue].join(':')];
+}
+
+function getAllowanceDetails(
+  verifyingContract: string,
+  message: Record<string, unknown>,
+): Omit<PermitDetails, 'domainChainId'> {
+  const spender = toLowerCaseValue(message.spender);
+  const details = toArray(message.details as Permit2Details | Permit2Details[]);
+
+  return {
+    amounts: details
+      .map(({ amount }) => toStringValue(amount))
+      .filter((amount): amount is string => amount !== undefined),
+    deadlines: [
+      toNumberValue(message.sigDeadline),
+      // An expiration of zero means the allowance expires in the same block.
+      ...details.map(
+        ({ expiration }) => toNumberValue(expiration) || undefined,
+      ),
+    ].filter((deadline): deadline is number => deadline !== undefined),
+    // Allowance nonces are scoped to the owner, token and spender.
+    nonceKeys: details.flatMap(({ nonce, token }) =>
+      getNonceKeys(
+        [verifyingContract, 'allowance', toLowerCaseValue(token), spender],
+        nonce,
+      ),
+    ),
+  };
+}
+
+function getPermitDetails(data: string | object): PermitDetails | undefined {
+  let typedData;
+
+  try {
+    typedData = parseTypedDataMessage(data);
+  } catch {
+    return undefined;
+  }
+
+  const { domain = {}, message = {}, primaryType } = typedData ?? {};
+
+  if (!PERMIT_RISK_PRIMARY_TYPES.includes(primaryType)) {
+    return undefined;
+  }
+
+  const verifyingContract = toLowerCaseValue(domain.verifyingContract);
+  const domainChainId = toNumberValue(domain.chainId);
+
+  switch (primaryType) {
+    case PrimaryTypePermit.Permit:
+      return {
+        amounts: toArray(toStringValue(message.value)),
+        deadlines: toArray(toNumberValue(message.deadline)),
+        domainChainId,
+        nonceKeys: getNonceKeys([verifyingContract, 'permit'], message.nonce),
+      };
+
+    case PrimaryTypePermit.PermitSingle:
+    case PrimaryTypePermit.PermitBatch:
+      return {
+        ...getAllowanceDetails(verifyingContract, message),
+        domainChainId,
+      };
+
+    case PrimaryTypePermit.PermitWitnessTransferFrom:
+      return {
+        amounts: toArray(
+          message.permitted as { amount?: unknown } | { amount?: unknown }[],
+        )
+          .map(({ amount }) => toStringValue(amount))
+          .filter((amount): amount is string => amount !== undefined),
+        deadlines: toArray(toNumberValue(message.deadline)),
+        domainChainId,
+        // Signature transfer nonces are unordered but unique per owner.
+        nonceKeys: getNonceKeys(
+          [verifyingContract, 'signatureTransfer'],
+          message.nonce,
+        ),
+      };
+
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * Analyzes a Permit or Permit2 signature request for risky parameters, such as
+ * unlimited amounts, deadlines far in the future, nonces shared with other
+ * pending permits and a domain chain differing from the active network.
+ *
+ * @param request - The signature request to analyze.
+ * @param options - The analysis options.
+ * @param options.chainId - The chain ID of the active network.
+ * @param options.pendingRequests - The other pending signature requests.
+ * @param options.now - The current time in milliseconds.
+ * @returns The risks found, if any.
+ */
+export function analyzePermitRisks(
+  request: PermitSignatureRequest,
+  {
+    chainId,
+    pendingRequests = [],
+    now = Date.now(),
+  }: {
+    chainId?: Hex;
+    pendingRequests?: PermitSignatureRequest[];
+    now?: number;
+  },
+): PermitRisk[] {
+  const permit = getPermitDetails(request.data);
+
+  if (!permit) {
+    return [];
+  }
+
+  const risks: PermitRisk[] = [];
+
+  if (permit.amounts.some((amount) => isUnlimitedAmount(amount))) {
+    risks.push({ type: PermitRiskType.UnlimitedAmount });
+  }
+
+  const deadline = Math.max(...permit.deadlines);
+
+  if (deadline * 1000 - now > PERMIT_DEADLINE_RISK_THRESHOLD_MS) {
+    risks.push({ type: PermitRiskType.LongDeadline, deadline });
+  }
+
+  const conflictingRequestIds = pendingRequests
+    .filter(
+      ({ id, from }) =>
+        id !== request.id && from.toLowerCase() === request.from.toLowerCase(),
+    )
+    .filter(({ data }) =>
+      getPermitDetails(data)?.nonceKeys.some((nonceKey) =>
+        permit.nonceKeys.includes(nonceKey),
+      ),
+    )
+    .map(({ id }) => id);
+
+  if (conflictingRequestIds.length) {
+    risks.push({ type: PermitRiskType.NonceConflict, conflictingRequestIds });
+  }
+
+  if (
+    chainId &&
+    permit.domainChainId !== undefined &&
+    permit.domainChainId !== Number(chainId)
+  ) {
+    risks.push({
+      type: PermitRiskType.ChainMismatch,
+      domainChainId: permit.domainChainId,
+    });
+  }
+
+  return risks;
+}
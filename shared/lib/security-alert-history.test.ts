@@ -0,0 +1,89 @@
+import { SecurityAlertUserAction } from '../constants/security-alert-history';
+import type { SecurityAlertHistoryEntry } from '../types/security-alert-history';
+import {
+  filterSecurityAlertHistory,
+  securityAlertHistoryToCsv,
+} from './security-alert-history';
+
+const ENTRY_MOCK: SecurityAlertHistoryEntry = {
+  securityAlertId: 'id-1',
+  time: 1000,
+  origin: 'https://example.com',
+  method: 'eth_sendTransaction',
+  chainId: '0x1',
+  resultType: 'Malicious',
+  reason: 'transfer_farming',
+  userAction: SecurityAlertUserAction.Rejected,
+};
+
+const ENTRY_MOCK_2: SecurityAlertHistoryEntry = {
+  securityAlertId: 'id-2',
+  time: 2000,
+  origin: 'https://other.io',
+  method: 'eth_signTypedData_v4',
+  chainId: '0x89',
+  resultType: 'Benign',
+  reason: '',
+  userAction: SecurityAlertUserAction.Approved,
+};
+
+describe('Security Alert History Utils', () => {
+  describe('filterSecurityAlertHistory', () => {
+    it('returns all entries from newest to oldest if there is no filter', () => {
+      expect(
+        filterSecurityAlertHistory([ENTRY_MOCK, ENTRY_MOCK_2]),
+      ).toStrictEqual([ENTRY_MOCK_2, ENTRY_MOCK]);
+    });
+
+    it('filters by result type', () => {
+      expect(
+        filterSecurityAlertHistory([ENTRY_MOCK, ENTRY_MOCK_2], {
+          resultType: 'Malicious',
+        }),
+      ).toStrictEqual([ENTRY_MOCK]);
+    });
+
+    it('filters by user action', () => {
+      expect(
+        filterSecurityAlertHistory([ENTRY_MOCK, ENTRY_MOCK_2], {
+          userAction: SecurityAlertUserAction.Approved,
+        }),
+      ).toStrictEqual([ENTRY_MOCK_2]);
+    });
+
+    it('filters by partial origin ignoring case', () => {
+      expect(
+        filterSecurityAlertHistory([ENTRY_MOCK, ENTRY_MOCK_2], {
+          origin: ' EXAMPLE ',
+        }),
+      ).toStrictEqual([ENTRY_MOCK]);
+    });
+  });
+
+  describe('securityAlertHistoryToCsv', () => {
+    it('returns a header row and one row per entry', () => {
+      expect(securityAlertHistoryToCsv([ENTRY_MOCK])).toBe(
+        [
+          'time,origin,method,chainId,resultType,reason,description,userAction,securityAlertId',
+          '1970-01-01T00:00:01.000Z,https://example.com,eth_sendTransaction,0x1,Malicious,transfer_farming,,rejected,id-1',
+        ].join('\n'),
+      );
+    });
+
+    it('escapes cells containing separators and quotes', () => {
+      const csv = securityAlertHistoryToCsv([
+        { ...ENTRY_MOCK, description: 'Drains "all", funds' },
+      ]);
+
+      expect(csv).toContain(',"Drains ""all"", funds",');
+    });
+
+    it('neutralizes cells that spreadsheets would evaluate as formulas', () => {
+      const csv = securityAlertHistoryToCsv([
+        { ...ENTRY_MOCK, origin: '=HYPERLINK("https://evil.com")' },
+      ]);
+
+      expect(csv).toContain(`,"'=HYPERLINK(""https://evil.com"")",`);
+    });
+  });
+});
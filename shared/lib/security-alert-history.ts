@@ -0,0 +1,85 @@
+import type { SecurityAlertUserAction } from '../constants/security-alert-history';
+import type { SecurityAlertHistoryEntry } from '../types/security-alert-history';
+
+export type SecurityAlertHistoryFilter = {
+  origin?: string;
+  resultType?: string;
+  userAction?: SecurityAlertUserAction;
+};
+
+const CSV_COLUMNS: (keyof SecurityAlertHistoryEntry)[] = [
+  'time',
+  'origin',
+  'method',
+  'chainId',
+  'resultType',
+  'reason',
+  'description',
+  'userAction',
+  'securityAlertId',
+];
+
+// Characters that spreadsheet applications interpret as the start of a formula.
+const CSV_FORMULA_PREFIXES = ['=', '+', '-', '@'];
+
+function toCsvCell(value: unknown): string {
+  let cell = value === undefined || value === null ? '' : String(value);
+
+  if (CSV_FORMULA_PREFIXES.some((prefix) => cell.startsWith(prefix))) {
+    cell = `'${cell}`;
+  }
+
+  if (/[",\r\n]/u.test(cell)) {
+    cell = `"${cell.replace(/"/gu, '""')}"`;
+  }
+
+  return cell;
+}
+
+/**
+ * Filters security alert history entries and sorts them from newest to oldest.
+ *
+ * @param entries - The security alert history.
+ * @param filter - The criteria entries must match.
+ * @param filter.origin - Text the origin must contain, ignoring case.
+ * @param filter.resultType - The exact result type of the scan.
+ * @param filter.userAction - What the user did with the request.
+ * @returns The matching entries.
+ */
+export function filterSecurityAlertHistory(
+  entries: SecurityAlertHistoryEntry[],
+  { origin, resultType, userAction }: SecurityAlertHistoryFilter = {},
+): SecurityAlertHistoryEntry[] {
+  const originQuery = origin?.trim().toLowerCase();
+
+  return entries
+    .filter(
+      (entry) =>
+        (!resultType || entry.resultType === resultType) &&
+        (!userAction || entry.userAction === userAction) &&
+        (!originQuery ||
+          entry.origin?.toLowerCase().includes(originQuery) === true),
+    )
+    .sort((a, b) => b.time - a.time);
+}
+
+/**
+ * Serializes security alert history entries as CSV, with one header row.
+ * Times are formatted as ISO 8601 strings.
+ *
+ * @param entries - The security alert history entries to serialize.
+ * @returns The CSV document.
+ */
+export function securityAlertHistoryToCsv(
+  entries: SecurityAlertHistoryEntry[],
+): string {
+  const rows = entries.map((entry) =>
+    CSV_COLUMNS.map((column) =>
+      toCsvCell(
+        column === 'time' ? new Date(entry.time).toISOString() : entry[column],
+      ),
+    ).join(','),
+  );
+
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+}
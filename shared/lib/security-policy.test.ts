@@ -0,0 +1,340 @@
+import { Interface } from '@ethersproject/abi';
+import { Hex } from '@metamask/utils';
+import { buildSetApproveForAllTransactionData } from '../../test/data/confirmations/set-approval-for-all';
+import { buildApproveTransactionData } from '../../test/data/confirmations/token-approve';
+import { MESSAGE_TYPE } from '../constants/app';
+import {
+  DEFAULT_SECURITY_POLICIES,
+  SecurityPolicy,
+  SecurityPolicyAction,
+  SecurityPolicyType,
+} from '../constants/security-policy';
+import {
+  evaluateSecurityPolicies,
+  hasBlockingViolation,
+  parseSecurityPolicies,
+  serializeSecurityPolicies,
+  validateSecurityPolicies,
+} from './security-policy';
+
+const ADDRESS_MOCK = '0x1234567890123456789012345678901234567890';
+const OPERATOR_MOCK = '0x5b38da6a701c568545dcfcb03fcb875f56beddc4';
+const MAX_UINT256 =
+  '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff';
+
+const UNLIMITED_APPROVE_DATA = new Interface([
+  'function approve(address spender, uint256 amountOrTokenId)',
+]).encodeFunctionData('approve', [ADDRESS_MOCK, MAX_UINT256]) as Hex;
+
+const POLICIES_MOCK: SecurityPolicy[] = DEFAULT_SECURITY_POLICIES.map(
+  (policy) => ({ ...policy, enabled: true }),
+);
+
+function buildTransactionRequest(params: { data?: Hex; value?: Hex }) {
+  return {
+    method: MESSAGE_TYPE.ETH_SEND_TRANSACTION,
+    params: [{ from: ADDRESS_MOCK, to: ADDRESS_MOCK, ...params }],
+  };
+}
+
+function buildPermitRequest(value: string) {
+  return {
+    method: MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V4,
+    params: [
+      ADDRESS_MOCK,
+      JSON.stringify({
+        primaryType: 'Permit',
+        domain: { name: 'MyToken', chainId: 1 },
+        message: {
+          owner: ADDRESS_MOCK,
+          spender: OPERATOR_MOCK,
+          value,
+          nonce: 0,
+          deadline: 50000000000,
+        },
+      }),
+    ],
+  };
+}
+
+function buildPermitBatchRequest(amounts: string[]) {
+  return {
+    method: MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V4,
+    params: [
+      ADDRESS_MOCK,
+      JSON.stringify({
+        primaryType: 'PermitBatch',
+        domain: { name: 'Permit2', chainId: 1 },
+        message: {
+          details: amounts.map((amount) => ({
+            token: ADDRESS_MOCK,
+            amount,
+            expiration: 50000000000,
+            nonce: 0,
+          })),
+          spender: OPERATOR_MOCK,
+          sigDeadline: 50000000000,
+        },
+      }),
+    ],
+  };
+}
+
+describe('Security Policy Utils', () => {
+  describe('evaluateSecurityPolicies', () => {
+    it('returns no violations if no policies are enabled', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildTransactionRequest({ data: UNLIMITED_APPROVE_DATA }),
+          DEFAULT_SECURITY_POLICIES,
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('returns violation for unlimited approval', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildTransactionRequest({ data: UNLIMITED_APPROVE_DATA }),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([
+        {
+          action: SecurityPolicyAction.Block,
+          policyId: SecurityPolicyType.UnlimitedApproval,
+          type: SecurityPolicyType.UnlimitedApproval,
+        },
+      ]);
+    });
+
+    it('returns no violations for limited approval', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildTransactionRequest({
+            data: buildApproveTransactionData(ADDRESS_MOCK, 123),
+          }),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('returns violation for unlimited permit', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildPermitRequest(BigInt(MAX_UINT256).toString()),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([
+        expect.objectContaining({
+          type: SecurityPolicyType.UnlimitedApproval,
+        }),
+      ]);
+    });
+
+    it('returns no violations for limited permit', () => {
+      expect(
+        evaluateSecurityPolicies(buildPermitRequest('3000'), POLICIES_MOCK),
+      ).toStrictEqual([]);
+    });
+
+    it('returns violation for batch permit with an unlimited amount', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildPermitBatchRequest(['3000', BigInt(MAX_UINT256).toString()]),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([
+        expect.objectContaining({
+          type: SecurityPolicyType.UnlimitedApproval,
+        }),
+      ]);
+    });
+
+    it('returns no violations for batch permit with limited amounts', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildPermitBatchRequest(['3000', '4000']),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('returns violation for approval for all to operator not in allowlist', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildTransactionRequest({
+            data: buildSetApproveForAllTransactionData(OPERATOR_MOCK, true),
+          }),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([
+        {
+          action: SecurityPolicyAction.Block,
+          policyId: SecurityPolicyType.ApprovalForAllOperator,
+          type: SecurityPolicyType.ApprovalForAllOperator,
+        },
+      ]);
+    });
+
+    it('returns no violations for approval for all to operator in allowlist', () => {
+      const policies = POLICIES_MOCK.map((policy) =>
+        policy.type === SecurityPolicyType.ApprovalForAllOperator
+          ? { ...policy, allowedOperators: [OPERATOR_MOCK as Hex] }
+          : policy,
+      );
+
+      expect(
+        evaluateSecurityPolicies(
+          buildTransactionRequest({
+            data: buildSetApproveForAllTransactionData(OPERATOR_MOCK, true),
+          }),
+          policies,
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('returns no violations for revoking approval for all', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildTransactionRequest({
+            data: buildSetApproveForAllTransactionData(OPERATOR_MOCK, false),
+          }),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([]);
+    });
+
+    it('returns violation if value exceeds threshold', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildTransactionRequest({ value: '0x8ac7230489e80001' }),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([
+        {
+          action: SecurityPolicyAction.RequireAcknowledgement,
+          policyId: SecurityPolicyType.NativeValueThreshold,
+          type: SecurityPolicyType.NativeValueThreshold,
+        },
+      ]);
+    });
+
+    it('returns no violations if value equals threshold', () => {
+      expect(
+        evaluateSecurityPolicies(
+          buildTransactionRequest({ value: '0x8ac7230489e80000' }),
+          POLICIES_MOCK,
+        ),
+      ).toStrictEqual([]);
+    });
+  });
+
+  describe('serializeSecurityPolicies', () => {
+    it('returns versioned JSON document', () => {
+      expect(
+        JSON.parse(serializeSecurityPolicies(DEFAULT_SECURITY_POLICIES)),
+      ).toStrictEqual({ version: 1, policies: DEFAULT_SECURITY_POLICIES });
+    });
+  });
+
+  describe('parseSecurityPolicies', () => {
+    it('returns policies of exported document', () => {
+      expect(
+        parseSecurityPolicies(serializeSecurityPolicies(POLICIES_MOCK)),
+      ).toStrictEqual(POLICIES_MOCK);
+    });
+
+    it('lowercases allowed operators', () => {
+      const [policy] = parseSecurityPolicies(
+        JSON.stringify({
+          version: 1,
+          policies: [
+            {
+              id: SecurityPolicyType.ApprovalForAllOperator,
+              type: SecurityPolicyType.ApprovalForAllOperator,
+              action: SecurityPolicyAction.Block,
+              enabled: true,
+              allowedOperators: [`0x${OPERATOR_MOCK.slice(2).toUpperCase()}`],
+            },
+          ],
+        }),
+      );
+
+      expect(policy).toStrictEqual(
+        expect.objectContaining({ allowedOperators: [OPERATOR_MOCK] }),
+      );
+    });
+
+    it('throws if document is not JSON', () => {
+      expect(() => parseSecurityPolicies('{')).toThrow(
+        'Security policies file is not valid JSON.',
+      );
+    });
+
+    it('throws if version is not supported', () => {
+      expect(() =>
+        parseSecurityPolicies(JSON.stringify({ version: 2, policies: [] })),
+      ).toThrow('Unsupported security policies file version.');
+    });
+
+    it('throws if policy is invalid', () => {
+      expect(() =>
+        parseSecurityPolicies(
+          JSON.stringify({
+            version: 1,
+            policies: [
+              {
+                ...DEFAULT_SECURITY_POLICIES[2],
+                maxValue: '10 ETH',
+              },
+            ],
+          }),
+        ),
+      ).toThrow('Security policies file contains an invalid policy.');
+    });
+  });
+
+  describe('validateSecurityPolicies', () => {
+    it('returns valid policies', () => {
+      expect(validateSecurityPolicies(POLICIES_MOCK)).toStrictEqual(
+        POLICIES_MOCK,
+      );
+    });
+
+    it('throws if policies are not a list', () => {
+      expect(() => validateSecurityPolicies(POLICIES_MOCK[0])).toThrow(
+        'Invalid security policies.',
+      );
+    });
+
+    it('throws if policy is invalid', () => {
+      expect(() =>
+        validateSecurityPolicies([
+          { ...POLICIES_MOCK[1], allowedOperators: ['operator'] },
+        ]),
+      ).toThrow('Invalid security policies.');
+    });
+  });
+
+  describe('hasBlockingViolation', () => {
+    it('returns true if a violation blocks the request', () => {
+      expect(
+        hasBlockingViolation([
+          {
+            action: SecurityPolicyAction.RequireAcknowledgement,
+            policyId: SecurityPolicyType.NativeValueThreshold,
+            type: SecurityPolicyType.NativeValueThreshold,
+          },
+          {
+            action: SecurityPolicyAction.Block,
+            policyId: SecurityPolicyType.UnlimitedApproval,
+            type: SecurityPolicyType.UnlimitedApproval,
+          },
+        ]),
+      ).toBe(true);
+    });
+
+    it('returns false if no violation blocks the request', () => {
+      expect(hasBlockingViolation([])).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,340 @@
+import { providerErrors } from '@metamask/rpc-errors';
+import {
+  isObject,
+  isStrictHexString,
+  type Hex,
+  type JsonRpcRequest,
+} from '@metamask/utils';
+import { BigNumber } from 'bignumber.js';
+import { MESSAGE_TYPE } from '../constants/app';
+import {
+  ApprovalForAllOperatorPolicy,
+  NativeValueThresholdPolicy,
+  SECURITY_POLICIES_EXPORT_VERSION,
+  SecurityPolicy,
+  SecurityPolicyAction,
+  SecurityPolicyType,
+  SecurityPolicyViolation,
+  UNLIMITED_APPROVAL_RAW_THRESHOLD,
+} from '../constants/security-policy';
+import { PrimaryTypePermit } from '../constants/signatures';
+import { isValidHexAddress, stripHexPrefix } from '../modules/hexstring-utils';
+import {
+  parseApprovalTransactionData,
+  parseTypedDataMessage,
+} from '../modules/transaction.utils';
+
+type TransactionRequestParams = {
+  data?: Hex;
+  to?: Hex;
+  value?: Hex;
+};
+
+type PolicyRequest = Pick<JsonRpcRequest, 'method' | 'params'>;
+
+type PolicyEvaluator<Policy extends SecurityPolicy> = (
+  policy: Policy,
+  request: PolicyRequest,
+) => boolean;
+
+const TYPED_SIGN_METHODS: string[] = [
+  MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V3,
+  MESSAGE_TYPE.ETH_SIGN_TYPED_DATA_V4,
+];
+
+function getTransactionParams(
+  request: PolicyRequest,
+): TransactionRequestParams | undefined {
+  if (
+    request.method !== MESSAGE_TYPE.ETH_SEND_TRANSACTION ||
+    !Array.isArray(request.params)
+  ) {
+    return undefined;
+  }
+
+  return request.params[0] as TransactionRequestParams | undefined;
+}
+
+function getPermitAmounts(request: PolicyRequest): (string | undefined)[] {
+  if (
+    !TYPED_SIGN_METHODS.includes(request.method) ||
+    !Array.isArray(request.params) ||
+    !request.params[1]
+  ) {
+    return [];
+  }
+
+  try {
+    const { message, primaryType } = parseTypedDataMessage(
+      request.params[1] as string,
+    );
+
+    if (primaryType === PrimaryTypePermit.Permit) {
+      return [message?.value?.toString()];
+    }
+
+    if (primaryType === PrimaryTypePermit.PermitSingle) {
+      return [message?.details?.amount?.toString()];
+    }
+
+    if (
+      primaryType === PrimaryTypePermit.PermitBatch &&
+      Array.isArray(message?.details)
+    ) {
+      return message.details.map((details: { amount?: string | number }) =>
+        details?.amount?.toString(),
+      );
+    }
+  } catch {
+    // Malformed typed data is reported by the signature controller.
+  }
+
+  return [];
+}
+
+/**
+ * Determines if a raw token amount is large enough to be considered unlimited.
+ *
+ * @param amount - The raw token amount.
+ * @returns True if the amount is at or above the unlimited threshold.
+ */
+export function isUnlimitedAmount(amount?: string | BigNumber): boolean {
+  if (amount === undefined) {
+    return false;
+  }
+
+  const value = new BigNumber(amount.toString());
+
+  return value.isFinite() && value.gte(UNLIMITED_APPROVAL_RAW_THRESHOLD);
+}
+
+const evaluateUnlimitedApproval: PolicyEvaluator<SecurityPolicy> = (
+  _policy,
+  request,
+) => {
+  const transactionParams = getTransactionParams(request);
+
+  if (transactionParams?.data) {
+    const approval = parseApprovalTransactionData(transactionParams.data);
+
+    if (approval?.name === 'setApprovalForAll') {
+      return false;
+    }
+
+    return isUnlimitedAmount(approval?.amountOrTokenId);
+  }
+
+  return getPermitAmounts(request).some(isUnlimitedAmount);
+};
+
+const evaluateApprovalForAllOperator: PolicyEvaluator<
+  ApprovalForAllOperatorPolicy
+> = (policy, request) => {
+  const data = getTransactionParams(request)?.data;
+
+  if (!data) {
+    return false;
+  }
+
+  const approval = parseApprovalTransactionData(data);
+
+  if (!approval?.isApproveAll || !approval.spender) {
+    return false;
+  }
+
+  return !policy.allowedOperators.some(
+    (operator) => operator.toLowerCase() === approval.spender?.toLowerCase(),
+  );
+};
+
+const evaluateNativeValueThreshold: PolicyEvaluator<
+  NativeValueThresholdPolicy
+> = (policy, request) => {
+  const value = getTransactionParams(request)?.value;
+
+  if (!value) {
+    return false;
+  }
+
+  return new BigNumber(stripHexPrefix(value), 16).gt(
+    new BigNumber(stripHexPrefix(policy.maxValue), 16),
+  );
+};
+
+function evaluatePolicy(
+  policy: SecurityPolicy,
+  request: PolicyRequest,
+): boolean {
+  switch (policy.type) {
+    case SecurityPolicyType.UnlimitedApproval:
+      return evaluateUnlimitedApproval(policy, request);
+    case SecurityPolicyType.ApprovalForAllOperator:
+      return evaluateApprovalForAllOperator(policy, request);
+    case SecurityPolicyType.NativeValueThreshold:
+      return evaluateNativeValueThreshold(policy, request);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Evaluates the enabled user-defined security policies against a normalized
+ * JSON-RPC confirmation request.
+ *
+ * @param request - The normalized request, as sent to the security provider.
+ * @param policies - The user-defined security policies.
+ * @returns The violations for each enabled policy matching the request.
+ */
+export function evaluateSecurityPolicies(
+  request: PolicyRequest,
+  policies: SecurityPolicy[] = [],
+): SecurityPolicyViolation[] {
+  return policies
+    .filter((policy) => policy.enabled && evaluatePolicy(policy, request))
+    .map(({ action, id, type }) => ({ action, policyId: id, type }));
+}
+
+/**
+ * Serializes the security policies into a versioned JSON document.
+ *
+ * @param policies - The security policies to export.
+ * @returns The JSON document.
+ */
+export function serializeSecurityPolicies(policies: SecurityPolicy[]): string {
+  return JSON.stringify(
+    { version: SECURITY_POLICIES_EXPORT_VERSION, policies },
+    null,
+    2,
+  );
+}
+
+/**
+ * Checks if any of the violations is for a policy that blocks the request.
+ *
+ * @param policyViolations - The security policy violations of a request.
+ * @returns True if the request must be rejected.
+ */
+export function hasBlockingViolation(
+  policyViolations: SecurityPolicyViolation[] = [],
+): boolean {
+  return policyViolations.some(
+    ({ action }) => action === SecurityPolicyAction.Block,
+  );
+}
+
+/**
+ * Creates the error a request is rejected with when it violates a blocking
+ * security policy.
+ *
+ * @param policyViolations - The security policy violations of the request.
+ * @returns The JSON-RPC error.
+ */
+export function createSecurityPolicyBlockedError(
+  policyViolations: SecurityPolicyViolation[],
+) {
+  return providerErrors.unauthorized({
+    message: 'Request blocked by security policy.',
+    data: {
+      policyIds: policyViolations
+        .filter(({ action }) => action === SecurityPolicyAction.Block)
+        .map(({ policyId }) => policyId),
+    },
+  });
+}
+
+function isSecurityPolicy(value: unknown): value is SecurityPolicy {
+  if (
+    !isObject(value) ||
+    typeof value.id !== 'string' ||
+    typeof value.enabled !== 'boolean' ||
+    !Object.values(SecurityPolicyAction).includes(
+      value.action as SecurityPolicyAction,
+    )
+  ) {
+    return false;
+  }
+
+  switch (value.type) {
+    case SecurityPolicyType.UnlimitedApproval:
+      return true;
+    case SecurityPolicyType.ApprovalForAllOperator:
+      return (
+        Array.isArray(value.allowedOperators) &&
+        value.allowedOperators.every(
+          (operator) =>
+            typeof operator === 'string' &&
+            isValidHexAddress(operator, { allowNonPrefixed: false }),
+        )
+      );
+    case SecurityPolicyType.NativeValueThreshold:
+      return isStrictHexString(value.maxValue);
+    default:
+      return false;
+  }
+}
+
+function isSecurityPolicyList(value: unknown): value is SecurityPolicy[] {
+  return Array.isArray(value) && value.every(isSecurityPolicy);
+}
+
+function normalizeSecurityPolicies(
+  policies: SecurityPolicy[],
+): SecurityPolicy[] {
+  return policies.map((policy) =>
+    policy.type === SecurityPolicyType.ApprovalForAllOperator
+      ? {
+          ...policy,
+          allowedOperators: policy.allowedOperators.map(
+            (operator) => operator.toLowerCase() as Hex,
+          ),
+        }
+      : policy,
+  );
+}
+
+/**
+ * Validates security policies received from the UI before they are persisted.
+ *
+ * @param policies - The security policies to validate.
+ * @returns The security policies, with lowercase allowed operators.
+ * @throws If any of the policies is invalid.
+ */
+export function validateSecurityPolicies(policies: unknown): SecurityPolicy[] {
+  if (!isSecurityPolicyList(policies)) {
+    throw new Error('Invalid security policies.');
+  }
+
+  return normalizeSecurityPolicies(policies);
+}
+
+/**
+ * Parses security policies exported with `serializeSecurityPolicies`.
+ *
+ * @param json - The JSON document.
+ * @returns The security policies.
+ * @throws If the document is not valid JSON or contains invalid policies.
+ */
+export function parseSecurityPolicies(json: string): SecurityPolicy[] {
+  let document: unknown;
+
+  try {
+    document = JSON.parse(json);
+  } catch {
+    throw new Error('Security policies file is not valid JSON.');
+  }
+
+  if (
+    !isObject(document) ||
+    document.version !== SECURITY_POLICIES_EXPORT_VERSION
+  ) {
+    throw new Error('Unsupported security policies file version.');
+  }
+
+  const { policies } = document;
+
+  if (!isSecurityPolicyList(policies)) {
+    throw new Error('Security policies file contains an invalid policy.');
+  }
+
+  return normalizeSecurityPolicies(policies);
+}
@@ -0,0 +1,139 @@
+import type { DelegationEntry } from '@metamask/delegation-controller';
+import type { DeleGatorEnvironment } from './delegation';
+import {
+  SPENDING_ALLOWANCE_TAG,
+  SpendingAllowancePeriod,
+  createSpendingAllowanceDelegation,
+  getSpendingAllowanceGrants,
+  parseSpendingAllowanceMetadata,
+} from './spending-allowance';
+
+const FROM_MOCK = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+const TO_MOCK = '0x2f6fc5e27628158758ae4688bba809c62713d152';
+const TOKEN_MOCK = '0x1234567890123456789012345678901234567890';
+const ENFORCER_MOCK = '0xabcdefabcdefabcdefabcdefabcdefabcdefabcd';
+
+const ENVIRONMENT_MOCK = {
+  caveatEnforcers: {
+    MultiTokenPeriodEnforcer: ENFORCER_MOCK,
+  },
+} as unknown as DeleGatorEnvironment;
+
+const METADATA_MOCK = {
+  origin: 'https://metamask.github.io',
+  token: TOKEN_MOCK,
+  symbol: 'USDC',
+  decimals: 6,
+  periodAmount: '0x2faf080',
+  period: SpendingAllowancePeriod.Week,
+  startDate: 1700000000,
+} as const;
+
+describe('Spending Allowance Utils', () => {
+  describe('createSpendingAllowanceDelegation', () => {
+    it('returns unsigned delegation with multi token period caveat', () => {
+      const delegation = createSpendingAllowanceDelegation({
+        environment: ENVIRONMENT_MOCK,
+        from: FROM_MOCK,
+        to: TO_MOCK,
+        allowance: METADATA_MOCK,
+      });
+
+      expect(delegation).not.toHaveProperty('signature');
+      expect(delegation.delegator).toBe(FROM_MOCK);
+      expect(delegation.delegate).toBe(TO_MOCK);
+      expect(delegation.caveats).toStrictEqual([
+        {
+          enforcer: ENFORCER_MOCK,
+          args: '0x',
+          terms: `${TOKEN_MOCK}${[0x2faf080, 604800, 1700000000]
+            .map((value) => value.toString(16).padStart(64, '0'))
+            .join('')}`,
+        },
+      ]);
+    });
+  });
+
+  describe('parseSpendingAllowanceMetadata', () => {
+    it('returns metadata', () => {
+      expect(
+        parseSpendingAllowanceMetadata(JSON.stringify(METADATA_MOCK)),
+      ).toStrictEqual(METADATA_MOCK);
+    });
+
+    it('returns undefined if meta is missing', () => {
+      expect(parseSpendingAllowanceMetadata(undefined)).toBeUndefined();
+    });
+
+    it('returns undefined if meta is not JSON', () => {
+      expect(parseSpendingAllowanceMetadata('invalid')).toBeUndefined();
+    });
+
+    it('returns undefined if period is not supported', () => {
+      expect(
+        parseSpendingAllowanceMetadata(
+          JSON.stringify({ ...METADATA_MOCK, period: 'year' }),
+        ),
+      ).toBeUndefined();
+    });
+  });
+
+  describe('getSpendingAllowanceGrants', () => {
+    const ENTRY_MOCK = {
+      chainId: '0x1',
+      delegation: {
+        delegate: TO_MOCK,
+        delegator: FROM_MOCK,
+        authority:
+          '0xffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff',
+        caveats: [],
+        salt: '0x1',
+        signature: '0xabcd',
+      },
+      tags: [SPENDING_ALLOWANCE_TAG],
+      meta: JSON.stringify(METADATA_MOCK),
+    } as DelegationEntry;
+
+    it('returns allowances granted to the origin by its accounts', () => {
+      expect(
+        getSpendingAllowanceGrants([ENTRY_MOCK], {
+          origin: METADATA_MOCK.origin,
+          accounts: [FROM_MOCK],
+        }),
+      ).toStrictEqual([
+        {
+          allowance: METADATA_MOCK,
+          chainId: ENTRY_MOCK.chainId,
+          delegation: ENTRY_MOCK.delegation,
+        },
+      ]);
+    });
+
+    it('ignores allowances granted to other origins', () => {
+      expect(
+        getSpendingAllowanceGrants([ENTRY_MOCK], {
+          origin: 'https://other.site',
+          accounts: [FROM_MOCK],
+        }),
+      ).toStrictEqual([]);
+    });
+
+    it('ignores allowances granted by accounts the origin is not connected to', () => {
+      expect(
+        getSpendingAllowanceGrants([ENTRY_MOCK], {
+          origin: METADATA_MOCK.origin,
+          accounts: [TO_MOCK],
+        }),
+      ).toStrictEqual([]);
+    });
+
+    it('ignores delegations that are not spending allowances', () => {
+      expect(
+        getSpendingAllowanceGrants([{ ...ENTRY_MOCK, tags: [] }], {
+          origin: METADATA_MOCK.origin,
+          accounts: [FROM_MOCK],
+        }),
+      ).toStrictEqual([]);
+    });
+  });
+});
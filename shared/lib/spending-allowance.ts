@@ -0,0 +1,172 @@
+import type { DelegationEntry } from '@metamask/delegation-controller';
+import { Hex, hexToBigInt } from '@metamask/utils';
+import {
+  createCaveatBuilder,
+  createDelegation,
+  type DeleGatorEnvironment,
+  type UnsignedDelegation,
+} from './delegation';
+import { multiTokenPeriod } from './delegation/caveatBuilder/multiTokenPeriod';
+import { isHexEqual } from './delegation/utils';
+
+/**
+ * Tag of delegation entries created as spending allowances for sites.
+ */
+export const SPENDING_ALLOWANCE_TAG = 'spending-allowance';
+
+export enum SpendingAllowancePeriod {
+  Day = 'day',
+  Week = 'week',
+  Month = 'month',
+}
+
+const SECONDS_PER_DAY = 24 * 60 * 60;
+
+/**
+ * Duration in seconds of each period after which the allowance is reset.
+ */
+export const SPENDING_ALLOWANCE_PERIOD_DURATIONS: Record<
+  SpendingAllowancePeriod,
+  number
+> = {
+  [SpendingAllowancePeriod.Day]: SECONDS_PER_DAY,
+  [SpendingAllowancePeriod.Week]: 7 * SECONDS_PER_DAY,
+  [SpendingAllowancePeriod.Month]: 30 * SECONDS_PER_DAY,
+};
+
+/**
+ * Details of a spending allowance stored in the `meta` of its delegation
+ * entry, so it can be displayed without decoding the caveat terms.
+ */
+export type SpendingAllowanceMetadata = {
+  origin: string;
+  token: Hex;
+  symbol: string;
+  decimals: number;
+  periodAmount: Hex;
+  period: SpendingAllowancePeriod;
+  startDate: number;
+};
+
+/**
+ * Creates an unsigned delegation allowing the delegate to transfer up to the
+ * period amount of a token from the delegator within each period.
+ *
+ * @param request - The request object.
+ * @param request.environment - The DeleGator environment of the chain.
+ * @param request.from - The address of the delegator.
+ * @param request.to - The address of the delegate.
+ * @param request.allowance - The details of the allowance.
+ * @returns The unsigned delegation.
+ */
+export function createSpendingAllowanceDelegation({
+  environment,
+  from,
+  to,
+  allowance,
+}: {
+  environment: DeleGatorEnvironment;
+  from: Hex;
+  to: Hex;
+  allowance: Pick<
+    SpendingAllowanceMetadata,
+    'token' | 'periodAmount' | 'period' | 'startDate'
+  >;
+}): UnsignedDelegation {
+  const { token, periodAmount, period, startDate } = allowance;
+
+  const caveats = createCaveatBuilder(environment).addCaveat(multiTokenPeriod, [
+    {
+      token,
+      periodAmount: hexToBigInt(periodAmount),
+      periodDuration: SPENDING_ALLOWANCE_PERIOD_DURATIONS[period],
+      startDate,
+    },
+  ]);
+
+  const { signature, ...delegation } = createDelegation({
+    from,
+    to,
+    caveats,
+  });
+
+  return delegation;
+}
+
+/**
+ * Parses the `meta` of a spending allowance delegation entry.
+ *
+ * @param meta - The `meta` of the delegation entry.
+ * @returns The spending allowance details, or undefined if invalid.
+ */
+export function parseSpendingAllowanceMetadata(
+  meta: string | undefined,
+): SpendingAllowanceMetadata | undefined {
+  if (!meta) {
+    return undefined;
+  }
+
+  try {
+    const parsed = JSON.parse(meta);
+
+    if (
+      typeof parsed?.origin !== 'string' ||
+      typeof parsed.token !== 'string' ||
+      !Object.values(SpendingAllowancePeriod).includes(parsed.period)
+    ) {
+      return undefined;
+    }
+
+    return parsed as SpendingAllowanceMetadata;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * A signed spending allowance delegation, as returned to the site it was
+ * granted to so that it can redeem it.
+ */
+export type SpendingAllowanceGrant = {
+  allowance: SpendingAllowanceMetadata;
+  chainId: Hex;
+  delegation: DelegationEntry['delegation'];
+};
+
+/**
+ * Gets the spending allowances granted to a site by the accounts it is
+ * connected to.
+ *
+ * @param entries - All delegation entries.
+ * @param request - The request object.
+ * @param request.origin - The origin of the site.
+ * @param request.accounts - The accounts the site is connected to.
+ * @returns The signed spending allowance delegations granted to the site.
+ */
+export function getSpendingAllowanceGrants(
+  entries: DelegationEntry[],
+  { origin, accounts }: { origin: string; accounts: Hex[] },
+): SpendingAllowanceGrant[] {
+  return entries.reduce<SpendingAllowanceGrant[]>((result, entry) => {
+    if (!entry.tags.includes(SPENDING_ALLOWANCE_TAG)) {
+      return result;
+    }
+
+    const allowance = parseSpendingAllowanceMetadata(entry.meta);
+
+    if (
+      allowance?.origin === origin &&
+      accounts.some((account) =>
+        isHexEqual(account, entry.delegation.delegator),
+      )
+    ) {
+      result.push({
+        allowance,
+        chainId: entry.chainId,
+        delegation: entry.delegation,
+      });
+    }
+
+    return result;
+  }, []);
+}
@@ -1,4 +1,5 @@
 import { CHAIN_IDS } from '../constants/network';
+import type { SecurityProviderAttribution } from '../constants/security-provider';
 
 // Security Alerts API supported chains sorted alphabetically
 export enum SupportedEVMChain {
@@ -111,6 +112,8 @@ export type ScanAddressResponse = {
   // eslint-disable-next-line @typescript-eslint/naming-convention
   result_type: ResultType;
   label: string;
+  /** The providers whose results were merged, the selected result first. */
+  providers?: SecurityProviderAttribution[];
 };
 
 export type CachedScanAddressResponse = ScanAddressResponse & {
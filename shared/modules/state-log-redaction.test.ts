@@ -0,0 +1,246 @@
+import { redactStateLog } from './state-log-redaction';
+
+const SALT_MOCK = 'salt';
+const ADDRESS_MOCK = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+const CHECKSUM_ADDRESS_MOCK = '0x0DCD5D886577d5081B0c52e242Ef29E70Be3E7bc';
+const ORIGIN_MOCK = 'https://metamask.github.io';
+
+describe('redactStateLog', () => {
+  it('pseudonymizes addresses consistently within an export', () => {
+    const { state, manifest } = redactStateLog(
+      {
+        metamask: {
+          selectedAddress: ADDRESS_MOCK,
+          accounts: { [CHECKSUM_ADDRESS_MOCK]: { address: ADDRESS_MOCK } },
+        },
+      },
+      SALT_MOCK,
+    );
+
+    const { metamask } = state as {
+      metamask: {
+        selectedAddress: string;
+        accounts: Record<string, { address: string }>;
+      };
+    };
+    const pseudonym = metamask.selectedAddress;
+
+    expect(pseudonym).toMatch(/^\[address:[0-9a-f]{12}\]$/u);
+    expect(metamask.accounts).toStrictEqual({
+      [pseudonym]: { address: pseudonym },
+    });
+    expect(manifest.pseudonymizedAddresses).toBe(1);
+    expect(JSON.stringify(state)).not.toContain(ADDRESS_MOCK.slice(2));
+  });
+
+  it('derives different pseudonyms with a different salt', () => {
+    const { state: first } = redactStateLog({ address: ADDRESS_MOCK }, 'one');
+    const { state: second } = redactStateLog({ address: ADDRESS_MOCK }, 'two');
+
+    expect(first.address).not.toBe(second.address);
+  });
+
+  it('pseudonymizes addresses in CAIP account IDs and in text', () => {
+    const { state } = redactStateLog(
+      {
+        accountId: `eip155:1:${ADDRESS_MOCK}`,
+        solanaAccountId:
+          'solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:4Nd1mBQtrMJVYVfKf2PJy9NZUZdTAsp7D4xWLs4gDB4T',
+        message: `Sent from ${ADDRESS_MOCK}.`,
+      },
+      SALT_MOCK,
+    );
+
+    expect(state.accountId).toMatch(/^eip155:1:\[address:[0-9a-f]{12}\]$/u);
+    expect(state.solanaAccountId).toMatch(
+      /^solana:5eykt4UsFv8P8NJdTREpY1vzqKqZKvdp:\[address:[0-9a-f]{12}\]$/u,
+    );
+    expect(state.message).toMatch(/^Sent from \[address:[0-9a-f]{12}\]\.$/u);
+  });
+
+  it('pseudonymizes origins and drops URL paths', () => {
+    const { state, manifest } = redactStateLog(
+      {
+        subjects: { [ORIGIN_MOCK]: { origin: ORIGIN_MOCK } },
+        rpcUrl: 'https://mainnet.infura.io/v3/secret-key',
+      },
+      SALT_MOCK,
+    );
+
+    const [origin] = Object.keys(state.subjects as object);
+
+    expect(origin).toMatch(/^\[origin:[0-9a-f]{12}\]$/u);
+    expect(state.subjects).toStrictEqual({ [origin]: { origin } });
+    expect(state.rpcUrl).toMatch(/^\[origin:[0-9a-f]{12}\]$/u);
+    expect(manifest.pseudonymizedOrigins).toBe(2);
+  });
+
+  it('pseudonymizes host-only origins in maps keyed by origin', () => {
+    const { state, manifest } = redactStateLog(
+      {
+        metamask: {
+          domains: { 'example.com': 'mainnet' },
+          subjects: {
+            'example.com': { origin: 'example.com' },
+            'npm:@metamask/example-snap': {
+              origin: 'npm:@metamask/example-snap',
+            },
+          },
+          appActiveTab: { host: 'example.com' },
+        },
+      },
+      SALT_MOCK,
+    );
+
+    const { metamask } = state as { metamask: Record<string, object> };
+    const [origin] = Object.keys(metamask.domains);
+
+    expect(origin).toMatch(/^\[origin:[0-9a-f]{12}\]$/u);
+    expect(metamask).toStrictEqual({
+      domains: { [origin]: 'mainnet' },
+      subjects: {
+        [origin]: { origin },
+        'npm:@metamask/example-snap': {
+          origin: 'npm:@metamask/example-snap',
+        },
+      },
+      appActiveTab: { host: origin },
+    });
+    expect(JSON.stringify(state)).not.toContain('example.com');
+    expect(manifest.pseudonymizedOrigins).toBe(1);
+  });
+
+  it('buckets balances', () => {
+    const { state, manifest } = redactStateLog(
+      {
+        accountsByChainId: {
+          '0x1': { [ADDRESS_MOCK]: { balance: '0xde0b6b3a7640000' } },
+        },
+        balances: { account: { amount: '12.5', zero: '0x0' } },
+        currentBalance: 0.05,
+        hideZeroBalanceTokens: true,
+      },
+      SALT_MOCK,
+    );
+
+    const accounts = (state.accountsByChainId as Record<string, object>)['0x1'];
+
+    expect(Object.values(accounts)).toStrictEqual([
+      { balance: '[1e18, 1e19)' },
+    ]);
+    expect(state).toStrictEqual({
+      accountsByChainId: { '0x1': accounts },
+      balances: { account: { amount: '[1e1, 1e2)', zero: '0' } },
+      currentBalance: '[1e-2, 1e-1)',
+      hideZeroBalanceTokens: true,
+    });
+    expect(manifest.bucketedBalances).toBe(4);
+  });
+
+  it('removes account tree names', () => {
+    const { state, manifest } = redactStateLog(
+      {
+        metamask: {
+          accountGroupsMetadata: {
+            'entropy:wallet/0': {
+              name: { value: 'Savings', lastUpdatedAt: 1 },
+            },
+          },
+          accountWalletsMetadata: {
+            'entropy:wallet': { name: { value: 'Family', lastUpdatedAt: 1 } },
+          },
+          accountTree: {
+            wallets: {
+              'entropy:wallet': {
+                id: 'entropy:wallet',
+                metadata: { name: 'Family', entropy: { id: 'wallet' } },
+                groups: {
+                  'entropy:wallet/0': {
+                    id: 'entropy:wallet/0',
+                    metadata: { name: 'Savings', pinned: false },
+                  },
+                },
+              },
+            },
+          },
+        },
+      },
+      SALT_MOCK,
+    );
+
+    expect(state).toStrictEqual({
+      metamask: {
+        accountGroupsMetadata: { 'entropy:wallet/0': {} },
+        accountWalletsMetadata: { 'entropy:wallet': {} },
+        accountTree: {
+          wallets: {
+            'entropy:wallet': {
+              id: 'entropy:wallet',
+              metadata: { entropy: { id: 'wallet' } },
+              groups: {
+                'entropy:wallet/0': {
+                  id: 'entropy:wallet/0',
+                  metadata: { pinned: false },
+                },
+              },
+            },
+          },
+        },
+      },
+    });
+    expect(manifest.removedFields).toStrictEqual([
+      'metamask.accountGroupsMetadata.entropy:wallet/0.name',
+      'metamask.accountWalletsMetadata.entropy:wallet.name',
+      'metamask.accountTree.wallets.entropy:wallet.metadata.name',
+      'metamask.accountTree.wallets.entropy:wallet.groups.entropy:wallet/0.metadata.name',
+    ]);
+  });
+
+  it('removes free text fields and lists them in the manifest', () => {
+    const { state, manifest } = redactStateLog(
+      {
+        metamask: {
+          names: { ethereumAddress: {} },
+          addressBook: {
+            '0x1': {
+              [ADDRESS_MOCK]: {
+                address: ADDRESS_MOCK,
+                chainId: '0x1',
+                name: 'Alice',
+                memo: 'Rent',
+              },
+            },
+          },
+          internalAccounts: {
+            accounts: {
+              id: { id: 'id', metadata: { name: 'Savings', importTime: 1 } },
+            },
+          },
+          tokenList: {},
+        },
+      },
+      SALT_MOCK,
+    );
+
+    const { metamask } = state as { metamask: Record<string, unknown> };
+    const [pseudonym] = Object.keys(
+      (metamask.addressBook as Record<string, object>)['0x1'],
+    );
+
+    expect(metamask).toStrictEqual({
+      addressBook: {
+        '0x1': { [pseudonym]: { address: pseudonym, chainId: '0x1' } },
+      },
+      internalAccounts: {
+        accounts: { id: { id: 'id', metadata: { importTime: 1 } } },
+      },
+    });
+    expect(manifest.removedFields).toStrictEqual([
+      'metamask.names',
+      `metamask.addressBook.0x1.${pseudonym}.name`,
+      `metamask.addressBook.0x1.${pseudonym}.memo`,
+      'metamask.internalAccounts.accounts.id.metadata.name',
+      'metamask.tokenList',
+    ]);
+  });
+});
@@ -0,0 +1,398 @@
+import { sha256 } from '@noble/hashes/sha256';
+import {
+  bytesToHex,
+  isCaipAccountId,
+  isObject,
+  parseCaipAccountId,
+  remove0x,
+  stringToBytes,
+} from '@metamask/utils';
+
+/**
+ * Keys that are removed wherever they appear in the state log, as they hold
+ * free text entered by the user or token lists that reveal holdings.
+ */
+const REMOVED_KEYS = new Set([
+  'memo',
+  'note',
+  'notes',
+  'nickname',
+  'petname',
+  'socialLoginEmail',
+  'tokenList',
+  'tokensChainsCache',
+  'allTokens',
+  'allDetectedTokens',
+  'allIgnoredTokens',
+]);
+
+/**
+ * Paths of free text fields to remove from the state log.
+ * Using `true` acts as a wildcard to match any key or index at that level.
+ */
+const REMOVED_PATHS: (string | true)[][] = [
+  // NameController petnames
+  ['metamask', 'names'],
+  ['metamask', 'addressBook', true, true, 'name'],
+  ['metamask', 'internalAccounts', 'accounts', true, 'metadata', 'name'],
+  // AccountTreeController
+  ['metamask', 'accountGroupsMetadata', true, 'name'],
+  ['metamask', 'accountWalletsMetadata', true, 'name'],
+  ['metamask', 'accountTree', 'wallets', true, 'metadata', 'name'],
+  [
+    'metamask',
+    'accountTree',
+    'wallets',
+    true,
+    'groups',
+    true,
+    'metadata',
+    'name',
+  ],
+];
+
+/**
+ * Keys whose string values are account addresses, which may not be
+ * recognizable as addresses, e.g. non-EVM addresses.
+ */
+const ADDRESS_KEYS = new Set(['address', 'addresses']);
+
+/**
+ * Keys whose string values are origins or hostnames, which may not be
+ * recognizable as URLs, e.g. `example.com`.
+ */
+const ORIGIN_KEYS = new Set(['origin', 'host', 'hostname']);
+
+/**
+ * Paths of maps keyed by origin, whose keys may not be recognizable as URLs.
+ */
+const ORIGIN_KEYED_PATHS: (string | true)[][] = [
+  // SelectedNetworkController
+  ['metamask', 'domains'],
+  // PermissionController, SubjectMetadataController and PermissionLogController
+  ['metamask', 'subjects'],
+  ['metamask', 'subjectMetadata'],
+  ['metamask', 'permissionHistory'],
+  // AppStateController
+  ['metamask', 'connectionExpiries'],
+  // OriginThrottlingController
+  ['metamask', 'throttledOrigins'],
+  // AlertController
+  ['metamask', 'unconnectedAccountAlertShownOrigins'],
+  ['metamask', 'web3ShimUsageOrigins'],
+];
+
+/**
+ * Origins of MetaMask itself and of Snaps, which are not pseudonymized as
+ * they don't identify the sites visited by the user.
+ */
+const INTERNAL_ORIGIN_REGEX = /^(?:metamask$|npm:|local:)/u;
+
+/**
+ * Numeric values below keys matching this pattern are balances.
+ */
+const BALANCE_KEY_REGEX = /balance/iu;
+
+const EVM_ADDRESS_REGEX = /(?<![0-9a-f])0x[0-9a-f]{40}(?![0-9a-f])/giu;
+
+const URL_REGEX = /\b(?:https?|wss?):\/\/[^\s"'<>]+/giu;
+
+const HEX_NUMBER_REGEX = /^0x[0-9a-f]+$/iu;
+
+const DECIMAL_NUMBER_REGEX = /^\d+(?:\.\d+)?$/u;
+
+const SALT_LENGTH = 16;
+
+const PSEUDONYM_LENGTH = 12;
+
+/**
+ * Describes what was redacted from a state log, so the reader of the log
+ * knows which data is missing or altered.
+ */
+export type StateLogRedactionManifest = {
+  /** The number of unique addresses replaced with pseudonyms. */
+  pseudonymizedAddresses: number;
+
+  /** The number of unique origins replaced with pseudonyms. */
+  pseudonymizedOrigins: number;
+
+  /** The number of balances replaced with their order of magnitude. */
+  bucketedBalances: number;
+
+  /** The paths of the fields that were removed, with pseudonymized keys. */
+  removedFields: string[];
+};
+
+type RedactionContext = {
+  salt: string;
+  addresses: Map<string, string>;
+  origins: Map<string, string>;
+  bucketedBalances: number;
+  removedFields: string[];
+};
+
+/**
+ * Replaces a value with a pseudonym, derived from the value and the salt of
+ * the export. The same value always gets the same pseudonym within an export,
+ * so occurrences can still be correlated, but not across exports.
+ *
+ * @param pseudonyms - The pseudonyms given so far, by value.
+ * @param type - The type of the value, included in the pseudonym.
+ * @param value - The value to replace.
+ * @param salt - The salt of the export.
+ */
+function pseudonymize(
+  pseudonyms: Map<string, string>,
+  type: 'address' | 'origin',
+  value: string,
+  salt: string,
+): string {
+  const normalized = value.toLowerCase();
+  let pseudonym = pseudonyms.get(normalized);
+  if (!pseudonym) {
+    const hash = remove0x(
+      bytesToHex(sha256(stringToBytes(`${salt}:${normalized}`))),
+    );
+    pseudonym = `[${type}:${hash.slice(0, PSEUDONYM_LENGTH)}]`;
+    pseudonyms.set(normalized, pseudonym);
+  }
+  return pseudonym;
+}
+
+/**
+ * Gets the origin of a URL, which is pseudonymized in place of the whole URL.
+ * The path is dropped, as it can hold API keys, e.g. in RPC URLs.
+ *
+ * @param url - The URL.
+ */
+function getOrigin(url: string): string {
+  try {
+    return new URL(url).origin;
+  } catch {
+    return url;
+  }
+}
+
+/**
+ * Pseudonymizes a string known to be an origin, a URL or a bare hostname.
+ *
+ * @param value - The origin to redact.
+ * @param context - The redaction context of the export.
+ */
+function redactOrigin(value: string, context: RedactionContext): string {
+  if (!value || INTERNAL_ORIGIN_REGEX.test(value)) {
+    return value;
+  }
+  return pseudonymize(
+    context.origins,
+    'origin',
+    getOrigin(value),
+    context.salt,
+  );
+}
+
+/**
+ * Pseudonymizes the addresses and URLs in a string.
+ *
+ * @param value - The string to redact.
+ * @param context - The redaction context of the export.
+ * @param isAddress - Whether the whole string is known to be an address.
+ */
+function redactString(
+  value: string,
+  context: RedactionContext,
+  isAddress = false,
+): string {
+  const { salt, addresses, origins } = context;
+
+  if (isCaipAccountId(value)) {
+    const { chainId, address } = parseCaipAccountId(value);
+    return `${chainId}:${pseudonymize(addresses, 'address', address, salt)}`;
+  }
+
+  if (isAddress && value) {
+    return pseudonymize(addresses, 'address', value, salt);
+  }
+
+  return value
+    .replace(URL_REGEX, (url) =>
+      pseudonymize(origins, 'origin', getOrigin(url), salt),
+    )
+    .replace(EVM_ADDRESS_REGEX, (address) =>
+      pseudonymize(addresses, 'address', address, salt),
+    );
+}
+
+/**
+ * Replaces a balance with its order of magnitude, e.g. `0xde0b6b3a7640000`
+ * (10^18) with `[1e18, 1e19)`. Balances are in their smallest unit or in
+ * decimal units depending on the controller, so the bucket has no unit.
+ *
+ * @param value - The balance, as a number, hex string or decimal string.
+ * @returns The bucket, or undefined if the value isn't a balance.
+ */
+function bucketBalance(value: unknown): string | undefined {
+  let magnitude: number;
+
+  if (typeof value === 'string' && HEX_NUMBER_REGEX.test(value)) {
+    const balance = BigInt(value);
+    if (balance === BigInt(0)) {
+      return '0';
+    }
+    magnitude = balance.toString().length - 1;
+  } else if (
+    typeof value === 'number' ||
+    (typeof value === 'string' && DECIMAL_NUMBER_REGEX.test(value))
+  ) {
+    const balance = Number(value);
+    if (!Number.isFinite(balance)) {
+      return undefined;
+    }
+    if (balance === 0) {
+      return '0';
+    }
+    magnitude = Math.floor(Math.log10(Math.abs(balance)));
+  } else {
+    return undefined;
+  }
+
+  return `[1e${magnitude}, 1e${magnitude + 1})`;
+}
+
+/**
+ * Checks if a path matches one of the given paths.
+ *
+ * @param paths - The paths to match, with `true` as a wildcard.
+ * @param path - The path of the field in the state log.
+ */
+function matchesPath(paths: (string | true)[][], path: string[]): boolean {
+  return paths.some(
+    (matchedPath) =>
+      matchedPath.length === path.length &&
+      matchedPath.every((key, index) => key === true || key === path[index]),
+  );
+}
+
+/**
+ * Redacts a value of the state log, recursively.
+ *
+ * @param value - The value to redact.
+ * @param path - The path of the value, with the original keys.
+ * @param redactedPath - The path of the value, with pseudonymized keys.
+ * @param context - The redaction context of the export.
+ * @param isBalance - Whether the value is below a balance key.
+ */
+function redactValue(
+  value: unknown,
+  path: string[],
+  redactedPath: string[],
+  context: RedactionContext,
+  isBalance: boolean,
+): unknown {
+  if (isBalance) {
+    const bucket = bucketBalance(value);
+    if (bucket !== undefined) {
+      context.bucketedBalances += 1;
+      return bucket;
+    }
+  }
+
+  if (typeof value === 'string') {
+    const key = path[path.length - 1];
+    const parentKey = path[path.length - 2];
+    if (ORIGIN_KEYS.has(key)) {
+      return redactOrigin(value, context);
+    }
+    return redactString(
+      value,
+      context,
+      ADDRESS_KEYS.has(key) || ADDRESS_KEYS.has(parentKey),
+    );
+  }
+
+  if (Array.isArray(value)) {
+    return value.map((item, index) =>
+      redactValue(
+        item,
+        [...path, String(index)],
+        [...redactedPath, String(index)],
+        context,
+        isBalance,
+      ),
+    );
+  }
+
+  if (isObject(value)) {
+    const isOriginKeyed = matchesPath(ORIGIN_KEYED_PATHS, path);
+
+    return Object.entries(value).reduce<Record<string, unknown>>(
+      (redacted, [key, child]) => {
+        const childPath = [...path, key];
+        const redactedKey = isOriginKeyed
+          ? redactOrigin(key, context)
+          : redactString(key, context);
+        const childRedactedPath = [...redactedPath, redactedKey];
+
+        if (REMOVED_KEYS.has(key) || matchesPath(REMOVED_PATHS, childPath)) {
+          context.removedFields.push(childRedactedPath.join('.'));
+          return redacted;
+        }
+
+        redacted[redactedKey] = redactValue(
+          child,
+          childPath,
+          childRedactedPath,
+          context,
+          isBalance || BALANCE_KEY_REGEX.test(key),
+        );
+        return redacted;
+      },
+      {},
+    );
+  }
+
+  return value;
+}
+
+/**
+ * Redacts a state log so it can be attached to public bug reports:
+ *
+ * - Addresses and origins are replaced with pseudonyms derived with a random
+ * salt for each export, so they can be correlated within the log only.
+ * - Balances are replaced with their order of magnitude.
+ * - Free text fields, such as memos and petnames, and token lists are
+ * removed.
+ *
+ * @param state - The state log to redact.
+ * @param salt - The salt to derive pseudonyms with. Defaults to a random salt.
+ * @returns The redacted state log, and a manifest of what was redacted.
+ */
+export function redactStateLog(
+  state: Record<string, unknown>,
+  salt: string = bytesToHex(
+    globalThis.crypto.getRandomValues(new Uint8Array(SALT_LENGTH)),
+  ),
+): { state: Record<string, unknown>; manifest: StateLogRedactionManifest } {
+  const context: RedactionContext = {
+    salt,
+    addresses: new Map(),
+    origins: new Map(),
+    bucketedBalances: 0,
+    removedFields: [],
+  };
+
+  const redactedState = redactValue(state, [], [], context, false) as Record<
+    string,
+    unknown
+  >;
+
+  return {
+    state: redactedState,
+    manifest: {
+      pseudonymizedAddresses: context.addresses.size,
+      pseudonymizedOrigins: context.origins.size,
+      bucketedBalances: context.bucketedBalances,
+      removedFields: context.removedFields,
+    },
+  };
+}
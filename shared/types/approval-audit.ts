@@ -0,0 +1,33 @@
+import type { Hex } from '@metamask/utils';
+import type { ResultType } from '../lib/trust-signals';
+
+export enum OutstandingApprovalType {
+  /** ERC-20 `approve` or `increaseAllowance`. */
+  Allowance = 'allowance',
+  /** ERC-721 `approve` of a single token. */
+  TokenApproval = 'token_approval',
+  /** ERC-721 or ERC-1155 `setApprovalForAll`. */
+  ApprovalForAll = 'approval_for_all',
+  /** Allowance granted through the Permit2 contract. */
+  Permit2 = 'permit2',
+}
+
+export type OutstandingApproval = {
+  type: OutstandingApprovalType;
+  tokenAddress: Hex;
+  spender: Hex;
+  /** Remaining raw token amount as a decimal string, for allowances. */
+  amount?: string;
+  /** The approved token ID as a decimal string, for `TokenApproval`. */
+  tokenId?: string;
+  /** Unix timestamp in seconds after which a Permit2 allowance expires. */
+  expiration?: number;
+  /**
+   * The nonce of a signed Permit2 permit that has not been submitted yet, for
+   * `Permit2` allowances granted off-chain.
+   */
+  permitNonce?: number;
+  /** Cached trust-signal result for the spender, if any. */
+  spenderResultType?: ResultType;
+  spenderLabel?: string;
+};
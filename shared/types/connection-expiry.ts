@@ -0,0 +1,6 @@
+import type { ConnectionDuration } from '../constants/connection-expiry';
+
+export type ConnectionExpiry = {
+  duration: ConnectionDuration;
+  expiresAt?: number;
+};
@@ -0,0 +1,39 @@
+import type { Hex } from '@metamask/utils';
+
+/**
+ * Rules enforced when sending to an address book contact.
+ */
+export type ContactGuardRails = {
+  /**
+   * Maximum amount of a single send as a decimal string, in units of the
+   * asset being sent.
+   */
+  maxAmount?: string;
+
+  /**
+   * Lowercase addresses of the tokens that can be sent to the contact, with
+   * the native token represented by the zero address. Any token can be sent
+   * if not set.
+   */
+  allowedTokens?: Hex[];
+
+  /** Whether sends to the contact must be confirmed by holding the button. */
+  requireHoldToConfirm?: boolean;
+};
+
+/**
+ * Guard rails of address book contacts, keyed by chain ID and then lowercase
+ * contact address.
+ */
+export type ContactGuardRailsByChain = Record<
+  Hex,
+  Record<Hex, ContactGuardRails>
+>;
+
+export enum ContactGuardRailViolation {
+  /** The amount being sent is above the maximum of the contact. */
+  MaxAmountExceeded = 'maxAmountExceeded',
+
+  /** The token being sent is not allowed for the contact. */
+  TokenNotAllowed = 'tokenNotAllowed',
+}
@@ -0,0 +1,72 @@
+import type { Hex } from '@metamask/utils';
+
+/**
+ * NatSpec documentation of a contract, as found in the `userdoc` and `devdoc`
+ * sections of the Solidity compiler metadata.
+ */
+export type ContractAbiDoc = {
+  methods: {
+    [signature: string]: {
+      details?: string;
+      notice?: string;
+      params?: { [name: string]: string };
+    };
+  };
+};
+
+/**
+ * A parameter of a JSON ABI fragment, matching `JsonFragmentType` from
+ * `@ethersproject/abi` as a type that can be stored in state.
+ */
+export type ContractAbiFragmentType = {
+  name?: string;
+  indexed?: boolean;
+  type?: string;
+  internalType?: string;
+  components?: ContractAbiFragmentType[];
+};
+
+/**
+ * A JSON ABI fragment, matching `JsonFragment` from `@ethersproject/abi` as a
+ * type that can be stored in state.
+ */
+export type ContractAbiFragment = {
+  name?: string;
+  type?: string;
+  anonymous?: boolean;
+  payable?: boolean;
+  constant?: boolean;
+  stateMutability?: string;
+  inputs?: ContractAbiFragmentType[];
+  outputs?: ContractAbiFragmentType[];
+  gas?: string;
+};
+
+export type ContractAbi = {
+  name?: string;
+  abi: ContractAbiFragment[];
+  devdoc?: ContractAbiDoc;
+  userdoc?: ContractAbiDoc;
+};
+
+export type ContractAbiEntry = ContractAbi & {
+  addedAt: number;
+};
+
+/**
+ * Imported contract ABIs, keyed by chain ID and then lowercase contract
+ * address.
+ */
+export type ContractAbis = Record<Hex, Record<Hex, ContractAbiEntry>>;
+
+/**
+ * Details of an imported contract ABI displayed in the UI, which does not
+ * need the full ABI.
+ */
+export type ContractAbiSummary = Pick<ContractAbiEntry, 'name' | 'addedAt'>;
+
+/**
+ * Summaries of the imported contract ABIs, keyed by chain ID and then
+ * lowercase contract address.
+ */
+export type ContractAbiSummaries = Record<Hex, Record<Hex, ContractAbiSummary>>;
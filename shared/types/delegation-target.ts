@@ -0,0 +1,42 @@
+import type { Hex } from '@metamask/utils';
+
+export enum DelegationTargetSource {
+  MetaMask = 'metamask',
+  User = 'user',
+}
+
+/**
+ * A contract trusted as the target of an EIP-7702 delegation, pinned to the
+ * hash of its code when it was first trusted.
+ */
+export type DelegationTarget = {
+  name: string;
+  codeHash: Hex;
+  source: DelegationTargetSource;
+  addedAt: number;
+};
+
+/**
+ * Trusted delegation targets, keyed by chain ID and then lowercase contract
+ * address.
+ */
+export type DelegationTargets = Record<Hex, Record<Hex, DelegationTarget>>;
+
+export enum DelegationTargetStatus {
+  /** The target is trusted and its code matches the pinned hash. */
+  Trusted = 'trusted',
+
+  /** The target is trusted but its code no longer matches the pinned hash. */
+  CodeChanged = 'codeChanged',
+
+  /** The target is not in the registry. */
+  Unknown = 'unknown',
+}
+
+export type DelegationTargetReview = {
+  address: Hex;
+  codeHash?: Hex;
+  name?: string;
+  source?: DelegationTargetSource;
+  status: DelegationTargetStatus;
+};
@@ -0,0 +1,35 @@
+import type { Hex } from '@metamask/utils';
+
+/**
+ * A single redemption of a gator permission, derived from a
+ * `RedeemedDelegation` event of the delegation manager.
+ */
+export type GatorPermissionRedemption = {
+  /** The token amount transferred from the account, if known. */
+  amount?: Hex;
+  blockNumber: Hex;
+  redeemer: Hex;
+
+  /** Timestamp of the block in seconds. */
+  timestamp?: number;
+  transactionHash: Hex;
+};
+
+export type GatorPermissionUsage = {
+  /** The amount the site can still transfer, as reported by the enforcer. */
+  remainingAmount?: Hex;
+
+  /** Redemptions of the permission, newest first, if they could be read. */
+  redemptions?: GatorPermissionRedemption[];
+};
+
+export type GatorPermissionUsageRequest = {
+  chainId: Hex;
+  delegationManager: Hex;
+  permissionContext: Hex;
+  permissionType: string;
+
+  /** The start of the permission in seconds, from which redemptions are read. */
+  startTime?: number;
+  tokenAddress?: Hex;
+};
@@ -1,12 +1,39 @@
-export type ThrottledOrigin = {
+import type { ThrottlingMethodClass } from '../constants/origin-throttling';
+
+export type OriginRejections = {
   rejections: number;
   lastRejection: number;
 };
 
+export type ThrottledOriginBlock = {
+  methodClass: ThrottlingMethodClass;
+  blockedAt: number;
+  blockedUntil: number;
+};
+
+export type ThrottledOrigin = {
+  rejections: Partial<Record<ThrottlingMethodClass, OriginRejections>>;
+  blockedUntil?: number;
+  isPermanentlyBlocked?: boolean;
+  history?: ThrottledOriginBlock[];
+};
+
 export type ThrottledOrigins = {
   [origin: string]: ThrottledOrigin;
 };
 
+export type OriginThrottlingMethodClassConfig = {
+  rejectionThreshold: number;
+  rejectionWindowInMs: number;
+  blockDurationsInMs: number[];
+};
+
+export type OriginThrottlingConfig = Record<
+  ThrottlingMethodClass,
+  OriginThrottlingMethodClassConfig
+>;
+
 export type ThrottledOriginsState = {
+  originThrottlingConfig: OriginThrottlingConfig;
   throttledOrigins: ThrottledOrigins;
 };
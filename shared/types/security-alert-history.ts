@@ -0,0 +1,14 @@
+import type { Hex } from '@metamask/utils';
+import type { SecurityAlertUserAction } from '../constants/security-alert-history';
+
+export type SecurityAlertHistoryEntry = {
+  securityAlertId: string;
+  time: number;
+  origin?: string;
+  method: string;
+  chainId?: Hex;
+  resultType: string;
+  reason: string;
+  description?: string;
+  userAction: SecurityAlertUserAction;
+};
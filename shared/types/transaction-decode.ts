@@ -1,12 +1,42 @@
+import type { Hex } from '@metamask/utils';
+
 export enum DecodedTransactionDataSource {
+  Local = 'Local',
   Uniswap = 'Uniswap',
   Sourcify = 'Sourcify',
   FourByte = 'FourByte',
 }
 
+export enum SwapIntentProtocol {
+  Uniswap = 'Uniswap',
+  OneInch = '1inch',
+  ZeroEx = '0x',
+  CowSwap = 'CoW Swap',
+}
+
+/**
+ * The outcome of a swap, derived from the calldata of a known router.
+ * Native tokens use `NATIVE_TOKEN_ADDRESS`.
+ */
+export type DecodedTransactionDataSwapIntent = {
+  protocol: SwapIntentProtocol;
+  tokenIn: Hex;
+  tokenOut: Hex;
+
+  /** Decimal amount of the input token, or the maximum if swapping for an exact output. */
+  amountIn?: string;
+
+  /** Decimal minimum amount of the output token. */
+  amountOutMin?: string;
+
+  /** The recipient of the output token, or undefined if the sender of the transaction. */
+  recipient?: Hex;
+};
+
 export type DecodedTransactionDataResponse = {
   data: DecodedTransactionDataMethod[];
   source: DecodedTransactionDataSource;
+  swapIntent?: DecodedTransactionDataSwapIntent;
 };
 
 export type DecodedTransactionDataMethod = {
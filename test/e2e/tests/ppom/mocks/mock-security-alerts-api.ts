@@ -0,0 +1,54 @@
+import { CompletedRequest, MockttpServer } from 'mockttp';
+import { getMockSecurityAlertsApiResponse } from '../../../../../development/lib/security-alerts-api-mock';
+import { SECURITY_ALERTS_PROD_API_BASE_URL } from '../constants';
+
+export type MockSecurityAlertsApiFixture = Parameters<
+  typeof getMockSecurityAlertsApiResponse
+>[0];
+
+/**
+ * Mocks the Security Alerts API using the same fixture format as the local
+ * mock server in `development/mock-security-alerts-api.js`, so scenarios can be
+ * shared between manual testing and e2e tests.
+ *
+ * @param mockServer - The mock server.
+ * @param fixture - The canned responses, keyed by origin or address.
+ * @example
+ * ```
+ *  await mockSecurityAlertsApi(mockServer, {
+ *    addresses: {
+ *      '0x5fbdb2315678afecb367f032d93f642f64180aa3': {
+ *        response: { result_type: 'Malicious', reason: 'transfer_farming' },
+ *      },
+ *    },
+ *  });
+ * ```
+ */
+export async function mockSecurityAlertsApi(
+  mockServer: MockttpServer,
+  fixture: MockSecurityAlertsApiFixture,
+) {
+  await mockServer
+    .forPost(
+      new RegExp(
+        `^${SECURITY_ALERTS_PROD_API_BASE_URL.replace(/\./gu, '\\.')}/`,
+        'u',
+      ),
+    )
+    .always()
+    .thenCallback(async (request: CompletedRequest) => {
+      const { statusCode, body, latency } = getMockSecurityAlertsApiResponse(
+        fixture,
+        {
+          path: new URL(request.url).pathname,
+          body: (await request.body.getJson()) as object | undefined,
+        },
+      );
+
+      if (latency) {
+        await new Promise((resolve) => setTimeout(resolve, latency));
+      }
+
+      return { statusCode, json: body };
+    });
+}
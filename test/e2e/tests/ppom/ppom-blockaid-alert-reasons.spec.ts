@@ -0,0 +1,240 @@
+import { Suite } from 'mocha';
+import { MockttpServer } from 'mockttp';
+import { BlockaidReason } from '../../../../shared/constants/security-provider';
+import FixtureBuilder from '../../fixtures/fixture-builder';
+import { withFixtures, WINDOW_TITLES } from '../../helpers';
+import { mockMultiNetworkBalancePolling } from '../../mock-balance-polling/mock-balance-polling';
+import HomePage from '../../page-objects/pages/home/homepage';
+import TestDapp from '../../page-objects/pages/test-dapp';
+import TransactionConfirmation from '../../page-objects/pages/confirmations/redesign/transaction-confirmation';
+import { loginWithoutBalanceValidation } from '../../page-objects/flows/login.flow';
+import { mockServerJsonRpc } from './mocks/mock-server-json-rpc';
+import {
+  mockSecurityAlertsApi,
+  MockSecurityAlertsApiFixture,
+} from './mocks/mock-security-alerts-api';
+
+/** Recipient of the malicious ETH transfer in the test dapp. */
+const MALICIOUS_ADDRESS = '0x5fbdb2315678afecb367f032d93f642f64180aa3';
+
+const TITLE_DECEPTIVE = 'This is a deceptive request';
+const TITLE_SUSPICIOUS = 'This is a suspicious request';
+const TITLE_ERRORED = 'Be careful';
+
+const DESCRIPTION_APPROVE_FARMING =
+  'If you approve this request, a third party known for scams might take all your assets.';
+const DESCRIPTION_MIGHT_LOSE_ASSETS =
+  'If you approve this request, you might lose your assets.';
+const DESCRIPTION_TRANSFER_FARMING =
+  'If you approve this request, a third party known for scams will take all your assets.';
+
+const MALICIOUS_REASON_ALERTS: [BlockaidReason, string, string][] = [
+  [
+    BlockaidReason.approvalFarming,
+    TITLE_DECEPTIVE,
+    DESCRIPTION_APPROVE_FARMING,
+  ],
+  [
+    BlockaidReason.blurFarming,
+    TITLE_DECEPTIVE,
+    'If you approve this request, someone can steal your assets listed on Blur.',
+  ],
+  [
+    BlockaidReason.maliciousDomain,
+    TITLE_DECEPTIVE,
+    "You're interacting with a malicious domain. If you approve this request, you might lose your assets.",
+  ],
+  [BlockaidReason.permitFarming, TITLE_DECEPTIVE, DESCRIPTION_APPROVE_FARMING],
+  [
+    BlockaidReason.rawNativeTokenTransfer,
+    TITLE_DECEPTIVE,
+    DESCRIPTION_TRANSFER_FARMING,
+  ],
+  [
+    BlockaidReason.rawSignatureFarming,
+    TITLE_SUSPICIOUS,
+    DESCRIPTION_MIGHT_LOSE_ASSETS,
+  ],
+  [
+    BlockaidReason.seaportFarming,
+    TITLE_DECEPTIVE,
+    'If you approve this request, someone can steal your assets listed on OpenSea.',
+  ],
+  [
+    BlockaidReason.setApprovalForAll,
+    TITLE_DECEPTIVE,
+    DESCRIPTION_APPROVE_FARMING,
+  ],
+  [
+    BlockaidReason.tradeOrderFarming,
+    TITLE_DECEPTIVE,
+    DESCRIPTION_MIGHT_LOSE_ASSETS,
+  ],
+  [
+    BlockaidReason.transferFarming,
+    TITLE_DECEPTIVE,
+    DESCRIPTION_TRANSFER_FARMING,
+  ],
+  [
+    BlockaidReason.transferFromFarming,
+    TITLE_DECEPTIVE,
+    DESCRIPTION_TRANSFER_FARMING,
+  ],
+  [BlockaidReason.other, TITLE_DECEPTIVE, DESCRIPTION_MIGHT_LOSE_ASSETS],
+];
+
+function buildTestSpecificMock(fixture: MockSecurityAlertsApiFixture) {
+  return async (mockServer: MockttpServer): Promise<void> => {
+    await mockMultiNetworkBalancePolling(mockServer);
+    await mockServerJsonRpc(mockServer, [
+      ['eth_blockNumber'],
+      ['eth_call'],
+      ['eth_estimateGas'],
+      ['eth_feeHistory'],
+      ['eth_gasPrice'],
+      ['eth_getBlockByNumber'],
+      ['eth_getCode'],
+      ['eth_getTransactionCount'],
+    ]);
+    await mockSecurityAlertsApi(mockServer, fixture);
+
+    // Prevent the fallback to the local PPOM if the API fails
+    await mockServer
+      .forGet(
+        'https://static.cx.metamask.io/api/v1/confirmations/ppom/ppom_version.json',
+      )
+      .thenCallback(() => ({ statusCode: 500 }));
+  };
+}
+
+async function checkMaliciousTransferAlert(
+  title: string | undefined,
+  fixture: MockSecurityAlertsApiFixture,
+  expectedTitle: string,
+  expectedDescription?: string,
+) {
+  await withFixtures(
+    {
+      dappOptions: { numberOfTestDapps: 1 },
+      fixtures: new FixtureBuilder()
+        .withNetworkControllerOnMainnet()
+        .withPermissionControllerConnectedToTestDapp({
+          useLocalhostHostname: true,
+        })
+        .withPreferencesController({
+          securityAlertsEnabled: true,
+        })
+        .withEnabledNetworks({
+          eip155: {
+            '0x1': true,
+          },
+        })
+        .build(),
+      testSpecificMock: buildTestSpecificMock(fixture),
+      title,
+    },
+
+    async ({ driver }) => {
+      await loginWithoutBalanceValidation(driver);
+
+      // We validate custom balance as it doesn't come from the local node but it's mocked
+      await new HomePage(driver).checkExpectedBalanceIsDisplayed('20 ETH');
+
+      const testDapp = new TestDapp(driver);
+      await testDapp.openTestDappPage({ url: 'http://localhost:8080' });
+      await testDapp.checkPageIsLoaded();
+
+      await testDapp.clickMaliciousEthTransferButton();
+      await driver.switchToWindowWithTitle(WINDOW_TITLES.Dialog);
+
+      const confirmation = new TransactionConfirmation(driver);
+      await confirmation.checkPageIsLoaded();
+      await confirmation.checkAlertMessageIsDisplayed(expectedTitle);
+
+      if (expectedDescription) {
+        await confirmation.checkAlertMessageIsDisplayed(expectedDescription);
+      }
+    },
+  );
+}
+
+/**
+ * Exercises every Blockaid reason end-to-end using the same fixture format as
+ * the local mock Security Alerts API in `development/mock-security-alerts-api.js`.
+ */
+describe('Security Alert Reasons - Blockaid', function (this: Suite) {
+  for (const [
+    reason,
+    expectedTitle,
+    expectedDescription,
+  ] of MALICIOUS_REASON_ALERTS) {
+    it(`should show security alerts for the ${reason} reason`, async function () {
+      await checkMaliciousTransferAlert(
+        this.test?.fullTitle(),
+        {
+          addresses: {
+            [MALICIOUS_ADDRESS]: {
+              response: {
+                // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+                // eslint-disable-next-line @typescript-eslint/naming-convention
+                result_type: 'Malicious',
+                reason,
+                features: ['Interaction with a known malicious address'],
+              },
+            },
+          },
+        },
+        expectedTitle,
+        expectedDescription,
+      );
+    });
+  }
+
+  it('should show security alerts for requests from malicious origins', async function () {
+    await checkMaliciousTransferAlert(
+      this.test?.fullTitle(),
+      {
+        origins: {
+          'http://localhost:8080': {
+            response: {
+              // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+              // eslint-disable-next-line @typescript-eslint/naming-convention
+              result_type: 'Malicious',
+              reason: BlockaidReason.maliciousDomain,
+            },
+          },
+        },
+      },
+      TITLE_DECEPTIVE,
+    );
+  });
+
+  it(`should show security alerts for the ${BlockaidReason.errored} reason if the API fails`, async function () {
+    await checkMaliciousTransferAlert(
+      this.test?.fullTitle(),
+      { addresses: { [MALICIOUS_ADDRESS]: { statusCode: 500 } } },
+      TITLE_ERRORED,
+    );
+  });
+
+  it('should show security alerts once a delayed response is received', async function () {
+    await checkMaliciousTransferAlert(
+      this.test?.fullTitle(),
+      {
+        addresses: {
+          [MALICIOUS_ADDRESS]: {
+            response: {
+              // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+              // eslint-disable-next-line @typescript-eslint/naming-convention
+              result_type: 'Malicious',
+              reason: BlockaidReason.transferFarming,
+            },
+            latency: 3000,
+          },
+        },
+      },
+      TITLE_DECEPTIVE,
+      DESCRIPTION_TRANSFER_FARMING,
+    );
+  });
+});
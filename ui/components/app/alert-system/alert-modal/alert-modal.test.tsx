@@ -308,6 +308,80 @@ describe('AlertModal', () => {
     });
   });
 
+  describe('Acknowledgement phrase', () => {
+    const PHRASE_MOCK = 'I accept the risk';
+
+    function renderPhraseAlert(setAlertConfirmedMock: jest.Mock) {
+      const phraseAlertMock = {
+        ...(alertsMock.find(
+          (alert) => alert.key === DATA_ALERT_KEY_MOCK,
+        ) as Alert),
+        acknowledgementPhrase: PHRASE_MOCK,
+      };
+
+      jest.spyOn(useAlertsModule, 'default').mockReturnValue({
+        setAlertConfirmed: setAlertConfirmedMock,
+        alerts: [phraseAlertMock],
+        generalAlerts: [],
+        fieldAlerts: [phraseAlertMock],
+        getFieldAlerts: () => [phraseAlertMock],
+        isAlertConfirmed: () => false,
+      } as unknown as ReturnType<typeof useAlertsModule.default>);
+
+      return renderWithProvider(
+        <AlertModal
+          ownerId={OWNER_ID_MOCK}
+          onAcknowledgeClick={onAcknowledgeClickMock}
+          onClose={onCloseMock}
+          alertKey={DATA_ALERT_KEY_MOCK}
+        />,
+        mockStore,
+      );
+    }
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    it('renders a phrase input instead of the checkbox', () => {
+      const { getByTestId, queryByTestId } = renderPhraseAlert(jest.fn());
+
+      expect(queryByTestId('alert-modal-acknowledge-checkbox')).toBeNull();
+      expect(
+        getByTestId('alert-modal-acknowledge-phrase-input'),
+      ).toBeInTheDocument();
+      expect(getByTestId('alert-modal-button')).toBeDisabled();
+    });
+
+    it('sets the alert as confirmed when the phrase matches', () => {
+      const setAlertConfirmedMock = jest.fn();
+      const { getByTestId } = renderPhraseAlert(setAlertConfirmedMock);
+
+      fireEvent.change(getByTestId('alert-modal-acknowledge-phrase-input'), {
+        target: { value: ` ${PHRASE_MOCK.toUpperCase()} ` },
+      });
+
+      expect(setAlertConfirmedMock).toHaveBeenLastCalledWith(
+        DATA_ALERT_KEY_MOCK,
+        true,
+      );
+    });
+
+    it('does not set the alert as confirmed when the phrase does not match', () => {
+      const setAlertConfirmedMock = jest.fn();
+      const { getByTestId } = renderPhraseAlert(setAlertConfirmedMock);
+
+      fireEvent.change(getByTestId('alert-modal-acknowledge-phrase-input'), {
+        target: { value: 'I accept' },
+      });
+
+      expect(setAlertConfirmedMock).toHaveBeenLastCalledWith(
+        DATA_ALERT_KEY_MOCK,
+        false,
+      );
+    });
+  });
+
   describe('Track alert metrics', () => {
     it('calls mockTrackAlertRender when alert modal is opened', () => {
       const { getByText } = renderWithProvider(
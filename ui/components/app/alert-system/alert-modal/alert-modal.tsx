@@ -1,5 +1,5 @@
 import { ButtonVariant } from '@metamask/snaps-sdk';
-import React, { useCallback, useEffect } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import {
   BlockaidReason,
   SecurityProvider,
@@ -36,9 +36,11 @@ import {
   ModalHeader,
   ModalOverlay,
   Text,
+  TextField,
 } from '../../../component-library';
 import { useAlertActionHandler } from '../contexts/alertActionHandler';
 import { useAlertMetrics } from '../contexts/alertMetricsContext';
+import { AlertProvider } from '../alert-provider';
 
 export type AlertModalProps = {
   /**
@@ -289,6 +291,61 @@ export function AcknowledgeCheckboxBase({
   );
 }
 
+function isAcknowledgementPhraseMatch(value: string, phrase: string) {
+  return value.trim().toLowerCase() === phrase.trim().toLowerCase();
+}
+
+// TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+// eslint-disable-next-line @typescript-eslint/naming-convention
+function AcknowledgePhraseInput({
+  selectedAlert,
+  onPhraseChange,
+}: {
+  selectedAlert: Alert;
+  onPhraseChange: (isMatch: boolean) => void;
+}) {
+  const t = useI18nContext();
+  const [value, setValue] = useState('');
+  const severityStyle = getSeverityStyle(selectedAlert.severity);
+  const phrase = selectedAlert.acknowledgementPhrase as string;
+
+  const handleChange = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      setValue(event.target.value);
+      onPhraseChange(isAcknowledgementPhraseMatch(event.target.value, phrase));
+    },
+    [onPhraseChange, phrase],
+  );
+
+  if (!requiresAcknowledgement(selectedAlert)) {
+    return null;
+  }
+
+  return (
+    <Box
+      display={Display.Flex}
+      flexDirection={FlexDirection.Column}
+      gap={2}
+      padding={4}
+      width={BlockSize.Full}
+      backgroundColor={severityStyle.background}
+      borderRadius={BorderRadius.LG}
+      marginTop={4}
+    >
+      <Text variant={TextVariant.bodyMd}>
+        {t('alertModalAcknowledgePhrase', [phrase])}
+      </Text>
+      <TextField
+        value={value}
+        onChange={handleChange}
+        placeholder={phrase}
+        inputProps={{ 'data-testid': 'alert-modal-acknowledge-phrase-input' }}
+        width={BlockSize.Full}
+      />
+    </Box>
+  );
+}
+
 // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
 // eslint-disable-next-line @typescript-eslint/naming-convention
 function AcknowledgeButton({
@@ -410,6 +467,15 @@ export function AlertModal({
     }
   }, [isConfirmed, selectedAlert, setAlertConfirmed]);
 
+  const handlePhraseChange = useCallback(
+    (isMatch: boolean) => {
+      if (selectedAlert) {
+        setAlertConfirmed(selectedAlert.key, isMatch);
+      }
+    },
+    [selectedAlert, setAlertConfirmed],
+  );
+
   if (!selectedAlert) {
     return null;
   }
@@ -443,13 +509,25 @@ export function AlertModal({
               customDetails={customDetails}
             />
           )}
-          {customAcknowledgeCheckbox ?? (
-            <AcknowledgeCheckboxBase
-              selectedAlert={selectedAlert}
-              isConfirmed={isConfirmed}
-              onCheckboxClick={handleCheckboxClick}
-            />
-          )}
+          <AlertProvider
+            providers={selectedAlert.providers}
+            paddingTop={2}
+            textAlign={TextAlign.Center}
+          />
+          {customAcknowledgeCheckbox ??
+            (selectedAlert.acknowledgementPhrase ? (
+              <AcknowledgePhraseInput
+                key={selectedAlert.key}
+                selectedAlert={selectedAlert}
+                onPhraseChange={handlePhraseChange}
+              />
+            ) : (
+              <AcknowledgeCheckboxBase
+                selectedAlert={selectedAlert}
+                isConfirmed={isConfirmed}
+                onCheckboxClick={handleCheckboxClick}
+              />
+            ))}
         </ModalBody>
         <ModalFooter>
           <Box
@@ -1,6 +1,9 @@
 import React from 'react';
 import { render } from '@testing-library/react';
+import configureMockStore from 'redux-mock-store';
 import { SecurityProvider } from '../../../../../shared/constants/security-provider';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../test/lib/render-helpers';
 import { TextAlign } from '../../../../helpers/constants/design-system';
 import { AlertProvider, AlertProviderProps } from './alert-provider';
 
@@ -16,6 +19,21 @@ describe('AlertProvider', () => {
     expect(container).toMatchSnapshot();
   });
 
+  it('attributes each security provider', () => {
+    const { getByText } = renderWithProvider(
+      <AlertProvider
+        providers={[
+          { id: 'in-house', name: 'In-house Scanner' },
+          { id: SecurityProvider.Blockaid, name: 'Blockaid' },
+        ]}
+      />,
+      configureMockStore([])(mockState),
+    );
+
+    expect(getByText('In-house Scanner')).toBeInTheDocument();
+    expect(getByText('Blockaid')).toBeInTheDocument();
+  });
+
   it('renders null if no provider is given', () => {
     const { container } = render(<AlertProvider />);
     expect(container).toBeEmptyDOMElement();
@@ -2,6 +2,7 @@ import React from 'react';
 import {
   SECURITY_PROVIDER_CONFIG,
   SecurityProvider,
+  SecurityProviderAttribution,
 } from '../../../../../shared/constants/security-provider';
 import {
   Box,
@@ -16,6 +17,7 @@ import { SizeNumber } from '../../../component-library/box/box.types';
 import {
   AlignItems,
   Display,
+  FlexDirection,
   IconColor,
   TextAlign,
   TextColor,
@@ -25,6 +27,7 @@ import { useI18nContext } from '../../../../hooks/useI18nContext';
 
 export type AlertProviderProps = {
   provider?: SecurityProvider;
+  providers?: SecurityProviderAttribution[];
   paddingTop?: SizeNumber;
   textAlign?: TextAlign;
 };
@@ -33,41 +36,66 @@ export type AlertProviderProps = {
 // eslint-disable-next-line @typescript-eslint/naming-convention
 export function AlertProvider({
   provider,
+  providers,
   paddingTop = 0,
   textAlign,
 }: AlertProviderProps) {
   const t = useI18nContext();
 
-  if (!provider) {
+  const attributions: SecurityProviderAttribution[] = providers?.length
+    ? providers
+    : [];
+
+  if (!attributions.length && provider) {
+    attributions.push({
+      id: provider,
+      name: t(SECURITY_PROVIDER_CONFIG[provider]?.tKeyName),
+      url: SECURITY_PROVIDER_CONFIG[provider]?.url,
+    });
+  }
+
+  if (!attributions.length) {
     return null;
   }
 
   return (
-    <Box paddingTop={paddingTop} textAlign={textAlign}>
-      <Text
-        marginTop={1}
-        display={Display.InlineFlex}
-        alignItems={AlignItems.center}
-        color={TextColor.textAlternative}
-        variant={TextVariant.bodySm}
-      >
-        <Icon
-          color={IconColor.primaryDefault}
-          name={IconName.SecurityTick}
-          size={IconSize.Sm}
-          marginInlineEnd={1}
-        />
-        {t('securityProviderPoweredBy', [
-          <ButtonLink
-            key={`security-provider-button-link-${provider}`}
-            size={ButtonLinkSize.Inherit}
-            href={SECURITY_PROVIDER_CONFIG[provider]?.url}
-            externalLink
-          >
-            {t(SECURITY_PROVIDER_CONFIG[provider]?.tKeyName)}
-          </ButtonLink>,
-        ])}
-      </Text>
+    <Box
+      paddingTop={paddingTop}
+      textAlign={textAlign}
+      display={attributions.length > 1 ? Display.Flex : undefined}
+      flexDirection={attributions.length > 1 ? FlexDirection.Column : undefined}
+    >
+      {attributions.map((attribution) => (
+        <Text
+          key={attribution.id}
+          marginTop={1}
+          display={Display.InlineFlex}
+          alignItems={AlignItems.center}
+          color={TextColor.textAlternative}
+          variant={TextVariant.bodySm}
+        >
+          <Icon
+            color={IconColor.primaryDefault}
+            name={IconName.SecurityTick}
+            size={IconSize.Sm}
+            marginInlineEnd={1}
+          />
+          {t('securityProviderPoweredBy', [
+            attribution.url ? (
+              <ButtonLink
+                key={`security-provider-button-link-${attribution.id}`}
+                size={ButtonLinkSize.Inherit}
+                href={attribution.url}
+                externalLink
+              >
+                {attribution.name}
+              </ButtonLink>
+            ) : (
+              attribution.name
+            ),
+          ])}
+        </Text>
+      ))}
     </Box>
   );
 }
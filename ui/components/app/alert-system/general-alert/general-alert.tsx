@@ -14,7 +14,10 @@ import {
   FontWeight,
   TextVariant,
 } from '../../../../helpers/constants/design-system';
-import { SecurityProvider } from '../../../../../shared/constants/security-provider';
+import {
+  SecurityProvider,
+  SecurityProviderAttribution,
+} from '../../../../../shared/constants/security-provider';
 import ZENDESK_URLS from '../../../../helpers/constants/zendesk-url';
 import { getBannerAlertSeverity } from '../utils';
 import { AlertProvider } from '../alert-provider';
@@ -25,6 +28,7 @@ export type GeneralAlertProps = {
   details?: React.ReactNode | string[];
   onClickSupportLink?: () => void;
   provider?: SecurityProvider;
+  providers?: SecurityProviderAttribution[];
   reportUrl?: string;
   severity: AlertSeverity;
   title?: string;
@@ -115,6 +119,7 @@ function GeneralAlert({
   details,
   onClickSupportLink,
   provider,
+  providers,
   severity,
   title,
   reportUrl,
@@ -134,7 +139,7 @@ function GeneralAlert({
         onClickSupportLink={onClickSupportLink}
         provider={provider}
       />
-      <AlertProvider provider={provider} />
+      <AlertProvider provider={provider} providers={providers} />
     </BannerAlert>
   );
 }
@@ -15,6 +15,8 @@ export enum RowAlertKey {
   ShieldFooterCoverageIndicator = 'shieldFooterCoverageIndicator',
   SigningInWith = 'signingInWith',
   Speed = 'speed',
+  SwapRecipient = 'swapRecipient',
+  DelegationTarget = 'delegationTarget',
 }
 
 export enum AlertActionKey {
@@ -18,6 +18,7 @@ import {
   AlignItems,
 } from '../../../helpers/constants/design-system';
 import { COPY_OPTIONS } from '../../../../shared/constants/copy';
+import { setLastCopiedAddress } from '../../../store/actions';
 
 class SelectedAccount extends Component {
   state = {
@@ -72,6 +73,7 @@ class SelectedAccount extends Component {
                 SECOND * 3,
               );
               copyToClipboard(checksummedAddress, COPY_OPTIONS);
+              setLastCopiedAddress(checksummedAddress);
             }}
           >
             <Text
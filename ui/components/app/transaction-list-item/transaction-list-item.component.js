@@ -51,7 +51,11 @@ import {
   TransactionModalContextProvider,
   useTransactionModalContext,
 } from '../../../contexts/transaction-modal';
-import { checkNetworkAndAccountSupports1559 } from '../../../selectors';
+import {
+  checkNetworkAndAccountSupports1559,
+  selectKnownAddresses,
+} from '../../../selectors';
+import { isPoisonTransfer } from '../../../../shared/lib/address-poisoning';
 import { isLegacyTransaction } from '../../../helpers/utils/transactions.util';
 import { formatDateWithYearContext } from '../../../helpers/utils/util';
 import Button from '../../ui/button';
@@ -207,6 +211,11 @@ function TransactionListItemInner({
   const isSignatureReq = category === TransactionGroupCategory.signatureRequest;
   const isApproval = category === TransactionGroupCategory.approval;
   const isUnapproved = status === TransactionStatus.unapproved;
+  const knownAddresses = useSelector(selectKnownAddresses);
+  const isSuspectedPoisonTransfer = isPoisonTransfer(
+    transactionGroup.initialTransaction,
+    knownAddresses,
+  );
 
   /**
    * Disabling the retry button until further notice
@@ -376,6 +385,16 @@ function TransactionListItemInner({
           )
         }
       >
+        {isSuspectedPoisonTransfer && (
+          <Text
+            variant={TextVariant.bodySm}
+            color={Color.errorDefault}
+            paddingTop={2}
+            data-testid="transaction-list-item-poison-warning"
+          >
+            {t('addressPoisoningActivityWarning')}
+          </Text>
+        )}
         {Boolean(showCancelButton || speedUpButton) && (
           <Box
             paddingTop={4}
@@ -1,5 +1,8 @@
 import { NameType } from '@metamask/name-controller';
-import { TransactionStatus } from '@metamask/transaction-controller';
+import {
+  TransactionStatus,
+  TransactionType,
+} from '@metamask/transaction-controller';
 import { fireEvent } from '@testing-library/react';
 import React from 'react';
 import { useDispatch, useSelector } from 'react-redux';
@@ -32,6 +35,7 @@ import {
   getTokenExchangeRates,
   getSelectedInternalAccount,
   getMarketData,
+  selectKnownAddresses,
 } from '../../../selectors';
 import { getNftContractsByAddressByChain } from '../../../selectors/nft';
 import { abortTransactionSigning } from '../../../store/actions';
@@ -155,6 +159,8 @@ const generateUseSelectorRouter = (opts) => (selector) => {
     };
   } else if (selector === getMarketData) {
     return opts.marketData ?? {};
+  } else if (selector === selectKnownAddresses) {
+    return opts.knownAddresses ?? [];
   }
   return undefined;
 };
@@ -314,6 +320,46 @@ describe('TransactionListItem', () => {
     );
   });
 
+  it('flags incoming transfers with no value as suspicious', () => {
+    useSelector.mockImplementation(generateUseSelectorRouter({}));
+    const incomingTransaction = {
+      ...transactionGroup.initialTransaction,
+      status: TransactionStatus.confirmed,
+      type: TransactionType.incoming,
+      txParams: {
+        ...transactionGroup.initialTransaction.txParams,
+        value: '0x0',
+      },
+    };
+
+    const { getByTestId } = renderWithProvider(
+      <TransactionListItem
+        transactionGroup={{
+          ...transactionGroup,
+          initialTransaction: incomingTransaction,
+          primaryTransaction: incomingTransaction,
+          transactions: [incomingTransaction],
+          hasCancelled: false,
+        }}
+      />,
+    );
+
+    expect(
+      getByTestId('transaction-list-item-poison-warning'),
+    ).toBeInTheDocument();
+  });
+
+  it('does not flag outgoing transfers as suspicious', () => {
+    useSelector.mockImplementation(generateUseSelectorRouter({}));
+    const { queryByTestId } = renderWithProvider(
+      <TransactionListItem transactionGroup={transactionGroup} />,
+    );
+
+    expect(
+      queryByTestId('transaction-list-item-poison-warning'),
+    ).not.toBeInTheDocument();
+  });
+
   it('should render pending legacy swap tx summary', () => {
     useSelector.mockImplementation(generateUseSelectorRouter({}));
     const { queryByTestId, getByText } = renderWithProvider(
@@ -32,6 +32,8 @@ import {
   getSelectedAccount,
   getEnabledNetworksByNamespace,
   getSelectedMultichainNetworkChainId,
+  selectHidePoisonTransfers,
+  selectKnownAddresses,
 } from '../../../selectors';
 ///: BEGIN:ONLY_INCLUDE_IF(multichain)
 import MultichainBridgeTransactionListItem from '../multichain-bridge-transaction-list-item/multichain-bridge-transaction-list-item';
@@ -43,6 +45,7 @@ import SmartTransactionListItem from '../transaction-list-item/smart-transaction
 import { TOKEN_CATEGORY_HASH } from '../../../helpers/constants/transactions';
 import { SWAPS_CHAINID_CONTRACT_ADDRESS_MAP } from '../../../../shared/constants/swaps';
 import { isEqualCaseInsensitive } from '../../../../shared/modules/string-utils';
+import { isPoisonTransfer } from '../../../../shared/lib/address-poisoning';
 ///: BEGIN:ONLY_INCLUDE_IF(multichain)
 import { useMultichainSelector } from '../../../hooks/useMultichainSelector';
 import {
@@ -315,6 +318,8 @@ export default function TransactionList({
     getIsTokenNetworkFilterEqualCurrentNetwork,
   );
   const selectedAccount = useSelector(getSelectedAccount);
+  const hidePoisonTransfers = useSelector(selectHidePoisonTransfers);
+  const knownAddresses = useSelector(selectKnownAddresses);
 
   ///: BEGIN:ONLY_INCLUDE_IF(multichain)
   const [selectedTransaction, setSelectedTransaction] = useState(null);
@@ -524,6 +529,28 @@ export default function TransactionList({
     return dateGroup;
   };
 
+  // Remove transactions within each date group that are likely address
+  // poisoning attempts, if the user has chosen to hide them. The groups are
+  // copied so the hidden transactions remain in the memoized groups and are
+  // shown again if the setting is turned off.
+  const removePoisonTransfers = (dateGroup) => {
+    if (!hidePoisonTransfers) {
+      return dateGroup;
+    }
+
+    return {
+      ...dateGroup,
+      transactionGroups: dateGroup.transactionGroups.map(
+        (transactionGroup) => ({
+          ...transactionGroup,
+          transactions: transactionGroup.transactions.filter(
+            (transaction) => !isPoisonTransfer(transaction, knownAddresses),
+          ),
+        }),
+      ),
+    };
+  };
+
   const renderFilterButton = useCallback(() => {
     if (hideNetworkFilter) {
       return null;
@@ -768,6 +795,7 @@ export default function TransactionList({
               {completedTransactions.length > 0
                 ? completedTransactions
                     .map(removeIncomingTxsButToAnotherAddress)
+                    .map(removePoisonTransfers)
                     .map(removeTxGroupsWithNoTx)
                     .filter(dateGroupsWithTransactionGroups)
                     .slice(0, limit)
@@ -20,6 +20,8 @@ import {
   getSelectedAccount,
   getSelectedMultichainNetworkChainId,
   getEnabledNetworks,
+  selectHidePoisonTransfers,
+  selectKnownAddresses,
 } from '../../../selectors';
 ///: BEGIN:ONLY_INCLUDE_IF(multichain)
 import MultichainBridgeTransactionListItem from '../multichain-bridge-transaction-list-item/multichain-bridge-transaction-list-item';
@@ -34,6 +36,7 @@ import {
 } from '../../../helpers/constants/transactions';
 import { SWAPS_CHAINID_CONTRACT_ADDRESS_MAP } from '../../../../shared/constants/swaps';
 import { isEqualCaseInsensitive } from '../../../../shared/modules/string-utils';
+import { isPoisonTransfer } from '../../../../shared/lib/address-poisoning';
 import {
   getAllEnabledNetworksForAllNamespaces,
   ///: BEGIN:ONLY_INCLUDE_IF(multichain)
@@ -409,6 +412,8 @@ export default function UnifiedTransactionList({
   const [daysLimit, setDaysLimit] = useState(PAGE_DAYS_INCREMENT);
   const t = useI18nContext();
   const selectedAccount = useSelector(getSelectedAccount);
+  const hidePoisonTransfers = useSelector(selectHidePoisonTransfers);
+  const knownAddresses = useSelector(selectKnownAddresses);
   const enabledNetworks = useSelector(getEnabledNetworks);
 
   const { evmChainIds, nonEvmChainIds } = getFilteredChainIds(
@@ -625,6 +630,37 @@ export default function UnifiedTransactionList({
     [selectedAccount],
   );
 
+  // Remove EVM transactions within each date group that are likely address
+  // poisoning attempts, if the user has chosen to hide them. The groups are
+  // copied so toggling the setting does not change the memoized groups.
+  const removePoisonTransfersUnified = useCallback(
+    (dateGroup) => {
+      if (!hidePoisonTransfers) {
+        return dateGroup;
+      }
+
+      return {
+        ...dateGroup,
+        transactionGroups: dateGroup.transactionGroups.map((item) => {
+          if (item?.kind !== TransactionKind.EVM) {
+            return item;
+          }
+          const { transactionGroup } = item;
+          return {
+            ...item,
+            transactionGroup: {
+              ...transactionGroup,
+              transactions: transactionGroup.transactions.filter(
+                (transaction) => !isPoisonTransfer(transaction, knownAddresses),
+              ),
+            },
+          };
+        }),
+      };
+    },
+    [hidePoisonTransfers, knownAddresses],
+  );
+
   const removeEmptyEvmItemsFromUnifiedDateGroup = useCallback((dateGroup) => {
     dateGroup.transactionGroups = dateGroup.transactionGroups.filter((item) => {
       if (item?.kind !== TransactionKind.EVM) {
@@ -642,11 +678,13 @@ export default function UnifiedTransactionList({
     () =>
       groupedUnifiedActivityItems
         .map(removeIncomingTxsButToAnotherAddressUnified)
+        .map(removePoisonTransfersUnified)
         .map(removeEmptyEvmItemsFromUnifiedDateGroup)
         .filter(dateGroupsWithItems),
     [
       groupedUnifiedActivityItems,
       removeIncomingTxsButToAnotherAddressUnified,
+      removePoisonTransfersUnified,
       removeEmptyEvmItemsFromUnifiedDateGroup,
     ],
   );
@@ -0,0 +1,271 @@
+import React, { useMemo, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { BigNumber } from 'bignumber.js';
+import { Hex, add0x } from '@metamask/utils';
+import {
+  Box,
+  ButtonPrimary,
+  ButtonPrimarySize,
+  FormTextField,
+  HelpText,
+  HelpTextSeverity,
+  Label,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Text,
+} from '../../component-library';
+import Dropdown from '../../ui/dropdown';
+import {
+  Display,
+  FlexDirection,
+  TextColor,
+  TextVariant,
+} from '../../../helpers/constants/design-system';
+import { useI18nContext } from '../../../hooks/useI18nContext';
+import { isEqualCaseInsensitive } from '../../../../shared/modules/string-utils';
+import { isValidHexAddress } from '../../../../shared/modules/hexstring-utils';
+import {
+  getErrorMessage,
+  logErrorWithMessage,
+} from '../../../../shared/modules/error';
+import { SpendingAllowancePeriod } from '../../../../shared/lib/spending-allowance';
+import { getAllTokens, getConnectedSitesList } from '../../../selectors';
+import type { GrantSpendingAllowanceRequest } from '../../../hooks/spending-allowances';
+
+type Token = {
+  address: Hex;
+  symbol: string;
+  decimals: number;
+};
+
+type AddSpendingAllowanceModalProps = {
+  address: Hex;
+  /**
+   * The networks on which the account is upgraded, and so can grant
+   * allowances.
+   */
+  networks: { chainIdHex: Hex; name: string }[];
+  onClose: () => void;
+  onSubmit: (request: GrantSpendingAllowanceRequest) => Promise<void>;
+};
+
+export const AddSpendingAllowanceModal = ({
+  address,
+  networks,
+  onClose,
+  onSubmit,
+}: AddSpendingAllowanceModalProps) => {
+  const t = useI18nContext();
+  const allTokens = useSelector(getAllTokens);
+  const connectedSites = useSelector(getConnectedSitesList);
+
+  const [chainId, setChainId] = useState<Hex>(networks[0]?.chainIdHex);
+  const [origin, setOrigin] = useState<string>();
+  const [delegate, setDelegate] = useState('');
+  const [tokenAddress, setTokenAddress] = useState<string>();
+  const [amount, setAmount] = useState('');
+  const [period, setPeriod] = useState(SpendingAllowancePeriod.Week);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const origins = useMemo(
+    () =>
+      Object.values(
+        connectedSites as Record<string, { origin: string; addresses: Hex[] }>,
+      )
+        .filter((site) =>
+          site.addresses.some((siteAddress) =>
+            isEqualCaseInsensitive(siteAddress, address),
+          ),
+        )
+        .map((site) => site.origin),
+    [address, connectedSites],
+  );
+
+  const tokens: Token[] = allTokens?.[chainId]?.[address] ?? [];
+  const selectedOrigin = origin ?? origins[0];
+  const token =
+    tokens.find((item) => item.address === tokenAddress) ?? tokens[0];
+
+  const isDelegateValid = isValidHexAddress(delegate, {
+    allowNonPrefixed: false,
+  });
+
+  const isAmountValid = /^\d*\.?\d+$/u.test(amount) && Number(amount) > 0;
+
+  const canSubmit =
+    Boolean(chainId && selectedOrigin && token) &&
+    isDelegateValid &&
+    isAmountValid &&
+    !isSubmitting;
+
+  const handleSubmit = () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    setIsSubmitting(true);
+    setError(undefined);
+
+    const periodAmount = new BigNumber(amount)
+      .times(new BigNumber(10).pow(token.decimals))
+      .round(0, BigNumber.ROUND_DOWN);
+
+    onSubmit({
+      allowance: {
+        origin: selectedOrigin,
+        token: token.address,
+        symbol: token.symbol,
+        decimals: token.decimals,
+        periodAmount: add0x(periodAmount.toString(16)),
+        period,
+        startDate: Math.floor(Date.now() / 1000),
+      },
+      chainId,
+      delegate: delegate as Hex,
+    })
+      .then(onClose)
+      .catch((submitError) => {
+        logErrorWithMessage(submitError);
+        setError(getErrorMessage(submitError));
+        setIsSubmitting(false);
+      });
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} className="add-spending-allowance-modal">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader onClose={onClose}>{t('addSpendingAllowance')}</ModalHeader>
+        <ModalBody>
+          <Text
+            variant={TextVariant.bodySm}
+            color={TextColor.textAlternative}
+            paddingBottom={4}
+          >
+            {t('addSpendingAllowanceDescription')}
+          </Text>
+          <Box
+            display={Display.Flex}
+            flexDirection={FlexDirection.Column}
+            gap={4}
+          >
+            <Box>
+              <Label>{t('network')}</Label>
+              <Dropdown
+                options={networks.map((network) => ({
+                  name: network.name,
+                  value: network.chainIdHex,
+                }))}
+                selectedOption={chainId}
+                onChange={(value: Hex) => {
+                  setChainId(value);
+                  setTokenAddress(undefined);
+                }}
+                data-testid="add-spending-allowance-network"
+              />
+            </Box>
+            <Box>
+              <Label>{t('spendingAllowanceSite')}</Label>
+              {origins.length ? (
+                <Dropdown
+                  options={origins.map((value) => ({ value }))}
+                  selectedOption={selectedOrigin}
+                  onChange={setOrigin}
+                  data-testid="add-spending-allowance-site"
+                />
+              ) : (
+                <HelpText severity={HelpTextSeverity.Warning}>
+                  {t('spendingAllowanceNoConnectedSites')}
+                </HelpText>
+              )}
+            </Box>
+            <FormTextField
+              id="spending-allowance-delegate"
+              label={t('spendingAllowanceDelegate')}
+              placeholder="0x..."
+              value={delegate}
+              onChange={(event) => setDelegate(event.target.value.trim())}
+              error={Boolean(delegate) && !isDelegateValid}
+              helpText={
+                delegate && !isDelegateValid ? t('invalidAddress') : undefined
+              }
+              inputProps={{ 'data-testid': 'add-spending-allowance-delegate' }}
+            />
+            <Box>
+              <Label>{t('token')}</Label>
+              {tokens.length ? (
+                <Dropdown
+                  options={tokens.map((item) => ({
+                    name: item.symbol,
+                    value: item.address,
+                  }))}
+                  selectedOption={token?.address}
+                  onChange={setTokenAddress}
+                  data-testid="add-spending-allowance-token"
+                />
+              ) : (
+                <HelpText severity={HelpTextSeverity.Warning}>
+                  {t('spendingAllowanceNoTokens')}
+                </HelpText>
+              )}
+            </Box>
+            <FormTextField
+              id="spending-allowance-amount"
+              label={t('amount')}
+              placeholder="0"
+              value={amount}
+              onChange={(event) => setAmount(event.target.value)}
+              error={Boolean(amount) && !isAmountValid}
+              inputProps={{
+                'data-testid': 'add-spending-allowance-amount',
+                inputMode: 'decimal',
+              }}
+            />
+            <Box>
+              <Label>{t('spendingAllowancePeriod')}</Label>
+              <Dropdown
+                options={[
+                  {
+                    name: t('spendingAllowanceDaily'),
+                    value: SpendingAllowancePeriod.Day,
+                  },
+                  {
+                    name: t('spendingAllowanceWeekly'),
+                    value: SpendingAllowancePeriod.Week,
+                  },
+                  {
+                    name: t('spendingAllowanceMonthly'),
+                    value: SpendingAllowancePeriod.Month,
+                  },
+                ]}
+                selectedOption={period}
+                onChange={setPeriod}
+                data-testid="add-spending-allowance-period"
+              />
+            </Box>
+            {error && (
+              <HelpText severity={HelpTextSeverity.Danger}>{error}</HelpText>
+            )}
+          </Box>
+        </ModalBody>
+        <ModalFooter>
+          <ButtonPrimary
+            block
+            size={ButtonPrimarySize.Lg}
+            disabled={!canSubmit}
+            loading={isSubmitting}
+            onClick={handleSubmit}
+            data-testid="add-spending-allowance-submit"
+          >
+            {t('spendingAllowanceGrant')}
+          </ButtonPrimary>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
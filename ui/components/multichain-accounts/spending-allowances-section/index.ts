@@ -0,0 +1 @@
+export { SpendingAllowancesSection } from './spending-allowances-section';
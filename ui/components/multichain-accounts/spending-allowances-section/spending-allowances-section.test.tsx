@@ -0,0 +1,220 @@
+import React from 'react';
+import { fireEvent, screen, waitFor } from '@testing-library/react';
+import { Hex } from '@metamask/utils';
+import {
+  Caip25CaveatType,
+  Caip25EndowmentPermissionName,
+} from '@metamask/chain-agnostic-permission';
+import { renderWithProvider } from '../../../../test/lib/render-helpers-navigate';
+import mockState from '../../../../test/data/mock-state.json';
+import configureStore from '../../../store/store';
+import {
+  EIP7702NetworkConfiguration,
+  useEIP7702Networks,
+} from '../../../pages/confirmations/hooks/useEIP7702Networks';
+import {
+  SpendingAllowance,
+  useSpendingAllowances,
+} from '../../../hooks/spending-allowances';
+import { SpendingAllowancePeriod } from '../../../../shared/lib/spending-allowance';
+import { SpendingAllowancesSection } from './spending-allowances-section';
+
+jest.mock('../../../pages/confirmations/hooks/useEIP7702Networks');
+jest.mock('../../../hooks/spending-allowances');
+
+const ADDRESS_MOCK = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+const DELEGATE_MOCK = '0x2f6fc5e27628158758ae4688bba809c62713d152';
+const TOKEN_MOCK = '0x1234567890123456789012345678901234567890';
+const ORIGIN_MOCK = 'https://metamask.github.io';
+
+const NETWORK_MOCK = {
+  chainId: 'eip155:1',
+  chainIdHex: '0x1',
+  name: 'Ethereum Mainnet',
+  isSupported: true,
+} as EIP7702NetworkConfiguration;
+
+const ALLOWANCE_MOCK = {
+  origin: ORIGIN_MOCK,
+  token: TOKEN_MOCK,
+  symbol: 'USDC',
+  decimals: 6,
+  periodAmount: '0x2faf080',
+  period: SpendingAllowancePeriod.Week,
+  startDate: 1700000000,
+  chainId: '0x1',
+  delegate: DELEGATE_MOCK,
+  hash: '0x123',
+} as unknown as SpendingAllowance;
+
+function render() {
+  const store = configureStore({
+    ...mockState,
+    metamask: {
+      ...mockState.metamask,
+      allTokens: {
+        '0x1': {
+          [ADDRESS_MOCK]: [
+            { address: TOKEN_MOCK, symbol: 'USDC', decimals: 6 },
+          ],
+        },
+      },
+      subjects: {
+        [ORIGIN_MOCK]: {
+          origin: ORIGIN_MOCK,
+          permissions: {
+            [Caip25EndowmentPermissionName]: {
+              caveats: [
+                {
+                  type: Caip25CaveatType,
+                  value: {
+                    optionalScopes: {},
+                    requiredScopes: {
+                      'eip155:1': { accounts: [`eip155:1:${ADDRESS_MOCK}`] },
+                    },
+                    sessionProperties: {},
+                    isMultichainOrigin: false,
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+    },
+  });
+
+  return renderWithProvider(
+    <SpendingAllowancesSection address={ADDRESS_MOCK as Hex} />,
+    store,
+  );
+}
+
+describe('SpendingAllowancesSection', () => {
+  const useEIP7702NetworksMock = jest.mocked(useEIP7702Networks);
+  const useSpendingAllowancesMock = jest.mocked(useSpendingAllowances);
+  const grantSpendingAllowanceMock = jest.fn();
+  const revokeSpendingAllowanceMock = jest.fn();
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    useEIP7702NetworksMock.mockReturnValue({
+      network7702List: [NETWORK_MOCK],
+      networkSupporting7702Present: true,
+      pending: false,
+    });
+
+    useSpendingAllowancesMock.mockReturnValue({
+      grantSpendingAllowance: grantSpendingAllowanceMock,
+      revokeSpendingAllowance: revokeSpendingAllowanceMock,
+      spendingAllowances: [ALLOWANCE_MOCK],
+    });
+  });
+
+  it('renders nothing if account is not upgraded', () => {
+    useEIP7702NetworksMock.mockReturnValue({
+      network7702List: [{ ...NETWORK_MOCK, isSupported: false }],
+      networkSupporting7702Present: true,
+      pending: false,
+    });
+
+    render();
+
+    expect(
+      screen.queryByTestId('spending-allowances-section'),
+    ).not.toBeInTheDocument();
+  });
+
+  it('renders active allowances', () => {
+    render();
+
+    expect(screen.getByText(ORIGIN_MOCK)).toBeInTheDocument();
+    expect(
+      screen.getByText('50 USDC per week · Ethereum Mainnet'),
+    ).toBeInTheDocument();
+  });
+
+  it('hides allowances on networks where account is not upgraded', () => {
+    useSpendingAllowancesMock.mockReturnValue({
+      grantSpendingAllowance: grantSpendingAllowanceMock,
+      revokeSpendingAllowance: revokeSpendingAllowanceMock,
+      spendingAllowances: [
+        { ...ALLOWANCE_MOCK, chainId: '0xaa36a7' } as SpendingAllowance,
+      ],
+    });
+
+    render();
+
+    expect(
+      screen.queryByTestId('spending-allowance-item'),
+    ).not.toBeInTheDocument();
+    expect(
+      screen.getByText('No active spending allowances'),
+    ).toBeInTheDocument();
+  });
+
+  it('revokes allowance', async () => {
+    revokeSpendingAllowanceMock.mockResolvedValue({});
+
+    render();
+
+    fireEvent.click(screen.getByTestId('spending-allowance-revoke'));
+
+    await waitFor(() => {
+      expect(revokeSpendingAllowanceMock).toHaveBeenCalledWith(ALLOWANCE_MOCK);
+    });
+  });
+
+  it('displays an error if the allowance cannot be revoked', async () => {
+    revokeSpendingAllowanceMock.mockRejectedValue(new Error('Test error'));
+
+    render();
+
+    fireEvent.click(screen.getByTestId('spending-allowance-revoke'));
+
+    expect(
+      await screen.findByText(
+        'Unable to revoke the spending allowance. Please try again.',
+      ),
+    ).toBeInTheDocument();
+    expect(screen.getByTestId('spending-allowance-revoke')).toBeEnabled();
+  });
+
+  it('grants allowance from modal', async () => {
+    grantSpendingAllowanceMock.mockResolvedValue(undefined);
+    jest.spyOn(Date, 'now').mockReturnValue(1700000000000);
+
+    render();
+
+    fireEvent.click(screen.getByTestId('spending-allowance-add'));
+
+    fireEvent.change(screen.getByTestId('add-spending-allowance-delegate'), {
+      target: { value: DELEGATE_MOCK },
+    });
+
+    fireEvent.change(screen.getByTestId('add-spending-allowance-amount'), {
+      target: { value: '50' },
+    });
+
+    fireEvent.click(screen.getByTestId('add-spending-allowance-submit'));
+
+    await waitFor(() => {
+      expect(grantSpendingAllowanceMock).toHaveBeenCalledWith({
+        allowance: {
+          origin: ORIGIN_MOCK,
+          token: TOKEN_MOCK,
+          symbol: 'USDC',
+          decimals: 6,
+          periodAmount: '0x2faf080',
+          period: SpendingAllowancePeriod.Week,
+          startDate: 1700000000,
+        },
+        chainId: '0x1',
+        delegate: DELEGATE_MOCK,
+      });
+    });
+
+    jest.mocked(Date.now).mockRestore();
+  });
+});
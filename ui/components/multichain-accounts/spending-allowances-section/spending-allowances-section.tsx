@@ -0,0 +1,186 @@
+import React, { useMemo, useState } from 'react';
+import { Hex, hexToBigInt } from '@metamask/utils';
+import {
+  Box,
+  ButtonLink,
+  ButtonLinkSize,
+  ButtonSecondary,
+  ButtonSecondarySize,
+  HelpText,
+  HelpTextSeverity,
+  IconName,
+  Text,
+} from '../../component-library';
+import {
+  AlignItems,
+  BackgroundColor,
+  BlockSize,
+  Display,
+  FlexDirection,
+  JustifyContent,
+  TextColor,
+  TextVariant,
+} from '../../../helpers/constants/design-system';
+import { useI18nContext } from '../../../hooks/useI18nContext';
+import { useEIP7702Networks } from '../../../pages/confirmations/hooks/useEIP7702Networks';
+import {
+  SpendingAllowance,
+  useSpendingAllowances,
+} from '../../../hooks/spending-allowances';
+import { calcTokenAmount } from '../../../../shared/lib/transactions-controller-utils';
+import { logErrorWithMessage } from '../../../../shared/modules/error';
+import { SpendingAllowancePeriod } from '../../../../shared/lib/spending-allowance';
+import { AddSpendingAllowanceModal } from './add-spending-allowance-modal';
+
+const PERIOD_MESSAGE_KEYS: Record<SpendingAllowancePeriod, string> = {
+  [SpendingAllowancePeriod.Day]: 'spendingAllowancePerDay',
+  [SpendingAllowancePeriod.Week]: 'spendingAllowancePerWeek',
+  [SpendingAllowancePeriod.Month]: 'spendingAllowancePerMonth',
+};
+
+type SpendingAllowancesSectionProps = {
+  address: Hex;
+};
+
+export const SpendingAllowancesSection = ({
+  address,
+}: SpendingAllowancesSectionProps) => {
+  const t = useI18nContext();
+  const [isAddModalOpen, setIsAddModalOpen] = useState(false);
+  const [revokingHash, setRevokingHash] = useState<Hex>();
+  const [revokeError, setRevokeError] = useState<string>();
+  const { network7702List, pending } = useEIP7702Networks(address);
+
+  const {
+    grantSpendingAllowance,
+    revokeSpendingAllowance,
+    spendingAllowances,
+  } = useSpendingAllowances({
+    address,
+    onRedirect: () => setRevokingHash(undefined),
+  });
+
+  const upgradedNetworks = useMemo(
+    () => network7702List.filter((network) => network.isSupported),
+    [network7702List],
+  );
+
+  const allowances = spendingAllowances.filter((allowance) =>
+    upgradedNetworks.some(
+      (network) => network.chainIdHex === allowance.chainId,
+    ),
+  );
+
+  if (pending || upgradedNetworks.length === 0) {
+    return null;
+  }
+
+  const handleRevoke = (allowance: SpendingAllowance) => {
+    setRevokingHash(allowance.hash);
+    setRevokeError(undefined);
+
+    revokeSpendingAllowance(allowance).catch((error) => {
+      logErrorWithMessage(error);
+      setRevokeError(t('spendingAllowanceRevokeFailed'));
+      setRevokingHash(undefined);
+    });
+  };
+
+  return (
+    <Box
+      width={BlockSize.Full}
+      backgroundColor={BackgroundColor.backgroundSection}
+      marginTop={4}
+      paddingTop={3}
+      paddingBottom={4}
+      paddingLeft={4}
+      paddingRight={4}
+      style={{ borderRadius: '8px' }}
+      data-testid="spending-allowances-section"
+    >
+      <Text variant={TextVariant.bodyMdMedium} marginBottom={2}>
+        {t('spendingAllowances')}
+      </Text>
+      <Text
+        color={TextColor.textAlternative}
+        variant={TextVariant.bodySm}
+        marginBottom={2}
+      >
+        {t('spendingAllowancesDescription')}
+      </Text>
+      {allowances.length === 0 && (
+        <Text
+          color={TextColor.textAlternative}
+          variant={TextVariant.bodySm}
+          paddingTop={2}
+          paddingBottom={2}
+        >
+          {t('spendingAllowancesEmpty')}
+        </Text>
+      )}
+      {allowances.map((allowance) => (
+        <Box
+          key={allowance.hash}
+          display={Display.Flex}
+          justifyContent={JustifyContent.spaceBetween}
+          alignItems={AlignItems.center}
+          paddingTop={2}
+          paddingBottom={2}
+          data-testid="spending-allowance-item"
+        >
+          <Box display={Display.Flex} flexDirection={FlexDirection.Column}>
+            <Text variant={TextVariant.bodyMdMedium}>{allowance.origin}</Text>
+            <Text
+              color={TextColor.textAlternative}
+              variant={TextVariant.bodySm}
+            >
+              {t(PERIOD_MESSAGE_KEYS[allowance.period], [
+                calcTokenAmount(
+                  hexToBigInt(allowance.periodAmount).toString(),
+                  allowance.decimals,
+                ).toFixed(),
+                allowance.symbol,
+              ])}
+              {' · '}
+              {
+                upgradedNetworks.find(
+                  (network) => network.chainIdHex === allowance.chainId,
+                )?.name
+              }
+            </Text>
+          </Box>
+          <ButtonSecondary
+            size={ButtonSecondarySize.Sm}
+            danger
+            disabled={Boolean(revokingHash)}
+            loading={revokingHash === allowance.hash}
+            onClick={() => handleRevoke(allowance)}
+            data-testid="spending-allowance-revoke"
+          >
+            {t('spendingAllowanceRevoke')}
+          </ButtonSecondary>
+        </Box>
+      ))}
+      {revokeError && (
+        <HelpText severity={HelpTextSeverity.Danger}>{revokeError}</HelpText>
+      )}
+      <ButtonLink
+        size={ButtonLinkSize.Sm}
+        startIconName={IconName.Add}
+        marginTop={2}
+        onClick={() => setIsAddModalOpen(true)}
+        data-testid="spending-allowance-add"
+      >
+        {t('addSpendingAllowance')}
+      </ButtonLink>
+      {isAddModalOpen && (
+        <AddSpendingAllowanceModal
+          address={address}
+          networks={upgradedNetworks}
+          onClose={() => setIsAddModalOpen(false)}
+          onSubmit={grantSpendingAllowance}
+        />
+      )}
+    </Box>
+  );
+};
@@ -2,6 +2,7 @@ import React, { useState, useRef } from 'react';
 import PropTypes from 'prop-types';
 import classNames from 'classnames';
 import { useSelector } from 'react-redux';
+import { DateTime } from 'luxon';
 import {
   AlignItems,
   BackgroundColor,
@@ -26,13 +27,19 @@ import {
   getAllPermittedAccounts,
   getOriginOfCurrentTab,
   getSubjectMetadata,
+  selectConnectionExpiry,
 } from '../../../selectors';
 import { getDappActiveNetwork } from '../../../selectors/dapp';
+import { getIntlLocale } from '../../../ducks/locale/locale';
+import { useI18nContext } from '../../../hooks/useI18nContext';
+import Tooltip from '../../ui/tooltip';
 import { ConnectedSitePopover } from '../connected-site-popover';
 import { STATUS_CONNECTED } from '../../../helpers/constants/connected-sites';
 import { CHAIN_ID_TO_NETWORK_IMAGE_URL_MAP } from '../../../../shared/constants/network';
+import { ConnectionDuration } from '../../../../shared/constants/connection-expiry';
 
 export const ConnectedSiteMenu = ({ className, disabled, onClick, status }) => {
+  const t = useI18nContext();
   const [showPopover, setShowPopover] = useState(false);
 
   const referenceElement = useRef(null);
@@ -43,9 +50,32 @@ export const ConnectedSiteMenu = ({ className, disabled, onClick, status }) => {
     getAllPermittedAccounts(state, activeTabOrigin),
   );
   const dappActiveNetwork = useSelector(getDappActiveNetwork);
+  const connectionExpiry = useSelector((state) =>
+    selectConnectionExpiry(state, activeTabOrigin),
+  );
+  const locale = useSelector(getIntlLocale);
   const currentTabHasNoAccounts = !permittedAccountsByOrigin?.length;
   const connectedSubjectsMetadata = subjectMetadata[activeTabOrigin];
 
+  // Remaining lifetime of a connection that is revoked automatically
+  const getConnectionExpiryTitle = () => {
+    if (!connectionExpiry || currentTabHasNoAccounts) {
+      return undefined;
+    }
+
+    if (connectionExpiry.duration === ConnectionDuration.Session) {
+      return t('connectionExpiresAtSessionEnd');
+    }
+
+    return t('connectionExpiresIn', [
+      DateTime.fromMillis(connectionExpiry.expiresAt)
+        .setLocale(locale)
+        .toRelative(),
+    ]);
+  };
+
+  const connectionExpiryTitle = getConnectionExpiryTitle();
+
   // Get network image URL for the badge
   const getNetworkImageSrc = () => {
     if (dappActiveNetwork?.chainId) {
@@ -82,25 +112,36 @@ export const ConnectedSiteMenu = ({ className, disabled, onClick, status }) => {
       />
     </BadgeWrapper>
   );
+
+  const menuButton = (
+    <Box
+      className={classNames(
+        `multichain-connected-site-menu${disabled ? '--disabled' : ''}`,
+        className,
+      )}
+      data-testid="connection-menu"
+      as="button"
+      display={Display.Flex}
+      alignItems={AlignItems.center}
+      justifyContent={JustifyContent.center}
+      backgroundColor={BackgroundColor.backgroundDefault}
+      ref={referenceElement}
+      onClick={() => setShowPopover(true)}
+      borderRadius={BorderRadius.LG}
+    >
+      <>{iconElement}</>
+    </Box>
+  );
+
   return (
     <>
-      <Box
-        className={classNames(
-          `multichain-connected-site-menu${disabled ? '--disabled' : ''}`,
-          className,
-        )}
-        data-testid="connection-menu"
-        as="button"
-        display={Display.Flex}
-        alignItems={AlignItems.center}
-        justifyContent={JustifyContent.center}
-        backgroundColor={BackgroundColor.backgroundDefault}
-        ref={referenceElement}
-        onClick={() => setShowPopover(true)}
-        borderRadius={BorderRadius.LG}
-      >
-        <>{iconElement}</>
-      </Box>
+      {connectionExpiryTitle ? (
+        <Tooltip position="bottom" title={connectionExpiryTitle}>
+          {menuButton}
+        </Tooltip>
+      ) : (
+        menuButton
+      )}
       {showPopover && (
         <ConnectedSitePopover
           referenceElement={referenceElement}
@@ -12,6 +12,7 @@ import {
 } from '../../../helpers/constants/design-system';
 import { CHAIN_IDS } from '../../../../shared/constants/network';
 import { createMockInternalAccount } from '../../../../test/jest/mocks';
+import { ConnectionDuration } from '../../../../shared/constants/connection-expiry';
 import { ConnectedSiteMenu } from '.';
 
 describe('Connected Site Menu', () => {
@@ -238,4 +239,46 @@ describe('Connected Site Menu', () => {
     expect(getByTestId('connection-menu')).toBeDefined();
     expect(container).toMatchSnapshot();
   });
+
+  it('should show when a session connection disconnects', () => {
+    const props = {
+      globalMenuColor: Color.successDefault,
+      text: 'connected',
+      status: STATUS_CONNECTED,
+    };
+    const store = configureMockStore()(
+      createMockStore({
+        metamask: {
+          connectionExpiries: {
+            'https://uniswap.org/': { duration: ConnectionDuration.Session },
+          },
+        },
+      }),
+    );
+    const { container } = renderWithProvider(
+      <ConnectedSiteMenu {...props} />,
+      store,
+    );
+    expect(
+      container.querySelector(
+        '[data-original-title="Disconnects automatically when you close your browser"]',
+      ),
+    ).toBeInTheDocument();
+  });
+
+  it('should not show an expiry if the connection does not expire', () => {
+    const props = {
+      globalMenuColor: Color.successDefault,
+      text: 'connected',
+      status: STATUS_CONNECTED,
+    };
+    const store = configureMockStore()(createMockStore());
+    const { container } = renderWithProvider(
+      <ConnectedSiteMenu {...props} />,
+      store,
+    );
+    expect(
+      container.querySelector('[data-original-title]'),
+    ).not.toBeInTheDocument();
+  });
 });
@@ -0,0 +1,56 @@
+import React from 'react';
+import { fireEvent } from '@testing-library/react';
+import { renderWithProvider } from '../../../../test/jest/rendering';
+import mockState from '../../../../test/data/mock-state.json';
+import configureStore from '../../../store/store';
+import { RESTRICTABLE_RPC_METHODS } from '../../../../shared/constants/permissions';
+import { EditRpcMethodsModal } from '.';
+
+const render = (
+  props: Partial<React.ComponentProps<typeof EditRpcMethodsModal>> = {},
+) => {
+  const store = configureStore(mockState);
+
+  return renderWithProvider(
+    <EditRpcMethodsModal onClose={jest.fn()} onSubmit={jest.fn()} {...props} />,
+    store,
+  );
+};
+
+describe('EditRpcMethodsModal', () => {
+  it('allows every method if the site is not restricted', () => {
+    const { getByLabelText } = render();
+
+    RESTRICTABLE_RPC_METHODS.forEach((method) => {
+      expect(getByLabelText(method)).toBeChecked();
+    });
+  });
+
+  it('submits the allowed methods', () => {
+    const onSubmit = jest.fn();
+    const { getByLabelText, getByTestId } = render({
+      defaultAllowedMethods: ['personal_sign', 'eth_signTypedData_v4'],
+      onSubmit,
+    });
+
+    fireEvent.click(getByLabelText('eth_signTypedData_v4'));
+    fireEvent.click(getByTestId('edit-rpc-methods-modal-submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith(['personal_sign']);
+  });
+
+  it('submits null if every method is allowed', () => {
+    const onSubmit = jest.fn();
+    const { getByLabelText, getByTestId } = render({
+      defaultAllowedMethods: RESTRICTABLE_RPC_METHODS.filter(
+        (method) => method !== 'wallet_addEthereumChain',
+      ),
+      onSubmit,
+    });
+
+    fireEvent.click(getByLabelText('wallet_addEthereumChain'));
+    fireEvent.click(getByTestId('edit-rpc-methods-modal-submit'));
+
+    expect(onSubmit).toHaveBeenCalledWith(null);
+  });
+});
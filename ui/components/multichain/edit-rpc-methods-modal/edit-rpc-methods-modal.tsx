@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { useI18nContext } from '../../../hooks/useI18nContext';
+import {
+  Modal,
+  ModalOverlay,
+  ModalContent,
+  ModalHeader,
+  Checkbox,
+  Box,
+  ModalFooter,
+  ButtonPrimary,
+  ButtonPrimarySize,
+  ModalBody,
+  Text,
+} from '../../component-library';
+import {
+  TextColor,
+  TextVariant,
+} from '../../../helpers/constants/design-system';
+import { RESTRICTABLE_RPC_METHODS } from '../../../../shared/constants/permissions';
+
+type EditRpcMethodsModalProps = {
+  /**
+   * The restrictable methods the site is currently allowed to call, or
+   * undefined if the site may call every method.
+   */
+  defaultAllowedMethods?: string[];
+  onClose: () => void;
+  /**
+   * Called with the methods the site may call, or null if every method is
+   * allowed.
+   */
+  onSubmit: (methods: string[] | null) => void;
+};
+
+export const EditRpcMethodsModal: React.FC<EditRpcMethodsModalProps> = ({
+  defaultAllowedMethods,
+  onClose,
+  onSubmit,
+}) => {
+  const t = useI18nContext();
+
+  const [allowedMethods, setAllowedMethods] = useState<string[]>(
+    defaultAllowedMethods ?? [...RESTRICTABLE_RPC_METHODS],
+  );
+
+  const allAreAllowed = RESTRICTABLE_RPC_METHODS.every((method) =>
+    allowedMethods.includes(method),
+  );
+
+  const handleMethodClick = (method: string) => {
+    setAllowedMethods(
+      allowedMethods.includes(method)
+        ? allowedMethods.filter((allowedMethod) => allowedMethod !== method)
+        : [...allowedMethods, method],
+    );
+  };
+
+  const handleSubmit = () => {
+    onSubmit(allAreAllowed ? null : allowedMethods);
+    onClose();
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} className="edit-rpc-methods-modal">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader onClose={onClose}>{t('editRpcMethodsTitle')}</ModalHeader>
+        <ModalBody>
+          <Text
+            variant={TextVariant.bodySm}
+            color={TextColor.textAlternative}
+            paddingBottom={4}
+          >
+            {t('editRpcMethodsDescription')}
+          </Text>
+          <Box paddingBottom={4}>
+            <Checkbox
+              label={t('selectAll')}
+              isChecked={allAreAllowed}
+              isIndeterminate={!allAreAllowed && allowedMethods.length > 0}
+              onChange={() =>
+                setAllowedMethods(
+                  allAreAllowed ? [] : [...RESTRICTABLE_RPC_METHODS],
+                )
+              }
+            />
+          </Box>
+          {RESTRICTABLE_RPC_METHODS.map((method) => (
+            <Box key={method} paddingBottom={2}>
+              <Checkbox
+                label={method}
+                isChecked={allowedMethods.includes(method)}
+                onChange={() => handleMethodClick(method)}
+                data-testid={`edit-rpc-methods-modal-${method}`}
+              />
+            </Box>
+          ))}
+        </ModalBody>
+        <ModalFooter>
+          <ButtonPrimary
+            data-testid="edit-rpc-methods-modal-submit"
+            onClick={handleSubmit}
+            size={ButtonPrimarySize.Lg}
+            block
+          >
+            {t('update')}
+          </ButtonPrimary>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1 @@
+export { EditRpcMethodsModal } from './edit-rpc-methods-modal';
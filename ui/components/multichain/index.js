@@ -51,6 +51,7 @@ export { DisconnectPermissionsModal } from './disconnect-permissions-modal';
 export { ReceiveModal } from './receive-modal';
 export { EditNetworksModal } from './edit-networks-modal';
 export { EditAccountsModal } from './edit-accounts-modal';
+export { EditRpcMethodsModal } from './edit-rpc-methods-modal';
 export {
   Carousel,
   CarouselWithEmptyState,
@@ -451,5 +451,134 @@ describe('Permission List Item', () => {
         expect(streamRate.textContent).toContain('Unknown amount');
       });
     });
+
+    describe('usage', () => {
+      const mockNativeTokenStreamPermission: StoredGatorPermissionSanitized<
+        Signer,
+        NativeTokenStreamPermission
+      > = {
+        permissionResponse: {
+          chainId: '0x1',
+          address: mockSelectedAccountAddress,
+          permission: {
+            type: 'native-token-stream',
+            isAdjustmentAllowed: false,
+            data: {
+              maxAmount: '0x22b1c8c1227a0000', // 2.5 ETH (18 decimals)
+              initialAmount: '0x6f05b59d3b20000', // 0.5 ETH (18 decimals)
+              amountPerSecond: '0x6f05b59d3b20000', // 0.5 ETH/sec (18 decimals)
+              startTime: mockStartTime,
+              justification: 'Streaming allowance',
+            },
+          },
+          context: '0x00000000',
+          signerMeta: {
+            delegationManager: '0xdb9B1e94B5b69Df7e401DDbedE43491141047dB3',
+          },
+        },
+        siteOrigin: 'http://localhost:8000',
+      };
+
+      it('does not render usage if not loaded', () => {
+        const { queryByTestId } = renderWithProvider(
+          <ReviewGatorPermissionItem
+            networkName={mockNetworkName}
+            gatorPermission={mockNativeTokenStreamPermission}
+            onRevokeClick={() => mockOnClick()}
+          />,
+          store,
+        );
+
+        expect(
+          queryByTestId('review-gator-permission-remaining'),
+        ).not.toBeInTheDocument();
+      });
+
+      it('renders remaining amount and redemptions', () => {
+        const { container, getByTestId, getAllByTestId } = renderWithProvider(
+          <ReviewGatorPermissionItem
+            networkName={mockNetworkName}
+            gatorPermission={mockNativeTokenStreamPermission}
+            onRevokeClick={() => mockOnClick()}
+            usage={{
+              remainingAmount: '0x16345785d8a0000', // 0.1 ETH
+              redemptions: [
+                {
+                  amount: '0x6f05b59d3b20000',
+                  blockNumber: '0x10',
+                  redeemer: '0x2234567890abcdef1234567890abcdef12345678',
+                  timestamp: mockStartTime,
+                  transactionHash:
+                    '0x1111111111111111111111111111111111111111111111111111111111111111',
+                },
+              ],
+            }}
+          />,
+          store,
+        );
+
+        expect(
+          getByTestId('review-gator-permission-remaining'),
+        ).toHaveTextContent('0.1 ETH');
+
+        const expandButton = container.querySelector('[aria-label="expand"]');
+        if (expandButton) {
+          fireEvent.click(expandButton);
+        }
+
+        const redemptions = getAllByTestId(
+          'review-gator-permission-redemption',
+        );
+        expect(redemptions).toHaveLength(1);
+        expect(redemptions[0]).toHaveTextContent('01/07/2025');
+        expect(redemptions[0]).toHaveTextContent('0.5 ETH');
+      });
+
+      it('renders unlocked amount of stream that was never redeemed', () => {
+        const { container, getByTestId, getByText } = renderWithProvider(
+          <ReviewGatorPermissionItem
+            networkName={mockNetworkName}
+            gatorPermission={mockNativeTokenStreamPermission}
+            onRevokeClick={() => mockOnClick()}
+            usage={{ redemptions: [] }}
+          />,
+          store,
+        );
+
+        // Capped at the max amount as the stream started in the past
+        expect(
+          getByTestId('review-gator-permission-remaining'),
+        ).toHaveTextContent('2.5 ETH');
+
+        const expandButton = container.querySelector('[aria-label="expand"]');
+        if (expandButton) {
+          fireEvent.click(expandButton);
+        }
+
+        expect(getByText('Not used yet')).toBeInTheDocument();
+      });
+
+      it('renders unavailable history if redemptions could not be read', () => {
+        const { container, getByText, queryByText } = renderWithProvider(
+          <ReviewGatorPermissionItem
+            networkName={mockNetworkName}
+            gatorPermission={mockNativeTokenStreamPermission}
+            onRevokeClick={() => mockOnClick()}
+            usage={{}}
+          />,
+          store,
+        );
+
+        const expandButton = container.querySelector('[aria-label="expand"]');
+        if (expandButton) {
+          fireEvent.click(expandButton);
+        }
+
+        expect(
+          getByText("Usage history couldn't be loaded"),
+        ).toBeInTheDocument();
+        expect(queryByText('Not used yet')).not.toBeInTheDocument();
+      });
+    });
   });
 });
@@ -38,8 +38,11 @@ import {
   extractExpiryToReadableDate,
   GatorPermissionRule,
   convertAmountPerSecondToAmountPerPeriod,
+  convertMillisecondsToSeconds,
   getDecimalizedHexValue,
+  getStreamAvailableAmount,
 } from '../../../../../../shared/lib/gator-permissions';
+import { GatorPermissionUsage } from '../../../../../../shared/types/gator-permission-usage';
 import { PreferredAvatar } from '../../../../app/preferred-avatar';
 import { BackgroundColor } from '../../../../../helpers/constants/design-system';
 import {
@@ -78,6 +81,11 @@ type ReviewGatorPermissionItemProps = {
    * Whether this permission has a pending revoke click (temporary UI state)
    */
   hasRevokeBeenClicked?: boolean;
+
+  /**
+   * The redemptions and remaining budget of the permission, if loaded
+   */
+  usage?: GatorPermissionUsage;
 };
 
 type PermissionExpandedDetails = Record<
@@ -108,6 +116,7 @@ export const ReviewGatorPermissionItem = ({
   gatorPermission,
   onRevokeClick,
   hasRevokeBeenClicked = false,
+  usage,
 }: ReviewGatorPermissionItemProps) => {
   const t = useI18nContext();
   const { permissionResponse, siteOrigin } = gatorPermission;
@@ -156,6 +165,52 @@ export const ReviewGatorPermissionItem = ({
     };
   }, [tokensByChain, chainId, tokenAddress, nativeTokenMetadata]);
 
+  /**
+   * Formats a token amount using the metadata of the permission token
+   *
+   * @param amount - The amount to format
+   * @returns The formatted amount
+   */
+  const formatTokenAmount = useCallback(
+    (amount: Hex): string => {
+      const { symbol, decimals } = tokenMetadata;
+      return decimals === null
+        ? t('gatorPermissionUnknownTokenAmount')
+        : `${getDecimalizedHexValue(amount, decimals)} ${symbol}`;
+    },
+    [tokenMetadata, t],
+  );
+
+  const remainingAmount = useMemo((): Hex | undefined => {
+    if (!usage) {
+      return undefined;
+    }
+
+    if (usage.remainingAmount) {
+      return usage.remainingAmount;
+    }
+
+    const isStream =
+      permissionType === 'native-token-stream' ||
+      permissionType === 'erc20-token-stream';
+
+    // Streaming enforcers only report allowances once a stream is redeemed
+    if (isStream && usage.redemptions?.length === 0) {
+      const { data } = permissionResponse.permission;
+      return getStreamAvailableAmount(
+        {
+          initialAmount: data.initialAmount as Hex | undefined,
+          maxAmount: data.maxAmount as Hex | undefined,
+          amountPerSecond: data.amountPerSecond as Hex,
+          startTime: data.startTime as number,
+        },
+        convertMillisecondsToSeconds(Date.now()),
+      );
+    }
+
+    return undefined;
+  }, [usage, permissionType, permissionResponse.permission]);
+
   const isPendingRevocation = useMemo(() => {
     return (
       hasRevokeBeenClicked ||
@@ -464,6 +519,34 @@ export const ReviewGatorPermissionItem = ({
           </Box>
         </Box>
 
+        {/* Remaining budget row */}
+        {usage && (
+          <Box
+            flexDirection={BoxFlexDirection.Row}
+            justifyContent={BoxJustifyContent.Between}
+            style={{ flex: '1', alignSelf: 'center' }}
+            gap={4}
+            marginTop={2}
+          >
+            <Text
+              textAlign={TextAlign.Left}
+              color={TextColor.TextAlternative}
+              variant={TextVariant.BodyMd}
+            >
+              {t('gatorPermissionsRemaining')}
+            </Text>
+            <Text
+              variant={TextVariant.BodyMd}
+              color={TextColor.TextAlternative}
+              data-testid="review-gator-permission-remaining"
+            >
+              {remainingAmount
+                ? formatTokenAmount(remainingAmount)
+                : t('gatorPermissionUnknownTokenAmount')}
+            </Text>
+          </Box>
+        )}
+
         {/* Account row */}
         <Box
           flexDirection={BoxFlexDirection.Row}
@@ -596,6 +679,64 @@ export const ReviewGatorPermissionItem = ({
                 );
               },
             )}
+
+            {/* Usage history */}
+            {usage && (
+              <Box marginTop={2} data-testid="review-gator-permission-usage">
+                <Text
+                  textAlign={TextAlign.Left}
+                  color={TextColor.TextAlternative}
+                  variant={TextVariant.BodyMd}
+                >
+                  {t('gatorPermissionsUsageHistory')}
+                </Text>
+                {!usage.redemptions && (
+                  <Text
+                    color={TextColor.TextMuted}
+                    variant={TextVariant.BodySm}
+                    marginTop={1}
+                  >
+                    {t('gatorPermissionsUsageHistoryUnavailable')}
+                  </Text>
+                )}
+                {usage.redemptions?.length === 0 && (
+                  <Text
+                    color={TextColor.TextMuted}
+                    variant={TextVariant.BodySm}
+                    marginTop={1}
+                  >
+                    {t('gatorPermissionsNotUsed')}
+                  </Text>
+                )}
+                {usage.redemptions?.map((redemption) => (
+                  <Box
+                    key={`${redemption.transactionHash}-${redemption.blockNumber}`}
+                    flexDirection={BoxFlexDirection.Row}
+                    justifyContent={BoxJustifyContent.Between}
+                    gap={4}
+                    marginTop={1}
+                    data-testid="review-gator-permission-redemption"
+                  >
+                    <Text
+                      color={TextColor.TextAlternative}
+                      variant={TextVariant.BodySm}
+                    >
+                      {redemption.timestamp
+                        ? convertTimestampToReadableDate(redemption.timestamp)
+                        : shortenAddress(redemption.transactionHash)}
+                    </Text>
+                    <Text
+                      color={TextColor.TextAlternative}
+                      variant={TextVariant.BodySm}
+                    >
+                      {redemption.amount
+                        ? formatTokenAmount(redemption.amount)
+                        : t('gatorPermissionUnknownTokenAmount')}
+                    </Text>
+                  </Box>
+                ))}
+              </Box>
+            )}
           </>
         )}
       </Box>
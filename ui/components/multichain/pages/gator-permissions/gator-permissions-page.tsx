@@ -26,6 +26,7 @@ import {
 import { useI18nContext } from '../../../../hooks/useI18nContext';
 import {
   DEFAULT_ROUTE,
+  GATOR_PERMISSIONS_BY_SITE_ROUTE,
   PERMISSIONS,
   TOKEN_TRANSFER_ROUTE,
 } from '../../../../helpers/constants/routes';
@@ -61,6 +62,9 @@ export const GatorPermissionsPage = () => {
       case 'token-transfer':
         navigate(TOKEN_TRANSFER_ROUTE);
         break;
+      case 'by-site':
+        navigate(GATOR_PERMISSIONS_BY_SITE_ROUTE);
+        break;
       default:
         console.error('Invalid permission group name:', permissionGroupName);
         break;
@@ -120,6 +124,11 @@ export const GatorPermissionsPage = () => {
               permissionGroupName={t('tokenTransfer')}
               onClick={() => handlePermissionGroupNameClick('token-transfer')}
             />
+            <PermissionListItem
+              total={totalGatorPermissions}
+              permissionGroupName={t('gatorPermissionsBySite')}
+              onClick={() => handlePermissionGroupNameClick('by-site')}
+            />
           </>
         )}
       </Box>
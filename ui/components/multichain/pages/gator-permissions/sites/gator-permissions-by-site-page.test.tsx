@@ -0,0 +1,116 @@
+import React from 'react';
+import { Hex } from '@metamask/utils';
+import configureStore from '../../../../../store/store';
+import mockState from '../../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../../test/lib/render-helpers-navigate';
+import { GatorPermissionsBySitePage } from './gator-permissions-by-site-page';
+
+jest.mock(
+  '../../../../../hooks/gator-permissions/useGatorPermissionUsage',
+  () => ({
+    useGatorPermissionUsage: () => ({
+      pending: false,
+      value: { remainingAmount: '0x6f05b59d3b20000', redemptions: [] },
+    }),
+  }),
+);
+
+jest.mock(
+  '../../../../../hooks/gator-permissions/useRevokeGatorPermissions',
+  () => ({
+    useRevokeGatorPermissions: () => ({
+      revokeGatorPermission: jest.fn(),
+    }),
+  }),
+);
+
+const MOCK_CHAIN_ID = '0x1' as Hex;
+
+function buildPermission(siteOrigin: string) {
+  return {
+    permissionResponse: {
+      chainId: MOCK_CHAIN_ID,
+      address: '0xB68c70159E9892DdF5659ec42ff9BD2bbC23e778',
+      permission: {
+        type: 'native-token-periodic',
+        isAdjustmentAllowed: false,
+        data: {
+          periodAmount: '0x22b1c8c1227a0000',
+          periodDuration: 86400,
+          startTime: 1747699200,
+          justification: 'Periodic allowance',
+        },
+      },
+      context: '0x00000000',
+      signerMeta: {
+        delegationManager: '0xdb9B1e94B5b69Df7e401DDbedE43491141047dB3',
+      },
+    },
+    siteOrigin,
+  };
+}
+
+function createStore(permissions: ReturnType<typeof buildPermission>[]) {
+  return configureStore({
+    ...mockState,
+    metamask: {
+      ...mockState.metamask,
+      gatorPermissionsMapSerialized: JSON.stringify({
+        'native-token-periodic': { [MOCK_CHAIN_ID]: permissions },
+        'native-token-stream': {},
+        'erc20-token-stream': {},
+        'erc20-token-periodic': {},
+        other: {},
+      }),
+      isGatorPermissionsEnabled: true,
+      isFetchingGatorPermissions: false,
+      isUpdatingGatorPermissions: false,
+    },
+  });
+}
+
+describe('Gator Permissions By Site Page', () => {
+  describe('render', () => {
+    it('renders Gator Permissions By Site page title', () => {
+      const { getByTestId } = renderWithProvider(
+        <GatorPermissionsBySitePage />,
+        createStore([]),
+      );
+
+      expect(getByTestId('gator-permissions-by-site-page')).toBeInTheDocument();
+      expect(
+        getByTestId('gator-permissions-by-site-page-title'),
+      ).toBeInTheDocument();
+    });
+
+    it('renders empty state if no permissions', () => {
+      const { getByTestId } = renderWithProvider(
+        <GatorPermissionsBySitePage />,
+        createStore([]),
+      );
+
+      expect(getByTestId('no-connections')).toBeInTheDocument();
+    });
+
+    it('renders permissions grouped by site with remaining amount', () => {
+      const { getAllByTestId } = renderWithProvider(
+        <GatorPermissionsBySitePage />,
+        createStore([
+          buildPermission('http://localhost:8000'),
+          buildPermission('https://example.com'),
+          buildPermission('https://example.com'),
+        ]),
+      );
+
+      const sites = getAllByTestId('gator-permissions-site');
+      expect(sites).toHaveLength(2);
+
+      expect(getAllByTestId('review-gator-permission-remaining')).toHaveLength(
+        3,
+      );
+      expect(
+        getAllByTestId('review-gator-permission-remaining')[0],
+      ).toHaveTextContent('0.5 ETH');
+    });
+  });
+});
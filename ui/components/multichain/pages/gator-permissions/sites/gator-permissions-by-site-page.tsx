@@ -0,0 +1,183 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom-v5-compat';
+import { useSelector } from 'react-redux';
+import { Hex } from '@metamask/utils';
+import {
+  Box,
+  BoxFlexDirection,
+  BoxJustifyContent,
+  ButtonIcon,
+  ButtonIconSize,
+  IconColor,
+  IconName,
+  Text,
+  TextAlign,
+  TextColor,
+  TextVariant,
+} from '@metamask/design-system-react';
+import {
+  PermissionTypesWithCustom,
+  Signer,
+  StoredGatorPermissionSanitized,
+} from '@metamask/gator-permissions-controller';
+import { Content, Header, Page } from '../../page';
+import {
+  BackgroundColor,
+  TextVariant as TextVariantLocal,
+} from '../../../../../helpers/constants/design-system';
+import { PREVIOUS_ROUTE } from '../../../../../helpers/constants/routes';
+import { useI18nContext } from '../../../../../hooks/useI18nContext';
+import { useGatorPermissionUsage } from '../../../../../hooks/gator-permissions/useGatorPermissionUsage';
+import { useRevokeGatorPermissions } from '../../../../../hooks/gator-permissions/useRevokeGatorPermissions';
+import { getMultichainNetworkConfigurationsByChainId } from '../../../../../selectors';
+import {
+  AppState,
+  getTokenTransferPermissionsByOrigin,
+  getUniqueSiteOriginsFromTokenTransferPermissions,
+} from '../../../../../selectors/gator-permissions/gator-permissions';
+import { ReviewGatorPermissionItem } from '../components';
+import { extractNetworkName, getDisplayOrigin } from '../helper';
+
+type GatorPermission = StoredGatorPermissionSanitized<
+  Signer,
+  PermissionTypesWithCustom
+>;
+
+const GatorPermissionUsageItem = ({
+  gatorPermission,
+}: {
+  gatorPermission: GatorPermission;
+}) => {
+  const t = useI18nContext();
+  const { chainId } = gatorPermission.permissionResponse;
+  const [hasRevokeBeenClicked, setHasRevokeBeenClicked] = useState(false);
+  const [, evmNetworks] = useSelector(
+    getMultichainNetworkConfigurationsByChainId,
+  );
+
+  const { value: usage } = useGatorPermissionUsage(gatorPermission);
+  const { revokeGatorPermission } = useRevokeGatorPermissions({ chainId });
+
+  const networkName: string = useMemo(() => {
+    const networkNameKey = extractNetworkName(evmNetworks, chainId as Hex);
+    const networkNameFromTranslation: string = t(networkNameKey);
+
+    if (
+      !networkNameFromTranslation ||
+      networkNameFromTranslation === networkNameKey
+    ) {
+      return extractNetworkName(evmNetworks, chainId as Hex, true);
+    }
+
+    return networkNameFromTranslation;
+  }, [chainId, evmNetworks, t]);
+
+  const handleRevokeClick = useCallback(async () => {
+    setHasRevokeBeenClicked(true);
+
+    try {
+      await revokeGatorPermission(gatorPermission);
+    } catch (error) {
+      console.error('Error revoking gator permission:', error);
+      setHasRevokeBeenClicked(false);
+    }
+  }, [gatorPermission, revokeGatorPermission]);
+
+  return (
+    <ReviewGatorPermissionItem
+      networkName={networkName}
+      gatorPermission={gatorPermission}
+      // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31879
+      // eslint-disable-next-line @typescript-eslint/no-misused-promises
+      onRevokeClick={handleRevokeClick}
+      hasRevokeBeenClicked={hasRevokeBeenClicked}
+      usage={usage}
+    />
+  );
+};
+
+const SiteGatorPermissions = ({ origin }: { origin: string }) => {
+  const gatorPermissions = useSelector((state: AppState) =>
+    getTokenTransferPermissionsByOrigin(state, origin),
+  );
+
+  return (
+    <Box data-testid="gator-permissions-site">
+      <Text
+        variant={TextVariant.BodyMdMedium}
+        color={TextColor.TextAlternative}
+        paddingLeft={4}
+        paddingRight={4}
+        marginTop={4}
+      >
+        {getDisplayOrigin(origin, false)}
+      </Text>
+      {gatorPermissions.map((gatorPermission) => (
+        <GatorPermissionUsageItem
+          key={gatorPermission.permissionResponse.context}
+          gatorPermission={gatorPermission}
+        />
+      ))}
+    </Box>
+  );
+};
+
+export const GatorPermissionsBySitePage = () => {
+  const t = useI18nContext();
+  const navigate = useNavigate();
+  const origins = useSelector(getUniqueSiteOriginsFromTokenTransferPermissions);
+
+  return (
+    <Page
+      className="main-container"
+      data-testid="gator-permissions-by-site-page"
+      key="gator-permissions-by-site-page"
+    >
+      <Header
+        backgroundColor={BackgroundColor.backgroundDefault}
+        startAccessory={
+          <ButtonIcon
+            ariaLabel={t('back')}
+            iconName={IconName.ArrowLeft}
+            className="connections-header__start-accessory"
+            color={IconColor.IconDefault}
+            onClick={() => navigate(PREVIOUS_ROUTE)}
+            size={ButtonIconSize.Sm}
+          />
+        }
+        textProps={{
+          variant: TextVariantLocal.headingMd,
+          'data-testid': 'gator-permissions-by-site-page-title',
+        }}
+      >
+        {t('gatorPermissionsBySite')}
+      </Header>
+      <Content padding={0}>
+        {origins.length > 0 ? (
+          origins.map((origin) => (
+            <SiteGatorPermissions key={origin} origin={origin} />
+          ))
+        ) : (
+          <Box
+            data-testid="no-connections"
+            flexDirection={BoxFlexDirection.Column}
+            justifyContent={BoxJustifyContent.Center}
+            gap={2}
+            padding={4}
+          >
+            <Text variant={TextVariant.BodyMd} textAlign={TextAlign.Center}>
+              {t('permissionsPageEmptyContent')}
+            </Text>
+            <Text
+              variant={TextVariant.BodyMd}
+              color={TextColor.TextAlternative}
+              textAlign={TextAlign.Center}
+            >
+              {t('permissionsPageEmptySubContent')}
+            </Text>
+          </Box>
+        )}
+      </Content>
+    </Page>
+  );
+};
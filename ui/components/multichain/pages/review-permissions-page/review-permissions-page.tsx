@@ -20,6 +20,7 @@ import { getAllNetworkConfigurationsByCaipChainId } from '../../../../../shared/
 import {
   getAllPermittedAccountsForSelectedTab,
   getAllPermittedChainsForSelectedTab,
+  getAllowedRpcMethods,
   getConnectedSitesList,
   getPermissionSubjects,
   getShowPermittedNetworkToastOpen,
@@ -31,6 +32,7 @@ import {
   requestAccountsAndChainPermissionsWithId,
   setPermittedAccounts,
   setPermittedChains,
+  setPermittedRpcMethods,
 } from '../../../../store/actions';
 import {
   AvatarFavicon,
@@ -216,6 +218,14 @@ export const ReviewPermissions = ({
     setShowAccountToast(true);
   };
 
+  const allowedRpcMethods = useSelector((state) =>
+    getAllowedRpcMethods(state, activeTabOrigin),
+  ) as string[] | undefined;
+
+  const handleSelectAllowedRpcMethods = (methods: string[] | null) => {
+    dispatch(setPermittedRpcMethods(activeTabOrigin, methods));
+  };
+
   const hideAllToasts = () => {
     setShowAccountToast(false);
     setShowNetworkToast(false);
@@ -244,6 +254,8 @@ export const ReviewPermissions = ({
               selectedAccountAddresses={connectedAccountAddresses}
               selectedChainIds={connectedChainIds}
               hideAllToasts={hideAllToasts}
+              allowedRpcMethods={allowedRpcMethods}
+              onSelectAllowedRpcMethods={handleSelectAllowedRpcMethods}
             />
           ) : (
             <NoConnectionContent />
@@ -78,4 +78,45 @@ describe('SiteCell', () => {
       }).not.toThrow();
     });
   });
+
+  describe('allowed requests', () => {
+    it('does not show allowed requests without a handler', () => {
+      const { getAllByTestId } = render(
+        <Provider store={store}>
+          <SiteCell
+            nonTestNetworks={[]}
+            testNetworks={[]}
+            accounts={[]}
+            onSelectAccountAddresses={() => undefined}
+            onSelectChainIds={() => undefined}
+            selectedAccountAddresses={[]}
+            selectedChainIds={[]}
+          />
+        </Provider>,
+      );
+
+      expect(getAllByTestId('site-cell-connection-list-item')).toHaveLength(2);
+    });
+
+    it('opens the edit allowed requests modal', () => {
+      const { getAllByTestId, getByTestId } = render(
+        <Provider store={store}>
+          <SiteCell
+            nonTestNetworks={[]}
+            testNetworks={[]}
+            accounts={[]}
+            onSelectAccountAddresses={() => undefined}
+            onSelectChainIds={() => undefined}
+            selectedAccountAddresses={[]}
+            selectedChainIds={[]}
+            allowedRpcMethods={['personal_sign']}
+            onSelectAllowedRpcMethods={() => undefined}
+          />
+        </Provider>,
+      );
+
+      fireEvent.click(getAllByTestId('edit')[2]);
+      expect(getByTestId('edit-rpc-methods-modal-submit')).toBeInTheDocument();
+    });
+  });
 });
@@ -8,7 +8,11 @@ import {
 import { useI18nContext } from '../../../../../hooks/useI18nContext';
 import { Box, IconName } from '../../../../component-library';
 import { PreferredAvatar } from '../../../../app/preferred-avatar';
-import { EditAccountsModal, EditNetworksModal } from '../../..';
+import {
+  EditAccountsModal,
+  EditNetworksModal,
+  EditRpcMethodsModal,
+} from '../../..';
 import { MergedInternalAccountWithCaipAccountId } from '../../../../../selectors/selectors.types';
 import { MetaMetricsContext } from '../../../../../contexts/metametrics';
 import {
@@ -16,6 +20,7 @@ import {
   MetaMetricsEventName,
 } from '../../../../../../shared/constants/metametrics';
 import { isEqualCaseInsensitive } from '../../../../../../shared/modules/string-utils';
+import { RESTRICTABLE_RPC_METHODS } from '../../../../../../shared/constants/permissions';
 import { SiteCellTooltip } from './site-cell-tooltip';
 import { SiteCellConnectionListItem } from './site-cell-connection-list-item';
 
@@ -36,6 +41,8 @@ type SiteCellProps = {
   selectedChainIds: CaipChainId[];
   isConnectFlow?: boolean;
   hideAllToasts?: () => void;
+  allowedRpcMethods?: string[];
+  onSelectAllowedRpcMethods?: (methods: string[] | null) => void;
 };
 
 export const SiteCell: React.FC<SiteCellProps> = ({
@@ -48,6 +55,8 @@ export const SiteCell: React.FC<SiteCellProps> = ({
   selectedChainIds,
   isConnectFlow,
   hideAllToasts = () => undefined,
+  allowedRpcMethods,
+  onSelectAllowedRpcMethods,
 }) => {
   const t = useI18nContext();
   const trackEvent = useContext(MetaMetricsContext);
@@ -55,6 +64,7 @@ export const SiteCell: React.FC<SiteCellProps> = ({
 
   const [showEditAccountsModal, setShowEditAccountsModal] = useState(false);
   const [showEditNetworksModal, setShowEditNetworksModal] = useState(false);
+  const [showEditRpcMethodsModal, setShowEditRpcMethodsModal] = useState(false);
 
   const selectedAccounts = accounts.filter(({ caipAccountId }) =>
     selectedAccountAddresses.some((selectedAccountAddress) =>
@@ -90,6 +100,17 @@ export const SiteCell: React.FC<SiteCellProps> = ({
       ? t('requestingForNetwork', [selectedNetworks[0].name])
       : t('requestingFor');
 
+  const blockedRpcMethodsCount = allowedRpcMethods
+    ? RESTRICTABLE_RPC_METHODS.filter(
+        (method) => !allowedRpcMethods.includes(method),
+      ).length
+    : 0;
+
+  const rpcMethodsMessage =
+    blockedRpcMethodsCount === 0
+      ? t('rpcMethodsAllAllowed')
+      : t('rpcMethodsBlocked', [blockedRpcMethodsCount]);
+
   const handleOpenAccountsModal = () => {
     hideAllToasts?.();
     setShowEditAccountsModal(true);
@@ -153,9 +174,24 @@ export const SiteCell: React.FC<SiteCellProps> = ({
           isConnectFlow={isConnectFlow}
           onClick={handleOpenNetworksModal}
           paddingTopValue={2}
-          paddingBottomValue={0}
+          paddingBottomValue={onSelectAllowedRpcMethods ? 2 : 0}
           content={<SiteCellTooltip networks={selectedNetworks} />}
         />
+        {onSelectAllowedRpcMethods && (
+          <SiteCellConnectionListItem
+            title={t('rpcMethodsPermissionTitle')}
+            iconName={IconName.Code}
+            connectedMessage={rpcMethodsMessage}
+            unconnectedMessage={rpcMethodsMessage}
+            isConnectFlow={isConnectFlow}
+            onClick={() => {
+              hideAllToasts?.();
+              setShowEditRpcMethodsModal(true);
+            }}
+            paddingTopValue={2}
+            paddingBottomValue={0}
+          />
+        )}
       </Box>
       {showEditAccountsModal && (
         <EditAccountsModal
@@ -175,6 +211,14 @@ export const SiteCell: React.FC<SiteCellProps> = ({
           onSubmit={onSelectChainIds}
         />
       )}
+
+      {showEditRpcMethodsModal && onSelectAllowedRpcMethods && (
+        <EditRpcMethodsModal
+          defaultAllowedMethods={allowedRpcMethods}
+          onClose={() => setShowEditRpcMethodsModal(false)}
+          onSubmit={onSelectAllowedRpcMethods}
+        />
+      )}
     </>
   );
 };
@@ -8,6 +8,7 @@ import { COPY_OPTIONS } from '../../../../shared/constants/copy';
 import { toChecksumHexAddress } from '../../../../shared/modules/hexstring-utils';
 import { shortenAddress } from '../../../helpers/utils/util';
 import { useI18nContext } from '../../../hooks/useI18nContext';
+import { setLastCopiedAddress } from '../../../store/actions';
 import Name from '../../app/name/name';
 import { Icon, IconName } from '../../component-library';
 import AccountMismatchWarning from '../account-mismatch-warning/account-mismatch-warning.component';
@@ -53,6 +54,7 @@ function SenderAddress({
       onClick={() => {
         setAddressCopied(true);
         copyToClipboard(checksummedSenderAddress, COPY_OPTIONS);
+        setLastCopiedAddress(checksummedSenderAddress);
         if (onSenderClick) {
           onSenderClick();
         }
@@ -131,6 +133,7 @@ export function RecipientWithAddress({
           if (recipientIsOwnedAccount) {
             setAddressCopied(true);
             copyToClipboard(checksummedRecipientAddress, COPY_OPTIONS);
+            setLastCopiedAddress(checksummedRecipientAddress);
           } else if (onRecipientClick) {
             onRecipientClick();
           }
@@ -1,5 +1,8 @@
 import { ReactNode } from 'react';
-import { SecurityProvider } from '../../../shared/constants/security-provider';
+import {
+  SecurityProvider,
+  SecurityProviderAttribution,
+} from '../../../shared/constants/security-provider';
 import {
   BackgroundColor,
   IconColor,
@@ -80,6 +83,12 @@ export type Alert = {
    */
   acknowledgeBypass?: boolean;
 
+  /**
+   * The phrase the user must type to acknowledge the alert, used instead of the
+   * acknowledgement checkbox for alerts requiring stronger friction.
+   */
+  acknowledgementPhrase?: string;
+
   /**
    * The unique key of the alert.
    */
@@ -90,6 +99,12 @@ export type Alert = {
    */
   provider?: SecurityProvider;
 
+  /**
+   * The security providers whose results were merged into the alert, the
+   * provider of the displayed result first.
+   */
+  providers?: SecurityProviderAttribution[];
+
   /**
    * The reason for the alert.
    */
@@ -7,6 +7,7 @@ import {
   NetworkCongestionThresholds,
 } from '../../../shared/constants/gas';
 import { KeyringType } from '../../../shared/constants/keyring';
+import { DEFAULT_ORIGIN_THROTTLING_CONFIG } from '../../../shared/constants/origin-throttling';
 import { DEFAULT_AUTO_LOCK_TIME_LIMIT } from '../../../shared/constants/preferences';
 import { decGWEIToHexWEI } from '../../../shared/modules/conversion.utils';
 import { stripHexPrefix } from '../../../shared/modules/hexstring-utils';
@@ -58,7 +59,14 @@ const initialState = {
       conversionRate: null,
     },
   },
+  originThrottlingConfig: DEFAULT_ORIGIN_THROTTLING_CONFIG,
   throttledOrigins: {},
+  lastCopiedAddress: null,
+  securityAlertHistory: [],
+  connectionExpiries: {},
+  contactGuardRails: {},
+  contractAbiSummaries: {},
+  delegationTargets: {},
   isSeedlessOnboardingUserAuthenticated: false,
 };
 
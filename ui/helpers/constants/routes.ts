@@ -46,6 +46,14 @@ export const REVEAL_SRP_LIST_ROUTE =
   '/settings/security-and-privacy/reveal-srp-list';
 export const SECURITY_PASSWORD_CHANGE_ROUTE =
   '/settings/security-and-privacy/password-change';
+export const SECURITY_THROTTLED_ORIGINS_ROUTE =
+  '/settings/security-and-privacy/throttled-origins';
+export const SECURITY_APPROVALS_ROUTE =
+  '/settings/security-and-privacy/approvals';
+export const SECURITY_ALERT_HISTORY_ROUTE =
+  '/settings/security-and-privacy/alert-history';
+export const SECURITY_DELEGATION_TARGETS_ROUTE =
+  '/settings/security-and-privacy/delegation-targets';
 export const BACKUPANDSYNC_ROUTE =
   '/settings/security-and-privacy/backup-and-sync';
 export const REVEAL_SEED_ROUTE = '/seed';
@@ -79,6 +87,7 @@ export const CONNECTIONS = '/connections';
 export const PERMISSIONS = '/permissions';
 export const GATOR_PERMISSIONS = '/gator-permissions';
 export const TOKEN_TRANSFER_ROUTE = '/gator-permissions/token-transfer';
+export const GATOR_PERMISSIONS_BY_SITE_ROUTE = '/gator-permissions/sites';
 export const REVIEW_GATOR_PERMISSIONS_ROUTE = '/review-gator-permissions';
 export const REVIEW_PERMISSIONS = '/review-permissions';
 export const CONNECT_ROUTE = '/connect';
@@ -273,6 +282,26 @@ export const ROUTES = [
     label: 'Change Password',
     trackInAnalytics: true,
   },
+  {
+    path: SECURITY_THROTTLED_ORIGINS_ROUTE,
+    label: 'Throttled Origins Settings Page',
+    trackInAnalytics: true,
+  },
+  {
+    path: SECURITY_APPROVALS_ROUTE,
+    label: 'Approvals Settings Page',
+    trackInAnalytics: true,
+  },
+  {
+    path: SECURITY_ALERT_HISTORY_ROUTE,
+    label: 'Security Alert History Settings Page',
+    trackInAnalytics: true,
+  },
+  {
+    path: SECURITY_DELEGATION_TARGETS_ROUTE,
+    label: 'Delegation Targets Settings Page',
+    trackInAnalytics: true,
+  },
   {
     path: BACKUPANDSYNC_ROUTE,
     label: 'Backup And Sync Settings Page',
@@ -655,6 +684,11 @@ export const ROUTES = [
     label: 'Gator Permissions Token Transfer',
     trackInAnalytics: false,
   },
+  {
+    path: GATOR_PERMISSIONS_BY_SITE_ROUTE,
+    label: 'Gator Permissions By Site',
+    trackInAnalytics: false,
+  },
   {
     path: `${REVIEW_GATOR_PERMISSIONS_ROUTE}/:chainId/:permissionGroupName`,
     label: 'Review Gator Permissions',
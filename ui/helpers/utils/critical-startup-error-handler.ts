@@ -1,14 +1,21 @@
 import type browser from 'webextension-polyfill';
 import { isObject, hasProperty, createDeferredPromise } from '@metamask/utils';
 import log from 'loglevel';
-import { METHOD_DISPLAY_STATE_CORRUPTION_ERROR } from '../../../shared/constants/state-corruption';
+import {
+  METHOD_DISPLAY_STATE_CORRUPTION_ERROR,
+  METHOD_DISPLAY_STATE_SNAPSHOT_ERROR,
+  type StateSnapshotMetadata,
+} from '../../../shared/constants/state-corruption';
 import type { ErrorLike } from '../../../shared/constants/errors';
 import { BACKGROUND_LIVENESS_METHOD } from '../../../shared/constants/background-liveness-check';
 import {
   DISPLAY_GENERAL_STARTUP_ERROR,
   RELOAD_WINDOW,
 } from '../../../shared/constants/start-up-errors';
-import { displayStateCorruptionError } from './state-corruption-html';
+import {
+  displayStateCorruptionError,
+  displayStateSnapshotError,
+} from './state-corruption-html';
 import {
   displayCriticalError,
   CriticalErrorTranslationKey,
@@ -97,8 +104,8 @@ export class CriticalStartupErrorHandler {
       return;
     }
     const { method } = data;
-    // Currently, we only handle BACKGROUND_LIVENESS_METHOD, RELOAD_WINDOW, and the state
-    // corruption error message, but we will be adding more in the future.
+    // Currently, we only handle BACKGROUND_LIVENESS_METHOD, RELOAD_WINDOW, the state
+    // corruption and state snapshot error messages, but we will be adding more in the future.
     if (method === BACKGROUND_LIVENESS_METHOD) {
       if (this.#onLivenessCheckCompleted) {
         this.#onLivenessCheckCompleted();
@@ -121,10 +128,11 @@ export class CriticalStartupErrorHandler {
         return;
       }
 
-      const { error, hasBackup, currentLocale } = data.params as {
+      const { error, hasBackup, currentLocale, snapshots } = data.params as {
         error: ErrorLike;
         hasBackup: boolean;
         currentLocale?: string;
+        snapshots?: StateSnapshotMetadata[];
       };
       displayStateCorruptionError(
         this.#container,
@@ -132,7 +140,10 @@ export class CriticalStartupErrorHandler {
         error,
         hasBackup,
         currentLocale,
+        snapshots,
       );
+    } else if (method === METHOD_DISPLAY_STATE_SNAPSHOT_ERROR) {
+      displayStateSnapshotError(this.#container);
     } else if (method === DISPLAY_GENERAL_STARTUP_ERROR) {
       if (!hasProperty(data, 'params') || !isObject(data.params)) {
         log.error(
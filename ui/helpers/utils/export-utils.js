@@ -2,6 +2,7 @@
  * @enum { string }
  */
 export const ExportableContentType = {
+  CSV: 'text/csv',
   JSON: 'application/json',
   TXT: 'text/plain',
 };
@@ -10,6 +11,7 @@ export const ExportableContentType = {
  * @enum { string }
  */
 const ExtensionForContentType = {
+  [ExportableContentType.CSV]: '.csv',
   [ExportableContentType.JSON]: '.json',
   [ExportableContentType.TXT]: '.txt',
 };
@@ -34,6 +34,29 @@ describe('exportAsFile', () => {
       });
     });
 
+    it('uses .csv file extension when content type is CSV', async () => {
+      const showSaveFilePicker = mockShowSaveFilePicker();
+      const filename = 'test.csv';
+      const data = 'header\nvalue';
+
+      windowSpy.mockImplementation(() => ({
+        showSaveFilePicker,
+        Blob: global.Blob,
+      }));
+
+      await exportAsFile(filename, data, ExportableContentType.CSV);
+
+      expect(showSaveFilePicker).toHaveBeenCalledWith({
+        suggestedName: filename,
+        types: [
+          {
+            description: filename,
+            accept: { 'text/csv': ['.csv'] },
+          },
+        ],
+      });
+    });
+
     it('uses .txt file extension when content type is TXT', async () => {
       const showSaveFilePicker = mockShowSaveFilePicker();
       const filename = 'test.txt';
@@ -9,14 +9,67 @@ import { getErrorHtmlBase } from '../../../shared/lib/error-utils';
 import type { ErrorLike } from '../../../shared/constants/errors';
 import { switchDirectionForPreferredLocale } from '../../../shared/lib/switch-direction';
 import getFirstPreferredLangCode from '../../../shared/lib/get-first-preferred-lang-code';
-import { METHOD_REPAIR_DATABASE } from '../../../shared/constants/state-corruption';
+import {
+  METHOD_REPAIR_DATABASE,
+  METHOD_RESTORE_STATE_SNAPSHOT,
+  StateSnapshotReason,
+  type StateSnapshotMetadata,
+} from '../../../shared/constants/state-corruption';
 import { t, updateCurrentLocale } from '../../../shared/lib/translate';
 
+/**
+ * Builds the form to restore one of the state snapshots, which is shown
+ * below the backup restore button if there are any snapshots.
+ *
+ * @param snapshots - The snapshots the user can choose from, newest first.
+ * @param locale - The locale to format the snapshot dates with.
+ */
+function getStateSnapshotsHtml(
+  snapshots: StateSnapshotMetadata[],
+  locale: string,
+) {
+  if (!snapshots.length) {
+    return '';
+  }
+
+  const options = snapshots
+    .map(({ id, createdAt, reason }) => {
+      const reasonLabel =
+        reason === StateSnapshotReason.Migration
+          ? t('stateSnapshotReasonMigration')
+          : t('stateSnapshotReasonDaily');
+      const label = `${new Date(createdAt).toLocaleString(
+        locale.replace('_', '-'),
+      )} - ${reasonLabel ?? ''}`;
+      return `<option value="${lodashEscape(id)}">${lodashEscape(label)}</option>`;
+    })
+    .join('');
+
+  return `
+    <div class="critical-error__snapshots">
+      <p>${lodashEscape(t('stateCorruptionRestoreSnapshotDescription') ?? '')}</p>
+      <select id="critical-error-snapshot-select" class="critical-error__snapshot-select">
+        ${options}
+      </select>
+      <input type="password" id="critical-error-snapshot-password" class="critical-error__snapshot-password" placeholder="${lodashEscape(
+        t('password') ?? '',
+      )}" />
+      <p hidden id="critical-error-snapshot-error" class="critical-error__snapshot-error">
+        ${lodashEscape(t('stateCorruptionRestoreSnapshotError') ?? '')}
+      </p>
+      <button disabled id="critical-error-snapshot-button" class="critical-error__button-restore button btn-secondary">
+        ${lodashEscape(t('stateSnapshotRestore') ?? '')}
+      </button>
+    </div>
+  `;
+}
+
 export async function getStateCorruptionErrorHtml(
   vaultRecoveryLink: string,
   hasBackup: boolean,
   currentLocale?: string,
   supportLink?: string,
+  snapshots: StateSnapshotMetadata[] = [],
 ) {
   let preferredLocale: string;
   if (currentLocale) {
@@ -61,6 +114,7 @@ export async function getStateCorruptionErrorHtml(
     <button disabled id="critical-error-button" class="critical-error__button-restore button btn-primary">
       ${restoreOrResetMessage}
     </button>
+    ${getStateSnapshotsHtml(snapshots, preferredLocale)}
   `;
 
   const footer = supportLink
@@ -89,6 +143,7 @@ export async function displayStateCorruptionError(
   err: ErrorLike,
   hasBackup: boolean,
   currentLocale?: string,
+  snapshots: StateSnapshotMetadata[] = [],
 ) {
   log.error(err);
 
@@ -117,18 +172,72 @@ export async function displayStateCorruptionError(
     hasBackup,
     currentLocale,
     SUPPORT_LINK,
+    snapshots,
   );
   container.innerHTML = html;
 
+  const snapshotButton = container.querySelector<HTMLButtonElement>(
+    '#critical-error-snapshot-button',
+  );
+  if (snapshotButton) {
+    snapshotButton.addEventListener('click', function handleSnapshotClick() {
+      const id = container.querySelector<HTMLSelectElement>(
+        '#critical-error-snapshot-select',
+      )?.value;
+      const password = container.querySelector<HTMLInputElement>(
+        '#critical-error-snapshot-password',
+      )?.value;
+      if (!id || !password) {
+        return;
+      }
+
+      container
+        .querySelector('#critical-error-snapshot-error')
+        ?.setAttribute('hidden', '');
+      this.disabled = true;
+
+      port.postMessage({
+        data: {
+          method: METHOD_RESTORE_STATE_SNAPSHOT,
+          params: { id, password },
+        },
+      });
+    });
+  }
+
   const button = container.querySelector<HTMLButtonElement>(
     '#critical-error-button',
   );
   if (button) {
     button.addEventListener('click', handleRestoreClick);
-    setTimeout(() => {
+  }
+  setTimeout(() => {
+    if (button) {
       button.disabled = false;
-      // wait a while before enabling the button to try to prevent accidental
-      // or rush clicks.
-    }, 5000);
+    }
+    if (snapshotButton) {
+      snapshotButton.disabled = false;
+    }
+    // wait a while before enabling the buttons to try to prevent accidental
+    // or rush clicks.
+  }, 5000);
+}
+
+/**
+ * Tells the user the state snapshot they chose couldn't be restored, e.g.
+ * because the password is incorrect, so they can try again.
+ *
+ * @param container - The container the state corruption error is shown in.
+ */
+export function displayStateSnapshotError(container: HTMLElement) {
+  container
+    .querySelector('#critical-error-snapshot-error')
+    ?.removeAttribute('hidden');
+
+  const snapshotButton = container.querySelector<HTMLButtonElement>(
+    '#critical-error-snapshot-button',
+  );
+  if (snapshotButton) {
+    snapshotButton.disabled = false;
   }
 }
@@ -2,3 +2,4 @@ export { useRevokeGatorPermissions } from './useRevokeGatorPermissions';
 export { useRevokeGatorPermissionsMultiChain } from './useRevokeGatorPermissionsMultiChain';
 export type { RevokeGatorPermissionsMultiChainResults } from './useRevokeGatorPermissionsMultiChain';
 export { extractDelegationFromGatorPermissionContext } from './utils';
+export { useGatorPermissionUsage } from './useGatorPermissionUsage';
@@ -0,0 +1,50 @@
+import { Hex } from '@metamask/utils';
+import {
+  PermissionTypesWithCustom,
+  Signer,
+  StoredGatorPermissionSanitized,
+} from '@metamask/gator-permissions-controller';
+import { GatorPermissionUsage } from '../../../shared/types/gator-permission-usage';
+import { getGatorPermissionUsage } from '../../store/controller-actions/gator-permissions-controller';
+import { AsyncResult, useAsyncResult } from '../useAsync';
+
+/**
+ * Hook to get the redemptions and remaining budget of a gator permission.
+ *
+ * @param gatorPermission - The gator permission to get the usage of.
+ * @returns The usage of the permission.
+ */
+export function useGatorPermissionUsage(
+  gatorPermission: StoredGatorPermissionSanitized<
+    Signer,
+    PermissionTypesWithCustom
+  >,
+): AsyncResult<GatorPermissionUsage> {
+  const { chainId, context, permission, signerMeta } =
+    gatorPermission.permissionResponse;
+
+  const { delegationManager } = signerMeta;
+  const permissionType = permission.type;
+  const startTime = permission.data.startTime as number | undefined;
+  const tokenAddress = permission.data.tokenAddress as Hex | undefined;
+
+  return useAsyncResult(
+    () =>
+      getGatorPermissionUsage({
+        chainId,
+        delegationManager,
+        permissionContext: context,
+        permissionType,
+        startTime,
+        tokenAddress,
+      }),
+    [
+      chainId,
+      context,
+      delegationManager,
+      permissionType,
+      startTime,
+      tokenAddress,
+    ],
+  );
+}
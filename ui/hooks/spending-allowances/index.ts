@@ -0,0 +1,5 @@
+export { useSpendingAllowances } from './useSpendingAllowances';
+export type {
+  GrantSpendingAllowanceRequest,
+  SpendingAllowance,
+} from './useSpendingAllowances';
@@ -0,0 +1,182 @@
+import { act } from '@testing-library/react';
+import { TransactionType } from '@metamask/transaction-controller';
+import type { DelegationEntry } from '@metamask/delegation-controller';
+import { renderHookWithProvider } from '../../../test/lib/render-helpers';
+import mockState from '../../../test/data/mock-state.json';
+import {
+  createDelegation,
+  getDelegationHashOffchain,
+  getDeleGatorEnvironment,
+} from '../../../shared/lib/delegation';
+import {
+  SPENDING_ALLOWANCE_TAG,
+  SpendingAllowancePeriod,
+} from '../../../shared/lib/spending-allowance';
+import {
+  addTransaction,
+  findNetworkClientIdByChainId,
+} from '../../store/actions';
+import {
+  awaitDeleteDelegationEntry,
+  signDelegation,
+  storeDelegationEntry,
+} from '../../store/controller-actions/delegation-controller';
+import { useSpendingAllowances } from './useSpendingAllowances';
+
+jest.mock('../../store/actions', () => ({
+  ...jest.requireActual('../../store/actions'),
+  addTransaction: jest.fn(),
+  findNetworkClientIdByChainId: jest.fn(),
+}));
+
+jest.mock('../../store/controller-actions/delegation-controller');
+
+const ADDRESS_MOCK = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+const DELEGATE_MOCK = '0x2f6fc5e27628158758ae4688bba809c62713d152';
+const CHAIN_ID_MOCK = '0x1';
+const SIGNATURE_MOCK = '0xabcdef';
+
+const ALLOWANCE_MOCK = {
+  origin: 'https://metamask.github.io',
+  token: '0x1234567890123456789012345678901234567890',
+  symbol: 'USDC',
+  decimals: 6,
+  periodAmount: '0x2faf080',
+  period: SpendingAllowancePeriod.Week,
+  startDate: 1700000000,
+} as const;
+
+const ENTRY_MOCK: DelegationEntry = {
+  delegation: createDelegation({
+    from: ADDRESS_MOCK,
+    to: DELEGATE_MOCK,
+    caveats: [],
+  }),
+  chainId: CHAIN_ID_MOCK,
+  tags: [SPENDING_ALLOWANCE_TAG],
+  meta: JSON.stringify(ALLOWANCE_MOCK),
+};
+
+const HASH_MOCK = getDelegationHashOffchain(ENTRY_MOCK.delegation);
+
+function renderHook(entries: DelegationEntry[] = [ENTRY_MOCK]) {
+  return renderHookWithProvider(
+    () => useSpendingAllowances({ address: ADDRESS_MOCK }),
+    {
+      ...mockState,
+      metamask: {
+        ...mockState.metamask,
+        delegations: Object.fromEntries(
+          entries.map((entry) => [
+            getDelegationHashOffchain(entry.delegation),
+            entry,
+          ]),
+        ),
+      },
+    },
+  );
+}
+
+describe('useSpendingAllowances', () => {
+  const addTransactionMock = jest.mocked(addTransaction);
+  const findNetworkClientIdByChainIdMock = jest.mocked(
+    findNetworkClientIdByChainId,
+  );
+  const awaitDeleteDelegationEntryMock = jest.mocked(
+    awaitDeleteDelegationEntry,
+  );
+  const signDelegationMock = jest.mocked(signDelegation);
+  const storeDelegationEntryMock = jest.mocked(storeDelegationEntry);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    signDelegationMock.mockResolvedValue(SIGNATURE_MOCK);
+    findNetworkClientIdByChainIdMock.mockResolvedValue('mainnet');
+    awaitDeleteDelegationEntryMock.mockResolvedValue(undefined);
+  });
+
+  it('returns spending allowances of account', () => {
+    const { result } = renderHook([
+      ENTRY_MOCK,
+      { ...ENTRY_MOCK, tags: ['other'] },
+      {
+        ...ENTRY_MOCK,
+        delegation: { ...ENTRY_MOCK.delegation, delegator: DELEGATE_MOCK },
+      },
+    ]);
+
+    expect(result.current.spendingAllowances).toStrictEqual([
+      {
+        ...ALLOWANCE_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        delegate: DELEGATE_MOCK,
+        entry: ENTRY_MOCK,
+        hash: HASH_MOCK,
+      },
+    ]);
+  });
+
+  it('ignores entries with invalid metadata', () => {
+    const { result } = renderHook([{ ...ENTRY_MOCK, meta: 'invalid' }]);
+    expect(result.current.spendingAllowances).toStrictEqual([]);
+  });
+
+  it('signs and stores delegation when granting allowance', async () => {
+    const { result } = renderHook([]);
+
+    await act(async () => {
+      await result.current.grantSpendingAllowance({
+        allowance: ALLOWANCE_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        delegate: DELEGATE_MOCK,
+      });
+    });
+
+    const { delegation } = signDelegationMock.mock.calls[0][0];
+
+    expect(delegation).toStrictEqual(
+      expect.objectContaining({
+        delegator: ADDRESS_MOCK,
+        delegate: DELEGATE_MOCK,
+      }),
+    );
+
+    expect(storeDelegationEntryMock).toHaveBeenCalledWith({
+      delegation: { ...delegation, signature: SIGNATURE_MOCK },
+      chainId: CHAIN_ID_MOCK,
+      tags: [SPENDING_ALLOWANCE_TAG],
+      meta: JSON.stringify(ALLOWANCE_MOCK),
+    });
+  });
+
+  it('adds disable delegation transaction when revoking allowance', async () => {
+    const txMeta = { id: '123' } as never;
+    addTransactionMock.mockResolvedValue(txMeta);
+
+    const { result } = renderHook();
+
+    await act(async () => {
+      await result.current.revokeSpendingAllowance(
+        result.current.spendingAllowances[0],
+      );
+    });
+
+    expect(addTransactionMock).toHaveBeenCalledWith(
+      expect.objectContaining({
+        from: ADDRESS_MOCK,
+        to: getDeleGatorEnvironment(1).DelegationManager,
+        value: '0x0',
+      }),
+      {
+        networkClientId: 'mainnet',
+        type: TransactionType.contractInteraction,
+      },
+    );
+
+    expect(awaitDeleteDelegationEntryMock).toHaveBeenCalledWith({
+      hash: HASH_MOCK,
+      txMeta,
+    });
+  });
+});
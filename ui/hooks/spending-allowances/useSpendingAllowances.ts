@@ -0,0 +1,149 @@
+import { useCallback, useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { isEqual } from 'lodash';
+import { TransactionType } from '@metamask/transaction-controller';
+import { Hex, hexToNumber } from '@metamask/utils';
+import type { DelegationEntry } from '@metamask/delegation-controller';
+import {
+  getDelegationHashOffchain,
+  getDeleGatorEnvironment,
+} from '../../../shared/lib/delegation';
+import { encodeDisableDelegation } from '../../../shared/lib/delegation/delegation';
+import { logErrorWithMessage } from '../../../shared/modules/error';
+import {
+  SPENDING_ALLOWANCE_TAG,
+  SpendingAllowanceMetadata,
+  createSpendingAllowanceDelegation,
+  parseSpendingAllowanceMetadata,
+} from '../../../shared/lib/spending-allowance';
+import {
+  listDelegationEntries,
+  type DelegationState,
+} from '../../selectors/delegation';
+import {
+  addTransaction,
+  findNetworkClientIdByChainId,
+} from '../../store/actions';
+import {
+  awaitDeleteDelegationEntry,
+  signDelegation,
+  storeDelegationEntry,
+} from '../../store/controller-actions/delegation-controller';
+import { useGatorPermissionRedirect } from '../gator-permissions/useGatorPermissionRedirect';
+
+export type SpendingAllowance = SpendingAllowanceMetadata & {
+  chainId: Hex;
+  delegate: Hex;
+  entry: DelegationEntry;
+  hash: Hex;
+};
+
+export type GrantSpendingAllowanceRequest = {
+  allowance: SpendingAllowanceMetadata;
+  chainId: Hex;
+  delegate: Hex;
+};
+
+/**
+ * Manages the spending allowances granted to sites by an upgraded account,
+ * which are delegations limiting the tokens the site can transfer per period.
+ *
+ * @param params - The parameters for the hook.
+ * @param params.address - The address of the account granting the allowances.
+ * @param params.onRedirect - Callback when redirecting to a revoke confirmation.
+ * @returns The active spending allowances and callbacks to grant or revoke them.
+ */
+export function useSpendingAllowances({
+  address,
+  onRedirect,
+}: {
+  address: Hex;
+  onRedirect?: () => void;
+}) {
+  const { setTransactionId } = useGatorPermissionRedirect({ onRedirect });
+
+  const entries = useSelector(
+    (state: DelegationState) =>
+      listDelegationEntries(state, {
+        filter: { from: address, tags: [SPENDING_ALLOWANCE_TAG] },
+      }),
+    isEqual,
+  );
+
+  const spendingAllowances = useMemo(
+    () =>
+      entries.reduce<SpendingAllowance[]>((result, entry) => {
+        const metadata = parseSpendingAllowanceMetadata(entry.meta);
+
+        if (metadata) {
+          result.push({
+            ...metadata,
+            chainId: entry.chainId,
+            delegate: entry.delegation.delegate,
+            entry,
+            hash: getDelegationHashOffchain(entry.delegation),
+          });
+        }
+
+        return result;
+      }, []),
+    [entries],
+  );
+
+  const grantSpendingAllowance = useCallback(
+    async ({ allowance, chainId, delegate }: GrantSpendingAllowanceRequest) => {
+      const delegation = createSpendingAllowanceDelegation({
+        environment: getDeleGatorEnvironment(hexToNumber(chainId)),
+        from: address,
+        to: delegate,
+        allowance,
+      });
+
+      const signature = await signDelegation({ delegation, chainId });
+
+      await storeDelegationEntry({
+        delegation: { ...delegation, signature },
+        chainId,
+        tags: [SPENDING_ALLOWANCE_TAG],
+        meta: JSON.stringify(allowance),
+      });
+    },
+    [address],
+  );
+
+  const revokeSpendingAllowance = useCallback(
+    async ({ chainId, entry, hash }: SpendingAllowance) => {
+      const networkClientId = await findNetworkClientIdByChainId(chainId);
+      const { DelegationManager } = getDeleGatorEnvironment(
+        hexToNumber(chainId),
+      );
+
+      const txMeta = await addTransaction(
+        {
+          from: entry.delegation.delegator,
+          to: DelegationManager,
+          data: encodeDisableDelegation({ delegation: entry.delegation }),
+          value: '0x0',
+        },
+        {
+          networkClientId,
+          type: TransactionType.contractInteraction,
+        },
+      );
+
+      setTransactionId(txMeta.id);
+
+      // Resolves once the transaction is confirmed, so is not awaited.
+      awaitDeleteDelegationEntry({ hash, txMeta }).catch(logErrorWithMessage);
+
+      return txMeta;
+    },
+    [setTransactionId],
+  );
+
+  return {
+    grantSpendingAllowance,
+    revokeSpendingAllowance,
+    spendingAllowances,
+  };
+}
@@ -2,6 +2,8 @@ import { useState, useCallback } from 'react';
 import copyToClipboard from 'copy-to-clipboard';
 import { MINUTE } from '../../shared/constants/time';
 import { COPY_OPTIONS } from '../../shared/constants/copy';
+import { isCopiedAddress } from '../../shared/lib/clipboard-hijack';
+import { setLastCopiedAddress } from '../store/actions';
 import { useTimeout } from './useTimeout';
 
 /**
@@ -41,6 +43,11 @@ export function useCopyToClipboard(
       setCopied(true);
       startTimeout();
       copyToClipboard(text, COPY_OPTIONS);
+
+      // Remembered to detect clipboard malware replacing the address on paste
+      if (isCopiedAddress(text)) {
+        setLastCopiedAddress(text);
+      }
     },
     [startTimeout],
   );
@@ -2,12 +2,18 @@ import { act } from '@testing-library/react';
 import { renderHook } from '@testing-library/react-hooks';
 import copyToClipboard from 'copy-to-clipboard';
 import { COPY_OPTIONS } from '../../shared/constants/copy';
+import { setLastCopiedAddress } from '../store/actions';
 import { useCopyToClipboard } from './useCopyToClipboard';
 
 // Mock dependencies
 jest.mock('copy-to-clipboard');
 const mockCopyToClipboard = jest.mocked(copyToClipboard);
 
+jest.mock('../store/actions', () => ({
+  setLastCopiedAddress: jest.fn(),
+}));
+const mockSetLastCopiedAddress = jest.mocked(setLastCopiedAddress);
+
 describe('useCopyToClipboard', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -90,4 +96,16 @@ describe('useCopyToClipboard', () => {
     expect(mockCopyToClipboard).toHaveBeenCalledTimes(1); // it was not called a second time
     expect(result.current[0]).toBe(false);
   });
+
+  it('remembers copied addresses', () => {
+    const address = '0x1234567890abcdef1234567890abcdef12345678';
+    const { result } = renderHook(() => useCopyToClipboard());
+    const [, handleCopy] = result.current;
+
+    act(() => handleCopy('test'));
+    expect(mockSetLastCopiedAddress).not.toHaveBeenCalled();
+
+    act(() => handleCopy(address));
+    expect(mockSetLastCopiedAddress).toHaveBeenCalledWith(address);
+  });
 });
@@ -12,6 +12,7 @@ import { withResolvers } from '../shared/lib/promise-with-resolvers';
 import { getEnvironmentType } from '../app/scripts/lib/util';
 import { AlertTypes } from '../shared/constants/alerts';
 import { maskObject } from '../shared/modules/object.utils';
+import { redactStateLog } from '../shared/modules/state-log-redaction';
 // TODO: Remove restricted import
 // eslint-disable-next-line import/no-restricted-paths
 import { SENTRY_UI_STATE } from '../app/scripts/constants/sentry-state';
@@ -402,7 +403,18 @@ function setupStateHooks(store) {
   };
 }
 
-window.logStateString = async function (cb) {
+/**
+ * Serializes the state logs, optionally redacted so they can be attached to
+ * public bug reports.
+ *
+ * @param {(err: Error | null, result?: string) => void} cb - Called with the
+ * serialized state logs.
+ * @param {object} [options] - The options.
+ * @param {boolean} [options.redact] - Whether to pseudonymize addresses and
+ * origins, bucket balances and remove free text fields. A manifest of the
+ * redacted data is included as `redactionManifest`.
+ */
+window.logStateString = async function (cb, { redact = false } = {}) {
   const state = await window.stateHooks.getCleanAppState();
   const logs = window.stateHooks.getLogs();
   browser.runtime
@@ -410,7 +422,12 @@ window.logStateString = async function (cb) {
     .then((platform) => {
       state.platform = platform;
       state.logs = logs;
-      const stateString = JSON.stringify(state, null, 2);
+      let stateLog = state;
+      if (redact) {
+        const { state: redactedState, manifest } = redactStateLog(state);
+        stateLog = { ...redactedState, redactionManifest: manifest };
+      }
+      const stateString = JSON.stringify(stateLog, null, 2);
       cb(null, stateString);
     })
     .catch((err) => {
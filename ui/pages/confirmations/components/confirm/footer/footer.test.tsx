@@ -33,9 +33,11 @@ import { useInsufficientBalanceAlerts } from '../../../hooks/alerts/transactions
 import { useIsGaslessLoading } from '../../../hooks/gas/useIsGaslessLoading';
 import { useConfirmationNavigation } from '../../../hooks/useConfirmationNavigation';
 import { useUserSubscriptions } from '../../../../../hooks/subscription/useSubscription';
+import { useContactGuardRails } from '../info/hooks/useContactGuardRails';
 import Footer from './footer';
 
 jest.mock('../../../hooks/gas/useIsGaslessLoading');
+jest.mock('../info/hooks/useContactGuardRails');
 jest.mock('../../../hooks/alerts/transactions/useInsufficientBalanceAlerts');
 jest.mock('../../../hooks/gas/useIsGaslessSupported');
 
@@ -129,6 +131,7 @@ describe('ConfirmFooter', () => {
   const useIsGaslessLoadingMock = jest.mocked(useIsGaslessLoading);
   const useConfirmationNavigationMock = jest.mocked(useConfirmationNavigation);
   const useUserSubscriptionsMock = jest.mocked(useUserSubscriptions);
+  const useContactGuardRailsMock = jest.mocked(useContactGuardRails);
 
   beforeEach(() => {
     jest.clearAllMocks();
@@ -148,6 +151,11 @@ describe('ConfirmFooter', () => {
       isGaslessLoading: false,
     });
 
+    useContactGuardRailsMock.mockReturnValue({
+      violations: [],
+      isUnverified: false,
+    });
+
     mockUseLocation.mockReturnValue({
       pathname: '/confirm-transaction',
       search: '',
@@ -180,6 +188,21 @@ describe('ConfirmFooter', () => {
     expect(getByText('Cancel')).toBeInTheDocument();
   });
 
+  it('renders hold to confirm button if recipient contact requires it', () => {
+    useContactGuardRailsMock.mockReturnValue({
+      guardRails: { requireHoldToConfirm: true },
+      violations: [],
+      isUnverified: false,
+    });
+
+    const { getByTestId, queryByTestId } = render();
+
+    expect(getByTestId('confirm-footer-hold-button')).toHaveTextContent(
+      'Hold to confirm',
+    );
+    expect(queryByTestId('confirm-footer-button')).not.toBeInTheDocument();
+  });
+
   describe('renders enabled "Confirm" Button', () => {
     it('when isScrollToBottomCompleted is true', () => {
       const mockStateTypedSign = getMockTypedSignConfirmState();
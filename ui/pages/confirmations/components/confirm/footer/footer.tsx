@@ -30,6 +30,7 @@ import { doesAddressRequireLedgerHidConnection } from '../../../../../selectors'
 import { useConfirmationNavigation } from '../../../hooks/useConfirmationNavigation';
 import { resolvePendingApproval } from '../../../../../store/actions';
 import { useConfirmContext } from '../../../context/confirm';
+import { useContactGuardRails } from '../info/hooks/useContactGuardRails';
 import { useIsGaslessLoading } from '../../../hooks/gas/useIsGaslessLoading';
 import { useEnableShieldCoverageChecks } from '../../../hooks/transactions/useEnableShieldCoverageChecks';
 import { useTransactionConfirm } from '../../../hooks/transactions/useTransactionConfirm';
@@ -43,6 +44,7 @@ import {
 import { isSignatureTransactionType } from '../../../utils';
 import { getConfirmationSender } from '../utils';
 import { useUserSubscriptions } from '../../../../../hooks/subscription/useSubscription';
+import HoldToConfirmButton from './hold-to-confirm-button';
 import OriginThrottleModal from './origin-throttle-modal';
 import ShieldFooterAgreement from './shield-footer-agreement';
 import ShieldFooterCoverageIndicator from './shield-footer-coverage-indicator/shield-footer-coverage-indicator';
@@ -89,11 +91,13 @@ const ConfirmButton = ({
   disabled,
   onSubmit,
   onCancel,
+  requireHoldToConfirm = false,
 }: {
   alertOwnerId?: string;
   disabled: boolean;
   onSubmit: () => void;
   onCancel: OnCancelHandler;
+  requireHoldToConfirm?: boolean;
 }) => {
   const t = useI18nContext();
 
@@ -125,6 +129,10 @@ const ConfirmButton = ({
   const { trialedProducts } = useUserSubscriptions();
   const isShieldTrialed = trialedProducts?.includes(PRODUCT_TYPES.SHIELD);
 
+  if (!hasDangerAlerts && requireHoldToConfirm) {
+    return <HoldToConfirmButton disabled={disabled} onSubmit={onSubmit} />;
+  }
+
   return (
     <>
       {confirmModalVisible && (
@@ -214,6 +222,7 @@ const Footer = () => {
     useConfirmContext<TransactionMeta>();
 
   const { isGaslessLoading } = useIsGaslessLoading();
+  const { guardRails } = useContactGuardRails();
 
   const { from } = getConfirmationSender(currentConfirmation);
   const { shouldThrottleOrigin } = useOriginThrottling();
@@ -322,6 +331,7 @@ const Footer = () => {
             onSubmit={onSubmit}
             disabled={isConfirmDisabled}
             onCancel={onCancel}
+            requireHoldToConfirm={guardRails?.requireHoldToConfirm}
           />
         </Box>
         <ShieldFooterAgreement />
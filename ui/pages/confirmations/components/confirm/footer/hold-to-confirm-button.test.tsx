@@ -0,0 +1,84 @@
+import React from 'react';
+import configureMockStore from 'redux-mock-store';
+import { act, fireEvent } from '@testing-library/react';
+
+import mockState from '../../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../../test/lib/render-helpers-navigate';
+import HoldToConfirmButton, {
+  HOLD_TO_CONFIRM_DURATION,
+} from './hold-to-confirm-button';
+
+describe('HoldToConfirmButton', () => {
+  const onSubmitMock = jest.fn();
+
+  function render(disabled = false) {
+    const store = configureMockStore([])(mockState);
+
+    return renderWithProvider(
+      <HoldToConfirmButton disabled={disabled} onSubmit={onSubmitMock} />,
+      store,
+    );
+  }
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('submits if held for the full duration', () => {
+    const { getByTestId } = render();
+    const button = getByTestId('confirm-footer-hold-button');
+
+    fireEvent.mouseDown(button);
+    expect(button).toHaveTextContent('Keep holding');
+
+    act(() => {
+      jest.advanceTimersByTime(HOLD_TO_CONFIRM_DURATION);
+    });
+
+    expect(onSubmitMock).toHaveBeenCalledTimes(1);
+    expect(button).toHaveTextContent('Hold to confirm');
+  });
+
+  it('does not submit if released early', () => {
+    const { getByTestId } = render();
+    const button = getByTestId('confirm-footer-hold-button');
+
+    fireEvent.mouseDown(button);
+
+    act(() => {
+      jest.advanceTimersByTime(HOLD_TO_CONFIRM_DURATION - 1);
+    });
+
+    fireEvent.mouseUp(button);
+
+    act(() => {
+      jest.advanceTimersByTime(HOLD_TO_CONFIRM_DURATION);
+    });
+
+    expect(onSubmitMock).not.toHaveBeenCalled();
+  });
+
+  it('submits if enter key held for the full duration', () => {
+    const { getByTestId } = render();
+
+    fireEvent.keyDown(getByTestId('confirm-footer-hold-button'), {
+      key: 'Enter',
+    });
+
+    act(() => {
+      jest.advanceTimersByTime(HOLD_TO_CONFIRM_DURATION);
+    });
+
+    expect(onSubmitMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('is disabled if disabled', () => {
+    const { getByTestId } = render(true);
+    expect(getByTestId('confirm-footer-hold-button')).toBeDisabled();
+  });
+});
@@ -0,0 +1,85 @@
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  Button,
+  ButtonSize,
+  IconName,
+} from '../../../../../components/component-library';
+import { useI18nContext } from '../../../../../hooks/useI18nContext';
+
+export const HOLD_TO_CONFIRM_DURATION = 1500;
+
+const HOLD_KEYS = ['Enter', ' '];
+
+const HoldToConfirmButton = ({
+  disabled,
+  onSubmit,
+}: {
+  disabled: boolean;
+  onSubmit: () => void;
+}) => {
+  const t = useI18nContext();
+  const [isHolding, setIsHolding] = useState(false);
+  const timeoutRef = useRef<ReturnType<typeof setTimeout>>();
+
+  const cancelHold = useCallback(() => {
+    clearTimeout(timeoutRef.current);
+    timeoutRef.current = undefined;
+    setIsHolding(false);
+  }, []);
+
+  const startHold = useCallback(() => {
+    if (timeoutRef.current) {
+      return;
+    }
+
+    setIsHolding(true);
+
+    timeoutRef.current = setTimeout(() => {
+      timeoutRef.current = undefined;
+      setIsHolding(false);
+      onSubmit();
+    }, HOLD_TO_CONFIRM_DURATION);
+  }, [onSubmit]);
+
+  const handleKeyDown = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (HOLD_KEYS.includes(event.key)) {
+        event.preventDefault();
+        startHold();
+      }
+    },
+    [startHold],
+  );
+
+  const handleKeyUp = useCallback(
+    (event: React.KeyboardEvent) => {
+      if (HOLD_KEYS.includes(event.key)) {
+        cancelHold();
+      }
+    },
+    [cancelHold],
+  );
+
+  useEffect(() => cancelHold, [cancelHold]);
+
+  return (
+    <Button
+      block
+      data-testid="confirm-footer-hold-button"
+      disabled={disabled}
+      onKeyDown={handleKeyDown}
+      onKeyUp={handleKeyUp}
+      onMouseDown={startHold}
+      onMouseLeave={cancelHold}
+      onMouseUp={cancelHold}
+      onTouchEnd={cancelHold}
+      onTouchStart={startHold}
+      size={ButtonSize.Lg}
+      startIconName={IconName.Lock}
+    >
+      {isHolding ? t('holdToConfirmHolding') : t('holdToConfirm')}
+    </Button>
+  );
+};
+
+export default HoldToConfirmButton;
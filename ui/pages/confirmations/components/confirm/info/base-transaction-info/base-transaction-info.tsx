@@ -7,6 +7,8 @@ import { DappSwapComparisonBanner } from '../../dapp-swap-comparison-banner/dapp
 import { AdvancedDetails } from '../shared/advanced-details/advanced-details';
 import { GasFeesSection } from '../shared/gas-fees-section/gas-fees-section';
 import { TransactionDetails } from '../shared/transaction-details/transaction-details';
+import { SwapIntentSection } from '../shared/swap-intent-section/swap-intent-section';
+import { DelegationTargetSection } from '../shared/delegation-target-section/delegation-target-section';
 import { TransactionAccountDetails } from '../batch/transaction-account-details';
 import { BatchSimulationDetails } from '../batch/batch-simulation-details/batch-simulation-details';
 import { EstimatedPointsSection } from '../../../estimated-points';
@@ -26,8 +28,10 @@ const BaseTransactionInfo = () => {
       {!isQuotedSwapDisplayedInInfo && (
         <>
           <TransactionAccountDetails />
+          <DelegationTargetSection />
           <BatchSimulationDetails />
           <TransactionDetails />
+          <SwapIntentSection />
         </>
       )}
       <GasFeesSection />
@@ -15,6 +15,8 @@ import { genUnapprovedContractInteractionConfirmation } from '../../../../../../
 import { useFourByte } from '../../hooks/useFourByte';
 import { useDecodedTransactionData } from '../../hooks/useDecodedTransactionData';
 import { AsyncResult, RESULT_IDLE } from '../../../../../../../hooks/useAsync';
+import { CHAIN_IDS } from '../../../../../../../../shared/constants/network';
+import { ResultType } from '../../../../../../../../shared/lib/trust-signals';
 import { NestedTransactionData } from './nested-transaction-data';
 
 jest.mock('../../../../../../../store/actions', () => ({
@@ -48,14 +50,20 @@ const BATCH_TRANSACTION_PARAMS_MOCK: BatchTransactionParams = {
 
 function render({
   nestedTransactions,
+  chainId,
+  addressSecurityAlertResponses,
 }: {
   nestedTransactions?: BatchTransactionParams[];
+  chainId?: string;
+  addressSecurityAlertResponses?: Record<string, unknown>;
 }) {
   const store = configureStore(
     getMockConfirmStateForTransaction(
       genUnapprovedContractInteractionConfirmation({
         nestedTransactions,
+        ...(chainId && { chainId }),
       }),
+      { metamask: { addressSecurityAlertResponses } },
     ),
   );
 
@@ -162,4 +170,51 @@ describe('NestedTransaction', () => {
     const { container } = render({});
     expect(container).toBeEmptyDOMElement();
   });
+
+  it('renders malicious trust status of recipient', () => {
+    const { getByTestId } = render({
+      chainId: CHAIN_IDS.MAINNET,
+      nestedTransactions: [BATCH_TRANSACTION_PARAMS_MOCK],
+      addressSecurityAlertResponses: {
+        [`ethereum:${BATCH_TRANSACTION_PARAMS_MOCK.to}`]: {
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          result_type: ResultType.Malicious,
+          label: '',
+        },
+      },
+    });
+
+    expect(getByTestId('nested-transaction-trust-status')).toHaveTextContent(
+      'Malicious address',
+    );
+  });
+
+  it('renders warning trust status of recipient', () => {
+    const { getByTestId } = render({
+      chainId: CHAIN_IDS.MAINNET,
+      nestedTransactions: [BATCH_TRANSACTION_PARAMS_MOCK],
+      addressSecurityAlertResponses: {
+        [`ethereum:${BATCH_TRANSACTION_PARAMS_MOCK.to}`]: {
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+          // eslint-disable-next-line @typescript-eslint/naming-convention
+          result_type: ResultType.Warning,
+          label: '',
+        },
+      },
+    });
+
+    expect(getByTestId('nested-transaction-trust-status')).toHaveTextContent(
+      'Address Needs Review',
+    );
+  });
+
+  it('does not render trust status if recipient has not been flagged', () => {
+    const { queryByTestId } = render({
+      chainId: CHAIN_IDS.MAINNET,
+      nestedTransactions: [BATCH_TRANSACTION_PARAMS_MOCK],
+    });
+
+    expect(queryByTestId('nested-transaction-trust-status')).toBeNull();
+  });
 });
@@ -3,8 +3,26 @@ import {
   BatchTransactionParams,
   TransactionMeta,
 } from '@metamask/transaction-controller';
+import { NameType } from '@metamask/name-controller';
 import { useConfirmContext } from '../../../../../context/confirm';
-import { Box } from '../../../../../../../components/component-library';
+import {
+  Box,
+  Icon,
+  IconName,
+  IconSize,
+  Text,
+} from '../../../../../../../components/component-library';
+import {
+  AlignItems,
+  Display,
+  IconColor,
+  TextColor,
+  TextVariant,
+} from '../../../../../../../helpers/constants/design-system';
+import {
+  TrustSignalDisplayState,
+  useTrustSignal,
+} from '../../../../../../../hooks/useTrustSignals';
 import { ConfirmInfoSection } from '../../../../../../../components/app/confirm/info/row/section';
 import { ConfirmInfoExpandableRow } from '../../../../../../../components/app/confirm/info/row/expandable-row';
 import { RecipientRow } from '../../shared/transaction-details/transaction-details';
@@ -40,6 +58,48 @@ export function NestedTransactionData() {
   );
 }
 
+// TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+// eslint-disable-next-line @typescript-eslint/naming-convention
+function NestedTransactionTrustStatus({
+  chainId,
+  to,
+}: {
+  chainId?: string;
+  to?: string;
+}) {
+  const t = useI18nContext();
+  const { state } = useTrustSignal(
+    to ?? '',
+    NameType.ETHEREUM_ADDRESS,
+    chainId,
+  );
+
+  const isMalicious = state === TrustSignalDisplayState.Malicious;
+  const isWarning = state === TrustSignalDisplayState.Warning;
+
+  if (!to || (!isMalicious && !isWarning)) {
+    return <ConfirmInfoRowText text="" />;
+  }
+
+  return (
+    <Text
+      data-testid="nested-transaction-trust-status"
+      variant={TextVariant.bodySm}
+      display={Display.Flex}
+      alignItems={AlignItems.center}
+      color={isMalicious ? TextColor.errorDefault : TextColor.warningDefault}
+    >
+      <Icon
+        name={IconName.Danger}
+        color={isMalicious ? IconColor.errorDefault : IconColor.warningDefault}
+        size={IconSize.Sm}
+        marginInlineEnd={1}
+      />
+      {t(isMalicious ? 'nameModalTitleMalicious' : 'nameModalTitleWarning')}
+    </Text>
+  );
+}
+
 // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
 // eslint-disable-next-line @typescript-eslint/naming-convention
 function NestedTransaction({
@@ -50,6 +110,7 @@ function NestedTransaction({
   nestedTransaction: BatchTransactionParams;
 }) {
   const t = useI18nContext();
+  const { currentConfirmation } = useConfirmContext<TransactionMeta>();
   const { data, to, value } = nestedTransaction;
 
   const label = useNestedTransactionLabels({
@@ -80,7 +141,10 @@ function NestedTransaction({
           </>
         }
       >
-        <ConfirmInfoRowText text="" />
+        <NestedTransactionTrustStatus
+          chainId={currentConfirmation?.chainId}
+          to={to}
+        />
       </ConfirmInfoExpandableRow>
     </ConfirmInfoSection>
   );
@@ -0,0 +1,133 @@
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { Hex } from '@metamask/utils';
+import {
+  TransactionMeta,
+  TransactionType,
+} from '@metamask/transaction-controller';
+
+import { getContactGuardRailViolations } from '../../../../../../../shared/lib/contact-guard-rails';
+import { hexToDecimal } from '../../../../../../../shared/modules/conversion.utils';
+import {
+  ContactGuardRailViolation,
+  ContactGuardRails,
+} from '../../../../../../../shared/types/contact-guard-rails';
+import {
+  ContactGuardRailsState,
+  selectContactGuardRails,
+  selectContactGuardRailsByAddress,
+} from '../../../../../../selectors/contact-guard-rails';
+import { useConfirmContext } from '../../../../context/confirm';
+import { useGetTokenStandardAndDetails } from '../../../../hooks/useGetTokenStandardAndDetails';
+import { useTokenTransactionData } from './useTokenTransactionData';
+import {
+  useNestedTransactionTransferRecipients,
+  useTransferRecipient,
+} from './useTransferRecipient';
+
+const NATIVE_DECIMALS = 18;
+
+const TRANSFER_FROM_TYPES = [
+  TransactionType.tokenMethodTransferFrom,
+  TransactionType.tokenMethodSafeTransferFrom,
+];
+
+export type ContactGuardRailsResult = {
+  guardRails?: ContactGuardRails;
+  violations: ContactGuardRailViolation[];
+
+  /**
+   * Whether the guard rails of a recipient contact could not be checked, such
+   * as for NFT transfers, batched transfers or tokens with unknown decimals.
+   */
+  isUnverified: boolean;
+};
+
+/**
+ * Gets the guard rails of the contact receiving the current transfer and any
+ * of them violated by the transfer.
+ *
+ * @returns The guard rails of the recipient and the violated rules.
+ */
+export function useContactGuardRails(): ContactGuardRailsResult {
+  const { currentConfirmation } = useConfirmContext<TransactionMeta>();
+  const recipient = useTransferRecipient();
+  const nestedRecipients = useNestedTransactionTransferRecipients();
+  const tokenTransactionData = useTokenTransactionData();
+
+  const chainId = currentConfirmation?.chainId;
+  const type = currentConfirmation?.type;
+  const txParams = currentConfirmation?.txParams;
+
+  const guardRails = useSelector((state: ContactGuardRailsState) =>
+    selectContactGuardRailsByAddress(state, chainId, recipient),
+  );
+
+  const chainGuardRails = useSelector((state: ContactGuardRailsState) =>
+    chainId ? selectContactGuardRails(state)[chainId] : undefined,
+  );
+
+  const isTokenTransfer = type === TransactionType.tokenMethodTransfer;
+  const isTransferFrom = TRANSFER_FROM_TYPES.includes(type as TransactionType);
+  const isTransfer = isTokenTransfer || type === TransactionType.simpleSend;
+
+  const tokenAddress =
+    isTokenTransfer || isTransferFrom ? (txParams?.to as Hex) : undefined;
+
+  const { decimalsNumber } = useGetTokenStandardAndDetails(
+    guardRails ? tokenAddress : undefined,
+  );
+
+  const tokenAmount = tokenTransactionData?.args?._value?.toString();
+  const nativeValue = txParams?.value ?? '0x0';
+
+  const violations = useMemo(() => {
+    if (!guardRails || !(isTransfer || isTransferFrom)) {
+      return [];
+    }
+
+    if (isTransferFrom) {
+      return getContactGuardRailViolations(guardRails, { tokenAddress });
+    }
+
+    if (isTokenTransfer) {
+      return getContactGuardRailViolations(guardRails, {
+        amount: decimalsNumber === undefined ? undefined : tokenAmount,
+        decimals: decimalsNumber,
+        tokenAddress,
+      });
+    }
+
+    return getContactGuardRailViolations(guardRails, {
+      amount: hexToDecimal(nativeValue),
+      decimals: NATIVE_DECIMALS,
+    });
+  }, [
+    decimalsNumber,
+    guardRails,
+    isTokenTransfer,
+    isTransfer,
+    isTransferFrom,
+    nativeValue,
+    tokenAddress,
+    tokenAmount,
+  ]);
+
+  const isUnverified =
+    isTransferFrom || (isTokenTransfer && decimalsNumber === undefined)
+      ? guardRails?.maxAmount !== undefined
+      : nestedRecipients.some((nestedRecipient) =>
+          hasTransferRules(
+            chainGuardRails?.[nestedRecipient.toLowerCase() as Hex],
+          ),
+        );
+
+  return { guardRails, violations, isUnverified };
+}
+
+function hasTransferRules(guardRails: ContactGuardRails | undefined): boolean {
+  return (
+    guardRails?.maxAmount !== undefined ||
+    guardRails?.allowedTokens !== undefined
+  );
+}
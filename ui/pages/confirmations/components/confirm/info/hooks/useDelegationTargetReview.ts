@@ -0,0 +1,26 @@
+import { TransactionMeta } from '@metamask/transaction-controller';
+
+import { AsyncResult, useAsyncResult } from '../../../../../../hooks/useAsync';
+import { reviewDelegationTarget } from '../../../../../../store/actions';
+import { DelegationTargetReview } from '../../../../../../../shared/types/delegation-target';
+import { useConfirmContext } from '../../../../context/confirm';
+import { useIsUpgradeTransaction } from './useIsUpgradeTransaction';
+
+export function useDelegationTargetReview(): AsyncResult<
+  DelegationTargetReview | undefined
+> {
+  const { currentConfirmation } = useConfirmContext<TransactionMeta>();
+  const { isUpgrade } = useIsUpgradeTransaction();
+
+  const chainId = currentConfirmation?.chainId;
+  const address =
+    currentConfirmation?.txParams?.authorizationList?.[0]?.address;
+
+  return useAsyncResult(async () => {
+    if (!isUpgrade || !address || !chainId) {
+      return undefined;
+    }
+
+    return await reviewDelegationTarget({ address, chainId });
+  }, [isUpgrade, address, chainId]);
+}
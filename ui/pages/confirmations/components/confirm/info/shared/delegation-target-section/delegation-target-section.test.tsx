@@ -0,0 +1,98 @@
+import React from 'react';
+import configureMockStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import { getMockContractInteractionConfirmState } from '../../../../../../../../test/data/confirmations/helper';
+import { renderWithConfirmContextProvider } from '../../../../../../../../test/lib/confirmations/render-helpers';
+import {
+  DelegationTargetReview,
+  DelegationTargetSource,
+  DelegationTargetStatus,
+} from '../../../../../../../../shared/types/delegation-target';
+import { AsyncResult } from '../../../../../../../hooks/useAsync';
+import { useDelegationTargetReview } from '../../hooks/useDelegationTargetReview';
+import { DelegationTargetSection } from './delegation-target-section';
+
+jest.mock('../../hooks/useDelegationTargetReview');
+
+jest.mock(
+  '../../../../../../../components/app/alert-system/contexts/alertMetricsContext',
+  () => ({
+    useAlertMetrics: jest.fn(() => ({
+      trackAlertMetrics: jest.fn(),
+    })),
+  }),
+);
+
+const REVIEW_MOCK: DelegationTargetReview = {
+  address: '0x63c0c19a282a1b52b07dd5a65b58948a07dae32b',
+  codeHash:
+    '0x1234567890abcdef1234567890abcdef1234567890abcdef1234567890abcdef',
+  name: 'MetaMask Smart Account',
+  source: DelegationTargetSource.MetaMask,
+  status: DelegationTargetStatus.Trusted,
+};
+
+function render() {
+  const state = getMockContractInteractionConfirmState();
+  const mockStore = configureMockStore([thunk])(state);
+
+  return renderWithConfirmContextProvider(
+    <DelegationTargetSection />,
+    mockStore,
+  );
+}
+
+function mockReview(value?: DelegationTargetReview) {
+  jest.mocked(useDelegationTargetReview).mockReturnValue({
+    pending: false,
+    value,
+  } as AsyncResult<DelegationTargetReview | undefined>);
+}
+
+describe('DelegationTargetSection', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+    mockReview(REVIEW_MOCK);
+  });
+
+  it('renders nothing if not an upgrade', () => {
+    mockReview(undefined);
+
+    const { queryByTestId } = render();
+
+    expect(queryByTestId('delegation-target-section')).not.toBeInTheDocument();
+  });
+
+  it('renders name of trusted target', () => {
+    const { getByText, getByTestId } = render();
+
+    expect(getByText('Delegating to')).toBeInTheDocument();
+    expect(getByText('Code hash')).toBeInTheDocument();
+    expect(getByTestId('delegation-target-name')).toHaveTextContent(
+      'MetaMask Smart Account',
+    );
+  });
+
+  it('renders unknown if target not trusted', () => {
+    mockReview({
+      address: REVIEW_MOCK.address,
+      status: DelegationTargetStatus.Unknown,
+    });
+
+    const { getByTestId, queryByText } = render();
+
+    expect(getByTestId('delegation-target-name')).toHaveTextContent(
+      'Unknown contract',
+    );
+    expect(queryByText('Code hash')).not.toBeInTheDocument();
+  });
+
+  it('renders security scan verdict', () => {
+    const { getByTestId } = render();
+
+    expect(getByTestId('delegation-target-verdict')).toHaveTextContent(
+      'No result',
+    );
+  });
+});
@@ -0,0 +1,83 @@
+import React from 'react';
+import { TransactionMeta } from '@metamask/transaction-controller';
+import { NameType } from '@metamask/name-controller';
+
+import {
+  ConfirmInfoRow,
+  ConfirmInfoRowAddress,
+  ConfirmInfoRowText,
+} from '../../../../../../../components/app/confirm/info/row';
+import { ConfirmInfoAlertRow } from '../../../../../../../components/app/confirm/info/row/alert-row/alert-row';
+import { RowAlertKey } from '../../../../../../../components/app/confirm/info/row/constants';
+import { ConfirmInfoSection } from '../../../../../../../components/app/confirm/info/row/section';
+import { shortenString } from '../../../../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../../../../hooks/useI18nContext';
+import {
+  TrustSignalDisplayState,
+  useTrustSignal,
+} from '../../../../../../../hooks/useTrustSignals';
+import { useConfirmContext } from '../../../../../context/confirm';
+import { useDelegationTargetReview } from '../../hooks/useDelegationTargetReview';
+
+const VERDICT_MESSAGE_KEYS: Partial<Record<TrustSignalDisplayState, string>> = {
+  [TrustSignalDisplayState.Malicious]: 'nameModalTitleMalicious',
+  [TrustSignalDisplayState.Warning]: 'nameModalTitleWarning',
+  [TrustSignalDisplayState.Verified]: 'nameModalTitleVerified',
+  [TrustSignalDisplayState.Recognized]: 'nameModalTitleRecognized',
+};
+
+export const DelegationTargetSection = () => {
+  const t = useI18nContext();
+  const { currentConfirmation } = useConfirmContext<TransactionMeta>();
+  const { value: review } = useDelegationTargetReview();
+
+  const { state: trustSignalState } = useTrustSignal(
+    review?.address ?? '',
+    NameType.ETHEREUM_ADDRESS,
+    currentConfirmation?.chainId,
+  );
+
+  if (!currentConfirmation || !review) {
+    return null;
+  }
+
+  const { chainId, id } = currentConfirmation;
+  const verdictKey = VERDICT_MESSAGE_KEYS[trustSignalState];
+
+  return (
+    <ConfirmInfoSection data-testid="delegation-target-section">
+      <ConfirmInfoAlertRow
+        alertKey={RowAlertKey.DelegationTarget}
+        ownerId={id}
+        label={t('delegationTarget')}
+        tooltip={t('delegationTargetTooltip')}
+      >
+        <ConfirmInfoRowAddress address={review.address} chainId={chainId} />
+      </ConfirmInfoAlertRow>
+      <ConfirmInfoRow label={t('delegationTargetName')}>
+        <ConfirmInfoRowText
+          text={review.name ?? t('delegationTargetUnknown')}
+          data-testid="delegation-target-name"
+        />
+      </ConfirmInfoRow>
+      {review.codeHash && (
+        <ConfirmInfoRow label={t('delegationTargetCodeHash')}>
+          <ConfirmInfoRowText
+            text={shortenString(review.codeHash, {
+              truncatedCharLimit: 20,
+              truncatedStartChars: 10,
+              truncatedEndChars: 8,
+            })}
+            tooltip={review.codeHash}
+          />
+        </ConfirmInfoRow>
+      )}
+      <ConfirmInfoRow label={t('delegationTargetVerdict')}>
+        <ConfirmInfoRowText
+          text={verdictKey ? t(verdictKey) : t('delegationTargetVerdictNone')}
+          data-testid="delegation-target-verdict"
+        />
+      </ConfirmInfoRow>
+    </ConfirmInfoSection>
+  );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import configureMockStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+
+import { getMockContractInteractionConfirmState } from '../../../../../../../../test/data/confirmations/helper';
+import { renderWithConfirmContextProvider } from '../../../../../../../../test/lib/confirmations/render-helpers';
+import { NATIVE_TOKEN_ADDRESS } from '../../../../../../../../shared/constants/transaction';
+import {
+  DecodedTransactionDataResponse,
+  DecodedTransactionDataSource,
+  SwapIntentProtocol,
+} from '../../../../../../../../shared/types/transaction-decode';
+import { AsyncResult } from '../../../../../../../hooks/useAsync';
+import { useGetTokenStandardAndDetails } from '../../../../../hooks/useGetTokenStandardAndDetails';
+import { useDecodedTransactionData } from '../../hooks/useDecodedTransactionData';
+import { SwapIntentSection } from './swap-intent-section';
+
+jest.mock('../../hooks/useDecodedTransactionData');
+jest.mock('../../../../../hooks/useGetTokenStandardAndDetails');
+
+jest.mock(
+  '../../../../../../../components/app/alert-system/contexts/alertMetricsContext',
+  () => ({
+    useAlertMetrics: jest.fn(() => ({
+      trackAlertMetrics: jest.fn(),
+    })),
+  }),
+);
+
+const USDC_ADDRESS = '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48';
+
+const DECODE_RESPONSE_MOCK: DecodedTransactionDataResponse = {
+  data: [],
+  source: DecodedTransactionDataSource.Uniswap,
+  swapIntent: {
+    protocol: SwapIntentProtocol.Uniswap,
+    tokenIn: NATIVE_TOKEN_ADDRESS,
+    tokenOut: USDC_ADDRESS,
+    amountIn: '1500000000000000000',
+    amountOutMin: '3000000000',
+  },
+};
+
+function render() {
+  const state = getMockContractInteractionConfirmState();
+  const mockStore = configureMockStore([thunk])(state);
+
+  return renderWithConfirmContextProvider(<SwapIntentSection />, mockStore);
+}
+
+describe('SwapIntentSection', () => {
+  const useDecodedTransactionDataMock = jest.mocked(useDecodedTransactionData);
+  const useGetTokenStandardAndDetailsMock = jest.mocked(
+    useGetTokenStandardAndDetails,
+  );
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    useDecodedTransactionDataMock.mockReturnValue({
+      pending: false,
+      value: DECODE_RESPONSE_MOCK,
+    } as AsyncResult<DecodedTransactionDataResponse>);
+
+    useGetTokenStandardAndDetailsMock.mockReturnValue({
+      decimalsNumber: 6,
+    } as ReturnType<typeof useGetTokenStandardAndDetails>);
+  });
+
+  it('renders nothing if no swap intent', () => {
+    useDecodedTransactionDataMock.mockReturnValue({
+      pending: false,
+      value: { data: [], source: DecodedTransactionDataSource.Sourcify },
+    } as AsyncResult<DecodedTransactionDataResponse>);
+
+    const { queryByTestId } = render();
+
+    expect(queryByTestId('swap-intent-section')).not.toBeInTheDocument();
+  });
+
+  it('renders protocol and token amounts', () => {
+    const { getByText, getAllByTestId } = render();
+
+    expect(getByText('Uniswap')).toBeInTheDocument();
+    expect(getByText('You pay')).toBeInTheDocument();
+    expect(getByText('Minimum received')).toBeInTheDocument();
+
+    expect(
+      getAllByTestId('swap-intent-amount').map((amount) => amount.textContent),
+    ).toStrictEqual(['1.5', '3,000']);
+  });
+
+  it('renders recipient', () => {
+    const { getByText } = render();
+    expect(getByText('Recipient')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,116 @@
+import React from 'react';
+import { useSelector } from 'react-redux';
+import { TransactionMeta } from '@metamask/transaction-controller';
+import { Hex } from '@metamask/utils';
+
+import { NATIVE_TOKEN_ADDRESS } from '../../../../../../../../shared/constants/transaction';
+import { calcTokenAmount } from '../../../../../../../../shared/lib/transactions-controller-utils';
+import { getNetworkConfigurationsByChainId } from '../../../../../../../../shared/modules/selectors/networks';
+import {
+  ConfirmInfoRow,
+  ConfirmInfoRowAddress,
+  ConfirmInfoRowText,
+} from '../../../../../../../components/app/confirm/info/row';
+import { ConfirmInfoAlertRow } from '../../../../../../../components/app/confirm/info/row/alert-row/alert-row';
+import { RowAlertKey } from '../../../../../../../components/app/confirm/info/row/constants';
+import { ConfirmInfoSection } from '../../../../../../../components/app/confirm/info/row/section';
+import { Box, Text } from '../../../../../../../components/component-library';
+import { getIntlLocale } from '../../../../../../../ducks/locale/locale';
+import {
+  AlignItems,
+  Display,
+  FlexWrap,
+} from '../../../../../../../helpers/constants/design-system';
+import { useI18nContext } from '../../../../../../../hooks/useI18nContext';
+import { useConfirmContext } from '../../../../../context/confirm';
+import { useGetTokenStandardAndDetails } from '../../../../../hooks/useGetTokenStandardAndDetails';
+import { formatAmount } from '../../../../simulation-details/formatAmount';
+import { useDecodedTransactionData } from '../../hooks/useDecodedTransactionData';
+
+export const SwapIntentSection = () => {
+  const t = useI18nContext();
+  const { currentConfirmation } = useConfirmContext<TransactionMeta>();
+  const { value } = useDecodedTransactionData();
+  const swapIntent = value?.swapIntent;
+
+  if (!currentConfirmation || !swapIntent) {
+    return null;
+  }
+
+  const { chainId, id, txParams } = currentConfirmation;
+
+  return (
+    <ConfirmInfoSection data-testid="swap-intent-section">
+      <ConfirmInfoRow label={t('swapIntentProtocol')}>
+        <ConfirmInfoRowText text={swapIntent.protocol} />
+      </ConfirmInfoRow>
+      <SwapIntentTokenRow
+        label={t('swapIntentTokenIn')}
+        tokenAddress={swapIntent.tokenIn}
+        amount={swapIntent.amountIn}
+        chainId={chainId}
+      />
+      <SwapIntentTokenRow
+        label={t('swapIntentTokenOut')}
+        tokenAddress={swapIntent.tokenOut}
+        amount={swapIntent.amountOutMin}
+        chainId={chainId}
+      />
+      <ConfirmInfoAlertRow
+        alertKey={RowAlertKey.SwapRecipient}
+        ownerId={id}
+        label={t('swapIntentRecipient')}
+        tooltip={t('swapIntentRecipientTooltip')}
+      >
+        <ConfirmInfoRowAddress
+          address={swapIntent.recipient ?? txParams.from}
+          chainId={chainId}
+        />
+      </ConfirmInfoAlertRow>
+    </ConfirmInfoSection>
+  );
+};
+
+function SwapIntentTokenRow({
+  label,
+  tokenAddress,
+  amount,
+  chainId,
+}: {
+  label: string;
+  tokenAddress: Hex;
+  amount?: string;
+  chainId: Hex;
+}) {
+  const locale = useSelector(getIntlLocale);
+  const networkConfigurations = useSelector(getNetworkConfigurationsByChainId);
+  const isNative = tokenAddress === NATIVE_TOKEN_ADDRESS;
+
+  const { decimalsNumber } = useGetTokenStandardAndDetails(
+    isNative ? undefined : tokenAddress,
+  );
+
+  const decimals = isNative ? 18 : decimalsNumber;
+
+  return (
+    <ConfirmInfoRow label={label}>
+      <Box
+        display={Display.Flex}
+        alignItems={AlignItems.center}
+        flexWrap={FlexWrap.Wrap}
+        gap={2}
+      >
+        {amount && decimals !== undefined && (
+          <Text data-testid="swap-intent-amount">
+            {formatAmount(locale, calcTokenAmount(amount, decimals))}
+          </Text>
+        )}
+        {isNative ? (
+          <Text>{networkConfigurations[chainId]?.nativeCurrency}</Text>
+        ) : (
+          <ConfirmInfoRowAddress address={tokenAddress} chainId={chainId} />
+        )}
+      </Box>
+    </ConfirmInfoRow>
+  );
+}
@@ -80,7 +80,7 @@ export const TransactionData = ({
     return null;
   }
 
-  if (!value) {
+  if (!value?.data.length) {
     return (
       <Container noPadding={noPadding} transactionData={transactionData}>
         <RawDataRow transactionData={transactionData} />
@@ -61,6 +61,7 @@ function ConfirmBannerAlert({ ownerId }: { ownerId: string }) {
             description={alert.message}
             severity={alert.severity}
             provider={alert.provider}
+            providers={alert.providers}
             details={alert.alertDetails}
             reportUrl={alert.reportUrl}
             children={alert.content}
@@ -24,16 +24,19 @@ const TRANSACTION_ID_MOCK = '1d7c08c0-fe54-11ee-9243-91b1e533746a';
 
 function render({
   containerTypes,
+  isUpgraded = true,
   metamaskState = {},
   txParamsOriginal,
 }: {
   containerTypes?: TransactionContainerType[];
+  isUpgraded?: boolean;
   metamaskState?: Record<string, Json>;
   txParamsOriginal?: Partial<TransactionParams>;
 } = {}) {
   const contractInteraction = genUnapprovedContractInteractionConfirmation({
     chainId: CHAIN_IDS.GOERLI,
     containerTypes,
+    delegationAddress: isUpgraded ? '0x123' : undefined,
     txParamsOriginal: txParamsOriginal as TransactionParams,
   });
 
@@ -169,6 +172,29 @@ describe('SimulationSettingsModal', () => {
       );
     });
 
+    it('does not apply enforced simulations if not upgraded', async () => {
+      const { getByTestId } = render({
+        isUpgraded: false,
+        metamaskState: {
+          enableEnforcedSimulations: false,
+          enableEnforcedSimulationsForTransactions: {},
+        },
+      });
+
+      await act(async () => {
+        getByTestId('simulation-settings-modal-enable-enforced').click();
+      });
+
+      await act(async () => {
+        getByTestId('simulation-settings-modal-update').click();
+      });
+
+      expect(applyTransactionContainersExistingMock).not.toHaveBeenCalled();
+      expect(
+        setEnableEnforcedSimulationsForTransactionMock,
+      ).toHaveBeenCalledWith(TRANSACTION_ID_MOCK, true);
+    });
+
     it('reverts to original parameters if enforced simulations disabled but applied', async () => {
       const { getByTestId } = render({
         containerTypes: [TransactionContainerType.EnforcedSimulations],
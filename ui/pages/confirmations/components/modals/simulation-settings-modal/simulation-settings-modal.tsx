@@ -120,7 +120,11 @@ const Slippage = ({
 
 function useSimulationSettings() {
   const { currentConfirmation } = useConfirmContext<TransactionMeta>();
-  const { containerTypes, id: transactionId } = currentConfirmation || {};
+  const {
+    containerTypes,
+    delegationAddress,
+    id: transactionId,
+  } = currentConfirmation || {};
 
   const isEnforcedSimulationsEnabled = useSelector(
     (state: ConfirmMetamaskState) =>
@@ -150,6 +154,19 @@ function useSimulationSettings() {
       );
     }
 
+    // Accounts that are not upgraded are resimulated before signing rather
+    // than using a container, so only the settings need to be saved.
+    if (!delegationAddress) {
+      if (enabled !== isEnforcedSimulationsEnabled) {
+        await setEnableEnforcedSimulationsForTransaction(
+          transactionId,
+          enabled,
+        );
+      }
+
+      return;
+    }
+
     const newContainerTypes = [...(containerTypes ?? [])];
 
     if (isEnabled) {
@@ -180,8 +197,10 @@ function useSimulationSettings() {
     }
   }, [
     containerTypes,
+    delegationAddress,
     enabled,
     isEnforcedSimulationApplied,
+    isEnforcedSimulationsEnabled,
     savedSlippage,
     slippage,
     transactionId,
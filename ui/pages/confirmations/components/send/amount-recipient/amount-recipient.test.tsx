@@ -10,6 +10,7 @@ import { renderWithProvider } from '../../../../../../test/lib/render-helpers-na
 import configureStore from '../../../../../store/store';
 import * as AmountSelectionMetrics from '../../../hooks/send/metrics/useAmountSelectionMetrics';
 import * as AmountValidation from '../../../hooks/send/useAmountValidation';
+import * as ContactGuardRailsValidation from '../../../hooks/send/useContactGuardRailsValidation';
 import * as SendActions from '../../../hooks/send/useSendActions';
 import * as SendContext from '../../../context/send';
 import * as RecipientValidation from '../../../hooks/send/useRecipientValidation';
@@ -160,6 +161,43 @@ describe('AmountRecipient', () => {
     expect(mockHandleSubmit).not.toHaveBeenCalled();
   });
 
+  it('in case of contact guard rails error submit button displays error and is disabled', async () => {
+    const mockHandleSubmit = jest.fn();
+    jest.spyOn(SendActions, 'useSendActions').mockReturnValue({
+      handleSubmit: mockHandleSubmit,
+    } as unknown as ReturnType<typeof SendActions.useSendActions>);
+    jest.spyOn(AmountValidation, 'useAmountValidation').mockReturnValue({
+      amountError: undefined,
+    } as unknown as ReturnType<typeof AmountValidation.useAmountValidation>);
+    const guardRailsValidationSpy = jest
+      .spyOn(ContactGuardRailsValidation, 'useContactGuardRailsValidation')
+      .mockReturnValue({ guardRailsError: 'Token not allowed for contact' });
+    jest.spyOn(SendContext, 'useSendContext').mockReturnValue({
+      toResolved: MOCK_ADDRESS,
+      asset: EVM_ASSET,
+      chainId: '0x1',
+      from: 'from-address',
+      updateAsset: jest.fn(),
+      updateCurrentPage: jest.fn(),
+      updateTo: jest.fn(),
+      updateToResolved: jest.fn(),
+      updateValue: jest.fn(),
+      value: '1',
+    } as unknown as ReturnType<typeof SendContext.useSendContext>);
+
+    const { getByRole } = render();
+
+    const button = getByRole('button', {
+      name: 'Token not allowed for contact',
+    });
+    expect(button).toBeDisabled();
+
+    fireEvent.click(button);
+    expect(mockHandleSubmit).not.toHaveBeenCalled();
+
+    guardRailsValidationSpy.mockRestore();
+  });
+
   it('in case of error in hex data submit button displays error and is disabled', async () => {
     const mockHandleSubmit = jest.fn();
     jest.spyOn(SendActions, 'useSendActions').mockReturnValue({
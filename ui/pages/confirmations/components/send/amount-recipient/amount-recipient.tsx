@@ -20,6 +20,7 @@ import { useSendContext } from '../../../context/send';
 import { useRecipientValidation } from '../../../hooks/send/useRecipientValidation';
 import { useRecipientSelectionMetrics } from '../../../hooks/send/metrics/useRecipientSelectionMetrics';
 import { useAmountValidation } from '../../../hooks/send/useAmountValidation';
+import { useContactGuardRailsValidation } from '../../../hooks/send/useContactGuardRailsValidation';
 import { useSendType } from '../../../hooks/send/useSendType';
 import { SendHero } from '../../UI/send-hero';
 import { Amount } from '../amount/amount';
@@ -31,6 +32,7 @@ export const AmountRecipient = () => {
   const [hexDataError, setHexDataError] = useState<string>();
   const { asset, toResolved } = useSendContext();
   const { amountError, validateNonEvmAmountAsync } = useAmountValidation();
+  const { guardRailsError } = useContactGuardRailsValidation();
   const { isNonEvmSendType } = useSendType();
   const { handleSubmit } = useSendActions();
   const { captureAmountSelected } = useAmountSelectionMetrics();
@@ -39,6 +41,7 @@ export const AmountRecipient = () => {
 
   const hasError =
     Boolean(amountError) ||
+    Boolean(guardRailsError) ||
     Boolean(recipientValidationResult.recipientError) ||
     Boolean(hexDataError);
   const isDisabled = hasError || !toResolved;
@@ -91,7 +94,7 @@ export const AmountRecipient = () => {
         }
         marginBottom={4}
       >
-        {amountError ?? hexDataError ?? t('continue')}
+        {amountError ?? guardRailsError ?? hexDataError ?? t('continue')}
       </Button>
     </Box>
   );
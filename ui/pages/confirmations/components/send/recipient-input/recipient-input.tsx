@@ -35,10 +35,12 @@ import { useSendContext } from '../../../context/send';
 import { ConfusableRecipientName } from './confusable-recipient-name';
 
 export const RecipientInput = ({
+  onRecipientPasted,
   openRecipientModal,
   recipientInputRef,
   recipientValidationResult,
 }: {
+  onRecipientPasted?: (address: string) => void;
   openRecipientModal: () => void;
   recipientInputRef: React.RefObject<HTMLInputElement>;
   recipientValidationResult: ReturnType<typeof useRecipientValidation>;
@@ -63,16 +65,23 @@ export const RecipientInput = ({
 
   const onToChange = useCallback(
     (e) => {
+      const address = e.target.value;
+
       if (e.nativeEvent.inputType === 'insertFromPaste') {
         setRecipientInputMethodPasted();
+        onRecipientPasted?.(address);
       } else {
         setRecipientInputMethodManual();
       }
 
-      const address = e.target.value;
       updateTo(address);
     },
-    [updateTo, setRecipientInputMethodManual, setRecipientInputMethodPasted],
+    [
+      onRecipientPasted,
+      updateTo,
+      setRecipientInputMethodManual,
+      setRecipientInputMethodPasted,
+    ],
   );
 
   const clearRecipient = useCallback(() => {
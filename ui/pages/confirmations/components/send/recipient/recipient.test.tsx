@@ -8,6 +8,7 @@ import { useRecipientSelectionMetrics } from '../../../hooks/send/metrics/useRec
 import { useSendContext } from '../../../context/send';
 import { useRecipients } from '../../../hooks/send/useRecipients';
 import { useRecipientValidation } from '../../../hooks/send/useRecipientValidation';
+import * as ClipboardHijackProtection from '../../../hooks/send/useClipboardHijackProtection';
 import { Recipient } from './recipient';
 
 jest.mock('../../../../../hooks/useI18nContext');
@@ -230,6 +231,49 @@ describe('Recipient', () => {
     expect(mockUpdateTo).toHaveBeenCalledWith('');
   });
 
+  it('renders warning when recipient looks like a known address', () => {
+    mockUseSendContext.mockReturnValue({
+      to: '0xc42e000000000000000000000000000000008813',
+      updateTo: mockUpdateTo,
+      updateToResolved: jest.fn(),
+    } as unknown as ReturnType<typeof useSendContext>);
+
+    const { getByTestId } = renderComponent({
+      recipientValidationResult: {
+        recipientSimilarAddress: '0xc42edfcc21ed14dda456aa0756c153f7985d8813',
+        toAddressValidated: '0xc42e000000000000000000000000000000008813',
+      },
+    });
+
+    expect(
+      getByTestId('recipient-address-poisoning-warning'),
+    ).toHaveTextContent('ADDRESSPOISONINGSENDWARNING');
+  });
+
+  it('renders warning when pasted recipient differs from the copied address', () => {
+    const pastedAddress = '0x1234000000000000000000000000000000005678';
+    jest
+      .spyOn(ClipboardHijackProtection, 'useClipboardHijackProtection')
+      .mockReturnValue({
+        checkPastedAddress: jest.fn(),
+        suspectedHijack: {
+          copiedAddress: '0x1234567890abcdef1234567890abcdef12345678',
+          pastedAddress,
+        },
+      });
+    mockUseSendContext.mockReturnValue({
+      to: pastedAddress,
+      updateTo: mockUpdateTo,
+      updateToResolved: jest.fn(),
+    } as unknown as ReturnType<typeof useSendContext>);
+
+    const { getByTestId } = renderComponent();
+
+    expect(getByTestId('recipient-clipboard-hijack-warning')).toHaveTextContent(
+      'CLIPBOARDHIJACKSENDWARNING',
+    );
+  });
+
   it('does not render modal button when no recipients exist', () => {
     mockUseRecipients.mockReturnValue([]);
     const { queryByTestId } = renderComponent();
@@ -18,8 +18,10 @@ import {
   TextColor,
   TextVariant,
 } from '../../../../../helpers/constants/design-system';
+import { shortenAddress } from '../../../../../helpers/utils/util';
 import { useI18nContext } from '../../../../../hooks/useI18nContext';
 import { useRecipientSelectionMetrics } from '../../../hooks/send/metrics/useRecipientSelectionMetrics';
+import { useClipboardHijackProtection } from '../../../hooks/send/useClipboardHijackProtection';
 import { useRecipientValidation } from '../../../hooks/send/useRecipientValidation';
 import { useSendContext } from '../../../context/send';
 import { useRecipients } from '../../../hooks/send/useRecipients';
@@ -35,6 +37,7 @@ export const Recipient = ({
     recipientError,
     recipientWarning,
     recipientResolvedLookup,
+    recipientSimilarAddress,
     toAddressValidated,
     resolutionProtocol,
   } = recipientValidationResult;
@@ -46,6 +49,8 @@ export const Recipient = ({
     setRecipientInputMethodSelectAccount,
   } = useRecipientSelectionMetrics();
   const recipients = useRecipients();
+  const { checkPastedAddress, suspectedHijack } =
+    useClipboardHijackProtection();
   const recipientInputRef = useRef<HTMLInputElement>(null);
   const closeRecipientModal = useCallback(() => {
     setIsRecipientModalOpen(false);
@@ -89,6 +94,7 @@ export const Recipient = ({
         {t('to')}
       </Text>
       <RecipientInput
+        onRecipientPasted={checkPastedAddress}
         openRecipientModal={openRecipientModal}
         recipientInputRef={recipientInputRef}
         recipientValidationResult={recipientValidationResult}
@@ -103,6 +109,28 @@ export const Recipient = ({
           {recipientWarning}
         </HelpText>
       )}
+      {to === toAddressValidated && recipientSimilarAddress && (
+        <HelpText
+          severity={HelpTextSeverity.Danger}
+          marginTop={1}
+          data-testid="recipient-address-poisoning-warning"
+        >
+          {t('addressPoisoningSendWarning', [
+            shortenAddress(recipientSimilarAddress),
+          ])}
+        </HelpText>
+      )}
+      {suspectedHijack && to === suspectedHijack.pastedAddress && (
+        <HelpText
+          severity={HelpTextSeverity.Danger}
+          marginTop={1}
+          data-testid="recipient-clipboard-hijack-warning"
+        >
+          {t('clipboardHijackSendWarning', [
+            shortenAddress(suspectedHijack.copiedAddress),
+          ])}
+        </HelpText>
+      )}
       {to === toAddressValidated && recipientResolvedLookup && (
         <Text
           color={TextColor.textAlternative}
@@ -0,0 +1,137 @@
+import { renderHookWithConfirmContextProvider } from '../../../../../../test/lib/confirmations/render-helpers';
+import {
+  getMockTypedSignConfirmState,
+  getMockTypedSignConfirmStateForRequest,
+} from '../../../../../../test/data/confirmations/helper';
+import {
+  permitSignatureMsg,
+  permitSingleSignatureMsg,
+} from '../../../../../../test/data/confirmations/typed_sign';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { SignatureRequestType } from '../../../types/confirm';
+import usePermitRiskAlerts from './usePermitRiskAlerts';
+
+const PERMIT_DATA_MOCK = JSON.parse(
+  permitSignatureMsg.msgParams?.data as string,
+);
+
+function buildPermitRequest(
+  id: string,
+  message: Record<string, unknown>,
+): SignatureRequestType {
+  return {
+    ...permitSignatureMsg,
+    id,
+    chainId: '0x1',
+    msgParams: {
+      ...permitSignatureMsg.msgParams,
+      data: JSON.stringify({
+        ...PERMIT_DATA_MOCK,
+        message: { ...PERMIT_DATA_MOCK.message, ...message },
+      }),
+    },
+  } as SignatureRequestType;
+}
+
+function runHook(
+  request: SignatureRequestType,
+  otherRequests: SignatureRequestType[] = [],
+) {
+  const state = getMockTypedSignConfirmStateForRequest(request);
+
+  state.metamask.unapprovedTypedMessages = {
+    ...state.metamask.unapprovedTypedMessages,
+    ...Object.fromEntries(otherRequests.map((other) => [other.id, other])),
+  };
+
+  return renderHookWithConfirmContextProvider(usePermitRiskAlerts, state).result
+    .current;
+}
+
+describe('usePermitRiskAlerts', () => {
+  it('returns no alerts if the signature is not a permit', () => {
+    const { result } = renderHookWithConfirmContextProvider(
+      usePermitRiskAlerts,
+      getMockTypedSignConfirmState(),
+    );
+
+    expect(result.current).toEqual([]);
+  });
+
+  it('returns no alerts if the permit has no risks', () => {
+    expect(
+      runHook(buildPermitRequest('1', { deadline: Date.now() / 1000 })),
+    ).toEqual([]);
+  });
+
+  it('returns alerts for unlimited amounts and chain mismatches', () => {
+    expect(runHook(permitSingleSignatureMsg)).toEqual([
+      {
+        field: RowAlertKey.Spender,
+        key: 'permitUnlimitedAmount',
+        message:
+          'This permit lets the spender use an unlimited amount of your tokens. Only sign if you trust the site.',
+        reason: 'Unlimited permit',
+        severity: Severity.Warning,
+      },
+      {
+        field: RowAlertKey.Network,
+        key: 'permitChainMismatch',
+        message:
+          "This permit is for chain ID 1, which is not the network you're connected to. Check the request before signing.",
+        reason: 'Network mismatch',
+        severity: Severity.Danger,
+      },
+    ]);
+  });
+
+  it('returns alert if the deadline is far in the future', () => {
+    expect(runHook(buildPermitRequest('1', {}))).toEqual([
+      expect.objectContaining({
+        field: RowAlertKey.Spender,
+        key: 'permitLongDeadline',
+        severity: Severity.Warning,
+      }),
+    ]);
+  });
+
+  it('returns alert if the permit never expires', () => {
+    expect(
+      runHook(
+        buildPermitRequest('1', {
+          deadline:
+            '115792089237316195423570985008687907853269984665640564039457584007913129639935',
+        }),
+      ),
+    ).toEqual([
+      {
+        field: RowAlertKey.Spender,
+        key: 'permitLongDeadline',
+        message:
+          'This permit never expires. The spender can use it at any time after you sign.',
+        reason: 'Long-lived permit',
+        severity: Severity.Warning,
+      },
+    ]);
+  });
+
+  it('returns alert if another pending permit uses the same nonce', () => {
+    const deadline = Date.now() / 1000;
+
+    expect(
+      runHook(buildPermitRequest('1', { deadline }), [
+        buildPermitRequest('2', { deadline }),
+      ]),
+    ).toEqual([
+      {
+        field: RowAlertKey.Spender,
+        key: 'permitNonceConflict',
+        message:
+          'This permit uses the same nonce as another pending permit request. Signing it will make the other request invalid.',
+        reason: 'Conflicting permit',
+        severity: Severity.Warning,
+      },
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { PermitRiskType } from '../../../../../../shared/constants/permit-risk';
+import {
+  analyzePermitRisks,
+  PermitRisk,
+  PermitSignatureRequest,
+} from '../../../../../../shared/lib/permit-risk';
+import { Alert } from '../../../../../ducks/confirm-alerts/confirm-alerts';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { formatDate } from '../../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../../hooks/useI18nContext';
+import { unapprovedTypedMessagesSelector } from '../../../../../selectors';
+import { SignatureRequestType } from '../../../types/confirm';
+import { isPermitSignatureRequest } from '../../../utils';
+import { useConfirmContext } from '../../../context/confirm';
+
+// The latest time a `Date` can represent, in milliseconds since the epoch.
+// Deadlines past it, such as the maximum `uint256`, are effectively unlimited.
+const MAX_DATE_TIMESTAMP_MS = 8.64e15;
+
+function toPermitSignatureRequest({
+  id,
+  msgParams,
+}: SignatureRequestType): PermitSignatureRequest {
+  return {
+    id,
+    from: msgParams?.from ?? '',
+    data: msgParams?.data ?? '',
+  };
+}
+
+export default function usePermitRiskAlerts(): Alert[] {
+  const t = useI18nContext();
+  const { currentConfirmation } = useConfirmContext<SignatureRequestType>();
+  const unapprovedTypedMessages = useSelector(
+    unapprovedTypedMessagesSelector,
+  ) as Record<string, SignatureRequestType> | undefined;
+
+  const isPermit = isPermitSignatureRequest(currentConfirmation);
+
+  const risks = useMemo<PermitRisk[]>(() => {
+    if (!currentConfirmation || !isPermit) {
+      return [];
+    }
+
+    return analyzePermitRisks(toPermitSignatureRequest(currentConfirmation), {
+      chainId: currentConfirmation.chainId,
+      pendingRequests: Object.values(unapprovedTypedMessages ?? {}).map(
+        toPermitSignatureRequest,
+      ),
+    });
+  }, [currentConfirmation, isPermit, unapprovedTypedMessages]);
+
+  return useMemo<Alert[]>(
+    () =>
+      risks.map((risk) => {
+        switch (risk.type) {
+          case PermitRiskType.ChainMismatch:
+            return {
+              field: RowAlertKey.Network,
+              key: 'permitChainMismatch',
+              message: t('alertMessagePermitChainMismatch', [
+                risk.domainChainId,
+              ]),
+              reason: t('alertReasonPermitChainMismatch'),
+              severity: Severity.Danger,
+            };
+
+          case PermitRiskType.LongDeadline:
+            return {
+              field: RowAlertKey.Spender,
+              key: 'permitLongDeadline',
+              message:
+                risk.deadline * 1000 > MAX_DATE_TIMESTAMP_MS
+                  ? t('alertMessagePermitNoDeadline')
+                  : t('alertMessagePermitLongDeadline', [
+                      formatDate(risk.deadline * 1000, 'MMM d, y'),
+                    ]),
+              reason: t('alertReasonPermitLongDeadline'),
+              severity: Severity.Warning,
+            };
+
+          case PermitRiskType.NonceConflict:
+            return {
+              field: RowAlertKey.Spender,
+              key: 'permitNonceConflict',
+              message: t('alertMessagePermitNonceConflict'),
+              reason: t('alertReasonPermitNonceConflict'),
+              severity: Severity.Warning,
+            };
+
+          case PermitRiskType.UnlimitedAmount:
+          default:
+            return {
+              field: RowAlertKey.Spender,
+              key: 'permitUnlimitedAmount',
+              message: t('alertMessagePermitUnlimitedAmount'),
+              reason: t('alertReasonPermitUnlimitedAmount'),
+              severity: Severity.Warning,
+            };
+        }
+      }),
+    [risks, t],
+  );
+}
@@ -0,0 +1,117 @@
+import { ApprovalType } from '@metamask/controller-utils';
+import {
+  NestedTransactionMetadata,
+  TransactionMeta,
+  TransactionType,
+} from '@metamask/transaction-controller';
+import { Hex } from '@metamask/utils';
+import { genUnapprovedContractInteractionConfirmation } from '../../../../../../test/data/confirmations/contract-interaction';
+import { getMockConfirmState } from '../../../../../../test/data/confirmations/helper';
+import { renderHookWithConfirmContextProvider } from '../../../../../../test/lib/confirmations/render-helpers';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { useAddressPoisoningAlert } from './useAddressPoisoningAlert';
+
+const ACCOUNT_ADDRESS = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc' as Hex;
+const ADDRESS_BOOK_ADDRESS =
+  '0xc42edfcc21ed14dda456aa0756c153f7985d8813' as Hex;
+const SIMILAR_ADDRESS = '0xc42e000000000000000000000000000000008813' as Hex;
+const REGULAR_ADDRESS = '0x1234567890123456789012345678901234567890' as Hex;
+
+function runHook({
+  currentConfirmation,
+  nestedTransactions = [],
+}: {
+  currentConfirmation?: Partial<TransactionMeta>;
+  nestedTransactions?: NestedTransactionMetadata[];
+} = {}) {
+  const confirmation = currentConfirmation
+    ? {
+        ...genUnapprovedContractInteractionConfirmation({ chainId: '0x5' }),
+        ...currentConfirmation,
+        nestedTransactions,
+      }
+    : undefined;
+
+  const state = getMockConfirmState({
+    metamask: {
+      pendingApprovals: confirmation
+        ? {
+            [confirmation.id as string]: {
+              id: confirmation.id,
+              type: ApprovalType.Transaction,
+            },
+          }
+        : {},
+      transactions: confirmation ? [confirmation] : [],
+    },
+  });
+
+  return renderHookWithConfirmContextProvider(useAddressPoisoningAlert, state)
+    .result.current;
+}
+
+describe('useAddressPoisoningAlert', () => {
+  it('returns no alerts when no confirmation exists', () => {
+    expect(runHook()).toEqual([]);
+  });
+
+  it('returns no alerts if the recipient is known', () => {
+    expect(
+      runHook({
+        currentConfirmation: {
+          txParams: { from: ACCOUNT_ADDRESS, to: ADDRESS_BOOK_ADDRESS },
+          type: TransactionType.simpleSend,
+        },
+      }),
+    ).toEqual([]);
+  });
+
+  it('returns no alerts if the recipient does not look like a known address', () => {
+    expect(
+      runHook({
+        currentConfirmation: {
+          txParams: { from: ACCOUNT_ADDRESS, to: REGULAR_ADDRESS },
+          type: TransactionType.simpleSend,
+        },
+      }),
+    ).toEqual([]);
+  });
+
+  it('returns alert if the recipient looks like a known address', () => {
+    expect(
+      runHook({
+        currentConfirmation: {
+          txParams: { from: ACCOUNT_ADDRESS, to: SIMILAR_ADDRESS },
+          type: TransactionType.simpleSend,
+        },
+      }),
+    ).toEqual([
+      {
+        key: 'addressPoisoning',
+        field: RowAlertKey.InteractingWith,
+        message:
+          'This address looks like 0xc42ed...d8813, which you have interacted with before, but it is a different address. Scammers create look-alike addresses to trick you into sending funds to them.',
+        reason: 'Look-alike address',
+        severity: Severity.Danger,
+        isBlocking: false,
+      },
+    ]);
+  });
+
+  it('returns alert if a nested transaction recipient looks like a known address', () => {
+    expect(
+      runHook({
+        currentConfirmation: {
+          txParams: { from: ACCOUNT_ADDRESS },
+        },
+        nestedTransactions: [{ to: SIMILAR_ADDRESS, data: '0x' }],
+      }),
+    ).toEqual([
+      expect.objectContaining({
+        key: 'addressPoisoning',
+        severity: Severity.Danger,
+      }),
+    ]);
+  });
+});
@@ -0,0 +1,49 @@
+'use no memo';
+
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { findSimilarAddress } from '../../../../../../shared/lib/address-poisoning';
+import { Alert } from '../../../../../ducks/confirm-alerts/confirm-alerts';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { shortenAddress } from '../../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../../hooks/useI18nContext';
+import { selectKnownAddresses } from '../../../../../selectors';
+import {
+  useTransferRecipient,
+  useNestedTransactionTransferRecipients,
+} from '../../../components/confirm/info/hooks/useTransferRecipient';
+
+export function useAddressPoisoningAlert(): Alert[] {
+  const t = useI18nContext();
+  const knownAddresses = useSelector(selectKnownAddresses);
+  const transactionMetaRecipient = useTransferRecipient();
+  const nestedTransactionRecipients = useNestedTransactionTransferRecipients();
+
+  const similarAddress = useMemo(
+    () =>
+      [transactionMetaRecipient, ...nestedTransactionRecipients]
+        .map((recipient) => findSimilarAddress(recipient, knownAddresses))
+        .find(Boolean),
+    [knownAddresses, nestedTransactionRecipients, transactionMetaRecipient],
+  );
+
+  return useMemo(() => {
+    if (!similarAddress) {
+      return [];
+    }
+
+    return [
+      {
+        key: 'addressPoisoning',
+        field: RowAlertKey.InteractingWith,
+        message: t('alertMessageAddressPoisoning', [
+          shortenAddress(similarAddress),
+        ]),
+        reason: t('alertReasonAddressPoisoning'),
+        severity: Severity.Danger,
+        isBlocking: false,
+      },
+    ];
+  }, [similarAddress, t]);
+}
@@ -0,0 +1,107 @@
+import { ApprovalType } from '@metamask/controller-utils';
+import { TransactionMeta } from '@metamask/transaction-controller';
+
+import { getMockConfirmState } from '../../../../../../test/data/confirmations/helper';
+import { renderHookWithConfirmContextProvider } from '../../../../../../test/lib/confirmations/render-helpers';
+import { genUnapprovedContractInteractionConfirmation } from '../../../../../../test/data/confirmations/contract-interaction';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { ContactGuardRailViolation } from '../../../../../../shared/types/contact-guard-rails';
+import { useContactGuardRails } from '../../../components/confirm/info/hooks/useContactGuardRails';
+import { useContactGuardRailsAlerts } from './useContactGuardRailsAlerts';
+
+jest.mock('../../../components/confirm/info/hooks/useContactGuardRails');
+
+const CONFIRMATION_MOCK = genUnapprovedContractInteractionConfirmation({
+  chainId: '0x5',
+}) as TransactionMeta;
+
+function mockViolations(
+  violations: ContactGuardRailViolation[],
+  isUnverified = false,
+) {
+  jest.mocked(useContactGuardRails).mockReturnValue({
+    guardRails: { maxAmount: '1.5', allowedTokens: [] },
+    violations,
+    isUnverified,
+  });
+}
+
+function runHook() {
+  const state = getMockConfirmState({
+    metamask: {
+      pendingApprovals: {
+        [CONFIRMATION_MOCK.id]: {
+          id: CONFIRMATION_MOCK.id,
+          type: ApprovalType.Transaction,
+        },
+      },
+      transactions: [CONFIRMATION_MOCK],
+    },
+  });
+
+  const response = renderHookWithConfirmContextProvider(
+    useContactGuardRailsAlerts,
+    state,
+  );
+
+  return response.result.current;
+}
+
+describe('useContactGuardRailsAlerts', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('returns no alerts if no violations', () => {
+    mockViolations([]);
+    expect(runHook()).toEqual([]);
+  });
+
+  it('returns alert if max amount exceeded', () => {
+    mockViolations([ContactGuardRailViolation.MaxAmountExceeded]);
+
+    expect(runHook()).toEqual([
+      {
+        field: RowAlertKey.InteractingWith,
+        isBlocking: true,
+        key: 'contactGuardRailsMaxAmount',
+        message:
+          'This contact only accepts up to 1.5 per send. Lower the amount, or change the guard rails of the contact in your contacts.',
+        reason: 'Contact guard rail',
+        severity: Severity.Danger,
+      },
+    ]);
+  });
+
+  it('returns alert if token not allowed', () => {
+    mockViolations([ContactGuardRailViolation.TokenNotAllowed]);
+
+    expect(runHook()).toEqual([
+      {
+        field: RowAlertKey.InteractingWith,
+        isBlocking: true,
+        key: 'contactGuardRailsTokenNotAllowed',
+        message:
+          "This contact doesn't accept this token. Send an allowed token, or change the guard rails of the contact in your contacts.",
+        reason: 'Contact guard rail',
+        severity: Severity.Danger,
+      },
+    ]);
+  });
+
+  it('returns alert if guard rails could not be verified', () => {
+    mockViolations([], true);
+
+    expect(runHook()).toEqual([
+      {
+        field: RowAlertKey.InteractingWith,
+        key: 'contactGuardRailsUnverified',
+        message:
+          "The guard rails of this contact can't be checked for this transaction. Make sure it only sends what the contact allows.",
+        reason: 'Contact guard rail',
+        severity: Severity.Danger,
+      },
+    ]);
+  });
+});
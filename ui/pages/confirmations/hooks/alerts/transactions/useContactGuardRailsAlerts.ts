@@ -0,0 +1,50 @@
+'use no memo';
+
+import { useMemo } from 'react';
+
+import { Alert } from '../../../../../ducks/confirm-alerts/confirm-alerts';
+import { useI18nContext } from '../../../../../hooks/useI18nContext';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { ContactGuardRailViolation } from '../../../../../../shared/types/contact-guard-rails';
+import { useContactGuardRails } from '../../../components/confirm/info/hooks/useContactGuardRails';
+
+export function useContactGuardRailsAlerts(): Alert[] {
+  const t = useI18nContext();
+  const { guardRails, violations, isUnverified } = useContactGuardRails();
+  const maxAmount = guardRails?.maxAmount;
+
+  return useMemo(() => {
+    const alerts: Alert[] = violations.map((violation) =>
+      violation === ContactGuardRailViolation.MaxAmountExceeded
+        ? {
+            field: RowAlertKey.InteractingWith,
+            isBlocking: true,
+            key: 'contactGuardRailsMaxAmount',
+            message: t('alertMessageContactGuardRailsMaxAmount', [maxAmount]),
+            reason: t('alertReasonContactGuardRails'),
+            severity: Severity.Danger,
+          }
+        : {
+            field: RowAlertKey.InteractingWith,
+            isBlocking: true,
+            key: 'contactGuardRailsTokenNotAllowed',
+            message: t('alertMessageContactGuardRailsTokenNotAllowed'),
+            reason: t('alertReasonContactGuardRails'),
+            severity: Severity.Danger,
+          },
+    );
+
+    if (isUnverified) {
+      alerts.push({
+        field: RowAlertKey.InteractingWith,
+        key: 'contactGuardRailsUnverified',
+        message: t('alertMessageContactGuardRailsUnverified'),
+        reason: t('alertReasonContactGuardRails'),
+        severity: Severity.Danger,
+      });
+    }
+
+    return alerts;
+  }, [isUnverified, maxAmount, t, violations]);
+}
@@ -0,0 +1,99 @@
+import { ApprovalType } from '@metamask/controller-utils';
+import { TransactionMeta } from '@metamask/transaction-controller';
+
+import { getMockConfirmState } from '../../../../../../test/data/confirmations/helper';
+import { renderHookWithConfirmContextProvider } from '../../../../../../test/lib/confirmations/render-helpers';
+import { genUnapprovedContractInteractionConfirmation } from '../../../../../../test/data/confirmations/contract-interaction';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { AsyncResult } from '../../../../../hooks/useAsync';
+import {
+  DelegationTargetReview,
+  DelegationTargetStatus,
+} from '../../../../../../shared/types/delegation-target';
+import { useDelegationTargetReview } from '../../../components/confirm/info/hooks/useDelegationTargetReview';
+import { useDelegationTargetAlert } from './useDelegationTargetAlert';
+
+jest.mock('../../../components/confirm/info/hooks/useDelegationTargetReview');
+
+const ADDRESS_MOCK = '0x63c0c19a282a1b52b07dd5a65b58948a07dae32b';
+
+const CONFIRMATION_MOCK = genUnapprovedContractInteractionConfirmation({
+  chainId: '0x5',
+}) as TransactionMeta;
+
+function mockStatus(status?: DelegationTargetStatus) {
+  jest.mocked(useDelegationTargetReview).mockReturnValue({
+    pending: false,
+    value: status ? { address: ADDRESS_MOCK, status } : undefined,
+  } as AsyncResult<DelegationTargetReview | undefined>);
+}
+
+function runHook() {
+  const state = getMockConfirmState({
+    metamask: {
+      pendingApprovals: {
+        [CONFIRMATION_MOCK.id]: {
+          id: CONFIRMATION_MOCK.id,
+          type: ApprovalType.Transaction,
+        },
+      },
+      transactions: [CONFIRMATION_MOCK],
+    },
+  });
+
+  const response = renderHookWithConfirmContextProvider(
+    useDelegationTargetAlert,
+    state,
+  );
+
+  return response.result.current;
+}
+
+describe('useDelegationTargetAlert', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('returns no alerts if not an upgrade', () => {
+    mockStatus(undefined);
+    expect(runHook()).toEqual([]);
+  });
+
+  it('returns no alerts if target is trusted', () => {
+    mockStatus(DelegationTargetStatus.Trusted);
+    expect(runHook()).toEqual([]);
+  });
+
+  it('returns alert if target is unknown', () => {
+    mockStatus(DelegationTargetStatus.Unknown);
+
+    expect(runHook()).toEqual([
+      {
+        field: RowAlertKey.DelegationTarget,
+        isBlocking: true,
+        key: 'delegationTargetUnknown',
+        message:
+          "This contract isn't a trusted delegation target. To upgrade to it, add it to your trusted contracts in Security & privacy settings.",
+        reason: 'Untrusted contract',
+        severity: Severity.Danger,
+      },
+    ]);
+  });
+
+  it('returns alert if target code has changed', () => {
+    mockStatus(DelegationTargetStatus.CodeChanged);
+
+    expect(runHook()).toEqual([
+      {
+        field: RowAlertKey.DelegationTarget,
+        isBlocking: true,
+        key: 'delegationTargetCodeChanged',
+        message:
+          'The code of this contract has changed since you trusted it. Review the contract and trust it again before upgrading.',
+        reason: 'Contract code changed',
+        severity: Severity.Danger,
+      },
+    ]);
+  });
+});
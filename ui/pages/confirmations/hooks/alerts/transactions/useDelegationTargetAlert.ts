@@ -0,0 +1,46 @@
+'use no memo';
+
+import { useMemo } from 'react';
+
+import { Alert } from '../../../../../ducks/confirm-alerts/confirm-alerts';
+import { useI18nContext } from '../../../../../hooks/useI18nContext';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { DelegationTargetStatus } from '../../../../../../shared/types/delegation-target';
+import { useDelegationTargetReview } from '../../../components/confirm/info/hooks/useDelegationTargetReview';
+
+export function useDelegationTargetAlert(): Alert[] {
+  const t = useI18nContext();
+  const { value: review } = useDelegationTargetReview();
+  const status = review?.status;
+
+  return useMemo(() => {
+    if (status === DelegationTargetStatus.Unknown) {
+      return [
+        {
+          field: RowAlertKey.DelegationTarget,
+          isBlocking: true,
+          key: 'delegationTargetUnknown',
+          message: t('alertMessageDelegationTargetUnknown'),
+          reason: t('alertReasonDelegationTargetUnknown'),
+          severity: Severity.Danger,
+        },
+      ];
+    }
+
+    if (status === DelegationTargetStatus.CodeChanged) {
+      return [
+        {
+          field: RowAlertKey.DelegationTarget,
+          isBlocking: true,
+          key: 'delegationTargetCodeChanged',
+          message: t('alertMessageDelegationTargetCodeChanged'),
+          reason: t('alertReasonDelegationTargetCodeChanged'),
+          severity: Severity.Danger,
+        },
+      ];
+    }
+
+    return [];
+  }, [status, t]);
+}
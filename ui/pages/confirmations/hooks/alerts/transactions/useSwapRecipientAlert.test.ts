@@ -0,0 +1,120 @@
+import { ApprovalType } from '@metamask/controller-utils';
+import { TransactionMeta } from '@metamask/transaction-controller';
+
+import { getMockConfirmState } from '../../../../../../test/data/confirmations/helper';
+import { renderHookWithConfirmContextProvider } from '../../../../../../test/lib/confirmations/render-helpers';
+import { genUnapprovedContractInteractionConfirmation } from '../../../../../../test/data/confirmations/contract-interaction';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { AsyncResult } from '../../../../../hooks/useAsync';
+import {
+  DecodedTransactionDataResponse,
+  DecodedTransactionDataSource,
+  SwapIntentProtocol,
+} from '../../../../../../shared/types/transaction-decode';
+import { useDecodedTransactionData } from '../../../components/confirm/info/hooks/useDecodedTransactionData';
+import { useSwapRecipientAlert } from './useSwapRecipientAlert';
+
+jest.mock('../../../components/confirm/info/hooks/useDecodedTransactionData');
+
+const RECIPIENT_MOCK = '0x2e0d7e8c45221fca00d74a3609a0f7097035d09b';
+
+const CONFIRMATION_MOCK = genUnapprovedContractInteractionConfirmation({
+  chainId: '0x5',
+}) as TransactionMeta;
+
+function buildDecodeResponse(
+  recipient?: string,
+): DecodedTransactionDataResponse {
+  return {
+    data: [],
+    source: DecodedTransactionDataSource.Uniswap,
+    swapIntent: {
+      protocol: SwapIntentProtocol.Uniswap,
+      tokenIn: '0x0000000000000000000000000000000000000000',
+      tokenOut: '0xa0b86991c6218b36c1d19d4a2e9eb0ce3606eb48',
+      recipient: recipient as never,
+    },
+  };
+}
+
+function mockDecodeResponse(value: DecodedTransactionDataResponse) {
+  jest.mocked(useDecodedTransactionData).mockReturnValue({
+    pending: false,
+    value,
+  } as AsyncResult<DecodedTransactionDataResponse>);
+}
+
+function runHook(currentConfirmation?: TransactionMeta) {
+  const state = getMockConfirmState({
+    metamask: {
+      pendingApprovals: currentConfirmation
+        ? {
+            [currentConfirmation.id]: {
+              id: currentConfirmation.id,
+              type: ApprovalType.Transaction,
+            },
+          }
+        : {},
+      transactions: currentConfirmation ? [currentConfirmation] : [],
+    },
+  });
+
+  const response = renderHookWithConfirmContextProvider(
+    useSwapRecipientAlert,
+    state,
+  );
+
+  return response.result.current;
+}
+
+describe('useSwapRecipientAlert', () => {
+  beforeEach(() => {
+    jest.resetAllMocks();
+
+    mockDecodeResponse(buildDecodeResponse(RECIPIENT_MOCK));
+  });
+
+  it('returns no alerts if no confirmation', () => {
+    expect(runHook()).toEqual([]);
+  });
+
+  it('returns no alerts if no swap intent', () => {
+    mockDecodeResponse({
+      data: [],
+      source: DecodedTransactionDataSource.Sourcify,
+    });
+
+    expect(runHook(CONFIRMATION_MOCK)).toEqual([]);
+  });
+
+  it('returns no alerts if swap recipient is sender', () => {
+    mockDecodeResponse(buildDecodeResponse());
+
+    expect(runHook(CONFIRMATION_MOCK)).toEqual([]);
+  });
+
+  it('returns no alerts if swap recipient matches sender', () => {
+    mockDecodeResponse(
+      buildDecodeResponse(
+        CONFIRMATION_MOCK.txParams.from.toUpperCase().replace('0X', '0x'),
+      ),
+    );
+
+    expect(runHook(CONFIRMATION_MOCK)).toEqual([]);
+  });
+
+  it('returns alert if swap recipient is not sender', () => {
+    expect(runHook(CONFIRMATION_MOCK)).toEqual([
+      {
+        field: RowAlertKey.SwapRecipient,
+        isBlocking: false,
+        key: 'swapRecipient',
+        message:
+          'The output of this swap will be sent to a different address than the account signing the transaction.',
+        reason: 'Swap recipient is not you',
+        severity: Severity.Danger,
+      },
+    ]);
+  });
+});
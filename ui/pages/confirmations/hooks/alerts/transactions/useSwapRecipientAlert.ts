@@ -0,0 +1,41 @@
+'use no memo';
+
+import { useMemo } from 'react';
+import { TransactionMeta } from '@metamask/transaction-controller';
+
+import { Alert } from '../../../../../ducks/confirm-alerts/confirm-alerts';
+import { useI18nContext } from '../../../../../hooks/useI18nContext';
+import { Severity } from '../../../../../helpers/constants/design-system';
+import { RowAlertKey } from '../../../../../components/app/confirm/info/row/constants';
+import { isEqualCaseInsensitive } from '../../../../../../shared/modules/string-utils';
+import { useConfirmContext } from '../../../context/confirm';
+import { useDecodedTransactionData } from '../../../components/confirm/info/hooks/useDecodedTransactionData';
+
+export function useSwapRecipientAlert(): Alert[] {
+  const t = useI18nContext();
+  const { currentConfirmation } = useConfirmContext<TransactionMeta>();
+  const { value } = useDecodedTransactionData();
+
+  const from = currentConfirmation?.txParams?.from;
+  const recipient = value?.swapIntent?.recipient;
+  const isForeignRecipient =
+    Boolean(from && recipient) &&
+    !isEqualCaseInsensitive(from as string, recipient as string);
+
+  return useMemo(() => {
+    if (!isForeignRecipient) {
+      return [];
+    }
+
+    return [
+      {
+        field: RowAlertKey.SwapRecipient,
+        isBlocking: false,
+        key: 'swapRecipient',
+        message: t('alertMessageSwapRecipient'),
+        reason: t('alertReasonSwapRecipient'),
+        severity: Severity.Danger,
+      },
+    ];
+  }, [isForeignRecipient, t]);
+}
@@ -17,6 +17,7 @@ import { useAddressTrustSignalAlerts } from './useAddressTrustSignalAlerts';
 
 jest.mock('../../../../hooks/useTrustSignals', () => ({
   useTrustSignal: jest.fn(),
+  useTrustSignals: jest.fn(),
   TrustSignalDisplayState: {
     Malicious: 'malicious',
     Warning: 'warning',
@@ -35,6 +36,9 @@ jest.mock('../../../../hooks/useI18nContext', () => ({
 const mockUseTrustSignal = jest.requireMock(
   '../../../../hooks/useTrustSignals',
 ).useTrustSignal;
+const mockUseTrustSignals = jest.requireMock(
+  '../../../../hooks/useTrustSignals',
+).useTrustSignals;
 const mockIsSecurityAlertsAPIEnabled = jest.requireMock(
   '../../../../../app/scripts/lib/ppom/security-alerts-api',
 ).isSecurityAlertsAPIEnabled;
@@ -53,6 +57,16 @@ const expectedMaliciousAlert = {
   severity: Severity.Danger,
 };
 
+const expectedBatchMaliciousAlert = {
+  actions: [],
+  field: RowAlertKey.InteractingWith,
+  isBlocking: false,
+  key: 'batchTrustSignalMalicious',
+  message: 'alertMessageBatchTrustSignalMalicious',
+  reason: 'nameModalTitleMalicious',
+  severity: Severity.Danger,
+};
+
 const expectedWarningAlert = {
   actions: [],
   field: RowAlertKey.InteractingWith,
@@ -67,6 +81,7 @@ describe('useTrustSignalAlerts', () => {
   beforeEach(() => {
     jest.clearAllMocks();
     mockIsSecurityAlertsAPIEnabled.mockReturnValue(true);
+    mockUseTrustSignals.mockReturnValue([]);
   });
 
   it('returns an empty array when security alerts API is disabled', () => {
@@ -272,4 +287,156 @@ describe('useTrustSignalAlerts', () => {
       );
     });
   });
+
+  describe('strict mode', () => {
+    const strictModeState = {
+      metamask: { preferences: { securityStrictMode: true } },
+    };
+
+    it('requires an acknowledgement phrase for malicious to address', () => {
+      mockUseTrustSignal.mockReturnValue({
+        state: TrustSignalDisplayState.Malicious,
+      });
+
+      const contractInteraction = genUnapprovedContractInteractionConfirmation({
+        chainId: CHAIN_IDS.GOERLI,
+      });
+
+      const { result } = renderHookWithConfirmContextProvider(
+        () => useAddressTrustSignalAlerts(),
+        getMockConfirmStateForTransaction(
+          {
+            ...contractInteraction,
+            txParams: {
+              ...(contractInteraction as TransactionMeta).txParams,
+              to: MALICIOUS_ADDRESS,
+            },
+          } as TransactionMeta,
+          strictModeState,
+        ),
+      );
+
+      expect(result.current).toEqual([
+        {
+          ...expectedMaliciousAlert,
+          acknowledgementPhrase: 'strictModeAcknowledgementPhrase',
+        },
+      ]);
+    });
+
+    it('does not require an acknowledgement phrase for warning to address', () => {
+      mockUseTrustSignal.mockReturnValue({
+        state: TrustSignalDisplayState.Warning,
+      });
+
+      const contractInteraction = genUnapprovedContractInteractionConfirmation({
+        chainId: CHAIN_IDS.GOERLI,
+      });
+
+      const { result } = renderHookWithConfirmContextProvider(
+        () => useAddressTrustSignalAlerts(),
+        getMockConfirmStateForTransaction(
+          {
+            ...contractInteraction,
+            txParams: {
+              ...(contractInteraction as TransactionMeta).txParams,
+              to: WARNING_ADDRESS,
+            },
+          } as TransactionMeta,
+          strictModeState,
+        ),
+      );
+
+      expect(result.current).toEqual([expectedWarningAlert]);
+    });
+  });
+
+  describe('batch confirmations', () => {
+    function renderBatchHook(state = {}) {
+      const contractInteraction = genUnapprovedContractInteractionConfirmation({
+        chainId: CHAIN_IDS.GOERLI,
+      });
+
+      return renderHookWithConfirmContextProvider(
+        () => useAddressTrustSignalAlerts(),
+        getMockConfirmStateForTransaction(
+          {
+            ...contractInteraction,
+            txParams: {
+              ...(contractInteraction as TransactionMeta).txParams,
+              to: undefined,
+            },
+            nestedTransactions: [
+              { to: SAFE_ADDRESS, data: '0x' },
+              { to: MALICIOUS_ADDRESS, data: '0x' },
+            ],
+          } as TransactionMeta,
+          state,
+        ),
+      );
+    }
+
+    beforeEach(() => {
+      mockUseTrustSignal.mockReturnValue({
+        state: TrustSignalDisplayState.Unknown,
+      });
+    });
+
+    it('checks the address of every nested transaction', () => {
+      renderBatchHook();
+
+      expect(mockUseTrustSignals).toHaveBeenCalledWith([
+        {
+          value: SAFE_ADDRESS,
+          type: NameType.ETHEREUM_ADDRESS,
+          chainId: CHAIN_IDS.GOERLI,
+        },
+        {
+          value: MALICIOUS_ADDRESS,
+          type: NameType.ETHEREUM_ADDRESS,
+          chainId: CHAIN_IDS.GOERLI,
+        },
+      ]);
+    });
+
+    it('returns malicious alert if any nested transaction has a malicious address', () => {
+      mockUseTrustSignals.mockReturnValue([
+        { state: TrustSignalDisplayState.Unknown },
+        { state: TrustSignalDisplayState.Malicious },
+      ]);
+
+      const { result } = renderBatchHook();
+
+      expect(result.current).toEqual([expectedBatchMaliciousAlert]);
+    });
+
+    it('requires an acknowledgement phrase in strict mode', () => {
+      mockUseTrustSignals.mockReturnValue([
+        { state: TrustSignalDisplayState.Unknown },
+        { state: TrustSignalDisplayState.Malicious },
+      ]);
+
+      const { result } = renderBatchHook({
+        metamask: { preferences: { securityStrictMode: true } },
+      });
+
+      expect(result.current).toEqual([
+        {
+          ...expectedBatchMaliciousAlert,
+          acknowledgementPhrase: 'strictModeAcknowledgementPhrase',
+        },
+      ]);
+    });
+
+    it('returns empty array if no nested transaction has a malicious address', () => {
+      mockUseTrustSignals.mockReturnValue([
+        { state: TrustSignalDisplayState.Unknown },
+        { state: TrustSignalDisplayState.Warning },
+      ]);
+
+      const { result } = renderBatchHook();
+
+      expect(result.current).toEqual([]);
+    });
+  });
 });
@@ -1,4 +1,5 @@
 import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
 import { TransactionMeta } from '@metamask/transaction-controller';
 import { NameType } from '@metamask/name-controller';
 import { Alert } from '../../../../ducks/confirm-alerts/confirm-alerts';
@@ -7,16 +8,19 @@ import { RowAlertKey } from '../../../../components/app/confirm/info/row/constan
 import { useConfirmContext } from '../../context/confirm';
 import {
   useTrustSignal,
+  useTrustSignals,
   TrustSignalDisplayState,
 } from '../../../../hooks/useTrustSignals';
 import { SignatureRequestType } from '../../types/confirm';
 import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { getSecurityStrictMode } from '../../../../selectors';
 // eslint-disable-next-line import/no-restricted-paths
 import { isSecurityAlertsAPIEnabled } from '../../../../../app/scripts/lib/ppom/security-alerts-api';
 
 export function useAddressTrustSignalAlerts(): Alert[] {
   const { currentConfirmation } = useConfirmContext();
   const t = useI18nContext();
+  const isStrictMode = useSelector(getSecurityStrictMode);
 
   const addressToCheck = useMemo(() => {
     if (!currentConfirmation) {
@@ -51,13 +55,55 @@ export function useAddressTrustSignalAlerts(): Alert[] {
     currentConfirmation?.chainId,
   );
 
+  const nestedAddresses = useMemo(
+    () =>
+      ((currentConfirmation as TransactionMeta)?.nestedTransactions ?? [])
+        .map(({ to }) => to)
+        .filter((to): to is string => Boolean(to)),
+    [currentConfirmation],
+  );
+
+  const nestedTrustSignals = useTrustSignals(
+    nestedAddresses.map((value) => ({
+      value,
+      type: NameType.ETHEREUM_ADDRESS,
+      chainId: currentConfirmation?.chainId,
+    })),
+  );
+
+  const hasMaliciousNestedAddress = nestedTrustSignals.some(
+    ({ state }) => state === TrustSignalDisplayState.Malicious,
+  );
+
   return useMemo(() => {
-    if (!addressToCheck || !isSecurityAlertsAPIEnabled()) {
+    if (
+      (!addressToCheck && !nestedAddresses.length) ||
+      !isSecurityAlertsAPIEnabled()
+    ) {
       return [];
     }
 
     const alerts: Alert[] = [];
 
+    if (hasMaliciousNestedAddress) {
+      alerts.push({
+        actions: [],
+        field: RowAlertKey.InteractingWith,
+        isBlocking: false,
+        key: 'batchTrustSignalMalicious',
+        message: t('alertMessageBatchTrustSignalMalicious'),
+        reason: t('nameModalTitleMalicious'),
+        severity: Severity.Danger,
+        ...(isStrictMode && {
+          acknowledgementPhrase: t('strictModeAcknowledgementPhrase'),
+        }),
+      });
+    }
+
+    if (!addressToCheck) {
+      return alerts;
+    }
+
     if (trustSignalDisplayState === TrustSignalDisplayState.Malicious) {
       alerts.push({
         actions: [],
@@ -67,6 +113,9 @@ export function useAddressTrustSignalAlerts(): Alert[] {
         message: t('alertMessageAddressTrustSignalMalicious'),
         reason: t('nameModalTitleMalicious'),
         severity: Severity.Danger,
+        ...(isStrictMode && {
+          acknowledgementPhrase: t('strictModeAcknowledgementPhrase'),
+        }),
       });
     } else if (trustSignalDisplayState === TrustSignalDisplayState.Warning) {
       alerts.push({
@@ -81,5 +130,12 @@ export function useAddressTrustSignalAlerts(): Alert[] {
     }
 
     return alerts;
-  }, [addressToCheck, trustSignalDisplayState, t]);
+  }, [
+    addressToCheck,
+    hasMaliciousNestedAddress,
+    isStrictMode,
+    nestedAddresses,
+    trustSignalDisplayState,
+    t,
+  ]);
 }
@@ -31,6 +31,7 @@ const zlib = require('zlib');
 const IGNORED_RESULT_TYPES = [
   BlockaidResultType.Benign,
   BlockaidResultType.Loading,
+  BlockaidResultType.NotApplicable,
 ];
 
 type SecurityAlertResponsesState = {
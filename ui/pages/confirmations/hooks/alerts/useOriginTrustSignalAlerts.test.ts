@@ -227,4 +227,59 @@ describe('useOriginTrustSignalAlerts', () => {
       expect(mockUseOriginTrustSignals).toHaveBeenCalledWith('');
     });
   });
+
+  describe('strict mode', () => {
+    const strictModeState = {
+      metamask: { preferences: { securityStrictMode: true } },
+    };
+
+    it('requires an acknowledgement phrase for malicious origin', () => {
+      mockUseOriginTrustSignals.mockReturnValue({
+        state: TrustSignalDisplayState.Malicious,
+        label: null,
+      });
+
+      const transactionWithOrigin = {
+        ...genUnapprovedContractInteractionConfirmation(),
+        origin: ORIGIN_MOCK,
+      } as TransactionMeta;
+
+      const { result } = renderHookWithConfirmContextProvider(
+        () => useOriginTrustSignalAlerts(),
+        getMockConfirmStateForTransaction(
+          transactionWithOrigin,
+          strictModeState,
+        ),
+      );
+
+      expect(result.current).toEqual([
+        {
+          ...expectedMaliciousAlert,
+          acknowledgementPhrase: 'strictModeAcknowledgementPhrase',
+        },
+      ]);
+    });
+
+    it('does not require an acknowledgement phrase for warning origin', () => {
+      mockUseOriginTrustSignals.mockReturnValue({
+        state: TrustSignalDisplayState.Warning,
+        label: null,
+      });
+
+      const transactionWithOrigin = {
+        ...genUnapprovedContractInteractionConfirmation(),
+        origin: ORIGIN_MOCK,
+      } as TransactionMeta;
+
+      const { result } = renderHookWithConfirmContextProvider(
+        () => useOriginTrustSignalAlerts(),
+        getMockConfirmStateForTransaction(
+          transactionWithOrigin,
+          strictModeState,
+        ),
+      );
+
+      expect(result.current).toEqual([expectedWarningAlert]);
+    });
+  });
 });
@@ -1,9 +1,11 @@
 import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
 import { TransactionMeta } from '@metamask/transaction-controller';
 import { Alert } from '../../../../ducks/confirm-alerts/confirm-alerts';
 import { RowAlertKey } from '../../../../components/app/confirm/info/row/constants';
 import { Severity } from '../../../../helpers/constants/design-system';
 import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { getSecurityStrictMode } from '../../../../selectors';
 import { useConfirmContext } from '../../context/confirm';
 import { TrustSignalDisplayState } from '../../../../hooks/useTrustSignals';
 import { useOriginTrustSignals } from '../../../../hooks/useOriginTrustSignals';
@@ -12,6 +14,7 @@ import { SignatureRequestType } from '../../types/confirm';
 export function useOriginTrustSignalAlerts(): Alert[] {
   const t = useI18nContext();
   const { currentConfirmation } = useConfirmContext();
+  const isStrictMode = useSelector(getSecurityStrictMode);
 
   const origin =
     (currentConfirmation as TransactionMeta)?.origin ??
@@ -34,6 +37,9 @@ export function useOriginTrustSignalAlerts(): Alert[] {
         field: RowAlertKey.RequestFrom,
         severity: Severity.Danger,
         message: t('alertMessageOriginTrustSignalMalicious'),
+        ...(isStrictMode && {
+          acknowledgementPhrase: t('strictModeAcknowledgementPhrase'),
+        }),
       });
     } else if (trustSignalState === TrustSignalDisplayState.Warning) {
       alerts.push({
@@ -46,5 +52,5 @@ export function useOriginTrustSignalAlerts(): Alert[] {
     }
 
     return alerts;
-  }, [origin, trustSignalState, t]);
+  }, [isStrictMode, origin, trustSignalState, t]);
 }
@@ -0,0 +1,134 @@
+import {
+  TransactionStatus,
+  TransactionType,
+} from '@metamask/transaction-controller';
+import {
+  getMockConfirmStateForTransaction,
+  getMockPersonalSignConfirmStateForRequest,
+} from '../../../../../test/data/confirmations/helper';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderHookWithConfirmContextProvider } from '../../../../../test/lib/confirmations/render-helpers';
+import {
+  SecurityPolicyAction,
+  SecurityPolicyType,
+} from '../../../../../shared/constants/security-policy';
+import { BlockaidResultType } from '../../../../../shared/constants/security-provider';
+import { Severity } from '../../../../helpers/constants/design-system';
+import { SecurityAlertResponse } from '../../types/confirm';
+import { useSecurityPolicyAlerts } from './useSecurityPolicyAlerts';
+
+const SECURITY_ALERT_RESPONSE_MOCK: SecurityAlertResponse = {
+  securityAlertId: 'test-id-mock',
+  // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
+  // eslint-disable-next-line @typescript-eslint/naming-convention
+  result_type: BlockaidResultType.Benign,
+  reason: '',
+  policyViolations: [
+    {
+      action: SecurityPolicyAction.Block,
+      policyId: SecurityPolicyType.UnlimitedApproval,
+      type: SecurityPolicyType.UnlimitedApproval,
+    },
+    {
+      action: SecurityPolicyAction.RequireAcknowledgement,
+      policyId: SecurityPolicyType.NativeValueThreshold,
+      type: SecurityPolicyType.NativeValueThreshold,
+    },
+  ],
+};
+
+const EXPECTED_ALERTS = [
+  {
+    key: `securityPolicy-${SecurityPolicyType.UnlimitedApproval}`,
+    reason: 'Blocked by security policy',
+    message:
+      "This request grants an unlimited spending cap, which your security policies don't allow.",
+    severity: Severity.Danger,
+    isBlocking: true,
+  },
+  {
+    key: `securityPolicy-${SecurityPolicyType.NativeValueThreshold}`,
+    reason: 'Security policy warning',
+    message:
+      'This transaction sends more than the limit set in your security policies.',
+    severity: Severity.Danger,
+    isBlocking: false,
+  },
+];
+
+describe('useSecurityPolicyAlerts', () => {
+  it('returns no alerts when there is no confirmation', () => {
+    const { result } = renderHookWithConfirmContextProvider(
+      () => useSecurityPolicyAlerts(),
+      mockState,
+    );
+
+    expect(result.current).toEqual([]);
+  });
+
+  it('returns no alerts if the security alert response has no policy violations', () => {
+    const state = getMockConfirmStateForTransaction({
+      id: '1',
+      type: TransactionType.contractInteraction,
+      chainId: '0x5',
+      securityAlertResponse: {
+        ...SECURITY_ALERT_RESPONSE_MOCK,
+        policyViolations: undefined,
+      },
+      status: TransactionStatus.unapproved,
+    });
+
+    const { result } = renderHookWithConfirmContextProvider(
+      () => useSecurityPolicyAlerts(),
+      state,
+    );
+
+    expect(result.current).toEqual([]);
+  });
+
+  it('returns alerts for policy violations of a transaction', () => {
+    const state = getMockConfirmStateForTransaction({
+      id: '1',
+      type: TransactionType.contractInteraction,
+      chainId: '0x5',
+      securityAlertResponse: SECURITY_ALERT_RESPONSE_MOCK,
+      status: TransactionStatus.unapproved,
+    });
+
+    const { result } = renderHookWithConfirmContextProvider(
+      () => useSecurityPolicyAlerts(),
+      state,
+    );
+
+    expect(result.current).toStrictEqual(EXPECTED_ALERTS);
+  });
+
+  it('returns alerts for policy violations of a signature', () => {
+    const state = getMockPersonalSignConfirmStateForRequest(
+      {
+        id: '1',
+        status: 'unapproved',
+        time: new Date().getTime(),
+        type: TransactionType.personalSign,
+        securityAlertResponse: {
+          securityAlertId: SECURITY_ALERT_RESPONSE_MOCK.securityAlertId,
+        } as SecurityAlertResponse,
+      },
+      {
+        metamask: {
+          signatureSecurityAlertResponses: {
+            [SECURITY_ALERT_RESPONSE_MOCK.securityAlertId as string]:
+              SECURITY_ALERT_RESPONSE_MOCK,
+          },
+        },
+      },
+    );
+
+    const { result } = renderHookWithConfirmContextProvider(
+      () => useSecurityPolicyAlerts(),
+      state,
+    );
+
+    expect(result.current).toStrictEqual(EXPECTED_ALERTS);
+  });
+});
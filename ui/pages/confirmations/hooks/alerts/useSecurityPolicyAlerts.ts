@@ -0,0 +1,61 @@
+import { useMemo } from 'react';
+import {
+  SecurityPolicyAction,
+  SecurityPolicyType,
+} from '../../../../../shared/constants/security-policy';
+import { Alert } from '../../../../ducks/confirm-alerts/confirm-alerts';
+import { Severity } from '../../../../helpers/constants/design-system';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { useConfirmContext } from '../../context/confirm';
+import { SecurityAlertResponse } from '../../types/confirm';
+import useCurrentSignatureSecurityAlertResponse from '../useCurrentSignatureSecurityAlertResponse';
+
+const POLICY_TYPE_TO_MESSAGE_TKEY: Record<SecurityPolicyType, string> = {
+  [SecurityPolicyType.UnlimitedApproval]:
+    'alertMessageSecurityPolicyUnlimitedApproval',
+  [SecurityPolicyType.ApprovalForAllOperator]:
+    'alertMessageSecurityPolicyApprovalForAllOperator',
+  [SecurityPolicyType.NativeValueThreshold]:
+    'alertMessageSecurityPolicyNativeValueThreshold',
+};
+
+/**
+ * Returns an alert for each user-defined security policy violated by the
+ * current confirmation, as reported in its security alert response.
+ *
+ * @returns The security policy alerts.
+ */
+export function useSecurityPolicyAlerts(): Alert[] {
+  const t = useI18nContext();
+  const { currentConfirmation } = useConfirmContext();
+
+  const signatureSecurityAlertResponse =
+    useCurrentSignatureSecurityAlertResponse();
+
+  const securityAlertResponse = (signatureSecurityAlertResponse ??
+    currentConfirmation?.securityAlertResponse) as
+    | SecurityAlertResponse
+    | undefined;
+
+  const policyViolations = securityAlertResponse?.policyViolations;
+
+  return useMemo<Alert[]>(() => {
+    if (!policyViolations?.length) {
+      return [];
+    }
+
+    return policyViolations.map(({ action, policyId, type }) => {
+      const isBlocking = action === SecurityPolicyAction.Block;
+
+      return {
+        key: `securityPolicy-${policyId}`,
+        reason: isBlocking
+          ? t('alertReasonSecurityPolicyBlocked')
+          : t('alertReasonSecurityPolicy'),
+        message: t(POLICY_TYPE_TO_MESSAGE_TKEY[type]),
+        severity: Severity.Danger,
+        isBlocking,
+      };
+    });
+  }, [policyViolations, t]);
+}
@@ -1,4 +1,5 @@
 import { renderHook } from '@testing-library/react-hooks';
+import { useSelector } from 'react-redux';
 import { TransactionType } from '@metamask/transaction-controller';
 import { NameType } from '@metamask/name-controller';
 
@@ -16,6 +17,11 @@ import {
 } from '../../../../hooks/useTrustSignals';
 import { useSpenderAlerts } from './useSpenderAlerts';
 
+jest.mock('react-redux', () => ({
+  ...jest.requireActual('react-redux'),
+  useSelector: jest.fn(),
+}));
+
 jest.mock('../../../../hooks/useI18nContext', () => ({
   useI18nContext: jest.fn(),
 }));
@@ -50,6 +56,7 @@ const mockIsSecurityAlertsAPIEnabled = jest.requireMock(
   '../../../../../app/scripts/lib/ppom/security-alerts-api',
 ).isSecurityAlertsAPIEnabled;
 
+const mockUseSelector = useSelector as jest.MockedFunction<typeof useSelector>;
 const mockUseTrustSignal = useTrustSignal as jest.MockedFunction<
   typeof useTrustSignal
 >;
@@ -101,6 +108,7 @@ describe('useSpenderAlerts', () => {
       label: null,
     });
     mockIsSecurityAlertsAPIEnabled.mockReturnValue(true);
+    mockUseSelector.mockReturnValue(false);
   });
 
   describe('approval transactions', () => {
@@ -340,4 +348,53 @@ describe('useSpenderAlerts', () => {
       expect(result.current).toHaveLength(0);
     });
   });
+
+  describe('strict mode', () => {
+    beforeEach(() => {
+      mockUseSelector.mockReturnValue(true);
+      mockUseConfirmContext.mockReturnValue({
+        currentConfirmation: {
+          id: MOCK_TRANSACTION_ID,
+          type: TransactionType.tokenMethodApprove,
+          chainId: '0x1',
+          txParams: {
+            data: '0xapprovedata',
+          },
+        },
+        isScrollToBottomCompleted: false,
+        setIsScrollToBottomCompleted: jest.fn(),
+      } as unknown as ReturnType<typeof useConfirmContext>);
+      mockParseApprovalTransactionData.mockReturnValue({
+        name: 'approve',
+        spender: MOCK_SPENDER_ADDRESS as `0x${string}`,
+      });
+    });
+
+    it('should require an acknowledgement phrase for malicious spender', () => {
+      mockUseTrustSignal.mockReturnValue({
+        state: TrustSignalDisplayState.Malicious,
+        label: null,
+      });
+
+      const { result } = renderHook(() => useSpenderAlerts());
+
+      expect(result.current).toEqual([
+        {
+          ...expectedMaliciousAlert,
+          acknowledgementPhrase: 'strictModeAcknowledgementPhrase',
+        },
+      ]);
+    });
+
+    it('should not require an acknowledgement phrase for warning spender', () => {
+      mockUseTrustSignal.mockReturnValue({
+        state: TrustSignalDisplayState.Warning,
+        label: null,
+      });
+
+      const { result } = renderHook(() => useSpenderAlerts());
+
+      expect(result.current).toEqual([expectedWarningAlert]);
+    });
+  });
 });
@@ -1,8 +1,10 @@
 import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
 import { NameType } from '@metamask/name-controller';
 import { TransactionMeta } from '@metamask/transaction-controller';
 
 import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { getSecurityStrictMode } from '../../../../selectors';
 import { useConfirmContext } from '../../context/confirm';
 import { isSignatureTransactionType } from '../../utils';
 import { SignatureRequestType } from '../../types/confirm';
@@ -28,6 +30,7 @@ import {
 export function useSpenderAlerts(): Alert[] {
   const t = useI18nContext();
   const { currentConfirmation } = useConfirmContext();
+  const isStrictMode = useSelector(getSecurityStrictMode);
 
   const spenderAddress = useMemo(() => {
     if (!currentConfirmation) {
@@ -90,6 +93,9 @@ export function useSpenderAlerts(): Alert[] {
         message: t('alertMessageAddressTrustSignalMalicious'),
         reason: t('nameModalTitleMalicious'),
         severity: Severity.Danger,
+        ...(isStrictMode && {
+          acknowledgementPhrase: t('strictModeAcknowledgementPhrase'),
+        }),
       });
     } else if (trustSignalDisplayState === TrustSignalDisplayState.Warning) {
       alerts.push({
@@ -104,5 +110,5 @@ export function useSpenderAlerts(): Alert[] {
     }
 
     return alerts;
-  }, [spenderAddress, trustSignalDisplayState, t]);
+  }, [isStrictMode, spenderAddress, trustSignalDisplayState, t]);
 }
@@ -1,4 +1,8 @@
-import { BlockaidResultType } from '../../../../../shared/constants/security-provider';
+import {
+  BLOCKAID_ATTRIBUTION,
+  BlockaidResultType,
+  SecurityProvider,
+} from '../../../../../shared/constants/security-provider';
 import { Severity } from '../../../../helpers/constants/design-system';
 import { SecurityAlertResponse } from '../../types/confirm';
 import { getProviderAlertSeverity, normalizeProviderAlert } from './utils';
@@ -42,5 +46,29 @@ describe('Utils', () => {
         'blockaidDescriptionMightLoseAssets',
       );
     });
+
+    it('omits Blockaid details if another provider selected the result', () => {
+      const providers = [
+        { id: 'in-house', name: 'In-house Scanner' },
+        BLOCKAID_ATTRIBUTION,
+      ];
+
+      const normalizedAlert = normalizeProviderAlert(
+        { ...mockResponse, providers },
+        mockT,
+      );
+
+      expect(normalizedAlert.provider).toBeUndefined();
+      expect(normalizedAlert.providers).toStrictEqual(providers);
+    });
+
+    it('includes Blockaid details if Blockaid selected the result', () => {
+      const normalizedAlert = normalizeProviderAlert(
+        { ...mockResponse, providers: [BLOCKAID_ATTRIBUTION] },
+        mockT,
+      );
+
+      expect(normalizedAlert.provider).toBe(SecurityProvider.Blockaid);
+    });
   });
 });
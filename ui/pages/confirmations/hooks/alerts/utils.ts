@@ -73,6 +73,9 @@ export function normalizeProviderAlert(
   t: ReturnType<typeof useI18nContext>,
   reportUrl?: string,
 ): Alert {
+  const { providers } = securityAlertResponse;
+  const [primaryProvider] = providers ?? [];
+
   return {
     // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31880
     // eslint-disable-next-line @typescript-eslint/prefer-nullish-coalescing
@@ -91,7 +94,12 @@ export function normalizeProviderAlert(
         securityAlertResponse.reason as keyof typeof REASON_TO_DESCRIPTION_TKEY
       ] || REASON_TO_DESCRIPTION_TKEY.other,
     ),
-    provider: SecurityProvider.Blockaid, // TODO: Remove this once we support more providers and implement a way to determine it.
+    // Blockaid specific details only apply if Blockaid provided the result.
+    provider:
+      !primaryProvider || primaryProvider.id === SecurityProvider.Blockaid
+        ? SecurityProvider.Blockaid
+        : undefined,
+    ...(providers && { providers }),
     reportUrl,
   };
 }
@@ -0,0 +1,73 @@
+import { act } from '@testing-library/react';
+import { renderHookWithProvider } from '../../../../../test/lib/render-helpers';
+import mockState from '../../../../../test/data/mock-state.json';
+import { addClipboardHijackHistoryEntry } from '../../../../store/actions';
+import { useClipboardHijackProtection } from './useClipboardHijackProtection';
+
+jest.mock('../../../../store/actions', () => ({
+  ...jest.requireActual('../../../../store/actions'),
+  addClipboardHijackHistoryEntry: jest.fn(),
+}));
+
+const COPIED_ADDRESS_MOCK = '0x1234567890abcdef1234567890abcdef12345678';
+const HIJACKED_ADDRESS_MOCK = '0x1234000000000000000000000000000000005678';
+
+function renderHook(lastCopiedAddress: string | null = COPIED_ADDRESS_MOCK) {
+  return renderHookWithProvider(() => useClipboardHijackProtection(), {
+    ...mockState,
+    metamask: { ...mockState.metamask, lastCopiedAddress },
+  });
+}
+
+describe('useClipboardHijackProtection', () => {
+  const mockAddClipboardHijackHistoryEntry = jest.mocked(
+    addClipboardHijackHistoryEntry,
+  );
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('returns suspected hijack if pasted address differs from copied address', () => {
+    const { result } = renderHook();
+
+    act(() => {
+      result.current.checkPastedAddress(HIJACKED_ADDRESS_MOCK);
+    });
+
+    expect(result.current.suspectedHijack).toStrictEqual({
+      copiedAddress: COPIED_ADDRESS_MOCK,
+      pastedAddress: HIJACKED_ADDRESS_MOCK,
+    });
+    expect(mockAddClipboardHijackHistoryEntry).toHaveBeenCalledWith(
+      COPIED_ADDRESS_MOCK,
+      HIJACKED_ADDRESS_MOCK,
+    );
+  });
+
+  it('clears suspected hijack if copied address is pasted', () => {
+    const { result } = renderHook();
+
+    act(() => {
+      result.current.checkPastedAddress(HIJACKED_ADDRESS_MOCK);
+    });
+
+    act(() => {
+      result.current.checkPastedAddress(COPIED_ADDRESS_MOCK);
+    });
+
+    expect(result.current.suspectedHijack).toBeUndefined();
+    expect(mockAddClipboardHijackHistoryEntry).toHaveBeenCalledTimes(1);
+  });
+
+  it('does not return suspected hijack if no address was copied', () => {
+    const { result } = renderHook(null);
+
+    act(() => {
+      result.current.checkPastedAddress(HIJACKED_ADDRESS_MOCK);
+    });
+
+    expect(result.current.suspectedHijack).toBeUndefined();
+    expect(mockAddClipboardHijackHistoryEntry).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,43 @@
+import { useCallback, useState } from 'react';
+import { useSelector } from 'react-redux';
+
+import { isClipboardHijackSuspected } from '../../../../../shared/lib/clipboard-hijack';
+import { selectLastCopiedAddress } from '../../../../selectors';
+import { addClipboardHijackHistoryEntry } from '../../../../store/actions';
+
+export type SuspectedClipboardHijack = {
+  copiedAddress: string;
+  pastedAddress: string;
+};
+
+/**
+ * Compares addresses pasted as the send recipient with the last address copied
+ * from the wallet, to detect clipboard malware replacing the copied address.
+ * Suspected replacements are recorded in the security alert history.
+ *
+ * @returns The suspected replacement of the last pasted address, if any, and a
+ * callback to check a pasted address.
+ */
+export const useClipboardHijackProtection = () => {
+  const lastCopiedAddress = useSelector(selectLastCopiedAddress);
+  const [suspectedHijack, setSuspectedHijack] =
+    useState<SuspectedClipboardHijack>();
+
+  const checkPastedAddress = useCallback(
+    (pastedAddress: string) => {
+      if (
+        !lastCopiedAddress ||
+        !isClipboardHijackSuspected(lastCopiedAddress, pastedAddress)
+      ) {
+        setSuspectedHijack(undefined);
+        return;
+      }
+
+      setSuspectedHijack({ copiedAddress: lastCopiedAddress, pastedAddress });
+      addClipboardHijackHistoryEntry(lastCopiedAddress, pastedAddress);
+    },
+    [lastCopiedAddress],
+  );
+
+  return { checkPastedAddress, suspectedHijack };
+};
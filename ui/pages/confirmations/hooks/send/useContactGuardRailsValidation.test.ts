@@ -0,0 +1,70 @@
+import mockState from '../../../../../test/data/mock-state.json';
+import {
+  EVM_ASSET,
+  EVM_NATIVE_ASSET,
+} from '../../../../../test/data/send/assets';
+import { renderHookWithProvider } from '../../../../../test/lib/render-helpers';
+import * as SendContext from '../../context/send';
+import { useContactGuardRailsValidation } from './useContactGuardRailsValidation';
+
+const MOCK_RECIPIENT = '0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc';
+
+function runHook(context: Partial<SendContext.SendContextType>) {
+  jest.spyOn(SendContext, 'useSendContext').mockReturnValue({
+    chainId: '0x5',
+    toResolved: MOCK_RECIPIENT,
+    ...context,
+  } as unknown as SendContext.SendContextType);
+
+  const { result } = renderHookWithProvider(
+    () => useContactGuardRailsValidation(),
+    {
+      ...mockState,
+      metamask: {
+        ...mockState.metamask,
+        contactGuardRails: {
+          '0x5': {
+            [MOCK_RECIPIENT]: {
+              allowedTokens: [EVM_NATIVE_ASSET.address],
+              maxAmount: '1.5',
+            },
+          },
+        },
+      },
+    },
+  );
+
+  return result.current.guardRailsError;
+}
+
+describe('useContactGuardRailsValidation', () => {
+  it('returns no error if recipient has no guard rails', () => {
+    expect(
+      runHook({
+        asset: EVM_ASSET,
+        toResolved: '0x1234567890abcdef1234567890abcdef12345678',
+        value: '10',
+      }),
+    ).toBeUndefined();
+  });
+
+  it('returns no error if send satisfies guard rails', () => {
+    expect(runHook({ asset: EVM_NATIVE_ASSET, value: '1.5' })).toBeUndefined();
+  });
+
+  it('returns error if amount above maximum', () => {
+    expect(runHook({ asset: EVM_NATIVE_ASSET, value: '2' })).toBe(
+      'Above contact limit of 1.5',
+    );
+  });
+
+  it('returns error if token not allowed', () => {
+    expect(runHook({ asset: EVM_ASSET, value: '1' })).toBe(
+      'Token not allowed for contact',
+    );
+  });
+
+  it('ignores invalid amounts', () => {
+    expect(runHook({ asset: EVM_NATIVE_ASSET, value: 'abc' })).toBeUndefined();
+  });
+});
@@ -0,0 +1,41 @@
+import { useMemo } from 'react';
+import { useSelector } from 'react-redux';
+import { Hex } from '@metamask/utils';
+
+import { getContactGuardRailViolations } from '../../../../../shared/lib/contact-guard-rails';
+import { ContactGuardRailViolation } from '../../../../../shared/types/contact-guard-rails';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import {
+  ContactGuardRailsState,
+  selectContactGuardRailsByAddress,
+} from '../../../../selectors/contact-guard-rails';
+import { useSendContext } from '../../context/send';
+import { isValidPositiveNumericString } from '../../utils/send';
+
+export const useContactGuardRailsValidation = () => {
+  const t = useI18nContext();
+  const { asset, chainId, toResolved, value } = useSendContext();
+
+  const guardRails = useSelector((state: ContactGuardRailsState) =>
+    selectContactGuardRailsByAddress(state, chainId as Hex, toResolved),
+  );
+
+  const guardRailsError = useMemo(() => {
+    // The send value is already in units of the asset, as is the maximum.
+    const [violation] = getContactGuardRailViolations(guardRails, {
+      amount: value && isValidPositiveNumericString(value) ? value : undefined,
+      tokenAddress: asset?.isNative ? undefined : (asset?.address as Hex),
+    });
+
+    switch (violation) {
+      case ContactGuardRailViolation.MaxAmountExceeded:
+        return t('sendContactGuardRailsMaxAmount', [guardRails?.maxAmount]);
+      case ContactGuardRailViolation.TokenNotAllowed:
+        return t('sendContactGuardRailsTokenNotAllowed');
+      default:
+        return undefined;
+    }
+  }, [asset, guardRails, t, value]);
+
+  return { guardRailsError };
+};
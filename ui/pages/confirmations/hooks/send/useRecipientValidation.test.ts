@@ -195,6 +195,26 @@ describe('useRecipientValidation', () => {
     });
   });
 
+  it('returns similar address if recipient looks like a known address', async () => {
+    mockUseSendContext.mockReturnValue({
+      asset: EVM_ASSET,
+      to: '0xc42e000000000000000000000000000000008813',
+      chainId: '0x1',
+    } as unknown as ReturnType<typeof useSendContext>);
+
+    jest
+      .spyOn(SendValidationUtils, 'validateEvmHexAddress')
+      .mockResolvedValue({});
+
+    const { result } = renderHook();
+
+    await waitFor(() => {
+      expect(result.current.recipientSimilarAddress).toEqual(
+        '0xc42edfcc21ed14dda456aa0756c153f7985d8813',
+      );
+    });
+  });
+
   it('validate solana address for Solana send type', async () => {
     mockUseSendType.mockReturnValue({
       isEvmSendType: false,
@@ -1,13 +1,16 @@
 import { useCallback, useEffect, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
 
 import {
   isSolanaAddress,
   isBtcMainnetAddress,
   isTronAddress,
 } from '../../../../../shared/lib/multichain/accounts';
+import { findSimilarAddress } from '../../../../../shared/lib/address-poisoning';
 import { isValidHexAddress } from '../../../../../shared/modules/hexstring-utils';
 import { isValidDomainName } from '../../../../helpers/utils/util';
 import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { selectKnownAddresses } from '../../../../selectors';
 import { RecipientValidationResult } from '../../types/send';
 import {
   validateBtcAddress,
@@ -28,6 +31,7 @@ export const useRecipientValidation = () => {
   const { isBitcoinSendType, isEvmSendType, isSolanaSendType, isTronSendType } =
     useSendType();
   const { validateName } = useNameValidation();
+  const knownAddresses = useSelector(selectKnownAddresses);
   const [result, setResult] = useState<RecipientValidationResult>({});
   const prevAddressValidated = useRef<string>();
   const unmountedRef = useRef(false);
@@ -45,7 +49,10 @@ export const useRecipientValidation = () => {
       }
 
       if (isEvmSendType && isValidHexAddress(toAddress)) {
-        return await validateEvmHexAddress(toAddress, chainId, asset?.address);
+        return {
+          ...(await validateEvmHexAddress(toAddress, chainId, asset?.address)),
+          similarAddress: findSimilarAddress(toAddress, knownAddresses),
+        };
       }
 
       if (isSolanaSendType && isSolanaAddress(toAddress)) {
@@ -75,6 +82,7 @@ export const useRecipientValidation = () => {
       isEvmSendType,
       isSolanaSendType,
       isTronSendType,
+      knownAddresses,
       validateName,
     ],
   );
@@ -101,6 +109,7 @@ export const useRecipientValidation = () => {
     recipientConfusableCharacters: result?.confusableCharacters,
     recipientError: result?.error ? t(result?.error) : undefined,
     recipientResolvedLookup: result?.resolvedLookup,
+    recipientSimilarAddress: result?.similarAddress,
     recipientWarning: result?.warning ? t(result?.warning) : undefined,
     resolutionProtocol: result?.protocol,
     toAddressValidated: result?.toAddressValidated,
@@ -48,9 +48,9 @@ describe('useIsEnforcedSimulationsSupported', () => {
     expect(result.current).toBe(true);
   });
 
-  it('returns false if not upgraded', () => {
+  it('returns true if not upgraded', () => {
     const { result } = renderHook({ isUpgraded: false });
-    expect(result.current).toBe(false);
+    expect(result.current).toBe(true);
   });
 
   it('returns false if internal origin', () => {
@@ -4,10 +4,9 @@ import { useConfirmContext } from '../../context/confirm';
 
 export function useIsEnforcedSimulationsSupported() {
   const { currentConfirmation } = useConfirmContext<TransactionMeta>();
-  const { delegationAddress, origin, simulationData } = currentConfirmation;
+  const { origin, simulationData } = currentConfirmation;
 
   const isInternalOrigin = !origin || origin === ORIGIN_METAMASK;
-  const isUpgraded = Boolean(delegationAddress);
 
   const hasBalanceChanges =
     Boolean(simulationData?.nativeBalanceChange) ||
@@ -16,7 +15,6 @@ export function useIsEnforcedSimulationsSupported() {
   return (
     process.env.ENABLE_ENFORCED_SIMULATIONS &&
     !isInternalOrigin &&
-    isUpgraded &&
     hasBalanceChanges
   );
 }
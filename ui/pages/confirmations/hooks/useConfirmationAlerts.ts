@@ -2,7 +2,11 @@ import { useMemo } from 'react';
 import { Alert } from '../../../ducks/confirm-alerts/confirm-alerts';
 import useAccountMismatchAlerts from './alerts/signatures/useAccountMismatchAlerts';
 import useDomainMismatchAlerts from './alerts/signatures/useDomainMismatchAlerts';
+import usePermitRiskAlerts from './alerts/signatures/usePermitRiskAlerts';
 import { useAccountTypeUpgrade } from './alerts/transactions/useAccountTypeUpgrade';
+import { useContactGuardRailsAlerts } from './alerts/transactions/useContactGuardRailsAlerts';
+import { useDelegationTargetAlert } from './alerts/transactions/useDelegationTargetAlert';
+import { useAddressPoisoningAlert } from './alerts/transactions/useAddressPoisoningAlert';
 import { useFirstTimeInteractionAlert } from './alerts/transactions/useFirstTimeInteractionAlert';
 import { useGasEstimateFailedAlerts } from './alerts/transactions/useGasEstimateFailedAlerts';
 import { useGasFeeLowAlerts } from './alerts/transactions/useGasFeeLowAlerts';
@@ -14,9 +18,11 @@ import { useNonContractAddressAlerts } from './alerts/transactions/useNonContrac
 import { usePendingTransactionAlerts } from './alerts/transactions/usePendingTransactionAlerts';
 import { useResimulationAlert } from './alerts/transactions/useResimulationAlert';
 import { useSigningOrSubmittingAlerts } from './alerts/transactions/useSigningOrSubmittingAlerts';
+import { useSwapRecipientAlert } from './alerts/transactions/useSwapRecipientAlert';
 import useBlockaidAlerts from './alerts/useBlockaidAlerts';
 import useConfirmationOriginAlerts from './alerts/useConfirmationOriginAlerts';
 import { useNetworkAndOriginSwitchingAlerts } from './alerts/useNetworkAndOriginSwitchingAlerts';
+import { useSecurityPolicyAlerts } from './alerts/useSecurityPolicyAlerts';
 import { useSelectedAccountAlerts } from './alerts/useSelectedAccountAlerts';
 import { useAddressTrustSignalAlerts } from './alerts/useAddressTrustSignalAlerts';
 import { useOriginTrustSignalAlerts } from './alerts/useOriginTrustSignalAlerts';
@@ -29,16 +35,24 @@ import { useBurnAddressAlert } from './alerts/transactions/useBurnAddressAlert';
 function useSignatureAlerts(): Alert[] {
   const accountMismatchAlerts = useAccountMismatchAlerts();
   const domainMismatchAlerts = useDomainMismatchAlerts();
+  const permitRiskAlerts = usePermitRiskAlerts();
 
   return useMemo(
-    () => [...accountMismatchAlerts, ...domainMismatchAlerts],
-    [accountMismatchAlerts, domainMismatchAlerts],
+    () => [
+      ...accountMismatchAlerts,
+      ...domainMismatchAlerts,
+      ...permitRiskAlerts,
+    ],
+    [accountMismatchAlerts, domainMismatchAlerts, permitRiskAlerts],
   );
 }
 
 function useTransactionAlerts(): Alert[] {
   const accountTypeUpgradeAlerts = useAccountTypeUpgrade();
+  const addressPoisoningAlert = useAddressPoisoningAlert();
   const burnAddressAlert = useBurnAddressAlert();
+  const contactGuardRailsAlerts = useContactGuardRailsAlerts();
+  const delegationTargetAlert = useDelegationTargetAlert();
   const firstTimeInteractionAlert = useFirstTimeInteractionAlert();
   const gasEstimateFailedAlerts = useGasEstimateFailedAlerts();
   const gasFeeLowAlerts = useGasFeeLowAlerts();
@@ -51,12 +65,16 @@ function useTransactionAlerts(): Alert[] {
   const resimulationAlert = useResimulationAlert();
   const shieldCoverageAlert = useShieldCoverageAlert();
   const signingOrSubmittingAlerts = useSigningOrSubmittingAlerts();
+  const swapRecipientAlert = useSwapRecipientAlert();
   const tokenTrustSignalAlerts = useTokenTrustSignalAlerts();
 
   return useMemo(
     () => [
       ...accountTypeUpgradeAlerts,
+      ...addressPoisoningAlert,
       ...burnAddressAlert,
+      ...contactGuardRailsAlerts,
+      ...delegationTargetAlert,
       ...firstTimeInteractionAlert,
       ...gasEstimateFailedAlerts,
       ...gasFeeLowAlerts,
@@ -69,11 +87,15 @@ function useTransactionAlerts(): Alert[] {
       ...resimulationAlert,
       ...shieldCoverageAlert,
       ...signingOrSubmittingAlerts,
+      ...swapRecipientAlert,
       ...tokenTrustSignalAlerts,
     ],
     [
       accountTypeUpgradeAlerts,
+      addressPoisoningAlert,
       burnAddressAlert,
+      contactGuardRailsAlerts,
+      delegationTargetAlert,
       firstTimeInteractionAlert,
       gasEstimateFailedAlerts,
       gasFeeLowAlerts,
@@ -86,6 +108,7 @@ function useTransactionAlerts(): Alert[] {
       resimulationAlert,
       shieldCoverageAlert,
       signingOrSubmittingAlerts,
+      swapRecipientAlert,
       tokenTrustSignalAlerts,
     ],
   );
@@ -93,6 +116,7 @@ function useTransactionAlerts(): Alert[] {
 
 export default function useConfirmationAlerts(): Alert[] {
   const blockaidAlerts = useBlockaidAlerts();
+  const securityPolicyAlerts = useSecurityPolicyAlerts();
   const confirmationOriginAlerts = useConfirmationOriginAlerts();
   const signatureAlerts = useSignatureAlerts();
   const transactionAlerts = useTransactionAlerts();
@@ -106,6 +130,7 @@ export default function useConfirmationAlerts(): Alert[] {
   return useMemo(
     () => [
       ...blockaidAlerts,
+      ...securityPolicyAlerts,
       ...confirmationOriginAlerts,
       ...signatureAlerts,
       ...transactionAlerts,
@@ -118,6 +143,7 @@ export default function useConfirmationAlerts(): Alert[] {
     ],
     [
       blockaidAlerts,
+      securityPolicyAlerts,
       confirmationOriginAlerts,
       signatureAlerts,
       transactionAlerts,
@@ -1,6 +1,11 @@
 import { renderHook, act } from '@testing-library/react-hooks';
 import { useDispatch, useSelector } from 'react-redux';
-import { updateThrottledOriginState } from '../../../store/actions';
+import { TransactionType } from '@metamask/transaction-controller';
+import {
+  DEFAULT_ORIGIN_THROTTLING_CONFIG,
+  ThrottlingMethodClass,
+} from '../../../../shared/constants/origin-throttling';
+import { resetThrottledOriginRejections } from '../../../store/actions';
 import { useOriginThrottling } from './useOriginThrottling';
 import useCurrentConfirmation from './useCurrentConfirmation';
 
@@ -12,26 +17,40 @@ jest.mock('react-redux', () => ({
 jest.mock('./useCurrentConfirmation', () => jest.fn());
 
 jest.mock('../../../store/actions', () => ({
-  updateThrottledOriginState: jest.fn(),
+  resetThrottledOriginRejections: jest.fn(),
 }));
 
 describe('useOriginThrottling', () => {
   const mockDispatch = jest.fn();
   const mockOrigin = 'test-origin';
+  const mockRejections = {
+    rejections: 2,
+    lastRejection: Date.now() - 1000,
+  };
   const mockThrottledOrigins = {
     [mockOrigin]: {
-      rejections: 2,
-      lastRejection: Date.now() - 1000,
+      rejections: {
+        [ThrottlingMethodClass.Signature]: mockRejections,
+        [ThrottlingMethodClass.Transaction]: mockRejections,
+      },
     },
   };
 
   beforeEach(() => {
     (useDispatch as jest.Mock).mockReturnValue(mockDispatch);
     (useSelector as jest.Mock).mockImplementation((selectorFn) =>
-      selectorFn({ metamask: { throttledOrigins: mockThrottledOrigins } }),
+      selectorFn({
+        metamask: {
+          originThrottlingConfig: DEFAULT_ORIGIN_THROTTLING_CONFIG,
+          throttledOrigins: mockThrottledOrigins,
+        },
+      }),
     );
     (useCurrentConfirmation as jest.Mock).mockReturnValue({
-      currentConfirmation: { origin: mockOrigin },
+      currentConfirmation: {
+        origin: mockOrigin,
+        type: TransactionType.personalSign,
+      },
     });
   });
 
@@ -45,18 +64,30 @@ describe('useOriginThrottling', () => {
     expect(result.current.shouldThrottleOrigin).toBe(true);
   });
 
-  it('should call updateThrottledOriginState when resetOrigin is called', async () => {
+  it('should return shouldThrottleOrigin as false when the method class has no rejections', () => {
+    (useCurrentConfirmation as jest.Mock).mockReturnValue({
+      currentConfirmation: {
+        origin: mockOrigin,
+        type: 'wallet_addEthereumChain',
+      },
+    });
+
+    const { result } = renderHook(() => useOriginThrottling());
+
+    expect(result.current.shouldThrottleOrigin).toBe(false);
+  });
+
+  it('should call resetThrottledOriginRejections when resetOrigin is called', async () => {
     const { result } = renderHook(() => useOriginThrottling());
 
     await act(async () => {
       await result.current.resetOrigin();
     });
 
-    expect(mockDispatch).toHaveBeenCalledWith(
-      updateThrottledOriginState(mockOrigin, {
-        rejections: 0,
-        lastRejection: 0,
-      }),
+    expect(resetThrottledOriginRejections).toHaveBeenCalledWith(
+      mockOrigin,
+      ThrottlingMethodClass.Signature,
     );
+    expect(mockDispatch).toHaveBeenCalledTimes(1);
   });
 });
@@ -1,46 +1,53 @@
 import { useCallback } from 'react';
 import { useDispatch, useSelector } from 'react-redux';
+import { ApprovalType } from '@metamask/controller-utils';
+import { TransactionType } from '@metamask/transaction-controller';
 
-import type { ThrottledOrigin } from '../../../../shared/types/origin-throttling';
-import { updateThrottledOriginState } from '../../../store/actions';
+import { ThrottlingMethodClass } from '../../../../shared/constants/origin-throttling';
+import { willNextRejectionBlockOrigin } from '../../../../shared/lib/origin-throttling';
+import { resetThrottledOriginRejections } from '../../../store/actions';
 
-import { selectThrottledOrigins } from '../../../selectors';
+import {
+  selectOriginThrottlingConfig,
+  selectThrottledOrigins,
+} from '../../../selectors';
+import { SIGNATURE_TRANSACTION_TYPES } from '../utils';
 import useCurrentConfirmation from './useCurrentConfirmation';
 
-const NUMBER_OF_REJECTIONS_THRESHOLD = 3;
-const REJECTION_THRESHOLD_IN_MS = 30000;
+function getMethodClass(type?: string): ThrottlingMethodClass {
+  if (SIGNATURE_TRANSACTION_TYPES.includes(type as TransactionType)) {
+    return ThrottlingMethodClass.Signature;
+  }
 
-const willNextRejectionReachThreshold = (
-  originState: ThrottledOrigin,
-): boolean => {
-  if (!originState) {
-    return false;
+  if (type === ApprovalType.AddEthereumChain) {
+    return ThrottlingMethodClass.ChainSwitching;
   }
-  const currentTime = Date.now();
-  const { rejections, lastRejection } = originState;
-  return (
-    rejections + 1 >= NUMBER_OF_REJECTIONS_THRESHOLD &&
-    currentTime - lastRejection <= REJECTION_THRESHOLD_IN_MS
-  );
-};
+
+  return ThrottlingMethodClass.Transaction;
+}
 
 export function useOriginThrottling() {
   const dispatch = useDispatch();
   const throttledOrigins = useSelector(selectThrottledOrigins);
+  const originThrottlingConfig = useSelector(selectOriginThrottlingConfig);
   const { currentConfirmation } = useCurrentConfirmation();
   const origin =
     currentConfirmation?.origin || currentConfirmation?.messageParams?.origin;
   const originState = throttledOrigins[origin];
-  const shouldThrottleOrigin = willNextRejectionReachThreshold(originState);
+  const methodClass = getMethodClass(currentConfirmation?.type);
+  const shouldThrottleOrigin =
+    Boolean(originState) &&
+    willNextRejectionBlockOrigin(
+      originState,
+      methodClass,
+      originThrottlingConfig[methodClass],
+    );
 
   const resetOrigin = useCallback(() => {
-    dispatch(
-      updateThrottledOriginState(origin, {
-        rejections: 0,
-        lastRejection: 0,
-      }),
-    );
-  }, [dispatch, origin]);
+    // Lifts the block caused by the rejection that reached the threshold, so
+    // the origin is not blocked. The background reads the latest origin state.
+    dispatch(resetThrottledOriginRejections(origin, methodClass));
+  }, [dispatch, methodClass, origin]);
 
   return {
     origin,
@@ -8,7 +8,11 @@ import {
   TransactionType,
 } from '@metamask/transaction-controller';
 
-import { SecurityAlertSource } from '../../../../shared/constants/security-provider';
+import {
+  SecurityAlertSource,
+  SecurityProviderAttribution,
+} from '../../../../shared/constants/security-provider';
+import { SecurityPolicyViolation } from '../../../../shared/constants/security-policy';
 
 export type TypedSignDataV1Type = {
   name: string;
@@ -20,10 +24,12 @@ export type SecurityAlertResponse = {
   block?: number;
   reason: string;
   features?: string[];
+  policyViolations?: SecurityPolicyViolation[];
   // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31860
   // eslint-disable-next-line @typescript-eslint/naming-convention
   result_type: string;
   providerRequestsCount?: Record<string, number>;
+  providers?: SecurityProviderAttribution[];
   securityAlertId?: string;
   source?: SecurityAlertSource;
 };
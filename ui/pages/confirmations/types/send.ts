@@ -49,6 +49,7 @@ export type RecipientValidationResult = {
   }[];
   error?: string;
   resolvedLookup?: string;
+  similarAddress?: string;
   warning?: string;
   toAddressValidated?: string;
   loading?: boolean;
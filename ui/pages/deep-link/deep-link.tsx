@@ -102,6 +102,18 @@ async function updateStateFromUrl(
     if (parsed) {
       const { destination } = parsed;
 
+      if (parsed.route.requiresSignature && parsed.signature !== VALID) {
+        // the route only accepts links signed by MetaMask, so we don't offer
+        // to continue to it
+        setDescription(t('deepLink_SignatureRequiredDescription'));
+        setExtraDescription(null);
+        setRoute(null);
+        setTitle(t('deepLink_SignatureRequiredTitle'));
+        setCta(t('deepLink_GoToTheHomePageButton'));
+        setPageNotFoundError(false);
+        return;
+      }
+
       if ('redirectTo' in destination) {
         window.location.href = destination.redirectTo.toString();
         return;
@@ -1,4 +1,5 @@
 import React from 'react';
+import { Hex } from '@metamask/utils';
 import { useNavigate, useParams } from 'react-router-dom-v5-compat';
 import {
   Box,
@@ -15,6 +16,7 @@ import {
 import { TextVariant } from '../../../helpers/constants/design-system';
 import { useI18nContext } from '../../../hooks/useI18nContext';
 import { SmartContractAccountToggleSection } from '../../../components/multichain-accounts/smart-contract-account-toggle-section';
+import { SpendingAllowancesSection } from '../../../components/multichain-accounts/spending-allowances-section';
 import { PREVIOUS_ROUTE } from '../../../helpers/constants/routes';
 
 type SmartAccountPageProps = {
@@ -57,6 +59,7 @@ export const SmartAccountPage = ({
       <Content>
         <Box flexDirection={BoxFlexDirection.Column}>
           <SmartContractAccountToggleSection address={decodedAddress} />
+          <SpendingAllowancesSection address={decodedAddress as Hex} />
         </Box>
       </Content>
     </Page>
@@ -7,6 +7,7 @@ import {
 import { renderWithProvider } from '../../../../test/lib/render-helpers-navigate';
 import mockState from '../../../../test/data/mock-state.json';
 import configureStore from '../../../store/store';
+import { ConnectionDuration } from '../../../../shared/constants/connection-expiry';
 import { ConnectPage, ConnectPageProps } from './connect-page';
 
 // Mock the CreateSolanaAccountModal component to avoid errors
@@ -241,6 +242,52 @@ describe('ConnectPage', () => {
     expect(cancelButton).toBeDefined();
   });
 
+  it('should approve the connection with the selected duration', () => {
+    const approveConnection = jest.fn();
+    const { getByTestId, getByText } = render({
+      props: {
+        request: {
+          permissions: {
+            [Caip25EndowmentPermissionName]: {
+              caveats: [
+                {
+                  type: Caip25CaveatType,
+                  value: {
+                    requiredScopes: {},
+                    optionalScopes: {
+                      'eip155:1': {
+                        accounts: [
+                          'eip155:1:0x0dcd5d886577d5081b0c52e242ef29e70be3e7bc',
+                        ],
+                      },
+                    },
+                    isMultichainOrigin: false,
+                    sessionProperties: {},
+                  },
+                },
+              ],
+            },
+          },
+        },
+        permissionsRequestId: '1',
+        rejectPermissionsRequest: jest.fn(),
+        approveConnection,
+        activeTabOrigin: mockTestDappUrl,
+        targetSubjectMetadata: mockTargetSubjectMetadata,
+      },
+    });
+
+    fireEvent.click(getByTestId('connection-duration-select'));
+    fireEvent.click(getByText('1 hour'));
+    fireEvent.click(getByTestId('confirm-btn'));
+
+    expect(approveConnection).toHaveBeenCalledWith(
+      expect.objectContaining({
+        connectionDuration: ConnectionDuration.OneHour,
+      }),
+    );
+  });
+
   it('should render with defaults from the requested permissions', () => {
     const { container } = render({
       props: {
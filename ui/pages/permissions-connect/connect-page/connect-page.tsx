@@ -43,6 +43,10 @@ import {
   Icon,
   IconName,
   IconSize,
+  SelectButton,
+  SelectButtonSize,
+  SelectOption,
+  SelectWrapper,
   Text,
 } from '../../../components/component-library';
 import {
@@ -90,6 +94,7 @@ import { CreateSolanaAccountModal } from '../../../components/multichain/create-
 import { mergeCaip25CaveatValues } from '../../../../shared/lib/caip25-caveat-merger';
 import { useOriginTrustSignals } from '../../../hooks/useOriginTrustSignals';
 import { TrustSignalDisplayState } from '../../../hooks/useTrustSignals';
+import { ConnectionDuration } from '../../../../shared/constants/connection-expiry';
 import {
   PermissionsRequest,
   getCaip25CaveatValueFromPermissions,
@@ -98,6 +103,7 @@ import {
 
 export type ConnectPageRequest = {
   permissions?: PermissionsRequest;
+  connectionDuration?: ConnectionDuration;
   metadata?: {
     id: string;
     origin: string;
@@ -204,6 +210,25 @@ export const ConnectPage: React.FC<ConnectPageProps> = ({
   const [showEditAccountsModal, setShowEditAccountsModal] = useState(false);
   const [showCreateSolanaAccountModal, setShowCreateSolanaAccountModal] =
     useState(false);
+  const [connectionDuration, setConnectionDuration] = useState<
+    ConnectionDuration | ''
+  >('');
+
+  const connectionDurationOptions = useMemo(
+    () => [
+      { value: '', name: t('connectionDurationUntilDisconnected') },
+      {
+        value: ConnectionDuration.OneHour,
+        name: t('connectionDurationOneHour'),
+      },
+      { value: ConnectionDuration.OneDay, name: t('connectionDurationOneDay') },
+      {
+        value: ConnectionDuration.Session,
+        name: t('connectionDurationSession'),
+      },
+    ],
+    [t],
+  );
 
   // By default, if a non test network is the globally selected network. We will only show non test networks as default selected.
   const currentlySelectedNetwork = useSelector(getMultichainNetwork);
@@ -438,6 +463,7 @@ export const ConnectPage: React.FC<ConnectPageProps> = ({
           selectedChainIds,
         ),
       },
+      ...(connectionDuration ? { connectionDuration } : {}),
     };
     approveConnection(_request);
   }, [
@@ -445,6 +471,7 @@ export const ConnectPage: React.FC<ConnectPageProps> = ({
     requestedCaip25CaveatValueWithExistingPermissions,
     selectedCaipAccountAddresses,
     selectedChainIds,
+    connectionDuration,
     approveConnection,
   ]);
 
@@ -677,6 +704,37 @@ export const ConnectPage: React.FC<ConnectPageProps> = ({
           gap={4}
           width={BlockSize.Full}
         >
+          <Box
+            display={Display.Flex}
+            justifyContent={JustifyContent.spaceBetween}
+            alignItems={AlignItems.center}
+            width={BlockSize.Full}
+          >
+            <Text variant={TextVariant.bodyMdMedium}>
+              {t('connectionDuration')}
+            </Text>
+            <SelectWrapper
+              onValueChange={setConnectionDuration}
+              triggerComponent={
+                <SelectButton
+                  size={SelectButtonSize.Sm}
+                  data-testid="connection-duration-select"
+                >
+                  {
+                    connectionDurationOptions.find(
+                      ({ value }) => value === connectionDuration,
+                    )?.name
+                  }
+                </SelectButton>
+              }
+            >
+              {connectionDurationOptions.map(({ value, name }) => (
+                <SelectOption key={name} value={value}>
+                  {name}
+                </SelectOption>
+              ))}
+            </SelectWrapper>
+          </Box>
           <Box display={Display.Flex} gap={4} width={BlockSize.Full}>
             <Button
               block
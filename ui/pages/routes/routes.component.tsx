@@ -69,6 +69,7 @@ import {
   SHIELD_PLAN_ROUTE,
   GATOR_PERMISSIONS,
   TOKEN_TRANSFER_ROUTE,
+  GATOR_PERMISSIONS_BY_SITE_ROUTE,
   REVIEW_GATOR_PERMISSIONS_ROUTE,
   REWARDS_ROUTE,
 } from '../../helpers/constants/routes';
@@ -401,6 +402,13 @@ const TokenTransferPage = mmLazy(
       '../../components/multichain/pages/gator-permissions/token-transfer/token-transfer-page.tsx'
     )) as unknown as DynamicImportType,
 );
+const GatorPermissionsBySitePage = mmLazy(
+  // TODO: This is a named export. Fix incorrect type casting once `mmLazy` is updated to handle non-default export types.
+  (() =>
+    import(
+      '../../components/multichain/pages/gator-permissions/sites/gator-permissions-by-site-page.tsx'
+    )) as unknown as DynamicImportType,
+);
 const ReviewGatorPermissionsPage = mmLazy(
   // TODO: This is a named export. Fix incorrect type casting once `mmLazy` is updated to handle non-default export types.
   (() =>
@@ -949,6 +957,13 @@ export default function Routes() {
               paramsAsProps: false,
             })}
           </RouteWithLayout>
+          <RouteWithLayout
+            authenticated
+            path={GATOR_PERMISSIONS_BY_SITE_ROUTE}
+            component={GatorPermissionsBySitePage}
+            exact
+            layout={LegacyLayout}
+          />
           <RouteWithLayout
             path={`${REVIEW_GATOR_PERMISSIONS_ROUTE}/:chainId/:permissionGroupName`}
             exact
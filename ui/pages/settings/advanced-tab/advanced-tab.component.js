@@ -33,6 +33,9 @@ import {
   getNumberOfSettingRoutesInTab,
   handleSettingsRefs,
 } from '../../../helpers/utils/settings-search';
+import { ContractAbiRegistry } from './contract-abi-registry/contract-abi-registry';
+import { EncryptedBackup } from './encrypted-backup/encrypted-backup';
+import { StateSnapshots } from './state-snapshots/state-snapshots';
 
 export default class AdvancedTab extends PureComponent {
   static contextTypes = {
@@ -121,10 +124,39 @@ export default class AdvancedTab extends PureComponent {
     });
   };
 
-  renderStateLogs() {
+  /**
+   * Exports the state logs as a file.
+   *
+   * @param {object} [options] - The options passed to `window.logStateString`.
+   * @param {boolean} [options.redact] - Whether to redact the state logs, so
+   * they can be attached to public bug reports.
+   */
+  downloadStateLogs(options) {
     const { t } = this.context;
     const { displayErrorInSettings } = this.props;
 
+    window.logStateString(async (err, result) => {
+      if (err) {
+        displayErrorInSettings(t('stateLogError'));
+      } else {
+        try {
+          await exportAsFile(
+            options?.redact
+              ? `${t('stateLogFileName')}-redacted.json`
+              : `${t('stateLogFileName')}.json`,
+            result,
+            ExportableContentType.JSON,
+          );
+        } catch (error) {
+          displayErrorInSettings(error.message);
+        }
+      }
+    }, options);
+  }
+
+  renderStateLogs() {
+    const { t } = this.context;
+
     return (
       <Box
         className="settings-page__content-row"
@@ -140,31 +172,22 @@ export default class AdvancedTab extends PureComponent {
           </span>
         </div>
         <div className="settings-page__content-item">
-          <div className="settings-page__content-item-col">
+          <Box display={Display.Flex} gap={2}>
             <Button
               variant={ButtonVariant.Secondary}
               data-testid="advanced-setting-state-logs-button"
-              onClick={() => {
-                window.logStateString(async (err, result) => {
-                  if (err) {
-                    displayErrorInSettings(t('stateLogError'));
-                  } else {
-                    try {
-                      await exportAsFile(
-                        `${t('stateLogFileName')}.json`,
-                        result,
-                        ExportableContentType.JSON,
-                      );
-                    } catch (error) {
-                      displayErrorInSettings(error.message);
-                    }
-                  }
-                });
-              }}
+              onClick={() => this.downloadStateLogs()}
             >
               {t('downloadStateLogs')}
             </Button>
-          </div>
+            <Button
+              variant={ButtonVariant.Secondary}
+              data-testid="advanced-setting-redacted-state-logs-button"
+              onClick={() => this.downloadStateLogs({ redact: true })}
+            >
+              {t('downloadRedactedStateLogs')}
+            </Button>
+          </Box>
         </div>
       </Box>
     );
@@ -715,7 +738,10 @@ export default class AdvancedTab extends PureComponent {
         {this.renderToggleExtensionInFullSizeView()}
         {this.renderAutoLockTimeLimit()}
         {this.renderUserDataBackup()}
+        <EncryptedBackup />
+        <StateSnapshots />
         {this.renderDismissSeedBackupReminderControl()}
+        <ContractAbiRegistry />
       </div>
     );
   }
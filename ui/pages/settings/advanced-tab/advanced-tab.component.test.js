@@ -29,6 +29,7 @@ jest.mock('../../../store/actions.ts', () => {
       mockSetDismissSmartAccountSuggestionEnabled,
     setSmartAccountOptIn: () => mockSetUseSmartAccount,
     setShowExtensionInFullSizeView: () => mockSetShowExtensionInFullSizeView,
+    getStateSnapshots: () => Promise.resolve([]),
   };
 });
 
@@ -231,5 +232,20 @@ describe('AdvancedTab Component', () => {
         expect(mockDisplayErrorInSettings).toHaveBeenCalledTimes(1);
       });
     });
+
+    it('should request redacted state logs when the redacted button is clicked', () => {
+      const originalLogStateString = window.logStateString;
+      window.logStateString = jest.fn();
+
+      const { queryByTestId } = renderWithProvider(<AdvancedTab />, mockStore);
+      fireEvent.click(
+        queryByTestId('advanced-setting-redacted-state-logs-button'),
+      );
+
+      expect(window.logStateString).toHaveBeenCalledWith(expect.any(Function), {
+        redact: true,
+      });
+      window.logStateString = originalLogStateString;
+    });
   });
 });
@@ -0,0 +1,114 @@
+import React from 'react';
+import { fireEvent, waitFor } from '@testing-library/react';
+import configureMockStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../test/lib/render-helpers-navigate';
+import { addContractAbi, removeContractAbi } from '../../../../store/actions';
+import { ContractAbiRegistry } from './contract-abi-registry';
+
+jest.mock('../../../../store/actions', () => ({
+  ...jest.requireActual('../../../../store/actions'),
+  addContractAbi: jest.fn(() => ({ type: 'ADD_CONTRACT_ABI' })),
+  removeContractAbi: jest.fn(() => ({ type: 'REMOVE_CONTRACT_ABI' })),
+}));
+
+const ADDRESS_MOCK = '0x1234567890123456789012345678901234567890';
+
+const ABI_MOCK = JSON.stringify([
+  {
+    type: 'function',
+    name: 'transfer',
+    inputs: [
+      { name: 'to', type: 'address' },
+      { name: 'amount', type: 'uint256' },
+    ],
+  },
+]);
+
+function render(contractAbiSummaries = {}) {
+  const store = configureMockStore([thunk])({
+    ...mockState,
+    metamask: { ...mockState.metamask, contractAbiSummaries },
+  });
+
+  return renderWithProvider(<ContractAbiRegistry />, store);
+}
+
+describe('ContractAbiRegistry', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('renders imported ABIs', () => {
+    const { getByText } = render({
+      '0x1': {
+        [ADDRESS_MOCK]: { name: 'Token', addedAt: 1000 },
+      },
+    });
+
+    expect(getByText('Token')).toBeInTheDocument();
+    expect(
+      getByText('0x12345...67890 · Custom Mainnet RPC'),
+    ).toBeInTheDocument();
+  });
+
+  it('removes imported ABI', () => {
+    const { getByTestId } = render({
+      '0x1': {
+        [ADDRESS_MOCK]: { addedAt: 1000 },
+      },
+    });
+
+    fireEvent.click(getByTestId('contract-abi-remove'));
+
+    expect(removeContractAbi).toHaveBeenCalledWith('0x1', ADDRESS_MOCK);
+  });
+
+  it('imports ABI from modal', async () => {
+    const { getByTestId } = render();
+
+    fireEvent.click(getByTestId('contract-abi-import'));
+
+    fireEvent.change(getByTestId('import-contract-abi-address'), {
+      target: { value: ADDRESS_MOCK },
+    });
+
+    fireEvent.change(getByTestId('import-contract-abi-json'), {
+      target: { value: ABI_MOCK },
+    });
+
+    fireEvent.click(getByTestId('import-contract-abi-submit'));
+
+    await waitFor(() => {
+      expect(addContractAbi).toHaveBeenCalledWith(
+        '0x1',
+        ADDRESS_MOCK,
+        ABI_MOCK,
+      );
+    });
+  });
+
+  it('displays error if ABI is invalid', async () => {
+    const { getByTestId, findByText } = render();
+
+    fireEvent.click(getByTestId('contract-abi-import'));
+
+    fireEvent.change(getByTestId('import-contract-abi-address'), {
+      target: { value: ADDRESS_MOCK },
+    });
+
+    fireEvent.change(getByTestId('import-contract-abi-json'), {
+      target: { value: '{}' },
+    });
+
+    fireEvent.click(getByTestId('import-contract-abi-submit'));
+
+    expect(
+      await findByText(
+        'No ABI found. Paste a JSON ABI, a build artifact or Sourcify metadata.',
+      ),
+    ).toBeInTheDocument();
+    expect(addContractAbi).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,107 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Hex } from '@metamask/utils';
+import {
+  Box,
+  Button,
+  ButtonIcon,
+  ButtonIconSize,
+  ButtonVariant,
+  IconName,
+  Text,
+} from '../../../../components/component-library';
+import {
+  AlignItems,
+  Display,
+  FlexDirection,
+  JustifyContent,
+  TextColor,
+  TextVariant,
+} from '../../../../helpers/constants/design-system';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { getNetworkConfigurationsByChainId } from '../../../../../shared/modules/selectors/networks';
+import { shortenAddress } from '../../../../helpers/utils/util';
+import { selectContractAbiSummaries } from '../../../../selectors';
+import { removeContractAbi } from '../../../../store/actions';
+import { ImportContractAbiModal } from './import-contract-abi-modal';
+
+export const ContractAbiRegistry = () => {
+  const t = useI18nContext();
+  const dispatch = useDispatch();
+  const contractAbiSummaries = useSelector(selectContractAbiSummaries);
+  const networkConfigurations = useSelector(getNetworkConfigurationsByChainId);
+  const [isImportModalOpen, setIsImportModalOpen] = useState(false);
+
+  const entries = Object.entries(contractAbiSummaries).flatMap(
+    ([chainId, summariesByAddress]) =>
+      Object.entries(summariesByAddress).map(([address, summary]) => ({
+        ...summary,
+        chainId: chainId as Hex,
+        address: address as Hex,
+      })),
+  );
+
+  return (
+    <Box
+      className="settings-page__content-row"
+      data-testid="advanced-setting-contract-abis"
+      display={Display.Flex}
+      flexDirection={FlexDirection.Column}
+    >
+      <div className="settings-page__content-item">
+        <span>{t('contractAbis')}</span>
+        <span className="settings-page__content-description">
+          {t('contractAbisDescription')}
+        </span>
+      </div>
+      <div className="settings-page__content-item">
+        {entries.map((entry) => (
+          <Box
+            key={`${entry.chainId}:${entry.address}`}
+            display={Display.Flex}
+            justifyContent={JustifyContent.spaceBetween}
+            alignItems={AlignItems.center}
+            paddingBottom={2}
+            data-testid="contract-abi-entry"
+          >
+            <Box display={Display.Flex} flexDirection={FlexDirection.Column}>
+              <Text variant={TextVariant.bodyMdMedium}>
+                {entry.name ?? shortenAddress(entry.address)}
+              </Text>
+              <Text
+                variant={TextVariant.bodySm}
+                color={TextColor.textAlternative}
+              >
+                {shortenAddress(entry.address)}
+                {' · '}
+                {networkConfigurations[entry.chainId]?.name ?? entry.chainId}
+              </Text>
+            </Box>
+            <ButtonIcon
+              iconName={IconName.Trash}
+              size={ButtonIconSize.Sm}
+              ariaLabel={t('delete')}
+              onClick={() =>
+                dispatch(removeContractAbi(entry.chainId, entry.address))
+              }
+              data-testid="contract-abi-remove"
+            />
+          </Box>
+        ))}
+        <div className="settings-page__content-item-col">
+          <Button
+            data-testid="contract-abi-import"
+            variant={ButtonVariant.Secondary}
+            large
+            onClick={() => setIsImportModalOpen(true)}
+          >
+            {t('contractAbiImport')}
+          </Button>
+        </div>
+      </div>
+      {isImportModalOpen && (
+        <ImportContractAbiModal onClose={() => setIsImportModalOpen(false)} />
+      )}
+    </Box>
+  );
+};
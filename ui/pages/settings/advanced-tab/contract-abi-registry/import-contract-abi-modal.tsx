@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Hex } from '@metamask/utils';
+import {
+  Box,
+  ButtonPrimary,
+  ButtonPrimarySize,
+  FormTextField,
+  HelpText,
+  HelpTextSeverity,
+  Label,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+} from '../../../../components/component-library';
+import { Textarea } from '../../../../components/component-library/textarea';
+import Dropdown from '../../../../components/ui/dropdown';
+import {
+  Display,
+  FlexDirection,
+} from '../../../../helpers/constants/design-system';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { getNetworkConfigurationsByChainId } from '../../../../../shared/modules/selectors/networks';
+import { isValidHexAddress } from '../../../../../shared/modules/hexstring-utils';
+import {
+  ContractAbiErrorMessage,
+  parseContractAbi,
+} from '../../../../../shared/lib/contract-abi';
+import {
+  getErrorMessage,
+  logErrorWithMessage,
+} from '../../../../../shared/modules/error';
+import { addContractAbi } from '../../../../store/actions';
+
+const ERROR_MESSAGE_KEYS: Record<ContractAbiErrorMessage, string> = {
+  [ContractAbiErrorMessage.InvalidJson]: 'contractAbiErrorInvalidJson',
+  [ContractAbiErrorMessage.InvalidMetadata]: 'contractAbiErrorInvalidMetadata',
+  [ContractAbiErrorMessage.AbiNotFound]: 'contractAbiErrorNotFound',
+  [ContractAbiErrorMessage.InvalidAbi]: 'contractAbiErrorInvalidAbi',
+  [ContractAbiErrorMessage.NoFunctions]: 'contractAbiErrorNoFunctions',
+};
+
+function getErrorMessageKey(error: unknown): string {
+  return (
+    ERROR_MESSAGE_KEYS[getErrorMessage(error) as ContractAbiErrorMessage] ??
+    'contractAbiErrorImportFailed'
+  );
+}
+
+type ImportContractAbiModalProps = {
+  onClose: () => void;
+};
+
+export const ImportContractAbiModal = ({
+  onClose,
+}: ImportContractAbiModalProps) => {
+  const t = useI18nContext();
+  const dispatch = useDispatch();
+  const networkConfigurations = useSelector(getNetworkConfigurationsByChainId);
+  const networks = Object.values(networkConfigurations);
+
+  const [chainId, setChainId] = useState<Hex>(networks[0]?.chainId);
+  const [address, setAddress] = useState('');
+  const [abiJson, setAbiJson] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const isAddressValid = isValidHexAddress(address, {
+    allowNonPrefixed: false,
+  });
+
+  const canSubmit =
+    Boolean(chainId && abiJson) && isAddressValid && !isSubmitting;
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+
+    if (file) {
+      setAbiJson(await file.text());
+    }
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    setError(undefined);
+
+    try {
+      parseContractAbi(abiJson);
+    } catch (parseError) {
+      setError(t(getErrorMessageKey(parseError)));
+      return;
+    }
+
+    setIsSubmitting(true);
+
+    try {
+      await dispatch(addContractAbi(chainId, address as Hex, abiJson));
+      onClose();
+    } catch (submitError) {
+      logErrorWithMessage(submitError);
+      setError(t(getErrorMessageKey(submitError)));
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} className="import-contract-abi-modal">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader onClose={onClose}>{t('contractAbiImport')}</ModalHeader>
+        <ModalBody>
+          <Box
+            display={Display.Flex}
+            flexDirection={FlexDirection.Column}
+            gap={4}
+          >
+            <Box>
+              <Label>{t('network')}</Label>
+              <Dropdown
+                options={networks.map((network) => ({
+                  name: network.name,
+                  value: network.chainId,
+                }))}
+                selectedOption={chainId}
+                onChange={setChainId}
+                data-testid="import-contract-abi-network"
+              />
+            </Box>
+            <FormTextField
+              id="import-contract-abi-address"
+              label={t('contractAddress')}
+              placeholder="0x..."
+              value={address}
+              onChange={(event) => setAddress(event.target.value.trim())}
+              error={Boolean(address) && !isAddressValid}
+              helpText={
+                address && !isAddressValid ? t('invalidAddress') : undefined
+              }
+              inputProps={{ 'data-testid': 'import-contract-abi-address' }}
+            />
+            <Box>
+              <Label htmlFor="import-contract-abi-json">
+                {t('contractAbi')}
+              </Label>
+              <Textarea
+                id="import-contract-abi-json"
+                rows={6}
+                placeholder={t('contractAbiPlaceholder')}
+                value={abiJson}
+                onChange={(event: React.ChangeEvent<HTMLTextAreaElement>) =>
+                  setAbiJson(event.target.value)
+                }
+                data-testid="import-contract-abi-json"
+              />
+            </Box>
+            <input
+              type="file"
+              accept=".json,application/json"
+              // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31879
+              // eslint-disable-next-line @typescript-eslint/no-misused-promises
+              onChange={handleFileChange}
+              data-testid="import-contract-abi-file"
+            />
+            {error && (
+              <HelpText severity={HelpTextSeverity.Danger}>{error}</HelpText>
+            )}
+          </Box>
+        </ModalBody>
+        <ModalFooter>
+          <ButtonPrimary
+            block
+            size={ButtonPrimarySize.Lg}
+            disabled={!canSubmit}
+            loading={isSubmitting}
+            // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31879
+            // eslint-disable-next-line @typescript-eslint/no-misused-promises
+            onClick={handleSubmit}
+            data-testid="import-contract-abi-submit"
+          >
+            {t('contractAbiImport')}
+          </ButtonPrimary>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
@@ -0,0 +1,166 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  ButtonPrimary,
+  ButtonPrimarySize,
+  FormTextField,
+  HelpText,
+  HelpTextSeverity,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Text,
+  TextFieldType,
+} from '../../../../components/component-library';
+import {
+  Display,
+  FlexDirection,
+  TextColor,
+  TextVariant,
+} from '../../../../helpers/constants/design-system';
+import {
+  ExportableContentType,
+  exportAsFile,
+} from '../../../../helpers/utils/export-utils';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import {
+  backupEncryptedUserData,
+  restoreEncryptedUserData,
+} from '../../../../store/actions';
+
+type EncryptedBackupModalProps = {
+  /** Whether the modal restores a backup, rather than creating one. */
+  isRestore: boolean;
+  onClose: () => void;
+};
+
+export const EncryptedBackupModal = ({
+  isRestore,
+  onClose,
+}: EncryptedBackupModalProps) => {
+  const t = useI18nContext();
+  const [password, setPassword] = useState('');
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [backupFile, setBackupFile] = useState<string>();
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const title = isRestore
+    ? t('encryptedBackupRestore')
+    : t('encryptedBackupExport');
+
+  const canSubmit =
+    Boolean(password) &&
+    (!isRestore || (Boolean(backupFile) && Boolean(currentPassword))) &&
+    !isSubmitting;
+
+  const handleFileChange = async (
+    event: React.ChangeEvent<HTMLInputElement>,
+  ) => {
+    const file = event.target.files?.[0];
+    setBackupFile(file ? await file.text() : undefined);
+  };
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    setError(undefined);
+    setIsSubmitting(true);
+
+    try {
+      if (isRestore) {
+        // the extension reloads once the backup is restored
+        await restoreEncryptedUserData(
+          backupFile as string,
+          password,
+          currentPassword,
+        );
+        return;
+      }
+
+      const { fileName, data } = await backupEncryptedUserData(password);
+      exportAsFile(fileName, data, ExportableContentType.JSON);
+      onClose();
+    } catch (submitError) {
+      setError((submitError as Error).message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} className="encrypted-backup-modal">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader onClose={onClose}>{title}</ModalHeader>
+        <ModalBody>
+          <Box
+            display={Display.Flex}
+            flexDirection={FlexDirection.Column}
+            gap={4}
+          >
+            <Text
+              variant={TextVariant.bodyMd}
+              color={TextColor.textAlternative}
+            >
+              {isRestore
+                ? t('encryptedBackupRestoreDescription')
+                : t('encryptedBackupExportDescription')}
+            </Text>
+            {isRestore && (
+              <input
+                type="file"
+                accept=".json,application/json"
+                // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31879
+                // eslint-disable-next-line @typescript-eslint/no-misused-promises
+                onChange={handleFileChange}
+                data-testid="encrypted-backup-file"
+              />
+            )}
+            {isRestore && (
+              <FormTextField
+                id="encrypted-backup-current-password"
+                label={t('encryptedBackupCurrentPassword')}
+                type={TextFieldType.Password}
+                value={currentPassword}
+                onChange={(event) => setCurrentPassword(event.target.value)}
+                inputProps={{
+                  'data-testid': 'encrypted-backup-current-password',
+                }}
+              />
+            )}
+            <FormTextField
+              id="encrypted-backup-password"
+              label={isRestore ? t('encryptedBackupPassword') : t('password')}
+              type={TextFieldType.Password}
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              inputProps={{ 'data-testid': 'encrypted-backup-password' }}
+            />
+            {error && (
+              <HelpText severity={HelpTextSeverity.Danger}>{error}</HelpText>
+            )}
+          </Box>
+        </ModalBody>
+        <ModalFooter>
+          <ButtonPrimary
+            block
+            size={ButtonPrimarySize.Lg}
+            disabled={!canSubmit}
+            loading={isSubmitting}
+            // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31879
+            // eslint-disable-next-line @typescript-eslint/no-misused-promises
+            onClick={handleSubmit}
+            data-testid="encrypted-backup-submit"
+          >
+            {title}
+          </ButtonPrimary>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
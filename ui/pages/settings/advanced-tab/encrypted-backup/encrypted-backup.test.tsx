@@ -0,0 +1,123 @@
+import React from 'react';
+import { fireEvent, waitFor } from '@testing-library/react';
+import configureMockStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../test/lib/render-helpers-navigate';
+import { exportAsFile } from '../../../../helpers/utils/export-utils';
+import {
+  backupEncryptedUserData,
+  restoreEncryptedUserData,
+} from '../../../../store/actions';
+import { EncryptedBackup } from './encrypted-backup';
+
+jest.mock('../../../../store/actions', () => ({
+  ...jest.requireActual('../../../../store/actions'),
+  backupEncryptedUserData: jest.fn(),
+  restoreEncryptedUserData: jest.fn(),
+}));
+
+jest.mock('../../../../helpers/utils/export-utils', () => ({
+  ...jest.requireActual('../../../../helpers/utils/export-utils'),
+  exportAsFile: jest.fn(),
+}));
+
+const PASSWORD_MOCK = 'password';
+const CURRENT_PASSWORD_MOCK = 'currentPassword';
+const BACKUP_MOCK = '{"type":"MetaMaskEncryptedBackup"}';
+
+function render() {
+  const store = configureMockStore([thunk])(mockState);
+  return renderWithProvider(<EncryptedBackup />, store);
+}
+
+describe('EncryptedBackup', () => {
+  const backupEncryptedUserDataMock = jest.mocked(backupEncryptedUserData);
+  const restoreEncryptedUserDataMock = jest.mocked(restoreEncryptedUserData);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('exports backup encrypted with password', async () => {
+    backupEncryptedUserDataMock.mockResolvedValue({
+      fileName: 'backup.json',
+      data: BACKUP_MOCK,
+    });
+
+    const { getByTestId } = render();
+
+    fireEvent.click(getByTestId('encrypted-backup-export'));
+
+    fireEvent.change(getByTestId('encrypted-backup-password'), {
+      target: { value: PASSWORD_MOCK },
+    });
+
+    fireEvent.click(getByTestId('encrypted-backup-submit'));
+
+    await waitFor(() => {
+      expect(exportAsFile).toHaveBeenCalledWith(
+        'backup.json',
+        BACKUP_MOCK,
+        'application/json',
+      );
+    });
+
+    expect(backupEncryptedUserDataMock).toHaveBeenCalledWith(PASSWORD_MOCK);
+  });
+
+  it('displays error if export fails', async () => {
+    backupEncryptedUserDataMock.mockRejectedValue(
+      new Error('Incorrect password'),
+    );
+
+    const { getByTestId, findByText } = render();
+
+    fireEvent.click(getByTestId('encrypted-backup-export'));
+
+    fireEvent.change(getByTestId('encrypted-backup-password'), {
+      target: { value: 'wrong' },
+    });
+
+    fireEvent.click(getByTestId('encrypted-backup-submit'));
+
+    expect(await findByText('Incorrect password')).toBeInTheDocument();
+    expect(exportAsFile).not.toHaveBeenCalled();
+  });
+
+  it('restores backup from file', async () => {
+    const { getByTestId } = render();
+
+    fireEvent.click(getByTestId('encrypted-backup-restore'));
+
+    // `Blob.text` is not implemented by jsdom
+    const file = new File([BACKUP_MOCK], 'backup.json');
+    file.text = async () => BACKUP_MOCK;
+
+    fireEvent.change(getByTestId('encrypted-backup-file'), {
+      target: { files: [file] },
+    });
+
+    fireEvent.change(getByTestId('encrypted-backup-current-password'), {
+      target: { value: CURRENT_PASSWORD_MOCK },
+    });
+
+    fireEvent.change(getByTestId('encrypted-backup-password'), {
+      target: { value: PASSWORD_MOCK },
+    });
+
+    await waitFor(() => {
+      expect(getByTestId('encrypted-backup-submit')).toBeEnabled();
+    });
+
+    fireEvent.click(getByTestId('encrypted-backup-submit'));
+
+    await waitFor(() => {
+      expect(restoreEncryptedUserDataMock).toHaveBeenCalledWith(
+        BACKUP_MOCK,
+        PASSWORD_MOCK,
+        CURRENT_PASSWORD_MOCK,
+      );
+    });
+  });
+});
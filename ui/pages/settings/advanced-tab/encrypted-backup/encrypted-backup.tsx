@@ -0,0 +1,59 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  ButtonVariant,
+} from '../../../../components/component-library';
+import {
+  Display,
+  FlexDirection,
+} from '../../../../helpers/constants/design-system';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { EncryptedBackupModal } from './encrypted-backup-modal';
+
+export const EncryptedBackup = () => {
+  const t = useI18nContext();
+  const [modal, setModal] = useState<'export' | 'restore'>();
+
+  return (
+    <Box
+      className="settings-page__content-row"
+      data-testid="advanced-setting-encrypted-backup"
+      display={Display.Flex}
+      flexDirection={FlexDirection.Column}
+    >
+      <div className="settings-page__content-item">
+        <span>{t('encryptedBackup')}</span>
+        <span className="settings-page__content-description">
+          {t('encryptedBackupDescription')}
+        </span>
+      </div>
+      <div className="settings-page__content-item">
+        <Box display={Display.Flex} gap={2}>
+          <Button
+            data-testid="encrypted-backup-export"
+            variant={ButtonVariant.Secondary}
+            large
+            onClick={() => setModal('export')}
+          >
+            {t('encryptedBackupExport')}
+          </Button>
+          <Button
+            data-testid="encrypted-backup-restore"
+            variant={ButtonVariant.Secondary}
+            large
+            onClick={() => setModal('restore')}
+          >
+            {t('encryptedBackupRestore')}
+          </Button>
+        </Box>
+      </div>
+      {modal && (
+        <EncryptedBackupModal
+          isRestore={modal === 'restore'}
+          onClose={() => setModal(undefined)}
+        />
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,111 @@
+import React, { useState } from 'react';
+import {
+  Box,
+  ButtonPrimary,
+  ButtonPrimarySize,
+  FormTextField,
+  HelpText,
+  HelpTextSeverity,
+  Modal,
+  ModalBody,
+  ModalContent,
+  ModalFooter,
+  ModalHeader,
+  ModalOverlay,
+  Text,
+  TextFieldType,
+} from '../../../../components/component-library';
+import {
+  Display,
+  FlexDirection,
+  TextColor,
+  TextVariant,
+} from '../../../../helpers/constants/design-system';
+import type { StateSnapshotMetadata } from '../../../../../shared/constants/state-corruption';
+import { formatDate } from '../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { restoreStateSnapshot } from '../../../../store/actions';
+
+type StateSnapshotRestoreModalProps = {
+  snapshot: StateSnapshotMetadata;
+  onClose: () => void;
+};
+
+export const StateSnapshotRestoreModal = ({
+  snapshot,
+  onClose,
+}: StateSnapshotRestoreModalProps) => {
+  const t = useI18nContext();
+  const [password, setPassword] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const canSubmit = Boolean(password) && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    setError(undefined);
+    setIsSubmitting(true);
+
+    try {
+      // the extension reloads once the snapshot is restored
+      await restoreStateSnapshot(snapshot.id, password);
+    } catch (submitError) {
+      setError((submitError as Error).message);
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal isOpen onClose={onClose} className="state-snapshot-restore-modal">
+      <ModalOverlay />
+      <ModalContent>
+        <ModalHeader onClose={onClose}>{t('stateSnapshotRestore')}</ModalHeader>
+        <ModalBody>
+          <Box
+            display={Display.Flex}
+            flexDirection={FlexDirection.Column}
+            gap={4}
+          >
+            <Text
+              variant={TextVariant.bodyMd}
+              color={TextColor.textAlternative}
+            >
+              {t('stateSnapshotRestoreDescription', [
+                formatDate(snapshot.createdAt),
+              ])}
+            </Text>
+            <FormTextField
+              id="state-snapshot-password"
+              label={t('password')}
+              type={TextFieldType.Password}
+              value={password}
+              onChange={(event) => setPassword(event.target.value)}
+              inputProps={{ 'data-testid': 'state-snapshot-password' }}
+            />
+            {error && (
+              <HelpText severity={HelpTextSeverity.Danger}>{error}</HelpText>
+            )}
+          </Box>
+        </ModalBody>
+        <ModalFooter>
+          <ButtonPrimary
+            block
+            size={ButtonPrimarySize.Lg}
+            disabled={!canSubmit}
+            loading={isSubmitting}
+            // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31879
+            // eslint-disable-next-line @typescript-eslint/no-misused-promises
+            onClick={handleSubmit}
+            data-testid="state-snapshot-restore-submit"
+          >
+            {t('stateSnapshotRestore')}
+          </ButtonPrimary>
+        </ModalFooter>
+      </ModalContent>
+    </Modal>
+  );
+};
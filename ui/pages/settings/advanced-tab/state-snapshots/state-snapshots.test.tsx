@@ -0,0 +1,101 @@
+import React from 'react';
+import { fireEvent, waitFor } from '@testing-library/react';
+import configureMockStore from 'redux-mock-store';
+import thunk from 'redux-thunk';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../test/lib/render-helpers-navigate';
+import { StateSnapshotReason } from '../../../../../shared/constants/state-corruption';
+import {
+  getStateSnapshots,
+  restoreStateSnapshot,
+} from '../../../../store/actions';
+import { StateSnapshots } from './state-snapshots';
+
+jest.mock('../../../../store/actions', () => ({
+  ...jest.requireActual('../../../../store/actions'),
+  getStateSnapshots: jest.fn(),
+  restoreStateSnapshot: jest.fn(),
+}));
+
+const PASSWORD_MOCK = 'password';
+
+const SNAPSHOTS_MOCK = [
+  {
+    id: 'daily-id',
+    createdAt: 1700000000000,
+    version: 10,
+    reason: StateSnapshotReason.Daily,
+  },
+  {
+    id: 'migration-id',
+    createdAt: 1690000000000,
+    version: 9,
+    reason: StateSnapshotReason.Migration,
+  },
+];
+
+function render() {
+  const store = configureMockStore([thunk])(mockState);
+  return renderWithProvider(<StateSnapshots />, store);
+}
+
+describe('StateSnapshots', () => {
+  const getStateSnapshotsMock = jest.mocked(getStateSnapshots);
+  const restoreStateSnapshotMock = jest.mocked(restoreStateSnapshot);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getStateSnapshotsMock.mockResolvedValue(SNAPSHOTS_MOCK);
+  });
+
+  it('lists snapshots', async () => {
+    const { findAllByTestId, getByText } = render();
+
+    expect(await findAllByTestId('state-snapshot')).toHaveLength(2);
+    expect(getByText('Daily snapshot')).toBeInTheDocument();
+    expect(getByText('Before update')).toBeInTheDocument();
+  });
+
+  it('displays message if there are no snapshots', () => {
+    getStateSnapshotsMock.mockResolvedValue([]);
+
+    const { getByText } = render();
+
+    expect(getByText('No snapshots have been taken yet.')).toBeInTheDocument();
+  });
+
+  it('restores snapshot with password', async () => {
+    const { findByTestId, getByTestId } = render();
+
+    fireEvent.click(await findByTestId('state-snapshot-restore-migration-id'));
+
+    fireEvent.change(getByTestId('state-snapshot-password'), {
+      target: { value: PASSWORD_MOCK },
+    });
+
+    fireEvent.click(getByTestId('state-snapshot-restore-submit'));
+
+    await waitFor(() => {
+      expect(restoreStateSnapshotMock).toHaveBeenCalledWith(
+        'migration-id',
+        PASSWORD_MOCK,
+      );
+    });
+  });
+
+  it('displays error if restore fails', async () => {
+    restoreStateSnapshotMock.mockRejectedValue(new Error('Incorrect password'));
+
+    const { findByTestId, findByText, getByTestId } = render();
+
+    fireEvent.click(await findByTestId('state-snapshot-restore-daily-id'));
+
+    fireEvent.change(getByTestId('state-snapshot-password'), {
+      target: { value: 'wrong' },
+    });
+
+    fireEvent.click(getByTestId('state-snapshot-restore-submit'));
+
+    expect(await findByText('Incorrect password')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,100 @@
+import React, { useEffect, useState } from 'react';
+import {
+  Box,
+  Button,
+  ButtonSize,
+  ButtonVariant,
+  Text,
+} from '../../../../components/component-library';
+import {
+  AlignItems,
+  Display,
+  FlexDirection,
+  JustifyContent,
+  TextColor,
+  TextVariant,
+} from '../../../../helpers/constants/design-system';
+import {
+  StateSnapshotReason,
+  type StateSnapshotMetadata,
+} from '../../../../../shared/constants/state-corruption';
+import { formatDate } from '../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { getStateSnapshots } from '../../../../store/actions';
+import { StateSnapshotRestoreModal } from './state-snapshot-restore-modal';
+
+export const StateSnapshots = () => {
+  const t = useI18nContext();
+  const [snapshots, setSnapshots] = useState<StateSnapshotMetadata[]>([]);
+  const [selectedSnapshot, setSelectedSnapshot] =
+    useState<StateSnapshotMetadata>();
+
+  useEffect(() => {
+    getStateSnapshots()
+      .then(setSnapshots)
+      .catch(() => {
+        // the error is logged by the action, and no snapshots are listed
+      });
+  }, []);
+
+  return (
+    <Box
+      className="settings-page__content-row"
+      data-testid="advanced-setting-state-snapshots"
+      display={Display.Flex}
+      flexDirection={FlexDirection.Column}
+    >
+      <div className="settings-page__content-item">
+        <span>{t('stateSnapshots')}</span>
+        <span className="settings-page__content-description">
+          {t('stateSnapshotsDescription')}
+        </span>
+      </div>
+      <div className="settings-page__content-item">
+        {snapshots.length === 0 && (
+          <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+            {t('stateSnapshotsEmpty')}
+          </Text>
+        )}
+        {snapshots.map((snapshot) => (
+          <Box
+            key={snapshot.id}
+            display={Display.Flex}
+            justifyContent={JustifyContent.spaceBetween}
+            alignItems={AlignItems.center}
+            paddingBottom={2}
+            data-testid="state-snapshot"
+          >
+            <Box display={Display.Flex} flexDirection={FlexDirection.Column}>
+              <Text variant={TextVariant.bodyMdMedium}>
+                {formatDate(snapshot.createdAt)}
+              </Text>
+              <Text
+                variant={TextVariant.bodySm}
+                color={TextColor.textAlternative}
+              >
+                {snapshot.reason === StateSnapshotReason.Migration
+                  ? t('stateSnapshotReasonMigration')
+                  : t('stateSnapshotReasonDaily')}
+              </Text>
+            </Box>
+            <Button
+              data-testid={`state-snapshot-restore-${snapshot.id}`}
+              variant={ButtonVariant.Secondary}
+              size={ButtonSize.Sm}
+              onClick={() => setSelectedSnapshot(snapshot)}
+            >
+              {t('stateSnapshotRestore')}
+            </Button>
+          </Box>
+        ))}
+      </div>
+      {selectedSnapshot && (
+        <StateSnapshotRestoreModal
+          snapshot={selectedSnapshot}
+          onClose={() => setSelectedSnapshot(undefined)}
+        />
+      )}
+    </Box>
+  );
+};
@@ -0,0 +1,157 @@
+import React from 'react';
+import { Hex } from '@metamask/utils';
+import { isValidHexAddress } from '../../../../shared/modules/hexstring-utils';
+import { NATIVE_TOKEN_ADDRESS } from '../../../../shared/constants/transaction';
+import { ContactGuardRails } from '../../../../shared/types/contact-guard-rails';
+import { isEmptyContactGuardRails } from '../../../../shared/lib/contact-guard-rails';
+import TextField from '../../../components/ui/text-field';
+import { Box, Checkbox, Text } from '../../../components/component-library';
+import {
+  TextColor,
+  TextVariant,
+} from '../../../helpers/constants/design-system';
+import { useI18nContext } from '../../../hooks/useI18nContext';
+
+const AMOUNT_REGEX = /^(\d+\.?\d*|\.\d+)$/u;
+
+/**
+ * The guard rails of a contact as entered in the contact form.
+ */
+export type ContactGuardRailsInput = {
+  maxAmount: string;
+  allowedTokens: string;
+  requireHoldToConfirm: boolean;
+};
+
+export type ContactGuardRailsErrors = {
+  maxAmount?: string;
+  allowedTokens?: string;
+};
+
+export function toContactGuardRailsInput(
+  guardRails?: ContactGuardRails,
+): ContactGuardRailsInput {
+  return {
+    maxAmount: guardRails?.maxAmount ?? '',
+    allowedTokens: guardRails?.allowedTokens?.join('\n') ?? '',
+    requireHoldToConfirm: guardRails?.requireHoldToConfirm ?? false,
+  };
+}
+
+/**
+ * Converts the guard rails entered in the contact form into the guard rails
+ * to store.
+ *
+ * @param input - The guard rails entered in the form.
+ * @returns The guard rails, or undefined if no rules are set, and the keys of
+ * any validation errors.
+ */
+export function parseContactGuardRailsInput(input: ContactGuardRailsInput): {
+  guardRails?: ContactGuardRails;
+  errors: ContactGuardRailsErrors;
+} {
+  const errors: ContactGuardRailsErrors = {};
+  const maxAmount = input.maxAmount.trim();
+
+  const allowedTokens = input.allowedTokens
+    .split(/[\s,]+/u)
+    .filter(Boolean)
+    .map((token) => token.toLowerCase() as Hex);
+
+  if (maxAmount && (!AMOUNT_REGEX.test(maxAmount) || !Number(maxAmount))) {
+    errors.maxAmount = 'invalidValue';
+  }
+
+  if (
+    allowedTokens.some(
+      (token) => !isValidHexAddress(token, { allowNonPrefixed: false }),
+    )
+  ) {
+    errors.allowedTokens = 'invalidAddress';
+  }
+
+  const guardRails: ContactGuardRails = {
+    ...(maxAmount ? { maxAmount } : {}),
+    ...(allowedTokens.length
+      ? { allowedTokens: [...new Set(allowedTokens)] }
+      : {}),
+    ...(input.requireHoldToConfirm ? { requireHoldToConfirm: true } : {}),
+  };
+
+  return {
+    guardRails: isEmptyContactGuardRails(guardRails) ? undefined : guardRails,
+    errors,
+  };
+}
+
+export const ContactGuardRailsFields = ({
+  input,
+  errors,
+  onChange,
+}: {
+  input: ContactGuardRailsInput;
+  errors: ContactGuardRailsErrors;
+  onChange: (input: ContactGuardRailsInput) => void;
+}) => {
+  const t = useI18nContext();
+
+  return (
+    <div
+      className="address-book__view-contact__group"
+      data-testid="edit-contact-guard-rails"
+    >
+      <div className="address-book__view-contact__group__label">
+        {t('contactGuardRails')}
+      </div>
+      <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+        {t('contactGuardRailsDescription')}
+      </Text>
+      <TextField
+        id="guard-rails-max-amount"
+        data-testid="contact-guard-rails-max-amount"
+        label={t('contactGuardRailsMaxAmount')}
+        placeholder={t('contactGuardRailsNoLimit')}
+        value={input.maxAmount}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          onChange({ ...input, maxAmount: e.target.value })
+        }
+        error={errors.maxAmount && t(errors.maxAmount)}
+        fullWidth
+        className="text-field-root"
+        margin="dense"
+      />
+      <TextField
+        id="guard-rails-allowed-tokens"
+        data-testid="contact-guard-rails-allowed-tokens"
+        label={t('contactGuardRailsAllowedTokens')}
+        placeholder={t('contactGuardRailsAnyToken')}
+        value={input.allowedTokens}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) =>
+          onChange({ ...input, allowedTokens: e.target.value })
+        }
+        error={errors.allowedTokens && t(errors.allowedTokens)}
+        fullWidth
+        multiline
+        className="text-field-root"
+        margin="dense"
+      />
+      <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+        {t('contactGuardRailsAllowedTokensDescription', [NATIVE_TOKEN_ADDRESS])}
+      </Text>
+      <Box marginTop={2}>
+        <Checkbox
+          id="guard-rails-hold-to-confirm"
+          inputProps={{ 'data-testid': 'contact-guard-rails-hold-to-confirm' }}
+          isChecked={input.requireHoldToConfirm}
+          onChange={() =>
+            onChange({
+              ...input,
+              requireHoldToConfirm: !input.requireHoldToConfirm,
+            })
+          }
+          label={t('contactGuardRailsHoldToConfirm')}
+        />
+      </Box>
+    </div>
+  );
+};
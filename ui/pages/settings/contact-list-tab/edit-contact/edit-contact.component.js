@@ -1,5 +1,6 @@
 import React, { useState, useContext } from 'react';
 import PropTypes from 'prop-types';
+import { isEqual } from 'lodash';
 import { Navigate, useNavigate } from 'react-router-dom-v5-compat';
 import { AvatarAccountSize } from '@metamask/design-system-react';
 import TextField from '../../../../components/ui/text-field';
@@ -35,6 +36,11 @@ import { isDuplicateContact } from '../../../../components/app/contact-list/util
 import { getImageForChainId } from '../../../../selectors/multichain';
 import { I18nContext } from '../../../../contexts/i18n';
 import { ContactNetworks } from '../contact-networks';
+import {
+  ContactGuardRailsFields,
+  parseContactGuardRailsInput,
+  toContactGuardRailsInput,
+} from '../contact-guard-rails';
 
 export default function EditContact({
   addressBook,
@@ -42,6 +48,8 @@ export default function EditContact({
   networkConfigurations,
   addToAddressBook,
   removeFromAddressBook,
+  setContactGuardRails,
+  guardRails,
   name = '',
   address,
   contactChainId,
@@ -58,6 +66,15 @@ export default function EditContact({
   const [addressError, setAddressError] = useState('');
   const [showModal, setShowModal] = useState(false);
   const [selectedChainId, setSelectedChainId] = useState(contactChainId);
+  const [guardRailsInput, setGuardRailsInput] = useState(() =>
+    toContactGuardRailsInput(guardRails),
+  );
+  const { guardRails: newGuardRails, errors: guardRailsErrors } =
+    parseContactGuardRailsInput(guardRailsInput);
+  const isGuardRailsChanged = !isEqual(
+    guardRailsInput,
+    toContactGuardRailsInput(guardRails),
+  );
   const networks = networkConfigurations;
   const validateName = (nameValue) => {
     if (nameValue === name) {
@@ -212,6 +229,11 @@ export default function EditContact({
             />
           </Box>
         </div>
+        <ContactGuardRailsFields
+          input={guardRailsInput}
+          errors={guardRailsErrors}
+          onChange={setGuardRailsInput}
+        />
       </div>
       <PageContainerFooter
         cancelText={t('cancel')}
@@ -230,6 +252,11 @@ export default function EditContact({
                 newMemo || memo,
                 selectedChainId,
               );
+              await setContactGuardRails(
+                selectedChainId,
+                newAddress,
+                newGuardRails,
+              );
               navigate(listRoute);
             } else {
               setAddressError(t('invalidAddress'));
@@ -242,6 +269,7 @@ export default function EditContact({
               newMemo || memo,
               selectedChainId,
             );
+            await setContactGuardRails(selectedChainId, address, newGuardRails);
             navigate(listRoute);
           } else {
             await addToAddressBook(
@@ -250,6 +278,7 @@ export default function EditContact({
               newMemo || memo,
               selectedChainId,
             );
+            await setContactGuardRails(selectedChainId, address, newGuardRails);
             navigate(listRoute);
           }
         }}
@@ -259,9 +288,12 @@ export default function EditContact({
           (contactName === name &&
             newAddress === address &&
             selectedChainId === contactChainId &&
-            newMemo === memo) ||
+            newMemo === memo &&
+            !isGuardRailsChanged) ||
             !contactName.trim() ||
-            nameError,
+            nameError ||
+            guardRailsErrors.maxAmount ||
+            guardRailsErrors.allowedTokens,
         )}
       />
       {showModal && (
@@ -282,6 +314,8 @@ EditContact.propTypes = {
   networkConfigurations: PropTypes.array,
   addToAddressBook: PropTypes.func.isRequired,
   removeFromAddressBook: PropTypes.func.isRequired,
+  setContactGuardRails: PropTypes.func.isRequired,
+  guardRails: PropTypes.object,
   name: PropTypes.string,
   address: PropTypes.string.isRequired,
   contactChainId: PropTypes.string,
@@ -6,6 +6,7 @@ import {
   getAddressBookEntry,
   getInternalAccountByAddress,
   getInternalAccounts,
+  selectContactGuardRailsByAddress,
 } from '../../../../selectors';
 import {
   getNetworkConfigurationsByChainId,
@@ -18,6 +19,7 @@ import {
 import {
   addToAddressBook,
   removeFromAddressBook,
+  setContactGuardRails,
   toggleNetworkMenu,
 } from '../../../../store/actions';
 import EditContact from './edit-contact.component';
@@ -44,6 +46,11 @@ const mapStateToProps = (state, ownProps) => {
     addressBook: getAddressBook(state),
     internalAccounts: getInternalAccounts(state),
     contactChainId,
+    guardRails: selectContactGuardRailsByAddress(
+      state,
+      contactChainId,
+      address,
+    ),
     name,
     memo,
     networkConfigurations,
@@ -58,6 +65,8 @@ const mapDispatchToProps = (dispatch) => {
       dispatch(addToAddressBook(recipient, nickname, memo, customChainId)),
     removeFromAddressBook: (chainId, addressToRemove) =>
       dispatch(removeFromAddressBook(chainId, addressToRemove)),
+    setContactGuardRails: (chainId, address, guardRails) =>
+      dispatch(setContactGuardRails(chainId, address, guardRails)),
     toggleNetworkMenu: () => dispatch(toggleNetworkMenu()),
   };
 };
@@ -1,5 +1,5 @@
 import React from 'react';
-import { fireEvent } from '@testing-library/react';
+import { fireEvent, waitFor } from '@testing-library/react';
 import configureMockStore from 'redux-mock-store';
 import thunk from 'redux-thunk';
 import { renderWithProvider } from '../../../../../test/lib/render-helpers-navigate';
@@ -22,6 +22,7 @@ describe('AddContact component', () => {
     internalAccounts: [mockAccount1, mockAccount2],
     addToAddressBook: jest.fn(),
     removeFromAddressBook: jest.fn(),
+    setContactGuardRails: jest.fn(),
     navigate: jest.fn(),
     name: mockAccount1.metadata.name,
     address: '0x0000000000000000001',
@@ -106,4 +107,42 @@ describe('AddContact component', () => {
     expect(saveButton).toBeDisabled();
     expect(queryByText('Name is already in use')).toBeNull();
   });
+
+  it('should save guard rails of the contact', async () => {
+    const store = configureMockStore(middleware)(state);
+    const { getByText, getByTestId } = renderWithProvider(
+      <EditContact {...props} contactChainId="0x1" />,
+      store,
+    );
+
+    fireEvent.change(document.getElementById('guard-rails-max-amount'), {
+      target: { value: '1.5' },
+    });
+    fireEvent.click(getByTestId('contact-guard-rails-hold-to-confirm'));
+
+    const saveButton = getByText('Save');
+    expect(saveButton).not.toBeDisabled();
+
+    fireEvent.click(saveButton);
+
+    await waitFor(() =>
+      expect(props.setContactGuardRails).toHaveBeenCalledWith(
+        '0x1',
+        props.address,
+        { maxAmount: '1.5', requireHoldToConfirm: true },
+      ),
+    );
+  });
+
+  it('should display error when entering an invalid allowed token', () => {
+    const store = configureMockStore(middleware)(state);
+    const { getByText } = renderWithProvider(<EditContact {...props} />, store);
+
+    fireEvent.change(document.getElementById('guard-rails-allowed-tokens'), {
+      target: { value: '0x123' },
+    });
+
+    expect(getByText('Invalid address')).toBeInTheDocument();
+    expect(getByText('Save')).toBeDisabled();
+  });
 });
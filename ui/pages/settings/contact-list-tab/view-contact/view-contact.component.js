@@ -34,6 +34,7 @@ function ViewContact({
   address,
   checkSummedAddress,
   memo,
+  guardRails,
   editRoute,
   listRoute,
 }) {
@@ -112,6 +113,31 @@ function ViewContact({
             </div>
           </div>
         ) : null}
+        {guardRails ? (
+          <div
+            className="address-book__view-contact__group"
+            data-testid="address-book-view-contact-guard-rails"
+          >
+            <div className="address-book__view-contact__group__label">
+              {t('contactGuardRails')}
+            </div>
+            {guardRails.maxAmount ? (
+              <Text>
+                {t('contactGuardRailsMaxAmountValue', [guardRails.maxAmount])}
+              </Text>
+            ) : null}
+            {guardRails.allowedTokens ? (
+              <Text>
+                {t('contactGuardRailsAllowedTokensValue', [
+                  guardRails.allowedTokens.length,
+                ])}
+              </Text>
+            ) : null}
+            {guardRails.requireHoldToConfirm ? (
+              <Text>{t('contactGuardRailsHoldToConfirm')}</Text>
+            ) : null}
+          </div>
+        ) : null}
       </div>
     </div>
   );
@@ -123,6 +149,11 @@ ViewContact.propTypes = {
   navigate: PropTypes.func.isRequired,
   checkSummedAddress: PropTypes.string,
   memo: PropTypes.string,
+  guardRails: PropTypes.shape({
+    maxAmount: PropTypes.string,
+    allowedTokens: PropTypes.arrayOf(PropTypes.string),
+    requireHoldToConfirm: PropTypes.bool,
+  }),
   editRoute: PropTypes.string,
   listRoute: PropTypes.string.isRequired,
 };
@@ -4,6 +4,7 @@ import withRouterHooks from '../../../../helpers/higher-order-components/with-ro
 import {
   getAddressBookEntry,
   getInternalAccountByAddress,
+  selectContactGuardRailsByAddress,
 } from '../../../../selectors';
 import {
   CONTACT_EDIT_ROUTE,
@@ -31,6 +32,11 @@ const mapStateToProps = (state, ownProps) => {
     address: contact ? address : null,
     checkSummedAddress: toChecksumHexAddress(address),
     memo,
+    guardRails: selectContactGuardRailsByAddress(
+      state,
+      contact?.chainId,
+      address,
+    ),
     editRoute: CONTACT_EDIT_ROUTE,
     listRoute: CONTACT_LIST_ROUTE,
   };
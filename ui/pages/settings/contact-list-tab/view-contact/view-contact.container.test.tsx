@@ -113,4 +113,35 @@ describe('View Contact Container', () => {
       ).toContain(MOCK_ADDRESS.toLowerCase());
     });
   });
+
+  describe('Guard rails', () => {
+    it('should display guard rails of the contact', () => {
+      const store: Store = configureMockStore([thunk])({
+        ...mockState,
+        metamask: {
+          ...mockState.metamask,
+          contactGuardRails: {
+            '0x5': {
+              [MOCK_ADDRESS]: {
+                maxAmount: '1.5',
+                allowedTokens: ['0x0000000000000000000000000000000000000000'],
+                requireHoldToConfirm: true,
+              },
+            },
+          },
+        },
+      });
+
+      const { getByTestId } = renderWithProvider(
+        <ViewContactContainer />,
+        store,
+      );
+
+      const guardRails = getByTestId('address-book-view-contact-guard-rails');
+
+      expect(guardRails).toHaveTextContent('Up to 1.5 per send');
+      expect(guardRails).toHaveTextContent('1 allowed token');
+      expect(guardRails).toHaveTextContent('Require hold to confirm');
+    });
+  });
 });
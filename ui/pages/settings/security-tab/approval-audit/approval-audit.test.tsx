@@ -0,0 +1,117 @@
+import React from 'react';
+import { fireEvent, waitFor } from '@testing-library/react';
+import configureStore from '../../../../store/store';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../test/lib/render-helpers-navigate';
+import { ResultType } from '../../../../../shared/lib/trust-signals';
+import {
+  OutstandingApproval,
+  OutstandingApprovalType,
+} from '../../../../../shared/types/approval-audit';
+import {
+  getOutstandingApprovals,
+  revokeApprovals,
+} from '../../../../store/actions';
+import { ApprovalAudit } from './approval-audit';
+
+jest.mock('../../../../store/actions', () => ({
+  getOutstandingApprovals: jest.fn(),
+  revokeApprovals: jest.fn(),
+}));
+
+const TOKEN_ADDRESS_MOCK = '0x1234567890123456789012345678901234567890';
+const SPENDER_MOCK = '0x9876543210987654321098765432109876543210';
+
+const APPROVAL_MOCK: OutstandingApproval = {
+  type: OutstandingApprovalType.Allowance,
+  tokenAddress: TOKEN_ADDRESS_MOCK,
+  spender: SPENDER_MOCK,
+  amount: '100',
+};
+
+const APPROVAL_KEY_MOCK = `${OutstandingApprovalType.Allowance}:${TOKEN_ADDRESS_MOCK}:${SPENDER_MOCK}`;
+
+const render = () => {
+  const mockStore = configureStore(mockState);
+  return renderWithProvider(<ApprovalAudit />, mockStore);
+};
+
+describe('ApprovalAudit', () => {
+  const getOutstandingApprovalsMock = jest.mocked(getOutstandingApprovals);
+  const revokeApprovalsMock = jest.mocked(revokeApprovals);
+
+  beforeEach(() => {
+    jest.resetAllMocks();
+  });
+
+  it('displays empty state when there are no outstanding approvals', async () => {
+    getOutstandingApprovalsMock.mockResolvedValue([]);
+
+    const { findByText } = render();
+
+    expect(await findByText('No active approvals found.')).toBeInTheDocument();
+  });
+
+  it('displays outstanding approvals', async () => {
+    getOutstandingApprovalsMock.mockResolvedValue([APPROVAL_MOCK]);
+
+    const { findByTestId, getByText } = render();
+
+    expect(
+      await findByTestId(`approval-audit-item-${APPROVAL_KEY_MOCK}`),
+    ).toBeInTheDocument();
+    expect(getByText('Allowance: 100')).toBeInTheDocument();
+  });
+
+  it('displays ERC-721 token approvals and signed Permit2 permits', async () => {
+    getOutstandingApprovalsMock.mockResolvedValue([
+      {
+        ...APPROVAL_MOCK,
+        type: OutstandingApprovalType.TokenApproval,
+        amount: undefined,
+        tokenId: '7',
+      },
+      {
+        ...APPROVAL_MOCK,
+        type: OutstandingApprovalType.Permit2,
+        permitNonce: 5,
+      },
+    ]);
+
+    const { findByText, getByText } = render();
+
+    expect(await findByText('NFT #7 in 0x12345...67890')).toBeInTheDocument();
+    expect(
+      getByText('Signed permit that the spender has not used yet.'),
+    ).toBeInTheDocument();
+  });
+
+  it('displays a warning for malicious spenders', async () => {
+    getOutstandingApprovalsMock.mockResolvedValue([
+      { ...APPROVAL_MOCK, spenderResultType: ResultType.Malicious },
+    ]);
+
+    const { findByText } = render();
+
+    expect(
+      await findByText('This spender has been flagged as malicious.'),
+    ).toBeInTheDocument();
+  });
+
+  it('revokes the selected approvals', async () => {
+    getOutstandingApprovalsMock.mockResolvedValue([APPROVAL_MOCK]);
+
+    const { findByTestId, getByTestId } = render();
+
+    fireEvent.click(
+      await findByTestId(`approval-audit-checkbox-${APPROVAL_KEY_MOCK}`),
+    );
+    fireEvent.click(getByTestId('approval-audit-revoke-button'));
+
+    await waitFor(() => {
+      expect(revokeApprovalsMock).toHaveBeenCalledWith(
+        expect.objectContaining({ approvals: [APPROVAL_MOCK] }),
+      );
+    });
+  });
+});
@@ -0,0 +1,234 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSelector } from 'react-redux';
+import type { Hex } from '@metamask/utils';
+import log from 'loglevel';
+import { ResultType } from '../../../../../shared/lib/trust-signals';
+import { getCurrentChainId } from '../../../../../shared/modules/selectors/networks';
+import {
+  OutstandingApproval,
+  OutstandingApprovalType,
+} from '../../../../../shared/types/approval-audit';
+import {
+  Box,
+  Button,
+  ButtonSize,
+  ButtonVariant,
+  Checkbox,
+  Text,
+} from '../../../../components/component-library';
+import {
+  Display,
+  FlexDirection,
+  TextColor,
+  TextVariant,
+} from '../../../../helpers/constants/design-system';
+import { formatDate, shortenAddress } from '../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { getSelectedInternalAccount } from '../../../../selectors';
+import {
+  getOutstandingApprovals,
+  revokeApprovals,
+} from '../../../../store/actions';
+
+const APPROVAL_TYPE_TKEY: Record<OutstandingApprovalType, string> = {
+  [OutstandingApprovalType.Allowance]: 'approvalAuditTypeAllowance',
+  [OutstandingApprovalType.TokenApproval]: 'approvalAuditTypeTokenApproval',
+  [OutstandingApprovalType.ApprovalForAll]: 'approvalAuditTypeApprovalForAll',
+  [OutstandingApprovalType.Permit2]: 'approvalAuditTypePermit2',
+};
+
+function getApprovalKey({
+  permitNonce,
+  spender,
+  tokenAddress,
+  tokenId,
+  type,
+}: OutstandingApproval) {
+  return [type, tokenAddress, spender, tokenId, permitNonce]
+    .filter((part) => part !== undefined)
+    .join(':')
+    .toLowerCase();
+}
+
+const ApprovalItem = ({
+  approval,
+  isSelected,
+  onToggle,
+}: {
+  approval: OutstandingApproval;
+  isSelected: boolean;
+  onToggle: () => void;
+}) => {
+  const t = useI18nContext();
+  const key = getApprovalKey(approval);
+  const {
+    amount,
+    expiration,
+    permitNonce,
+    spender,
+    spenderLabel,
+    spenderResultType,
+    tokenId,
+  } = approval;
+
+  const isMalicious = spenderResultType === ResultType.Malicious;
+  const isWarning = spenderResultType === ResultType.Warning;
+
+  return (
+    <Box
+      className="settings-page__content-row"
+      display={Display.Flex}
+      flexDirection={FlexDirection.Column}
+      gap={1}
+      data-testid={`approval-audit-item-${key}`}
+    >
+      <Checkbox
+        id={key}
+        isChecked={isSelected}
+        onChange={onToggle}
+        label={t(APPROVAL_TYPE_TKEY[approval.type], [
+          shortenAddress(approval.tokenAddress),
+          tokenId,
+        ])}
+        inputProps={{ 'data-testid': `approval-audit-checkbox-${key}` }}
+      />
+      <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+        {t('approvalAuditSpender', [spenderLabel ?? shortenAddress(spender)])}
+      </Text>
+      {amount && (
+        <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+          {t('approvalAuditAmount', [amount])}
+        </Text>
+      )}
+      {expiration !== undefined && (
+        <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+          {t('approvalAuditExpiration', [formatDate(expiration * 1000)])}
+        </Text>
+      )}
+      {permitNonce !== undefined && (
+        <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+          {t('approvalAuditPendingPermit')}
+        </Text>
+      )}
+      {(isMalicious || isWarning) && (
+        <Text
+          variant={TextVariant.bodySm}
+          color={
+            isMalicious ? TextColor.errorDefault : TextColor.warningDefault
+          }
+        >
+          {isMalicious
+            ? t('approvalAuditSpenderMalicious')
+            : t('approvalAuditSpenderWarning')}
+        </Text>
+      )}
+    </Box>
+  );
+};
+
+export const ApprovalAudit = () => {
+  const t = useI18nContext();
+  const { address } = useSelector(getSelectedInternalAccount);
+  const chainId = useSelector(getCurrentChainId);
+
+  const [approvals, setApprovals] = useState<OutstandingApproval[]>();
+  const [selectedKeys, setSelectedKeys] = useState<string[]>([]);
+  const [isRevoking, setIsRevoking] = useState(false);
+
+  const loadApprovals = useCallback(async () => {
+    try {
+      setApprovals(
+        await getOutstandingApprovals({ address: address as Hex, chainId }),
+      );
+    } catch (error) {
+      log.error('Failed to get outstanding approvals', error);
+      setApprovals([]);
+    }
+  }, [address, chainId]);
+
+  useEffect(() => {
+    setApprovals(undefined);
+    setSelectedKeys([]);
+    loadApprovals();
+  }, [loadApprovals]);
+
+  const toggleApproval = useCallback((key: string) => {
+    setSelectedKeys((keys) =>
+      keys.includes(key)
+        ? keys.filter((selectedKey) => selectedKey !== key)
+        : [...keys, key],
+    );
+  }, []);
+
+  const handleRevoke = useCallback(async () => {
+    setIsRevoking(true);
+
+    try {
+      await revokeApprovals({
+        address: address as Hex,
+        chainId,
+        approvals: (approvals ?? []).filter((approval) =>
+          selectedKeys.includes(getApprovalKey(approval)),
+        ),
+      });
+      setSelectedKeys([]);
+      await loadApprovals();
+    } catch (error) {
+      log.error('Failed to revoke approvals', error);
+    } finally {
+      setIsRevoking(false);
+    }
+  }, [address, approvals, chainId, loadApprovals, selectedKeys]);
+
+  let content;
+
+  if (!approvals) {
+    content = (
+      <div className="settings-page__content-description">{t('loading')}</div>
+    );
+  } else if (approvals.length === 0) {
+    content = (
+      <div className="settings-page__content-description">
+        {t('approvalAuditEmpty')}
+      </div>
+    );
+  } else {
+    content = (
+      <>
+        {approvals.map((approval) => {
+          const key = getApprovalKey(approval);
+
+          return (
+            <ApprovalItem
+              key={key}
+              approval={approval}
+              isSelected={selectedKeys.includes(key)}
+              onToggle={() => toggleApproval(key)}
+            />
+          );
+        })}
+        <Button
+          variant={ButtonVariant.Primary}
+          size={ButtonSize.Md}
+          danger
+          disabled={selectedKeys.length === 0 || isRevoking}
+          onClick={handleRevoke}
+          data-testid="approval-audit-revoke-button"
+        >
+          {t('approvalAuditRevokeSelected', [selectedKeys.length])}
+        </Button>
+      </>
+    );
+  }
+
+  return (
+    <div className="settings-page__body" data-testid="approval-audit">
+      <div className="settings-page__content-padded">
+        <div className="settings-page__content-description">
+          {t('approvalAuditDescription')}
+        </div>
+      </div>
+      <div className="settings-page__content-padded">{content}</div>
+    </div>
+  );
+};
@@ -0,0 +1 @@
+export { ApprovalAudit } from './approval-audit';
@@ -0,0 +1,130 @@
+import React from 'react';
+import { fireEvent, waitFor } from '@testing-library/react';
+import configureStore from '../../../../store/store';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../test/lib/render-helpers-navigate';
+import {
+  DelegationTargetSource,
+  DelegationTargets as DelegationTargetsType,
+} from '../../../../../shared/types/delegation-target';
+import {
+  approveDelegationTarget,
+  removeDelegationTarget,
+} from '../../../../store/actions';
+import { DelegationTargets } from './delegation-targets';
+
+jest.mock('../../../../store/actions', () => ({
+  approveDelegationTarget: jest.fn(() => ({
+    type: 'APPROVE_DELEGATION_TARGET',
+  })),
+  removeDelegationTarget: jest.fn(() => ({
+    type: 'REMOVE_DELEGATION_TARGET',
+  })),
+}));
+
+const ADDRESS_MOCK = '0x63c0c19a282a1b52b07dd5a65b58948a07dae32b';
+const CHAIN_ID_MOCK = '0x1';
+
+const render = (delegationTargets: DelegationTargetsType = {}) => {
+  const mockStore = configureStore({
+    ...mockState,
+    metamask: {
+      ...mockState.metamask,
+      delegationTargets,
+    },
+  });
+
+  return renderWithProvider(<DelegationTargets />, mockStore);
+};
+
+describe('DelegationTargets', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('displays empty state when no targets are trusted', () => {
+    const { getByText } = render();
+
+    expect(
+      getByText("You haven't trusted any contracts yet"),
+    ).toBeInTheDocument();
+  });
+
+  it('displays trusted targets', () => {
+    const { getByTestId } = render({
+      [CHAIN_ID_MOCK]: {
+        [ADDRESS_MOCK]: {
+          name: 'Test',
+          codeHash: '0x1234',
+          source: DelegationTargetSource.User,
+          addedAt: 1,
+        },
+      },
+    });
+
+    const target = getByTestId(
+      `delegation-target-${CHAIN_ID_MOCK}-${ADDRESS_MOCK}`,
+    );
+
+    expect(target).toHaveTextContent('Test');
+    expect(target).toHaveTextContent('Custom Mainnet RPC');
+  });
+
+  it('removes trusted target', () => {
+    const { getByTestId } = render({
+      [CHAIN_ID_MOCK]: {
+        [ADDRESS_MOCK]: {
+          name: 'Test',
+          codeHash: '0x1234',
+          source: DelegationTargetSource.User,
+          addedAt: 1,
+        },
+      },
+    });
+
+    fireEvent.click(
+      getByTestId(`delegation-target-remove-${CHAIN_ID_MOCK}-${ADDRESS_MOCK}`),
+    );
+
+    expect(removeDelegationTarget).toHaveBeenCalledWith(
+      CHAIN_ID_MOCK,
+      ADDRESS_MOCK,
+    );
+  });
+
+  it('adds target', async () => {
+    const { getByTestId } = render();
+
+    fireEvent.change(getByTestId('delegation-target-address'), {
+      target: { value: ADDRESS_MOCK },
+    });
+
+    fireEvent.change(getByTestId('delegation-target-name'), {
+      target: { value: 'Test' },
+    });
+
+    fireEvent.click(getByTestId('delegation-target-add'));
+
+    await waitFor(() => {
+      expect(approveDelegationTarget).toHaveBeenCalledWith({
+        address: ADDRESS_MOCK,
+        chainId: CHAIN_ID_MOCK,
+        name: 'Test',
+      });
+    });
+  });
+
+  it('does not add target with invalid address', () => {
+    const { getByTestId } = render();
+
+    fireEvent.change(getByTestId('delegation-target-address'), {
+      target: { value: '0x123' },
+    });
+
+    fireEvent.change(getByTestId('delegation-target-name'), {
+      target: { value: 'Test' },
+    });
+
+    expect(getByTestId('delegation-target-add')).toBeDisabled();
+  });
+});
@@ -0,0 +1,215 @@
+import React, { useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { Hex } from '@metamask/utils';
+import { DelegationTarget } from '../../../../../shared/types/delegation-target';
+import { getNetworkConfigurationsByChainId } from '../../../../../shared/modules/selectors/networks';
+import { isValidHexAddress } from '../../../../../shared/modules/hexstring-utils';
+import {
+  Box,
+  Button,
+  ButtonIcon,
+  ButtonIconSize,
+  ButtonSize,
+  FormTextField,
+  HelpText,
+  HelpTextSeverity,
+  IconName,
+  Label,
+  Text,
+} from '../../../../components/component-library';
+import Dropdown from '../../../../components/ui/dropdown';
+import {
+  AlignItems,
+  Display,
+  FlexDirection,
+  JustifyContent,
+  TextColor,
+  TextVariant,
+} from '../../../../helpers/constants/design-system';
+import { shortenAddress } from '../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { selectDelegationTargets } from '../../../../selectors';
+import {
+  approveDelegationTarget,
+  removeDelegationTarget,
+} from '../../../../store/actions';
+
+const DelegationTargetItem = ({
+  address,
+  chainId,
+  delegationTarget,
+  networkName,
+}: {
+  address: Hex;
+  chainId: Hex;
+  delegationTarget: DelegationTarget;
+  networkName: string;
+}) => {
+  const t = useI18nContext();
+  const dispatch = useDispatch();
+  const { name } = delegationTarget;
+
+  return (
+    <Box
+      className="settings-page__content-row"
+      display={Display.Flex}
+      justifyContent={JustifyContent.spaceBetween}
+      alignItems={AlignItems.center}
+      data-testid={`delegation-target-${chainId}-${address}`}
+    >
+      <Box display={Display.Flex} flexDirection={FlexDirection.Column}>
+        <Text variant={TextVariant.bodyMdMedium}>{name}</Text>
+        <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+          {shortenAddress(address)}
+          {' · '}
+          {networkName}
+        </Text>
+      </Box>
+      <ButtonIcon
+        iconName={IconName.Trash}
+        size={ButtonIconSize.Sm}
+        ariaLabel={t('delete')}
+        onClick={() => dispatch(removeDelegationTarget(chainId, address))}
+        data-testid={`delegation-target-remove-${chainId}-${address}`}
+      />
+    </Box>
+  );
+};
+
+const AddDelegationTargetForm = () => {
+  const t = useI18nContext();
+  const dispatch = useDispatch();
+  const networkConfigurations = useSelector(getNetworkConfigurationsByChainId);
+  const networks = Object.values(networkConfigurations);
+
+  const [chainId, setChainId] = useState<Hex>(networks[0]?.chainId);
+  const [address, setAddress] = useState('');
+  const [name, setName] = useState('');
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string>();
+
+  const isAddressValid = isValidHexAddress(address, {
+    allowNonPrefixed: false,
+  });
+
+  const canSubmit =
+    Boolean(chainId && name.trim()) && isAddressValid && !isSubmitting;
+
+  const handleSubmit = async () => {
+    if (!canSubmit) {
+      return;
+    }
+
+    setError(undefined);
+    setIsSubmitting(true);
+
+    try {
+      await dispatch(
+        approveDelegationTarget({
+          address: address as Hex,
+          chainId,
+          name: name.trim(),
+        }),
+      );
+
+      setAddress('');
+      setName('');
+    } catch (submitError) {
+      setError((submitError as Error).message);
+    }
+
+    setIsSubmitting(false);
+  };
+
+  return (
+    <Box display={Display.Flex} flexDirection={FlexDirection.Column} gap={4}>
+      <Box>
+        <Label>{t('network')}</Label>
+        <Dropdown
+          options={networks.map((network) => ({
+            name: network.name,
+            value: network.chainId,
+          }))}
+          selectedOption={chainId}
+          onChange={setChainId}
+          data-testid="delegation-target-network"
+        />
+      </Box>
+      <FormTextField
+        id="delegation-target-address"
+        label={t('delegationTargetAddress')}
+        placeholder="0x..."
+        value={address}
+        onChange={(event) => setAddress(event.target.value.trim())}
+        error={Boolean(address) && !isAddressValid}
+        helpText={address && !isAddressValid ? t('invalidAddress') : undefined}
+        inputProps={{ 'data-testid': 'delegation-target-address' }}
+      />
+      <FormTextField
+        id="delegation-target-name"
+        label={t('delegationTargetName')}
+        placeholder={t('delegationTargetNamePlaceholder')}
+        value={name}
+        onChange={(event) => setName(event.target.value)}
+        inputProps={{ 'data-testid': 'delegation-target-name' }}
+      />
+      {error && <HelpText severity={HelpTextSeverity.Danger}>{error}</HelpText>}
+      <div className="settings-page__content-item-col">
+        <Button
+          size={ButtonSize.Lg}
+          disabled={!canSubmit}
+          loading={isSubmitting}
+          // TODO: Fix in https://github.com/MetaMask/metamask-extension/issues/31879
+          // eslint-disable-next-line @typescript-eslint/no-misused-promises
+          onClick={handleSubmit}
+          data-testid="delegation-target-add"
+        >
+          {t('delegationTargetAdd')}
+        </Button>
+      </div>
+    </Box>
+  );
+};
+
+export const DelegationTargets = () => {
+  const t = useI18nContext();
+  const delegationTargets = useSelector(selectDelegationTargets);
+  const networkConfigurations = useSelector(getNetworkConfigurationsByChainId);
+
+  const entries = Object.entries(delegationTargets).flatMap(
+    ([chainId, targetsByAddress]) =>
+      Object.entries(targetsByAddress).map(([address, delegationTarget]) => ({
+        address: address as Hex,
+        chainId: chainId as Hex,
+        delegationTarget,
+      })),
+  );
+
+  return (
+    <div className="settings-page__body" data-testid="delegation-targets">
+      <div className="settings-page__content-padded">
+        <div className="settings-page__content-description">
+          {t('delegationTargetsSettingDescription')}
+        </div>
+        <AddDelegationTargetForm />
+      </div>
+      <div className="settings-page__content-padded">
+        {entries.length === 0 ? (
+          <div className="settings-page__content-description">
+            {t('delegationTargetsEmpty')}
+          </div>
+        ) : (
+          entries.map(({ address, chainId, delegationTarget }) => (
+            <DelegationTargetItem
+              key={`${chainId}:${address}`}
+              address={address}
+              chainId={chainId}
+              delegationTarget={delegationTarget}
+              networkName={networkConfigurations[chainId]?.name ?? chainId}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
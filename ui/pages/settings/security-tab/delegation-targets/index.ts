@@ -0,0 +1 @@
+export { DelegationTargets } from './delegation-targets';
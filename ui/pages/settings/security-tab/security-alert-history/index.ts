@@ -0,0 +1 @@
+export { SecurityAlertHistory } from './security-alert-history';
@@ -0,0 +1,127 @@
+import React from 'react';
+import { fireEvent } from '@testing-library/react';
+import configureStore from '../../../../store/store';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../test/lib/render-helpers-navigate';
+import { SecurityAlertUserAction } from '../../../../../shared/constants/security-alert-history';
+import type { SecurityAlertHistoryEntry } from '../../../../../shared/types/security-alert-history';
+import {
+  ExportableContentType,
+  exportAsFile,
+} from '../../../../helpers/utils/export-utils';
+import { clearSecurityAlertHistory } from '../../../../store/actions';
+import { SecurityAlertHistory } from './security-alert-history';
+
+jest.mock('../../../../store/actions', () => ({
+  clearSecurityAlertHistory: jest.fn(() => ({ type: 'CLEAR_HISTORY' })),
+}));
+
+jest.mock('../../../../helpers/utils/export-utils', () => ({
+  ...jest.requireActual('../../../../helpers/utils/export-utils'),
+  exportAsFile: jest.fn(),
+}));
+
+const MALICIOUS_ENTRY_MOCK: SecurityAlertHistoryEntry = {
+  securityAlertId: 'id-1',
+  time: 1000,
+  origin: 'https://malicious.com',
+  method: 'eth_sendTransaction',
+  chainId: '0x1',
+  resultType: 'Malicious',
+  reason: 'transfer_farming',
+  userAction: SecurityAlertUserAction.Approved,
+};
+
+const BENIGN_ENTRY_MOCK: SecurityAlertHistoryEntry = {
+  securityAlertId: 'id-2',
+  time: 2000,
+  origin: 'https://example.com',
+  method: 'eth_signTypedData_v4',
+  chainId: '0x1',
+  resultType: 'Benign',
+  reason: '',
+  userAction: SecurityAlertUserAction.Rejected,
+};
+
+const render = (
+  securityAlertHistory: SecurityAlertHistoryEntry[] = [
+    MALICIOUS_ENTRY_MOCK,
+    BENIGN_ENTRY_MOCK,
+  ],
+) => {
+  const mockStore = configureStore({
+    ...mockState,
+    metamask: {
+      ...mockState.metamask,
+      securityAlertHistory,
+    },
+  });
+
+  return renderWithProvider(<SecurityAlertHistory />, mockStore);
+};
+
+describe('SecurityAlertHistory', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('displays empty state when there is no history', () => {
+    const { getByText } = render([]);
+
+    expect(
+      getByText('No security scans have been recorded.'),
+    ).toBeInTheDocument();
+  });
+
+  it('displays the recorded entries', () => {
+    const { getByTestId } = render();
+
+    expect(getByTestId('security-alert-history-entry-id-1')).toHaveTextContent(
+      'https://malicious.com',
+    );
+    expect(getByTestId('security-alert-history-entry-id-2')).toHaveTextContent(
+      'https://example.com',
+    );
+  });
+
+  it('filters entries by result type', () => {
+    const { getByTestId, queryByTestId } = render();
+
+    fireEvent.change(getByTestId('security-alert-history-result-type-filter'), {
+      target: { value: 'Malicious' },
+    });
+
+    expect(
+      getByTestId('security-alert-history-entry-id-1'),
+    ).toBeInTheDocument();
+    expect(
+      queryByTestId('security-alert-history-entry-id-2'),
+    ).not.toBeInTheDocument();
+  });
+
+  it('exports the filtered entries as CSV', () => {
+    const { getByTestId } = render();
+
+    fireEvent.change(getByTestId('security-alert-history-user-action-filter'), {
+      target: { value: SecurityAlertUserAction.Approved },
+    });
+    fireEvent.click(getByTestId('security-alert-history-export-csv'));
+
+    expect(exportAsFile).toHaveBeenCalledWith(
+      'MetaMask security alert history.csv',
+      expect.stringContaining('https://malicious.com'),
+      ExportableContentType.CSV,
+    );
+    expect(jest.mocked(exportAsFile).mock.calls[0][1]).not.toContain(
+      'https://example.com',
+    );
+  });
+
+  it('clears the history', () => {
+    const { getByTestId } = render();
+
+    fireEvent.click(getByTestId('security-alert-history-clear'));
+
+    expect(clearSecurityAlertHistory).toHaveBeenCalled();
+  });
+});
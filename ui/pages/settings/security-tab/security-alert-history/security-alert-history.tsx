@@ -0,0 +1,233 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { BlockaidResultType } from '../../../../../shared/constants/security-provider';
+import { SecurityAlertUserAction } from '../../../../../shared/constants/security-alert-history';
+import {
+  filterSecurityAlertHistory,
+  securityAlertHistoryToCsv,
+} from '../../../../../shared/lib/security-alert-history';
+import type { SecurityAlertHistoryEntry } from '../../../../../shared/types/security-alert-history';
+import {
+  Box,
+  Button,
+  ButtonSize,
+  ButtonVariant,
+  Text,
+  TextField,
+} from '../../../../components/component-library';
+import Dropdown from '../../../../components/ui/dropdown';
+import {
+  Display,
+  FlexDirection,
+  TextColor,
+  TextVariant,
+} from '../../../../helpers/constants/design-system';
+import {
+  ExportableContentType,
+  exportAsFile,
+} from '../../../../helpers/utils/export-utils';
+import { formatDate } from '../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { selectSecurityAlertHistory } from '../../../../selectors';
+import { clearSecurityAlertHistory } from '../../../../store/actions';
+
+const ALL_OPTION = 'all';
+
+const USER_ACTION_TKEY: Record<SecurityAlertUserAction, string> = {
+  [SecurityAlertUserAction.Approved]: 'securityAlertHistoryActionApproved',
+  [SecurityAlertUserAction.Pending]: 'securityAlertHistoryActionPending',
+  [SecurityAlertUserAction.Rejected]: 'securityAlertHistoryActionRejected',
+};
+
+const RESULT_TYPE_COLOR: Partial<Record<string, TextColor>> = {
+  [BlockaidResultType.Malicious]: TextColor.errorDefault,
+  [BlockaidResultType.Warning]: TextColor.warningDefault,
+};
+
+const SecurityAlertHistoryItem = ({
+  entry,
+}: {
+  entry: SecurityAlertHistoryEntry;
+}) => {
+  const t = useI18nContext();
+  const {
+    chainId,
+    description,
+    method,
+    origin,
+    reason,
+    resultType,
+    securityAlertId,
+    time,
+    userAction,
+  } = entry;
+
+  return (
+    <Box
+      className="settings-page__content-row"
+      display={Display.Flex}
+      flexDirection={FlexDirection.Column}
+      gap={1}
+      data-testid={`security-alert-history-entry-${securityAlertId}`}
+    >
+      <Text variant={TextVariant.bodyMdMedium}>
+        {origin ?? t('securityAlertHistoryUnknownOrigin')}
+      </Text>
+      <Text
+        variant={TextVariant.bodySmMedium}
+        color={RESULT_TYPE_COLOR[resultType] ?? TextColor.textDefault}
+      >
+        {reason ? `${resultType} · ${reason}` : resultType}
+      </Text>
+      {description && (
+        <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+          {description}
+        </Text>
+      )}
+      <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+        {t('securityAlertHistoryEntryDetails', [
+          method,
+          chainId ?? '',
+          formatDate(time),
+          t(USER_ACTION_TKEY[userAction]),
+        ])}
+      </Text>
+    </Box>
+  );
+};
+
+export const SecurityAlertHistory = () => {
+  const t = useI18nContext();
+  const dispatch = useDispatch();
+  const securityAlertHistory = useSelector(selectSecurityAlertHistory);
+
+  const [origin, setOrigin] = useState('');
+  const [resultType, setResultType] = useState(ALL_OPTION);
+  const [userAction, setUserAction] = useState(ALL_OPTION);
+
+  const entries = useMemo(
+    () =>
+      filterSecurityAlertHistory(securityAlertHistory, {
+        origin,
+        resultType: resultType === ALL_OPTION ? undefined : resultType,
+        userAction:
+          userAction === ALL_OPTION
+            ? undefined
+            : (userAction as SecurityAlertUserAction),
+      }),
+    [origin, resultType, securityAlertHistory, userAction],
+  );
+
+  const handleExportCsv = useCallback(async () => {
+    await exportAsFile(
+      `${t('securityAlertHistoryFileName')}.csv`,
+      securityAlertHistoryToCsv(entries),
+      ExportableContentType.CSV,
+    );
+  }, [entries, t]);
+
+  const handleExportJson = useCallback(async () => {
+    await exportAsFile(
+      `${t('securityAlertHistoryFileName')}.json`,
+      JSON.stringify(entries, null, 2),
+      ExportableContentType.JSON,
+    );
+  }, [entries, t]);
+
+  const resultTypeOptions = [
+    { name: t('securityAlertHistoryAllResults'), value: ALL_OPTION },
+    ...[
+      BlockaidResultType.Malicious,
+      BlockaidResultType.Warning,
+      BlockaidResultType.Benign,
+      BlockaidResultType.Errored,
+    ].map((value) => ({ name: value, value })),
+  ];
+
+  const userActionOptions = [
+    { name: t('securityAlertHistoryAllActions'), value: ALL_OPTION },
+    ...Object.values(SecurityAlertUserAction).map((value) => ({
+      name: t(USER_ACTION_TKEY[value]),
+      value,
+    })),
+  ];
+
+  return (
+    <div className="settings-page__body" data-testid="security-alert-history">
+      <div className="settings-page__content-padded">
+        <div className="settings-page__content-description">
+          {t('securityAlertHistoryDescription')}
+        </div>
+        <Box
+          className="settings-page__content-row"
+          display={Display.Flex}
+          flexDirection={FlexDirection.Column}
+          gap={2}
+        >
+          <TextField
+            value={origin}
+            placeholder={t('securityAlertHistoryOriginPlaceholder')}
+            onChange={(event) => setOrigin(event.target.value)}
+            testId="security-alert-history-origin-filter"
+          />
+          <Dropdown
+            options={resultTypeOptions}
+            selectedOption={resultType}
+            onChange={setResultType}
+            data-testid="security-alert-history-result-type-filter"
+          />
+          <Dropdown
+            options={userActionOptions}
+            selectedOption={userAction}
+            onChange={setUserAction}
+            data-testid="security-alert-history-user-action-filter"
+          />
+        </Box>
+        <Box display={Display.Flex} flexDirection={FlexDirection.Row} gap={2}>
+          <Button
+            variant={ButtonVariant.Secondary}
+            size={ButtonSize.Sm}
+            disabled={entries.length === 0}
+            onClick={handleExportCsv}
+            data-testid="security-alert-history-export-csv"
+          >
+            {t('securityAlertHistoryExportCsv')}
+          </Button>
+          <Button
+            variant={ButtonVariant.Secondary}
+            size={ButtonSize.Sm}
+            disabled={entries.length === 0}
+            onClick={handleExportJson}
+            data-testid="security-alert-history-export-json"
+          >
+            {t('securityAlertHistoryExportJson')}
+          </Button>
+          <Button
+            variant={ButtonVariant.Secondary}
+            size={ButtonSize.Sm}
+            danger
+            disabled={securityAlertHistory.length === 0}
+            onClick={() => dispatch(clearSecurityAlertHistory())}
+            data-testid="security-alert-history-clear"
+          >
+            {t('securityAlertHistoryClear')}
+          </Button>
+        </Box>
+      </div>
+      <div className="settings-page__content-padded">
+        {entries.length === 0 ? (
+          <div className="settings-page__content-description">
+            {t('securityAlertHistoryEmpty')}
+          </div>
+        ) : (
+          entries.map((entry) => (
+            <SecurityAlertHistoryItem
+              key={entry.securityAlertId}
+              entry={entry}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,297 @@
+import React, { useCallback, useRef, useState } from 'react';
+import { useSelector } from 'react-redux';
+import { isValidHexAddress } from '@metamask/controller-utils';
+import type { Hex } from '@metamask/utils';
+import {
+  SecurityPolicy,
+  SecurityPolicyAction,
+  SecurityPolicyType,
+} from '../../../../../shared/constants/security-policy';
+import { EtherDenomination } from '../../../../../shared/constants/common';
+import {
+  parseSecurityPolicies,
+  serializeSecurityPolicies,
+} from '../../../../../shared/lib/security-policy';
+import { Numeric } from '../../../../../shared/modules/Numeric';
+import {
+  Box,
+  Button,
+  ButtonSize,
+  ButtonVariant,
+  HelpText,
+  HelpTextSeverity,
+  TextField,
+} from '../../../../components/component-library';
+import Dropdown from '../../../../components/ui/dropdown';
+import ToggleButton from '../../../../components/ui/toggle-button';
+import {
+  Display,
+  FlexDirection,
+  JustifyContent,
+} from '../../../../helpers/constants/design-system';
+import {
+  ExportableContentType,
+  exportAsFile,
+} from '../../../../helpers/utils/export-utils';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import { getSecurityPolicies } from '../../../../selectors';
+import { setSecurityPolicies } from '../../../../store/actions';
+
+const POLICY_TITLE_TKEY: Record<SecurityPolicyType, string> = {
+  [SecurityPolicyType.UnlimitedApproval]: 'securityPolicyUnlimitedApproval',
+  [SecurityPolicyType.ApprovalForAllOperator]:
+    'securityPolicyApprovalForAllOperator',
+  [SecurityPolicyType.NativeValueThreshold]:
+    'securityPolicyNativeValueThreshold',
+};
+
+const POLICY_DESCRIPTION_TKEY: Record<SecurityPolicyType, string> = {
+  [SecurityPolicyType.UnlimitedApproval]:
+    'securityPolicyUnlimitedApprovalDescription',
+  [SecurityPolicyType.ApprovalForAllOperator]:
+    'securityPolicyApprovalForAllOperatorDescription',
+  [SecurityPolicyType.NativeValueThreshold]:
+    'securityPolicyNativeValueThresholdDescription',
+};
+
+function parseOperators(value: string): Hex[] | undefined {
+  const operators = value
+    .split(',')
+    .map((operator) => operator.trim().toLowerCase())
+    .filter(Boolean);
+
+  if (operators.some((operator) => !isValidHexAddress(operator))) {
+    return undefined;
+  }
+
+  return operators as Hex[];
+}
+
+function parseEthValue(value: string): Hex | undefined {
+  const amount = Number(value);
+
+  if (!value || isNaN(amount) || amount < 0) {
+    return undefined;
+  }
+
+  return new Numeric(value, 10, EtherDenomination.ETH)
+    .toDenomination(EtherDenomination.WEI)
+    .round(0)
+    .toPrefixedHexString() as Hex;
+}
+
+function formatEthValue(value: Hex): string {
+  return new Numeric(value, 16, EtherDenomination.WEI)
+    .toDenomination(EtherDenomination.ETH)
+    .toBase(10)
+    .toString();
+}
+
+function getParameterValue(policy: SecurityPolicy): string {
+  switch (policy.type) {
+    case SecurityPolicyType.ApprovalForAllOperator:
+      return policy.allowedOperators.join(', ');
+    case SecurityPolicyType.NativeValueThreshold:
+      return formatEthValue(policy.maxValue);
+    default:
+      return '';
+  }
+}
+
+const SecurityPolicyParameter = ({
+  policy,
+  onChange,
+}: {
+  policy: SecurityPolicy;
+  onChange: (policy: SecurityPolicy) => void;
+}) => {
+  const t = useI18nContext();
+
+  const [value, setValue] = useState(() => getParameterValue(policy));
+  const [hasError, setHasError] = useState(false);
+
+  const handleBlur = useCallback(() => {
+    if (policy.type === SecurityPolicyType.ApprovalForAllOperator) {
+      const allowedOperators = parseOperators(value);
+      setHasError(!allowedOperators);
+
+      if (allowedOperators) {
+        onChange({ ...policy, allowedOperators });
+      }
+    }
+
+    if (policy.type === SecurityPolicyType.NativeValueThreshold) {
+      const maxValue = parseEthValue(value);
+      setHasError(!maxValue);
+
+      if (maxValue) {
+        onChange({ ...policy, maxValue });
+      }
+    }
+  }, [onChange, policy, value]);
+
+  if (policy.type === SecurityPolicyType.UnlimitedApproval) {
+    return null;
+  }
+
+  return (
+    <TextField
+      value={value}
+      error={hasError}
+      placeholder={
+        policy.type === SecurityPolicyType.ApprovalForAllOperator
+          ? t('securityPolicyAllowedOperatorsPlaceholder')
+          : t('securityPolicyMaxValuePlaceholder')
+      }
+      onChange={(event) => setValue(event.target.value)}
+      onBlur={handleBlur}
+      data-testid={`security-policy-parameter-${policy.id}`}
+    />
+  );
+};
+
+const SecurityPolicies = () => {
+  const t = useI18nContext();
+  const securityPolicies: SecurityPolicy[] = useSelector(getSecurityPolicies);
+
+  const updatePolicy = useCallback(
+    (updatedPolicy: SecurityPolicy) => {
+      setSecurityPolicies(
+        securityPolicies.map((policy) =>
+          policy.id === updatedPolicy.id ? updatedPolicy : policy,
+        ),
+      );
+    },
+    [securityPolicies],
+  );
+
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [hasImportError, setHasImportError] = useState(false);
+
+  const handleImport = useCallback(
+    (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+
+      // Allows importing the same file again after fixing it
+      event.target.value = '';
+
+      if (!file) {
+        return;
+      }
+
+      file
+        .text()
+        .then((json) => {
+          const importedPolicies = parseSecurityPolicies(json);
+          setHasImportError(false);
+          return setSecurityPolicies(importedPolicies);
+        })
+        .catch(() => setHasImportError(true));
+    },
+    [],
+  );
+
+  const handleExport = useCallback(async () => {
+    await exportAsFile(
+      `${t('securityPoliciesFileName')}.json`,
+      serializeSecurityPolicies(securityPolicies),
+      ExportableContentType.JSON,
+    );
+  }, [securityPolicies, t]);
+
+  const actionOptions = [
+    { name: t('securityPolicyActionBlock'), value: SecurityPolicyAction.Block },
+    {
+      name: t('securityPolicyActionRequireAcknowledgement'),
+      value: SecurityPolicyAction.RequireAcknowledgement,
+    },
+  ];
+
+  return (
+    <Box data-testid="security-policies">
+      {securityPolicies.map((policy) => (
+        <Box
+          key={policy.id}
+          className="settings-page__content-row"
+          display={Display.Flex}
+          flexDirection={FlexDirection.Column}
+          gap={2}
+          data-testid={`security-policy-${policy.id}`}
+        >
+          <Box
+            display={Display.Flex}
+            flexDirection={FlexDirection.Row}
+            justifyContent={JustifyContent.spaceBetween}
+            gap={4}
+          >
+            <div className="settings-page__content-item">
+              <span>{t(POLICY_TITLE_TKEY[policy.type])}</span>
+              <div className="settings-page__content-description">
+                {t(POLICY_DESCRIPTION_TKEY[policy.type])}
+              </div>
+            </div>
+            <div className="settings-page__content-item-col">
+              <ToggleButton
+                value={policy.enabled}
+                onToggle={(value) =>
+                  updatePolicy({ ...policy, enabled: !value })
+                }
+                offLabel={t('off')}
+                onLabel={t('on')}
+              />
+            </div>
+          </Box>
+          {policy.enabled && (
+            <>
+              <SecurityPolicyParameter
+                policy={policy}
+                onChange={updatePolicy}
+              />
+              <Dropdown
+                options={actionOptions}
+                selectedOption={policy.action}
+                onChange={(action: SecurityPolicyAction) =>
+                  updatePolicy({ ...policy, action })
+                }
+                data-testid={`security-policy-action-${policy.id}`}
+              />
+            </>
+          )}
+        </Box>
+      ))}
+      <Box display={Display.Flex} gap={2}>
+        <Button
+          variant={ButtonVariant.Secondary}
+          size={ButtonSize.Md}
+          onClick={handleExport}
+          data-testid="security-policies-export-button"
+        >
+          {t('securityPoliciesExport')}
+        </Button>
+        <Button
+          variant={ButtonVariant.Secondary}
+          size={ButtonSize.Md}
+          onClick={() => importInputRef.current?.click()}
+          data-testid="security-policies-import-button"
+        >
+          {t('securityPoliciesImport')}
+        </Button>
+        <input
+          ref={importInputRef}
+          type="file"
+          accept=".json,application/json"
+          hidden
+          onChange={handleImport}
+          data-testid="security-policies-import-file"
+        />
+      </Box>
+      {hasImportError && (
+        <HelpText severity={HelpTextSeverity.Danger}>
+          {t('securityPoliciesImportError')}
+        </HelpText>
+      )}
+    </Box>
+  );
+};
+
+export default SecurityPolicies;
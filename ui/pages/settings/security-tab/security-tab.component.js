@@ -53,6 +53,10 @@ import {
   ADD_POPULAR_CUSTOM_NETWORK,
   REVEAL_SRP_LIST_ROUTE,
   SECURITY_PASSWORD_CHANGE_ROUTE,
+  SECURITY_THROTTLED_ORIGINS_ROUTE,
+  SECURITY_APPROVALS_ROUTE,
+  SECURITY_ALERT_HISTORY_ROUTE,
+  SECURITY_DELEGATION_TARGETS_ROUTE,
 } from '../../../helpers/constants/routes';
 import {
   getNumberOfSettingRoutesInTab,
@@ -64,6 +68,7 @@ import ZENDESK_URLS from '../../../helpers/constants/zendesk-url';
 import { getIsSeedlessOnboardingFeatureEnabled } from '../../../../shared/modules/environment';
 import MetametricsToggle from './metametrics-toggle';
 import DeleteMetametricsDataButton from './delete-metametrics-data-button';
+import SecurityPolicies from './security-policies';
 
 export default class SecurityTab extends PureComponent {
   static contextTypes = {
@@ -109,6 +114,10 @@ export default class SecurityTab extends PureComponent {
     toggleExternalServices: PropTypes.func,
     setSkipDeepLinkInterstitial: PropTypes.func.isRequired,
     skipDeepLinkInterstitial: PropTypes.bool,
+    setHidePoisonTransfers: PropTypes.func.isRequired,
+    hidePoisonTransfers: PropTypes.bool,
+    setSecurityStrictMode: PropTypes.func.isRequired,
+    securityStrictMode: PropTypes.bool,
     setSecurityAlertsEnabled: PropTypes.func,
     metaMetricsDataDeletionId: PropTypes.string,
     hdEntropyIndex: PropTypes.number,
@@ -347,6 +356,178 @@ export default class SecurityTab extends PureComponent {
     );
   }
 
+  renderSecurityPolicies() {
+    const { t } = this.context;
+
+    return (
+      <>
+        <div>
+          <span className="settings-page__security-tab-sub-header">
+            {t('securityPolicies')}
+          </span>
+        </div>
+        <div className="settings-page__content-padded">
+          <div className="settings-page__content-description">
+            {t('securityPoliciesDescription')}
+          </div>
+          <SecurityPolicies />
+        </div>
+      </>
+    );
+  }
+
+  renderThrottledOrigins() {
+    const { t } = this.context;
+    const { navigate } = this.props;
+
+    return (
+      <>
+        <div className="settings-page__security-tab-sub-header">
+          {t('throttledOrigins')}
+        </div>
+        <div className="settings-page__content-padded">
+          <Box
+            className="settings-page__content-row"
+            display={Display.Flex}
+            flexDirection={FlexDirection.Column}
+            gap={4}
+          >
+            <div className="settings-page__content-item">
+              <div className="settings-page__content-description">
+                {t('throttledOriginsSettingDescription')}
+              </div>
+            </div>
+            <div className="settings-page__content-item-col">
+              <Button
+                data-testid="throttled-origins-button"
+                size={ButtonSize.Lg}
+                onClick={() => {
+                  navigate(SECURITY_THROTTLED_ORIGINS_ROUTE);
+                }}
+              >
+                {t('throttledOriginsManage')}
+              </Button>
+            </div>
+          </Box>
+        </div>
+      </>
+    );
+  }
+
+  renderApprovalAudit() {
+    const { t } = this.context;
+    const { navigate } = this.props;
+
+    return (
+      <>
+        <div className="settings-page__security-tab-sub-header">
+          {t('approvalAudit')}
+        </div>
+        <div className="settings-page__content-padded">
+          <Box
+            className="settings-page__content-row"
+            display={Display.Flex}
+            flexDirection={FlexDirection.Column}
+            gap={4}
+          >
+            <div className="settings-page__content-item">
+              <div className="settings-page__content-description">
+                {t('approvalAuditSettingDescription')}
+              </div>
+            </div>
+            <div className="settings-page__content-item-col">
+              <Button
+                data-testid="approval-audit-button"
+                size={ButtonSize.Lg}
+                onClick={() => {
+                  navigate(SECURITY_APPROVALS_ROUTE);
+                }}
+              >
+                {t('approvalAuditReview')}
+              </Button>
+            </div>
+          </Box>
+        </div>
+      </>
+    );
+  }
+
+  renderSecurityAlertHistory() {
+    const { t } = this.context;
+    const { navigate } = this.props;
+
+    return (
+      <>
+        <div className="settings-page__security-tab-sub-header">
+          {t('securityAlertHistory')}
+        </div>
+        <div className="settings-page__content-padded">
+          <Box
+            className="settings-page__content-row"
+            display={Display.Flex}
+            flexDirection={FlexDirection.Column}
+            gap={4}
+          >
+            <div className="settings-page__content-item">
+              <div className="settings-page__content-description">
+                {t('securityAlertHistorySettingDescription')}
+              </div>
+            </div>
+            <div className="settings-page__content-item-col">
+              <Button
+                data-testid="security-alert-history-button"
+                size={ButtonSize.Lg}
+                onClick={() => {
+                  navigate(SECURITY_ALERT_HISTORY_ROUTE);
+                }}
+              >
+                {t('securityAlertHistoryView')}
+              </Button>
+            </div>
+          </Box>
+        </div>
+      </>
+    );
+  }
+
+  renderDelegationTargets() {
+    const { t } = this.context;
+    const { navigate } = this.props;
+
+    return (
+      <>
+        <div className="settings-page__security-tab-sub-header">
+          {t('delegationTargets')}
+        </div>
+        <div className="settings-page__content-padded">
+          <Box
+            className="settings-page__content-row"
+            display={Display.Flex}
+            flexDirection={FlexDirection.Column}
+            gap={4}
+          >
+            <div className="settings-page__content-item">
+              <div className="settings-page__content-description">
+                {t('delegationTargetsSettingDescription')}
+              </div>
+            </div>
+            <div className="settings-page__content-item-col">
+              <Button
+                data-testid="delegation-targets-button"
+                size={ButtonSize.Lg}
+                onClick={() => {
+                  navigate(SECURITY_DELEGATION_TARGETS_ROUTE);
+                }}
+              >
+                {t('delegationTargetsManage')}
+              </Button>
+            </div>
+          </Box>
+        </div>
+      </>
+    );
+  }
+
   renderSecurityAlertsToggle() {
     const { t } = this.context;
     const { securityAlertsEnabled, hasActiveShieldSubscription } = this.props;
@@ -1282,6 +1463,77 @@ export default class SecurityTab extends PureComponent {
     );
   }
 
+  renderHidePoisonTransfers() {
+    const { t } = this.context;
+    const { hidePoisonTransfers, setHidePoisonTransfers } = this.props;
+
+    return (
+      <Box
+        className="settings-page__content-row"
+        data-testid="setting-hide-poison-transfers"
+        display={Display.Flex}
+        flexDirection={FlexDirection.Row}
+        justifyContent={JustifyContent.spaceBetween}
+        gap={4}
+        id="hide-poison-transfers"
+      >
+        <div className="settings-page__content-item">
+          <span>{t('hidePoisonTransfers')}</span>
+          <div className="settings-page__content-description">
+            {t('hidePoisonTransfersDescription')}
+          </div>
+        </div>
+
+        <div
+          className="settings-page__content-item-col"
+          data-testid="hidePoisonTransfers"
+        >
+          <ToggleButton
+            value={hidePoisonTransfers}
+            onToggle={(value) => setHidePoisonTransfers(!value)}
+            offLabel={t('off')}
+            onLabel={t('on')}
+          />
+        </div>
+      </Box>
+    );
+  }
+  renderSecurityStrictMode() {
+    const { t } = this.context;
+    const { securityStrictMode, setSecurityStrictMode } = this.props;
+
+    return (
+      <Box
+        className="settings-page__content-row"
+        data-testid="setting-security-strict-mode"
+        display={Display.Flex}
+        flexDirection={FlexDirection.Row}
+        justifyContent={JustifyContent.spaceBetween}
+        gap={4}
+        id="security-strict-mode"
+      >
+        <div className="settings-page__content-item">
+          <span>{t('securityStrictMode')}</span>
+          <div className="settings-page__content-description">
+            {t('securityStrictModeDescription')}
+          </div>
+        </div>
+
+        <div
+          className="settings-page__content-item-col"
+          data-testid="securityStrictMode"
+        >
+          <ToggleButton
+            value={securityStrictMode}
+            onToggle={(value) => setSecurityStrictMode(!value)}
+            offLabel={t('off')}
+            onLabel={t('on')}
+          />
+        </div>
+      </Box>
+    );
+  }
+
   renderDataCollectionWarning = () => {
     const { t } = this.context;
 
@@ -1337,6 +1589,11 @@ export default class SecurityTab extends PureComponent {
         {this.renderSeedWords()}
         {getIsSeedlessOnboardingFeatureEnabled() && this.renderChangePassword()}
         {this.renderSecurityAlertsToggle()}
+        {this.renderSecurityPolicies()}
+        {this.renderThrottledOrigins()}
+        {this.renderApprovalAudit()}
+        {this.renderSecurityAlertHistory()}
+        {this.renderDelegationTargets()}
         <span className="settings-page__security-tab-sub-header__bold">
           {this.context.t('privacy')}
         </span>
@@ -1352,6 +1609,12 @@ export default class SecurityTab extends PureComponent {
         <div className="settings-page__content-padded">
           {this.renderSkipDeepLinkInterstitial()}
         </div>
+        <div className="settings-page__content-padded">
+          {this.renderHidePoisonTransfers()}
+        </div>
+        <div className="settings-page__content-padded">
+          {this.renderSecurityStrictMode()}
+        </div>
 
         <div>
           <span className="settings-page__security-tab-sub-header">
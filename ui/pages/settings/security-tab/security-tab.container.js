@@ -20,6 +20,8 @@ import {
   setSecurityAlertsEnabled,
   updateDataDeletionTaskStatus,
   setSkipDeepLinkInterstitial,
+  setHidePoisonTransfers,
+  setSecurityStrictMode,
   getMarketingConsent,
   setMarketingConsent,
   setParticipateInMetaMetrics,
@@ -58,7 +60,8 @@ const mapStateToProps = (state) => {
     useExternalNameSources,
   } = metamask;
 
-  const { skipDeepLinkInterstitial } = getPreferences(state);
+  const { skipDeepLinkInterstitial, hidePoisonTransfers, securityStrictMode } =
+    getPreferences(state);
 
   const networkConfigurations = getNetworkConfigurationsByChainId(state);
 
@@ -84,6 +87,8 @@ const mapStateToProps = (state) => {
     metaMetricsDataDeletionId: getMetaMetricsDataDeletionId(state),
     hdEntropyIndex: getHDEntropyIndex(state),
     skipDeepLinkInterstitial: Boolean(skipDeepLinkInterstitial),
+    hidePoisonTransfers: Boolean(hidePoisonTransfers),
+    securityStrictMode: Boolean(securityStrictMode),
     isSeedPhraseBackedUp: getIsPrimarySeedPhraseBackedUp(state),
     socialLoginEnabled: getIsSocialLoginFlow(state),
     socialLoginType: getSocialLoginType(state),
@@ -111,6 +116,8 @@ const mapDispatchToProps = (dispatch) => {
       dispatch(openBasicFunctionalityModal()),
     setSkipDeepLinkInterstitial: (val) =>
       dispatch(setSkipDeepLinkInterstitial(val)),
+    setHidePoisonTransfers: (val) => dispatch(setHidePoisonTransfers(val)),
+    setSecurityStrictMode: (val) => dispatch(setSecurityStrictMode(val)),
     setOpenSeaEnabled: (val) => dispatch(setOpenSeaEnabled(val)),
     setUseNftDetection: (val) => dispatch(setUseNftDetection(val)),
     setUse4ByteResolution: (value) => {
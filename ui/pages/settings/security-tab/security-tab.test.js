@@ -262,6 +262,14 @@ describe('Security Tab', () => {
     expect(toggleCheckbox('skipDeepLinkInterstitial', false)).toBe(true);
   });
 
+  it('toggles hidePoisonTransfers', async () => {
+    expect(toggleCheckbox('hidePoisonTransfers', true)).toBe(true);
+  });
+
+  it('toggles securityStrictMode', async () => {
+    expect(toggleCheckbox('securityStrictMode', false)).toBe(true);
+  });
+
   it('clicks "Add Custom Network"', async () => {
     const user = userEvent.setup();
     renderWithProviders(<SecurityTab />, mockStore);
@@ -0,0 +1 @@
+export { ThrottledOrigins } from './throttled-origins';
@@ -0,0 +1,156 @@
+import React from 'react';
+import { fireEvent } from '@testing-library/react';
+import configureStore from '../../../../store/store';
+import mockState from '../../../../../test/data/mock-state.json';
+import { renderWithProvider } from '../../../../../test/lib/render-helpers-navigate';
+import { ThrottlingMethodClass } from '../../../../../shared/constants/origin-throttling';
+import { MINUTE, SECOND } from '../../../../../shared/constants/time';
+import type { ThrottledOrigins as ThrottledOriginsType } from '../../../../../shared/types/origin-throttling';
+import {
+  blockOriginPermanently,
+  setOriginThrottlingConfig,
+  unblockOrigin,
+} from '../../../../store/actions';
+import { ThrottledOrigins } from './throttled-origins';
+
+jest.mock('../../../../store/actions', () => ({
+  blockOriginPermanently: jest.fn(() => ({ type: 'BLOCK_ORIGIN' })),
+  setOriginThrottlingConfig: jest.fn(() => ({ type: 'SET_CONFIG' })),
+  unblockOrigin: jest.fn(() => ({ type: 'UNBLOCK_ORIGIN' })),
+}));
+
+const ORIGIN_MOCK = 'https://example.com';
+
+const render = (throttledOrigins: ThrottledOriginsType = {}) => {
+  const mockStore = configureStore({
+    ...mockState,
+    metamask: {
+      ...mockState.metamask,
+      throttledOrigins,
+    },
+  });
+
+  return renderWithProvider(<ThrottledOrigins />, mockStore);
+};
+
+describe('ThrottledOrigins', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  it('displays empty state when no origins are throttled', () => {
+    const { getByText } = render();
+
+    expect(getByText('No sites have been blocked.')).toBeInTheDocument();
+  });
+
+  it('displays throttled origins with their block history', () => {
+    const { getByTestId } = render({
+      [ORIGIN_MOCK]: {
+        rejections: {},
+        blockedUntil: Date.now() + 60000,
+        history: [
+          {
+            methodClass: ThrottlingMethodClass.Signature,
+            blockedAt: Date.now(),
+            blockedUntil: Date.now() + 60000,
+          },
+        ],
+      },
+    });
+
+    const origin = getByTestId(`throttled-origin-${ORIGIN_MOCK}`);
+
+    expect(origin).toHaveTextContent(ORIGIN_MOCK);
+    expect(origin).toHaveTextContent('Blocked until');
+    expect(origin).toHaveTextContent('Signatures blocked on');
+  });
+
+  it('blocks origin permanently', () => {
+    const { getByTestId } = render({ [ORIGIN_MOCK]: { rejections: {} } });
+
+    fireEvent.click(getByTestId(`throttled-origin-block-${ORIGIN_MOCK}`));
+
+    expect(blockOriginPermanently).toHaveBeenCalledWith(ORIGIN_MOCK);
+  });
+
+  it('unblocks origin', () => {
+    const { getByTestId, queryByTestId } = render({
+      [ORIGIN_MOCK]: { rejections: {}, isPermanentlyBlocked: true },
+    });
+
+    expect(
+      queryByTestId(`throttled-origin-block-${ORIGIN_MOCK}`),
+    ).not.toBeInTheDocument();
+
+    fireEvent.click(getByTestId(`throttled-origin-unblock-${ORIGIN_MOCK}`));
+
+    expect(unblockOrigin).toHaveBeenCalledWith(ORIGIN_MOCK);
+  });
+
+  it('updates rejection threshold of method class', () => {
+    const { getByTestId } = render();
+    const input = getByTestId(
+      `throttled-origins-threshold-${ThrottlingMethodClass.Signature}`,
+    );
+
+    fireEvent.change(input, { target: { value: '5' } });
+    fireEvent.blur(input);
+
+    expect(setOriginThrottlingConfig).toHaveBeenCalledWith(
+      expect.objectContaining({
+        [ThrottlingMethodClass.Signature]: expect.objectContaining({
+          rejectionThreshold: 5,
+        }),
+      }),
+    );
+  });
+
+  it('updates rejection window of method class', () => {
+    const { getByTestId } = render();
+    const input = getByTestId(
+      `throttled-origins-window-${ThrottlingMethodClass.Transaction}`,
+    );
+
+    fireEvent.change(input, { target: { value: '60' } });
+    fireEvent.blur(input);
+
+    expect(setOriginThrottlingConfig).toHaveBeenCalledWith(
+      expect.objectContaining({
+        [ThrottlingMethodClass.Transaction]: expect.objectContaining({
+          rejectionWindowInMs: 60 * SECOND,
+        }),
+      }),
+    );
+  });
+
+  it('updates block durations of method class', () => {
+    const { getByTestId } = render();
+    const input = getByTestId(
+      `throttled-origins-block-durations-${ThrottlingMethodClass.ChainSwitching}`,
+    );
+
+    fireEvent.change(input, { target: { value: '5, 30' } });
+    fireEvent.blur(input);
+
+    expect(setOriginThrottlingConfig).toHaveBeenCalledWith(
+      expect.objectContaining({
+        [ThrottlingMethodClass.ChainSwitching]: expect.objectContaining({
+          blockDurationsInMs: [5 * MINUTE, 30 * MINUTE],
+        }),
+      }),
+    );
+  });
+
+  it('does not update block durations if invalid', () => {
+    const { getByTestId } = render();
+    const input = getByTestId(
+      `throttled-origins-block-durations-${ThrottlingMethodClass.Signature}`,
+    );
+
+    fireEvent.change(input, { target: { value: '5, soon' } });
+    fireEvent.blur(input);
+
+    expect(setOriginThrottlingConfig).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,307 @@
+import React, { useCallback, useState } from 'react';
+import { useDispatch, useSelector } from 'react-redux';
+import { ThrottlingMethodClass } from '../../../../../shared/constants/origin-throttling';
+import { MINUTE, SECOND } from '../../../../../shared/constants/time';
+import { isOriginBlocked } from '../../../../../shared/lib/origin-throttling';
+import type {
+  OriginThrottlingConfig,
+  OriginThrottlingMethodClassConfig,
+  ThrottledOrigin,
+} from '../../../../../shared/types/origin-throttling';
+import {
+  Box,
+  Button,
+  ButtonSize,
+  ButtonVariant,
+  Text,
+  TextField,
+} from '../../../../components/component-library';
+import {
+  AlignItems,
+  Display,
+  FlexDirection,
+  JustifyContent,
+  TextColor,
+  TextVariant,
+} from '../../../../helpers/constants/design-system';
+import { formatDate } from '../../../../helpers/utils/util';
+import { useI18nContext } from '../../../../hooks/useI18nContext';
+import {
+  selectOriginThrottlingConfig,
+  selectThrottledOrigins,
+} from '../../../../selectors';
+import {
+  blockOriginPermanently,
+  setOriginThrottlingConfig,
+  unblockOrigin,
+} from '../../../../store/actions';
+
+const METHOD_CLASS_TKEY: Record<ThrottlingMethodClass, string> = {
+  [ThrottlingMethodClass.ChainSwitching]: 'throttlingMethodClassChainSwitching',
+  [ThrottlingMethodClass.Signature]: 'throttlingMethodClassSignature',
+  [ThrottlingMethodClass.Transaction]: 'throttlingMethodClassTransaction',
+};
+
+function parseRejectionThreshold(
+  value: string,
+): Partial<OriginThrottlingMethodClassConfig> | undefined {
+  const rejectionThreshold = Number(value);
+
+  if (!Number.isInteger(rejectionThreshold) || rejectionThreshold <= 0) {
+    return undefined;
+  }
+
+  return { rejectionThreshold };
+}
+
+function parseRejectionWindow(
+  value: string,
+): Partial<OriginThrottlingMethodClassConfig> | undefined {
+  const seconds = Number(value);
+
+  if (!value || !Number.isFinite(seconds) || seconds <= 0) {
+    return undefined;
+  }
+
+  return { rejectionWindowInMs: Math.round(seconds * SECOND) };
+}
+
+function parseBlockDurations(
+  value: string,
+): Partial<OriginThrottlingMethodClassConfig> | undefined {
+  const minutes = value
+    .split(',')
+    .map((duration) => duration.trim())
+    .filter(Boolean)
+    .map(Number);
+
+  if (
+    !minutes.length ||
+    minutes.some((duration) => !Number.isFinite(duration) || duration <= 0)
+  ) {
+    return undefined;
+  }
+
+  return {
+    blockDurationsInMs: minutes.map((duration) =>
+      Math.round(duration * MINUTE),
+    ),
+  };
+}
+
+const ThrottlingConfigField = ({
+  description,
+  initialValue,
+  parse,
+  onSave,
+  testId,
+}: {
+  description: string;
+  initialValue: string;
+  parse: (
+    value: string,
+  ) => Partial<OriginThrottlingMethodClassConfig> | undefined;
+  onSave: (update: Partial<OriginThrottlingMethodClassConfig>) => void;
+  testId: string;
+}) => {
+  const [value, setValue] = useState(initialValue);
+  const [hasError, setHasError] = useState(false);
+
+  const handleBlur = useCallback(() => {
+    const update = parse(value);
+    setHasError(!update);
+
+    if (update && value !== initialValue) {
+      onSave(update);
+    }
+  }, [initialValue, onSave, parse, value]);
+
+  return (
+    <Box
+      display={Display.Flex}
+      flexDirection={FlexDirection.Row}
+      justifyContent={JustifyContent.spaceBetween}
+      alignItems={AlignItems.center}
+      gap={4}
+    >
+      <div className="settings-page__content-description">{description}</div>
+      <TextField
+        value={value}
+        error={hasError}
+        onChange={(event) => setValue(event.target.value)}
+        onBlur={handleBlur}
+        testId={testId}
+      />
+    </Box>
+  );
+};
+
+const MethodClassConfigFields = ({
+  methodClass,
+  config,
+}: {
+  methodClass: ThrottlingMethodClass;
+  config: OriginThrottlingConfig;
+}) => {
+  const t = useI18nContext();
+  const dispatch = useDispatch();
+  const { rejectionThreshold, rejectionWindowInMs, blockDurationsInMs } =
+    config[methodClass];
+
+  const handleSave = useCallback(
+    (update: Partial<OriginThrottlingMethodClassConfig>) => {
+      dispatch(
+        setOriginThrottlingConfig({
+          ...config,
+          [methodClass]: {
+            ...config[methodClass],
+            ...update,
+          },
+        }),
+      );
+    },
+    [config, dispatch, methodClass],
+  );
+
+  return (
+    <Box
+      className="settings-page__content-row"
+      display={Display.Flex}
+      flexDirection={FlexDirection.Column}
+      gap={2}
+    >
+      <span>{t(METHOD_CLASS_TKEY[methodClass])}</span>
+      <ThrottlingConfigField
+        description={t('throttledOriginsRejectionThresholdDescription')}
+        initialValue={String(rejectionThreshold)}
+        parse={parseRejectionThreshold}
+        onSave={handleSave}
+        testId={`throttled-origins-threshold-${methodClass}`}
+      />
+      <ThrottlingConfigField
+        description={t('throttledOriginsRejectionWindowDescription')}
+        initialValue={String(rejectionWindowInMs / SECOND)}
+        parse={parseRejectionWindow}
+        onSave={handleSave}
+        testId={`throttled-origins-window-${methodClass}`}
+      />
+      <ThrottlingConfigField
+        description={t('throttledOriginsBlockDurationsDescription')}
+        initialValue={blockDurationsInMs
+          .map((duration) => duration / MINUTE)
+          .join(', ')}
+        parse={parseBlockDurations}
+        onSave={handleSave}
+        testId={`throttled-origins-block-durations-${methodClass}`}
+      />
+    </Box>
+  );
+};
+
+const ThrottledOriginItem = ({
+  origin,
+  throttledOrigin,
+}: {
+  origin: string;
+  throttledOrigin: ThrottledOrigin;
+}) => {
+  const t = useI18nContext();
+  const dispatch = useDispatch();
+  const { blockedUntil, history = [], isPermanentlyBlocked } = throttledOrigin;
+
+  let status = t('throttledOriginNotBlocked');
+
+  if (isPermanentlyBlocked) {
+    status = t('throttledOriginBlockedPermanently');
+  } else if (isOriginBlocked(throttledOrigin)) {
+    status = t('throttledOriginBlockedUntil', [formatDate(blockedUntil)]);
+  }
+
+  return (
+    <Box
+      className="settings-page__content-row"
+      display={Display.Flex}
+      flexDirection={FlexDirection.Column}
+      gap={2}
+      data-testid={`throttled-origin-${origin}`}
+    >
+      <Text variant={TextVariant.bodyMdMedium}>{origin}</Text>
+      <Text variant={TextVariant.bodySm} color={TextColor.textAlternative}>
+        {status}
+      </Text>
+      {history.map(({ methodClass, blockedAt, blockedUntil: until }) => (
+        <Text
+          key={blockedAt}
+          variant={TextVariant.bodySm}
+          color={TextColor.textAlternative}
+        >
+          {t('throttledOriginHistoryEntry', [
+            t(METHOD_CLASS_TKEY[methodClass]),
+            formatDate(blockedAt),
+            formatDate(until),
+          ])}
+        </Text>
+      ))}
+      <Box display={Display.Flex} flexDirection={FlexDirection.Row} gap={2}>
+        {!isPermanentlyBlocked && (
+          <Button
+            variant={ButtonVariant.Secondary}
+            size={ButtonSize.Sm}
+            danger
+            onClick={() => dispatch(blockOriginPermanently(origin))}
+            data-testid={`throttled-origin-block-${origin}`}
+          >
+            {t('throttledOriginBlockPermanently')}
+          </Button>
+        )}
+        <Button
+          variant={ButtonVariant.Secondary}
+          size={ButtonSize.Sm}
+          onClick={() => dispatch(unblockOrigin(origin))}
+          data-testid={`throttled-origin-unblock-${origin}`}
+        >
+          {t('throttledOriginUnblock')}
+        </Button>
+      </Box>
+    </Box>
+  );
+};
+
+export const ThrottledOrigins = () => {
+  const t = useI18nContext();
+  const throttledOrigins = useSelector(selectThrottledOrigins);
+  const originThrottlingConfig = useSelector(selectOriginThrottlingConfig);
+  const origins = Object.keys(throttledOrigins);
+
+  return (
+    <div className="settings-page__body" data-testid="throttled-origins">
+      <div className="settings-page__content-padded">
+        <div className="settings-page__content-description">
+          {t('throttledOriginsDescription')}
+        </div>
+        {Object.values(ThrottlingMethodClass).map((methodClass) => (
+          <MethodClassConfigFields
+            key={methodClass}
+            methodClass={methodClass}
+            config={originThrottlingConfig}
+          />
+        ))}
+      </div>
+      <div className="settings-page__content-padded">
+        {origins.length === 0 ? (
+          <div className="settings-page__content-description">
+            {t('throttledOriginsEmpty')}
+          </div>
+        ) : (
+          origins.map((origin) => (
+            <ThrottledOriginItem
+              key={origin}
+              origin={origin}
+              throttledOrigin={throttledOrigins[origin]}
+            />
+          ))
+        )}
+      </div>
+    </div>
+  );
+};
@@ -30,6 +30,10 @@ import {
   REVEAL_SRP_LIST_ROUTE,
   BACKUPANDSYNC_ROUTE,
   SECURITY_PASSWORD_CHANGE_ROUTE,
+  SECURITY_THROTTLED_ORIGINS_ROUTE,
+  SECURITY_APPROVALS_ROUTE,
+  SECURITY_ALERT_HISTORY_ROUTE,
+  SECURITY_DELEGATION_TARGETS_ROUTE,
   TRANSACTION_SHIELD_ROUTE,
   TRANSACTION_SHIELD_CLAIM_ROUTES,
 } from '../../helpers/constants/routes';
@@ -75,6 +79,10 @@ import SettingsSearchList from './settings-search-list';
 import { RevealSrpList } from './security-tab/reveal-srp-list';
 import BackupAndSyncTab from './backup-and-sync-tab';
 import ChangePassword from './security-tab/change-password';
+import { ThrottledOrigins } from './security-tab/throttled-origins';
+import { ApprovalAudit } from './security-tab/approval-audit';
+import { DelegationTargets } from './security-tab/delegation-targets';
+import { SecurityAlertHistory } from './security-tab/security-alert-history';
 import ClaimsArea from './transaction-shield-tab/claims-area';
 import TransactionShield from './transaction-shield-tab';
 
@@ -576,6 +584,19 @@ class SettingsPage extends PureComponent {
           path={SECURITY_PASSWORD_CHANGE_ROUTE}
           element={<ChangePassword />}
         />
+        <Route
+          path={SECURITY_THROTTLED_ORIGINS_ROUTE}
+          element={<ThrottledOrigins />}
+        />
+        <Route path={SECURITY_APPROVALS_ROUTE} element={<ApprovalAudit />} />
+        <Route
+          path={SECURITY_ALERT_HISTORY_ROUTE}
+          element={<SecurityAlertHistory />}
+        />
+        <Route
+          path={SECURITY_DELEGATION_TARGETS_ROUTE}
+          element={<DelegationTargets />}
+        />
         <Route
           path="*"
           element={
@@ -40,6 +40,10 @@ import {
   REVEAL_SRP_LIST_ROUTE,
   BACKUPANDSYNC_ROUTE,
   SECURITY_PASSWORD_CHANGE_ROUTE,
+  SECURITY_THROTTLED_ORIGINS_ROUTE,
+  SECURITY_APPROVALS_ROUTE,
+  SECURITY_ALERT_HISTORY_ROUTE,
+  SECURITY_DELEGATION_TARGETS_ROUTE,
   TRANSACTION_SHIELD_ROUTE,
   TRANSACTION_SHIELD_CLAIM_ROUTES,
 } from '../../helpers/constants/routes';
@@ -70,6 +74,10 @@ const ROUTES_TO_I18N_KEYS = {
   [NETWORKS_ROUTE]: 'networks',
   [REVEAL_SRP_LIST_ROUTE]: 'revealSecretRecoveryPhrase',
   [SECURITY_PASSWORD_CHANGE_ROUTE]: 'securityChangePassword',
+  [SECURITY_THROTTLED_ORIGINS_ROUTE]: 'throttledOrigins',
+  [SECURITY_APPROVALS_ROUTE]: 'approvalAudit',
+  [SECURITY_ALERT_HISTORY_ROUTE]: 'securityAlertHistory',
+  [SECURITY_DELEGATION_TARGETS_ROUTE]: 'delegationTargets',
   [SECURITY_ROUTE]: 'securityAndPrivacy',
   [TRANSACTION_SHIELD_CLAIM_ROUTES.NEW.FULL]: 'shieldClaim',
   [TRANSACTION_SHIELD_CLAIM_ROUTES.BASE]: 'shieldClaimsListTitle',
@@ -100,6 +108,16 @@ const mapStateToProps = (state, ownProps) => {
   const isPasswordChangePage = Boolean(
     pathname.match(SECURITY_PASSWORD_CHANGE_ROUTE),
   );
+  const isThrottledOriginsPage = Boolean(
+    pathname.match(SECURITY_THROTTLED_ORIGINS_ROUTE),
+  );
+  const isApprovalsPage = Boolean(pathname.match(SECURITY_APPROVALS_ROUTE));
+  const isSecurityAlertHistoryPage = Boolean(
+    pathname.match(SECURITY_ALERT_HISTORY_ROUTE),
+  );
+  const isDelegationTargetsPage = Boolean(
+    pathname.match(SECURITY_DELEGATION_TARGETS_ROUTE),
+  );
   const isTransactionShieldPage = Boolean(
     pathname.startsWith(TRANSACTION_SHIELD_ROUTE),
   );
@@ -148,7 +166,14 @@ const mapStateToProps = (state, ownProps) => {
     backRoute = NETWORKS_ROUTE;
   } else if (isAddPopularCustomNetwork) {
     backRoute = NETWORKS_ROUTE;
-  } else if (isRevealSrpListPage || isPasswordChangePage) {
+  } else if (
+    isRevealSrpListPage ||
+    isPasswordChangePage ||
+    isThrottledOriginsPage ||
+    isApprovalsPage ||
+    isSecurityAlertHistoryPage ||
+    isDelegationTargetsPage
+  ) {
     backRoute = SECURITY_ROUTE;
   } else if (isShieldClaimNewPage) {
     backRoute = TRANSACTION_SHIELD_ROUTE;
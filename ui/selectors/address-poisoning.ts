@@ -0,0 +1,68 @@
+import { createSelector } from 'reselect';
+import {
+  TransactionMeta,
+  TransactionStatus,
+  TransactionType,
+} from '@metamask/transaction-controller';
+import { isValidHexAddress } from '../../shared/modules/hexstring-utils';
+import { parseStandardTokenTransactionData } from '../../shared/modules/transaction.utils';
+import { getInternalAccounts } from './accounts';
+import { getCompleteAddressBook, getPreferences } from './selectors';
+import { getTransactions } from './transactions';
+
+const TOKEN_TRANSFER_TYPES: TransactionType[] = [
+  TransactionType.tokenMethodTransfer,
+  TransactionType.tokenMethodTransferFrom,
+  TransactionType.tokenMethodSafeTransferFrom,
+];
+
+function getRecipient({ txParams, type }: TransactionMeta): string | undefined {
+  if (type && TOKEN_TRANSFER_TYPES.includes(type) && txParams.data) {
+    const { args } = parseStandardTokenTransactionData(txParams.data) ?? {};
+    return args?._to ?? args?.to;
+  }
+
+  return txParams.to;
+}
+
+/**
+ * Selects the EVM addresses the user knows, being the address book, their own
+ * accounts and the recipients of their confirmed transactions. Used to detect
+ * look-alike addresses.
+ */
+export const selectKnownAddresses = createSelector(
+  getCompleteAddressBook,
+  getInternalAccounts,
+  getTransactions,
+  (
+    addressBook: { address: string }[],
+    internalAccounts: { address: string }[],
+    transactions: TransactionMeta[],
+  ): string[] => {
+    const recipients = transactions
+      .filter(
+        ({ status, type }) =>
+          status === TransactionStatus.confirmed &&
+          type !== TransactionType.incoming,
+      )
+      .map(getRecipient);
+
+    const addresses = [
+      ...addressBook.map(({ address }) => address),
+      ...internalAccounts.map(({ address }) => address),
+      ...recipients,
+    ]
+      .filter(
+        (address): address is string =>
+          Boolean(address) &&
+          isValidHexAddress(address as string, { allowNonPrefixed: false }),
+      )
+      .map((address) => address.toLowerCase());
+
+    return [...new Set(addresses)];
+  },
+);
+
+export const selectHidePoisonTransfers = (state: {
+  metamask: { preferences?: { hidePoisonTransfers?: boolean } };
+}) => Boolean(getPreferences(state).hidePoisonTransfers);
@@ -0,0 +1,8 @@
+export type ClipboardHijackState = {
+  metamask: {
+    lastCopiedAddress: string | null;
+  };
+};
+
+export const selectLastCopiedAddress = (state: ClipboardHijackState) =>
+  state.metamask.lastCopiedAddress;
@@ -0,0 +1,13 @@
+import type { ConnectionExpiry } from '../../shared/types/connection-expiry';
+
+export type ConnectionExpiryState = {
+  metamask: {
+    connectionExpiries: Record<string, ConnectionExpiry>;
+  };
+};
+
+export const selectConnectionExpiry = (
+  state: ConnectionExpiryState,
+  origin: string | undefined,
+): ConnectionExpiry | undefined =>
+  origin ? state.metamask.connectionExpiries?.[origin] : undefined;
@@ -0,0 +1,29 @@
+import type { Hex } from '@metamask/utils';
+import type {
+  ContactGuardRails,
+  ContactGuardRailsByChain,
+} from '../../shared/types/contact-guard-rails';
+
+export type ContactGuardRailsState = {
+  metamask: {
+    contactGuardRails: ContactGuardRailsByChain;
+  };
+};
+
+export const selectContactGuardRails = (
+  state: ContactGuardRailsState,
+): ContactGuardRailsByChain => state.metamask.contactGuardRails ?? {};
+
+export const selectContactGuardRailsByAddress = (
+  state: ContactGuardRailsState,
+  chainId: Hex | undefined,
+  address: string | undefined,
+): ContactGuardRails | undefined => {
+  if (!chainId || !address) {
+    return undefined;
+  }
+
+  return selectContactGuardRails(state)[chainId]?.[
+    address.toLowerCase() as Hex
+  ];
+};
@@ -0,0 +1,11 @@
+import type { ContractAbiSummaries } from '../../shared/types/contract-abi';
+
+export type ContractAbisState = {
+  metamask: {
+    contractAbiSummaries: ContractAbiSummaries;
+  };
+};
+
+export const selectContractAbiSummaries = (
+  state: ContractAbisState,
+): ContractAbiSummaries => state.metamask.contractAbiSummaries ?? {};
@@ -0,0 +1,11 @@
+import type { DelegationTargets } from '../../shared/types/delegation-target';
+
+export type DelegationTargetsState = {
+  metamask: {
+    delegationTargets: DelegationTargets;
+  };
+};
+
+export const selectDelegationTargets = (
+  state: DelegationTargetsState,
+): DelegationTargets => state.metamask.delegationTargets ?? {};
@@ -9,6 +9,13 @@ export * from './approvals';
 export * from './accounts';
 export * from './remote-feature-flags';
 export * from './origin-throttling';
+export * from './address-poisoning';
+export * from './security-alert-history';
+export * from './clipboard-hijack';
+export * from './connection-expiry';
+export * from './contract-abis';
+export * from './delegation-targets';
+export * from './contact-guard-rails';
 export * from './multichain/networks';
 export * from './multichain-accounts';
 export * from './seedless-onboarding';
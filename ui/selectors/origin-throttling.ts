@@ -6,3 +6,6 @@ export type OriginThrottlingState = {
 
 export const selectThrottledOrigins = (state: OriginThrottlingState) =>
   state.metamask.throttledOrigins;
+
+export const selectOriginThrottlingConfig = (state: OriginThrottlingState) =>
+  state.metamask.originThrottlingConfig;
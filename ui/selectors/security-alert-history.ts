@@ -0,0 +1,10 @@
+import type { SecurityAlertHistoryEntry } from '../../shared/types/security-alert-history';
+
+export type SecurityAlertHistoryState = {
+  metamask: {
+    securityAlertHistory: SecurityAlertHistoryEntry[];
+  };
+};
+
+export const selectSecurityAlertHistory = (state: SecurityAlertHistoryState) =>
+  state.metamask.securityAlertHistory;
@@ -108,6 +108,10 @@ import {
 import { TEMPLATED_CONFIRMATION_APPROVAL_TYPES } from '../pages/confirmations/confirmation/templates';
 import { STATIC_MAINNET_TOKEN_LIST } from '../../shared/constants/tokens';
 import { DAY } from '../../shared/constants/time';
+import {
+  CaveatTypes,
+  EndowmentTypes,
+} from '../../shared/constants/permissions';
 import { TERMS_OF_USE_LAST_UPDATED } from '../../shared/constants/terms';
 import {
   ENVIRONMENT_TYPE_SIDEPANEL,
@@ -3094,6 +3098,27 @@ export function getIsSecurityAlertsEnabled(state) {
   return state.metamask.securityAlertsEnabled;
 }
 
+/**
+ * Get the user-defined security policies evaluated against confirmations.
+ *
+ * @param {*} state
+ * @returns {import('../../shared/constants/security-policy').SecurityPolicy[]}
+ */
+export function getSecurityPolicies(state) {
+  return state.metamask.securityPolicies;
+}
+
+/**
+ * Get whether strict mode is enabled, requiring a typed acknowledgement for
+ * malicious trust signal verdicts.
+ *
+ * @param {*} state
+ * @returns {boolean}
+ */
+export function getSecurityStrictMode(state) {
+  return Boolean(getPreferences(state).securityStrictMode);
+}
+
 /**
  * To get the `getUsePhishDetect` value which determines whether phishing detection is enabled
  *
@@ -3801,6 +3826,25 @@ export function getAllPermittedChainsForSelectedTab(state, activeTab) {
   });
 }
 
+/**
+ * Selects the restrictable RPC methods that the user has allowed an origin to
+ * call.
+ *
+ * @param {object} state - The current state.
+ * @param {string} origin - The origin/subject to get the allowed methods for.
+ * @returns {Array<string> | undefined} The allowed methods, or undefined if the
+ * origin may call every method.
+ */
+export function getAllowedRpcMethods(state, origin) {
+  const permission = subjectSelector(state, origin)?.permissions?.[
+    EndowmentTypes.rpcMethodAllowlist
+  ];
+
+  return permission?.caveats?.find(
+    ({ type }) => type === CaveatTypes.restrictRpcMethods,
+  )?.value;
+}
+
 /**
  * Returns a map of permitted accounts by origin for all origins.
  *
@@ -3017,6 +3017,41 @@ describe('getUrlScanCacheResult', () => {
   });
 });
 
+describe('getAllowedRpcMethods', () => {
+  it('returns undefined if the origin is not restricted', () => {
+    expect(
+      selectors.getAllowedRpcMethods(
+        {
+          metamask: { subjects: { 'https://test.dapp': { permissions: {} } } },
+        },
+        'https://test.dapp',
+      ),
+    ).toBeUndefined();
+  });
+
+  it('returns the allowed methods of the origin', () => {
+    const state = {
+      metamask: {
+        subjects: {
+          'https://test.dapp': {
+            permissions: {
+              'endowment:rpc-method-allowlist': {
+                caveats: [
+                  { type: 'restrictRpcMethods', value: ['personal_sign'] },
+                ],
+              },
+            },
+          },
+        },
+      },
+    };
+
+    expect(
+      selectors.getAllowedRpcMethods(state, 'https://test.dapp'),
+    ).toStrictEqual(['personal_sign']);
+  });
+});
+
 describe('getGasFeesSponsoredNetworkEnabled', () => {
   it('returns the gasFeesSponsoredNetwork flag value for different scenarios', () => {
     const gasFeesSponsoredNetwork = {
@@ -165,9 +165,19 @@ import {
   logErrorWithMessage,
 } from '../../shared/modules/error';
 import { ThemeType } from '../../shared/constants/preferences';
+import type { StateSnapshotMetadata } from '../../shared/constants/state-corruption';
 import { FirstTimeFlowType } from '../../shared/constants/onboarding';
+import { SecurityPolicy } from '../../shared/constants/security-policy';
 import { getMethodDataAsync } from '../../shared/lib/four-byte';
 import { DecodedTransactionDataResponse } from '../../shared/types/transaction-decode';
+import { DelegationTargetReview } from '../../shared/types/delegation-target';
+import { ContactGuardRails } from '../../shared/types/contact-guard-rails';
+import type {
+  OriginThrottlingConfig,
+  ThrottledOrigin,
+} from '../../shared/types/origin-throttling';
+import type { ThrottlingMethodClass } from '../../shared/constants/origin-throttling';
+import type { OutstandingApproval } from '../../shared/types/approval-audit';
 import { LastInteractedConfirmationInfo } from '../pages/confirmations/types/confirm';
 import {
   EndTraceRequest,
@@ -1835,6 +1845,79 @@ export async function restoreUserData(jsonString: Json): Promise<true> {
   return true;
 }
 
+export async function backupEncryptedUserData(password: string): Promise<{
+  fileName: string;
+  data: string;
+}> {
+  try {
+    return await submitRequestToBackground<{
+      fileName: string;
+      data: string;
+    }>('backupEncryptedUserData', [password]);
+  } catch (error) {
+    logErrorWithMessage(error);
+    throw error;
+  }
+}
+
+/**
+ * Restores the wallet from an encrypted backup file. The extension reloads
+ * once the backup is restored.
+ *
+ * @param jsonString - The contents of the backup file.
+ * @param password - The password the backup was encrypted with.
+ * @param currentPassword - The password of the current wallet.
+ */
+export async function restoreEncryptedUserData(
+  jsonString: string,
+  password: string,
+  currentPassword: string,
+): Promise<void> {
+  try {
+    await submitRequestToBackground('restoreEncryptedUserData', [
+      jsonString,
+      password,
+      currentPassword,
+    ]);
+  } catch (error) {
+    logErrorWithMessage(error);
+    throw error;
+  }
+}
+
+/**
+ * Lists the rolling snapshots of the persisted state, newest first.
+ */
+export async function getStateSnapshots(): Promise<StateSnapshotMetadata[]> {
+  try {
+    return await submitRequestToBackground<StateSnapshotMetadata[]>(
+      'getStateSnapshots',
+    );
+  } catch (error) {
+    logErrorWithMessage(error);
+    throw error;
+  }
+}
+
+/**
+ * Restores the persisted state from a snapshot. The extension reloads once
+ * the snapshot is restored.
+ *
+ * @param id - The ID of the snapshot.
+ * @param password - The password of the vault in the snapshot.
+ */
+export async function restoreStateSnapshot(
+  id: string,
+  password: string,
+): Promise<void> {
+  try {
+    await submitRequestToBackground('restoreStateSnapshot', [id, password]);
+  } catch (error) {
+    logErrorWithMessage(error);
+    throw error;
+  }
+}
+
 export function updateSlides(
   slides,
 ): ThunkAction<void, MetaMaskReduxState, unknown, AnyAction> {
@@ -3121,6 +3204,19 @@ export function setPermittedChains(
   };
 }
 
+export function setPermittedRpcMethods(
+  origin: string,
+  methods: string[] | null,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('setPermittedRpcMethods', [
+      origin,
+      methods,
+    ]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
 export function showAccountsPage() {
   return {
     type: actionConstants.SHOW_ACCOUNTS_PAGE,
@@ -3986,6 +4082,28 @@ export function removeFromAddressBook(
   };
 }
 
+/**
+ * Sets the guard rails enforced when sending to an address book contact.
+ *
+ * @param chainId - The chain ID of the contact.
+ * @param address - The address of the contact.
+ * @param guardRails - The guard rails, or undefined to remove them.
+ */
+export function setContactGuardRails(
+  chainId: Hex,
+  address: Hex,
+  guardRails: ContactGuardRails | undefined,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('setContactGuardRails', [
+      chainId,
+      address,
+      guardRails,
+    ]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
 export function showNetworkDropdown(): Action {
   return {
     type: actionConstants.NETWORK_DROPDOWN_OPEN,
@@ -5764,6 +5882,193 @@ export function updateThrottledOriginState(
   };
 }
 
+export function resetThrottledOriginRejections(
+  origin: string,
+  methodClass: ThrottlingMethodClass,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('resetThrottledOriginRejections', [
+      origin,
+      methodClass,
+    ]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+export function blockOriginPermanently(
+  origin: string,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('blockOriginPermanently', [origin]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+export function unblockOrigin(
+  origin: string,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('unblockOrigin', [origin]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+export function setOriginThrottlingConfig(
+  originThrottlingConfig: OriginThrottlingConfig,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('setOriginThrottlingConfig', [
+      originThrottlingConfig,
+    ]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+export async function setLastCopiedAddress(address: string): Promise<void> {
+  try {
+    await submitRequestToBackground('setLastCopiedAddress', [address]);
+  } catch (error) {
+    logErrorWithMessage(error);
+  }
+}
+
+export async function addClipboardHijackHistoryEntry(
+  copiedAddress: string,
+  pastedAddress: string,
+): Promise<void> {
+  try {
+    await submitRequestToBackground('addClipboardHijackHistoryEntry', [
+      copiedAddress,
+      pastedAddress,
+    ]);
+  } catch (error) {
+    logErrorWithMessage(error);
+  }
+}
+
+/**
+ * Imports the ABI of a contract, used to decode transactions sent to it.
+ *
+ * @param chainId - The chain ID of the contract.
+ * @param address - The address of the contract.
+ * @param abiJson - The ABI, build artifact, or verified contract bundle as JSON.
+ */
+export function addContractAbi(
+  chainId: Hex,
+  address: Hex,
+  abiJson: string,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('addContractAbi', [
+      chainId,
+      address,
+      abiJson,
+    ]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+export function removeContractAbi(
+  chainId: Hex,
+  address: Hex,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('removeContractAbi', [chainId, address]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+/**
+ * Reviews the target of an EIP-7702 delegation against the registry of
+ * trusted delegation targets.
+ *
+ * @param request - The request.
+ * @param request.address - The address of the delegation target.
+ * @param request.chainId - The chain of the delegation.
+ * @param request.from - The account being upgraded.
+ * @returns The review of the delegation target.
+ */
+export async function reviewDelegationTarget(request: {
+  address: Hex;
+  chainId: Hex;
+}): Promise<DelegationTargetReview> {
+  return await submitRequestToBackground<DelegationTargetReview>(
+    'reviewDelegationTarget',
+    [request],
+  );
+}
+
+export function approveDelegationTarget(request: {
+  address: Hex;
+  chainId: Hex;
+  name: string;
+}): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('approveDelegationTarget', [request]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+export function removeDelegationTarget(
+  chainId: Hex,
+  address: Hex,
+): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('removeDelegationTarget', [
+      chainId,
+      address,
+    ]);
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+export function clearSecurityAlertHistory(): ThunkAction<
+  Promise<void>,
+  MetaMaskReduxState,
+  unknown,
+  AnyAction
+> {
+  return async (dispatch: MetaMaskReduxDispatch) => {
+    await submitRequestToBackground('clearSecurityAlertHistory');
+    await forceUpdateMetamaskState(dispatch);
+  };
+}
+
+/**
+ * Gets the approvals granted by an account on a chain that are still live.
+ *
+ * @param request - The request.
+ * @param request.address - The account that granted the approvals.
+ * @param request.chainId - The chain to audit.
+ * @returns The outstanding approvals.
+ */
+export async function getOutstandingApprovals(request: {
+  address: Hex;
+  chainId: Hex;
+}): Promise<OutstandingApproval[]> {
+  return await submitRequestToBackground<OutstandingApproval[]>(
+    'getOutstandingApprovals',
+    [request],
+  );
+}
+
+/**
+ * Revokes approvals granted by an account, in a single batch if the account
+ * is upgraded.
+ *
+ * @param request - The request.
+ * @param request.address - The account that granted the approvals.
+ * @param request.chainId - The chain of the approvals.
+ * @param request.approvals - The approvals to revoke.
+ */
+export async function revokeApprovals(request: {
+  address: Hex;
+  chainId: Hex;
+  approvals: OutstandingApproval[];
+}): Promise<void> {
+  await submitRequestToBackground('revokeApprovals', [request]);
+}
+
 export function setFirstTimeFlowType(
   type: FirstTimeFlowType | null,
 ): ThunkAction<Promise<void>, MetaMaskReduxState, unknown, AnyAction> {
@@ -6852,6 +7157,16 @@ export function setSecurityAlertsEnabled(val: boolean): void {
   }
 }
 
+export async function setSecurityPolicies(
+  securityPolicies: SecurityPolicy[],
+): Promise<void> {
+  try {
+    await submitRequestToBackground('setSecurityPolicies', [securityPolicies]);
+  } catch (error) {
+    logErrorWithMessage(error);
+  }
+}
+
 export async function setWatchEthereumAccountEnabled(value: boolean) {
   try {
     await submitRequestToBackground('setWatchEthereumAccountEnabled', [value]);
@@ -7983,6 +8298,14 @@ export function setSkipDeepLinkInterstitial(value: boolean) {
   return setPreference('skipDeepLinkInterstitial', value, false);
 }
 
+export function setHidePoisonTransfers(value: boolean) {
+  return setPreference('hidePoisonTransfers', value, false);
+}
+
+export function setSecurityStrictMode(value: boolean) {
+  return setPreference('securityStrictMode', value, false);
+}
+
 /**
  * Asks the UI to reload the browser extension safely.
  *
@@ -1,5 +1,9 @@
 import { GatorPermissionsMap } from '@metamask/gator-permissions-controller';
 import { Hex } from '@metamask/utils';
+import {
+  GatorPermissionUsage,
+  GatorPermissionUsageRequest,
+} from '../../../shared/types/gator-permission-usage';
 import { submitRequestToBackground } from '../background-connection';
 
 export type FetchAndUpdateGatorPermissionsParams = {
@@ -58,3 +62,19 @@ export const checkDelegationDisabled = async (
     networkClientId,
   ]);
 };
+
+/**
+ * Gets the redemptions and remaining budget of a gator permission from the
+ * chain it was granted on.
+ *
+ * @param request - The permission to get the usage of.
+ * @returns The usage of the permission.
+ */
+export const getGatorPermissionUsage = async (
+  request: GatorPermissionUsageRequest,
+): Promise<GatorPermissionUsage> => {
+  return await submitRequestToBackground<GatorPermissionUsage>(
+    'getGatorPermissionUsage',
+    [request],
+  );
+};